@@ -2,7 +2,9 @@ module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'jsdom',
   setupFilesAfterEnv: ['<rootDir>/test/setupTests.ts'],
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/src/test.ts'],
   moduleNameMapper: {
     '\\.(css|scss)$': '<rootDir>/test/styleMock.js',
+    '^@/(.*)$': '<rootDir>/src/$1',
   },
 };
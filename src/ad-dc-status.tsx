@@ -5,6 +5,7 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
 
 import cockpit from 'cockpit'
+import { _ } from '@/lib/i18n'
 
 interface ServerRoleState {
   addcStatus: boolean | undefined;
@@ -12,7 +13,7 @@ interface ServerRoleState {
   error?: string;
 }
 
-export default function GetServerRole(): JSX.Element {
+export default function GetServerRole (): JSX.Element {
   const [state, setState] = useState<ServerRoleState>({
     addcStatus: undefined,
     loading: true,
@@ -28,7 +29,7 @@ export default function GetServerRole(): JSX.Element {
         try {
           await cockpit.script('which samba-tool', { err: 'ignore' })
         } catch {
-          throw new Error('Samba is not installed or samba-tool is not in PATH')
+          throw new Error(_('Samba is not installed or samba-tool is not in PATH'))
         }
 
         const command = 'samba-tool testparm --parameter-name=serverrole'
@@ -47,12 +48,12 @@ export default function GetServerRole(): JSX.Element {
         const isSambaNotFound = exception?.message?.includes('samba-tool: not found') ||
           exception?.message?.includes('Samba is not installed')
 
-        let errorMessage = exception?.message || 'Failed to check server role'
+        let errorMessage = exception?.message || _('Failed to check server role')
 
         if (isPermissionDenied) {
-          errorMessage = 'Permission required: Please ensure you have sudo access or run Cockpit as administrator'
+          errorMessage = _('Permission required: Please ensure you have sudo access or run Cockpit as administrator')
         } else if (isSambaNotFound) {
-          errorMessage = 'Samba AD DC is not installed. Please install samba package first.'
+          errorMessage = _('Samba AD DC is not installed. Please install samba package first.')
         }
 
         setState({
@@ -73,8 +74,8 @@ export default function GetServerRole(): JSX.Element {
           <div className="w-full max-w-md space-y-4">
             <Progress value={undefined} className="w-full" />
             <div className="text-center">
-              <h2 className="text-lg font-semibold">Loading...</h2>
-              <p className="text-muted-foreground">Checking Samba AD DC status</p>
+              <h2 className="text-lg font-semibold">{_('Loading...')}</h2>
+              <p className="text-muted-foreground">{_('Checking Samba AD DC status')}</p>
             </div>
           </div>
         </div>
@@ -87,7 +88,7 @@ export default function GetServerRole(): JSX.Element {
           <CardContent className="pt-6">
             <div className="text-center space-y-4">
               <div className="text-destructive text-xl">⚠️</div>
-              <h2 className="text-lg font-semibold text-destructive">Error</h2>
+              <h2 className="text-lg font-semibold text-destructive">{_('Error')}</h2>
               <p className="text-sm text-muted-foreground">{state.error}</p>
             </div>
           </CardContent>
@@ -109,9 +110,9 @@ export default function GetServerRole(): JSX.Element {
             <CardContent className="pt-6">
               <div className="text-center space-y-4">
                 <div className="text-muted-foreground text-xl">🏢</div>
-                <h1 className="text-xl font-semibold">No AD DC Found</h1>
+                <h1 className="text-xl font-semibold">{_('No AD DC Found')}</h1>
                 <p className="text-sm text-muted-foreground">
-                  No Active Directory Domain Controller is currently configured on this system.
+                  {_('No Active Directory Domain Controller is currently configured on this system.')}
                 </p>
                 <Provision />
               </div>
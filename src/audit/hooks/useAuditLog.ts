@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react'
+import { AuditAPI } from '../../services/audit-api'
+import type { AuditEntry, AuditFilter } from '../../services/audit'
+import { ErrorHandler } from '../../lib/errors'
+
+export interface UseAuditLogReturn {
+  entries: AuditEntry[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for reading the audit trail. Pass a memoised filter;
+ * the log is re-read whenever it changes.
+ */
+export const useAuditLog = (filter: AuditFilter): UseAuditLogReturn => {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const result = await AuditAPI.list(filter)
+      setEntries(result)
+    } catch (err) {
+      const apiError = ErrorHandler.handle(err, 'useAuditLog.fetchEntries', {
+        showToast: false,
+        rethrow: false
+      })
+      setError(apiError.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [filter])
+
+  const refresh = useCallback(async () => {
+    await fetchEntries()
+  }, [fetchEntries])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  return {
+    entries,
+    loading,
+    error,
+    refresh
+  }
+}
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react'
+import { createRoot } from 'react-dom/client'
+import { History, RefreshCw, X } from 'lucide-react'
+import '../user/tailwind.css'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { BackButton } from '../common'
+import AuditLogList from './list'
+import { useAuditLog } from './hooks/useAuditLog'
+import type { AuditFilter, AuditOutcome } from '@/services/audit'
+import { _, format } from '@/lib/i18n'
+
+interface AuditFilterState {
+  object: string;
+  user: string;
+  from: string;
+  to: string;
+  outcome: AuditOutcome | 'all';
+}
+
+const EMPTY_FILTERS: AuditFilterState = {
+  object: '',
+  user: '',
+  from: '',
+  to: '',
+  outcome: 'all'
+}
+
+function AuditLogPage () {
+  const [filters, setFilters] = useState<AuditFilterState>(EMPTY_FILTERS)
+
+  // Date inputs are whole days in local time; include the full "to" day
+  const auditFilter = useMemo<AuditFilter>(() => ({
+    object: filters.object || undefined,
+    user: filters.user || undefined,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+    outcome: filters.outcome === 'all' ? undefined : filters.outcome
+  }), [filters])
+
+  const { entries, loading, error, refresh } = useAuditLog(auditFilter)
+
+  const updateFilter = (key: keyof AuditFilterState, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+  }
+
+  const failures = entries.filter(entry => entry.outcome === 'failure').length
+
+  return (
+        <div className="min-h-screen bg-background">
+            <div className="container mx-auto p-6 space-y-6">
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <BackButton />
+                        <div>
+                            <h1 className="text-3xl font-bold tracking-tight">{_('Audit Log')}</h1>
+                            <p className="text-muted-foreground">
+                                {_('Changes made to the domain through this console')}
+                            </p>
+                        </div>
+                    </div>
+                    <Button variant="outline" onClick={refresh} disabled={loading}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        {_('Refresh')}
+                    </Button>
+                </div>
+
+                {/* Filters */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{_('Filters')}</CardTitle>
+                        <CardDescription>
+                            {_('Narrow the trail down by object, user or date range')}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+                            <div className="space-y-2">
+                                <Label htmlFor="audit-object">{_('Object')}</Label>
+                                <Input
+                                    id="audit-object"
+                                    placeholder={_('e.g. alice or OU=Sales')}
+                                    value={filters.object}
+                                    onChange={(e) => updateFilter('object', e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="audit-user">{_('User')}</Label>
+                                <Input
+                                    id="audit-user"
+                                    placeholder={_('Cockpit user')}
+                                    value={filters.user}
+                                    onChange={(e) => updateFilter('user', e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="audit-from">{_('From')}</Label>
+                                <Input
+                                    id="audit-from"
+                                    type="date"
+                                    value={filters.from}
+                                    onChange={(e) => updateFilter('from', e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="audit-to">{_('To')}</Label>
+                                <Input
+                                    id="audit-to"
+                                    type="date"
+                                    value={filters.to}
+                                    onChange={(e) => updateFilter('to', e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>{_('Outcome')}</Label>
+                                <Select
+                                    value={filters.outcome}
+                                    onValueChange={(value) => updateFilter('outcome', value)}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="all">{_('All outcomes')}</SelectItem>
+                                        <SelectItem value="success">{_('Success')}</SelectItem>
+                                        <SelectItem value="failure">{_('Failed')}</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        <div className="mt-4 flex items-center justify-between text-sm text-muted-foreground">
+                            <span>
+                                {entries.length} {entries.length === 1 ? _('entry') : _('entries')}
+                                {failures > 0 && format(_(', $0 failed'), failures)}
+                            </span>
+                            <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+                                <X className="mr-2 h-4 w-4" />
+                                {_('Clear Filters')}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {/* Entries */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <History className="h-4 w-4" />
+                            {_('Recorded Changes')}
+                        </CardTitle>
+                        <CardDescription>
+                            {_('Every command that modified the directory, newest first. Passwords are redacted.')}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <AuditLogList
+                            entries={entries}
+                            loading={loading}
+                            error={error}
+                            onRefresh={refresh}
+                        />
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+  )
+}
+
+export { AuditLogList }
+
+// DOM mounting for standalone usage
+document.addEventListener('DOMContentLoaded', () => {
+  const container = document.getElementById('audit')
+  if (container) {
+    const root = createRoot(container)
+    root.render(<AuditLogPage />)
+  }
+})
+
+export default AuditLogPage
@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react'
+import { CheckCircle, XCircle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { DataTable, type DataTableColumn } from '@/components/ui/data-table'
+import { ErrorAlert } from '@/components/ui/error-alert'
+import type { AuditEntry } from '@/services/audit'
+import { _, formatDate } from '@/lib/i18n'
+
+interface AuditLogListProps {
+  entries: AuditEntry[];
+  loading?: boolean;
+  error?: string | null;
+  onRefresh?: () => void;
+}
+
+const AuditLogList: React.FC<AuditLogListProps> = ({ entries, loading = false, error = null, onRefresh = () => {} }) => {
+  const columns = useMemo<DataTableColumn<AuditEntry>[]>(() => [
+    {
+      key: 'timestamp',
+      header: _('Time'),
+      sortable: true,
+      render: (entry) => (
+        <div className="text-sm whitespace-nowrap">
+          {formatDate(entry.timestamp, { dateStyle: 'medium', timeStyle: 'medium' })}
+        </div>
+      )
+    },
+    {
+      key: 'user',
+      header: _('User'),
+      sortable: true,
+      searchable: true,
+      render: (entry) => <div className="font-medium">{entry.user}</div>
+    },
+    {
+      key: 'operation',
+      header: _('Operation'),
+      sortable: true,
+      searchable: true,
+      render: (entry) => <Badge variant="secondary">{entry.operation}</Badge>
+    },
+    {
+      key: 'object',
+      header: _('Object'),
+      sortable: true,
+      searchable: true,
+      render: (entry) => (
+        <div className="text-sm max-w-[200px]">
+          <div className="truncate" title={entry.object}>
+            {entry.object || <span className="text-muted-foreground">-</span>}
+          </div>
+          {entry.attributes?.length
+            ? <div className="truncate text-xs text-muted-foreground">{entry.attributes.join(', ')}</div>
+            : null}
+        </div>
+      )
+    },
+    {
+      key: 'command',
+      header: _('Command'),
+      render: (entry) => (
+        <code className="text-xs font-mono break-all">{entry.command.join(' ')}</code>
+      )
+    },
+    {
+      key: 'outcome',
+      header: _('Outcome'),
+      sortable: true,
+      render: (entry) => entry.outcome === 'success'
+        ? (
+        <Badge variant="default">
+          <CheckCircle className="mr-1 h-3 w-3" />
+          {_('Success')}
+        </Badge>
+          )
+        : (
+        <div className="space-y-1">
+          <Badge variant="destructive">
+            <XCircle className="mr-1 h-3 w-3" />
+            {_('Failed')}
+          </Badge>
+          {entry.errorCode && (
+            <div className="text-xs font-mono text-muted-foreground">{entry.errorCode}</div>
+          )}
+        </div>
+          )
+    }
+  ], [])
+
+  if (error) {
+    return (
+      <ErrorAlert
+        error={error}
+        title={_('Failed to load audit log')}
+        onRetry={onRefresh}
+        retryLabel={_('Retry Loading')}
+      />
+    )
+  }
+
+  return (
+    <DataTable
+      data={entries}
+      columns={columns}
+      loading={loading}
+      searchable={false}
+      emptyMessage={_('No recorded changes match the current filters')}
+    />
+  )
+}
+
+export default AuditLogList
@@ -3,6 +3,7 @@ import { Loader2, AlertCircle, CheckCircle, ArrowLeft, X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { cn } from '@/lib/utils'
+import { _ } from '@/lib/i18n'
 
 // Loading Component
 interface LoadingProps {
@@ -15,7 +16,7 @@ interface LoadingProps {
 export const Loading: React.FC<LoadingProps> = ({
   loading,
   size = 'md',
-  text = 'Loading...',
+  text = _('Loading...'),
   className
 }) => {
   if (!loading) return null
@@ -166,7 +167,7 @@ export const ErrorToast: React.FC<ErrorToastProps> = ({
     )}>
       <Alert variant="destructive" className="shadow-lg">
         <AlertCircle className="h-4 w-4" />
-        <AlertTitle>Error</AlertTitle>
+        <AlertTitle>{_('Error')}</AlertTitle>
         <AlertDescription>{errorMessage}</AlertDescription>
         <Button
           variant="ghost"
@@ -210,7 +211,7 @@ export const SuccessToast: React.FC<SuccessToastProps> = ({
     )}>
       <Alert className="shadow-lg border-green-200 bg-green-50 text-green-800">
         <CheckCircle className="h-4 w-4 text-green-600" />
-        <AlertTitle>Success</AlertTitle>
+        <AlertTitle>{_('Success')}</AlertTitle>
         <AlertDescription>{successMessage}</AlertDescription>
         <Button
           variant="ghost"
@@ -26,6 +26,7 @@ export * from './ui/data-table'
 export * from './ui/confirm-dialog'
 export * from './ui/loading-spinner'
 export * from './ui/error-alert'
+export * from './ui/command-console'
 
 // Layout Components
 export * from './layout'
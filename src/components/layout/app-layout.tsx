@@ -17,9 +17,19 @@ import {
   Settings,
   ChevronRight,
   ChevronDown,
-  Server
+  Server,
+  History,
+  KeyRound,
+  UserX,
+  CalendarClock
 } from 'lucide-react'
 import { SambaLogo } from './samba-logo'
+import { ConnectionSwitcher } from './connection-switcher'
+import { useCapabilities } from './use-capabilities'
+import { BaseAPI } from '@/services/base-api'
+import { DomainAPI } from '@/services/domain-api'
+import type { Requirement } from '@/services/capabilities'
+import { _ } from '@/lib/i18n'
 
 export interface NavigationItem {
   key: string;
@@ -29,87 +39,130 @@ export interface NavigationItem {
   badge?: string | number;
   children?: NavigationItem[];
   description?: string;
+  /**
+   * Hidden when the installed Samba does not meet it
+   */
+  requires?: Requirement;
 }
 
 const navigationItems: NavigationItem[] = [
   {
     key: 'dashboard',
-    label: 'Dashboard',
+    label: _('Dashboard'),
     path: '/',
     icon: Server,
-    description: 'Overview and status'
+    description: _('Overview and status')
   },
   {
     key: 'users',
-    label: 'Users',
+    label: _('Users'),
     path: '/users',
     icon: Users,
-    description: 'Manage user accounts'
+    description: _('Manage user accounts'),
+    requires: { command: 'user' }
   },
   {
     key: 'computers',
-    label: 'Computers',
+    label: _('Computers'),
     path: '/computers',
     icon: Monitor,
-    description: 'Computer accounts'
+    description: _('Computer accounts'),
+    requires: { command: 'computer' }
   },
   {
     key: 'groups',
-    label: 'Groups',
+    label: _('Groups'),
     path: '/groups',
     icon: UserCheck,
-    description: 'Security and distribution groups'
+    description: _('Security and distribution groups'),
+    requires: { command: 'group' }
   },
   {
     key: 'domain',
-    label: 'Domain',
+    label: _('Domain'),
     path: '/domain',
     icon: Building,
-    description: 'Domain configuration',
+    description: _('Domain configuration'),
     children: [
       {
         key: 'domain-info',
-        label: 'Information',
+        label: _('Information'),
         path: '/domain/info',
         icon: Building,
-        description: 'Domain details'
+        description: _('Domain details')
       },
       {
         key: 'domain-backup',
-        label: 'Backup',
+        label: _('Backup'),
         path: '/domain/backup',
         icon: Shield,
-        description: 'Backup operations'
+        description: _('Backup operations'),
+        requires: DomainAPI.requirements.backupOnline
+      },
+      {
+        key: 'domain-password-policy',
+        label: _('Password Policy'),
+        path: '/domain/password-policy',
+        icon: KeyRound,
+        description: _('Password and lockout rules'),
+        requires: { command: 'domain passwordsettings' }
       },
       {
         key: 'domain-trust',
-        label: 'Trust',
+        label: _('Trust'),
         path: '/domain/trust',
         icon: Shield,
-        description: 'Trust relationships'
+        description: _('Trust relationships'),
+        requires: { command: 'domain trust' }
       }
     ]
   },
   {
     key: 'dns',
-    label: 'DNS',
+    label: _('DNS'),
     path: '/dns',
     icon: Globe,
-    description: 'DNS zones and records'
+    description: _('DNS zones and records'),
+    requires: { command: 'dns' }
   },
   {
     key: 'ou',
-    label: 'Organizational Units',
+    label: _('Organizational Units'),
     path: '/organizational-units',
     icon: FolderTree,
-    description: 'OU management'
+    description: _('OU management'),
+    requires: { command: 'ou' }
   },
   {
     key: 'gpo',
-    label: 'Group Policy',
+    label: _('Group Policy'),
     path: '/group-policy',
     icon: Settings,
-    description: 'Group Policy Objects'
+    description: _('Group Policy Objects'),
+    requires: { command: 'gpo' }
+  },
+  {
+    key: 'inactive',
+    label: _('Inactive Accounts'),
+    path: '/inactive-accounts',
+    icon: UserX,
+    description: _('Stale users and computers'),
+    requires: { command: 'user' }
+  },
+  {
+    key: 'expiry',
+    label: _('Password Expiry'),
+    path: '/password-expiry',
+    icon: CalendarClock,
+    description: _('Expiring passwords and accounts'),
+    requires: { command: 'user' }
+  },
+  {
+    key: 'audit',
+    label: _('Audit Log'),
+    path: '/audit',
+    icon: History,
+    description: _('Recorded changes')
   }
 ]
 
@@ -120,8 +173,20 @@ interface SidebarProps {
   onClose: () => void;
 }
 
+const flattenItems = (items: NavigationItem[]): NavigationItem[] =>
+  items.flatMap(item => [item, ...flattenItems(item.children || [])])
+
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, activeItem, onItemClick, onClose }) => {
   const [expandedItems, setExpandedItems] = useState<string[]>([])
+  const allItems = flattenItems(navigationItems)
+  const statuses = useCapabilities(allItems.map(item => item.requires))
+  const unsupported = new Set(allItems.filter((_, index) => statuses[index]?.supported === false).map(item => item.key))
+
+  // Leave out what the installed Samba cannot do
+  const visibleItems = (items: NavigationItem[]): NavigationItem[] =>
+    items
+      .filter(item => !unsupported.has(item.key))
+      .map(item => item.children ? { ...item, children: visibleItems(item.children) } : item)
 
   const toggleExpanded = (key: string) => {
     setExpandedItems(prev =>
@@ -216,8 +281,8 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, activeItem, onItemClick, onCl
             <div className="flex items-center space-x-3">
               <SambaLogo className="h-8 w-8" />
               <div>
-                <h1 className="font-semibold text-lg">Samba AD DC</h1>
-                <p className="text-xs text-muted-foreground">Management Console</p>
+                <h1 className="font-semibold text-lg">{_('Samba AD DC')}</h1>
+                <p className="text-xs text-muted-foreground">{_('Management Console')}</p>
               </div>
             </div>
             <Button
@@ -232,14 +297,14 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, activeItem, onItemClick, onCl
 
           {/* Navigation */}
           <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
-            {navigationItems.map(item => renderNavigationItem(item))}
+            {visibleItems(navigationItems).map(item => renderNavigationItem(item))}
           </nav>
 
           {/* Footer */}
           <div className="p-4 border-t">
             <div className="text-xs text-muted-foreground space-y-1">
-              <div>Version 0.1.0</div>
-              <div>© 2024 Samba AD DC</div>
+              <div>{_('Version 0.1.0')}</div>
+              <div>{_('© 2024 Samba AD DC')}</div>
             </div>
           </div>
         </div>
@@ -275,13 +340,13 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, title }) => {
         </div>
 
         <div className="flex items-center space-x-4">
-          {/* Connection status */}
-          <div className="flex items-center space-x-2">
-            <div className="h-2 w-2 bg-green-500 rounded-full animate-pulse" />
-            <span className="text-sm text-muted-foreground hidden sm:inline">
-              Connected
-            </span>
-          </div>
+          {BaseAPI.isSandbox() && (
+            <Badge variant="outline" className="border-yellow-500 text-yellow-700">
+              {_('Sandbox')}
+            </Badge>
+          )}
+          {/* Domain controller the console operates on */}
+          <ConnectionSwitcher />
         </div>
       </div>
     </header>
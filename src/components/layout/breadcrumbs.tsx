@@ -2,6 +2,7 @@ import React from 'react'
 import { Link, useLocation } from 'react-router-dom'
 import { cn } from '@/lib/utils'
 import { ChevronRight, Home } from 'lucide-react'
+import { _ } from '@/lib/i18n'
 
 export interface BreadcrumbItem {
   label: string;
@@ -17,49 +18,62 @@ export interface BreadcrumbsProps {
 
 // Route to breadcrumb mapping
 const routeBreadcrumbs: Record<string, BreadcrumbItem[]> = {
-  '/': [{ label: 'Dashboard', icon: Home }],
+  '/': [{ label: _('Dashboard'), icon: Home }],
   '/users': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Users' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Users') }
   ],
   '/computers': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Computers' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Computers') }
   ],
   '/groups': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Groups' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Groups') }
   ],
   '/domain': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Domain' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Domain') }
   ],
   '/domain/info': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Domain', path: '/domain' },
-    { label: 'Information' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Domain'), path: '/domain' },
+    { label: _('Information') }
   ],
   '/domain/backup': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Domain', path: '/domain' },
-    { label: 'Backup' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Domain'), path: '/domain' },
+    { label: _('Backup') }
+  ],
+  '/domain/password-policy': [
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Domain'), path: '/domain' },
+    { label: _('Password Policy') }
   ],
   '/domain/trust': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Domain', path: '/domain' },
-    { label: 'Trust' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Domain'), path: '/domain' },
+    { label: _('Trust') }
   ],
   '/dns': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'DNS' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('DNS') }
   ],
   '/organizational-units': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Organizational Units' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Organizational Units') }
   ],
   '/group-policy': [
-    { label: 'Dashboard', path: '/', icon: Home },
-    { label: 'Group Policy' }
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Group Policy') }
+  ],
+  '/inactive-accounts': [
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Inactive Accounts') }
+  ],
+  '/password-expiry': [
+    { label: _('Dashboard'), path: '/', icon: Home },
+    { label: _('Password Expiry') }
   ]
 }
 
@@ -72,7 +86,7 @@ export const Breadcrumbs: React.FC<BreadcrumbsProps> = ({
 
   // Use provided items or derive from current route
   const breadcrumbItems = items || routeBreadcrumbs[location.pathname] || [
-    { label: 'Dashboard', path: '/', icon: Home }
+    { label: _('Dashboard'), path: '/', icon: Home }
   ]
 
   // Filter out home if not requested
@@ -85,7 +99,7 @@ export const Breadcrumbs: React.FC<BreadcrumbsProps> = ({
   }
 
   return (
-    <nav className={cn('flex items-center space-x-2 text-sm', className)} aria-label="Breadcrumb">
+    <nav className={cn('flex items-center space-x-2 text-sm', className)} aria-label={_('Breadcrumb')}>
       <ol className="flex items-center space-x-2">
         {finalItems.map((item, index) => {
           const isLast = index === finalItems.length - 1
@@ -133,7 +147,7 @@ export const useBreadcrumbs = (customItems?: BreadcrumbItem[]) => {
 
     const pathSegments = location.pathname.split('/').filter(Boolean)
     const breadcrumbs: BreadcrumbItem[] = [
-      { label: 'Dashboard', path: '/', icon: Home }
+      { label: _('Dashboard'), path: '/', icon: Home }
     ]
 
     let currentPath = ''
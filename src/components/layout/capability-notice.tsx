@@ -0,0 +1,28 @@
+import React from 'react'
+import { Info } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { CapabilityStatus } from '@/services/capabilities'
+
+interface CapabilityNoticeProps {
+  status?: CapabilityStatus;
+  className?: string;
+}
+
+/**
+ * Explains why an action is unavailable on the installed Samba; renders
+ * nothing while the check is pending or when the action is supported
+ */
+export const CapabilityNotice: React.FC<CapabilityNoticeProps> = ({ status, className }) => {
+  if (!status || status.supported) {
+    return null
+  }
+
+  return (
+    <p className={cn('flex items-start gap-1.5 text-xs text-muted-foreground', className)}>
+      <Info className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+      {status.reason}
+    </p>
+  )
+}
+
+export default CapabilityNotice
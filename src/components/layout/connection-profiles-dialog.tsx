@@ -0,0 +1,259 @@
+import React, { useState } from 'react'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { BaseAPI } from '@/services/base-api'
+import { KerberosAPI } from '@/services/kerberos-api'
+import { LOCAL_PROFILE, type ConnectionProfile } from '@/services/connection'
+import { ValidationError } from '@/lib/errors'
+import { isValidHostname } from '@/lib/arguments'
+import { toast } from 'sonner'
+import { Pencil, Trash2, Plus, Loader2, Server } from 'lucide-react'
+import { useConnection, describeProfile } from './use-connection'
+import { useCapability } from './use-capabilities'
+import { CapabilityNotice } from './capability-notice'
+import { _, format } from '@/lib/i18n'
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, _('Name is required')),
+  host: z.string().trim().refine(value => !value || isValidHostname(value), _('Enter a host name or IP address')),
+  username: z.string().trim(),
+  authMethod: z.enum(['system', 'password', 'kerberos'])
+}).refine(data => data.authMethod === 'system' || data.username, {
+  message: _('Username is required for this authentication method'),
+  path: ['username']
+}).refine(data => data.authMethod !== 'system' || !data.host, {
+  message: _('A remote domain controller needs credentials'),
+  path: ['authMethod']
+}).refine(data => data.authMethod !== 'kerberos' || data.host, {
+  message: _('Kerberos needs the full host name of the domain controller'),
+  path: ['host']
+})
+
+type ProfileFormData = z.infer<typeof profileSchema>;
+
+const emptyProfile: ProfileFormData = {
+  name: '',
+  host: '',
+  username: 'Administrator',
+  authMethod: 'password'
+}
+
+interface ConnectionProfilesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Add, edit and remove connection profiles. Profiles hold the target DC,
+ * the user and how to authenticate, but never a password.
+ */
+export function ConnectionProfilesDialog ({ isOpen, onClose }: ConnectionProfilesDialogProps) {
+  const { profiles } = useConnection()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isTesting, setIsTesting] = useState(false)
+  const kerberosSupport = useCapability(KerberosAPI.requirements.ticket)
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    getValues,
+    setError,
+    watch,
+    formState: { errors }
+  } = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: emptyProfile
+  })
+
+  const authMethod = watch('authMethod')
+
+  const startEditing = (profile?: ConnectionProfile) => {
+    setEditingId(profile?.id || null)
+    reset(profile
+      ? { name: profile.name, host: profile.host || '', username: profile.username || '', authMethod: profile.authMethod }
+      : emptyProfile)
+  }
+
+  const handleClose = () => {
+    startEditing()
+    onClose()
+  }
+
+  const onSubmit = (data: ProfileFormData) => {
+    try {
+      const saved = BaseAPI.getConnections().saveProfile({ ...data, id: editingId || undefined })
+      toast.success(format(_('Saved connection profile "$0"'), saved.name))
+      startEditing()
+    } catch (error) {
+      if (error instanceof ValidationError && error.field && error.field in emptyProfile) {
+        setError(error.field as keyof ProfileFormData, { message: error.message })
+      } else {
+        toast.error((error as Error).message)
+      }
+    }
+  }
+
+  const handleRemove = (profile: ConnectionProfile) => {
+    BaseAPI.getConnections().removeProfile(profile.id)
+    if (editingId === profile.id) {
+      startEditing()
+    }
+    toast.success(format(_('Removed connection profile "$0"'), profile.name))
+  }
+
+  const handleTest = async () => {
+    const host = getValues('host').trim()
+    setIsTesting(true)
+    try {
+      const reachable = await BaseAPI.testConnection(host || undefined)
+      if (reachable) {
+        toast.success(format(_('$0 answered as a domain controller'), host || _('This server')))
+      } else {
+        toast.error(format(_('Could not reach a domain controller at $0'), host || _('this server')))
+      }
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{_('Connection Profiles')}</DialogTitle>
+          <DialogDescription>
+            {_('Choose which domain controller the console manages. Passwords are asked for when a profile is selected and are only kept in memory.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-3 rounded-md border p-2">
+              <Server className="h-4 w-4 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-sm font-medium">{profile.name}</div>
+                <div className="truncate text-xs text-muted-foreground">{describeProfile(profile)}</div>
+              </div>
+              {profile.id !== LOCAL_PROFILE.id && (
+                <>
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(profile)} aria-label={format(_('Edit $0'), profile.name)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(profile)} aria-label={format(_('Remove $0'), profile.name)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 border-t pt-4">
+          <h4 className="text-sm font-medium">{editingId ? _('Edit profile') : _('New profile')}</h4>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">{_('Name *')}</Label>
+              <Input id="profile-name" {...register('name')} placeholder={_('Branch DC')} />
+              {errors.name && <p className="text-sm text-red-500">{errors.name.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-host">{_('Domain controller')}</Label>
+              <Input id="profile-host" {...register('host')} placeholder="dc2.example.com" />
+              {errors.host && <p className="text-sm text-red-500">{errors.host.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-auth">{_('Authentication')}</Label>
+              <Controller
+                control={control}
+                name="authMethod"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="profile-auth">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="password">{_('Username and password')}</SelectItem>
+                      <SelectItem value="kerberos" disabled={kerberosSupport?.supported === false}>
+                        {_('Kerberos ticket')}
+                      </SelectItem>
+                      <SelectItem value="system">{_('Local system (root)')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {errors.authMethod && <p className="text-sm text-red-500">{errors.authMethod.message}</p>}
+              <CapabilityNotice status={kerberosSupport} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-username">{authMethod === 'kerberos' ? _('Principal') : _('Username')}</Label>
+              <Input
+                id="profile-username"
+                {...register('username')}
+                placeholder={authMethod === 'kerberos' ? 'Administrator@EXAMPLE.COM' : 'Administrator'}
+                disabled={authMethod === 'system'}
+              />
+              {errors.username && <p className="text-sm text-red-500">{errors.username.message}</p>}
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {authMethod === 'kerberos'
+              ? (
+              <>
+                {_('A ticket is obtained with')}{' '}<code>kinit</code>{' '}{_('when the profile is selected and commands run with')}{' '}<code>--use-kerberos=required</code>{_(", so changes are made as this principal. Enter the domain controller's full host name, even for this server.")}
+              </>
+                )
+              : (
+              <>
+                {_('Leave the domain controller empty to manage this server. Directory commands are sent to it with')}{' '}<code>-H ldap://host</code>{' '}{_('and the user with')}{' '}<code>-U</code>.
+              </>
+                )}
+          </p>
+
+          <DialogFooter className="gap-2">
+            {editingId && (
+              <Button type="button" variant="ghost" onClick={() => startEditing()}>
+                <Plus className="mr-2 h-4 w-4" />
+                {_('New profile')}
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={handleTest} disabled={isTesting}>
+              {isTesting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {_('Test connection')}
+            </Button>
+            <Button type="submit">
+              {editingId ? _('Save profile') : _('Add profile')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ConnectionProfilesDialog
@@ -0,0 +1,273 @@
+import React, { useContext, useEffect, useState } from 'react'
+import { QueryClientContext } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+import { BaseAPI } from '@/services/base-api'
+import { KerberosAPI } from '@/services/kerberos-api'
+import { isTicketValid, type ConnectionProfile } from '@/services/connection'
+import { ConnectionProfilesDialog } from './connection-profiles-dialog'
+import { useConnection, describeProfile, describeTicketLifetime } from './use-connection'
+import { toast } from 'sonner'
+import { Server, Check, ChevronDown, KeyRound, Settings, Ticket, RefreshCw, Trash2, Loader2 } from 'lucide-react'
+import { _, format, formatDateTime } from '@/lib/i18n'
+
+interface ConnectionPasswordDialogProps {
+  profile: ConnectionProfile | null;
+  onClose: () => void;
+  onEntered: (profile: ConnectionProfile) => void;
+}
+
+/**
+ * Asks for the password of a profile. It is kept in memory for this page
+ * only and never stored; Kerberos profiles use it once to obtain a ticket.
+ */
+export function ConnectionPasswordDialog ({ profile, onClose, onEntered }: ConnectionPasswordDialogProps) {
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const kerberos = profile?.authMethod === 'kerberos'
+
+  const handleClose = () => {
+    setPassword('')
+    setError(null)
+    onClose()
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!profile || !password) return
+
+    if (kerberos) {
+      setIsSubmitting(true)
+      setError(null)
+      try {
+        await KerberosAPI.obtainTicket(profile, password)
+      } catch (err) {
+        setError((err as Error).message)
+        return
+      } finally {
+        setIsSubmitting(false)
+      }
+    } else {
+      BaseAPI.getConnections().setPassword(profile.id, password)
+    }
+
+    setPassword('')
+    onEntered(profile)
+  }
+
+  return (
+    <Dialog open={!!profile} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            {format(_('Connect to $0'), profile?.name)}
+          </DialogTitle>
+          <DialogDescription>
+            {kerberos
+              ? format(_('Enter the password of $0 to obtain a Kerberos ticket. The password itself is not kept.'), profile?.username)
+              : format(_('Enter the password for $0. It is kept in memory until this page is closed and is never saved.'), profile && describeProfile(profile))}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="connection-password">{_('Password')}</Label>
+            <Input
+              id="connection-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              {_('Cancel')}
+            </Button>
+            <Button type="submit" disabled={!password || isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {kerberos ? _('Get ticket') : _('Connect')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export interface ConnectionSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Header control showing which domain controller the console operates on,
+ * with a menu to switch connection profiles
+ */
+export const ConnectionSwitcher: React.FC<ConnectionSwitcherProps> = ({ className }) => {
+  const { profiles, active, ticket, needsPassword } = useConnection()
+  const queryClient = useContext(QueryClientContext)
+  const [passwordProfile, setPasswordProfile] = useState<ConnectionProfile | null>(null)
+  const [manageOpen, setManageOpen] = useState(false)
+  const [, setClock] = useState(0)
+  const kerberos = active.authMethod === 'kerberos'
+
+  // The ticket may have been obtained on another page of this session
+  useEffect(() => {
+    if (kerberos && !BaseAPI.getConnections().getTicket(active.id)) {
+      KerberosAPI.refreshTicket(active).catch(() => undefined)
+    }
+  }, [active, kerberos])
+
+  // Keep the remaining ticket lifetime current
+  useEffect(() => {
+    if (!ticket) return
+    const timer = setInterval(() => setClock(tick => tick + 1), 60000)
+    return () => clearInterval(timer)
+  }, [ticket])
+
+  const activate = (profile: ConnectionProfile) => {
+    BaseAPI.getConnections().select(profile.id)
+    // Cached results belong to the previous domain controller
+    queryClient?.resetQueries()
+  }
+
+  const handleSelect = async (profile: ConnectionProfile) => {
+    const connections = BaseAPI.getConnections()
+    if (profile.authMethod === 'kerberos' && !connections.hasCredentials(profile)) {
+      await KerberosAPI.refreshTicket(profile).catch(() => null)
+    }
+
+    if (connections.hasCredentials(profile)) {
+      activate(profile)
+    } else {
+      setPasswordProfile(profile)
+    }
+  }
+
+  const handleDestroyTicket = async () => {
+    try {
+      await KerberosAPI.destroyTicket(active)
+      toast.success(format(_('Destroyed the Kerberos ticket of $0'), active.username))
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className={cn('max-w-xs', className)}>
+            <span
+              className={cn(
+                'mr-2 h-2 w-2 flex-shrink-0 rounded-full',
+                needsPassword ? 'bg-yellow-500' : 'bg-green-500'
+              )}
+            />
+            <Server className="mr-2 h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{active.name}</span>
+            <span className="ml-2 hidden truncate text-muted-foreground md:inline">
+              {active.host || _('local')}
+            </span>
+            <ChevronDown className="ml-2 h-4 w-4 flex-shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>{_('Domain controller')}</DropdownMenuLabel>
+          {profiles.map(profile => (
+            <DropdownMenuItem key={profile.id} onSelect={() => handleSelect(profile)}>
+              <Check className={cn('mr-2 h-4 w-4', profile.id !== active.id && 'invisible')} />
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{profile.name}</div>
+                <div className="truncate text-xs text-muted-foreground">{describeProfile(profile)}</div>
+              </div>
+              {profile.id === active.id && needsPassword && (
+                <Badge variant="outline" className="ml-2 text-xs">
+                  {kerberos ? _('Ticket needed') : _('Password needed')}
+                </Badge>
+              )}
+            </DropdownMenuItem>
+          ))}
+          {kerberos && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="flex items-start gap-2 font-normal">
+                <Ticket className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                <div className="min-w-0 text-xs">
+                  {ticket
+                    ? (
+                    <>
+                      <div className="truncate font-medium">{ticket.principal}</div>
+                      <div className={cn('text-muted-foreground', !isTicketValid(ticket) && 'text-destructive')}>
+                        {describeTicketLifetime(ticket)}
+                        {ticket.renewUntil && format(_(', renewable until $0'), formatDateTime(ticket.renewUntil))}
+                      </div>
+                    </>
+                      )
+                    : (
+                    <div className="text-muted-foreground">{_('No Kerberos ticket in this session')}</div>
+                      )}
+                </div>
+              </DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => setPasswordProfile(active)}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                {ticket ? _('Get new ticket...') : _('Get ticket...')}
+              </DropdownMenuItem>
+              {ticket && (
+                <DropdownMenuItem onSelect={handleDestroyTicket}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {_('Destroy ticket')}
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setManageOpen(true)}>
+            <Settings className="mr-2 h-4 w-4" />
+            {_('Manage connections...')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ConnectionPasswordDialog
+        profile={passwordProfile}
+        onClose={() => setPasswordProfile(null)}
+        onEntered={(profile) => {
+          setPasswordProfile(null)
+          activate(profile)
+        }}
+      />
+
+      <ConnectionProfilesDialog
+        isOpen={manageOpen}
+        onClose={() => setManageOpen(false)}
+      />
+    </>
+  )
+}
+
+export default ConnectionSwitcher
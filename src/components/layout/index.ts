@@ -4,5 +4,12 @@ export type { AppLayoutProps } from './app-layout'
 export { Breadcrumbs, useBreadcrumbs } from './breadcrumbs'
 export type { BreadcrumbItem, BreadcrumbsProps } from './breadcrumbs'
 
+export { ConnectionSwitcher, ConnectionPasswordDialog } from './connection-switcher'
+export type { ConnectionSwitcherProps } from './connection-switcher'
+export { ConnectionProfilesDialog } from './connection-profiles-dialog'
+export { useConnection, describeProfile, describeTicketLifetime } from './use-connection'
+export { useCapabilities, useCapability } from './use-capabilities'
+export { CapabilityNotice } from './capability-notice'
+
 export { SambaLogo } from './samba-logo'
 export type { SambaLogoProps } from './samba-logo'
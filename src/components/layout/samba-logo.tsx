@@ -1,5 +1,6 @@
 import React from 'react'
 import { cn } from '@/lib/utils'
+import { _ } from '@/lib/i18n'
 
 export interface SambaLogoProps {
   className?: string;
@@ -16,7 +17,7 @@ export const SambaLogo: React.FC<SambaLogoProps> = ({
         'flex items-center justify-center rounded-lg bg-gradient-to-br from-red-500 to-red-600 text-white font-bold text-lg',
         className
       )}>
-        S
+        {_('S')}
       </div>
     )
   }
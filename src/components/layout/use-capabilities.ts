@@ -0,0 +1,28 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { BaseAPI } from '@/services/base-api'
+import type { CapabilityStatus, Requirement } from '@/services/capabilities'
+
+/**
+ * Status of each requirement, undefined until its check has finished.
+ * Callers treat pending checks as supported so nothing flickers; service
+ * calls enforce the requirement anyway.
+ */
+export const useCapabilities = (requirements: Array<Requirement | undefined>): Array<CapabilityStatus | undefined> => {
+  const registry = BaseAPI.getCapabilities()
+  useSyncExternalStore(registry.subscribe, registry.getRevision)
+
+  const key = JSON.stringify(requirements)
+  useEffect(() => {
+    requirements.forEach(requirement => {
+      if (requirement) {
+        registry.check(requirement).catch(() => undefined)
+      }
+    })
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- keyed on the requirements' content
+  }, [registry, key])
+
+  return requirements.map(requirement => requirement ? registry.peek(requirement) : undefined)
+}
+
+export const useCapability = (requirement?: Requirement): CapabilityStatus | undefined =>
+  useCapabilities([requirement])[0]
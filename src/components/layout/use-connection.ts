@@ -0,0 +1,45 @@
+import { useSyncExternalStore } from 'react'
+import { BaseAPI } from '@/services/base-api'
+import type { ConnectionProfile, ConnectionSnapshot, KerberosTicket } from '@/services/connection'
+import { _, format, formatTime } from '@/lib/i18n'
+
+/**
+ * The connection profiles and the active one, updated when they change
+ */
+export const useConnection = (): ConnectionSnapshot => {
+  const connections = BaseAPI.getConnections()
+  return useSyncExternalStore(connections.subscribe, connections.getSnapshot)
+}
+
+/**
+ * Short "user@host" label for a profile
+ */
+export const describeProfile = (profile: ConnectionProfile): string => {
+  const host = profile.host || 'localhost'
+  switch (profile.authMethod) {
+    case 'password':
+      return `${profile.username}@${host}`
+    case 'kerberos':
+      return format(_('$0 on $1 (Kerberos)'), profile.username, host)
+    default:
+      return host
+  }
+}
+
+/**
+ * Remaining lifetime of a ticket, e.g. "expires in 9h 58m"
+ */
+export const describeTicketLifetime = (ticket: KerberosTicket, now: Date = new Date()): string => {
+  if (!ticket.expires) {
+    return _('lifetime unknown')
+  }
+
+  const minutes = Math.floor((ticket.expires.getTime() - now.getTime()) / 60000)
+  if (minutes < 0) {
+    return format(_('expired at $0'), formatTime(ticket.expires))
+  }
+  const hours = Math.floor(minutes / 60)
+  return hours > 0
+    ? format(_('expires in $0h $1m'), hours, minutes % 60)
+    : format(_('expires in $0m'), minutes)
+}
@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { RefreshCw, ShieldAlert } from 'lucide-react'
+
+import { Button } from './button'
+import { Card, CardContent, CardHeader, CardTitle } from './card'
+import { Checkbox } from './checkbox'
+import { Label } from './label'
+import { Badge } from './badge'
+import { ConfirmDialog } from './confirm-dialog'
+import { ErrorAlert } from './error-alert'
+import { LoadingSpinner } from './loading-spinner'
+import { AccountControlAPI } from '@/services/account-control-api'
+import {
+  ACCOUNT_CONTROL_FLAGS,
+  applyAccountControl,
+  changedAccountControlFlags,
+  formatAccountControl
+} from '@/services/account-control'
+import type { AccountControlChanges, AccountControlFlag, AccountControlState } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
+
+export interface AccountControlPanelProps {
+  kind: AccountControlState['kind'];
+  /**
+   * sAMAccountName; computers without the trailing $
+   */
+  name: string;
+  onChanged?: () => void;
+  className?: string;
+}
+
+/**
+ * The security-relevant userAccountControl flags of a user or computer as
+ * switches. Changes are written together after a confirmation, and only
+ * if nobody changed the account in the meantime.
+ */
+export const AccountControlPanel: React.FC<AccountControlPanelProps> = ({
+  kind,
+  name,
+  onChanged,
+  className
+}) => {
+  const [state, setState] = useState<AccountControlState | null>(null)
+  const [changes, setChanges] = useState<AccountControlChanges>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [confirming, setConfirming] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setState(await AccountControlAPI.get(kind, name))
+      setChanges({})
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [kind, name])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const changed = state ? changedAccountControlFlags(state.userAccountControl, changes) : []
+  const weakening = changed.filter(flag => changes[flag] && ACCOUNT_CONTROL_FLAGS.find(entry => entry.flag === flag)?.weakens)
+
+  const toggle = (flag: AccountControlFlag, checked: boolean) => {
+    setChanges(prev => ({ ...prev, [flag]: checked }))
+  }
+
+  const save = async () => {
+    if (!state) return
+
+    try {
+      setSaving(true)
+      setState(await AccountControlAPI.update(kind, name, changes, state.userAccountControl))
+      setChanges({})
+      setConfirming(false)
+      toast.success(format(_('The account flags of $0 were saved'), name))
+      onChanged?.()
+    } catch (err) {
+      setConfirming(false)
+      toast.error((err as Error).message)
+      // Show what is set now, whether the write failed or was refused
+      load()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const flagLabel = (flag: AccountControlFlag) =>
+    _(ACCOUNT_CONTROL_FLAGS.find(entry => entry.flag === flag)?.label || flag)
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ShieldAlert className="h-4 w-4" />
+            {_('Account Control')}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {state && (
+              <span className="font-mono text-xs text-muted-foreground" title="userAccountControl">
+                {formatAccountControl(state.userAccountControl)}
+              </span>
+            )}
+            <Button variant="ghost" size="sm" onClick={load} disabled={loading || saving} title={_('Reload')}>
+              <RefreshCw className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <ErrorAlert
+            error={error}
+            title={_('Failed to load the account flags')}
+            onRetry={load}
+            retryLabel={_('Retry')}
+          />
+        )}
+
+        {loading && !state && <LoadingSpinner />}
+
+        {state && (
+          <div className="space-y-3">
+            {ACCOUNT_CONTROL_FLAGS.map(({ flag, label, description, weakens }) => {
+              const id = `uac-${kind}-${flag}`
+              const checked = changes[flag] ?? state.flags[flag]
+              return (
+                <div key={flag} className="flex items-start gap-3">
+                  <Checkbox
+                    id={id}
+                    checked={checked}
+                    disabled={saving}
+                    onCheckedChange={(value) => toggle(flag, value === true)}
+                  />
+                  <div className="space-y-1 leading-none">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Label htmlFor={id}>{_(label)}</Label>
+                      <code className="text-xs text-muted-foreground">{flag}</code>
+                      {checked && weakens && (
+                        <Badge variant="destructive" className="text-xs">{_('Weakens security')}</Badge>
+                      )}
+                      {changed.includes(flag) && (
+                        <Badge variant="outline" className="text-xs">{_('Changed')}</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{_(description)}</p>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {changed.length > 0 && (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setChanges({})} disabled={saving}>
+              {_('Reset')}
+            </Button>
+            <Button size="sm" onClick={() => setConfirming(true)} disabled={saving}>
+              {_('Save Flags')}
+            </Button>
+          </div>
+        )}
+
+        {state && (
+          <ConfirmDialog
+            isOpen={confirming}
+            title={format(_('Change the account flags of $0'), name)}
+            message={weakening.length
+              ? _('Some of these changes weaken the security of the account. The changes are only written if nobody else changed the account flags in the meantime.')
+              : _('The changes are only written if nobody else changed the account flags in the meantime.')}
+            confirmLabel={_('Save Flags')}
+            variant={weakening.length ? 'destructive' : 'warning'}
+            loading={saving}
+            onConfirm={save}
+            onCancel={() => setConfirming(false)}
+          >
+            <ul className="space-y-1 text-sm">
+              {changed.map(flag => (
+                <li key={flag}>
+                  {changes[flag]
+                    ? format(_('Set: $0'), flagLabel(flag))
+                    : format(_('Clear: $0'), flagLabel(flag))}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 font-mono text-xs text-muted-foreground">
+              {formatAccountControl(state.userAccountControl)} → {formatAccountControl(applyAccountControl(state.userAccountControl, changes))}
+            </p>
+          </ConfirmDialog>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AccountControlPanel
@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Progress } from './progress'
+import { cn } from '@/lib/utils'
+import { matchPhase, type CommandPhase } from '@/services/progress'
+import {
+  Terminal,
+  Check,
+  Circle,
+  Loader2,
+  XCircle
+} from 'lucide-react'
+import { _ } from '@/lib/i18n'
+
+export type CommandStatus = 'idle' | 'running' | 'success' | 'failed' | 'cancelled'
+
+// Older lines are dropped so a chatty command cannot grow the page forever
+const MAX_LINES = 2000
+
+export interface CommandConsoleProps {
+  lines: string[];
+  status: CommandStatus;
+  /**
+   * Known phases of the command; without them only the output is shown
+   */
+  phases?: CommandPhase[];
+  /**
+   * Index of the phase the command has reached, -1 before the first one
+   */
+  phase?: number;
+  title?: string;
+  className?: string;
+}
+
+const phaseProgress = (count: number, phase: number, status: CommandStatus): number => {
+  if (status === 'success') {
+    return 100
+  }
+  if (count === 0 || phase < 0) {
+    return 0
+  }
+  // A phase counts as done once the next one starts
+  return Math.round(((phase + 0.5) / count) * 100)
+}
+
+/**
+ * Live output of a long-running command, with a progress bar and step list
+ * when its phases are known. Feed it with useCommandOutput.
+ */
+export const CommandConsole: React.FC<CommandConsoleProps> = ({
+  lines,
+  status,
+  phases = [],
+  phase = -1,
+  title = _('Command output'),
+  className
+}) => {
+  const outputRef = useRef<HTMLPreElement>(null)
+
+  // Follow the output unless the user scrolled up to read it
+  useEffect(() => {
+    const element = outputRef.current
+    if (element && element.scrollHeight - element.scrollTop - element.clientHeight < 48) {
+      element.scrollTop = element.scrollHeight
+    }
+  }, [lines])
+
+  const progress = phaseProgress(phases.length, phase, status)
+
+  const stepIcon = (index: number) => {
+    if (status === 'success' || index < phase) {
+      return <Check className="h-4 w-4 text-green-600" />
+    }
+    if (index === phase) {
+      if (status === 'running') {
+        return <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      }
+      if (status === 'failed' || status === 'cancelled') {
+        return <XCircle className="h-4 w-4 text-destructive" />
+      }
+    }
+    return <Circle className="h-4 w-4 text-muted-foreground" />
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {phases.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">
+              {phase >= 0 ? phases[phase].description : _('Starting...')}
+            </span>
+            <span className="text-muted-foreground">{progress}%</span>
+          </div>
+          <Progress value={progress} className="h-2" />
+          <ol className="grid gap-1 text-sm sm:grid-cols-2">
+            {phases.map((step, index) => (
+              <li
+                key={step.id}
+                className={cn(
+                  'flex items-center gap-2',
+                  index > phase && status !== 'success' && 'text-muted-foreground'
+                )}
+              >
+                {stepIcon(index)}
+                {step.name}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <div className="rounded-md border bg-muted/40">
+        <div className="flex items-center gap-2 border-b px-3 py-1.5 text-xs text-muted-foreground">
+          <Terminal className="h-3.5 w-3.5" />
+          {title}
+          {status === 'running' && <Loader2 className="ml-auto h-3.5 w-3.5 animate-spin" />}
+        </div>
+        <pre
+          ref={outputRef}
+          className="h-40 overflow-auto whitespace-pre-wrap break-all p-2 font-mono text-xs"
+          aria-live="polite"
+        >
+          {lines.length > 0 ? lines.join('\n') : _('Waiting for output...')}
+        </pre>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Collects the lines of a streamed command and tracks the phase it has
+ * reached. Pass `onOutput` to a streaming API call and the rest to
+ * CommandConsole. The phases must be a stable (module level) array.
+ */
+export const useCommandOutput = (phases: CommandPhase[] = []) => {
+  const [lines, setLines] = useState<string[]>([])
+  const [phase, setPhase] = useState(-1)
+
+  const onOutput = useCallback((line: string) => {
+    setLines(prev => prev.length < MAX_LINES ? [...prev, line] : [...prev.slice(1 - MAX_LINES), line])
+    setPhase(prev => matchPhase(phases, line, prev))
+  }, [phases])
+
+  const reset = useCallback(() => {
+    setLines([])
+    setPhase(-1)
+  }, [])
+
+  return { lines, phase, phases, onOutput, reset }
+}
+
+export default CommandConsole
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from './button'
+import { cn } from '@/lib/utils'
+import { BaseAPI, APIUtils, type PreviewCommand, type PreviewOperation } from '@/services/base-api'
+import {
+  Terminal,
+  Copy,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Loader2
+} from 'lucide-react'
+import { _ } from '@/lib/i18n'
+
+export interface CommandPreviewProps {
+  /**
+   * The API call the dialog is about to make, through the scope it is
+   * given, e.g. `api => api(UserAPI).delete(name)`. Memoise it with
+   * useCallback; the preview is recomputed whenever it changes.
+   */
+  operation: PreviewOperation;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Collapsible "show command" panel for confirmation dialogs. It runs the
+ * operation through BaseAPI.preview, so nothing is changed on the server.
+ */
+export const CommandPreview: React.FC<CommandPreviewProps> = ({
+  operation,
+  disabled = false,
+  className
+}) => {
+  const [expanded, setExpanded] = useState(false)
+  const [commands, setCommands] = useState<PreviewCommand[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (!expanded || disabled) {
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    BaseAPI.preview(operation)
+      .then(result => {
+        if (!cancelled) setCommands(result)
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => { cancelled = true }
+  }, [expanded, disabled, operation])
+
+  // LDIF read from stdin is shown as a here-document
+  const script = commands
+    .map(({ command, input }) => input
+      ? `${APIUtils.toShellCommand(command)} <<'EOF'\n${input}EOF`
+      : APIUtils.toShellCommand(command))
+    .join('\n')
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(script)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy text: ', err)
+    }
+  }
+
+  return (
+    <div className={cn('rounded-md border bg-muted/40 text-sm', className)}>
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-muted-foreground hover:text-foreground disabled:opacity-50"
+        onClick={() => setExpanded(!expanded)}
+        disabled={disabled}
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <Terminal className="h-4 w-4" />
+        {_('Show command')}
+      </button>
+
+      {expanded && (
+        <div className="space-y-2 border-t px-3 py-2">
+          {loading && (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {_('Building preview...')}
+            </div>
+          )}
+          {!loading && error && <p className="text-destructive">{error}</p>}
+          {!loading && !error && (
+            <>
+              <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-background p-2 font-mono text-xs">
+                {script || _('No commands would be run.')}
+              </pre>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">{_('Passwords are redacted.')}</span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCopy}
+                  disabled={!script}
+                >
+                  {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+                  {copied ? _('Copied') : _('Copy as shell command')}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CommandPreview
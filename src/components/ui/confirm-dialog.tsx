@@ -9,8 +9,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle
 } from './alert-dialog'
+import { CommandPreview } from './command-preview'
+import type { PreviewOperation } from '@/services/base-api'
 import { cn } from '@/lib/utils'
 import { AlertTriangle, Trash2, Info, HelpCircle } from 'lucide-react'
+import { _, format } from '@/lib/i18n'
 
 export interface ConfirmDialogProps {
   isOpen: boolean;
@@ -25,6 +28,8 @@ export interface ConfirmDialogProps {
   onConfirm: () => void | Promise<void>;
   onCancel: () => void;
   children?: React.ReactNode;
+  // API call to show as a samba-tool preview; memoise with useCallback
+  preview?: PreviewOperation;
 }
 
 const variantConfig = {
@@ -62,7 +67,8 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
   disabled = false,
   onConfirm,
   onCancel,
-  children
+  children,
+  preview
 }) => {
   const config = variantConfig[variant]
   const IconComponent = config.icon
@@ -99,6 +105,8 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
           </div>
         )}
 
+        {preview && <CommandPreview operation={preview} disabled={disabled} />}
+
         <AlertDialogFooter className="flex-col-reverse sm:flex-row sm:justify-end sm:space-x-2">
           <AlertDialogCancel
             onClick={onCancel}
@@ -119,7 +127,7 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
               ? (
               <div className="flex items-center space-x-2">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current" />
-                <span>Loading...</span>
+                <span>{_('Loading...')}</span>
               </div>
                 )
               : (
@@ -142,6 +150,7 @@ export interface DeleteConfirmDialogProps {
   loading?: boolean;
   onConfirm: () => void | Promise<void>;
   onCancel: () => void;
+  preview?: PreviewOperation;
 }
 
 export const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
@@ -152,13 +161,14 @@ export const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
   message,
   loading = false,
   onConfirm,
-  onCancel
+  onCancel,
+  preview
 }) => {
   const defaultTitle = title || `Delete ${itemType}`
   const defaultMessage = message ||
     (itemName
-      ? `Are you sure you want to delete "${itemName}"? This action cannot be undone.`
-      : `Are you sure you want to delete this ${itemType}? This action cannot be undone.`
+      ? format(_('Are you sure you want to delete "$0"? This action cannot be undone.'), itemName)
+      : format(_('Are you sure you want to delete this $0? This action cannot be undone.'), itemType)
     )
 
   return (
@@ -166,12 +176,13 @@ export const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
       isOpen={isOpen}
       title={defaultTitle}
       message={defaultMessage}
-      confirmLabel={`Delete ${itemType}`}
-      cancelLabel="Cancel"
+      confirmLabel={format(_('Delete $0'), itemType)}
+      cancelLabel={_('Cancel')}
       variant="destructive"
       loading={loading}
       onConfirm={onConfirm}
       onCancel={onCancel}
+      preview={preview}
     />
   )
 }
@@ -183,6 +194,7 @@ export interface BulkDeleteConfirmDialogProps {
   loading?: boolean;
   onConfirm: () => void | Promise<void>;
   onCancel: () => void;
+  preview?: PreviewOperation;
 }
 
 export const BulkDeleteConfirmDialog: React.FC<BulkDeleteConfirmDialogProps> = ({
@@ -191,22 +203,24 @@ export const BulkDeleteConfirmDialog: React.FC<BulkDeleteConfirmDialogProps> = (
   itemType = 'items',
   loading = false,
   onConfirm,
-  onCancel
+  onCancel,
+  preview
 }) => {
   const title = `Delete ${count} ${itemType}`
-  const message = `Are you sure you want to delete ${count} ${itemType}? This action cannot be undone.`
+  const message = format(_('Are you sure you want to delete $0 $1? This action cannot be undone.'), count, itemType)
 
   return (
     <ConfirmDialog
       isOpen={isOpen}
       title={title}
       message={message}
-      confirmLabel={`Delete ${count} ${itemType}`}
-      cancelLabel="Cancel"
+      confirmLabel={format(_('Delete $0 $1'), count, itemType)}
+      cancelLabel={_('Cancel')}
       variant="destructive"
       loading={loading}
       onConfirm={onConfirm}
       onCancel={onCancel}
+      preview={preview}
     />
   )
 }
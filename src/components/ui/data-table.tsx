@@ -27,6 +27,7 @@ import {
   AlertCircle
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { _, format, formatNumber, ngettext } from '@/lib/i18n'
 
 export interface DataTableColumn<T> {
   key: keyof T | string;
@@ -76,12 +77,12 @@ export function DataTable<T extends Record<string, any>> ({
   loading = false,
   error = null,
   searchable = true,
-  searchPlaceholder = 'Search...',
+  searchPlaceholder = _('Search...'),
   actions = [],
   onRowClick,
   onSelectionChange,
   selectable = false,
-  emptyMessage = 'No data found',
+  emptyMessage = _('No data found'),
   className,
   pageSize = 10,
   pagination = false,
@@ -210,7 +211,7 @@ export function DataTable<T extends Record<string, any>> ({
         {pagination && (
           <div className="flex items-center space-x-2">
             <span className="text-sm text-muted-foreground">
-              Rows per page:
+              {_('Rows per page:')}
             </span>
             <select
               value={currentPageSize}
@@ -275,7 +276,7 @@ export function DataTable<T extends Record<string, any>> ({
                 </TableHead>
               ))}
               {actions.length > 0 && (
-                <TableHead className="w-20">Actions</TableHead>
+                <TableHead className="w-20">{_('Actions')}</TableHead>
               )}
             </TableRow>
           </TableHeader>
@@ -375,9 +376,12 @@ export function DataTable<T extends Record<string, any>> ({
       {pagination && totalPages > 1 && (
         <div className="flex items-center justify-between">
           <div className="text-sm text-muted-foreground">
-            Showing {((currentPage - 1) * currentPageSize) + 1} to{' '}
-            {Math.min(currentPage * currentPageSize, sortedData.length)} of{' '}
-            {sortedData.length} entries
+            {format(
+              _('Showing $0 to $1 of $2 entries'),
+              formatNumber(((currentPage - 1) * currentPageSize) + 1),
+              formatNumber(Math.min(currentPage * currentPageSize, sortedData.length)),
+              formatNumber(sortedData.length)
+            )}
           </div>
           <div className="flex items-center space-x-2">
             <Button
@@ -386,7 +390,7 @@ export function DataTable<T extends Record<string, any>> ({
               onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
               disabled={currentPage === 1}
             >
-              Previous
+              {_('Previous')}
             </Button>
             <div className="flex items-center space-x-1">
               {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
@@ -420,7 +424,7 @@ export function DataTable<T extends Record<string, any>> ({
               onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
               disabled={currentPage === totalPages}
             >
-              Next
+              {_('Next')}
             </Button>
           </div>
         </div>
@@ -430,7 +434,7 @@ export function DataTable<T extends Record<string, any>> ({
       {selectable && selectedItems.length > 0 && (
         <div className="flex items-center space-x-2">
           <Badge variant="secondary">
-            {selectedItems.length} selected
+            {format(ngettext('$0 selected', '$0 selected', selectedItems.length), formatNumber(selectedItems.length))}
           </Badge>
           <Button
             variant="outline"
@@ -440,7 +444,7 @@ export function DataTable<T extends Record<string, any>> ({
               onSelectionChange?.([])
             }}
           >
-            Clear selection
+            {_('Clear selection')}
           </Button>
         </div>
       )}
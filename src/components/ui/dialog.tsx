@@ -3,6 +3,7 @@ import * as DialogPrimitive from '@radix-ui/react-dialog'
 import { XIcon } from 'lucide-react'
 
 import { cn } from '@/lib/utils'
+import { _ } from '@/lib/i18n'
 
 function Dialog ({
   ...props
@@ -70,7 +71,7 @@ function DialogContent ({
             className="ring-offset-background focus:ring-ring data-[state=open]:bg-accent data-[state=open]:text-muted-foreground absolute top-4 right-4 rounded-xs opacity-70 transition-opacity hover:opacity-100 focus:ring-2 focus:ring-offset-2 focus:outline-hidden disabled:pointer-events-none [&_svg]:pointer-events-none [&_svg]:shrink-0 [&_svg:not([class*='size-'])]:size-4"
           >
                   <XIcon />
-                  <span className="sr-only">Close</span>
+                  <span className="sr-only">{_('Close')}</span>
               </DialogPrimitive.Close>
               )}
           </DialogPrimitive.Content>
@@ -10,6 +10,8 @@ import {
   AlertTriangle,
   XCircle
 } from 'lucide-react'
+import { _, format } from '@/lib/i18n'
+import { SambaError } from '@/lib/errors'
 
 // Custom error classes
 export class APIError extends Error {
@@ -36,7 +38,7 @@ export class ValidationError extends Error {
 }
 
 export class NetworkError extends Error {
-  constructor (message: string = 'Network connection failed') {
+  constructor (message: string = _('Network connection failed')) {
     super(message)
     this.name = 'NetworkError'
   }
@@ -68,7 +70,7 @@ const getErrorIcon = (error: Error | string | null, variant: string) => {
     return RefreshCw
   }
 
-  if (error instanceof APIError) {
+  if (error instanceof APIError || error instanceof SambaError) {
     return XCircle
   }
 
@@ -84,6 +86,16 @@ const getErrorDetails = (error: Error | string | null) => {
     return { message: '', code: undefined, details: undefined }
   }
 
+  if (error instanceof SambaError) {
+    return {
+      message: error.message,
+      code: error.code,
+      details: error.details,
+      explanation: error.explanation,
+      remedy: error.remedy
+    }
+  }
+
   if (error instanceof APIError) {
     return {
       message: error.message,
@@ -113,7 +125,7 @@ export const ErrorAlert: React.FC<ErrorAlertProps> = ({
   variant = 'destructive',
   onDismiss,
   onRetry,
-  retryLabel = 'Retry',
+  retryLabel = _('Retry'),
   className,
   showIcon = true,
   collapsible = false,
@@ -127,12 +139,12 @@ export const ErrorAlert: React.FC<ErrorAlertProps> = ({
   const IconComponent = getErrorIcon(error, variant)
   const defaultTitle = title || (
     error instanceof ValidationError
-      ? 'Validation Error'
+      ? _('Validation Error')
       : error instanceof NetworkError
-        ? 'Connection Error'
-        : error instanceof APIError
-          ? 'Server Error'
-          : 'Error'
+        ? _('Connection Error')
+        : error instanceof APIError || error instanceof SambaError
+          ? _('Server Error')
+          : _('Error')
   )
 
   return (
@@ -166,17 +178,27 @@ export const ErrorAlert: React.FC<ErrorAlertProps> = ({
                   {errorDetails.message}
                 </AlertDescription>
 
+                {/* What a decoded Samba status code means and how to fix it */}
+                {(errorDetails.explanation || errorDetails.remedy) && (
+                  <div className="mt-2 text-sm space-y-1">
+                    {errorDetails.explanation && <p>{errorDetails.explanation}</p>}
+                    {errorDetails.remedy && (
+                      <p>{format(_('Suggested fix: $0'), errorDetails.remedy)}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Additional error details */}
                 {(errorDetails.code || errorDetails.statusCode || errorDetails.field) && (
                   <div className="mt-2 text-xs text-muted-foreground space-y-1">
                     {errorDetails.code && (
-                      <div>Error Code: {errorDetails.code}</div>
+                      <div>{format(_('Error Code: $0'), errorDetails.code)}</div>
                     )}
                     {errorDetails.statusCode && (
-                      <div>Status: {errorDetails.statusCode}</div>
+                      <div>{format(_('Status: $0'), errorDetails.statusCode)}</div>
                     )}
                     {errorDetails.field && (
-                      <div>Field: {errorDetails.field}</div>
+                      <div>{format(_('Field: $0'), errorDetails.field)}</div>
                     )}
                   </div>
                 )}
@@ -209,7 +231,7 @@ export const ErrorAlert: React.FC<ErrorAlertProps> = ({
                         onClick={onDismiss}
                         className="h-7 px-2 text-xs"
                       >
-                        Dismiss
+                        {_('Dismiss')}
                       </Button>
                     )}
                   </div>
@@ -245,16 +267,16 @@ export interface NetworkErrorAlertProps {
 export const NetworkErrorAlert: React.FC<NetworkErrorAlertProps> = ({
   onRetry,
   onDismiss,
-  message = 'Unable to connect to the server. Please check your connection and try again.'
+  message = _('Unable to connect to the server. Please check your connection and try again.')
 }) => {
   return (
     <ErrorAlert
       error={new NetworkError(message)}
-      title="Connection Error"
+      title={_('Connection Error')}
       variant="warning"
       onRetry={onRetry}
       onDismiss={onDismiss}
-      retryLabel="Retry Connection"
+      retryLabel={_('Retry Connection')}
     />
   )
 }
@@ -270,12 +292,12 @@ export const ValidationErrorAlert: React.FC<ValidationErrorAlertProps> = ({
 }) => {
   const message = errors.length === 1
     ? errors[0].message
-    : `${errors.length} validation errors occurred`
+    : format(_('$0 validation errors occurred'), errors.length)
 
   return (
     <ErrorAlert
       error={new ValidationError(message)}
-      title="Validation Error"
+      title={_('Validation Error')}
       variant="warning"
       onDismiss={onDismiss}
     >
@@ -292,6 +314,47 @@ export const ValidationErrorAlert: React.FC<ValidationErrorAlertProps> = ({
   )
 }
 
+export interface CancelledAlertProps {
+  message: React.ReactNode;
+  title?: string;
+  /**
+   * Output received before the command was stopped; leave it out when the
+   * output is already shown elsewhere, e.g. in a CommandConsole
+   */
+  output?: string[];
+  className?: string;
+}
+
+/**
+ * Shown when a long-running command was cancelled, with whatever it had
+ * reported before it was stopped
+ */
+export const CancelledAlert: React.FC<CancelledAlertProps> = ({
+  message,
+  title = _('Operation Cancelled'),
+  output,
+  className
+}) => {
+  return (
+    <Alert className={cn('border-orange-200 bg-orange-50', className)}>
+      <AlertTriangle className="h-4 w-4 text-orange-600" />
+      <AlertTitle className="text-orange-800">{title}</AlertTitle>
+      <AlertDescription className="text-orange-800 space-y-2">
+        <p className="text-sm">{message}</p>
+        {output && (output.length > 0
+          ? (
+          <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded bg-white/60 p-2 font-mono text-xs">
+            {output.join('\n')}
+          </pre>
+            )
+          : (
+          <p className="text-xs">{_('No output was received before the command was stopped.')}</p>
+            ))}
+      </AlertDescription>
+    </Alert>
+  )
+}
+
 // Hook for managing error state
 export const useErrorHandler = () => {
   const [error, setError] = React.useState<Error | null>(null)
@@ -302,7 +365,7 @@ export const useErrorHandler = () => {
     } else if (typeof error === 'string') {
       setError(new Error(error))
     } else {
-      setError(new Error('An unexpected error occurred'))
+      setError(new Error(_('An unexpected error occurred')))
     }
   }, [])
 
@@ -12,6 +12,7 @@ import {
 
 import { cn } from '@/lib/utils'
 import { Label } from '@/components/ui/label'
+import { _ } from '@/lib/i18n'
 
 const Form = FormProvider
 
@@ -47,7 +48,7 @@ const useFormField = () => {
   const fieldState = getFieldState(fieldContext.name, formState)
 
   if (!fieldContext) {
-    throw new Error('useFormField should be used within <FormField>')
+    throw new Error(_('useFormField should be used within <FormField>'))
   }
 
   const { id } = itemContext
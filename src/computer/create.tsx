@@ -36,15 +36,16 @@ import {
 import { useComputerMutations } from './hooks/useComputerMutations'
 import { ErrorToast, SuccessToast } from '@/common'
 import type { CreateComputerInput, SambaOrganizationalUnit } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 // Computer creation schema
 const createComputerSchema = z.object({
   name: z.string()
-    .min(1, 'Computer name is required')
-    .max(15, 'Computer name cannot exceed 15 characters')
+    .min(1, _('Computer name is required'))
+    .max(15, _('Computer name cannot exceed 15 characters'))
     .regex(
       /^[A-Za-z0-9-]+$/,
-      'Computer name can only contain letters, numbers, and hyphens'
+      _('Computer name can only contain letters, numbers, and hyphens')
     ),
   description: z.string().optional(),
   organizationalUnit: z.string().optional()
@@ -59,11 +60,11 @@ interface CreateComputerDialogProps {
 
 // Common organizational units for computers
 const COMPUTER_ORG_UNITS: SambaOrganizationalUnit[] = [
-  { name: 'Computers', distinguishedName: 'CN=Computers,DC=domain,DC=local', description: 'Default Computers container', createdAt: new Date(), children: [] },
-  { name: 'Domain Controllers', distinguishedName: 'OU=Domain Controllers,DC=domain,DC=local', description: 'Domain Controllers OU', createdAt: new Date(), children: [] },
-  { name: 'Workstations', distinguishedName: 'OU=Workstations,DC=domain,DC=local', description: 'Client Workstations OU', createdAt: new Date(), children: [] },
-  { name: 'Servers', distinguishedName: 'OU=Servers,DC=domain,DC=local', description: 'Server Computers OU', createdAt: new Date(), children: [] },
-  { name: 'Laptops', distinguishedName: 'OU=Laptops,DC=domain,DC=local', description: 'Laptop Computers OU', createdAt: new Date(), children: [] }
+  { name: 'Computers', distinguishedName: 'CN=Computers,DC=domain,DC=local', description: _('Default Computers container'), createdAt: new Date(), children: [] },
+  { name: 'Domain Controllers', distinguishedName: 'OU=Domain Controllers,DC=domain,DC=local', description: _('Domain Controllers OU'), createdAt: new Date(), children: [] },
+  { name: 'Workstations', distinguishedName: 'OU=Workstations,DC=domain,DC=local', description: _('Client Workstations OU'), createdAt: new Date(), children: [] },
+  { name: 'Servers', distinguishedName: 'OU=Servers,DC=domain,DC=local', description: _('Server Computers OU'), createdAt: new Date(), children: [] },
+  { name: 'Laptops', distinguishedName: 'OU=Laptops,DC=domain,DC=local', description: _('Laptop Computers OU'), createdAt: new Date(), children: [] }
 ]
 
 export default function CreateComputerDialog ({
@@ -126,7 +127,7 @@ export default function CreateComputerDialog ({
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage="Computer account created successfully!"
+                    successMessage={_('Computer account created successfully!')}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -136,7 +137,7 @@ export default function CreateComputerDialog ({
                     {trigger || (
                         <Button>
                             <Plus className="mr-2 h-4 w-4" />
-                            Create Computer
+                            {_('Create Computer')}
                         </Button>
                     )}
                 </DialogTrigger>
@@ -144,10 +145,10 @@ export default function CreateComputerDialog ({
                     <DialogHeader>
                         <div className="flex items-center gap-2">
                             <Monitor className="h-5 w-5 text-primary" />
-                            <DialogTitle>Create New Computer Account</DialogTitle>
+                            <DialogTitle>{_('Create New Computer Account')}</DialogTitle>
                         </div>
                         <DialogDescription>
-                            Create a new computer account in Active Directory. The computer name should match the actual computer's name.
+                            {_("Create a new computer account in Active Directory. The computer name should match the actual computer's name.")}
                         </DialogDescription>
                     </DialogHeader>
 
@@ -158,7 +159,7 @@ export default function CreateComputerDialog ({
                                 name="name"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Computer Name</FormLabel>
+                                        <FormLabel>{_('Computer Name')}</FormLabel>
                                         <FormControl>
                                             <Input
                                                 {...field}
@@ -167,7 +168,7 @@ export default function CreateComputerDialog ({
                                             />
                                         </FormControl>
                                         <FormDescription>
-                                            Enter the computer name (up to 15 characters, letters, numbers, and hyphens only)
+                                            {_('Enter the computer name (up to 15 characters, letters, numbers, and hyphens only)')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -179,16 +180,16 @@ export default function CreateComputerDialog ({
                                 name="description"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Description</FormLabel>
+                                        <FormLabel>{_('Description')}</FormLabel>
                                         <FormControl>
                                             <Textarea
                                                 {...field}
-                                                placeholder="Optional description for this computer..."
+                                                placeholder={_('Optional description for this computer...')}
                                                 rows={3}
                                             />
                                         </FormControl>
                                         <FormDescription>
-                                            Provide an optional description for the computer account
+                                            {_('Provide an optional description for the computer account')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -200,11 +201,11 @@ export default function CreateComputerDialog ({
                                 name="organizationalUnit"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Organizational Unit</FormLabel>
+                                        <FormLabel>{_('Organizational Unit')}</FormLabel>
                                         <Select onValueChange={field.onChange} value={field.value}>
                                             <FormControl>
                                                 <SelectTrigger>
-                                                    <SelectValue placeholder="Select Organizational Unit (optional)" />
+                                                    <SelectValue placeholder={_('Select Organizational Unit (optional)')} />
                                                 </SelectTrigger>
                                             </FormControl>
                                             <SelectContent>
@@ -221,7 +222,7 @@ export default function CreateComputerDialog ({
                                             </SelectContent>
                                         </Select>
                                         <FormDescription>
-                                            Choose where to create the computer account (defaults to Computers container)
+                                            {_('Choose where to create the computer account (defaults to Computers container)')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -234,11 +235,11 @@ export default function CreateComputerDialog ({
                                     variant="outline"
                                     onClick={() => handleOpenChange(false)}
                                 >
-                                    Cancel
+                                    {_('Cancel')}
                                 </Button>
                                 <Button type="submit" disabled={creating}>
                                     {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                    Create Computer
+                                    {_('Create Computer')}
                                 </Button>
                             </DialogFooter>
                         </form>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Trash2, Loader2, AlertTriangle } from 'lucide-react'
@@ -25,17 +25,21 @@ import {
   FormMessage
 } from '@/components/ui/form'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 
 import { useComputerMutations } from './hooks/useComputerMutations'
+import { ComputerAPI } from '@/services/computer-api'
+import type { PreviewScope } from '@/services/base-api'
 import { ErrorToast, SuccessToast } from '@/common'
 import type { SambaComputer } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 // Delete computer schema
 const deleteComputerSchema = z.object({
-  computerName: z.string().min(1, 'Computer name is required'),
-  confirmComputerName: z.string().min(1, 'Please type the computer name to confirm')
+  computerName: z.string().min(1, _('Computer name is required')),
+  confirmComputerName: z.string().min(1, _('Please type the computer name to confirm'))
 }).refine((data) => data.computerName === data.confirmComputerName, {
-  message: "Computer names don't match",
+  message: _("Computer names don't match"),
   path: ['confirmComputerName']
 })
 
@@ -85,6 +89,8 @@ export default function DeleteComputerDialog ({
   const confirmComputerName = form.watch('confirmComputerName')
   const canDelete = confirmComputerName === computerName && !deleting
 
+  const previewDelete = useCallback((api: PreviewScope) => api(ComputerAPI).delete(computerName), [computerName])
+
   const onSubmit = async (data: DeleteComputerFormData) => {
     clearError()
     await deleteComputer(data.computerName)
@@ -108,7 +114,7 @@ export default function DeleteComputerDialog ({
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage={`Computer "${computerName}" deleted successfully.`}
+                    successMessage={format(_('Computer "$0" deleted successfully.'), computerName)}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -118,7 +124,7 @@ export default function DeleteComputerDialog ({
                     {trigger || (
                         <Button variant="destructive">
                             <Trash2 className="mr-2 h-4 w-4" />
-                            Delete Computer
+                            {_('Delete Computer')}
                         </Button>
                     )}
                 </DialogTrigger>
@@ -126,17 +132,17 @@ export default function DeleteComputerDialog ({
                     <DialogHeader>
                         <div className="flex items-center gap-2">
                             <AlertTriangle className="h-5 w-5 text-destructive" />
-                            <DialogTitle>Delete Computer Account</DialogTitle>
+                            <DialogTitle>{_('Delete Computer Account')}</DialogTitle>
                         </div>
                         <DialogDescription>
-                            This action cannot be undone. This will permanently delete the computer account from Active Directory.
+                            {_('This action cannot be undone. This will permanently delete the computer account from Active Directory.')}
                         </DialogDescription>
                     </DialogHeader>
 
                     <Alert>
                         <AlertTriangle className="h-4 w-4" />
                         <AlertDescription>
-                            <strong>Warning:</strong> Deleting this computer account will prevent the computer from logging into the domain until it is rejoined.
+                            <strong>{_('Warning:')}</strong>{' '}{_('Deleting this computer account will prevent the computer from logging into the domain until it is rejoined.')}
                         </AlertDescription>
                     </Alert>
 
@@ -147,11 +153,11 @@ export default function DeleteComputerDialog ({
                                 name="computerName"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Computer Name</FormLabel>
+                                        <FormLabel>{_('Computer Name')}</FormLabel>
                                         <FormControl>
                                             <Input
                                                 {...field}
-                                                placeholder="Enter computer name"
+                                                placeholder={_('Enter computer name')}
                                                 disabled={!!computer}
                                             />
                                         </FormControl>
@@ -165,15 +171,15 @@ export default function DeleteComputerDialog ({
                                 name="confirmComputerName"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Confirm Computer Name</FormLabel>
+                                        <FormLabel>{_('Confirm Computer Name')}</FormLabel>
                                         <FormControl>
                                             <Input
                                                 {...field}
-                                                placeholder={`Type "${displayName}" to confirm`}
+                                                placeholder={format(_('Type "$0" to confirm'), displayName)}
                                             />
                                         </FormControl>
                                         <FormDescription>
-                                            Type the computer name exactly as shown above to confirm deletion
+                                            {_('Type the computer name exactly as shown above to confirm deletion')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -182,27 +188,29 @@ export default function DeleteComputerDialog ({
 
                             {computer && (
                                 <div className="rounded-lg bg-muted p-4 space-y-2">
-                                    <div className="font-medium">Computer Details:</div>
+                                    <div className="font-medium">{_('Computer Details:')}</div>
                                     <div className="text-sm space-y-1">
-                                        <div><strong>Name:</strong> {computer.name}</div>
+                                        <div><strong>{_('Name:')}</strong> {computer.name}</div>
                                         {computer.dnsHostName && (
-                                            <div><strong>DNS Name:</strong> {computer.dnsHostName}</div>
+                                            <div><strong>{_('DNS Name:')}</strong> {computer.dnsHostName}</div>
                                         )}
                                         {computer.operatingSystem && (
-                                            <div><strong>OS:</strong> {computer.operatingSystem}</div>
+                                            <div><strong>{_('OS:')}</strong> {computer.operatingSystem}</div>
                                         )}
-                                        <div><strong>Status:</strong> {computer.enabled ? 'Enabled' : 'Disabled'}</div>
+                                        <div><strong>{_('Status:')}</strong> {computer.enabled ? _('Enabled') : _('Disabled')}</div>
                                     </div>
                                 </div>
                             )}
 
+                            <CommandPreview operation={previewDelete} disabled={!computerName} />
+
                             <DialogFooter>
                                 <Button
                                     type="button"
                                     variant="outline"
                                     onClick={() => handleOpenChange(false)}
                                 >
-                                    Cancel
+                                    {_('Cancel')}
                                 </Button>
                                 <Button
                                     type="submit"
@@ -210,7 +218,7 @@ export default function DeleteComputerDialog ({
                                     disabled={!canDelete}
                                 >
                                     {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                    Delete Computer
+                                    {_('Delete Computer')}
                                 </Button>
                             </DialogFooter>
                         </form>
@@ -60,13 +60,15 @@ export const useComputers = (options: UseComputersOptions = {}): UseComputersRet
   }, [])
 
   // Fetch computers
-  const fetchComputers = useCallback(async (appliedFilters?: FilterOptions) => {
+  const fetchComputers = useCallback(async (appliedFilters?: FilterOptions, background = false) => {
     try {
       setLoading(true)
       clearError()
 
       const currentFilters = appliedFilters || filters
-      const fetchedComputers = await ComputerAPI.list(currentFilters)
+      const fetchedComputers = background
+        ? await ComputerAPI.inBackground(() => ComputerAPI.list(currentFilters))
+        : await ComputerAPI.list(currentFilters)
 
       setComputers(fetchedComputers)
       setLastUpdated(new Date())
@@ -152,7 +154,7 @@ export const useComputers = (options: UseComputersOptions = {}): UseComputersRet
     if (!autoRefresh) return
 
     const intervalId = setInterval(() => {
-      fetchComputers()
+      fetchComputers(undefined, true)
     }, refreshInterval)
 
     return () => clearInterval(intervalId)
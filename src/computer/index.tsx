@@ -29,6 +29,7 @@ import ShowComputerDialog from './show'
 // Import hooks
 import { useComputers } from './hooks/useComputers'
 import type { FilterOptions } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 interface ComputerManagementPageProps {
     initialView?: 'list' | 'management';
@@ -61,9 +62,9 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                 {/* Header */}
                 <div className="flex items-center justify-between">
                     <div>
-                        <h1 className="text-3xl font-bold tracking-tight">Computer Management</h1>
+                        <h1 className="text-3xl font-bold tracking-tight">{_('Computer Management')}</h1>
                         <p className="text-muted-foreground">
-                            Manage Active Directory computer accounts and domain-joined machines
+                            {_('Manage Active Directory computer accounts and domain-joined machines')}
                         </p>
                     </div>
                     <div className="flex gap-2">
@@ -72,7 +73,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                             trigger={
                                 <Button>
                                     <Plus className="mr-2 h-4 w-4" />
-                                    Create Computer
+                                    {_('Create Computer')}
                                 </Button>
                             }
                         />
@@ -83,7 +84,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Total Computers</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Total Computers')}</CardTitle>
                             <Monitor className="h-4 w-4 text-muted-foreground" />
                         </CardHeader>
                         <CardContent>
@@ -92,7 +93,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Enabled</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Enabled')}</CardTitle>
                             <div className="h-2 w-2 bg-green-500 rounded-full" />
                         </CardHeader>
                         <CardContent>
@@ -101,7 +102,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Disabled</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Disabled')}</CardTitle>
                             <div className="h-2 w-2 bg-red-500 rounded-full" />
                         </CardHeader>
                         <CardContent>
@@ -110,7 +111,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">OS Types</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('OS Types')}</CardTitle>
                             <HardDrive className="h-4 w-4 text-muted-foreground" />
                         </CardHeader>
                         <CardContent>
@@ -123,8 +124,8 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                 <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'list' | 'management')} className="space-y-4">
                     <div className="flex items-center justify-between">
                         <TabsList>
-                            <TabsTrigger value="list">Computer List</TabsTrigger>
-                            <TabsTrigger value="management">Management</TabsTrigger>
+                            <TabsTrigger value="list">{_('Computer List')}</TabsTrigger>
+                            <TabsTrigger value="management">{_('Management')}</TabsTrigger>
                         </TabsList>
 
                         {activeTab === 'list' && (
@@ -132,7 +133,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                                 <div className="relative">
                                     <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                                     <Input
-                                        placeholder="Search computers..."
+                                        placeholder={_('Search computers...')}
                                         value={searchQuery}
                                         onChange={(e) => handleSearch(e.target.value)}
                                         className="pl-10 w-[300px]"
@@ -148,9 +149,9 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                     <TabsContent value="list" className="space-y-4">
                         <Card>
                             <CardHeader>
-                                <CardTitle>Active Directory Computers</CardTitle>
+                                <CardTitle>{_('Active Directory Computers')}</CardTitle>
                                 <CardDescription>
-                                    View and manage all computer accounts in your Active Directory domain
+                                    {_('View and manage all computer accounts in your Active Directory domain')}
                                 </CardDescription>
                             </CardHeader>
                             <CardContent>
@@ -168,9 +169,9 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>Computer Operations</CardTitle>
+                                    <CardTitle>{_('Computer Operations')}</CardTitle>
                                     <CardDescription>
-                                        Perform common computer management tasks
+                                        {_('Perform common computer management tasks')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
@@ -179,7 +180,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
                                                 <Plus className="mr-2 h-4 w-4" />
-                                                Create New Computer
+                                                {_('Create New Computer')}
                                             </Button>
                                         }
                                     />
@@ -187,7 +188,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                                         onComputerDeleted={refreshComputers}
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Delete Computer
+                                                {_('Delete Computer')}
                                             </Button>
                                         }
                                     />
@@ -195,7 +196,7 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
                                         onComputerMoved={refreshComputers}
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Move Computer to OU
+                                                {_('Move Computer to OU')}
                                             </Button>
                                         }
                                     />
@@ -204,16 +205,16 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
 
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>Computer Information</CardTitle>
+                                    <CardTitle>{_('Computer Information')}</CardTitle>
                                     <CardDescription>
-                                        View detailed computer information
+                                        {_('View detailed computer information')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
                                     <ShowComputerDialog
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                View Computer Details
+                                                {_('View Computer Details')}
                                             </Button>
                                         }
                                     />
@@ -222,30 +223,30 @@ function ComputerManagementPage ({ initialView = 'list' }: ComputerManagementPag
 
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>Statistics</CardTitle>
+                                    <CardTitle>{_('Statistics')}</CardTitle>
                                     <CardDescription>
-                                        Computer account statistics
+                                        {_('Computer account statistics')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
                                     <div className="text-sm">
                                         <div className="flex justify-between">
-                                            <span>Total Computers:</span>
+                                            <span>{_('Total Computers:')}</span>
                                             <span className="font-medium">{stats.total}</span>
                                         </div>
                                         <div className="flex justify-between">
-                                            <span>Enabled:</span>
+                                            <span>{_('Enabled:')}</span>
                                             <span className="font-medium text-green-600">{stats.enabled}</span>
                                         </div>
                                         <div className="flex justify-between">
-                                            <span>Disabled:</span>
+                                            <span>{_('Disabled:')}</span>
                                             <span className="font-medium text-red-600">{stats.disabled}</span>
                                         </div>
                                     </div>
 
                                     {Object.keys(stats.byOS).length > 0 && (
                                         <div className="pt-2 border-t">
-                                            <div className="text-sm font-medium mb-2">Operating Systems:</div>
+                                            <div className="text-sm font-medium mb-2">{_('Operating Systems:')}</div>
                                             <div className="space-y-1 text-xs">
                                                 {Object.entries(stats.byOS).map(([os, count]) => (
                                                     <div key={os} className="flex justify-between">
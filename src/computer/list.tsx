@@ -1,5 +1,4 @@
 import React, { useMemo, useCallback } from 'react'
-import { format } from 'date-fns'
 import { Monitor, Power, PowerOff, MoreHorizontal, Trash2, FolderOpen, Info } from 'lucide-react'
 
 import { DataTable, DataTableColumn } from '@/components/ui/data-table'
@@ -23,6 +22,7 @@ import type { SambaComputer } from '@/types/samba'
 import DeleteComputerDialog from './delete'
 import MoveComputerDialog from './move'
 import ShowComputerDialog from './show'
+import { _, format, formatDate, formatTime } from '@/lib/i18n'
 
 interface ComputerListProps {
     computers?: SambaComputer[];
@@ -43,12 +43,12 @@ const ComputerActions: React.FC<ComputerActionsProps> = ({ computer, onRefresh,
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
         <Button variant="ghost" className="h-8 w-8 p-0">
-          <span className="sr-only">Open menu</span>
+          <span className="sr-only">{_('Open menu')}</span>
           <MoreHorizontal className="h-4 w-4" />
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-48">
-        <DropdownMenuLabel>Actions</DropdownMenuLabel>
+        <DropdownMenuLabel>{_('Actions')}</DropdownMenuLabel>
         <DropdownMenuSeparator />
 
         <ShowComputerDialog
@@ -56,7 +56,7 @@ const ComputerActions: React.FC<ComputerActionsProps> = ({ computer, onRefresh,
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <Info className="mr-2 h-4 w-4" />
-              View Details
+              {_('View Details')}
             </DropdownMenuItem>
           }
         />
@@ -69,13 +69,13 @@ const ComputerActions: React.FC<ComputerActionsProps> = ({ computer, onRefresh,
             ? (
             <>
               <PowerOff className="mr-2 h-4 w-4" />
-              Disable Computer
+              {_('Disable Computer')}
             </>
               )
             : (
             <>
               <Power className="mr-2 h-4 w-4" />
-              Enable Computer
+              {_('Enable Computer')}
             </>
               )}
         </DropdownMenuItem>
@@ -86,7 +86,7 @@ const ComputerActions: React.FC<ComputerActionsProps> = ({ computer, onRefresh,
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <FolderOpen className="mr-2 h-4 w-4" />
-              Move to OU
+              {_('Move to OU')}
             </DropdownMenuItem>
           }
         />
@@ -102,7 +102,7 @@ const ComputerActions: React.FC<ComputerActionsProps> = ({ computer, onRefresh,
               className="text-destructive focus:text-destructive"
             >
               <Trash2 className="mr-2 h-4 w-4" />
-              Delete Computer
+              {_('Delete Computer')}
             </DropdownMenuItem>
           }
         />
@@ -148,7 +148,7 @@ export default function ComputerList ({
   const columns = useMemo<DataTableColumn<SambaComputer>[]>(() => [
     {
       key: 'name',
-      header: 'Computer Name',
+      header: _('Computer Name'),
       sortable: true,
       searchable: true,
       render: (computer) => (
@@ -160,7 +160,7 @@ export default function ComputerList ({
     },
     {
       key: 'dnsHostName',
-      header: 'DNS Host Name',
+      header: _('DNS Host Name'),
       sortable: true,
       searchable: true,
       render: (computer) => (
@@ -171,11 +171,11 @@ export default function ComputerList ({
     },
     {
       key: 'operatingSystem',
-      header: 'Operating System',
+      header: _('Operating System'),
       sortable: true,
       render: (computer) => (
                 <div className="text-sm">
-                    <div>{computer.operatingSystem || <span className="text-muted-foreground">Unknown</span>}</div>
+                    <div>{computer.operatingSystem || <span className="text-muted-foreground">{_('Unknown')}</span>}</div>
                     {computer.operatingSystemVersion && (
                         <div className="text-xs text-muted-foreground">
                             {computer.operatingSystemVersion}
@@ -186,21 +186,21 @@ export default function ComputerList ({
     },
     {
       key: 'enabled',
-      header: 'Status',
+      header: _('Status'),
       sortable: true,
       render: (computer) => (
                 <Badge variant={computer.enabled ? 'default' : 'secondary'}>
-                    {computer.enabled ? 'Enabled' : 'Disabled'}
+                    {computer.enabled ? _('Enabled') : _('Disabled')}
                 </Badge>
       )
     },
     {
       key: 'lastLogon',
-      header: 'Last Logon',
+      header: _('Last Logon'),
       sortable: true,
       render: (computer) => {
         if (!computer.lastLogon) {
-          return <span className="text-muted-foreground text-sm">Never</span>
+          return <span className="text-muted-foreground text-sm">{_('Never')}</span>
         }
 
         const now = new Date()
@@ -210,9 +210,9 @@ export default function ComputerList ({
         if (diffInDays === 0) {
           return (
                         <div className="text-sm">
-                            <div className="text-green-600 font-medium">Today</div>
+                            <div className="text-green-600 font-medium">{_('Today')}</div>
                             <div className="text-xs text-muted-foreground">
-                                {format(computer.lastLogon, 'HH:mm')}
+                                {formatTime(computer.lastLogon)}
                             </div>
                         </div>
           )
@@ -222,10 +222,10 @@ export default function ComputerList ({
           return (
                         <div className="text-sm">
                             <div className="text-blue-600 font-medium">
-                                {diffInDays === 1 ? 'Yesterday' : `${diffInDays} days ago`}
+                                {diffInDays === 1 ? _('Yesterday') : format(_('$0 days ago'), diffInDays)}
                             </div>
                             <div className="text-xs text-muted-foreground">
-                                {format(computer.lastLogon, 'MMM dd, HH:mm')}
+                                {formatDate(computer.lastLogon, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
                             </div>
                         </div>
           )
@@ -234,10 +234,10 @@ export default function ComputerList ({
         return (
                     <div className="text-sm">
                         <div className={`font-medium ${diffInDays > 90 ? 'text-yellow-600' : 'text-muted-foreground'}`}>
-                            {format(computer.lastLogon, 'MMM dd, yyyy')}
+                            {formatDate(computer.lastLogon)}
                         </div>
                         {diffInDays > 90 && (
-                            <div className="text-xs text-yellow-600">Inactive</div>
+                            <div className="text-xs text-yellow-600">{_('Inactive')}</div>
                         )}
                     </div>
         )
@@ -245,7 +245,7 @@ export default function ComputerList ({
     },
     {
       key: 'actions',
-      header: 'Actions',
+      header: _('Actions'),
       render: (computer) => (
                 <ComputerActions
                     computer={computer}
@@ -261,9 +261,9 @@ export default function ComputerList ({
     return (
             <ErrorAlert
                 error={error}
-                title="Failed to load computers"
+                title={_('Failed to load computers')}
                 onRetry={onRefresh}
-                retryLabel="Retry Loading"
+                retryLabel={_('Retry Loading')}
             />
     )
   }
@@ -274,8 +274,8 @@ export default function ComputerList ({
             columns={columns}
             loading={loading}
             searchable
-            searchPlaceholder="Search computers by name, DNS name, or description..."
-            emptyMessage="No computers found"
+            searchPlaceholder={_('Search computers by name, DNS name, or description...')}
+            emptyMessage={_('No computers found')}
         />
   )
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Move, Loader2, FolderTree } from 'lucide-react'
@@ -31,15 +31,19 @@ import {
   FormLabel,
   FormMessage
 } from '@/components/ui/form'
+import { CommandPreview } from '@/components/ui/command-preview'
 
 import { useComputerMutations } from './hooks/useComputerMutations'
+import { ComputerAPI } from '@/services/computer-api'
+import type { PreviewScope } from '@/services/base-api'
 import { ErrorToast, SuccessToast } from '@/common'
 import type { SambaComputer, SambaOrganizationalUnit } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 // Move computer schema
 const moveComputerSchema = z.object({
-  computerName: z.string().min(1, 'Computer name is required'),
-  targetOU: z.string().min(1, 'Target Organizational Unit is required'),
+  computerName: z.string().min(1, _('Computer name is required')),
+  targetOU: z.string().min(1, _('Target Organizational Unit is required')),
   customOU: z.string().optional()
 }).refine((data) => {
   if (data.targetOU === 'custom' && !data.customOU?.trim()) {
@@ -47,7 +51,7 @@ const moveComputerSchema = z.object({
   }
   return true
 }, {
-  message: 'Please specify the custom Organizational Unit path',
+  message: _('Please specify the custom Organizational Unit path'),
   path: ['customOU']
 })
 
@@ -62,11 +66,11 @@ interface MoveComputerDialogProps {
 
 // Common organizational units for computers
 const COMPUTER_ORG_UNITS: SambaOrganizationalUnit[] = [
-  { name: 'Computers', distinguishedName: 'CN=Computers,DC=domain,DC=local', description: 'Default Computers container', createdAt: new Date(), children: [] },
-  { name: 'Domain Controllers', distinguishedName: 'OU=Domain Controllers,DC=domain,DC=local', description: 'Domain Controllers OU', createdAt: new Date(), children: [] },
-  { name: 'Workstations', distinguishedName: 'OU=Workstations,DC=domain,DC=local', description: 'Client Workstations OU', createdAt: new Date(), children: [] },
-  { name: 'Servers', distinguishedName: 'OU=Servers,DC=domain,DC=local', description: 'Server Computers OU', createdAt: new Date(), children: [] },
-  { name: 'Laptops', distinguishedName: 'OU=Laptops,DC=domain,DC=local', description: 'Laptop Computers OU', createdAt: new Date(), children: [] }
+  { name: 'Computers', distinguishedName: 'CN=Computers,DC=domain,DC=local', description: _('Default Computers container'), createdAt: new Date(), children: [] },
+  { name: 'Domain Controllers', distinguishedName: 'OU=Domain Controllers,DC=domain,DC=local', description: _('Domain Controllers OU'), createdAt: new Date(), children: [] },
+  { name: 'Workstations', distinguishedName: 'OU=Workstations,DC=domain,DC=local', description: _('Client Workstations OU'), createdAt: new Date(), children: [] },
+  { name: 'Servers', distinguishedName: 'OU=Servers,DC=domain,DC=local', description: _('Server Computers OU'), createdAt: new Date(), children: [] },
+  { name: 'Laptops', distinguishedName: 'OU=Laptops,DC=domain,DC=local', description: _('Laptop Computers OU'), createdAt: new Date(), children: [] }
 ]
 
 export default function MoveComputerDialog ({
@@ -107,6 +111,13 @@ export default function MoveComputerDialog ({
   })
 
   const watchedTargetOU = form.watch('targetOU')
+  const watchedCustomOU = form.watch('customOU')
+  const previewTargetOU = watchedTargetOU === 'custom' ? watchedCustomOU || '' : watchedTargetOU
+
+  const previewMove = useCallback(
+    (api: PreviewScope) => api(ComputerAPI).move(computerName, previewTargetOU),
+    [computerName, previewTargetOU]
+  )
 
   // Load available OUs from the domain (in a real implementation)
   useEffect(() => {
@@ -149,7 +160,7 @@ export default function MoveComputerDialog ({
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage={`Computer "${computerName}" moved successfully to new organizational unit.`}
+                    successMessage={format(_('Computer "$0" moved successfully to new organizational unit.'), computerName)}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -159,7 +170,7 @@ export default function MoveComputerDialog ({
                     {trigger || (
                         <Button variant="outline" size="sm">
                             <Move className="mr-2 h-4 w-4" />
-                            Move Computer
+                            {_('Move Computer')}
                         </Button>
                     )}
                 </DialogTrigger>
@@ -167,16 +178,16 @@ export default function MoveComputerDialog ({
                     <DialogHeader>
                         <div className="flex items-center gap-2">
                             <FolderTree className="h-5 w-5 text-primary" />
-                            <DialogTitle>Move Computer to Organizational Unit</DialogTitle>
+                            <DialogTitle>{_('Move Computer to Organizational Unit')}</DialogTitle>
                         </div>
                         <DialogDescription asChild>
                             <div className="space-y-2">
                                 <p>
-                                    Move computer <strong>"{displayName}"</strong> to a different Organizational Unit in Active Directory.
+                                    {_('Move computer')}{' '}<strong>"{displayName}"</strong>{' '}{_('to a different Organizational Unit in Active Directory.')}
                                 </p>
                                 {computer && currentOU && (
                                     <div className="text-sm text-muted-foreground bg-muted p-2 rounded">
-                                        <strong>Current location:</strong> {getOUDisplayName(currentOU)}
+                                        <strong>{_('Current location:')}</strong> {getOUDisplayName(currentOU)}
                                         <br />
                                         <span className="text-xs">{currentOU}</span>
                                     </div>
@@ -192,11 +203,11 @@ export default function MoveComputerDialog ({
                                 name="computerName"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Computer Name</FormLabel>
+                                        <FormLabel>{_('Computer Name')}</FormLabel>
                                         <FormControl>
                                             <Input
                                                 {...field}
-                                                placeholder="Enter computer name"
+                                                placeholder={_('Enter computer name')}
                                                 disabled={!!computer}
                                             />
                                         </FormControl>
@@ -210,11 +221,11 @@ export default function MoveComputerDialog ({
                                 name="targetOU"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Target Organizational Unit</FormLabel>
+                                        <FormLabel>{_('Target Organizational Unit')}</FormLabel>
                                         <Select onValueChange={field.onChange} defaultValue={field.value}>
                                             <FormControl>
                                                 <SelectTrigger>
-                                                    <SelectValue placeholder="Select target Organizational Unit" />
+                                                    <SelectValue placeholder={_('Select target Organizational Unit')} />
                                                 </SelectTrigger>
                                             </FormControl>
                                             <SelectContent>
@@ -234,16 +245,16 @@ export default function MoveComputerDialog ({
                                                 ))}
                                                 <SelectItem value="custom">
                                                     <div className="flex flex-col">
-                                                        <span>Custom OU Path...</span>
+                                                        <span>{_('Custom OU Path...')}</span>
                                                         <span className="text-xs text-muted-foreground">
-                                                            Specify a custom Organizational Unit
+                                                            {_('Specify a custom Organizational Unit')}
                                                         </span>
                                                     </div>
                                                 </SelectItem>
                                             </SelectContent>
                                         </Select>
                                         <FormDescription>
-                                            Choose the destination Organizational Unit for this computer
+                                            {_('Choose the destination Organizational Unit for this computer')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -256,7 +267,7 @@ export default function MoveComputerDialog ({
                                     name="customOU"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>Custom OU Path</FormLabel>
+                                            <FormLabel>{_('Custom OU Path')}</FormLabel>
                                             <FormControl>
                                                 <Input
                                                     {...field}
@@ -264,7 +275,7 @@ export default function MoveComputerDialog ({
                                                 />
                                             </FormControl>
                                             <FormDescription>
-                                                Enter the full Distinguished Name (DN) of the target OU
+                                                {_('Enter the full Distinguished Name (DN) of the target OU')}
                                             </FormDescription>
                                             <FormMessage />
                                         </FormItem>
@@ -272,17 +283,19 @@ export default function MoveComputerDialog ({
                                 />
                             )}
 
+                            <CommandPreview operation={previewMove} disabled={!computerName || !previewTargetOU} />
+
                             <DialogFooter>
                                 <Button
                                     type="button"
                                     variant="outline"
                                     onClick={() => handleOpenChange(false)}
                                 >
-                                    Cancel
+                                    {_('Cancel')}
                                 </Button>
                                 <Button type="submit" disabled={moving}>
                                     {moving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                    Move Computer
+                                    {_('Move Computer')}
                                 </Button>
                             </DialogFooter>
                         </form>
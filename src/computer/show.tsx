@@ -18,8 +18,10 @@ import {
 } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
+import { AccountControlPanel } from '@/components/ui/account-control-panel'
 
 import type { SambaComputer } from '@/types/samba'
+import { _, format, formatDateTime } from '@/lib/i18n'
 
 interface ShowComputerDialogProps {
     computer?: SambaComputer;
@@ -46,26 +48,20 @@ export default function ShowComputerDialog ({
   }
 
   const formatDate = (date?: Date) => {
-    if (!date) return 'Not available'
-    return new Intl.DateTimeFormat('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    }).format(date)
+    if (!date) return _('Not available')
+    return formatDateTime(date)
   }
 
   const formatLastLogon = (lastLogon?: Date) => {
-    if (!lastLogon) return 'Never'
+    if (!lastLogon) return _('Never')
 
     const now = new Date()
     const diffInMs = now.getTime() - lastLogon.getTime()
     const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24))
 
-    if (diffInDays === 0) return 'Today'
-    if (diffInDays === 1) return 'Yesterday'
-    if (diffInDays < 30) return `${diffInDays} days ago`
+    if (diffInDays === 0) return _('Today')
+    if (diffInDays === 1) return _('Yesterday')
+    if (diffInDays < 30) return format(_('$0 days ago'), diffInDays)
 
     return formatDate(lastLogon)
   }
@@ -77,15 +73,15 @@ export default function ShowComputerDialog ({
                     {trigger || (
                         <Button variant="outline" size="sm">
                             <Eye className="mr-2 h-4 w-4" />
-                            View Details
+                            {_('View Details')}
                         </Button>
                     )}
                 </DialogTrigger>
                 <DialogContent className="sm:max-w-[600px]">
                     <DialogHeader>
-                        <DialogTitle>Computer Details</DialogTitle>
+                        <DialogTitle>{_('Computer Details')}</DialogTitle>
                         <DialogDescription>
-                            Computer information not available. Please provide a computer object or ensure the computer exists.
+                            {_('Computer information not available. Please provide a computer object or ensure the computer exists.')}
                         </DialogDescription>
                     </DialogHeader>
                 </DialogContent>
@@ -99,7 +95,7 @@ export default function ShowComputerDialog ({
                 {trigger || (
                     <Button variant="outline" size="sm">
                         <Eye className="mr-2 h-4 w-4" />
-                        View Details
+                        {_('View Details')}
                     </Button>
                 )}
             </DialogTrigger>
@@ -107,11 +103,10 @@ export default function ShowComputerDialog ({
                 <DialogHeader>
                     <div className="flex items-center gap-2">
                         <Monitor className="h-5 w-5 text-primary" />
-                        <DialogTitle>Computer Details</DialogTitle>
+                        <DialogTitle>{_('Computer Details')}</DialogTitle>
                     </div>
                     <DialogDescription>
-                        Detailed information for computer account "{displayName}"
-                    </DialogDescription>
+                        {format(_('Detailed information for computer account "$0"'), displayName)}</DialogDescription>
                 </DialogHeader>
 
                 <div className="space-y-6">
@@ -122,18 +117,18 @@ export default function ShowComputerDialog ({
                                 <div>
                                     <CardTitle className="flex items-center gap-2">
                                         <Monitor className="h-4 w-4" />
-                                        Basic Information
+                                        {_('Basic Information')}
                                     </CardTitle>
                                 </div>
                                 <Badge variant={computer.enabled ? 'default' : 'destructive'}>
-                                    {computer.enabled ? 'Enabled' : 'Disabled'}
+                                    {computer.enabled ? _('Enabled') : _('Disabled')}
                                 </Badge>
                             </div>
                         </CardHeader>
                         <CardContent className="space-y-3">
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
-                                    <div className="text-sm font-medium text-muted-foreground mb-1">Computer Name</div>
+                                    <div className="text-sm font-medium text-muted-foreground mb-1">{_('Computer Name')}</div>
                                     <div className="flex items-center gap-2">
                                         <span className="font-medium">{computer.name}</span>
                                         <Button
@@ -146,9 +141,9 @@ export default function ShowComputerDialog ({
                                     </div>
                                 </div>
                                 <div>
-                                    <div className="text-sm font-medium text-muted-foreground mb-1">DNS Host Name</div>
+                                    <div className="text-sm font-medium text-muted-foreground mb-1">{_('DNS Host Name')}</div>
                                     <div className="flex items-center gap-2">
-                                        <span>{computer.dnsHostName || 'Not set'}</span>
+                                        <span>{computer.dnsHostName || _('Not set')}</span>
                                         {computer.dnsHostName && (
                                             <Button
                                                 variant="ghost"
@@ -166,7 +161,7 @@ export default function ShowComputerDialog ({
                                 <>
                                     <Separator />
                                     <div>
-                                        <div className="text-sm font-medium text-muted-foreground mb-1">Description</div>
+                                        <div className="text-sm font-medium text-muted-foreground mb-1">{_('Description')}</div>
                                         <p className="text-sm">{computer.description}</p>
                                     </div>
                                 </>
@@ -179,18 +174,18 @@ export default function ShowComputerDialog ({
                         <CardHeader>
                             <CardTitle className="flex items-center gap-2">
                                 <HardDrive className="h-4 w-4" />
-                                System Information
+                                {_('System Information')}
                             </CardTitle>
                         </CardHeader>
                         <CardContent className="space-y-3">
                             <div className="grid grid-cols-1 gap-4">
                                 <div>
-                                    <div className="text-sm font-medium text-muted-foreground mb-1">Operating System</div>
-                                    <div>{computer.operatingSystem || 'Unknown'}</div>
+                                    <div className="text-sm font-medium text-muted-foreground mb-1">{_('Operating System')}</div>
+                                    <div>{computer.operatingSystem || _('Unknown')}</div>
                                 </div>
                                 {computer.operatingSystemVersion && (
                                     <div>
-                                        <div className="text-sm font-medium text-muted-foreground mb-1">OS Version</div>
+                                        <div className="text-sm font-medium text-muted-foreground mb-1">{_('OS Version')}</div>
                                         <div>{computer.operatingSystemVersion}</div>
                                     </div>
                                 )}
@@ -203,13 +198,13 @@ export default function ShowComputerDialog ({
                         <CardHeader>
                             <CardTitle className="flex items-center gap-2">
                                 <Building className="h-4 w-4" />
-                                Network & Location
+                                {_('Network & Location')}
                             </CardTitle>
                         </CardHeader>
                         <CardContent className="space-y-3">
                             <div className="grid grid-cols-1 gap-4">
                                 <div>
-                                    <div className="text-sm font-medium text-muted-foreground mb-1">Distinguished Name</div>
+                                    <div className="text-sm font-medium text-muted-foreground mb-1">{_('Distinguished Name')}</div>
                                     <div className="font-mono text-xs bg-muted p-2 rounded break-all">
                                         {computer.distinguishedName}
                                         <Button
@@ -224,7 +219,7 @@ export default function ShowComputerDialog ({
                                 </div>
                                 {computer.organizationalUnit && (
                                     <div>
-                                        <div className="text-sm font-medium text-muted-foreground mb-1">Organizational Unit</div>
+                                        <div className="text-sm font-medium text-muted-foreground mb-1">{_('Organizational Unit')}</div>
                                         <div>{computer.organizationalUnit}</div>
                                     </div>
                                 )}
@@ -237,17 +232,17 @@ export default function ShowComputerDialog ({
                         <CardHeader>
                             <CardTitle className="flex items-center gap-2">
                                 <Calendar className="h-4 w-4" />
-                                Activity Information
+                                {_('Activity Information')}
                             </CardTitle>
                         </CardHeader>
                         <CardContent className="space-y-3">
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
-                                    <div className="text-sm font-medium text-muted-foreground mb-1">Created</div>
+                                    <div className="text-sm font-medium text-muted-foreground mb-1">{_('Created')}</div>
                                     <div>{formatDate(computer.createdAt)}</div>
                                 </div>
                                 <div>
-                                    <div className="text-sm font-medium text-muted-foreground mb-1">Last Logon</div>
+                                    <div className="text-sm font-medium text-muted-foreground mb-1">{_('Last Logon')}</div>
                                     <div>{formatLastLogon(computer.lastLogon)}</div>
                                 </div>
                             </div>
@@ -259,23 +254,25 @@ export default function ShowComputerDialog ({
                         <CardHeader>
                             <CardTitle className="flex items-center gap-2">
                                 <Network className="h-4 w-4" />
-                                Account Status
+                                {_('Account Status')}
                             </CardTitle>
                         </CardHeader>
                         <CardContent>
                             <div className="flex items-center justify-between">
                                 <div className="space-y-1">
-                                    <div className="font-medium">Current Status</div>
+                                    <div className="font-medium">{_('Current Status')}</div>
                                     <div className="text-sm text-muted-foreground">
-                                        This computer account is currently {computer.enabled ? 'enabled' : 'disabled'} in Active Directory
+                                        {_('This computer account is currently')}{' '}{computer.enabled ? _('enabled') : _('disabled')}{' '}{_('in Active Directory')}
                                     </div>
                                 </div>
                                 <Badge variant={computer.enabled ? 'default' : 'destructive'} className="ml-4">
-                                    {computer.enabled ? 'Active' : 'Inactive'}
+                                    {computer.enabled ? _('Active') : _('Inactive')}
                                 </Badge>
                             </div>
                         </CardContent>
                     </Card>
+
+                    <AccountControlPanel kind="computer" name={computer.name} />
                 </div>
             </DialogContent>
         </Dialog>
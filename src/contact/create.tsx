@@ -19,6 +19,7 @@ import { Loader2, UserPlus } from 'lucide-react'
 import { useContactMutations } from './hooks/useContactMutations'
 import { toast } from 'sonner'
 import type { CreateContactInput } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 interface CreateContactDialogProps {
   isOpen: boolean;
@@ -28,29 +29,29 @@ interface CreateContactDialogProps {
 
 const createContactSchema = z.object({
   givenName: z.string()
-    .min(1, 'Given name is required')
-    .max(50, 'Given name must be less than 50 characters'),
+    .min(1, _('Given name is required'))
+    .max(50, _('Given name must be less than 50 characters')),
   initials: z.string()
-    .max(10, 'Initials must be less than 10 characters')
+    .max(10, _('Initials must be less than 10 characters'))
     .optional(),
   surname: z.string()
-    .min(1, 'Surname is required')
-    .max(50, 'Surname must be less than 50 characters'),
+    .min(1, _('Surname is required'))
+    .max(50, _('Surname must be less than 50 characters')),
   displayName: z.string()
-    .max(100, 'Display name must be less than 100 characters')
+    .max(100, _('Display name must be less than 100 characters'))
     .optional(),
   description: z.string()
-    .max(500, 'Description must be less than 500 characters')
+    .max(500, _('Description must be less than 500 characters'))
     .optional(),
   mail: z.string()
-    .email('Invalid email address')
+    .email(_('Invalid email address'))
     .optional()
     .or(z.literal('')),
   telephoneNumber: z.string()
-    .max(50, 'Phone number must be less than 50 characters')
+    .max(50, _('Phone number must be less than 50 characters'))
     .optional(),
   organizationalUnit: z.string()
-    .max(200, 'Organizational Unit must be less than 200 characters')
+    .max(200, _('Organizational Unit must be less than 200 characters'))
     .optional()
 })
 
@@ -87,7 +88,7 @@ export function CreateContactDialog ({
   const { createContact } = useContactMutations(
     () => {
       // Success callback
-      toast.success('Contact created successfully')
+      toast.success(_('Contact created successfully'))
       resetForm()
       onContactCreated?.()
       onClose()
@@ -144,10 +145,10 @@ export function CreateContactDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <UserPlus className="h-4 w-4" />
-            Create New Contact
+            {_('Create New Contact')}
           </DialogTitle>
           <DialogDescription>
-            Create a new contact object in Active Directory. This will add a new entry to your organization's address book.
+            {_("Create a new contact object in Active Directory. This will add a new entry to your organization's address book.")}
           </DialogDescription>
         </DialogHeader>
 
@@ -160,7 +161,7 @@ export function CreateContactDialog ({
 
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="givenName">Given Name *</Label>
+              <Label htmlFor="givenName">{_('Given Name *')}</Label>
               <Input
                 id="givenName"
                 {...register('givenName')}
@@ -173,7 +174,7 @@ export function CreateContactDialog ({
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="surname">Surname *</Label>
+              <Label htmlFor="surname">{_('Surname *')}</Label>
               <Input
                 id="surname"
                 {...register('surname')}
@@ -187,7 +188,7 @@ export function CreateContactDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="initials">Initials</Label>
+            <Label htmlFor="initials">{_('Initials')}</Label>
             <Input
               id="initials"
               {...register('initials')}
@@ -200,23 +201,23 @@ export function CreateContactDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="displayName">Display Name</Label>
+            <Label htmlFor="displayName">{_('Display Name')}</Label>
             <Input
               id="displayName"
               {...register('displayName')}
-              placeholder={givenName && surname ? `${givenName} ${surname}` : 'Full Name'}
+              placeholder={givenName && surname ? `${givenName} ${surname}` : _('Full Name')}
               className={errors.displayName ? 'border-destructive' : ''}
             />
             {errors.displayName && (
               <p className="text-sm text-destructive">{errors.displayName.message}</p>
             )}
             <p className="text-sm text-muted-foreground">
-              Leave empty to auto-generate from given name and surname
+              {_('Leave empty to auto-generate from given name and surname')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="mail">Email Address</Label>
+            <Label htmlFor="mail">{_('Email Address')}</Label>
             <Input
               id="mail"
               type="email"
@@ -230,7 +231,7 @@ export function CreateContactDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="telephoneNumber">Phone Number</Label>
+            <Label htmlFor="telephoneNumber">{_('Phone Number')}</Label>
             <Input
               id="telephoneNumber"
               {...register('telephoneNumber')}
@@ -243,7 +244,7 @@ export function CreateContactDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="organizationalUnit">Organizational Unit</Label>
+            <Label htmlFor="organizationalUnit">{_('Organizational Unit')}</Label>
             <Input
               id="organizationalUnit"
               {...register('organizationalUnit')}
@@ -254,16 +255,16 @@ export function CreateContactDialog ({
               <p className="text-sm text-destructive">{errors.organizationalUnit.message}</p>
             )}
             <p className="text-sm text-muted-foreground">
-              Leave empty to use the default container
+              {_('Leave empty to use the default container')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
+            <Label htmlFor="description">{_('Description')}</Label>
             <Textarea
               id="description"
               {...register('description')}
-              placeholder="Additional information about this contact..."
+              placeholder={_('Additional information about this contact...')}
               rows={3}
               className={errors.description ? 'border-destructive' : ''}
             />
@@ -274,11 +275,11 @@ export function CreateContactDialog ({
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={loading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {loading ? 'Creating...' : 'Create Contact'}
+              {loading ? _('Creating...') : _('Create Contact')}
             </Button>
           </DialogFooter>
         </form>
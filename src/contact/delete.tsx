@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -11,9 +11,13 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { AlertTriangle, Loader2 } from 'lucide-react'
 import { useContactMutations } from './hooks/useContactMutations'
+import { ContactAPI } from '@/services/contact-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 interface DeleteContactDialogProps {
   isOpen: boolean;
@@ -38,7 +42,7 @@ export function DeleteContactDialog ({
   const { deleteContact } = useContactMutations(
     () => {
       // Success callback
-      toast.success(`Contact "${contactName}" deleted successfully`)
+      toast.success(format(_('Contact "$0" deleted successfully'), contactName))
       resetForm()
       onContactDeleted?.()
       onClose()
@@ -76,12 +80,12 @@ export function DeleteContactDialog ({
 
   const handleSubmit = async () => {
     if (!contactName) {
-      setError('Contact name is required')
+      setError(_('Contact name is required'))
       return
     }
 
     if (confirmationText !== contactName) {
-      setError('Confirmation text must match the contact name exactly')
+      setError(_('Confirmation text must match the contact name exactly'))
       return
     }
 
@@ -98,28 +102,30 @@ export function DeleteContactDialog ({
 
   const isConfirmationValid = confirmationText === contactName && contactName.length > 0
 
+  const previewDelete = useCallback((api: PreviewScope) => api(ContactAPI).delete(contactName), [contactName])
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[525px]">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-destructive">
             <AlertTriangle className="h-4 w-4" />
-            Delete Contact
+            {_('Delete Contact')}
           </DialogTitle>
           <DialogDescription>
-            <strong>Warning:</strong> This action cannot be undone. Deleting this contact will:
+            <strong>{_('Warning:')}</strong>{' '}{_('This action cannot be undone. Deleting this contact will:')}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
           <div className="text-sm text-muted-foreground space-y-2">
             <ul className="list-disc ml-4 space-y-1">
-              <li>Permanently remove the contact from Active Directory</li>
-              <li>Remove all contact information and attributes</li>
-              <li>Remove the contact from any distribution lists</li>
+              <li>{_('Permanently remove the contact from Active Directory')}</li>
+              <li>{_('Remove all contact information and attributes')}</li>
+              <li>{_('Remove the contact from any distribution lists')}</li>
             </ul>
             <p className="font-medium text-destructive mt-3">
-              This action is <strong>irreversible</strong>.
+              {_('This action is')}{' '}<strong>{_('irreversible')}</strong>.
             </p>
           </div>
 
@@ -132,37 +138,39 @@ export function DeleteContactDialog ({
           {/* Show contact name input only if not provided externally */}
           {!externalContactName && (
             <div className="space-y-2">
-              <Label htmlFor="contact-name">Contact Name *</Label>
+              <Label htmlFor="contact-name">{_('Contact Name *')}</Label>
               <Input
                 id="contact-name"
                 value={internalContactName}
                 onChange={(e) => handleContactNameChange(e.target.value)}
-                placeholder="Enter contact name"
+                placeholder={_('Enter contact name')}
               />
               <p className="text-sm text-muted-foreground">
-                Enter the name of the contact you want to delete
+                {_('Enter the name of the contact you want to delete')}
               </p>
             </div>
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="confirmation">Type "{contactName}" to confirm deletion *</Label>
+            <Label htmlFor="confirmation">{format(_('Type "$0" to confirm deletion *'), contactName)}</Label>
             <Input
               id="confirmation"
               value={confirmationText}
               onChange={(e) => handleConfirmationChange(e.target.value)}
-              placeholder={contactName || 'Enter contact name above first'}
+              placeholder={contactName || _('Enter contact name above first')}
               className={confirmationText && !isConfirmationValid ? 'border-destructive' : ''}
             />
             <p className="text-sm text-muted-foreground">
-              This confirmation helps prevent accidental deletions
+              {_('This confirmation helps prevent accidental deletions')}
             </p>
           </div>
+
+          <CommandPreview operation={previewDelete} disabled={!contactName} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             variant="destructive"
@@ -170,7 +178,7 @@ export function DeleteContactDialog ({
             disabled={loading || !isConfirmationValid}
           >
             {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            {loading ? 'Deleting...' : 'Delete Contact'}
+            {loading ? _('Deleting...') : _('Delete Contact')}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -2,6 +2,7 @@ import { useCallback } from 'react'
 import { ContactAPI } from '../../services/contact-api'
 import { CreateContactInput } from '../../types/samba'
 import { APIError } from '../../lib/errors'
+import { _ } from '@/lib/i18n'
 
 export interface UseContactMutationsReturn {
   createContact: (contactData: CreateContactInput) => Promise<void>;
@@ -20,7 +21,7 @@ export const useContactMutations = (onSuccess?: () => void, onError?: (error: st
       await ContactAPI.create(contactData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to create contact'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to create contact')
       onError?.(errorMessage)
       throw err
     }
@@ -31,7 +32,7 @@ export const useContactMutations = (onSuccess?: () => void, onError?: (error: st
       await ContactAPI.delete(contactName)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to delete contact'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to delete contact')
       onError?.(errorMessage)
       throw err
     }
@@ -42,7 +43,7 @@ export const useContactMutations = (onSuccess?: () => void, onError?: (error: st
       await ContactAPI.move(contactName, targetOU)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to move contact'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to move contact')
       onError?.(errorMessage)
       throw err
     }
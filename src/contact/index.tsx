@@ -19,6 +19,7 @@ import { MoveContactDialog } from './move'
 import { ShowContactDialog } from './show'
 import { useContacts } from './hooks/useContacts'
 import type { FilterOptions } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 interface ContactManagementPageProps {
   initialView?: 'list' | 'create';
@@ -74,9 +75,9 @@ export default function ContactManagementPage ({ initialView = 'list' }: Contact
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Contact Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('Contact Management')}</h1>
           <p className="text-muted-foreground">
-            Manage contact objects and address book entries in Active Directory
+            {_('Manage contact objects and address book entries in Active Directory')}
           </p>
         </div>
       </div>
@@ -85,39 +86,39 @@ export default function ContactManagementPage ({ initialView = 'list' }: Contact
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Contacts</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Total Contacts')}</CardTitle>
             <ContactIcon className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{contactStats.total}</div>
             <p className="text-xs text-muted-foreground">
-              Active directory contacts
+              {_('Active directory contacts')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">With Email</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('With Email')}</CardTitle>
             <Mail className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{contactStats.withEmail}</div>
             <p className="text-xs text-muted-foreground">
-              Contacts with email addresses
+              {_('Contacts with email addresses')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">With Phone</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('With Phone')}</CardTitle>
             <Phone className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{contactStats.withPhone}</div>
             <p className="text-xs text-muted-foreground">
-              Contacts with phone numbers
+              {_('Contacts with phone numbers')}
             </p>
           </CardContent>
         </Card>
@@ -128,7 +129,7 @@ export default function ContactManagementPage ({ initialView = 'list' }: Contact
           <TabsList>
             <TabsTrigger value="list" className="flex items-center gap-2">
               <Users className="h-4 w-4" />
-              Contact List
+              {_('Contact List')}
             </TabsTrigger>
           </TabsList>
 
@@ -137,7 +138,7 @@ export default function ContactManagementPage ({ initialView = 'list' }: Contact
             <div className="relative">
               <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search contacts..."
+                placeholder={_('Search contacts...')}
                 value={searchQuery}
                 onChange={(e) => handleSearch(e.target.value)}
                 className="pl-8 w-[300px]"
@@ -145,7 +146,7 @@ export default function ContactManagementPage ({ initialView = 'list' }: Contact
             </div>
             <Button onClick={() => setCreateDialogOpen(true)} className="flex items-center gap-2">
               <UserPlus className="h-4 w-4" />
-              Create Contact
+              {_('Create Contact')}
             </Button>
           </div>
         </div>
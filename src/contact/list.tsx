@@ -20,6 +20,7 @@ import {
   Building2
 } from 'lucide-react'
 import type { SambaContact } from '@/types/samba'
+import { _, formatDate } from '@/lib/i18n'
 
 interface ContactListProps {
   contacts: SambaContact[];
@@ -43,7 +44,7 @@ export function ContactList ({
   const columns = useMemo<DataTableColumn<SambaContact>[]>(() => [
     {
       key: 'name',
-      header: 'Contact Name',
+      header: _('Contact Name'),
       sortable: true,
       searchable: true,
       render: (contact) => (
@@ -62,7 +63,7 @@ export function ContactList ({
     },
     {
       key: 'contact_info',
-      header: 'Contact Information',
+      header: _('Contact Information'),
       render: (contact) => (
         <div className="space-y-1">
           {contact.mail && (
@@ -78,27 +79,27 @@ export function ContactList ({
             </div>
           )}
           {!contact.mail && !contact.telephoneNumber && (
-            <span className="text-sm text-muted-foreground">No contact info</span>
+            <span className="text-sm text-muted-foreground">{_('No contact info')}</span>
           )}
         </div>
       )
     },
     {
       key: 'organizational_unit',
-      header: 'Organizational Unit',
+      header: _('Organizational Unit'),
       sortable: true,
       render: (contact) => (
         <div className="flex items-center">
           <Building2 className="mr-1 h-3 w-3 text-muted-foreground" />
           <span className="text-sm">
-            {contact.organizationalUnit || 'Default'}
+            {contact.organizationalUnit || _('Default')}
           </span>
         </div>
       )
     },
     {
       key: 'description',
-      header: 'Description',
+      header: _('Description'),
       render: (contact) => (
         <span className="text-sm text-muted-foreground">
           {contact.description || '-'}
@@ -107,34 +108,34 @@ export function ContactList ({
     },
     {
       key: 'created_date',
-      header: 'Created',
+      header: _('Created'),
       sortable: true,
       render: (contact) => (
         <span className="text-sm text-muted-foreground">
-          {contact.createdAt.toLocaleDateString()}
+          {formatDate(contact.createdAt)}
         </span>
       )
     },
     {
       key: 'actions',
-      header: 'Actions',
+      header: _('Actions'),
       render: (contact) => (
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" className="h-8 w-8 p-0">
-              <span className="sr-only">Open menu</span>
+              <span className="sr-only">{_('Open menu')}</span>
               <MoreVertical className="h-4 w-4" />
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
             <DropdownMenuItem onClick={() => onShowContact(contact.name)}>
               <Eye className="mr-2 h-4 w-4" />
-              View Details
+              {_('View Details')}
             </DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={() => onMoveContact(contact.name)}>
               <Move className="mr-2 h-4 w-4" />
-              Move to OU
+              {_('Move to OU')}
             </DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem
@@ -142,7 +143,7 @@ export function ContactList ({
               className="text-destructive"
             >
               <Trash2 className="mr-2 h-4 w-4" />
-              Delete
+              {_('Delete')}
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
@@ -168,7 +169,7 @@ export function ContactList ({
         data={contacts}
         columns={columns}
         loading={loading}
-        emptyMessage="No contacts found. Create your first contact to get started."
+        emptyMessage={_('No contacts found. Create your first contact to get started.')}
       />
     </div>
   )
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -18,9 +18,13 @@ import {
   SelectValue
 } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { Loader2, Move } from 'lucide-react'
 import { useContactMutations } from './hooks/useContactMutations'
+import { ContactAPI } from '@/services/contact-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 interface MoveContactDialogProps {
   isOpen: boolean;
@@ -31,14 +35,14 @@ interface MoveContactDialogProps {
 
 // Common organizational units in Active Directory
 const COMMON_OUS = [
-  { value: 'CN=Users,DC=domain,DC=local', label: 'Users (Default)' },
-  { value: 'OU=Contacts,DC=domain,DC=local', label: 'Contacts' },
-  { value: 'OU=External Contacts,DC=domain,DC=local', label: 'External Contacts' },
-  { value: 'OU=IT,DC=domain,DC=local', label: 'IT Department' },
-  { value: 'OU=HR,DC=domain,DC=local', label: 'HR Department' },
-  { value: 'OU=Finance,DC=domain,DC=local', label: 'Finance Department' },
-  { value: 'OU=Sales,DC=domain,DC=local', label: 'Sales Department' },
-  { value: 'OU=Custom', label: 'Custom OU (specify below)' }
+  { value: 'CN=Users,DC=domain,DC=local', label: _('Users (Default)') },
+  { value: 'OU=Contacts,DC=domain,DC=local', label: _('Contacts') },
+  { value: 'OU=External Contacts,DC=domain,DC=local', label: _('External Contacts') },
+  { value: 'OU=IT,DC=domain,DC=local', label: _('IT Department') },
+  { value: 'OU=HR,DC=domain,DC=local', label: _('HR Department') },
+  { value: 'OU=Finance,DC=domain,DC=local', label: _('Finance Department') },
+  { value: 'OU=Sales,DC=domain,DC=local', label: _('Sales Department') },
+  { value: 'OU=Custom', label: _('Custom OU (specify below)') }
 ]
 
 export function MoveContactDialog ({
@@ -59,7 +63,7 @@ export function MoveContactDialog ({
     () => {
       // Success callback
       const targetOU = selectedOU === 'OU=Custom' ? customOU : selectedOU
-      toast.success(`Contact "${contactName}" moved to ${targetOU} successfully`)
+      toast.success(format(_('Contact "$0" moved to $1 successfully'), contactName, targetOU))
       resetForm()
       onContactMoved?.()
       onClose()
@@ -107,6 +111,12 @@ export function MoveContactDialog ({
     return selectedOU === 'OU=Custom' ? customOU : selectedOU
   }
 
+  const previewTargetOU = selectedOU === 'OU=Custom' ? customOU : selectedOU
+  const previewMove = useCallback(
+    (api: PreviewScope) => api(ContactAPI).move(contactName, previewTargetOU),
+    [contactName, previewTargetOU]
+  )
+
   const isFormValid = () => {
     const targetOU = getTargetOU()
     return contactName.trim() && targetOU.trim()
@@ -114,20 +124,20 @@ export function MoveContactDialog ({
 
   const handleSubmit = async () => {
     if (!contactName) {
-      setError('Contact name is required')
+      setError(_('Contact name is required'))
       return
     }
 
     const targetOU = selectedOU === 'OU=Custom' ? customOU : selectedOU
 
     if (!targetOU.trim()) {
-      setError('Target Organizational Unit is required')
+      setError(_('Target Organizational Unit is required'))
       return
     }
 
     // Basic OU format validation
     if (!targetOU.includes('DC=') || (!targetOU.includes('OU=') && !targetOU.includes('CN='))) {
-      setError('Invalid OU format. Expected format: OU=Name,DC=domain,DC=local or CN=Name,DC=domain,DC=local')
+      setError(_('Invalid OU format. Expected format: OU=Name,DC=domain,DC=local or CN=Name,DC=domain,DC=local'))
       return
     }
 
@@ -148,11 +158,10 @@ export function MoveContactDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Move className="h-4 w-4" />
-            Move Contact to Different OU
+            {_('Move Contact to Different OU')}
           </DialogTitle>
           <DialogDescription>
-            Move this contact to a different Organizational Unit (OU). This will change the contact's
-            location in the Active Directory hierarchy.
+            {_("Move this contact to a different Organizational Unit (OU). This will change the contact's location in the Active Directory hierarchy.")}
           </DialogDescription>
         </DialogHeader>
 
@@ -166,24 +175,24 @@ export function MoveContactDialog ({
           {/* Show contact name input only if not provided externally */}
           {!externalContactName && (
             <div className="space-y-2">
-              <Label htmlFor="contact-name">Contact Name *</Label>
+              <Label htmlFor="contact-name">{_('Contact Name *')}</Label>
               <Input
                 id="contact-name"
                 value={internalContactName}
                 onChange={(e) => handleContactNameChange(e.target.value)}
-                placeholder="Enter contact name"
+                placeholder={_('Enter contact name')}
               />
               <p className="text-sm text-muted-foreground">
-                Enter the name of the contact you want to move
+                {_('Enter the name of the contact you want to move')}
               </p>
             </div>
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="target-ou">Target Organizational Unit *</Label>
+            <Label htmlFor="target-ou">{_('Target Organizational Unit *')}</Label>
             <Select value={selectedOU} onValueChange={handleOUChange}>
               <SelectTrigger>
-                <SelectValue placeholder="Select target OU" />
+                <SelectValue placeholder={_('Select target OU')} />
               </SelectTrigger>
               <SelectContent>
                 {COMMON_OUS.map((option, index) => (
@@ -194,13 +203,13 @@ export function MoveContactDialog ({
               </SelectContent>
             </Select>
             <p className="text-sm text-muted-foreground">
-              Select the OU where you want to move this contact
+              {_('Select the OU where you want to move this contact')}
             </p>
           </div>
 
           {selectedOU === 'OU=Custom' && (
             <div className="space-y-2">
-              <Label htmlFor="custom-ou">Custom OU Path *</Label>
+              <Label htmlFor="custom-ou">{_('Custom OU Path *')}</Label>
               <Input
                 id="custom-ou"
                 value={customOU}
@@ -208,7 +217,7 @@ export function MoveContactDialog ({
                 placeholder="OU=YourOU,DC=domain,DC=local"
               />
               <p className="text-sm text-muted-foreground">
-                Enter the full Distinguished Name (DN) of the target OU
+                {_('Enter the full Distinguished Name (DN) of the target OU')}
               </p>
             </div>
           )}
@@ -216,23 +225,25 @@ export function MoveContactDialog ({
           {contactName && (
             <Alert>
               <AlertDescription>
-                Moving contact <strong>{contactName}</strong> to: <br />
+                {_('Moving contact')}{' '}<strong>{contactName}</strong>{' '}{_('to:')}{' '}<br />
                 <code className="text-sm bg-muted px-1 py-0.5 rounded">{getTargetOU()}</code>
               </AlertDescription>
             </Alert>
           )}
+
+          <CommandPreview operation={previewMove} disabled={!contactName || !previewTargetOU.trim()} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             onClick={handleSubmit}
             disabled={loading || !isFormValid()}
           >
             {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            {loading ? 'Moving...' : 'Move Contact'}
+            {loading ? _('Moving...') : _('Move Contact')}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -22,6 +22,7 @@ import {
 } from 'lucide-react'
 import { ContactAPI } from '@/services/contact-api'
 import type { SambaContact } from '@/types/samba'
+import { _, formatDateTime } from '@/lib/i18n'
 
 interface ShowContactDialogProps {
   isOpen: boolean;
@@ -52,7 +53,7 @@ export function ShowContactDialog ({
       const data = await ContactAPI.show(contactName)
       setContact(data)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load contact details')
+      setError(err instanceof Error ? err.message : _('Failed to load contact details'))
     } finally {
       setLoading(false)
     }
@@ -70,10 +71,10 @@ export function ShowContactDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Eye className="h-4 w-4" />
-            Contact Details
+            {_('Contact Details')}
           </DialogTitle>
           <DialogDescription>
-            View detailed information about this contact object.
+            {_('View detailed information about this contact object.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -88,7 +89,7 @@ export function ShowContactDialog ({
                   onClick={fetchContactDetails}
                   className="ml-2"
                 >
-                  Retry
+                  {_('Retry')}
                 </Button>
               </AlertDescription>
             </Alert>
@@ -110,17 +111,17 @@ export function ShowContactDialog ({
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <ContactIcon className="h-4 w-4" />
-                    Basic Information
+                    {_('Basic Information')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <label className="text-sm font-medium text-muted-foreground">Display Name</label>
+                      <label className="text-sm font-medium text-muted-foreground">{_('Display Name')}</label>
                       <p className="font-medium">{contact.displayName || contact.name}</p>
                     </div>
                     <div>
-                      <label className="text-sm font-medium text-muted-foreground">Distinguished Name</label>
+                      <label className="text-sm font-medium text-muted-foreground">{_('Distinguished Name')}</label>
                       <p className="text-sm font-mono break-all">{contact.distinguishedName}</p>
                     </div>
                   </div>
@@ -129,13 +130,13 @@ export function ShowContactDialog ({
                     <div className="grid grid-cols-2 gap-4">
                       {contact.givenName && (
                         <div>
-                          <label className="text-sm font-medium text-muted-foreground">Given Name</label>
+                          <label className="text-sm font-medium text-muted-foreground">{_('Given Name')}</label>
                           <p>{contact.givenName}</p>
                         </div>
                       )}
                       {contact.surname && (
                         <div>
-                          <label className="text-sm font-medium text-muted-foreground">Surname</label>
+                          <label className="text-sm font-medium text-muted-foreground">{_('Surname')}</label>
                           <p>{contact.surname}</p>
                         </div>
                       )}
@@ -144,14 +145,14 @@ export function ShowContactDialog ({
 
                   {contact.initials && (
                     <div>
-                      <label className="text-sm font-medium text-muted-foreground">Initials</label>
+                      <label className="text-sm font-medium text-muted-foreground">{_('Initials')}</label>
                       <p>{contact.initials}</p>
                     </div>
                   )}
 
                   {contact.description && (
                     <div>
-                      <label className="text-sm font-medium text-muted-foreground">Description</label>
+                      <label className="text-sm font-medium text-muted-foreground">{_('Description')}</label>
                       <p className="text-sm">{contact.description}</p>
                     </div>
                   )}
@@ -163,7 +164,7 @@ export function ShowContactDialog ({
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Mail className="h-4 w-4" />
-                    Contact Information
+                    {_('Contact Information')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -172,7 +173,7 @@ export function ShowContactDialog ({
                     <div className="flex items-center gap-2">
                       <Mail className="h-4 w-4 text-muted-foreground" />
                       <div>
-                        <label className="text-sm font-medium text-muted-foreground">Email Address</label>
+                        <label className="text-sm font-medium text-muted-foreground">{_('Email Address')}</label>
                         <p>{contact.mail}</p>
                       </div>
                     </div>
@@ -180,7 +181,7 @@ export function ShowContactDialog ({
                     : (
                     <div className="flex items-center gap-2 text-muted-foreground">
                       <Mail className="h-4 w-4" />
-                      <span className="text-sm">No email address configured</span>
+                      <span className="text-sm">{_('No email address configured')}</span>
                     </div>
                       )}
 
@@ -189,7 +190,7 @@ export function ShowContactDialog ({
                     <div className="flex items-center gap-2">
                       <Phone className="h-4 w-4 text-muted-foreground" />
                       <div>
-                        <label className="text-sm font-medium text-muted-foreground">Phone Number</label>
+                        <label className="text-sm font-medium text-muted-foreground">{_('Phone Number')}</label>
                         <p>{contact.telephoneNumber}</p>
                       </div>
                     </div>
@@ -197,7 +198,7 @@ export function ShowContactDialog ({
                     : (
                     <div className="flex items-center gap-2 text-muted-foreground">
                       <Phone className="h-4 w-4" />
-                      <span className="text-sm">No phone number configured</span>
+                      <span className="text-sm">{_('No phone number configured')}</span>
                     </div>
                       )}
                 </CardContent>
@@ -208,22 +209,22 @@ export function ShowContactDialog ({
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Building2 className="h-4 w-4" />
-                    Organizational Information
+                    {_('Organizational Information')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
-                    <label className="text-sm font-medium text-muted-foreground">Organizational Unit</label>
+                    <label className="text-sm font-medium text-muted-foreground">{_('Organizational Unit')}</label>
                     <p className="text-sm font-mono">
-                      {contact.organizationalUnit || 'Default (Users container)'}
+                      {contact.organizationalUnit || _('Default (Users container)')}
                     </p>
                   </div>
 
                   <div>
-                    <label className="text-sm font-medium text-muted-foreground">Created Date</label>
+                    <label className="text-sm font-medium text-muted-foreground">{_('Created Date')}</label>
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4 text-muted-foreground" />
-                      <p>{contact.createdAt.toLocaleDateString()} {contact.createdAt.toLocaleTimeString()}</p>
+                      <p>{formatDateTime(contact.createdAt)}</p>
                     </div>
                   </div>
                 </CardContent>
@@ -234,19 +235,19 @@ export function ShowContactDialog ({
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <FileText className="h-4 w-4" />
-                    Technical Details
+                    {_('Technical Details')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
-                    <label className="text-sm font-medium text-muted-foreground">Object Type</label>
+                    <label className="text-sm font-medium text-muted-foreground">{_('Object Type')}</label>
                     <div className="flex items-center gap-2">
-                      <Badge variant="secondary">Contact Object</Badge>
+                      <Badge variant="secondary">{_('Contact Object')}</Badge>
                     </div>
                   </div>
 
                   <div>
-                    <label className="text-sm font-medium text-muted-foreground">Internal Name</label>
+                    <label className="text-sm font-medium text-muted-foreground">{_('Internal Name')}</label>
                     <p className="text-sm font-mono">{contact.name}</p>
                   </div>
                 </CardContent>
@@ -257,14 +258,14 @@ export function ShowContactDialog ({
                   !error && (
                 <div className="text-center py-8">
                   <ContactIcon className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <p className="mt-2 text-sm text-muted-foreground">No contact selected</p>
+                  <p className="mt-2 text-sm text-muted-foreground">{_('No contact selected')}</p>
                 </div>
                   )
                 )}
         </div>
 
         <div className="flex justify-end pt-4">
-          <Button onClick={handleClose}>Close</Button>
+          <Button onClick={handleClose}>{_('Close')}</Button>
         </div>
       </DialogContent>
     </Dialog>
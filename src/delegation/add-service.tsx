@@ -26,10 +26,11 @@ import { Info } from 'lucide-react'
 import { useDelegationMutations } from './hooks/useDelegation'
 import { toast } from 'sonner'
 import type { AddServiceDelegationInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const addServiceSchema = z.object({
-  accountName: z.string().min(1, 'Account name is required'),
-  principal: z.string().min(1, 'Service principal is required')
+  accountName: z.string().min(1, _('Account name is required')),
+  principal: z.string().min(1, _('Service principal is required'))
 })
 
 type AddServiceFormData = z.infer<typeof addServiceSchema>;
@@ -73,7 +74,7 @@ export function AddServiceDialog ({ isOpen, onClose, onServiceAdded }: AddServic
       }
 
       await addService(input)
-      toast.success(`Service "${data.principal}" added to delegation for "${data.accountName}"`)
+      toast.success(format(_('Service "$0" added to delegation for "$1"'), data.principal, data.accountName))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -85,9 +86,9 @@ export function AddServiceDialog ({ isOpen, onClose, onServiceAdded }: AddServic
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Add Service Delegation</DialogTitle>
+          <DialogTitle>{_('Add Service Delegation')}</DialogTitle>
           <DialogDescription>
-            Add a service principal to the constrained delegation list for an account.
+            {_('Add a service principal to the constrained delegation list for an account.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -97,10 +98,9 @@ export function AddServiceDialog ({ isOpen, onClose, onServiceAdded }: AddServic
               <Info className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Constrained Delegation</p>
+                  <p className="font-medium">{_('Constrained Delegation')}</p>
                   <p className="text-sm">
-                    This adds a service principal to the msDS-AllowedToDelegateTo attribute,
-                    allowing the account to delegate credentials to the specified service.
+                    {_('This adds a service principal to the msDS-AllowedToDelegateTo attribute, allowing the account to delegate credentials to the specified service.')}
                   </p>
                 </div>
               </AlertDescription>
@@ -111,7 +111,7 @@ export function AddServiceDialog ({ isOpen, onClose, onServiceAdded }: AddServic
               name="accountName"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Account Name</FormLabel>
+                  <FormLabel>{_('Account Name')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="serviceaccount1"
@@ -120,7 +120,7 @@ export function AddServiceDialog ({ isOpen, onClose, onServiceAdded }: AddServic
                     />
                   </FormControl>
                   <FormDescription>
-                    Name of the service account that will delegate
+                    {_('Name of the service account that will delegate')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -132,7 +132,7 @@ export function AddServiceDialog ({ isOpen, onClose, onServiceAdded }: AddServic
               name="principal"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Service Principal</FormLabel>
+                  <FormLabel>{_('Service Principal')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="http/webserver.domain.com"
@@ -141,7 +141,7 @@ export function AddServiceDialog ({ isOpen, onClose, onServiceAdded }: AddServic
                     />
                   </FormControl>
                   <FormDescription>
-                    Service principal name (SPN) to delegate to
+                    {_('Service principal name (SPN) to delegate to')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -149,21 +149,21 @@ export function AddServiceDialog ({ isOpen, onClose, onServiceAdded }: AddServic
             />
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">Service Principal Examples:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('Service Principal Examples:')}</h4>
               <div className="space-y-1 text-xs text-muted-foreground">
-                <div><code>http/webserver.domain.com</code> - Web service</div>
-                <div><code>cifs/fileserver.domain.com</code> - File service</div>
-                <div><code>host/server.domain.com</code> - Host service</div>
-                <div><code>mssqlsvc/dbserver.domain.com:1433</code> - SQL Server</div>
+                <div><code>http/webserver.domain.com</code>{' '}{_('- Web service')}</div>
+                <div><code>cifs/fileserver.domain.com</code>{' '}{_('- File service')}</div>
+                <div><code>host/server.domain.com</code>{' '}{_('- Host service')}</div>
+                <div><code>mssqlsvc/dbserver.domain.com:1433</code>{' '}{_('- SQL Server')}</div>
               </div>
             </div>
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Adding Service...' : 'Add Service'}
+                {isSubmitting ? _('Adding Service...') : _('Add Service')}
               </Button>
             </DialogFooter>
           </form>
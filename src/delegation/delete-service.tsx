@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -21,13 +21,17 @@ import {
 } from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { useDelegationMutations } from './hooks/useDelegation'
+import { DelegationAPI } from '@/services/delegation-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { DeleteServiceDelegationInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const deleteServiceSchema = z.object({
-  accountName: z.string().min(1, 'Account name is required'),
-  principal: z.string().min(1, 'Service principal is required')
+  accountName: z.string().min(1, _('Account name is required')),
+  principal: z.string().min(1, _('Service principal is required'))
 })
 
 type DeleteServiceFormData = z.infer<typeof deleteServiceSchema>;
@@ -57,6 +61,13 @@ export function DeleteServiceDialog ({ isOpen, onClose, onServiceDeleted }: Dele
     (error) => toast.error(error)
   )
 
+  const [accountName, principal] = form.watch(['accountName', 'principal'])
+
+  const previewDelete = useCallback(
+    (api: PreviewScope) => api(DelegationAPI).deleteService({ accountName, principal }),
+    [accountName, principal]
+  )
+
   const handleClose = () => {
     form.reset()
     onClose()
@@ -71,7 +82,7 @@ export function DeleteServiceDialog ({ isOpen, onClose, onServiceDeleted }: Dele
       }
 
       await deleteService(input)
-      toast.success(`Service "${data.principal}" removed from delegation for "${data.accountName}"`)
+      toast.success(format(_('Service "$0" removed from delegation for "$1"'), data.principal, data.accountName))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -83,9 +94,9 @@ export function DeleteServiceDialog ({ isOpen, onClose, onServiceDeleted }: Dele
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Delete Service Delegation</DialogTitle>
+          <DialogTitle>{_('Delete Service Delegation')}</DialogTitle>
           <DialogDescription>
-            Remove a service principal from the constrained delegation list.
+            {_('Remove a service principal from the constrained delegation list.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -96,7 +107,7 @@ export function DeleteServiceDialog ({ isOpen, onClose, onServiceDeleted }: Dele
               name="accountName"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Account Name</FormLabel>
+                  <FormLabel>{_('Account Name')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="serviceaccount1"
@@ -105,7 +116,7 @@ export function DeleteServiceDialog ({ isOpen, onClose, onServiceDeleted }: Dele
                     />
                   </FormControl>
                   <FormDescription>
-                    Name of the service account
+                    {_('Name of the service account')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -117,7 +128,7 @@ export function DeleteServiceDialog ({ isOpen, onClose, onServiceDeleted }: Dele
               name="principal"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Service Principal</FormLabel>
+                  <FormLabel>{_('Service Principal')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="http/webserver.domain.com"
@@ -126,19 +137,21 @@ export function DeleteServiceDialog ({ isOpen, onClose, onServiceDeleted }: Dele
                     />
                   </FormControl>
                   <FormDescription>
-                    Service principal name (SPN) to remove
+                    {_('Service principal name (SPN) to remove')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            <CommandPreview operation={previewDelete} disabled={!accountName || !principal} />
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting} variant="destructive">
-                {isSubmitting ? 'Removing Service...' : 'Remove Service'}
+                {isSubmitting ? _('Removing Service...') : _('Remove Service')}
               </Button>
             </DialogFooter>
           </form>
@@ -8,6 +8,7 @@ import type {
   SetAnyServiceInput,
   SetAnyProtocolInput
 } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseDelegationReturn {
   delegation: DelegationInfo | null;
@@ -62,7 +63,7 @@ export const useDelegationMutations = (onSuccess?: () => void, onError?: (error:
       await DelegationAPI.addService(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to add service delegation'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to add service delegation')
       onError?.(errorMessage)
       throw err
     }
@@ -73,7 +74,7 @@ export const useDelegationMutations = (onSuccess?: () => void, onError?: (error:
       await DelegationAPI.deleteService(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete service delegation'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to delete service delegation')
       onError?.(errorMessage)
       throw err
     }
@@ -84,7 +85,7 @@ export const useDelegationMutations = (onSuccess?: () => void, onError?: (error:
       await DelegationAPI.setAnyService(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to set any-service delegation'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to set any-service delegation')
       onError?.(errorMessage)
       throw err
     }
@@ -95,7 +96,7 @@ export const useDelegationMutations = (onSuccess?: () => void, onError?: (error:
       await DelegationAPI.setAnyProtocol(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to set any-protocol delegation'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to set any-protocol delegation')
       onError?.(errorMessage)
       throw err
     }
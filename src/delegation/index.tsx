@@ -23,6 +23,7 @@ import { DeleteServiceDialog } from './delete-service'
 import { SetAnyServiceDialog } from './set-any-service'
 import { SetAnyProtocolDialog } from './set-any-protocol'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 export default function DelegationManagement () {
   const [searchAccountName, setSearchAccountName] = useState('')
@@ -52,7 +53,7 @@ export default function DelegationManagement () {
       setSelectedAccount(searchAccountName.trim())
       setShowDelegationDialogOpen(true)
     } else {
-      toast.error('Please enter an account name first')
+      toast.error(_('Please enter an account name first'))
     }
   }
 
@@ -61,9 +62,9 @@ export default function DelegationManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Delegation Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('Delegation Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Kerberos delegation settings for service accounts
+            {_('Manage Kerberos delegation settings for service accounts')}
           </p>
         </div>
       </div>
@@ -71,9 +72,9 @@ export default function DelegationManagement () {
       {/* Account Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Account Lookup</CardTitle>
+          <CardTitle>{_('Account Lookup')}</CardTitle>
           <CardDescription>
-            Enter an account name to view and manage its delegation settings.
+            {_('Enter an account name to view and manage its delegation settings.')}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -81,7 +82,7 @@ export default function DelegationManagement () {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
               <Input
-                placeholder="Enter account name (e.g., serviceaccount1)"
+                placeholder={_('Enter account name (e.g., serviceaccount1)')}
                 value={searchAccountName}
                 onChange={(e) => setSearchAccountName(e.target.value)}
                 className="pl-10"
@@ -89,10 +90,10 @@ export default function DelegationManagement () {
               />
             </div>
             <Button onClick={handleSearchAccount}>
-              Search
+              {_('Search')}
             </Button>
             <Button onClick={handleShowDelegation} variant="outline">
-              Show Delegation
+              {_('Show Delegation')}
             </Button>
           </div>
         </CardContent>
@@ -103,46 +104,46 @@ export default function DelegationManagement () {
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Account</CardTitle>
+              <CardTitle className="text-sm font-medium">{_('Account')}</CardTitle>
               <Shield className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-lg font-bold truncate">{delegation.accountName}</div>
               <p className="text-xs text-muted-foreground">
-                Service account
+                {_('Service account')}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Delegation Type</CardTitle>
+              <CardTitle className="text-sm font-medium">{_('Delegation Type')}</CardTitle>
               <Settings className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-lg font-bold">{delegation.delegationType}</div>
               <p className="text-xs text-muted-foreground">
-                Current delegation mode
+                {_('Current delegation mode')}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Allowed Services</CardTitle>
+              <CardTitle className="text-sm font-medium">{_('Allowed Services')}</CardTitle>
               <Lock className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{delegation.allowedServices.length}</div>
               <p className="text-xs text-muted-foreground">
-                Configured services
+                {_('Configured services')}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Any Service</CardTitle>
+              <CardTitle className="text-sm font-medium">{_('Any Service')}</CardTitle>
               {delegation.anyService
                 ? (
                 <Unlock className="h-4 w-4 text-orange-600" />
@@ -153,10 +154,10 @@ export default function DelegationManagement () {
             </CardHeader>
             <CardContent>
               <div className={`text-2xl font-bold ${delegation.anyService ? 'text-orange-600' : 'text-green-600'}`}>
-                {delegation.anyService ? 'Enabled' : 'Disabled'}
+                {delegation.anyService ? _('Enabled') : _('Disabled')}
               </div>
               <p className="text-xs text-muted-foreground">
-                Any service delegation
+                {_('Any service delegation')}
               </p>
             </CardContent>
           </Card>
@@ -168,12 +169,12 @@ export default function DelegationManagement () {
           <TabsList>
             <TabsTrigger value="operations" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
-              Operations
+              {_('Operations')}
             </TabsTrigger>
             {delegation && (
               <TabsTrigger value="details" className="flex items-center gap-2">
                 <Info className="h-4 w-4" />
-                Delegation Details
+                {_('Delegation Details')}
               </TabsTrigger>
             )}
           </TabsList>
@@ -185,10 +186,10 @@ export default function DelegationManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Plus className="h-5 w-5" />
-                  Add Service
+                  {_('Add Service')}
                 </CardTitle>
                 <CardDescription>
-                  Add a service principal for constrained delegation
+                  {_('Add a service principal for constrained delegation')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -196,7 +197,7 @@ export default function DelegationManagement () {
                   onClick={() => setAddServiceDialogOpen(true)}
                   className="w-full"
                 >
-                  Add Service
+                  {_('Add Service')}
                 </Button>
               </CardContent>
             </Card>
@@ -205,10 +206,10 @@ export default function DelegationManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Trash2 className="h-5 w-5" />
-                  Delete Service
+                  {_('Delete Service')}
                 </CardTitle>
                 <CardDescription>
-                  Remove a service principal from delegation
+                  {_('Remove a service principal from delegation')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -217,7 +218,7 @@ export default function DelegationManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Delete Service
+                  {_('Delete Service')}
                 </Button>
               </CardContent>
             </Card>
@@ -226,10 +227,10 @@ export default function DelegationManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Unlock className="h-5 w-5" />
-                  Any Service
+                  {_('Any Service')}
                 </CardTitle>
                 <CardDescription>
-                  Configure delegation for any service
+                  {_('Configure delegation for any service')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -238,7 +239,7 @@ export default function DelegationManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Configure
+                  {_('Configure')}
                 </Button>
               </CardContent>
             </Card>
@@ -247,10 +248,10 @@ export default function DelegationManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Settings className="h-5 w-5" />
-                  Any Protocol
+                  {_('Any Protocol')}
                 </CardTitle>
                 <CardDescription>
-                  Configure delegation for any protocol
+                  {_('Configure delegation for any protocol')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -259,7 +260,7 @@ export default function DelegationManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Configure
+                  {_('Configure')}
                 </Button>
               </CardContent>
             </Card>
@@ -268,10 +269,10 @@ export default function DelegationManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Search className="h-5 w-5" />
-                  Show Settings
+                  {_('Show Settings')}
                 </CardTitle>
                 <CardDescription>
-                  View current delegation configuration
+                  {_('View current delegation configuration')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -280,7 +281,7 @@ export default function DelegationManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Show Settings
+                  {_('Show Settings')}
                 </Button>
               </CardContent>
             </Card>
@@ -292,22 +293,22 @@ export default function DelegationManagement () {
             <div className="space-y-6">
               <Card>
                 <CardHeader>
-                  <CardTitle>Delegation Configuration</CardTitle>
+                  <CardTitle>{_('Delegation Configuration')}</CardTitle>
                   <CardDescription>
-                    Current delegation settings for {delegation.accountName}
+                    {format(_('Current delegation settings for $0'), delegation.accountName)}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
-                        <h4 className="font-medium mb-2">Account Name</h4>
+                        <h4 className="font-medium mb-2">{_('Account Name')}</h4>
                         <p className="text-sm bg-muted p-2 rounded font-mono">
                           {delegation.accountName}
                         </p>
                       </div>
                       <div>
-                        <h4 className="font-medium mb-2">Delegation Type</h4>
+                        <h4 className="font-medium mb-2">{_('Delegation Type')}</h4>
                         <Badge variant="outline" className="text-sm">
                           {delegation.delegationType}
                         </Badge>
@@ -316,24 +317,24 @@ export default function DelegationManagement () {
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
-                        <h4 className="font-medium mb-2">Any Service</h4>
+                        <h4 className="font-medium mb-2">{_('Any Service')}</h4>
                         <Badge variant={delegation.anyService ? 'destructive' : 'default'}>
-                          {delegation.anyService ? 'Enabled' : 'Disabled'}
+                          {delegation.anyService ? _('Enabled') : _('Disabled')}
                         </Badge>
                       </div>
                       <div>
-                        <h4 className="font-medium mb-2">Any Protocol</h4>
+                        <h4 className="font-medium mb-2">{_('Any Protocol')}</h4>
                         <Badge variant={delegation.anyProtocol ? 'destructive' : 'default'}>
-                          {delegation.anyProtocol ? 'Enabled' : 'Disabled'}
+                          {delegation.anyProtocol ? _('Enabled') : _('Disabled')}
                         </Badge>
                       </div>
                     </div>
 
                     <div>
-                      <h4 className="font-medium mb-2">Allowed Services</h4>
+                      <h4 className="font-medium mb-2">{_('Allowed Services')}</h4>
                       {delegation.allowedServices.length === 0
                         ? (
-                        <p className="text-sm text-muted-foreground">No specific services configured</p>
+                        <p className="text-sm text-muted-foreground">{_('No specific services configured')}</p>
                           )
                         : (
                         <div className="space-y-2">
@@ -348,7 +349,7 @@ export default function DelegationManagement () {
 
                     {delegation.protocols.length > 0 && (
                       <div>
-                        <h4 className="font-medium mb-2">Protocols</h4>
+                        <h4 className="font-medium mb-2">{_('Protocols')}</h4>
                         <div className="flex flex-wrap gap-2">
                           {delegation.protocols.map((protocol, index) => (
                             <Badge key={index} variant="secondary">
@@ -360,7 +361,7 @@ export default function DelegationManagement () {
                     )}
 
                     <div>
-                      <h4 className="font-medium mb-2">Raw Output</h4>
+                      <h4 className="font-medium mb-2">{_('Raw Output')}</h4>
                       <div className="bg-muted/50 p-4 rounded-lg">
                         <pre className="text-xs font-mono overflow-x-auto whitespace-pre-wrap">
                           {delegation.rawOutput.join('\n')}
@@ -380,11 +381,9 @@ export default function DelegationManagement () {
         <Info className="h-4 w-4" />
         <AlertDescription>
           <div className="space-y-2">
-            <p className="font-medium">Kerberos Delegation</p>
+            <p className="font-medium">{_('Kerberos Delegation')}</p>
             <p className="text-sm">
-              Delegation allows a service to impersonate users when accessing other services.
-              Use constrained delegation for security, and avoid "any service" delegation
-              unless absolutely necessary as it poses security risks.
+              {_('Delegation allows a service to impersonate users when accessing other services. Use constrained delegation for security, and avoid "any service" delegation unless absolutely necessary as it poses security risks.')}
             </p>
           </div>
         </AlertDescription>
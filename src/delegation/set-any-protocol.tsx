@@ -33,9 +33,10 @@ import { AlertTriangle } from 'lucide-react'
 import { useDelegationMutations } from './hooks/useDelegation'
 import { toast } from 'sonner'
 import type { SetAnyProtocolInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const setAnyProtocolSchema = z.object({
-  accountName: z.string().min(1, 'Account name is required'),
+  accountName: z.string().min(1, _('Account name is required')),
   action: z.enum(['enable', 'disable'])
 })
 
@@ -80,7 +81,7 @@ export function SetAnyProtocolDialog ({ isOpen, onClose, onAnyProtocolSet }: Set
       }
 
       await setAnyProtocol(input)
-      toast.success(`Any protocol delegation ${data.action}d for "${data.accountName}"`)
+      toast.success(format(_('Any protocol delegation $0d for "$1"'), data.action, data.accountName))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -92,9 +93,9 @@ export function SetAnyProtocolDialog ({ isOpen, onClose, onAnyProtocolSet }: Set
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Set Any Protocol Delegation</DialogTitle>
+          <DialogTitle>{_('Set Any Protocol Delegation')}</DialogTitle>
           <DialogDescription>
-            Configure whether the account can use any authentication protocol for delegation.
+            {_('Configure whether the account can use any authentication protocol for delegation.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -104,11 +105,9 @@ export function SetAnyProtocolDialog ({ isOpen, onClose, onAnyProtocolSet }: Set
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Security Consideration</p>
+                  <p className="font-medium">{_('Security Consideration')}</p>
                   <p className="text-sm">
-                    Enabling "any protocol" delegation allows the account to use any
-                    authentication protocol (including less secure ones) for delegation.
-                    Consider the security implications before enabling this setting.
+                    {_('Enabling "any protocol" delegation allows the account to use any authentication protocol (including less secure ones) for delegation. Consider the security implications before enabling this setting.')}
                   </p>
                 </div>
               </AlertDescription>
@@ -119,7 +118,7 @@ export function SetAnyProtocolDialog ({ isOpen, onClose, onAnyProtocolSet }: Set
               name="accountName"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Account Name</FormLabel>
+                  <FormLabel>{_('Account Name')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="serviceaccount1"
@@ -128,7 +127,7 @@ export function SetAnyProtocolDialog ({ isOpen, onClose, onAnyProtocolSet }: Set
                     />
                   </FormControl>
                   <FormDescription>
-                    Name of the service account
+                    {_('Name of the service account')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -140,20 +139,20 @@ export function SetAnyProtocolDialog ({ isOpen, onClose, onAnyProtocolSet }: Set
               name="action"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Action</FormLabel>
+                  <FormLabel>{_('Action')}</FormLabel>
                   <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select action" />
+                        <SelectValue placeholder={_('Select action')} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="enable">Enable any protocol delegation</SelectItem>
-                      <SelectItem value="disable">Disable any protocol delegation</SelectItem>
+                      <SelectItem value="enable">{_('Enable any protocol delegation')}</SelectItem>
+                      <SelectItem value="disable">{_('Disable any protocol delegation')}</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormDescription>
-                    Whether to enable or disable delegation with any protocol
+                    {_('Whether to enable or disable delegation with any protocol')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -161,19 +160,19 @@ export function SetAnyProtocolDialog ({ isOpen, onClose, onAnyProtocolSet }: Set
             />
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">Protocol Information:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('Protocol Information:')}</h4>
               <div className="space-y-1 text-xs text-muted-foreground">
-                <div><strong>Kerberos Only:</strong> More secure, recommended for most scenarios</div>
-                <div><strong>Any Protocol:</strong> Includes NTLM and other protocols, less secure</div>
+                <div><strong>{_('Kerberos Only:')}</strong>{' '}{_('More secure, recommended for most scenarios')}</div>
+                <div><strong>{_('Any Protocol:')}</strong>{' '}{_('Includes NTLM and other protocols, less secure')}</div>
               </div>
             </div>
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Updating...' : 'Update Setting'}
+                {isSubmitting ? _('Updating...') : _('Update Setting')}
               </Button>
             </DialogFooter>
           </form>
@@ -33,9 +33,10 @@ import { AlertTriangle } from 'lucide-react'
 import { useDelegationMutations } from './hooks/useDelegation'
 import { toast } from 'sonner'
 import type { SetAnyServiceInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const setAnyServiceSchema = z.object({
-  accountName: z.string().min(1, 'Account name is required'),
+  accountName: z.string().min(1, _('Account name is required')),
   action: z.enum(['enable', 'disable'])
 })
 
@@ -80,7 +81,7 @@ export function SetAnyServiceDialog ({ isOpen, onClose, onAnyServiceSet }: SetAn
       }
 
       await setAnyService(input)
-      toast.success(`Any service delegation ${data.action}d for "${data.accountName}"`)
+      toast.success(format(_('Any service delegation $0d for "$1"'), data.action, data.accountName))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -92,9 +93,9 @@ export function SetAnyServiceDialog ({ isOpen, onClose, onAnyServiceSet }: SetAn
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Set Any Service Delegation</DialogTitle>
+          <DialogTitle>{_('Set Any Service Delegation')}</DialogTitle>
           <DialogDescription>
-            Configure whether the account can delegate to any service.
+            {_('Configure whether the account can delegate to any service.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -104,11 +105,9 @@ export function SetAnyServiceDialog ({ isOpen, onClose, onAnyServiceSet }: SetAn
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Security Warning</p>
+                  <p className="font-medium">{_('Security Warning')}</p>
                   <p className="text-sm">
-                    Enabling "any service" delegation allows the account to delegate
-                    to any service in the domain. This poses significant security risks
-                    and should only be used when absolutely necessary.
+                    {_('Enabling "any service" delegation allows the account to delegate to any service in the domain. This poses significant security risks and should only be used when absolutely necessary.')}
                   </p>
                 </div>
               </AlertDescription>
@@ -119,7 +118,7 @@ export function SetAnyServiceDialog ({ isOpen, onClose, onAnyServiceSet }: SetAn
               name="accountName"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Account Name</FormLabel>
+                  <FormLabel>{_('Account Name')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="serviceaccount1"
@@ -128,7 +127,7 @@ export function SetAnyServiceDialog ({ isOpen, onClose, onAnyServiceSet }: SetAn
                     />
                   </FormControl>
                   <FormDescription>
-                    Name of the service account
+                    {_('Name of the service account')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -140,20 +139,20 @@ export function SetAnyServiceDialog ({ isOpen, onClose, onAnyServiceSet }: SetAn
               name="action"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Action</FormLabel>
+                  <FormLabel>{_('Action')}</FormLabel>
                   <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select action" />
+                        <SelectValue placeholder={_('Select action')} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="enable">Enable any service delegation</SelectItem>
-                      <SelectItem value="disable">Disable any service delegation</SelectItem>
+                      <SelectItem value="enable">{_('Enable any service delegation')}</SelectItem>
+                      <SelectItem value="disable">{_('Disable any service delegation')}</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormDescription>
-                    Whether to enable or disable delegation to any service
+                    {_('Whether to enable or disable delegation to any service')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -162,10 +161,10 @@ export function SetAnyServiceDialog ({ isOpen, onClose, onAnyServiceSet }: SetAn
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Updating...' : 'Update Setting'}
+                {isSubmitting ? _('Updating...') : _('Update Setting')}
               </Button>
             </DialogFooter>
           </form>
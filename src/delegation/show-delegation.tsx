@@ -26,9 +26,10 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Shield, Loader2 } from 'lucide-react'
 import { useDelegation } from './hooks/useDelegation'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 const showDelegationSchema = z.object({
-  accountName: z.string().min(1, 'Account name is required')
+  accountName: z.string().min(1, _('Account name is required'))
 })
 
 type ShowDelegationFormData = z.infer<typeof showDelegationSchema>;
@@ -61,9 +62,9 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
     setIsSubmitting(true)
     try {
       setCurrentAccount(data.accountName)
-      toast.success('Getting delegation settings...')
+      toast.success(_('Getting delegation settings...'))
     } catch (error) {
-      toast.error('Failed to get delegation settings')
+      toast.error(_('Failed to get delegation settings'))
     } finally {
       setIsSubmitting(false)
     }
@@ -73,9 +74,9 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Show Delegation Settings</DialogTitle>
+          <DialogTitle>{_('Show Delegation Settings')}</DialogTitle>
           <DialogDescription>
-            View the current delegation configuration for a service account.
+            {_('View the current delegation configuration for a service account.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -86,7 +87,7 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
               name="accountName"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Account Name</FormLabel>
+                  <FormLabel>{_('Account Name')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="serviceaccount1"
@@ -95,7 +96,7 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
                     />
                   </FormControl>
                   <FormDescription>
-                    Name of the service account to query
+                    {_('Name of the service account to query')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -107,7 +108,7 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
               <Alert>
                 <Loader2 className="h-4 w-4 animate-spin" />
                 <AlertDescription>
-                  Retrieving delegation settings...
+                  {_('Retrieving delegation settings...')}
                 </AlertDescription>
               </Alert>
             )}
@@ -115,7 +116,7 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
             {error && (
               <Alert variant="destructive">
                 <AlertDescription>
-                  Error: {error}
+                  {format(_('Error: $0'), error)}
                 </AlertDescription>
               </Alert>
             )}
@@ -126,8 +127,8 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
                   <Shield className="h-4 w-4" />
                   <AlertDescription>
                     <div className="space-y-2">
-                      <p className="font-medium">Delegation Settings Retrieved</p>
-                      <p className="text-sm">Account: {delegation.accountName}</p>
+                      <p className="font-medium">{_('Delegation Settings Retrieved')}</p>
+                      <p className="text-sm">{format(_('Account: $0'), delegation.accountName)}</p>
                     </div>
                   </AlertDescription>
                 </Alert>
@@ -135,28 +136,28 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
                 <div className="space-y-4">
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <h4 className="font-medium mb-2">Delegation Type</h4>
+                      <h4 className="font-medium mb-2">{_('Delegation Type')}</h4>
                       <Badge variant="outline" className="text-sm">
                         {delegation.delegationType}
                       </Badge>
                     </div>
                     <div>
-                      <h4 className="font-medium mb-2">Any Service</h4>
+                      <h4 className="font-medium mb-2">{_('Any Service')}</h4>
                       <Badge variant={delegation.anyService ? 'destructive' : 'default'}>
-                        {delegation.anyService ? 'Enabled' : 'Disabled'}
+                        {delegation.anyService ? _('Enabled') : _('Disabled')}
                       </Badge>
                     </div>
                   </div>
 
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <h4 className="font-medium mb-2">Any Protocol</h4>
+                      <h4 className="font-medium mb-2">{_('Any Protocol')}</h4>
                       <Badge variant={delegation.anyProtocol ? 'destructive' : 'default'}>
-                        {delegation.anyProtocol ? 'Enabled' : 'Disabled'}
+                        {delegation.anyProtocol ? _('Enabled') : _('Disabled')}
                       </Badge>
                     </div>
                     <div>
-                      <h4 className="font-medium mb-2">Services Count</h4>
+                      <h4 className="font-medium mb-2">{_('Services Count')}</h4>
                       <Badge variant="secondary">
                         {delegation.allowedServices.length}
                       </Badge>
@@ -164,10 +165,10 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
                   </div>
 
                   <div>
-                    <h4 className="font-medium mb-2">Allowed Services</h4>
+                    <h4 className="font-medium mb-2">{_('Allowed Services')}</h4>
                     {delegation.allowedServices.length === 0
                       ? (
-                      <p className="text-sm text-muted-foreground">No specific services configured</p>
+                      <p className="text-sm text-muted-foreground">{_('No specific services configured')}</p>
                         )
                       : (
                       <div className="space-y-2 max-h-32 overflow-y-auto">
@@ -182,7 +183,7 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
 
                   {delegation.protocols.length > 0 && (
                     <div>
-                      <h4 className="font-medium mb-2">Protocols</h4>
+                      <h4 className="font-medium mb-2">{_('Protocols')}</h4>
                       <div className="flex flex-wrap gap-2">
                         {delegation.protocols.map((protocol, index) => (
                           <Badge key={index} variant="secondary">
@@ -194,7 +195,7 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
                   )}
 
                   <div>
-                    <h4 className="font-medium mb-2">Raw Output</h4>
+                    <h4 className="font-medium mb-2">{_('Raw Output')}</h4>
                     <div className="bg-muted/50 p-4 rounded-lg max-h-48 overflow-y-auto">
                       <pre className="text-xs font-mono whitespace-pre-wrap">
                         {delegation.rawOutput.join('\n')}
@@ -207,10 +208,10 @@ export function ShowDelegationDialog ({ isOpen, onClose }: ShowDelegationDialogP
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose}>
-                Close
+                {_('Close')}
               </Button>
               <Button type="submit" disabled={isSubmitting || loading}>
-                {isSubmitting || loading ? 'Getting Settings...' : 'Show Settings'}
+                {isSubmitting || loading ? _('Getting Settings...') : _('Show Settings')}
               </Button>
             </DialogFooter>
           </form>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback, useRef } from 'react'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -7,6 +7,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Progress } from '@/components/ui/progress'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { CommandPreview } from '@/components/ui/command-preview'
+import { CancelledAlert } from '@/components/ui/error-alert'
 import {
   AlertTriangle,
   Info,
@@ -19,11 +21,15 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useDNSMutations } from './hooks/useDNS'
+import { DNSAPI } from '@/services/dns-api'
+import type { PreviewScope } from '@/services/base-api'
+import { CancelledError } from '@/lib/errors'
 import { toast } from 'sonner'
 import type { DNSCleanupInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const cleanupSchema = z.object({
-  server: z.string().min(1, 'Server is required'),
+  server: z.string().min(1, _('Server is required')),
   password: z.string().optional()
 })
 
@@ -47,11 +53,14 @@ export function CleanupDialog ({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [cleanupResults, setCleanupResults] = useState<string[]>([])
   const [showResults, setShowResults] = useState(false)
+  const [cancelled, setCancelled] = useState(false)
+  const abortController = useRef<AbortController | null>(null)
 
   const {
     register,
     handleSubmit,
     reset,
+    watch,
     formState: { errors }
   } = useForm<CleanupFormData>({
     resolver: zodResolver(cleanupSchema),
@@ -63,17 +72,28 @@ export function CleanupDialog ({
 
   const { cleanup } = useDNSMutations(
     () => {
-      toast.success('DNS cleanup completed successfully')
+      toast.success(_('DNS cleanup completed successfully'))
       onCleanupCompleted()
     },
     (error) => {
-      toast.error(`DNS cleanup failed: ${error}`)
+      toast.error(format(_('DNS cleanup failed: $0'), error))
     }
   )
 
+  const [server, password] = watch(['server', 'password'])
+
+  const previewCleanup = useCallback(
+    (api: PreviewScope) => api(DNSAPI).cleanup({ server, password }),
+    [server, password]
+  )
+
   const onSubmit = async (data: CleanupFormData) => {
+    const controller = new AbortController()
+    abortController.current = controller
+
     setIsSubmitting(true)
     setShowResults(false)
+    setCancelled(false)
     setCleanupResults([])
 
     try {
@@ -82,20 +102,33 @@ export function CleanupDialog ({
         password: data.password
       }
 
-      const results = await cleanup(input)
+      const results = await cleanup(input, { signal: controller.signal })
       setCleanupResults(results)
       setShowResults(true)
     } catch (error) {
-      // Error handled by mutation
+      // Other errors are handled by the mutation
+      if (error instanceof CancelledError) {
+        toast.warning(_('DNS cleanup cancelled'))
+        setCleanupResults(error.partialLines)
+        setCancelled(true)
+        setShowResults(true)
+      }
     } finally {
+      abortController.current = null
       setIsSubmitting(false)
     }
   }
 
+  const handleCancelCleanup = () => {
+    abortController.current?.abort()
+  }
+
   const handleClose = () => {
+    abortController.current?.abort()
     reset()
     setCleanupResults([])
     setShowResults(false)
+    setCancelled(false)
     onClose()
   }
 
@@ -105,10 +138,10 @@ export function CleanupDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Trash2 className="h-5 w-5" />
-            DNS Cleanup
+            {_('DNS Cleanup')}
           </DialogTitle>
           <DialogDescription>
-            Clean up stale DNS records and resolve configuration issues on the DNS server.
+            {_('Clean up stale DNS records and resolve configuration issues on the DNS server.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -117,24 +150,20 @@ export function CleanupDialog ({
             <Alert className="border-blue-200 bg-blue-50">
               <Info className="h-4 w-4 text-blue-600" />
               <AlertDescription className="text-blue-800">
-                <strong>DNS Cleanup Process:</strong> This operation will scan the DNS server
-                for stale records, orphaned entries, and configuration inconsistencies, then
-                attempt to resolve them automatically.
+                <strong>{_('DNS Cleanup Process:')}</strong>{' '}{_('This operation will scan the DNS server for stale records, orphaned entries, and configuration inconsistencies, then attempt to resolve them automatically.')}
               </AlertDescription>
             </Alert>
 
             <Alert className="border-orange-200 bg-orange-50">
               <AlertTriangle className="h-4 w-4 text-orange-600" />
               <AlertDescription className="text-orange-800">
-                <strong>Warning:</strong> DNS cleanup may modify or remove DNS records.
-                Ensure you have proper backups before proceeding. This operation should
-                be performed during maintenance windows.
+                <strong>{_('Warning:')}</strong>{' '}{_('DNS cleanup may modify or remove DNS records. Ensure you have proper backups before proceeding. This operation should be performed during maintenance windows.')}
               </AlertDescription>
             </Alert>
 
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="server">DNS Server *</Label>
+                <Label htmlFor="server">{_('DNS Server *')}</Label>
                 <Input
                   id="server"
                   {...register('server')}
@@ -145,51 +174,51 @@ export function CleanupDialog ({
                   <p className="text-sm text-red-500">{errors.server.message}</p>
                 )}
                 <p className="text-xs text-muted-foreground">
-                  The DNS server to perform cleanup operations on
+                  {_('The DNS server to perform cleanup operations on')}
                 </p>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <Label htmlFor="password">{_('Password')}</Label>
                 <Input
                   id="password"
                   type="password"
                   {...register('password')}
-                  placeholder="Enter password if required"
+                  placeholder={_('Enter password if required')}
                 />
                 <p className="text-xs text-muted-foreground">
-                  Optional password for authentication
+                  {_('Optional password for authentication')}
                 </p>
               </div>
 
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-sm">Cleanup Operations</CardTitle>
+                  <CardTitle className="text-sm">{_('Cleanup Operations')}</CardTitle>
                   <CardDescription>
-                    The following operations will be performed during cleanup:
+                    {_('The following operations will be performed during cleanup:')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ul className="text-sm space-y-2">
                     <li className="flex items-center gap-2">
                       <Database className="h-4 w-4 text-blue-600" />
-                      Scan for orphaned DNS records
+                      {_('Scan for orphaned DNS records')}
                     </li>
                     <li className="flex items-center gap-2">
                       <Database className="h-4 w-4 text-blue-600" />
-                      Remove stale pointer records
+                      {_('Remove stale pointer records')}
                     </li>
                     <li className="flex items-center gap-2">
                       <Database className="h-4 w-4 text-blue-600" />
-                      Validate zone consistency
+                      {_('Validate zone consistency')}
                     </li>
                     <li className="flex items-center gap-2">
                       <Database className="h-4 w-4 text-blue-600" />
-                      Check for duplicate entries
+                      {_('Check for duplicate entries')}
                     </li>
                     <li className="flex items-center gap-2">
                       <Database className="h-4 w-4 text-blue-600" />
-                      Resolve configuration conflicts
+                      {_('Resolve configuration conflicts')}
                     </li>
                   </ul>
                 </CardContent>
@@ -200,24 +229,26 @@ export function CleanupDialog ({
                   <CardContent className="pt-6">
                     <div className="space-y-2">
                       <div className="flex items-center justify-between">
-                        <span className="text-sm">Cleaning up DNS records...</span>
+                        <span className="text-sm">{_('Cleaning up DNS records...')}</span>
                         <Clock className="h-4 w-4 animate-spin text-blue-600" />
                       </div>
                       <Progress value={undefined} className="w-full" />
                       <p className="text-xs text-muted-foreground">
-                        This may take several minutes depending on the number of DNS records.
+                        {_('This may take several minutes depending on the number of DNS records.')}
                       </p>
                     </div>
                   </CardContent>
                 </Card>
               )}
 
+              <CommandPreview operation={previewCleanup} disabled={!server} />
+
               <DialogFooter>
-                <Button type="button" variant="outline" onClick={handleClose}>
-                  Cancel
+                <Button type="button" variant="outline" onClick={isSubmitting ? handleCancelCleanup : handleClose}>
+                  {isSubmitting ? _('Cancel Cleanup') : _('Cancel')}
                 </Button>
                 <Button type="submit" disabled={isSubmitting}>
-                  {isSubmitting ? 'Cleaning...' : 'Start Cleanup'}
+                  {isSubmitting ? _('Cleaning...') : _('Start Cleanup')}
                 </Button>
               </DialogFooter>
             </form>
@@ -226,35 +257,48 @@ export function CleanupDialog ({
 
         {showResults && (
           <div className="space-y-4">
-            <Alert className="border-green-200 bg-green-50">
-              <CheckCircle className="h-4 w-4 text-green-600" />
-              <AlertDescription className="text-green-800">
-                <strong>Cleanup Completed:</strong> DNS cleanup operation finished successfully.
-              </AlertDescription>
-            </Alert>
+            {cancelled
+              ? (
+              <CancelledAlert
+                title={_('Cleanup Cancelled')}
+                message={_('DNS cleanup was stopped before it finished. The results below were reported before it was cancelled; run the cleanup again to process the remaining records.')}
+              />
+                )
+              : (
+              <Alert className="border-green-200 bg-green-50">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-800">
+                  <strong>{_('Cleanup Completed:')}</strong>{' '}{_('DNS cleanup operation finished successfully.')}
+                </AlertDescription>
+              </Alert>
+                )}
 
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Trash2 className="h-5 w-5" />
-                  Cleanup Results
+                  {_('Cleanup Results')}
                 </CardTitle>
                 <CardDescription>
-                  Summary of operations performed during DNS cleanup
+                  {_('Summary of operations performed during DNS cleanup')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {cleanupResults.length === 0
-                  ? (
+                {cleanupResults.length === 0 && cancelled && (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    {_('No results were reported before the cleanup was cancelled.')}
+                  </p>
+                )}
+                {cleanupResults.length === 0 && !cancelled && (
                   <div className="text-center py-4">
                     <CheckCircle className="mx-auto h-8 w-8 text-green-600 mb-2" />
-                    <p className="text-sm font-medium">No Issues Found</p>
+                    <p className="text-sm font-medium">{_('No Issues Found')}</p>
                     <p className="text-xs text-muted-foreground">
-                      The DNS server is clean and no stale records were detected.
+                      {_('The DNS server is clean and no stale records were detected.')}
                     </p>
                   </div>
-                    )
-                  : (
+                )}
+                {cleanupResults.length > 0 && (
                   <div className="space-y-2">
                     {cleanupResults.map((result, index) => (
                       <div key={index} className="flex items-start gap-2 p-2 bg-muted/50 rounded">
@@ -265,12 +309,12 @@ export function CleanupDialog ({
                       </div>
                     ))}
                   </div>
-                    )}
+                )}
               </CardContent>
             </Card>
 
             <DialogFooter>
-              <Button onClick={handleClose}>Close</Button>
+              <Button onClick={handleClose}>{_('Close')}</Button>
             </DialogFooter>
           </div>
         )}
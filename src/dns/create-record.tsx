@@ -10,15 +10,16 @@ import { z } from 'zod'
 import { useDNSMutations } from './hooks/useDNS'
 import { toast } from 'sonner'
 import type { CreateDNSRecordInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const createRecordSchema = z.object({
-  server: z.string().min(1, 'Server is required'),
-  zone: z.string().min(1, 'Zone is required'),
-  name: z.string().min(1, 'Name is required'),
+  server: z.string().min(1, _('Server is required')),
+  zone: z.string().min(1, _('Zone is required')),
+  name: z.string().min(1, _('Name is required')),
   type: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT'], {
-    required_error: 'Record type is required'
+    required_error: _('Record type is required')
   }),
-  data: z.string().min(1, 'Data is required'),
+  data: z.string().min(1, _('Data is required')),
   password: z.string().optional(),
   ttl: z.number().optional()
 })
@@ -59,11 +60,11 @@ export function CreateRecordDialog ({
 
   const { createRecord } = useDNSMutations(
     () => {
-      toast.success('DNS record created successfully')
+      toast.success(_('DNS record created successfully'))
       onRecordCreated()
     },
     (error) => {
-      toast.error(`Failed to create DNS record: ${error}`)
+      toast.error(format(_('Failed to create DNS record: $0'), error))
     }
   )
 
@@ -114,7 +115,7 @@ export function CreateRecordDialog ({
       case 'TXT':
         return 'v=spf1 include:_spf.example.com ~all'
       default:
-        return 'Enter record data'
+        return _('Enter record data')
     }
   }
 
@@ -125,19 +126,19 @@ export function CreateRecordDialog ({
       case 'AAAA':
         return 'IPv6 address (e.g., 2001:db8::1)'
       case 'CNAME':
-        return 'Canonical name (e.g., alias.example.com)'
+        return _('Canonical name (e.g., alias.example.com)')
       case 'MX':
-        return 'Priority and mail server (e.g., 10 mail.example.com)'
+        return _('Priority and mail server (e.g., 10 mail.example.com)')
       case 'NS':
-        return 'Name server (e.g., ns1.example.com)'
+        return _('Name server (e.g., ns1.example.com)')
       case 'PTR':
-        return 'Pointer to hostname (e.g., host.example.com)'
+        return _('Pointer to hostname (e.g., host.example.com)')
       case 'SRV':
         return 'Priority, weight, port, target (e.g., 10 5 443 target.example.com)'
       case 'TXT':
-        return 'Text record (e.g., SPF, DKIM records)'
+        return _('Text record (e.g., SPF, DKIM records)')
       default:
-        return 'Enter the appropriate data for the record type'
+        return _('Enter the appropriate data for the record type')
     }
   }
 
@@ -145,15 +146,15 @@ export function CreateRecordDialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Create DNS Record</DialogTitle>
+          <DialogTitle>{_('Create DNS Record')}</DialogTitle>
           <DialogDescription>
-            Add a new DNS record to the specified zone on the DNS server.
+            {_('Add a new DNS record to the specified zone on the DNS server.')}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="server">DNS Server *</Label>
+            <Label htmlFor="server">{_('DNS Server *')}</Label>
             <Input
               id="server"
               {...register('server')}
@@ -166,7 +167,7 @@ export function CreateRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="zone">DNS Zone *</Label>
+            <Label htmlFor="zone">{_('DNS Zone *')}</Label>
             <Input
               id="zone"
               {...register('zone')}
@@ -179,7 +180,7 @@ export function CreateRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="name">Record Name *</Label>
+            <Label htmlFor="name">{_('Record Name *')}</Label>
             <Input
               id="name"
               {...register('name')}
@@ -192,24 +193,24 @@ export function CreateRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="type">Record Type *</Label>
+            <Label htmlFor="type">{_('Record Type *')}</Label>
             <Select
               value={watch('type') || ''}
               onValueChange={(value) => setValue('type', value as CreateRecordFormData['type'])}
             >
               <SelectTrigger className={errors.type ? 'border-red-500' : ''}>
-                <SelectValue placeholder="Select record type" />
+                <SelectValue placeholder={_('Select record type')} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="A">A - IPv4 Address</SelectItem>
-                <SelectItem value="AAAA">AAAA - IPv6 Address</SelectItem>
-                <SelectItem value="CNAME">CNAME - Canonical Name</SelectItem>
-                <SelectItem value="MX">MX - Mail Exchange</SelectItem>
-                <SelectItem value="NS">NS - Name Server</SelectItem>
-                <SelectItem value="PTR">PTR - Pointer</SelectItem>
-                <SelectItem value="SOA">SOA - Start of Authority</SelectItem>
-                <SelectItem value="SRV">SRV - Service</SelectItem>
-                <SelectItem value="TXT">TXT - Text</SelectItem>
+                <SelectItem value="A">{_('A - IPv4 Address')}</SelectItem>
+                <SelectItem value="AAAA">{_('AAAA - IPv6 Address')}</SelectItem>
+                <SelectItem value="CNAME">{_('CNAME - Canonical Name')}</SelectItem>
+                <SelectItem value="MX">{_('MX - Mail Exchange')}</SelectItem>
+                <SelectItem value="NS">{_('NS - Name Server')}</SelectItem>
+                <SelectItem value="PTR">{_('PTR - Pointer')}</SelectItem>
+                <SelectItem value="SOA">{_('SOA - Start of Authority')}</SelectItem>
+                <SelectItem value="SRV">{_('SRV - Service')}</SelectItem>
+                <SelectItem value="TXT">{_('TXT - Text')}</SelectItem>
               </SelectContent>
             </Select>
             {errors.type && (
@@ -218,7 +219,7 @@ export function CreateRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="data">Record Data *</Label>
+            <Label htmlFor="data">{_('Record Data *')}</Label>
             <Input
               id="data"
               {...register('data')}
@@ -236,7 +237,7 @@ export function CreateRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="ttl">TTL (seconds)</Label>
+            <Label htmlFor="ttl">{_('TTL (seconds)')}</Label>
             <Input
               id="ttl"
               type="number"
@@ -246,29 +247,29 @@ export function CreateRecordDialog ({
               max="2147483647"
             />
             <p className="text-xs text-muted-foreground">
-              Time to live in seconds (default: 3600)
+              {_('Time to live in seconds (default: 3600)')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{_('Password')}</Label>
             <Input
               id="password"
               type="password"
               {...register('password')}
-              placeholder="Enter password if required"
+              placeholder={_('Enter password if required')}
             />
             <p className="text-xs text-muted-foreground">
-              Optional password for authentication
+              {_('Optional password for authentication')}
             </p>
           </div>
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Creating...' : 'Create Record'}
+              {isSubmitting ? _('Creating...') : _('Create Record')}
             </Button>
           </DialogFooter>
         </form>
@@ -11,13 +11,14 @@ import { z } from 'zod'
 import { useDNSMutations } from './hooks/useDNS'
 import { toast } from 'sonner'
 import type { CreateDNSZoneInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const createZoneSchema = z.object({
-  server: z.string().min(1, 'Server is required'),
+  server: z.string().min(1, _('Server is required')),
   zoneName: z.string()
-    .min(1, 'Zone name is required')
+    .min(1, _('Zone name is required'))
     .regex(/^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/,
-      'Invalid zone name format'),
+      _('Invalid zone name format')),
   password: z.string().optional()
 })
 
@@ -55,11 +56,11 @@ export function CreateZoneDialog ({
 
   const { createZone } = useDNSMutations(
     () => {
-      toast.success('DNS zone created successfully')
+      toast.success(_('DNS zone created successfully'))
       onZoneCreated()
     },
     (error) => {
-      toast.error(`Failed to create DNS zone: ${error}`)
+      toast.error(format(_('Failed to create DNS zone: $0'), error))
     }
   )
 
@@ -89,23 +90,22 @@ export function CreateZoneDialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Create DNS Zone</DialogTitle>
+          <DialogTitle>{_('Create DNS Zone')}</DialogTitle>
           <DialogDescription>
-            Create a new DNS zone on the specified DNS server.
+            {_('Create a new DNS zone on the specified DNS server.')}
           </DialogDescription>
         </DialogHeader>
 
         <Alert className="border-blue-200 bg-blue-50">
           <Info className="h-4 w-4 text-blue-600" />
           <AlertDescription className="text-blue-800">
-            <strong>Note:</strong> DNS zones manage domain names and their associated records.
-            Creating a zone allows you to add DNS records for that domain.
+            <strong>{_('Note:')}</strong>{' '}{_('DNS zones manage domain names and their associated records. Creating a zone allows you to add DNS records for that domain.')}
           </AlertDescription>
         </Alert>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="server">DNS Server *</Label>
+            <Label htmlFor="server">{_('DNS Server *')}</Label>
             <Input
               id="server"
               {...register('server')}
@@ -116,12 +116,12 @@ export function CreateZoneDialog ({
               <p className="text-sm text-red-500">{errors.server.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              The DNS server where the zone will be created
+              {_('The DNS server where the zone will be created')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="zoneName">Zone Name *</Label>
+            <Label htmlFor="zoneName">{_('Zone Name *')}</Label>
             <Input
               id="zoneName"
               {...register('zoneName')}
@@ -132,39 +132,39 @@ export function CreateZoneDialog ({
               <p className="text-sm text-red-500">{errors.zoneName.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              The domain name for the new DNS zone (e.g., example.com, subdomain.example.com)
+              {_('The domain name for the new DNS zone (e.g., example.com, subdomain.example.com)')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{_('Password')}</Label>
             <Input
               id="password"
               type="password"
               {...register('password')}
-              placeholder="Enter password if required"
+              placeholder={_('Enter password if required')}
             />
             <p className="text-xs text-muted-foreground">
-              Optional password for authentication
+              {_('Optional password for authentication')}
             </p>
           </div>
 
           <div className="bg-muted/50 p-3 rounded-lg">
-            <h4 className="text-sm font-medium mb-2">Zone Creation Details:</h4>
+            <h4 className="text-sm font-medium mb-2">{_('Zone Creation Details:')}</h4>
             <ul className="text-xs text-muted-foreground space-y-1">
-              <li>• A new primary DNS zone will be created</li>
-              <li>• Default SOA record will be automatically generated</li>
-              <li>• NS records will be created for the DNS server</li>
-              <li>• You can add additional records after creation</li>
+              <li>{_('• A new primary DNS zone will be created')}</li>
+              <li>{_('• Default SOA record will be automatically generated')}</li>
+              <li>{_('• NS records will be created for the DNS server')}</li>
+              <li>{_('• You can add additional records after creation')}</li>
             </ul>
           </div>
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Creating...' : 'Create Zone'}
+              {isSubmitting ? _('Creating...') : _('Create Zone')}
             </Button>
           </DialogFooter>
         </form>
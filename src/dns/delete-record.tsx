@@ -1,26 +1,30 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { AlertTriangle } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useDNSMutations } from './hooks/useDNS'
+import { DNSAPI } from '@/services/dns-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { DeleteDNSRecordInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const deleteRecordSchema = z.object({
-  server: z.string().min(1, 'Server is required'),
-  zone: z.string().min(1, 'Zone is required'),
-  name: z.string().min(1, 'Name is required'),
+  server: z.string().min(1, _('Server is required')),
+  zone: z.string().min(1, _('Zone is required')),
+  name: z.string().min(1, _('Name is required')),
   type: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT'], {
-    required_error: 'Record type is required'
+    required_error: _('Record type is required')
   }),
-  data: z.string().min(1, 'Data is required'),
+  data: z.string().min(1, _('Data is required')),
   password: z.string().optional()
 })
 
@@ -60,15 +64,21 @@ export function DeleteRecordDialog ({
 
   const { deleteRecord } = useDNSMutations(
     () => {
-      toast.success('DNS record deleted successfully')
+      toast.success(_('DNS record deleted successfully'))
       onRecordDeleted()
     },
     (error) => {
-      toast.error(`Failed to delete DNS record: ${error}`)
+      toast.error(format(_('Failed to delete DNS record: $0'), error))
     }
   )
 
   const recordType = watch('type')
+  const [server, zone, name, data, password] = watch(['server', 'zone', 'name', 'data', 'password'])
+
+  const previewDelete = useCallback(
+    (api: PreviewScope) => api(DNSAPI).deleteRecord({ server, zone, name, type: recordType, data, password }),
+    [server, zone, name, recordType, data, password]
+  )
 
   const onSubmit = async (data: DeleteRecordFormData) => {
     setIsSubmitting(true)
@@ -114,30 +124,30 @@ export function DeleteRecordDialog ({
       case 'TXT':
         return 'v=spf1 include:_spf.example.com ~all'
       default:
-        return 'Enter record data'
+        return _('Enter record data')
     }
   }
 
   const getDataDescription = () => {
     switch (recordType) {
       case 'A':
-        return 'IPv4 address to delete (e.g., 192.168.1.100)'
+        return _('IPv4 address to delete (e.g., 192.168.1.100)')
       case 'AAAA':
-        return 'IPv6 address to delete (e.g., 2001:db8::1)'
+        return _('IPv6 address to delete (e.g., 2001:db8::1)')
       case 'CNAME':
-        return 'Canonical name to delete (e.g., alias.example.com)'
+        return _('Canonical name to delete (e.g., alias.example.com)')
       case 'MX':
-        return 'Mail server entry to delete (e.g., 10 mail.example.com)'
+        return _('Mail server entry to delete (e.g., 10 mail.example.com)')
       case 'NS':
-        return 'Name server to delete (e.g., ns1.example.com)'
+        return _('Name server to delete (e.g., ns1.example.com)')
       case 'PTR':
-        return 'Pointer record to delete (e.g., host.example.com)'
+        return _('Pointer record to delete (e.g., host.example.com)')
       case 'SRV':
-        return 'Service record to delete (e.g., 10 5 443 target.example.com)'
+        return _('Service record to delete (e.g., 10 5 443 target.example.com)')
       case 'TXT':
-        return 'Text record to delete (exact match required)'
+        return _('Text record to delete (exact match required)')
       default:
-        return 'Enter the exact data of the record to delete'
+        return _('Enter the exact data of the record to delete')
     }
   }
 
@@ -145,23 +155,22 @@ export function DeleteRecordDialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Delete DNS Record</DialogTitle>
+          <DialogTitle>{_('Delete DNS Record')}</DialogTitle>
           <DialogDescription>
-            Remove a DNS record from the specified zone on the DNS server.
+            {_('Remove a DNS record from the specified zone on the DNS server.')}
           </DialogDescription>
         </DialogHeader>
 
         <Alert className="border-orange-200 bg-orange-50">
           <AlertTriangle className="h-4 w-4 text-orange-600" />
           <AlertDescription className="text-orange-800">
-            <strong>Warning:</strong> This action cannot be undone. The DNS record will be permanently removed.
-            Make sure all field values exactly match the existing record.
+            <strong>{_('Warning:')}</strong>{' '}{_('This action cannot be undone. The DNS record will be permanently removed. Make sure all field values exactly match the existing record.')}
           </AlertDescription>
         </Alert>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="server">DNS Server *</Label>
+            <Label htmlFor="server">{_('DNS Server *')}</Label>
             <Input
               id="server"
               {...register('server')}
@@ -174,7 +183,7 @@ export function DeleteRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="zone">DNS Zone *</Label>
+            <Label htmlFor="zone">{_('DNS Zone *')}</Label>
             <Input
               id="zone"
               {...register('zone')}
@@ -187,7 +196,7 @@ export function DeleteRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="name">Record Name *</Label>
+            <Label htmlFor="name">{_('Record Name *')}</Label>
             <Input
               id="name"
               {...register('name')}
@@ -200,24 +209,24 @@ export function DeleteRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="type">Record Type *</Label>
+            <Label htmlFor="type">{_('Record Type *')}</Label>
             <Select
               value={watch('type') || ''}
               onValueChange={(value) => setValue('type', value as DeleteRecordFormData['type'])}
             >
               <SelectTrigger className={errors.type ? 'border-red-500' : ''}>
-                <SelectValue placeholder="Select record type" />
+                <SelectValue placeholder={_('Select record type')} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="A">A - IPv4 Address</SelectItem>
-                <SelectItem value="AAAA">AAAA - IPv6 Address</SelectItem>
-                <SelectItem value="CNAME">CNAME - Canonical Name</SelectItem>
-                <SelectItem value="MX">MX - Mail Exchange</SelectItem>
-                <SelectItem value="NS">NS - Name Server</SelectItem>
-                <SelectItem value="PTR">PTR - Pointer</SelectItem>
-                <SelectItem value="SOA">SOA - Start of Authority</SelectItem>
-                <SelectItem value="SRV">SRV - Service</SelectItem>
-                <SelectItem value="TXT">TXT - Text</SelectItem>
+                <SelectItem value="A">{_('A - IPv4 Address')}</SelectItem>
+                <SelectItem value="AAAA">{_('AAAA - IPv6 Address')}</SelectItem>
+                <SelectItem value="CNAME">{_('CNAME - Canonical Name')}</SelectItem>
+                <SelectItem value="MX">{_('MX - Mail Exchange')}</SelectItem>
+                <SelectItem value="NS">{_('NS - Name Server')}</SelectItem>
+                <SelectItem value="PTR">{_('PTR - Pointer')}</SelectItem>
+                <SelectItem value="SOA">{_('SOA - Start of Authority')}</SelectItem>
+                <SelectItem value="SRV">{_('SRV - Service')}</SelectItem>
+                <SelectItem value="TXT">{_('TXT - Text')}</SelectItem>
               </SelectContent>
             </Select>
             {errors.type && (
@@ -226,7 +235,7 @@ export function DeleteRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="data">Record Data *</Label>
+            <Label htmlFor="data">{_('Record Data *')}</Label>
             <Input
               id="data"
               {...register('data')}
@@ -244,24 +253,26 @@ export function DeleteRecordDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{_('Password')}</Label>
             <Input
               id="password"
               type="password"
               {...register('password')}
-              placeholder="Enter password if required"
+              placeholder={_('Enter password if required')}
             />
             <p className="text-xs text-muted-foreground">
-              Optional password for authentication
+              {_('Optional password for authentication')}
             </p>
           </div>
 
+          <CommandPreview operation={previewDelete} disabled={!server || !zone || !name || !recordType || !data} />
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" variant="destructive" disabled={isSubmitting}>
-              {isSubmitting ? 'Deleting...' : 'Delete Record'}
+              {isSubmitting ? _('Deleting...') : _('Delete Record')}
             </Button>
           </DialogFooter>
         </form>
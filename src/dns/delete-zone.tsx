@@ -1,22 +1,26 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { AlertTriangle } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useDNSMutations } from './hooks/useDNS'
+import { DNSAPI } from '@/services/dns-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { DeleteDNSZoneInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const deleteZoneSchema = z.object({
-  server: z.string().min(1, 'Server is required'),
-  zoneName: z.string().min(1, 'Zone name is required'),
+  server: z.string().min(1, _('Server is required')),
+  zoneName: z.string().min(1, _('Zone name is required')),
   password: z.string().optional(),
-  confirmationText: z.string().min(1, 'Please type DELETE to confirm')
+  confirmationText: z.string().min(1, _('Please type DELETE to confirm'))
 })
 
 type DeleteZoneFormData = z.infer<typeof deleteZoneSchema>;
@@ -48,7 +52,7 @@ export function DeleteZoneDialog ({
     resolver: zodResolver(deleteZoneSchema.refine(
       (data) => data.confirmationText === 'DELETE',
       {
-        message: 'Please type DELETE to confirm zone deletion',
+        message: _('Please type DELETE to confirm zone deletion'),
         path: ['confirmationText']
       }
     )),
@@ -60,20 +64,26 @@ export function DeleteZoneDialog ({
 
   const { deleteZone } = useDNSMutations(
     () => {
-      toast.success('DNS zone deleted successfully')
+      toast.success(_('DNS zone deleted successfully'))
       onZoneDeleted()
     },
     (error) => {
-      toast.error(`Failed to delete DNS zone: ${error}`)
+      toast.error(format(_('Failed to delete DNS zone: $0'), error))
     }
   )
 
   const confirmationText = watch('confirmationText')
   const isConfirmed = confirmationText === 'DELETE'
+  const [server, zoneName, password] = watch(['server', 'zoneName', 'password'])
+
+  const previewDelete = useCallback(
+    (api: PreviewScope) => api(DNSAPI).deleteZone({ server, zoneName, password }),
+    [server, zoneName, password]
+  )
 
   const onSubmit = async (data: DeleteZoneFormData) => {
     if (!isConfirmed) {
-      toast.error('Please type DELETE to confirm zone deletion')
+      toast.error(_('Please type DELETE to confirm zone deletion'))
       return
     }
 
@@ -102,24 +112,22 @@ export function DeleteZoneDialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle className="text-red-600">Delete DNS Zone</DialogTitle>
+          <DialogTitle className="text-red-600">{_('Delete DNS Zone')}</DialogTitle>
           <DialogDescription>
-            Permanently remove a DNS zone and all its records from the DNS server.
+            {_('Permanently remove a DNS zone and all its records from the DNS server.')}
           </DialogDescription>
         </DialogHeader>
 
         <Alert className="border-red-200 bg-red-50">
           <AlertTriangle className="h-4 w-4 text-red-600" />
           <AlertDescription className="text-red-800">
-            <strong>Warning:</strong> This action cannot be undone. Deleting a DNS zone will
-            permanently remove the zone and all DNS records within it. This may cause service
-            disruptions for domains that rely on this zone.
+            <strong>{_('Warning:')}</strong>{' '}{_('This action cannot be undone. Deleting a DNS zone will permanently remove the zone and all DNS records within it. This may cause service disruptions for domains that rely on this zone.')}
           </AlertDescription>
         </Alert>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="server">DNS Server *</Label>
+            <Label htmlFor="server">{_('DNS Server *')}</Label>
             <Input
               id="server"
               {...register('server')}
@@ -130,12 +138,12 @@ export function DeleteZoneDialog ({
               <p className="text-sm text-red-500">{errors.server.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              The DNS server where the zone will be deleted
+              {_('The DNS server where the zone will be deleted')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="zoneName">Zone Name *</Label>
+            <Label htmlFor="zoneName">{_('Zone Name *')}</Label>
             <Input
               id="zoneName"
               {...register('zoneName')}
@@ -146,59 +154,61 @@ export function DeleteZoneDialog ({
               <p className="text-sm text-red-500">{errors.zoneName.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              The exact name of the DNS zone to delete
+              {_('The exact name of the DNS zone to delete')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{_('Password')}</Label>
             <Input
               id="password"
               type="password"
               {...register('password')}
-              placeholder="Enter password if required"
+              placeholder={_('Enter password if required')}
             />
             <p className="text-xs text-muted-foreground">
-              Optional password for authentication
+              {_('Optional password for authentication')}
             </p>
           </div>
 
           <div className="bg-red-50 p-3 rounded-lg border border-red-200">
-            <h4 className="text-sm font-medium text-red-800 mb-2">What will be deleted:</h4>
+            <h4 className="text-sm font-medium text-red-800 mb-2">{_('What will be deleted:')}</h4>
             <ul className="text-xs text-red-700 space-y-1">
-              <li>• The entire DNS zone and all its configuration</li>
-              <li>• All DNS records within the zone (A, AAAA, CNAME, MX, NS, PTR, SOA, SRV, TXT)</li>
-              <li>• Zone delegation information</li>
-              <li>• Zone transfer settings</li>
+              <li>{_('• The entire DNS zone and all its configuration')}</li>
+              <li>{_('• All DNS records within the zone (A, AAAA, CNAME, MX, NS, PTR, SOA, SRV, TXT)')}</li>
+              <li>{_('• Zone delegation information')}</li>
+              <li>{_('• Zone transfer settings')}</li>
             </ul>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="confirmationText">Confirmation *</Label>
+            <Label htmlFor="confirmationText">{_('Confirmation *')}</Label>
             <Input
               id="confirmationText"
               {...register('confirmationText')}
-              placeholder="Type DELETE to confirm"
+              placeholder={_('Type DELETE to confirm')}
               className={errors.confirmationText ? 'border-red-500' : ''}
             />
             {errors.confirmationText && (
               <p className="text-sm text-red-500">{errors.confirmationText.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              Type <strong>DELETE</strong> (in uppercase) to confirm this dangerous action
+              {_('Type')}{' '}<strong>{_('DELETE')}</strong>{' '}{_('(in uppercase) to confirm this dangerous action')}
             </p>
           </div>
 
+          <CommandPreview operation={previewDelete} disabled={!server || !zoneName} />
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button
               type="submit"
               variant="destructive"
               disabled={isSubmitting || !isConfirmed}
             >
-              {isSubmitting ? 'Deleting...' : 'Delete Zone'}
+              {isSubmitting ? _('Deleting...') : _('Delete Zone')}
             </Button>
           </DialogFooter>
         </form>
@@ -1,6 +1,8 @@
 import { useCallback } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { DNSAPI } from '@/services/dns-api'
+import { CancelledError } from '@/lib/errors'
+import type { CancelOptions } from '@/services/base-api'
 import type {
   DNSZoneInfo,
   DNSServerInfo,
@@ -10,6 +12,7 @@ import type {
   DeleteDNSZoneInput,
   DNSCleanupInput
 } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseDNSZonesReturn {
   zones: string[];
@@ -121,7 +124,7 @@ export interface UseDNSMutationsReturn {
   deleteRecord: (input: DeleteDNSRecordInput) => Promise<void>;
   createZone: (input: CreateDNSZoneInput) => Promise<void>;
   deleteZone: (input: DeleteDNSZoneInput) => Promise<void>;
-  cleanup: (input: DNSCleanupInput) => Promise<string[]>;
+  cleanup: (input: DNSCleanupInput, options?: CancelOptions) => Promise<string[]>;
   isLoading: boolean;
   error: string | null;
 }
@@ -135,7 +138,7 @@ export const useDNSMutations = (onSuccess?: () => void, onError?: (error: string
       await DNSAPI.createRecord(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create DNS record'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to create DNS record')
       onError?.(errorMessage)
       throw err
     }
@@ -146,7 +149,7 @@ export const useDNSMutations = (onSuccess?: () => void, onError?: (error: string
       await DNSAPI.deleteRecord(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete DNS record'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to delete DNS record')
       onError?.(errorMessage)
       throw err
     }
@@ -157,7 +160,7 @@ export const useDNSMutations = (onSuccess?: () => void, onError?: (error: string
       await DNSAPI.createZone(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create DNS zone'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to create DNS zone')
       onError?.(errorMessage)
       throw err
     }
@@ -168,19 +171,22 @@ export const useDNSMutations = (onSuccess?: () => void, onError?: (error: string
       await DNSAPI.deleteZone(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete DNS zone'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to delete DNS zone')
       onError?.(errorMessage)
       throw err
     }
   }, [onSuccess, onError])
 
-  const cleanup = useCallback(async (input: DNSCleanupInput) => {
+  const cleanup = useCallback(async (input: DNSCleanupInput, options?: CancelOptions) => {
     try {
-      const result = await DNSAPI.cleanup(input)
+      const result = await DNSAPI.cleanup(input, options)
       onSuccess?.()
       return result
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to cleanup DNS'
+      if (err instanceof CancelledError) {
+        throw err
+      }
+      const errorMessage = err instanceof Error ? err.message : _('Failed to cleanup DNS')
       onError?.(errorMessage)
       throw err
     }
@@ -22,12 +22,16 @@ import { CreateZoneDialog } from './create-zone'
 import { DeleteZoneDialog } from './delete-zone'
 import { ServerInfoDialog } from './server-info'
 import { CleanupDialog } from './cleanup'
+import { useConnection } from '@/components/layout/use-connection'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 export default function DNSManagement () {
-  const [serverName, setServerName] = useState('')
+  const { active } = useConnection()
+  // Start on the domain controller of the active connection profile
+  const [serverName, setServerName] = useState(active.host || '')
   const [password, setPassword] = useState('')
-  const [selectedServer, setSelectedServer] = useState<string | null>(null)
+  const [selectedServer, setSelectedServer] = useState<string | null>(active.host || null)
 
   // Dialog states
   const [createRecordDialogOpen, setCreateRecordDialogOpen] = useState(false)
@@ -49,7 +53,7 @@ export default function DNSManagement () {
     if (serverName.trim()) {
       setSelectedServer(serverName.trim())
     } else {
-      toast.error('Please enter a server name')
+      toast.error(_('Please enter a server name'))
     }
   }
 
@@ -58,9 +62,9 @@ export default function DNSManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">DNS Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('DNS Management')}</h1>
           <p className="text-muted-foreground">
-            Manage DNS zones and records for Active Directory
+            {_('Manage DNS zones and records for Active Directory')}
           </p>
         </div>
       </div>
@@ -68,15 +72,15 @@ export default function DNSManagement () {
       {/* Server Connection */}
       <Card>
         <CardHeader>
-          <CardTitle>DNS Server Connection</CardTitle>
+          <CardTitle>{_('DNS Server Connection')}</CardTitle>
           <CardDescription>
-            Connect to a DNS server to manage zones and records.
+            {_('Connect to a DNS server to manage zones and records.')}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
-              <label className="text-sm font-medium mb-2 block">Server Name</label>
+              <label className="text-sm font-medium mb-2 block">{_('Server Name')}</label>
               <Input
                 placeholder="dns.domain.com"
                 value={serverName}
@@ -85,17 +89,17 @@ export default function DNSManagement () {
               />
             </div>
             <div>
-              <label className="text-sm font-medium mb-2 block">Password (Optional)</label>
+              <label className="text-sm font-medium mb-2 block">{_('Password (Optional)')}</label>
               <Input
                 type="password"
-                placeholder="Enter password"
+                placeholder={active.authMethod === 'password' ? format(_('Uses $0 credentials'), active.name) : _('Enter password')}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
               />
             </div>
             <div className="flex items-end">
               <Button onClick={handleConnectServer} className="w-full">
-                Connect
+                {_('Connect')}
               </Button>
             </div>
           </div>
@@ -104,7 +108,7 @@ export default function DNSManagement () {
               <Alert>
                 <Server className="h-4 w-4" />
                 <AlertDescription>
-                  Connected to: <strong>{selectedServer}</strong>
+                  {_('Connected to:')}{' '}<strong>{selectedServer}</strong>
                 </AlertDescription>
               </Alert>
             </div>
@@ -117,52 +121,52 @@ export default function DNSManagement () {
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Server</CardTitle>
+              <CardTitle className="text-sm font-medium">{_('Server')}</CardTitle>
               <Server className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-lg font-bold truncate">{selectedServer}</div>
               <p className="text-xs text-muted-foreground">
-                DNS server
+                {_('DNS server')}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Zones</CardTitle>
+              <CardTitle className="text-sm font-medium">{_('Zones')}</CardTitle>
               <Globe className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{zones.length}</div>
               <p className="text-xs text-muted-foreground">
-                DNS zones
+                {_('DNS zones')}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Status</CardTitle>
+              <CardTitle className="text-sm font-medium">{_('Status')}</CardTitle>
               <Database className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-lg font-bold">{serverInfo?.status || 'Unknown'}</div>
+              <div className="text-lg font-bold">{serverInfo?.status || _('Unknown')}</div>
               <p className="text-xs text-muted-foreground">
-                Server status
+                {_('Server status')}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Version</CardTitle>
+              <CardTitle className="text-sm font-medium">{_('Version')}</CardTitle>
               <Settings className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-lg font-bold">{serverInfo?.version || 'Unknown'}</div>
+              <div className="text-lg font-bold">{serverInfo?.version || _('Unknown')}</div>
               <p className="text-xs text-muted-foreground">
-                DNS version
+                {_('DNS version')}
               </p>
             </CardContent>
           </Card>
@@ -174,12 +178,12 @@ export default function DNSManagement () {
           <TabsList>
             <TabsTrigger value="operations" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
-              Operations
+              {_('Operations')}
             </TabsTrigger>
             {selectedServer && (
               <TabsTrigger value="zones" className="flex items-center gap-2">
                 <Globe className="h-4 w-4" />
-                DNS Zones
+                {_('DNS Zones')}
               </TabsTrigger>
             )}
           </TabsList>
@@ -187,7 +191,7 @@ export default function DNSManagement () {
           {selectedServer && (
             <div className="flex items-center gap-2">
               <Button onClick={refreshZones} variant="outline" size="sm">
-                Refresh
+                {_('Refresh')}
               </Button>
             </div>
           )}
@@ -199,10 +203,10 @@ export default function DNSManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Plus className="h-5 w-5" />
-                  Create Record
+                  {_('Create Record')}
                 </CardTitle>
                 <CardDescription>
-                  Add a new DNS record to a zone
+                  {_('Add a new DNS record to a zone')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -211,7 +215,7 @@ export default function DNSManagement () {
                   className="w-full"
                   disabled={!selectedServer}
                 >
-                  Create Record
+                  {_('Create Record')}
                 </Button>
               </CardContent>
             </Card>
@@ -220,10 +224,10 @@ export default function DNSManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Trash2 className="h-5 w-5" />
-                  Delete Record
+                  {_('Delete Record')}
                 </CardTitle>
                 <CardDescription>
-                  Remove a DNS record from a zone
+                  {_('Remove a DNS record from a zone')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -233,7 +237,7 @@ export default function DNSManagement () {
                   variant="outline"
                   disabled={!selectedServer}
                 >
-                  Delete Record
+                  {_('Delete Record')}
                 </Button>
               </CardContent>
             </Card>
@@ -242,10 +246,10 @@ export default function DNSManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Plus className="h-5 w-5" />
-                  Create Zone
+                  {_('Create Zone')}
                 </CardTitle>
                 <CardDescription>
-                  Create a new DNS zone
+                  {_('Create a new DNS zone')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -255,7 +259,7 @@ export default function DNSManagement () {
                   variant="outline"
                   disabled={!selectedServer}
                 >
-                  Create Zone
+                  {_('Create Zone')}
                 </Button>
               </CardContent>
             </Card>
@@ -264,10 +268,10 @@ export default function DNSManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Trash2 className="h-5 w-5" />
-                  Delete Zone
+                  {_('Delete Zone')}
                 </CardTitle>
                 <CardDescription>
-                  Remove an entire DNS zone
+                  {_('Remove an entire DNS zone')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -277,7 +281,7 @@ export default function DNSManagement () {
                   variant="destructive"
                   disabled={!selectedServer}
                 >
-                  Delete Zone
+                  {_('Delete Zone')}
                 </Button>
               </CardContent>
             </Card>
@@ -286,10 +290,10 @@ export default function DNSManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Info className="h-5 w-5" />
-                  Server Info
+                  {_('Server Info')}
                 </CardTitle>
                 <CardDescription>
-                  View DNS server information
+                  {_('View DNS server information')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -299,7 +303,7 @@ export default function DNSManagement () {
                   variant="outline"
                   disabled={!selectedServer}
                 >
-                  Server Info
+                  {_('Server Info')}
                 </Button>
               </CardContent>
             </Card>
@@ -308,10 +312,10 @@ export default function DNSManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Settings className="h-5 w-5" />
-                  Cleanup
+                  {_('Cleanup')}
                 </CardTitle>
                 <CardDescription>
-                  Clean up stale DNS records
+                  {_('Clean up stale DNS records')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -321,7 +325,7 @@ export default function DNSManagement () {
                   variant="outline"
                   disabled={!selectedServer}
                 >
-                  Cleanup DNS
+                  {_('Cleanup DNS')}
                 </Button>
               </CardContent>
             </Card>
@@ -332,9 +336,9 @@ export default function DNSManagement () {
           <TabsContent value="zones">
             <Card>
               <CardHeader>
-                <CardTitle>DNS Zones</CardTitle>
+                <CardTitle>{_('DNS Zones')}</CardTitle>
                 <CardDescription>
-                  DNS zones configured on {selectedServer}
+                  {format(_('DNS zones configured on $0'), selectedServer)}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -352,12 +356,12 @@ export default function DNSManagement () {
                     ? (
                   <div className="text-center py-8">
                     <Globe className="mx-auto h-12 w-12 text-muted-foreground" />
-                    <h3 className="mt-2 text-sm font-semibold">No DNS Zones</h3>
+                    <h3 className="mt-2 text-sm font-semibold">{_('No DNS Zones')}</h3>
                     <p className="mt-1 text-sm text-muted-foreground">
-                      No DNS zones found on this server
+                      {_('No DNS zones found on this server')}
                     </p>
                     <Button onClick={() => setCreateZoneDialogOpen(true)} className="mt-4">
-                      Create Zone
+                      {_('Create Zone')}
                     </Button>
                   </div>
                       )
@@ -369,10 +373,10 @@ export default function DNSManagement () {
                           <Globe className="h-5 w-5 text-blue-600" />
                           <div>
                             <p className="font-medium">{zone}</p>
-                            <p className="text-sm text-muted-foreground">DNS Zone</p>
+                            <p className="text-sm text-muted-foreground">{_('DNS Zone')}</p>
                           </div>
                         </div>
-                        <Badge variant="outline">Active</Badge>
+                        <Badge variant="outline">{_('Active')}</Badge>
                       </div>
                     ))}
                   </div>
@@ -388,11 +392,9 @@ export default function DNSManagement () {
         <Info className="h-4 w-4" />
         <AlertDescription>
           <div className="space-y-2">
-            <p className="font-medium">DNS Management</p>
+            <p className="font-medium">{_('DNS Management')}</p>
             <p className="text-sm">
-              This module provides tools for managing DNS zones and records on
-              Samba AD DC servers. DNS is critical for Active Directory functionality
-              and should be managed carefully.
+              {_('This module provides tools for managing DNS zones and records on Samba AD DC servers. DNS is critical for Active Directory functionality and should be managed carefully.')}
             </p>
           </div>
         </AlertDescription>
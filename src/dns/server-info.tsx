@@ -16,6 +16,7 @@ import {
   Info
 } from 'lucide-react'
 import { useDNSServerInfo } from './hooks/useDNS'
+import { _, format } from '@/lib/i18n'
 
 interface ServerInfoDialogProps {
   isOpen: boolean;
@@ -60,10 +61,10 @@ export function ServerInfoDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Server className="h-5 w-5" />
-            DNS Server Information
+            {_('DNS Server Information')}
           </DialogTitle>
           <DialogDescription>
-            View detailed information about the DNS server and its configuration.
+            {_('View detailed information about the DNS server and its configuration.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -81,7 +82,7 @@ export function ServerInfoDialog ({
           <Alert className="border-red-200 bg-red-50">
             <AlertCircle className="h-4 w-4 text-red-600" />
             <AlertDescription className="text-red-800">
-              <strong>Error:</strong> {error}
+              <strong>{_('Error:')}</strong> {error}
             </AlertDescription>
           </Alert>
         )}
@@ -90,7 +91,7 @@ export function ServerInfoDialog ({
           <Alert className="border-orange-200 bg-orange-50">
             <Info className="h-4 w-4 text-orange-600" />
             <AlertDescription className="text-orange-800">
-              No DNS server selected. Please select a server to view its information.
+              {_('No DNS server selected. Please select a server to view its information.')}
             </AlertDescription>
           </Alert>
         )}
@@ -102,20 +103,20 @@ export function ServerInfoDialog ({
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Server className="h-5 w-5" />
-                  Server Overview
+                  {_('Server Overview')}
                 </CardTitle>
                 <CardDescription>
-                  Basic information about the DNS server
+                  {_('Basic information about the DNS server')}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Server Name</p>
+                    <p className="text-sm font-medium text-muted-foreground">{_('Server Name')}</p>
                     <p className="text-lg font-semibold">{serverInfo.serverName}</p>
                   </div>
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Status</p>
+                    <p className="text-sm font-medium text-muted-foreground">{_('Status')}</p>
                     <div className="flex items-center gap-2">
                       {getStatusIcon(serverInfo.status)}
                       <Badge className={getStatusColor(serverInfo.status)}>
@@ -129,11 +130,11 @@ export function ServerInfoDialog ({
 
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Version</p>
+                    <p className="text-sm font-medium text-muted-foreground">{_('Version')}</p>
                     <p className="text-lg">{serverInfo.version}</p>
                   </div>
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Total Zones</p>
+                    <p className="text-sm font-medium text-muted-foreground">{_('Total Zones')}</p>
                     <p className="text-lg font-semibold">{serverInfo.zones.length}</p>
                   </div>
                 </div>
@@ -146,10 +147,10 @@ export function ServerInfoDialog ({
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Globe className="h-5 w-5" />
-                    DNS Zones
+                    {_('DNS Zones')}
                   </CardTitle>
                   <CardDescription>
-                    Zones configured on this DNS server
+                    {_('Zones configured on this DNS server')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -163,10 +164,10 @@ export function ServerInfoDialog ({
                           <Database className="h-4 w-4 text-blue-600" />
                           <div>
                             <p className="font-medium">{zone}</p>
-                            <p className="text-sm text-muted-foreground">DNS Zone</p>
+                            <p className="text-sm text-muted-foreground">{_('DNS Zone')}</p>
                           </div>
                         </div>
-                        <Badge variant="outline">Active</Badge>
+                        <Badge variant="outline">{_('Active')}</Badge>
                       </div>
                     ))}
                   </div>
@@ -179,37 +180,37 @@ export function ServerInfoDialog ({
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Settings className="h-5 w-5" />
-                  Server Configuration
+                  {_('Server Configuration')}
                 </CardTitle>
                 <CardDescription>
-                  Technical details and configuration information
+                  {_('Technical details and configuration information')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
                   <div className="grid grid-cols-1 gap-2">
                     <div className="p-3 bg-muted/50 rounded-lg">
-                      <p className="text-sm font-medium mb-2">Service Status</p>
+                      <p className="text-sm font-medium mb-2">{_('Service Status')}</p>
                       <div className="flex items-center gap-2">
                         {getStatusIcon(serverInfo.status)}
                         <span className="text-sm">
-                          DNS service is {serverInfo.status.toLowerCase()}
+                          {format(_('DNS service is $0'), serverInfo.status.toLowerCase())}
                         </span>
                       </div>
                     </div>
 
                     <div className="p-3 bg-muted/50 rounded-lg">
-                      <p className="text-sm font-medium mb-2">Version Information</p>
+                      <p className="text-sm font-medium mb-2">{_('Version Information')}</p>
                       <p className="text-sm">
-                        DNS server version: {serverInfo.version}
+                        {format(_('DNS server version: $0'), serverInfo.version)}
                       </p>
                     </div>
 
                     {serverInfo.zones.length === 0 && (
                       <div className="p-3 bg-muted/50 rounded-lg">
-                        <p className="text-sm font-medium mb-2">Zone Configuration</p>
+                        <p className="text-sm font-medium mb-2">{_('Zone Configuration')}</p>
                         <p className="text-sm text-muted-foreground">
-                          No DNS zones configured on this server
+                          {_('No DNS zones configured on this server')}
                         </p>
                       </div>
                     )}
@@ -222,9 +223,9 @@ export function ServerInfoDialog ({
             {serverInfo.rawOutput && serverInfo.rawOutput.length > 0 && (
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-sm">Raw Server Output</CardTitle>
+                  <CardTitle className="text-sm">{_('Raw Server Output')}</CardTitle>
                   <CardDescription>
-                    Technical output from the DNS server query
+                    {_('Technical output from the DNS server query')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -240,7 +241,7 @@ export function ServerInfoDialog ({
         )}
 
         <DialogFooter>
-          <Button onClick={onClose}>Close</Button>
+          <Button onClick={onClose}>{_('Close')}</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -1,19 +1,24 @@
-import React, { useState } from 'react'
+import React, { useState, useRef } from 'react'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CancelledAlert } from '@/components/ui/error-alert'
+import { CommandConsole, useCommandOutput } from '@/components/ui/command-console'
 import { Info, Archive } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useDomainMutations } from '../hooks/useDomainMutations'
+import { CancelledError } from '@/lib/errors'
+import { BACKUP_PHASES } from '@/services/progress'
 import { toast } from 'sonner'
 import type { BackupOfflineInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const backupOfflineSchema = z.object({
-  targetdir: z.string().min(1, 'Target directory is required'),
+  targetdir: z.string().min(1, _('Target directory is required')),
   server: z.string().optional(),
   realm: z.string().optional()
 })
@@ -32,6 +37,9 @@ export function BackupOfflineDialog ({
   onBackupCompleted
 }: BackupOfflineDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [cancelled, setCancelled] = useState(false)
+  const abortController = useRef<AbortController | null>(null)
+  const output = useCommandOutput(BACKUP_PHASES)
 
   const {
     register,
@@ -44,33 +52,50 @@ export function BackupOfflineDialog ({
 
   const { backupOffline } = useDomainMutations(
     () => {
-      toast.success('Offline backup completed successfully')
+      toast.success(_('Offline backup completed successfully'))
       onBackupCompleted()
     },
     (error) => {
-      toast.error(`Failed to create offline backup: ${error}`)
+      toast.error(format(_('Failed to create offline backup: $0'), error))
     }
   )
 
   const onSubmit = async (data: BackupOfflineFormData) => {
+    const controller = new AbortController()
+    abortController.current = controller
+
     setIsSubmitting(true)
+    setCancelled(false)
+    output.reset()
     try {
       const input: BackupOfflineInput = {
         targetdir: data.targetdir,
         server: data.server,
         realm: data.realm
       }
-      await backupOffline(input)
+      await backupOffline(input, { signal: controller.signal, onOutput: output.onOutput })
       handleClose()
     } catch (error) {
-      // Error handled by mutation
+      // Other errors are handled by the mutation
+      if (error instanceof CancelledError) {
+        toast.warning(_('Offline backup cancelled'))
+        setCancelled(true)
+      }
     } finally {
+      abortController.current = null
       setIsSubmitting(false)
     }
   }
 
+  const handleCancelBackup = () => {
+    abortController.current?.abort()
+  }
+
   const handleClose = () => {
+    abortController.current?.abort()
     reset()
+    setCancelled(false)
+    output.reset()
     onClose()
   }
 
@@ -80,25 +105,23 @@ export function BackupOfflineDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Archive className="h-5 w-5" />
-            Create Offline Backup
+            {_('Create Offline Backup')}
           </DialogTitle>
           <DialogDescription>
-            Create an offline backup of the Active Directory domain.
+            {_('Create an offline backup of the Active Directory domain.')}
           </DialogDescription>
         </DialogHeader>
 
         <Alert className="border-blue-200 bg-blue-50">
           <Info className="h-4 w-4 text-blue-600" />
           <AlertDescription className="text-blue-800">
-            <strong>Offline Backup:</strong> This creates a complete backup of the domain
-            data including the ntds.dit database, SYSVOL, and registry settings. The backup
-            can be used for disaster recovery.
+            <strong>{_('Offline Backup:')}</strong>{' '}{_('This creates a complete backup of the domain data including the ntds.dit database, SYSVOL, and registry settings. The backup can be used for disaster recovery.')}
           </AlertDescription>
         </Alert>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="targetdir">Target Directory *</Label>
+            <Label htmlFor="targetdir">{_('Target Directory *')}</Label>
             <Input
               id="targetdir"
               {...register('targetdir')}
@@ -109,60 +132,75 @@ export function BackupOfflineDialog ({
               <p className="text-sm text-red-500">{errors.targetdir.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              Directory where the backup will be stored
+              {_('Directory where the backup will be stored')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="server">Server</Label>
+            <Label htmlFor="server">{_('Server')}</Label>
             <Input
               id="server"
               {...register('server')}
               placeholder="dc1.domain.com"
             />
             <p className="text-xs text-muted-foreground">
-              Optional: Specific domain controller to backup from
+              {_('Optional: Specific domain controller to backup from')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="realm">Realm</Label>
+            <Label htmlFor="realm">{_('Realm')}</Label>
             <Input
               id="realm"
               {...register('realm')}
               placeholder="DOMAIN.COM"
             />
             <p className="text-xs text-muted-foreground">
-              Optional: Kerberos realm for the domain
+              {_('Optional: Kerberos realm for the domain')}
             </p>
           </div>
 
           <div className="bg-muted/50 p-3 rounded-lg">
-            <h4 className="text-sm font-medium mb-2">Backup Contents:</h4>
+            <h4 className="text-sm font-medium mb-2">{_('Backup Contents:')}</h4>
             <ul className="text-xs text-muted-foreground space-y-1">
-              <li>• Active Directory database (ntds.dit)</li>
-              <li>• SYSVOL folder with Group Policy Objects</li>
-              <li>• Registry settings and configuration</li>
-              <li>• Domain security policies</li>
-              <li>• Certificate store data</li>
+              <li>{_('• Active Directory database (ntds.dit)')}</li>
+              <li>{_('• SYSVOL folder with Group Policy Objects')}</li>
+              <li>{_('• Registry settings and configuration')}</li>
+              <li>{_('• Domain security policies')}</li>
+              <li>{_('• Certificate store data')}</li>
             </ul>
           </div>
 
           <Alert className="border-orange-200 bg-orange-50">
             <Info className="h-4 w-4 text-orange-600" />
             <AlertDescription className="text-orange-800">
-              <strong>Note:</strong> The backup process may take a significant amount of time
-              depending on the size of your domain data. Ensure adequate disk space is available
-              in the target directory.
+              <strong>{_('Note:')}</strong>{' '}{_('The backup process may take a significant amount of time depending on the size of your domain data. Ensure adequate disk space is available in the target directory.')}
             </AlertDescription>
           </Alert>
 
+          {(isSubmitting || output.lines.length > 0) && (
+            <CommandConsole
+              title={_('samba-tool domain backup offline')}
+              lines={output.lines}
+              phases={output.phases}
+              phase={output.phase}
+              status={isSubmitting ? 'running' : cancelled ? 'cancelled' : 'failed'}
+            />
+          )}
+
+          {cancelled && (
+            <CancelledAlert
+              title={_('Backup Cancelled')}
+              message={_('The backup was stopped before it finished. The target directory may contain an incomplete backup that should be removed.')}
+            />
+          )}
+
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+            <Button type="button" variant="outline" onClick={isSubmitting ? handleCancelBackup : handleClose}>
+              {isSubmitting ? _('Cancel Backup') : _('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Creating Backup...' : 'Create Backup'}
+              {isSubmitting ? _('Creating Backup...') : _('Create Backup')}
             </Button>
           </DialogFooter>
         </form>
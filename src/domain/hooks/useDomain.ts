@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { DomainAPI } from '../../services/domain-api'
 import { DomainInfo, TrustRelationship, BackupInfo } from '../../types/samba'
 import { APIError } from '../../lib/errors'
+import { _ } from '@/lib/i18n'
 
 export interface UseDomainInfoReturn {
   domainInfo: DomainInfo | null;
@@ -30,7 +31,7 @@ export const useDomainInfo = (): UseDomainInfoReturn => {
       if (err instanceof APIError) {
         setError(err.message)
       } else {
-        setError('Failed to load domain information')
+        setError(_('Failed to load domain information'))
       }
     } finally {
       setLoading(false)
@@ -78,7 +79,7 @@ export const useTrusts = (): UseTrustsReturn => {
       if (err instanceof APIError) {
         setError(err.message)
       } else {
-        setError('Failed to load trust relationships')
+        setError(_('Failed to load trust relationships'))
       }
     } finally {
       setLoading(false)
@@ -138,7 +139,7 @@ export const useTrustDetails = (): UseTrustDetailsReturn => {
       if (err instanceof APIError) {
         setError(err.message)
       } else {
-        setError('Failed to load trust details')
+        setError(_('Failed to load trust details'))
       }
     } finally {
       setLoading(false)
@@ -156,7 +157,7 @@ export const useTrustDetails = (): UseTrustDetailsReturn => {
       if (err instanceof APIError) {
         setError(err.message)
       } else {
-        setError('Failed to validate trust')
+        setError(_('Failed to validate trust'))
       }
     } finally {
       setLoading(false)
@@ -1,5 +1,6 @@
 import { useCallback } from 'react'
 import { DomainAPI } from '../../services/domain-api'
+import type { StreamOptions } from '../../services/base-api'
 import {
   DomainJoinInput,
   CreateTrustInput,
@@ -8,18 +9,19 @@ import {
   BackupRenameInput,
   BackupRestoreInput
 } from '../../types/samba'
-import { APIError } from '../../lib/errors'
+import { APIError, CancelledError } from '../../lib/errors'
+import { _, format } from '@/lib/i18n'
 
 export interface UseDomainMutationsReturn {
-  joinDomain: (joinData: DomainJoinInput) => Promise<string>;
+  joinDomain: (joinData: DomainJoinInput, options?: StreamOptions) => Promise<string>;
   demoteDomain: (username?: string, password?: string) => Promise<string>;
-  promoteDomain: (domain: string, adminPassword: string) => Promise<string>;
+  promoteDomain: (domain: string, adminPassword: string, dnsForwarder?: string, options?: Pick<StreamOptions, 'onOutput'>) => Promise<string>;
   classicUpgrade: (ntdbPath: string) => Promise<string>;
   createTrust: (trustData: CreateTrustInput) => Promise<void>;
   deleteTrust: (domain: string, username?: string, password?: string) => Promise<void>;
   validateTrust: (domain: string) => Promise<{ valid: boolean; message: string }>;
-  backupOffline: (backupData: BackupOfflineInput) => Promise<void>;
-  backupOnline: (backupData: BackupOnlineInput) => Promise<void>;
+  backupOffline: (backupData: BackupOfflineInput, options?: StreamOptions) => Promise<void>;
+  backupOnline: (backupData: BackupOnlineInput, options?: StreamOptions) => Promise<void>;
   backupRename: (renameData: BackupRenameInput) => Promise<string>;
   backupRestore: (restoreData: BackupRestoreInput) => Promise<string>;
   isLoading: boolean;
@@ -33,13 +35,16 @@ export const useDomainMutations = (
   onSuccess?: (message?: string) => void,
   onError?: (error: string) => void
 ): UseDomainMutationsReturn => {
-  const joinDomain = useCallback(async (joinData: DomainJoinInput): Promise<string> => {
+  const joinDomain = useCallback(async (joinData: DomainJoinInput, options?: StreamOptions): Promise<string> => {
     try {
-      const result = await DomainAPI.join(joinData)
-      onSuccess?.('Domain joined successfully')
+      const result = await DomainAPI.join(joinData, options)
+      onSuccess?.(_('Domain joined successfully'))
       return result
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to join domain'
+      if (err instanceof CancelledError) {
+        throw err
+      }
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to join domain')
       onError?.(errorMessage)
       throw err
     }
@@ -48,22 +53,27 @@ export const useDomainMutations = (
   const demoteDomain = useCallback(async (username?: string, password?: string): Promise<string> => {
     try {
       const result = await DomainAPI.demote(username, password)
-      onSuccess?.('Domain controller demoted successfully')
+      onSuccess?.(_('Domain controller demoted successfully'))
       return result
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to demote domain controller'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to demote domain controller')
       onError?.(errorMessage)
       throw err
     }
   }, [onSuccess, onError])
 
-  const promoteDomain = useCallback(async (domain: string, adminPassword: string): Promise<string> => {
+  const promoteDomain = useCallback(async (
+    domain: string,
+    adminPassword: string,
+    dnsForwarder?: string,
+    options?: Pick<StreamOptions, 'onOutput'>
+  ): Promise<string> => {
     try {
-      const result = await DomainAPI.promote(domain, adminPassword)
-      onSuccess?.('Domain controller promoted successfully')
+      const result = await DomainAPI.promote(domain, adminPassword, dnsForwarder, options)
+      onSuccess?.(_('Domain controller promoted successfully'))
       return result
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to promote to domain controller'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to promote to domain controller')
       onError?.(errorMessage)
       throw err
     }
@@ -72,10 +82,10 @@ export const useDomainMutations = (
   const classicUpgrade = useCallback(async (ntdbPath: string): Promise<string> => {
     try {
       const result = await DomainAPI.classicUpgrade(ntdbPath)
-      onSuccess?.('Classic upgrade completed successfully')
+      onSuccess?.(_('Classic upgrade completed successfully'))
       return result
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to perform classic upgrade'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to perform classic upgrade')
       onError?.(errorMessage)
       throw err
     }
@@ -84,9 +94,9 @@ export const useDomainMutations = (
   const createTrust = useCallback(async (trustData: CreateTrustInput): Promise<void> => {
     try {
       await DomainAPI.createTrust(trustData)
-      onSuccess?.('Trust relationship created successfully')
+      onSuccess?.(_('Trust relationship created successfully'))
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to create trust relationship'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to create trust relationship')
       onError?.(errorMessage)
       throw err
     }
@@ -95,9 +105,9 @@ export const useDomainMutations = (
   const deleteTrust = useCallback(async (domain: string, username?: string, password?: string): Promise<void> => {
     try {
       await DomainAPI.deleteTrust(domain, username, password)
-      onSuccess?.('Trust relationship deleted successfully')
+      onSuccess?.(_('Trust relationship deleted successfully'))
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to delete trust relationship'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to delete trust relationship')
       onError?.(errorMessage)
       throw err
     }
@@ -107,35 +117,41 @@ export const useDomainMutations = (
     try {
       const result = await DomainAPI.validateTrust(domain)
       if (result.valid) {
-        onSuccess?.('Trust relationship is valid')
+        onSuccess?.(_('Trust relationship is valid'))
       } else {
-        onError?.(`Trust validation failed: ${result.message}`)
+        onError?.(format(_('Trust validation failed: $0'), result.message))
       }
       return result
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to validate trust relationship'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to validate trust relationship')
       onError?.(errorMessage)
       throw err
     }
   }, [onSuccess, onError])
 
-  const backupOffline = useCallback(async (backupData: BackupOfflineInput): Promise<void> => {
+  const backupOffline = useCallback(async (backupData: BackupOfflineInput, options?: StreamOptions): Promise<void> => {
     try {
-      const result = await DomainAPI.backupOffline(backupData)
-      onSuccess?.(`Offline backup completed: ${result.path}`)
+      const result = await DomainAPI.backupOffline(backupData, options)
+      onSuccess?.(format(_('Offline backup completed: $0'), result.path))
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to create offline backup'
+      if (err instanceof CancelledError) {
+        throw err
+      }
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to create offline backup')
       onError?.(errorMessage)
       throw err
     }
   }, [onSuccess, onError])
 
-  const backupOnline = useCallback(async (backupData: BackupOnlineInput): Promise<void> => {
+  const backupOnline = useCallback(async (backupData: BackupOnlineInput, options?: StreamOptions): Promise<void> => {
     try {
-      const result = await DomainAPI.backupOnline(backupData)
-      onSuccess?.(`Online backup completed: ${result.path}`)
+      const result = await DomainAPI.backupOnline(backupData, options)
+      onSuccess?.(format(_('Online backup completed: $0'), result.path))
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to create online backup'
+      if (err instanceof CancelledError) {
+        throw err
+      }
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to create online backup')
       onError?.(errorMessage)
       throw err
     }
@@ -144,10 +160,10 @@ export const useDomainMutations = (
   const backupRename = useCallback(async (renameData: BackupRenameInput): Promise<string> => {
     try {
       const result = await DomainAPI.backupRename(renameData)
-      onSuccess?.('Backup renamed successfully')
+      onSuccess?.(_('Backup renamed successfully'))
       return result
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to rename backup'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to rename backup')
       onError?.(errorMessage)
       throw err
     }
@@ -156,10 +172,10 @@ export const useDomainMutations = (
   const backupRestore = useCallback(async (restoreData: BackupRestoreInput): Promise<string> => {
     try {
       const result = await DomainAPI.backupRestore(restoreData)
-      onSuccess?.('Backup restored successfully')
+      onSuccess?.(_('Backup restored successfully'))
       return result
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to restore backup'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to restore backup')
       onError?.(errorMessage)
       throw err
     }
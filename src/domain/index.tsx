@@ -22,11 +22,15 @@ import {
   CheckCircle
 } from 'lucide-react'
 import { BackButton } from '../common'
+import { CapabilityNotice } from '@/components/layout/capability-notice'
+import { useCapabilities } from '@/components/layout/use-capabilities'
+import { DomainAPI } from '@/services/domain-api'
 import { DomainInfoCard } from './info'
 import { DomainJoinDialog } from './join'
 import { BackupOfflineDialog } from './backup/offline'
 import { TrustListCard } from './trust/list'
 import { toast } from 'sonner'
+import { _ } from '@/lib/i18n'
 
 export default function DomainManagement () {
   const [,] = useState('')
@@ -34,9 +38,16 @@ export default function DomainManagement () {
   // Dialog states
   const [joinDialogOpen, setJoinDialogOpen] = useState(false)
   const [backupOfflineDialogOpen, setBackupOfflineDialogOpen] = useState(false)
+  const { requirements } = DomainAPI
+  const [offlineSupport, onlineSupport, restoreSupport, renameSupport] = useCapabilities([
+    requirements.backupOffline,
+    requirements.backupOnline,
+    requirements.backupRestore,
+    requirements.backupRename
+  ])
 
   const handleOperationSuccess = () => {
-    toast.success('Operation completed successfully')
+    toast.success(_('Operation completed successfully'))
   }
 
   return (
@@ -44,9 +55,9 @@ export default function DomainManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Domain Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('Domain Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Active Directory domain configuration and operations
+            {_('Manage Active Directory domain configuration and operations')}
           </p>
         </div>
       </div>
@@ -55,58 +66,58 @@ export default function DomainManagement () {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Domain Status</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Domain Status')}</CardTitle>
             <Globe className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="flex items-center gap-2">
               <CheckCircle className="h-4 w-4 text-green-600" />
-              <span className="text-lg font-bold">Active</span>
+              <span className="text-lg font-bold">{_('Active')}</span>
             </div>
             <p className="text-xs text-muted-foreground">
-              Domain controller
+              {_('Domain controller')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Trusts</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Trusts')}</CardTitle>
             <Link className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">0</div>
             <p className="text-xs text-muted-foreground">
-              Trust relationships
+              {_('Trust relationships')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Backups</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Backups')}</CardTitle>
             <Archive className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">-</div>
             <p className="text-xs text-muted-foreground">
-              Recent backups
+              {_('Recent backups')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Health</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Health')}</CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="flex items-center gap-2">
               <CheckCircle className="h-4 w-4 text-green-600" />
-              <span className="text-lg font-bold">Healthy</span>
+              <span className="text-lg font-bold">{_('Healthy')}</span>
             </div>
             <p className="text-xs text-muted-foreground">
-              System status
+              {_('System status')}
             </p>
           </CardContent>
         </Card>
@@ -117,25 +128,25 @@ export default function DomainManagement () {
           <TabsList>
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <Globe className="h-4 w-4" />
-              Overview
+              {_('Overview')}
             </TabsTrigger>
             <TabsTrigger value="operations" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
-              Operations
+              {_('Operations')}
             </TabsTrigger>
             <TabsTrigger value="trusts" className="flex items-center gap-2">
               <Link className="h-4 w-4" />
-              Trusts
+              {_('Trusts')}
             </TabsTrigger>
             <TabsTrigger value="backup" className="flex items-center gap-2">
               <Archive className="h-4 w-4" />
-              Backup
+              {_('Backup')}
             </TabsTrigger>
           </TabsList>
 
           <div className="flex items-center gap-2">
             <Button variant="outline" size="sm">
-              Refresh
+              {_('Refresh')}
             </Button>
           </div>
         </div>
@@ -149,10 +160,10 @@ export default function DomainManagement () {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Server className="h-5 w-5" />
-                    Domain Controllers
+                    {_('Domain Controllers')}
                   </CardTitle>
                   <CardDescription>
-                    Active domain controllers in the domain
+                    {_('Active domain controllers in the domain')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -161,11 +172,11 @@ export default function DomainManagement () {
                       <div className="flex items-center gap-3">
                         <Server className="h-5 w-5 text-blue-600" />
                         <div>
-                          <p className="font-medium">Primary DC</p>
+                          <p className="font-medium">{_('Primary DC')}</p>
                           <p className="text-sm text-muted-foreground">dc1.domain.local</p>
                         </div>
                       </div>
-                      <Badge className="bg-green-100 text-green-800">Online</Badge>
+                      <Badge className="bg-green-100 text-green-800">{_('Online')}</Badge>
                     </div>
                   </div>
                 </CardContent>
@@ -175,28 +186,28 @@ export default function DomainManagement () {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Users className="h-5 w-5" />
-                    Quick Stats
+                    {_('Quick Stats')}
                   </CardTitle>
                   <CardDescription>
-                    Domain object statistics
+                    {_('Domain object statistics')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
                     <div className="flex justify-between">
-                      <span className="text-sm">Users</span>
+                      <span className="text-sm">{_('Users')}</span>
                       <span className="font-medium">-</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-sm">Computers</span>
+                      <span className="text-sm">{_('Computers')}</span>
                       <span className="font-medium">-</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-sm">Groups</span>
+                      <span className="text-sm">{_('Groups')}</span>
                       <span className="font-medium">-</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-sm">GPOs</span>
+                      <span className="text-sm">{_('GPOs')}</span>
                       <span className="font-medium">-</span>
                     </div>
                   </div>
@@ -212,10 +223,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Plus className="h-5 w-5" />
-                  Join Domain
+                  {_('Join Domain')}
                 </CardTitle>
                 <CardDescription>
-                  Join this server to an existing domain
+                  {_('Join this server to an existing domain')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -223,7 +234,7 @@ export default function DomainManagement () {
                   onClick={() => setJoinDialogOpen(true)}
                   className="w-full"
                 >
-                  Join Domain
+                  {_('Join Domain')}
                 </Button>
               </CardContent>
             </Card>
@@ -232,10 +243,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Server className="h-5 w-5" />
-                  Promote DC
+                  {_('Promote DC')}
                 </CardTitle>
                 <CardDescription>
-                  Promote server to domain controller
+                  {_('Promote server to domain controller')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -244,7 +255,7 @@ export default function DomainManagement () {
                   variant="outline"
                   disabled
                 >
-                  DC Promotion
+                  {_('DC Promotion')}
                 </Button>
               </CardContent>
             </Card>
@@ -253,10 +264,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Trash2 className="h-5 w-5" />
-                  Demote DC
+                  {_('Demote DC')}
                 </CardTitle>
                 <CardDescription>
-                  Demote domain controller to member server
+                  {_('Demote domain controller to member server')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -265,7 +276,7 @@ export default function DomainManagement () {
                   variant="outline"
                   disabled
                 >
-                  DC Demotion
+                  {_('DC Demotion')}
                 </Button>
               </CardContent>
             </Card>
@@ -274,10 +285,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Upload className="h-5 w-5" />
-                  Classic Upgrade
+                  {_('Classic Upgrade')}
                 </CardTitle>
                 <CardDescription>
-                  Upgrade from classic NT4 domain
+                  {_('Upgrade from classic NT4 domain')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -286,7 +297,7 @@ export default function DomainManagement () {
                   variant="outline"
                   disabled
                 >
-                  Classic Upgrade
+                  {_('Classic Upgrade')}
                 </Button>
               </CardContent>
             </Card>
@@ -295,10 +306,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Key className="h-5 w-5" />
-                  Validate Trust
+                  {_('Validate Trust')}
                 </CardTitle>
                 <CardDescription>
-                  Validate trust relationships
+                  {_('Validate trust relationships')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -307,7 +318,7 @@ export default function DomainManagement () {
                   variant="outline"
                   disabled
                 >
-                  Validate Trusts
+                  {_('Validate Trusts')}
                 </Button>
               </CardContent>
             </Card>
@@ -316,10 +327,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Database className="h-5 w-5" />
-                  Namespaces
+                  {_('Namespaces')}
                 </CardTitle>
                 <CardDescription>
-                  Manage trust namespaces
+                  {_('Manage trust namespaces')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -328,7 +339,7 @@ export default function DomainManagement () {
                   variant="outline"
                   disabled
                 >
-                  Manage Namespaces
+                  {_('Manage Namespaces')}
                 </Button>
               </CardContent>
             </Card>
@@ -345,19 +356,21 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Archive className="h-5 w-5" />
-                  Offline Backup
+                  {_('Offline Backup')}
                 </CardTitle>
                 <CardDescription>
-                  Create an offline backup of the domain
+                  {_('Create an offline backup of the domain')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <Button
                   onClick={() => setBackupOfflineDialogOpen(true)}
                   className="w-full"
+                  disabled={offlineSupport?.supported === false}
                 >
-                  Create Offline Backup
+                  {_('Create Offline Backup')}
                 </Button>
+                <CapabilityNotice status={offlineSupport} className="mt-2" />
               </CardContent>
             </Card>
 
@@ -365,10 +378,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Download className="h-5 w-5" />
-                  Online Backup
+                  {_('Online Backup')}
                 </CardTitle>
                 <CardDescription>
-                  Create an online backup of the domain
+                  {_('Create an online backup of the domain')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -377,8 +390,9 @@ export default function DomainManagement () {
                   variant="outline"
                   disabled
                 >
-                  Create Online Backup
+                  {_('Create Online Backup')}
                 </Button>
+                <CapabilityNotice status={onlineSupport} className="mt-2" />
               </CardContent>
             </Card>
 
@@ -386,10 +400,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Upload className="h-5 w-5" />
-                  Restore Backup
+                  {_('Restore Backup')}
                 </CardTitle>
                 <CardDescription>
-                  Restore domain from backup
+                  {_('Restore domain from backup')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -398,8 +412,9 @@ export default function DomainManagement () {
                   variant="outline"
                   disabled
                 >
-                  Restore Backup
+                  {_('Restore Backup')}
                 </Button>
+                <CapabilityNotice status={restoreSupport} className="mt-2" />
               </CardContent>
             </Card>
 
@@ -407,10 +422,10 @@ export default function DomainManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Settings className="h-5 w-5" />
-                  Rename Backup
+                  {_('Rename Backup')}
                 </CardTitle>
                 <CardDescription>
-                  Rename existing backup files
+                  {_('Rename existing backup files')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -419,8 +434,9 @@ export default function DomainManagement () {
                   variant="outline"
                   disabled
                 >
-                  Rename Backup
+                  {_('Rename Backup')}
                 </Button>
+                <CapabilityNotice status={renameSupport} className="mt-2" />
               </CardContent>
             </Card>
           </div>
@@ -432,11 +448,9 @@ export default function DomainManagement () {
         <Info className="h-4 w-4" />
         <AlertDescription>
           <div className="space-y-2">
-            <p className="font-medium">Domain Management</p>
+            <p className="font-medium">{_('Domain Management')}</p>
             <p className="text-sm">
-              This module provides tools for managing Active Directory domain operations
-              including domain joining, trust relationships, and backup operations. Use
-              these tools carefully as they can significantly impact domain functionality.
+              {_('This module provides tools for managing Active Directory domain operations including domain joining, trust relationships, and backup operations. Use these tools carefully as they can significantly impact domain functionality.')}
             </p>
           </div>
         </AlertDescription>
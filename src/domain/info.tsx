@@ -8,6 +8,7 @@ import {
   Info
 } from 'lucide-react'
 import { useDomainInfo } from './hooks/useDomain'
+import { _ } from '@/lib/i18n'
 
 export function DomainInfoCard () {
   const { domainInfo, loading, error } = useDomainInfo()
@@ -18,9 +19,9 @@ export function DomainInfoCard () {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Globe className="h-5 w-5" />
-            Domain Information
+            {_('Domain Information')}
           </CardTitle>
-          <CardDescription>Loading domain information...</CardDescription>
+          <CardDescription>{_('Loading domain information...')}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
@@ -41,9 +42,9 @@ export function DomainInfoCard () {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Globe className="h-5 w-5" />
-            Domain Information
+            {_('Domain Information')}
           </CardTitle>
-          <CardDescription>Error loading domain information</CardDescription>
+          <CardDescription>{_('Error loading domain information')}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="text-red-600 text-sm">{error}</div>
@@ -58,15 +59,15 @@ export function DomainInfoCard () {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Globe className="h-5 w-5" />
-            Domain Information
+            {_('Domain Information')}
           </CardTitle>
-          <CardDescription>No domain information available</CardDescription>
+          <CardDescription>{_('No domain information available')}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="text-center py-4">
             <Info className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
             <p className="text-sm text-muted-foreground">
-              Domain information could not be retrieved.
+              {_('Domain information could not be retrieved.')}
             </p>
           </div>
         </CardContent>
@@ -79,21 +80,21 @@ export function DomainInfoCard () {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Globe className="h-5 w-5" />
-          Domain Information
+          {_('Domain Information')}
         </CardTitle>
         <CardDescription>
-          Active Directory domain configuration details
+          {_('Active Directory domain configuration details')}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Basic Domain Info */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
-            <p className="text-sm font-medium text-muted-foreground">Domain Name</p>
+            <p className="text-sm font-medium text-muted-foreground">{_('Domain Name')}</p>
             <p className="text-lg font-semibold">{domainInfo.name}</p>
           </div>
           <div>
-            <p className="text-sm font-medium text-muted-foreground">NetBIOS Name</p>
+            <p className="text-sm font-medium text-muted-foreground">{_('NetBIOS Name')}</p>
             <p className="text-lg font-semibold">{domainInfo.netbiosName}</p>
           </div>
         </div>
@@ -102,11 +103,11 @@ export function DomainInfoCard () {
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
-            <p className="text-sm font-medium text-muted-foreground">Realm</p>
+            <p className="text-sm font-medium text-muted-foreground">{_('Realm')}</p>
             <p className="text-sm">{domainInfo.realm}</p>
           </div>
           <div>
-            <p className="text-sm font-medium text-muted-foreground">DNS Root</p>
+            <p className="text-sm font-medium text-muted-foreground">{_('DNS Root')}</p>
             <p className="text-sm">{domainInfo.dnsRoot}</p>
           </div>
         </div>
@@ -116,11 +117,11 @@ export function DomainInfoCard () {
         {/* Function Levels */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
-            <p className="text-sm font-medium text-muted-foreground">Forest Function Level</p>
+            <p className="text-sm font-medium text-muted-foreground">{_('Forest Function Level')}</p>
             <Badge variant="outline">{domainInfo.forestFunctionLevel}</Badge>
           </div>
           <div>
-            <p className="text-sm font-medium text-muted-foreground">Domain Function Level</p>
+            <p className="text-sm font-medium text-muted-foreground">{_('Domain Function Level')}</p>
             <Badge variant="outline">{domainInfo.domainFunctionLevel}</Badge>
           </div>
         </div>
@@ -130,12 +131,12 @@ export function DomainInfoCard () {
         {/* Technical Details */}
         <div className="space-y-3">
           <div>
-            <p className="text-sm font-medium text-muted-foreground">Domain SID</p>
+            <p className="text-sm font-medium text-muted-foreground">{_('Domain SID')}</p>
             <p className="font-mono text-xs bg-muted p-2 rounded">{domainInfo.domainSid}</p>
           </div>
 
           <div>
-            <p className="text-sm font-medium text-muted-foreground">Schema Version</p>
+            <p className="text-sm font-medium text-muted-foreground">{_('Schema Version')}</p>
             <p className="text-sm">{domainInfo.schemaVersion}</p>
           </div>
         </div>
@@ -144,10 +145,10 @@ export function DomainInfoCard () {
 
         {/* Domain Controllers */}
         <div>
-          <p className="text-sm font-medium text-muted-foreground mb-2">Domain Controllers</p>
+          <p className="text-sm font-medium text-muted-foreground mb-2">{_('Domain Controllers')}</p>
           {domainInfo.domainControllers.length === 0
             ? (
-            <p className="text-sm text-muted-foreground">No domain controllers listed</p>
+            <p className="text-sm text-muted-foreground">{_('No domain controllers listed')}</p>
               )
             : (
             <div className="space-y-2">
@@ -165,27 +166,27 @@ export function DomainInfoCard () {
 
         {/* FSMO Roles */}
         <div>
-          <p className="text-sm font-medium text-muted-foreground mb-3">FSMO Role Holders</p>
+          <p className="text-sm font-medium text-muted-foreground mb-3">{_('FSMO Role Holders')}</p>
           <div className="grid grid-cols-1 gap-2">
             <div className="flex justify-between items-center p-2 bg-muted/50 rounded">
-              <span className="text-sm">Schema Master</span>
-              <span className="text-sm font-medium">{domainInfo.fsmoRoles.schemaMaster || 'Unknown'}</span>
+              <span className="text-sm">{_('Schema Master')}</span>
+              <span className="text-sm font-medium">{domainInfo.fsmoRoles.schemaMaster || _('Unknown')}</span>
             </div>
             <div className="flex justify-between items-center p-2 bg-muted/50 rounded">
-              <span className="text-sm">Domain Naming Master</span>
-              <span className="text-sm font-medium">{domainInfo.fsmoRoles.domainNamingMaster || 'Unknown'}</span>
+              <span className="text-sm">{_('Domain Naming Master')}</span>
+              <span className="text-sm font-medium">{domainInfo.fsmoRoles.domainNamingMaster || _('Unknown')}</span>
             </div>
             <div className="flex justify-between items-center p-2 bg-muted/50 rounded">
-              <span className="text-sm">PDC Emulator</span>
-              <span className="text-sm font-medium">{domainInfo.fsmoRoles.pdcEmulator || 'Unknown'}</span>
+              <span className="text-sm">{_('PDC Emulator')}</span>
+              <span className="text-sm font-medium">{domainInfo.fsmoRoles.pdcEmulator || _('Unknown')}</span>
             </div>
             <div className="flex justify-between items-center p-2 bg-muted/50 rounded">
-              <span className="text-sm">RID Master</span>
-              <span className="text-sm font-medium">{domainInfo.fsmoRoles.ridMaster || 'Unknown'}</span>
+              <span className="text-sm">{_('RID Master')}</span>
+              <span className="text-sm font-medium">{domainInfo.fsmoRoles.ridMaster || _('Unknown')}</span>
             </div>
             <div className="flex justify-between items-center p-2 bg-muted/50 rounded">
-              <span className="text-sm">Infrastructure Master</span>
-              <span className="text-sm font-medium">{domainInfo.fsmoRoles.infrastructureMaster || 'Unknown'}</span>
+              <span className="text-sm">{_('Infrastructure Master')}</span>
+              <span className="text-sm font-medium">{domainInfo.fsmoRoles.infrastructureMaster || _('Unknown')}</span>
             </div>
           </div>
         </div>
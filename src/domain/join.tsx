@@ -1,21 +1,26 @@
-import React, { useState } from 'react'
+import React, { useState, useRef } from 'react'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CancelledAlert } from '@/components/ui/error-alert'
+import { CommandConsole, useCommandOutput } from '@/components/ui/command-console'
 import { Info } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useDomainMutations } from './hooks/useDomainMutations'
+import { CancelledError } from '@/lib/errors'
+import { JOIN_PHASES } from '@/services/progress'
 import { toast } from 'sonner'
 import type { DomainJoinInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const domainJoinSchema = z.object({
-  domain: z.string().min(1, 'Domain is required'),
-  username: z.string().min(1, 'Username is required'),
-  password: z.string().min(1, 'Password is required'),
+  domain: z.string().min(1, _('Domain is required')),
+  username: z.string().min(1, _('Username is required')),
+  password: z.string().min(1, _('Password is required')),
   organizationalUnit: z.string().optional(),
   computerName: z.string().optional()
 })
@@ -34,6 +39,9 @@ export function DomainJoinDialog ({
   onJoinCompleted
 }: DomainJoinDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [cancelled, setCancelled] = useState(false)
+  const abortController = useRef<AbortController | null>(null)
+  const output = useCommandOutput(JOIN_PHASES)
 
   const {
     register,
@@ -46,16 +54,21 @@ export function DomainJoinDialog ({
 
   const { joinDomain } = useDomainMutations(
     () => {
-      toast.success('Successfully joined domain')
+      toast.success(_('Successfully joined domain'))
       onJoinCompleted()
     },
     (error) => {
-      toast.error(`Failed to join domain: ${error}`)
+      toast.error(format(_('Failed to join domain: $0'), error))
     }
   )
 
   const onSubmit = async (data: DomainJoinFormData) => {
+    const controller = new AbortController()
+    abortController.current = controller
+
     setIsSubmitting(true)
+    setCancelled(false)
+    output.reset()
     try {
       const input: DomainJoinInput = {
         domain: data.domain,
@@ -64,17 +77,29 @@ export function DomainJoinDialog ({
         organizationalUnit: data.organizationalUnit,
         computerName: data.computerName
       }
-      await joinDomain(input)
+      await joinDomain(input, { signal: controller.signal, onOutput: output.onOutput })
       handleClose()
     } catch (error) {
-      // Error handled by mutation
+      // Other errors are handled by the mutation
+      if (error instanceof CancelledError) {
+        toast.warning(_('Domain join cancelled'))
+        setCancelled(true)
+      }
     } finally {
+      abortController.current = null
       setIsSubmitting(false)
     }
   }
 
+  const handleCancelJoin = () => {
+    abortController.current?.abort()
+  }
+
   const handleClose = () => {
+    abortController.current?.abort()
     reset()
+    setCancelled(false)
+    output.reset()
     onClose()
   }
 
@@ -82,23 +107,22 @@ export function DomainJoinDialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Join Domain</DialogTitle>
+          <DialogTitle>{_('Join Domain')}</DialogTitle>
           <DialogDescription>
-            Join this server to an existing Active Directory domain.
+            {_('Join this server to an existing Active Directory domain.')}
           </DialogDescription>
         </DialogHeader>
 
         <Alert className="border-blue-200 bg-blue-50">
           <Info className="h-4 w-4 text-blue-600" />
           <AlertDescription className="text-blue-800">
-            <strong>Important:</strong> This operation will join the server to the domain
-            as a domain controller. Ensure you have proper credentials and network connectivity.
+            <strong>{_('Important:')}</strong>{' '}{_('This operation will join the server to the domain as a domain controller. Ensure you have proper credentials and network connectivity.')}
           </AlertDescription>
         </Alert>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="domain">Domain *</Label>
+            <Label htmlFor="domain">{_('Domain *')}</Label>
             <Input
               id="domain"
               {...register('domain')}
@@ -109,12 +133,12 @@ export function DomainJoinDialog ({
               <p className="text-sm text-red-500">{errors.domain.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              The fully qualified domain name to join
+              {_('The fully qualified domain name to join')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="username">Username *</Label>
+            <Label htmlFor="username">{_('Username *')}</Label>
             <Input
               id="username"
               {...register('username')}
@@ -125,68 +149,85 @@ export function DomainJoinDialog ({
               <p className="text-sm text-red-500">{errors.username.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              Domain administrator username
+              {_('Domain administrator username')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="password">Password *</Label>
+            <Label htmlFor="password">{_('Password *')}</Label>
             <Input
               id="password"
               type="password"
               {...register('password')}
-              placeholder="Enter password"
+              placeholder={_('Enter password')}
               className={errors.password ? 'border-red-500' : ''}
             />
             {errors.password && (
               <p className="text-sm text-red-500">{errors.password.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              Password for the domain administrator
+              {_('Password for the domain administrator')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="organizationalUnit">Organizational Unit</Label>
+            <Label htmlFor="organizationalUnit">{_('Organizational Unit')}</Label>
             <Input
               id="organizationalUnit"
               {...register('organizationalUnit')}
-              placeholder="OU=Domain Controllers,DC=example,DC=com"
+              placeholder={_('OU=Domain Controllers,DC=example,DC=com')}
             />
             <p className="text-xs text-muted-foreground">
-              Optional OU where the computer account will be created
+              {_('Optional OU where the computer account will be created')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="computerName">Computer Name</Label>
+            <Label htmlFor="computerName">{_('Computer Name')}</Label>
             <Input
               id="computerName"
               {...register('computerName')}
               placeholder="DC01"
             />
             <p className="text-xs text-muted-foreground">
-              Optional computer name for this domain controller
+              {_('Optional computer name for this domain controller')}
             </p>
           </div>
 
           <div className="bg-muted/50 p-3 rounded-lg">
-            <h4 className="text-sm font-medium mb-2">Join Process:</h4>
+            <h4 className="text-sm font-medium mb-2">{_('Join Process:')}</h4>
             <ul className="text-xs text-muted-foreground space-y-1">
-              <li>• Server will be promoted to domain controller</li>
-              <li>• DNS settings will be configured automatically</li>
-              <li>• Computer account will be created in AD</li>
-              <li>• Replication will be established with existing DCs</li>
-              <li>• Server may require a restart after completion</li>
+              <li>{_('• Server will be promoted to domain controller')}</li>
+              <li>{_('• DNS settings will be configured automatically')}</li>
+              <li>{_('• Computer account will be created in AD')}</li>
+              <li>{_('• Replication will be established with existing DCs')}</li>
+              <li>{_('• Server may require a restart after completion')}</li>
             </ul>
           </div>
 
+          {(isSubmitting || output.lines.length > 0) && (
+            <CommandConsole
+              title={_('samba-tool domain join')}
+              lines={output.lines}
+              phases={output.phases}
+              phase={output.phase}
+              status={isSubmitting ? 'running' : cancelled ? 'cancelled' : 'failed'}
+            />
+          )}
+
+          {cancelled && (
+            <CancelledAlert
+              title={_('Join Cancelled')}
+              message={_('The join was stopped before it finished. The domain may already hold a computer account, DNS records or replication links for this server; remove them on another domain controller with "samba-tool domain demote --remove-other-dead-server" before joining again.')}
+            />
+          )}
+
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+            <Button type="button" variant="outline" onClick={isSubmitting ? handleCancelJoin : handleClose}>
+              {isSubmitting ? _('Cancel Join') : _('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Joining Domain...' : 'Join Domain'}
+              {isSubmitting ? _('Joining Domain...') : _('Join Domain')}
             </Button>
           </DialogFooter>
         </form>
@@ -18,6 +18,7 @@ import { useTrusts } from '../hooks/useDomain'
 import { toast } from 'sonner'
 import type { TrustRelationship } from '@/types/samba'
 import type { DataTableColumn } from '@/components/ui/data-table'
+import { _, formatDate } from '@/lib/i18n'
 
 export function TrustListCard () {
   const [searchTerm, setSearchTerm] = useState('')
@@ -69,14 +70,14 @@ export function TrustListCard () {
   const trustColumns: DataTableColumn<TrustRelationship>[] = [
     {
       key: 'name',
-      header: 'Trust Domain',
+      header: _('Trust Domain'),
       render: (trust) => (
         <div className="font-medium">{trust.name}</div>
       )
     },
     {
       key: 'type',
-      header: 'Type',
+      header: _('Type'),
       render: (trust) => (
         <Badge className={getTypeColor(trust.type)}>
           {trust.type}
@@ -85,7 +86,7 @@ export function TrustListCard () {
     },
     {
       key: 'direction',
-      header: 'Direction',
+      header: _('Direction'),
       render: (trust) => (
         <Badge className={getDirectionColor(trust.direction)}>
           {trust.direction}
@@ -94,7 +95,7 @@ export function TrustListCard () {
     },
     {
       key: 'status',
-      header: 'Status',
+      header: _('Status'),
       render: (trust) => (
         <Badge className={getStatusColor(trust.status)}>
           {trust.status}
@@ -103,23 +104,23 @@ export function TrustListCard () {
     },
     {
       key: 'createdAt',
-      header: 'Created',
+      header: _('Created'),
       render: (trust) => (
         <div className="text-sm text-muted-foreground">
-          {trust.createdAt.toLocaleDateString()}
+          {formatDate(trust.createdAt)}
         </div>
       )
     },
     {
       key: 'actions',
-      header: 'Actions',
+      header: _('Actions'),
       render: (_trust) => (
         <div className="flex items-center gap-2">
           <Button
             variant="outline"
             size="sm"
             onClick={() => {
-              toast.info('Trust details functionality not implemented yet')
+              toast.info(_('Trust details functionality not implemented yet'))
             }}
           >
             <Eye className="h-4 w-4" />
@@ -128,7 +129,7 @@ export function TrustListCard () {
             variant="outline"
             size="sm"
             onClick={() => {
-              toast.info('Trust deletion functionality not implemented yet')
+              toast.info(_('Trust deletion functionality not implemented yet'))
             }}
           >
             <Trash2 className="h-4 w-4" />
@@ -144,9 +145,9 @@ export function TrustListCard () {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Link className="h-5 w-5" />
-            Trust Relationships
+            {_('Trust Relationships')}
           </CardTitle>
-          <CardDescription>Loading trust relationships...</CardDescription>
+          <CardDescription>{_('Loading trust relationships...')}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
@@ -167,15 +168,15 @@ export function TrustListCard () {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Link className="h-5 w-5" />
-            Trust Relationships
+            {_('Trust Relationships')}
           </CardTitle>
-          <CardDescription>Error loading trust relationships</CardDescription>
+          <CardDescription>{_('Error loading trust relationships')}</CardDescription>
         </CardHeader>
         <CardContent>
           <Alert className="border-red-200 bg-red-50">
             <Info className="h-4 w-4 text-red-600" />
             <AlertDescription className="text-red-800">
-              <strong>Error:</strong> {error}
+              <strong>{_('Error:')}</strong> {error}
             </AlertDescription>
           </Alert>
         </CardContent>
@@ -188,10 +189,10 @@ export function TrustListCard () {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Link className="h-5 w-5" />
-          Trust Relationships
+          {_('Trust Relationships')}
         </CardTitle>
         <CardDescription>
-          Manage trust relationships with other domains and forests
+          {_('Manage trust relationships with other domains and forests')}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -200,18 +201,18 @@ export function TrustListCard () {
             <div className="relative flex-1 max-w-sm">
               <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search trusts..."
+                placeholder={_('Search trusts...')}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-8"
               />
             </div>
-            <Button onClick={() => toast.info('Create trust functionality not implemented yet')}>
+            <Button onClick={() => toast.info(_('Create trust functionality not implemented yet'))}>
               <Plus className="h-4 w-4 mr-2" />
-              Create Trust
+              {_('Create Trust')}
             </Button>
             <Button variant="outline" onClick={refresh}>
-              Refresh
+              {_('Refresh')}
             </Button>
           </div>
 
@@ -219,16 +220,16 @@ export function TrustListCard () {
             ? (
             <div className="text-center py-8">
               <Link className="mx-auto h-12 w-12 text-muted-foreground" />
-              <h3 className="mt-2 text-sm font-semibold">No Trust Relationships</h3>
+              <h3 className="mt-2 text-sm font-semibold">{_('No Trust Relationships')}</h3>
               <p className="mt-1 text-sm text-muted-foreground">
-                No trust relationships have been established with other domains.
+                {_('No trust relationships have been established with other domains.')}
               </p>
               <Button
-                onClick={() => toast.info('Create trust functionality not implemented yet')}
+                onClick={() => toast.info(_('Create trust functionality not implemented yet'))}
                 className="mt-4"
               >
                 <Plus className="h-4 w-4 mr-2" />
-                Create Trust
+                {_('Create Trust')}
               </Button>
             </div>
               )
@@ -243,9 +244,7 @@ export function TrustListCard () {
           <Alert className="border-blue-200 bg-blue-50">
             <Shield className="h-4 w-4 text-blue-600" />
             <AlertDescription className="text-blue-800">
-              <strong>Trust Relationships:</strong> Trust relationships allow users from
-              trusted domains to access resources in this domain. Manage trust relationships
-              carefully as they affect security and authentication.
+              <strong>{_('Trust Relationships:')}</strong>{' '}{_('Trust relationships allow users from trusted domains to access resources in this domain. Manage trust relationships carefully as they affect security and authentication.')}
             </AlertDescription>
           </Alert>
         </div>
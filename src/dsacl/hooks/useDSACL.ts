@@ -2,6 +2,7 @@ import { useCallback } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { DSACLApi } from '@/services/dsacl-api'
 import type { DSACLInfo, SetDSACLInput } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseDSACLReturn {
   dsacl: DSACLInfo | null;
@@ -53,7 +54,7 @@ export const useDSACLMutations = (onSuccess?: () => void, onError?: (error: stri
       await DSACLApi.setDSACL(aclData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to set DSACL'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to set DSACL')
       onError?.(errorMessage)
       throw err
     }
@@ -16,6 +16,7 @@ import {
 import { BackButton } from '../common'
 import { useDSACL } from './hooks/useDSACL'
 import { SetDSACLDialog } from './set-dsacl'
+import { _ } from '@/lib/i18n'
 
 export default function DSACLManagement () {
   const { dsacl, loading: dsaclLoading, refresh: refreshDSACL } = useDSACL()
@@ -49,9 +50,9 @@ export default function DSACLManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Directory Service ACL Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('Directory Service ACL Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Access Control Lists for Active Directory objects
+            {_('Manage Access Control Lists for Active Directory objects')}
           </p>
         </div>
       </div>
@@ -60,20 +61,20 @@ export default function DSACLManagement () {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total ACL Entries</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Total ACL Entries')}</CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{dsacl?.entries.length || 0}</div>
             <p className="text-xs text-muted-foreground">
-              Access control entries
+              {_('Access control entries')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Allow Entries</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Allow Entries')}</CardTitle>
             <Unlock className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
@@ -81,14 +82,14 @@ export default function DSACLManagement () {
               {dsacl?.entries.filter(entry => entry.accessType === 'Allow').length || 0}
             </div>
             <p className="text-xs text-muted-foreground">
-              Permitted access
+              {_('Permitted access')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Deny Entries</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Deny Entries')}</CardTitle>
             <Lock className="h-4 w-4 text-red-600" />
           </CardHeader>
           <CardContent>
@@ -96,20 +97,20 @@ export default function DSACLManagement () {
               {dsacl?.entries.filter(entry => entry.accessType === 'Deny').length || 0}
             </div>
             <p className="text-xs text-muted-foreground">
-              Denied access
+              {_('Denied access')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Object</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Object')}</CardTitle>
             <Info className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-sm font-bold truncate">{dsacl?.objectDN || 'Domain Root'}</div>
+            <div className="text-sm font-bold truncate">{dsacl?.objectDN || _('Domain Root')}</div>
             <p className="text-xs text-muted-foreground">
-              Protected object
+              {_('Protected object')}
             </p>
           </CardContent>
         </Card>
@@ -120,18 +121,18 @@ export default function DSACLManagement () {
           <TabsList>
             <TabsTrigger value="acl-entries" className="flex items-center gap-2">
               <Shield className="h-4 w-4" />
-              Access Control Entries
+              {_('Access Control Entries')}
             </TabsTrigger>
             <TabsTrigger value="raw-output" className="flex items-center gap-2">
               <Info className="h-4 w-4" />
-              Raw Output
+              {_('Raw Output')}
             </TabsTrigger>
           </TabsList>
 
           <div className="flex items-center gap-2">
             <Button onClick={() => setSetDSACLDialogOpen(true)} className="flex items-center gap-2">
               <Plus className="h-4 w-4" />
-              Modify Access List
+              {_('Modify Access List')}
             </Button>
           </div>
         </div>
@@ -139,34 +140,34 @@ export default function DSACLManagement () {
         <TabsContent value="acl-entries">
           <Card>
             <CardHeader>
-              <CardTitle>Access Control Entries</CardTitle>
+              <CardTitle>{_('Access Control Entries')}</CardTitle>
               <CardDescription>
-                Directory Service permissions for the selected object.
+                {_('Directory Service permissions for the selected object.')}
               </CardDescription>
               <div className="space-y-3">
                 <div className="flex gap-2">
                   <div className="relative flex-1">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
                     <Input
-                      placeholder="Search ACL entries..."
+                      placeholder={_('Search ACL entries...')}
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
                       className="pl-10"
                     />
                   </div>
                   <Button variant="outline" onClick={refreshDSACL}>
-                    Refresh
+                    {_('Refresh')}
                   </Button>
                 </div>
                 <div className="flex gap-2">
                   <Input
-                    placeholder="Object DN (optional)"
+                    placeholder={_('Object DN (optional)')}
                     value={objectDN}
                     onChange={(e) => setObjectDN(e.target.value)}
                     className="flex-1"
                   />
                   <Button onClick={handleSearchObject} variant="outline">
-                    Search Object
+                    {_('Search Object')}
                   </Button>
                 </div>
               </div>
@@ -187,12 +188,12 @@ export default function DSACLManagement () {
                 <div className="text-center py-8">
                   <Shield className="mx-auto h-12 w-12 text-muted-foreground" />
                   <h3 className="mt-2 text-sm font-semibold">
-                    {searchQuery ? 'No Matching Entries' : 'No ACL Entries Found'}
+                    {searchQuery ? _('No Matching Entries') : _('No ACL Entries Found')}
                   </h3>
                   <p className="mt-1 text-sm text-muted-foreground">
                     {searchQuery
-                      ? 'Try adjusting your search terms'
-                      : 'No access control entries are currently available'
+                      ? _('Try adjusting your search terms')
+                      : _('No access control entries are currently available')
                     }
                   </p>
                 </div>
@@ -213,14 +214,14 @@ export default function DSACLManagement () {
                                 )}
                             <div className="space-y-2">
                               <div>
-                                <h4 className="font-medium">Trustee</h4>
+                                <h4 className="font-medium">{_('Trustee')}</h4>
                                 <p className="text-sm text-muted-foreground font-mono">
                                   {entry.trusteeDN}
                                 </p>
                               </div>
 
                               <div>
-                                <h4 className="font-medium text-sm">Permissions</h4>
+                                <h4 className="font-medium text-sm">{_('Permissions')}</h4>
                                 <div className="flex flex-wrap gap-1 mt-1">
                                   {entry.permissions.map((permission, index) => (
                                     <Badge key={index} variant="outline" className="text-xs">
@@ -232,7 +233,7 @@ export default function DSACLManagement () {
 
                               {entry.inheritanceFlags.length > 0 && (
                                 <div>
-                                  <h4 className="font-medium text-sm">Inheritance</h4>
+                                  <h4 className="font-medium text-sm">{_('Inheritance')}</h4>
                                   <div className="flex flex-wrap gap-1 mt-1">
                                     {entry.inheritanceFlags.map((flag, index) => (
                                       <Badge key={index} variant="secondary" className="text-xs">
@@ -244,7 +245,7 @@ export default function DSACLManagement () {
                               )}
 
                               <div>
-                                <h4 className="font-medium text-sm">SDDL</h4>
+                                <h4 className="font-medium text-sm">{_('SDDL')}</h4>
                                 <code className="text-xs bg-muted p-2 rounded block mt-1 overflow-x-auto">
                                   {entry.sddl}
                                 </code>
@@ -273,9 +274,9 @@ export default function DSACLManagement () {
         <TabsContent value="raw-output">
           <Card>
             <CardHeader>
-              <CardTitle>Raw DSACL Output</CardTitle>
+              <CardTitle>{_('Raw DSACL Output')}</CardTitle>
               <CardDescription>
-                Raw output from the samba-tool dsacl command.
+                {_('Raw output from the samba-tool dsacl command.')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -289,9 +290,9 @@ export default function DSACLManagement () {
                   ? (
                 <div className="text-center py-8">
                   <Info className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-2 text-sm font-semibold">No Raw Output</h3>
+                  <h3 className="mt-2 text-sm font-semibold">{_('No Raw Output')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    No raw DSACL output is available
+                    {_('No raw DSACL output is available')}
                   </p>
                 </div>
                     )
@@ -300,8 +301,7 @@ export default function DSACLManagement () {
                   <Alert>
                     <Info className="h-4 w-4" />
                     <AlertDescription>
-                      This is the raw output from the samba-tool dsacl get command.
-                      Each line represents an access control entry in SDDL format.
+                      {_('This is the raw output from the samba-tool dsacl get command. Each line represents an access control entry in SDDL format.')}
                     </AlertDescription>
                   </Alert>
                   <div className="bg-muted/50 p-4 rounded-lg">
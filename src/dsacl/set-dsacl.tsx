@@ -27,6 +27,7 @@ import { ExternalLink, AlertTriangle } from 'lucide-react'
 import { useDSACLMutations } from './hooks/useDSACL'
 import { toast } from 'sonner'
 import type { SetDSACLInput } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 const setDSACLSchema = z.object({
   url: z.string().optional(),
@@ -38,7 +39,7 @@ const setDSACLSchema = z.object({
 }).refine(
   (data) => Object.values(data).some(value => value && value.length > 0),
   {
-    message: 'At least one field must be provided'
+    message: _('At least one field must be provided')
   }
 )
 
@@ -91,7 +92,7 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
       }
 
       await setDSACL(dsaclData)
-      toast.success('DSACL modified successfully')
+      toast.success(_('DSACL modified successfully'))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -103,9 +104,9 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Modify Access List</DialogTitle>
+          <DialogTitle>{_('Modify Access List')}</DialogTitle>
           <DialogDescription>
-            Modify Directory Service Access Control List entries using samba-tool dsacl set.
+            {_('Modify Directory Service Access Control List entries using samba-tool dsacl set.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -115,10 +116,9 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Advanced Feature</p>
+                  <p className="font-medium">{_('Advanced Feature')}</p>
                   <p className="text-sm">
-                    Modifying ACLs requires careful consideration and understanding of
-                    Active Directory security. Incorrect modifications can impact system security.
+                    {_('Modifying ACLs requires careful consideration and understanding of Active Directory security. Incorrect modifications can impact system security.')}
                   </p>
                 </div>
               </AlertDescription>
@@ -129,16 +129,16 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
               name="url"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>URL</FormLabel>
+                  <FormLabel>{_('URL')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="LDAP URL (optional)"
+                      placeholder={_('LDAP URL (optional)')}
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    LDAP URL for the directory service connection
+                    {_('LDAP URL for the directory service connection')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -150,16 +150,16 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
               name="car"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>CAR</FormLabel>
+                  <FormLabel>{_('CAR')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="Control Access Right (optional)"
+                      placeholder={_('Control Access Right (optional)')}
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Control Access Right identifier
+                    {_('Control Access Right identifier')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -171,16 +171,16 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
               name="action"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Action</FormLabel>
+                  <FormLabel>{_('Action')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="Action to perform (optional)"
+                      placeholder={_('Action to perform (optional)')}
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Action to perform on the ACL (e.g., grant, revoke)
+                    {_('Action to perform on the ACL (e.g., grant, revoke)')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -192,16 +192,16 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
               name="objectDN"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Object DN</FormLabel>
+                  <FormLabel>{_('Object DN')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="CN=Object,DC=domain,DC=com (optional)"
+                      placeholder={_('CN=Object,DC=domain,DC=com (optional)')}
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Distinguished name of the object to modify
+                    {_('Distinguished name of the object to modify')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -213,16 +213,16 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
               name="trusteeDN"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Trustee DN</FormLabel>
+                  <FormLabel>{_('Trustee DN')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="CN=User,CN=Users,DC=domain,DC=com (optional)"
+                      placeholder={_('CN=User,CN=Users,DC=domain,DC=com (optional)')}
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Distinguished name of the trustee (user/group)
+                    {_('Distinguished name of the trustee (user/group)')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -234,17 +234,17 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
               name="sddl"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>SDDL</FormLabel>
+                  <FormLabel>{_('SDDL')}</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Security Descriptor Definition Language (optional)"
+                      placeholder={_('Security Descriptor Definition Language (optional)')}
                       className="resize-none min-h-[100px]"
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    SDDL format security descriptor
+                    {_('SDDL format security descriptor')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -252,14 +252,14 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
             />
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">Common Examples:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('Common Examples:')}</h4>
               <div className="space-y-2 text-sm text-muted-foreground">
                 <div>
-                  <strong>Grant full control:</strong><br />
+                  <strong>{_('Grant full control:')}</strong><br />
                   <code className="text-xs">--action=grant --trusteeDN="CN=User,CN=Users,DC=domain,DC=com" --sddl="(A;;GA;;;SID)"</code>
                 </div>
                 <div>
-                  <strong>Revoke access:</strong><br />
+                  <strong>{_('Revoke access:')}</strong><br />
                   <code className="text-xs">--action=revoke --trusteeDN="CN=User,CN=Users,DC=domain,DC=com"</code>
                 </div>
               </div>
@@ -269,9 +269,9 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Documentation</p>
+                  <p className="font-medium">{_('Documentation')}</p>
                   <p className="text-sm">
-                    For detailed information about SDDL format and ACL management, refer to:
+                    {_('For detailed information about SDDL format and ACL management, refer to:')}
                   </p>
                   <div className="flex items-center gap-2 text-sm">
                     <a
@@ -280,7 +280,7 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
                       rel="noopener noreferrer"
                       className="text-blue-600 hover:text-blue-800 underline flex items-center gap-1"
                     >
-                      Microsoft SDDL Documentation
+                      {_('Microsoft SDDL Documentation')}
                       <ExternalLink className="h-3 w-3" />
                     </a>
                   </div>
@@ -290,10 +290,10 @@ export function SetDSACLDialog ({ isOpen, onClose, onDSACLSet }: SetDSACLDialogP
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Modifying...' : 'Modify ACL'}
+                {isSubmitting ? _('Modifying...') : _('Modify ACL')}
               </Button>
             </DialogFooter>
           </form>
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react'
+import { UserAPI } from '../../services/user-api'
+import type { SambaUser } from '../../types/samba'
+import { ErrorHandler } from '../../lib/errors'
+
+export interface UseExpiryReportReturn {
+  users: SambaUser[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the expiry report. Reads every user once, with their
+ * password and account expiry; the report filters them in the page.
+ */
+export const useExpiryReport = (): UseExpiryReportReturn => {
+  const [users, setUsers] = useState<SambaUser[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const result = await UserAPI.list()
+      setUsers(result)
+    } catch (err) {
+      const apiError = ErrorHandler.handle(err, 'useExpiryReport.fetchUsers', {
+        showToast: false,
+        rethrow: false
+      })
+      setError(apiError.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const refresh = useCallback(async () => {
+    await fetchUsers()
+  }, [fetchUsers])
+
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
+
+  return {
+    users,
+    loading,
+    error,
+    refresh
+  }
+}
@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react'
+import { createRoot } from 'react-dom/client'
+import { CalendarClock, Infinity as InfinityIcon, RefreshCw } from 'lucide-react'
+import '../user/tailwind.css'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { DataTable, type DataTableColumn } from '@/components/ui/data-table'
+import { ErrorAlert } from '@/components/ui/error-alert'
+import { BackButton } from '../common'
+import { useExpiryReport } from './hooks/useExpiryReport'
+import { findExpiring, findPasswordNeverExpires } from '@/services/user-expiry'
+import type { ExpiringAccount, SambaUser } from '@/types/samba'
+import { _, format, formatDate, ngettext } from '@/lib/i18n'
+
+// Flattened for the table's search, which looks at top-level fields
+type ExpiringRow = ExpiringAccount & Pick<SambaUser, 'username' | 'displayName'>
+
+const describeDaysLeft = (daysLeft: number): string => {
+  if (daysLeft < 0) {
+    return format(ngettext('Expired $0 day ago', 'Expired $0 days ago', -daysLeft), -daysLeft)
+  }
+  if (daysLeft === 0) {
+    return _('Expires today')
+  }
+  return format(ngettext('In $0 day', 'In $0 days', daysLeft), daysLeft)
+}
+
+const userColumns = <T extends Pick<SambaUser, 'username' | 'displayName'>>(): DataTableColumn<T>[] => [
+  {
+    key: 'username',
+    header: _('Username'),
+    sortable: true,
+    searchable: true,
+    render: (user) => <div className="font-medium">{user.username}</div>
+  },
+  {
+    key: 'displayName',
+    header: _('Display Name'),
+    sortable: true,
+    searchable: true
+  }
+]
+
+function ExpiryReportPage () {
+  const [days, setDays] = useState(14)
+  const [includeDisabled, setIncludeDisabled] = useState(false)
+
+  const { users, loading, error, refresh } = useExpiryReport()
+
+  const expiring = useMemo<ExpiringRow[]>(
+    () => findExpiring(users, { days: Number.isNaN(days) ? 0 : Math.max(0, days), includeDisabled })
+      .map(entry => ({ ...entry, username: entry.user.username, displayName: entry.user.displayName })),
+    [users, days, includeDisabled]
+  )
+  const neverExpires = useMemo(
+    () => findPasswordNeverExpires(users, includeDisabled),
+    [users, includeDisabled]
+  )
+
+  const expiringColumns = useMemo<DataTableColumn<ExpiringRow>[]>(() => [
+    ...userColumns<ExpiringRow>(),
+    {
+      key: 'kind',
+      header: _('Expiring'),
+      sortable: true,
+      searchable: false,
+      render: (entry) => (
+        <Badge variant="outline">{entry.kind === 'password' ? _('Password') : _('Account')}</Badge>
+      )
+    },
+    {
+      key: 'expires',
+      header: _('Date'),
+      sortable: true,
+      searchable: false,
+      render: (entry) => (
+        <span className="text-sm whitespace-nowrap">
+          {entry.kind === 'password' && entry.user.mustChangePassword
+            ? _('At next logon')
+            : formatDate(entry.expires)}
+        </span>
+      )
+    },
+    {
+      key: 'daysLeft',
+      header: _('When'),
+      sortable: true,
+      searchable: false,
+      render: (entry) => (
+        <Badge variant={entry.daysLeft < 0 ? 'destructive' : entry.daysLeft < 3 ? 'default' : 'secondary'}>
+          {entry.kind === 'password' && entry.user.mustChangePassword
+            ? _('Must change')
+            : describeDaysLeft(entry.daysLeft)}
+        </Badge>
+      )
+    }
+  ], [])
+
+  const neverExpiresColumns = useMemo<DataTableColumn<SambaUser>[]>(() => [
+    ...userColumns<SambaUser>(),
+    {
+      key: 'enabled',
+      header: _('Status'),
+      sortable: true,
+      render: (user) => (
+        <Badge variant={user.enabled ? 'default' : 'secondary'}>
+          {user.enabled ? _('Enabled') : _('Disabled')}
+        </Badge>
+      )
+    },
+    {
+      key: 'passwordLastSet',
+      header: _('Password Last Set'),
+      sortable: true,
+      render: (user) => user.passwordLastSet
+        ? <span className="text-sm whitespace-nowrap">{formatDate(user.passwordLastSet)}</span>
+        : <span className="text-muted-foreground">{_('Never')}</span>
+    }
+  ], [])
+
+  return (
+        <div className="min-h-screen bg-background">
+            <div className="container mx-auto p-6 space-y-6">
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <BackButton />
+                        <div>
+                            <h1 className="text-3xl font-bold tracking-tight">{_('Password Expiry')}</h1>
+                            <p className="text-muted-foreground">
+                                {_('Passwords and accounts about to expire, before users are locked out')}
+                            </p>
+                        </div>
+                    </div>
+                    <Button variant="outline" onClick={refresh} disabled={loading}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        {_('Refresh')}
+                    </Button>
+                </div>
+
+                {error && (
+                    <ErrorAlert
+                        error={error}
+                        title={_('Failed to load users')}
+                        onRetry={refresh}
+                        retryLabel={_('Retry')}
+                    />
+                )}
+
+                <Tabs defaultValue="expiring" className="space-y-6">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <TabsList>
+                            <TabsTrigger value="expiring" className="flex items-center gap-2">
+                                <CalendarClock className="h-4 w-4" />
+                                {format(_('Expiring Soon ($0)'), expiring.length)}
+                            </TabsTrigger>
+                            <TabsTrigger value="never" className="flex items-center gap-2">
+                                <InfinityIcon className="h-4 w-4" />
+                                {format(_('Never Expires ($0)'), neverExpires.length)}
+                            </TabsTrigger>
+                        </TabsList>
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="expiry-disabled"
+                                checked={includeDisabled}
+                                onCheckedChange={(checked) => setIncludeDisabled(checked === true)}
+                            />
+                            <Label htmlFor="expiry-disabled">{_('Include disabled accounts')}</Label>
+                        </div>
+                    </div>
+
+                    <TabsContent value="expiring">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>{_('Expiring Soon')}</CardTitle>
+                                <CardDescription>
+                                    {_('Passwords reaching the maximum age of the domain or of the user\'s password settings object, and account expiry dates. Accounts that have already expired are listed first.')}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <div className="flex items-center gap-2">
+                                    <Label htmlFor="expiry-days">{_('Within the next (days)')}</Label>
+                                    <Input
+                                        id="expiry-days"
+                                        type="number"
+                                        min={0}
+                                        className="w-24"
+                                        value={Number.isNaN(days) ? '' : days}
+                                        onChange={(e) => setDays(e.target.valueAsNumber)}
+                                    />
+                                </div>
+                                <DataTable
+                                    data={expiring}
+                                    columns={expiringColumns}
+                                    loading={loading}
+                                    searchPlaceholder={_('Search users...')}
+                                    emptyMessage={_('Nothing expires in this window')}
+                                />
+                            </CardContent>
+                        </Card>
+                    </TabsContent>
+
+                    <TabsContent value="never">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>{_('Password Never Expires')}</CardTitle>
+                                <CardDescription>
+                                    {_('Accounts flagged to keep their password regardless of the maximum password age. Review them regularly; service accounts are the usual exception.')}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <DataTable
+                                    data={neverExpires}
+                                    columns={neverExpiresColumns}
+                                    loading={loading}
+                                    searchPlaceholder={_('Search users...')}
+                                    emptyMessage={_('No accounts have a password that never expires')}
+                                />
+                            </CardContent>
+                        </Card>
+                    </TabsContent>
+                </Tabs>
+            </div>
+        </div>
+  )
+}
+
+// DOM mounting for standalone usage
+document.addEventListener('DOMContentLoaded', () => {
+  const container = document.getElementById('expiry')
+  if (container) {
+    const root = createRoot(container)
+    root.render(<ExpiryReportPage />)
+  }
+})
+
+export default ExpiryReportPage
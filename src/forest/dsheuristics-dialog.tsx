@@ -26,11 +26,12 @@ import { ExternalLink, AlertTriangle } from 'lucide-react'
 import { useForestMutations } from './hooks/useForest'
 import { toast } from 'sonner'
 import type { SetDSHeuristicsInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const dsHeuristicsSchema = z.object({
-  value: z.string().min(1, 'DSHeuristics value is required').regex(
+  value: z.string().min(1, _('DSHeuristics value is required')).regex(
     /^[0-9]+$/,
-    'DSHeuristics value must contain only digits'
+    _('DSHeuristics value must contain only digits')
   )
 })
 
@@ -73,7 +74,7 @@ export function DSHeuristicsDialog ({ isOpen, onClose, onHeuristicsSet }: DSHeur
       }
 
       await setDSHeuristics(heuristicsData)
-      toast.success(`DSHeuristics set to "${data.value}" successfully`)
+      toast.success(format(_('DSHeuristics set to "$0" successfully'), data.value))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -85,10 +86,9 @@ export function DSHeuristicsDialog ({ isOpen, onClose, onHeuristicsSet }: DSHeur
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Set DSHeuristics Value</DialogTitle>
+          <DialogTitle>{_('Set DSHeuristics Value')}</DialogTitle>
           <DialogDescription>
-            Set the value of dsheuristics on the Directory Service. This value alters the behavior
-            of the Directory Service on all domain controllers in the forest.
+            {_('Set the value of dsheuristics on the Directory Service. This value alters the behavior of the Directory Service on all domain controllers in the forest.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -99,7 +99,7 @@ export function DSHeuristicsDialog ({ isOpen, onClose, onHeuristicsSet }: DSHeur
               name="value"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Heuristics Value</FormLabel>
+                  <FormLabel>{_('Heuristics Value')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="0000002"
@@ -108,7 +108,7 @@ export function DSHeuristicsDialog ({ isOpen, onClose, onHeuristicsSet }: DSHeur
                     />
                   </FormControl>
                   <FormDescription>
-                    Enter the DSHeuristics value (numeric string, e.g., "0000002")
+                    {_('Enter the DSHeuristics value (numeric string, e.g., "0000002")')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -119,20 +119,19 @@ export function DSHeuristicsDialog ({ isOpen, onClose, onHeuristicsSet }: DSHeur
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Important Notice</p>
+                  <p className="font-medium">{_('Important Notice')}</p>
                   <p className="text-sm">
-                    This setting affects the behavior of the Directory Service across the entire forest.
-                    Make sure you understand the implications before proceeding.
+                    {_('This setting affects the behavior of the Directory Service across the entire forest. Make sure you understand the implications before proceeding.')}
                   </p>
                   <div className="flex items-center gap-2 text-sm">
-                    <span>Documentation available at:</span>
+                    <span>{_('Documentation available at:')}</span>
                     <a
                       href="https://msdn.microsoft.com/en-us/library/cc223560.aspx"
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-blue-600 hover:text-blue-800 underline flex items-center gap-1"
                     >
-                      Microsoft Docs
+                      {_('Microsoft Docs')}
                       <ExternalLink className="h-3 w-3" />
                     </a>
                   </div>
@@ -141,21 +140,21 @@ export function DSHeuristicsDialog ({ isOpen, onClose, onHeuristicsSet }: DSHeur
             </Alert>
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">Common DSHeuristics Values:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('Common DSHeuristics Values:')}</h4>
               <div className="space-y-1 text-sm text-muted-foreground">
-                <div><code>0000000</code> - Default behavior (all heuristics disabled)</div>
-                <div><code>0000001</code> - Enable anonymous LDAP access</div>
-                <div><code>0000002</code> - Enable List Object access right</div>
-                <div><code>0010000</code> - Allow access to userPassword attribute</div>
+                <div><code>0000000</code>{' '}{_('- Default behavior (all heuristics disabled)')}</div>
+                <div><code>0000001</code>{' '}{_('- Enable anonymous LDAP access')}</div>
+                <div><code>0000002</code>{' '}{_('- Enable List Object access right')}</div>
+                <div><code>0010000</code>{' '}{_('- Allow access to userPassword attribute')}</div>
               </div>
             </div>
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Setting Value...' : 'Set Value'}
+                {isSubmitting ? _('Setting Value...') : _('Set Value')}
               </Button>
             </DialogFooter>
           </form>
@@ -6,6 +6,7 @@ import type {
   ForestDirectoryServiceInfo,
   SetDSHeuristicsInput
 } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseForestReturn {
   forest: SambaForest | null;
@@ -92,7 +93,7 @@ export const useForestMutations = (onSuccess?: () => void, onError?: (error: str
       await ForestAPI.setDSHeuristics(heuristicsData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to set dsheuristics'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to set dsheuristics')
       onError?.(errorMessage)
       throw err
     }
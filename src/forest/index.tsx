@@ -15,6 +15,7 @@ import {
 import { BackButton } from '../common'
 import { useForest, useDirectoryService } from './hooks/useForest'
 import { DSHeuristicsDialog } from './dsheuristics-dialog'
+import { _ } from '@/lib/i18n'
 
 export default function ForestManagement () {
   const { forest, loading: forestLoading, refresh: refreshForest } = useForest()
@@ -34,9 +35,9 @@ export default function ForestManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Forest Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('Forest Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Active Directory forest settings and directory service configuration
+            {_('Manage Active Directory forest settings and directory service configuration')}
           </p>
         </div>
       </div>
@@ -45,52 +46,52 @@ export default function ForestManagement () {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Forest Name</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Forest Name')}</CardTitle>
             <TreePine className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{forest?.name || 'Loading...'}</div>
+            <div className="text-2xl font-bold">{forest?.name || _('Loading...')}</div>
             <p className="text-xs text-muted-foreground">
-              Active Directory forest
+              {_('Active Directory forest')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Forest Function Level</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Forest Function Level')}</CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{forest?.forestFunctionLevel || 'Unknown'}</div>
+            <div className="text-2xl font-bold">{forest?.forestFunctionLevel || _('Unknown')}</div>
             <p className="text-xs text-muted-foreground">
-              Forest-wide functionality
+              {_('Forest-wide functionality')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Domain Function Level</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Domain Function Level')}</CardTitle>
             <Database className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{forest?.domainFunctionLevel || 'Unknown'}</div>
+            <div className="text-2xl font-bold">{forest?.domainFunctionLevel || _('Unknown')}</div>
             <p className="text-xs text-muted-foreground">
-              Domain functionality level
+              {_('Domain functionality level')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Schema Version</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Schema Version')}</CardTitle>
             <Settings className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{forest?.schemaVersion || 'Unknown'}</div>
+            <div className="text-2xl font-bold">{forest?.schemaVersion || _('Unknown')}</div>
             <p className="text-xs text-muted-foreground">
-              Active Directory schema
+              {_('Active Directory schema')}
             </p>
           </CardContent>
         </Card>
@@ -101,11 +102,11 @@ export default function ForestManagement () {
           <TabsList>
             <TabsTrigger value="directory-service" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
-              Directory Service
+              {_('Directory Service')}
             </TabsTrigger>
             <TabsTrigger value="forest-info" className="flex items-center gap-2">
               <Info className="h-4 w-4" />
-              Forest Info
+              {_('Forest Info')}
             </TabsTrigger>
           </TabsList>
 
@@ -115,7 +116,7 @@ export default function ForestManagement () {
               className="flex items-center gap-2"
             >
               <Cog className="h-4 w-4" />
-              Set DSHeuristics
+              {_('Set DSHeuristics')}
             </Button>
           </div>
         </div>
@@ -123,9 +124,9 @@ export default function ForestManagement () {
         <TabsContent value="directory-service">
           <Card>
             <CardHeader>
-              <CardTitle>Directory Service Settings</CardTitle>
+              <CardTitle>{_('Directory Service Settings')}</CardTitle>
               <CardDescription>
-                Configuration settings for the Directory Service that apply to all domain controllers in the forest.
+                {_('Configuration settings for the Directory Service that apply to all domain controllers in the forest.')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -143,9 +144,9 @@ export default function ForestManagement () {
                   ? (
                 <div className="text-center py-8">
                   <Settings className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-2 text-sm font-semibold">No Settings Found</h3>
+                  <h3 className="mt-2 text-sm font-semibold">{_('No Settings Found')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    No directory service settings are currently configured
+                    {_('No directory service settings are currently configured')}
                   </p>
                 </div>
                     )
@@ -179,9 +180,9 @@ export default function ForestManagement () {
         <TabsContent value="forest-info">
           <Card>
             <CardHeader>
-              <CardTitle>Forest Information</CardTitle>
+              <CardTitle>{_('Forest Information')}</CardTitle>
               <CardDescription>
-                Detailed information about the Active Directory forest configuration.
+                {_('Detailed information about the Active Directory forest configuration.')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -201,29 +202,29 @@ export default function ForestManagement () {
                 <div className="space-y-6">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Forest Name</h4>
+                      <h4 className="text-sm font-medium text-muted-foreground mb-2">{_('Forest Name')}</h4>
                       <p className="text-lg font-semibold">{forest.name}</p>
                     </div>
                     <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Domain Name</h4>
+                      <h4 className="text-sm font-medium text-muted-foreground mb-2">{_('Domain Name')}</h4>
                       <p className="text-lg font-semibold">{forest.domainName}</p>
                     </div>
                     <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Forest Function Level</h4>
+                      <h4 className="text-sm font-medium text-muted-foreground mb-2">{_('Forest Function Level')}</h4>
                       <Badge variant="outline">{forest.forestFunctionLevel}</Badge>
                     </div>
                     <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Domain Function Level</h4>
+                      <h4 className="text-sm font-medium text-muted-foreground mb-2">{_('Domain Function Level')}</h4>
                       <Badge variant="outline">{forest.domainFunctionLevel}</Badge>
                     </div>
                     <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Schema Version</h4>
+                      <h4 className="text-sm font-medium text-muted-foreground mb-2">{_('Schema Version')}</h4>
                       <Badge variant="secondary">{forest.schemaVersion}</Badge>
                     </div>
                     <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">DSHeuristics</h4>
+                      <h4 className="text-sm font-medium text-muted-foreground mb-2">{_('DSHeuristics')}</h4>
                       <Badge variant={forest.dsheuristics ? 'default' : 'secondary'}>
-                        {forest.dsheuristics || 'Not Set'}
+                        {forest.dsheuristics || _('Not Set')}
                       </Badge>
                     </div>
                   </div>
@@ -232,9 +233,9 @@ export default function ForestManagement () {
                   : (
                 <div className="text-center py-8">
                   <TreePine className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-2 text-sm font-semibold">No Forest Information</h3>
+                  <h3 className="mt-2 text-sm font-semibold">{_('No Forest Information')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    Unable to retrieve forest information
+                    {_('Unable to retrieve forest information')}
                   </p>
                 </div>
                     )}
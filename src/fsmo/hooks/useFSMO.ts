@@ -2,6 +2,7 @@ import { useCallback } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { FSMOAPI } from '@/services/fsmo-api'
 import type { FSMORoles, TransferFSMORoleInput, SeizeFSMORoleInput } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseFSMOReturn {
   roles: FSMORoles | null;
@@ -60,7 +61,7 @@ export const useFSMOMutations = (onSuccess?: () => void, onError?: (error: strin
       await FSMOAPI.transferRole(transferData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to transfer FSMO role'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to transfer FSMO role')
       onError?.(errorMessage)
       throw err
     }
@@ -71,7 +72,7 @@ export const useFSMOMutations = (onSuccess?: () => void, onError?: (error: strin
       await FSMOAPI.seizeRole(seizeData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to seize FSMO role'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to seize FSMO role')
       onError?.(errorMessage)
       throw err
     }
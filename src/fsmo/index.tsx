@@ -18,6 +18,7 @@ import { ErrorAlert } from '@/components/ui/error-alert'
 import { useFSMO } from './hooks/useFSMO'
 import { TransferRoleDialog } from './transfer'
 import { SeizeRoleDialog } from './seize'
+import { _ } from '@/lib/i18n'
 
 export default function FSMOManagement () {
   const { roles, loading, error, refresh } = useFSMO()
@@ -42,45 +43,45 @@ export default function FSMOManagement () {
   const fsmoRoleInfo = [
     {
       key: 'schemaMaster' as const,
-      title: 'Schema Master',
+      title: _('Schema Master'),
       icon: Database,
-      description: 'Controls schema modifications for the entire forest',
+      description: _('Controls schema modifications for the entire forest'),
       scope: 'Forest-wide',
       criticality: 'High',
       variant: 'destructive' as const
     },
     {
       key: 'domainNamingMaster' as const,
-      title: 'Domain Naming Master',
+      title: _('Domain Naming Master'),
       icon: Network,
-      description: 'Controls addition and removal of domains in the forest',
+      description: _('Controls addition and removal of domains in the forest'),
       scope: 'Forest-wide',
       criticality: 'High',
       variant: 'destructive' as const
     },
     {
       key: 'pdcEmulator' as const,
-      title: 'PDC Emulator',
+      title: _('PDC Emulator'),
       icon: Crown,
-      description: 'Handles password changes, time synchronization, and account lockouts',
+      description: _('Handles password changes, time synchronization, and account lockouts'),
       scope: 'Domain-wide',
       criticality: 'Critical',
       variant: 'default' as const
     },
     {
       key: 'ridMaster' as const,
-      title: 'RID Master',
+      title: _('RID Master'),
       icon: Key,
-      description: 'Allocates pools of relative identifiers to domain controllers',
+      description: _('Allocates pools of relative identifiers to domain controllers'),
       scope: 'Domain-wide',
       criticality: 'Medium',
       variant: 'secondary' as const
     },
     {
       key: 'infrastructureMaster' as const,
-      title: 'Infrastructure Master',
+      title: _('Infrastructure Master'),
       icon: Settings,
-      description: 'Updates cross-domain object references',
+      description: _('Updates cross-domain object references'),
       scope: 'Domain-wide',
       criticality: 'Medium',
       variant: 'secondary' as const
@@ -92,9 +93,9 @@ export default function FSMOManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">FSMO Role Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('FSMO Role Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Flexible Single Master Operations roles in Active Directory
+            {_('Manage Flexible Single Master Operations roles in Active Directory')}
           </p>
         </div>
       </div>
@@ -103,11 +104,11 @@ export default function FSMOManagement () {
       <div className="flex items-center gap-2">
         <Button onClick={refresh} variant="outline" className="flex items-center gap-2">
           <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-          Refresh Roles
+          {_('Refresh Roles')}
         </Button>
         <Button onClick={() => setTransferDialogOpen(true)} className="flex items-center gap-2">
           <ArrowRight className="h-4 w-4" />
-          Transfer Role
+          {_('Transfer Role')}
         </Button>
         <Button
           onClick={() => setSeizeDialogOpen(true)}
@@ -115,7 +116,7 @@ export default function FSMOManagement () {
           className="flex items-center gap-2"
         >
           <AlertTriangle className="h-4 w-4" />
-          Seize Role
+          {_('Seize Role')}
         </Button>
       </div>
 
@@ -170,11 +171,11 @@ export default function FSMOManagement () {
                 </CardHeader>
                 <CardContent className="space-y-3">
                   <div className="flex items-center justify-between text-sm">
-                    <span className="text-muted-foreground">Scope:</span>
+                    <span className="text-muted-foreground">{_('Scope:')}</span>
                     <Badge variant="outline">{roleInfo.scope}</Badge>
                   </div>
                   <div className="flex items-center justify-between text-sm">
-                    <span className="text-muted-foreground">Current Holder:</span>
+                    <span className="text-muted-foreground">{_('Current Holder:')}</span>
                     <div className="flex items-center gap-1">
                       <Server className="h-3 w-3" />
                       <span className="font-mono text-xs">{holder}</span>
@@ -190,7 +191,7 @@ export default function FSMOManagement () {
                       }}
                       className="flex-1"
                     >
-                      Transfer
+                      {_('Transfer')}
                     </Button>
                     <Button
                       size="sm"
@@ -201,7 +202,7 @@ export default function FSMOManagement () {
                       }}
                       className="flex-1"
                     >
-                      Seize
+                      {_('Seize')}
                     </Button>
                   </div>
                 </CardContent>
@@ -214,12 +215,12 @@ export default function FSMOManagement () {
         <Card>
           <CardContent className="text-center py-8">
             <Server className="mx-auto h-12 w-12 text-muted-foreground" />
-            <h3 className="mt-2 text-sm font-semibold">No FSMO Data</h3>
+            <h3 className="mt-2 text-sm font-semibold">{_('No FSMO Data')}</h3>
             <p className="mt-1 text-sm text-muted-foreground">
-              Unable to load FSMO role information
+              {_('Unable to load FSMO role information')}
             </p>
             <Button onClick={refresh} className="mt-4">
-              Retry
+              {_('Retry')}
             </Button>
           </CardContent>
         </Card>
@@ -228,29 +229,29 @@ export default function FSMOManagement () {
       {/* Information Card */}
       <Card>
         <CardHeader>
-          <CardTitle>About FSMO Roles</CardTitle>
+          <CardTitle>{_('About FSMO Roles')}</CardTitle>
           <CardDescription>
-            Understanding Flexible Single Master Operations in Active Directory
+            {_('Understanding Flexible Single Master Operations in Active Directory')}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
-              <h4 className="font-medium mb-2">Transfer vs Seize</h4>
+              <h4 className="font-medium mb-2">{_('Transfer vs Seize')}</h4>
               <ul className="space-y-1 text-sm text-muted-foreground">
-                <li><strong>Transfer:</strong> Graceful handover to another DC</li>
-                <li><strong>Seize:</strong> Forceful takeover (use only when transfer fails)</li>
-                <li>Always try transfer first</li>
-                <li>Seizing can cause replication issues</li>
+                <li><strong>{_('Transfer:')}</strong>{' '}{_('Graceful handover to another DC')}</li>
+                <li><strong>{_('Seize:')}</strong>{' '}{_('Forceful takeover (use only when transfer fails)')}</li>
+                <li>{_('Always try transfer first')}</li>
+                <li>{_('Seizing can cause replication issues')}</li>
               </ul>
             </div>
             <div>
-              <h4 className="font-medium mb-2">Best Practices</h4>
+              <h4 className="font-medium mb-2">{_('Best Practices')}</h4>
               <ul className="space-y-1 text-sm text-muted-foreground">
-                <li>Monitor role holders regularly</li>
-                <li>Plan role placement strategically</li>
-                <li>Document role changes</li>
-                <li>Test after role transfers</li>
+                <li>{_('Monitor role holders regularly')}</li>
+                <li>{_('Plan role placement strategically')}</li>
+                <li>{_('Document role changes')}</li>
+                <li>{_('Test after role transfers')}</li>
               </ul>
             </div>
           </div>
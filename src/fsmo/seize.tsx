@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -21,10 +21,14 @@ import {
   SelectValue
 } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { Loader2, AlertTriangle } from 'lucide-react'
 import { useFSMOMutations } from './hooks/useFSMO'
+import { FSMOAPI } from '@/services/fsmo-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { SeizeFSMORoleInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 interface SeizeRoleDialogProps {
   isOpen: boolean;
@@ -35,20 +39,20 @@ interface SeizeRoleDialogProps {
 
 const seizeRoleSchema = z.object({
   role: z.enum(['SchemaMaster', 'DomainNamingMaster', 'PDCEmulator', 'RIDMaster', 'InfrastructureMaster'], {
-    required_error: 'FSMO role is required'
+    required_error: _('FSMO role is required')
   }),
   confirmationText: z.string()
-    .min(1, 'Confirmation text is required')
+    .min(1, _('Confirmation text is required'))
 })
 
 type SeizeRoleFormData = z.infer<typeof seizeRoleSchema>;
 
 const fsmoRoleOptions = [
-  { value: 'SchemaMaster', label: 'Schema Master', scope: 'Forest-wide', risk: 'High' },
-  { value: 'DomainNamingMaster', label: 'Domain Naming Master', scope: 'Forest-wide', risk: 'High' },
-  { value: 'PDCEmulator', label: 'PDC Emulator', scope: 'Domain-wide', risk: 'Critical' },
-  { value: 'RIDMaster', label: 'RID Master', scope: 'Domain-wide', risk: 'Medium' },
-  { value: 'InfrastructureMaster', label: 'Infrastructure Master', scope: 'Domain-wide', risk: 'Medium' }
+  { value: 'SchemaMaster', label: _('Schema Master'), scope: 'Forest-wide', risk: 'High' },
+  { value: 'DomainNamingMaster', label: _('Domain Naming Master'), scope: 'Forest-wide', risk: 'High' },
+  { value: 'PDCEmulator', label: _('PDC Emulator'), scope: 'Domain-wide', risk: 'Critical' },
+  { value: 'RIDMaster', label: _('RID Master'), scope: 'Domain-wide', risk: 'Medium' },
+  { value: 'InfrastructureMaster', label: _('Infrastructure Master'), scope: 'Domain-wide', risk: 'Medium' }
 ] as const
 
 export function SeizeRoleDialog ({
@@ -78,6 +82,8 @@ export function SeizeRoleDialog ({
   const selectedRole = watch('role')
   const confirmationText = watch('confirmationText')
 
+  const previewSeize = useCallback((api: PreviewScope) => api(FSMOAPI).seizeRole({ role: selectedRole }), [selectedRole])
+
   // Set preselected role when dialog opens
   useEffect(() => {
     if (preselectedRole && isOpen) {
@@ -89,7 +95,7 @@ export function SeizeRoleDialog ({
     () => {
       // Success callback
       const roleOption = fsmoRoleOptions.find(r => r.value === selectedRole)
-      toast.success(`${roleOption?.label} role seized successfully`)
+      toast.success(format(_('$0 role seized successfully'), roleOption?.label))
       resetForm()
       onRoleSeized?.()
       onClose()
@@ -113,7 +119,7 @@ export function SeizeRoleDialog ({
   const onSubmit = async (data: SeizeRoleFormData) => {
     const expectedConfirmation = 'SEIZE ROLE'
     if (data.confirmationText.toUpperCase() !== expectedConfirmation) {
-      setError(`You must type "${expectedConfirmation}" to confirm this dangerous operation`)
+      setError(format(_('You must type "$0" to confirm this dangerous operation'), expectedConfirmation))
       return
     }
 
@@ -142,11 +148,10 @@ export function SeizeRoleDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-destructive">
             <AlertTriangle className="h-4 w-4" />
-            Seize FSMO Role
+            {_('Seize FSMO Role')}
           </DialogTitle>
           <DialogDescription>
-            <strong>WARNING:</strong> Seizing an FSMO role is a forceful operation that should only be used
-            when normal transfer fails or the current role holder is permanently offline.
+            <strong>{_('WARNING:')}</strong>{' '}{_('Seizing an FSMO role is a forceful operation that should only be used when normal transfer fails or the current role holder is permanently offline.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -154,15 +159,15 @@ export function SeizeRoleDialog ({
           <Alert variant="destructive">
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              <strong>DANGER:</strong> Seizing FSMO roles can cause serious problems:
+              <strong>{_('DANGER:')}</strong>{' '}{_('Seizing FSMO roles can cause serious problems:')}
               <ul className="mt-2 list-disc list-inside text-sm space-y-1">
-                <li>Replication conflicts and data inconsistency</li>
-                <li>Service interruptions and authentication failures</li>
-                <li>Permanent damage to Active Directory</li>
-                <li>Loss of data or corrupted directory</li>
+                <li>{_('Replication conflicts and data inconsistency')}</li>
+                <li>{_('Service interruptions and authentication failures')}</li>
+                <li>{_('Permanent damage to Active Directory')}</li>
+                <li>{_('Loss of data or corrupted directory')}</li>
               </ul>
               <div className="mt-2 font-medium">
-                Only proceed if the current role holder is permanently offline and transfer is impossible!
+                {_('Only proceed if the current role holder is permanently offline and transfer is impossible!')}
               </div>
             </AlertDescription>
           </Alert>
@@ -174,13 +179,13 @@ export function SeizeRoleDialog ({
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="role">FSMO Role *</Label>
+            <Label htmlFor="role">{_('FSMO Role *')}</Label>
             <Select
               value={selectedRole}
               onValueChange={(value) => setValue('role', value as SeizeRoleFormData['role'])}
             >
               <SelectTrigger>
-                <SelectValue placeholder="Select FSMO role" />
+                <SelectValue placeholder={_('Select FSMO role')} />
               </SelectTrigger>
               <SelectContent>
                 {fsmoRoleOptions.map((option) => (
@@ -188,7 +193,7 @@ export function SeizeRoleDialog ({
                     <div className="flex flex-col">
                       <span>{option.label}</span>
                       <span className="text-xs text-muted-foreground">
-                        {option.scope} • Risk: {option.risk}
+                        {format(_('$0 • Risk: $1'), option.scope, option.risk)}
                       </span>
                     </div>
                   </SelectItem>
@@ -204,11 +209,11 @@ export function SeizeRoleDialog ({
             <Alert variant="destructive">
               <AlertDescription>
                 <div className="space-y-1">
-                  <div><strong>Role:</strong> {selectedRoleInfo.label}</div>
-                  <div><strong>Scope:</strong> {selectedRoleInfo.scope}</div>
-                  <div><strong>Risk Level:</strong> {selectedRoleInfo.risk}</div>
+                  <div><strong>{_('Role:')}</strong> {selectedRoleInfo.label}</div>
+                  <div><strong>{_('Scope:')}</strong> {selectedRoleInfo.scope}</div>
+                  <div><strong>{_('Risk Level:')}</strong> {selectedRoleInfo.risk}</div>
                   <div className="text-sm mt-2">
-                    This will forcefully seize the role from the current holder without coordination.
+                    {_('This will forcefully seize the role from the current holder without coordination.')}
                   </div>
                 </div>
               </AlertDescription>
@@ -217,12 +222,12 @@ export function SeizeRoleDialog ({
 
           <div className="space-y-2">
             <Label htmlFor="confirmationText">
-              Type "SEIZE ROLE" to confirm this dangerous operation *
+              {_('Type "SEIZE ROLE" to confirm this dangerous operation *')}
             </Label>
             <Input
               id="confirmationText"
               {...register('confirmationText')}
-              placeholder="SEIZE ROLE"
+              placeholder={_('SEIZE ROLE')}
               className={`${errors.confirmationText ? 'border-destructive' : ''} ${
                 confirmationText && !isConfirmationValid ? 'border-destructive' : ''
               }`}
@@ -231,26 +236,28 @@ export function SeizeRoleDialog ({
               <p className="text-sm text-destructive">{errors.confirmationText.message}</p>
             )}
             <p className="text-sm text-muted-foreground">
-              This confirmation helps prevent accidental role seizures
+              {_('This confirmation helps prevent accidental role seizures')}
             </p>
           </div>
 
           <Alert>
             <AlertDescription>
-              <strong>Before seizing, ensure:</strong>
+              <strong>{_('Before seizing, ensure:')}</strong>
               <ul className="mt-1 list-disc list-inside text-sm space-y-1">
-                <li>Current role holder is permanently offline</li>
-                <li>Normal transfer has been attempted and failed</li>
-                <li>You have a complete backup of Active Directory</li>
-                <li>This action is approved by senior administrators</li>
-                <li>You understand the risks and consequences</li>
+                <li>{_('Current role holder is permanently offline')}</li>
+                <li>{_('Normal transfer has been attempted and failed')}</li>
+                <li>{_('You have a complete backup of Active Directory')}</li>
+                <li>{_('This action is approved by senior administrators')}</li>
+                <li>{_('You understand the risks and consequences')}</li>
               </ul>
             </AlertDescription>
           </Alert>
 
+          <CommandPreview operation={previewSeize} disabled={!selectedRole} />
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button
               type="submit"
@@ -258,7 +265,7 @@ export function SeizeRoleDialog ({
               disabled={loading || !isConfirmationValid}
             >
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {loading ? 'Seizing...' : 'Seize Role'}
+              {loading ? _('Seizing...') : _('Seize Role')}
             </Button>
           </DialogFooter>
         </form>
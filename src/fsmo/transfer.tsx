@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -21,10 +21,14 @@ import {
   SelectValue
 } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { Loader2, ArrowRight, Info } from 'lucide-react'
 import { useFSMOMutations } from './hooks/useFSMO'
+import { FSMOAPI } from '@/services/fsmo-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { TransferFSMORoleInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 interface TransferRoleDialogProps {
   isOpen: boolean;
@@ -35,21 +39,21 @@ interface TransferRoleDialogProps {
 
 const transferRoleSchema = z.object({
   role: z.enum(['SchemaMaster', 'DomainNamingMaster', 'PDCEmulator', 'RIDMaster', 'InfrastructureMaster'], {
-    required_error: 'FSMO role is required'
+    required_error: _('FSMO role is required')
   }),
   targetServer: z.string()
-    .min(1, 'Target server is required')
-    .max(100, 'Server name must be less than 100 characters')
+    .min(1, _('Target server is required'))
+    .max(100, _('Server name must be less than 100 characters'))
 })
 
 type TransferRoleFormData = z.infer<typeof transferRoleSchema>;
 
 const fsmoRoleOptions = [
-  { value: 'SchemaMaster', label: 'Schema Master', scope: 'Forest-wide' },
-  { value: 'DomainNamingMaster', label: 'Domain Naming Master', scope: 'Forest-wide' },
-  { value: 'PDCEmulator', label: 'PDC Emulator', scope: 'Domain-wide' },
-  { value: 'RIDMaster', label: 'RID Master', scope: 'Domain-wide' },
-  { value: 'InfrastructureMaster', label: 'Infrastructure Master', scope: 'Domain-wide' }
+  { value: 'SchemaMaster', label: _('Schema Master'), scope: 'Forest-wide' },
+  { value: 'DomainNamingMaster', label: _('Domain Naming Master'), scope: 'Forest-wide' },
+  { value: 'PDCEmulator', label: _('PDC Emulator'), scope: 'Domain-wide' },
+  { value: 'RIDMaster', label: _('RID Master'), scope: 'Domain-wide' },
+  { value: 'InfrastructureMaster', label: _('Infrastructure Master'), scope: 'Domain-wide' }
 ] as const
 
 export function TransferRoleDialog ({
@@ -77,6 +81,12 @@ export function TransferRoleDialog ({
   })
 
   const selectedRole = watch('role')
+  const targetServer = watch('targetServer')
+
+  const previewTransfer = useCallback(
+    (api: PreviewScope) => api(FSMOAPI).transferRole({ role: selectedRole, targetServer: targetServer?.trim() }),
+    [selectedRole, targetServer]
+  )
 
   // Set preselected role when dialog opens
   useEffect(() => {
@@ -89,7 +99,7 @@ export function TransferRoleDialog ({
     () => {
       // Success callback
       const roleOption = fsmoRoleOptions.find(r => r.value === selectedRole)
-      toast.success(`${roleOption?.label} role transferred successfully`)
+      toast.success(format(_('$0 role transferred successfully'), roleOption?.label))
       resetForm()
       onRoleTransferred?.()
       onClose()
@@ -136,11 +146,10 @@ export function TransferRoleDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <ArrowRight className="h-4 w-4" />
-            Transfer FSMO Role
+            {_('Transfer FSMO Role')}
           </DialogTitle>
           <DialogDescription>
-            Transfer an FSMO role to another domain controller. This is a graceful operation that
-            coordinates with the target server.
+            {_('Transfer an FSMO role to another domain controller. This is a graceful operation that coordinates with the target server.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -152,13 +161,13 @@ export function TransferRoleDialog ({
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="role">FSMO Role *</Label>
+            <Label htmlFor="role">{_('FSMO Role *')}</Label>
             <Select
               value={selectedRole}
               onValueChange={(value) => setValue('role', value as TransferRoleFormData['role'])}
             >
               <SelectTrigger>
-                <SelectValue placeholder="Select FSMO role" />
+                <SelectValue placeholder={_('Select FSMO role')} />
               </SelectTrigger>
               <SelectContent>
                 {fsmoRoleOptions.map((option) => (
@@ -177,18 +186,18 @@ export function TransferRoleDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="targetServer">Target Server *</Label>
+            <Label htmlFor="targetServer">{_('Target Server *')}</Label>
             <Input
               id="targetServer"
               {...register('targetServer')}
-              placeholder="dc2.domain.com or DC2"
+              placeholder={_('dc2.domain.com or DC2')}
               className={errors.targetServer ? 'border-destructive' : ''}
             />
             {errors.targetServer && (
               <p className="text-sm text-destructive">{errors.targetServer.message}</p>
             )}
             <p className="text-sm text-muted-foreground">
-              Enter the hostname or FQDN of the target domain controller
+              {_('Enter the hostname or FQDN of the target domain controller')}
             </p>
           </div>
 
@@ -197,11 +206,10 @@ export function TransferRoleDialog ({
               <Info className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-1">
-                  <div><strong>Role:</strong> {selectedRoleInfo.label}</div>
-                  <div><strong>Scope:</strong> {selectedRoleInfo.scope}</div>
+                  <div><strong>{_('Role:')}</strong> {selectedRoleInfo.label}</div>
+                  <div><strong>{_('Scope:')}</strong> {selectedRoleInfo.scope}</div>
                   <div className="text-sm">
-                    This operation will gracefully transfer the role to the target server.
-                    Both servers must be online and reachable.
+                    {_('This operation will gracefully transfer the role to the target server. Both servers must be online and reachable.')}
                   </div>
                 </div>
               </AlertDescription>
@@ -210,23 +218,25 @@ export function TransferRoleDialog ({
 
           <Alert>
             <AlertDescription>
-              <strong>Important:</strong> Ensure the target domain controller is:
+              <strong>{_('Important:')}</strong>{' '}{_('Ensure the target domain controller is:')}
               <ul className="mt-1 list-disc list-inside text-sm space-y-1">
-                <li>Online and reachable</li>
-                <li>A member of the same domain/forest</li>
-                <li>Running Active Directory Domain Services</li>
-                <li>Has sufficient resources and connectivity</li>
+                <li>{_('Online and reachable')}</li>
+                <li>{_('A member of the same domain/forest')}</li>
+                <li>{_('Running Active Directory Domain Services')}</li>
+                <li>{_('Has sufficient resources and connectivity')}</li>
               </ul>
             </AlertDescription>
           </Alert>
 
+          <CommandPreview operation={previewTransfer} disabled={!selectedRole || !targetServer?.trim()} />
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={loading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {loading ? 'Transferring...' : 'Transfer Role'}
+              {loading ? _('Transferring...') : _('Transfer Role')}
             </Button>
           </DialogFooter>
         </form>
@@ -9,10 +9,11 @@ import { z } from 'zod'
 import { useGPOMutations } from './hooks/useGPO'
 import { toast } from 'sonner'
 import type { BackupGPOInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const backupGPOSchema = z.object({
-  name: z.string().min(1, 'GPO name is required'),
-  backupPath: z.string().min(1, 'Backup path is required')
+  name: z.string().min(1, _('GPO name is required')),
+  backupPath: z.string().min(1, _('Backup path is required'))
 })
 
 type BackupGPOFormData = z.infer<typeof backupGPOSchema>;
@@ -41,11 +42,11 @@ export function BackupGPODialog ({
 
   const { backupGPO } = useGPOMutations(
     () => {
-      toast.success('GPO backup completed successfully')
+      toast.success(_('GPO backup completed successfully'))
       onBackupCompleted()
     },
     (error) => {
-      toast.error(`Failed to backup GPO: ${error}`)
+      toast.error(format(_('Failed to backup GPO: $0'), error))
     }
   )
 
@@ -74,15 +75,15 @@ export function BackupGPODialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Backup GPO</DialogTitle>
+          <DialogTitle>{_('Backup GPO')}</DialogTitle>
           <DialogDescription>
-            Create a backup of a Group Policy Object.
+            {_('Create a backup of a Group Policy Object.')}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="name">GPO Name *</Label>
+            <Label htmlFor="name">{_('GPO Name *')}</Label>
             <Input
               id="name"
               {...register('name')}
@@ -95,7 +96,7 @@ export function BackupGPODialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="backupPath">Backup Path *</Label>
+            <Label htmlFor="backupPath">{_('Backup Path *')}</Label>
             <Input
               id="backupPath"
               {...register('backupPath')}
@@ -109,10 +110,10 @@ export function BackupGPODialog ({
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Backing up...' : 'Backup GPO'}
+              {isSubmitting ? _('Backing up...') : _('Backup GPO')}
             </Button>
           </DialogFooter>
         </form>
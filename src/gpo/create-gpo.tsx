@@ -12,17 +12,18 @@ import { z } from 'zod'
 import { useGPOMutations } from './hooks/useGPO'
 import { toast } from 'sonner'
 import type { CreateGPOInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const createGPOSchema = z.object({
   name: z.string()
-    .min(1, 'GPO name is required')
-    .max(255, 'GPO name must be less than 255 characters')
-    .regex(/^[a-zA-Z0-9\-_\s]+$/, 'GPO name can only contain alphanumeric characters, hyphens, underscores, and spaces'),
+    .min(1, _('GPO name is required'))
+    .max(255, _('GPO name must be less than 255 characters'))
+    .regex(/^[a-zA-Z0-9\-_\s]+$/, _('GPO name can only contain alphanumeric characters, hyphens, underscores, and spaces')),
   displayName: z.string()
-    .min(1, 'Display name is required')
-    .max(255, 'Display name must be less than 255 characters'),
+    .min(1, _('Display name is required'))
+    .max(255, _('Display name must be less than 255 characters')),
   description: z.string()
-    .max(1024, 'Description must be less than 1024 characters')
+    .max(1024, _('Description must be less than 1024 characters'))
     .optional()
 })
 
@@ -52,11 +53,11 @@ export function CreateGPODialog ({
 
   const { createGPO } = useGPOMutations(
     () => {
-      toast.success('GPO created successfully')
+      toast.success(_('GPO created successfully'))
       onGPOCreated()
     },
     (error) => {
-      toast.error(`Failed to create GPO: ${error}`)
+      toast.error(format(_('Failed to create GPO: $0'), error))
     }
   )
 
@@ -86,23 +87,22 @@ export function CreateGPODialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Create Group Policy Object</DialogTitle>
+          <DialogTitle>{_('Create Group Policy Object')}</DialogTitle>
           <DialogDescription>
-            Create a new GPO that can be used to manage user and computer settings.
+            {_('Create a new GPO that can be used to manage user and computer settings.')}
           </DialogDescription>
         </DialogHeader>
 
         <Alert className="border-blue-200 bg-blue-50">
           <Info className="h-4 w-4 text-blue-600" />
           <AlertDescription className="text-blue-800">
-            <strong>Note:</strong> After creating the GPO, you'll need to link it to
-            organizational units or domains to apply its policies to users and computers.
+            <strong>{_('Note:')}</strong>{' '}{_("After creating the GPO, you'll need to link it to organizational units or domains to apply its policies to users and computers.")}
           </AlertDescription>
         </Alert>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="name">GPO Name *</Label>
+            <Label htmlFor="name">{_('GPO Name *')}</Label>
             <Input
               id="name"
               {...register('name')}
@@ -113,32 +113,32 @@ export function CreateGPODialog ({
               <p className="text-sm text-red-500">{errors.name.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              Internal name for the GPO (used for commands and references)
+              {_('Internal name for the GPO (used for commands and references)')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="displayName">Display Name *</Label>
+            <Label htmlFor="displayName">{_('Display Name *')}</Label>
             <Input
               id="displayName"
               {...register('displayName')}
-              placeholder="My Custom Policy"
+              placeholder={_('My Custom Policy')}
               className={errors.displayName ? 'border-red-500' : ''}
             />
             {errors.displayName && (
               <p className="text-sm text-red-500">{errors.displayName.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              Friendly name displayed in management tools
+              {_('Friendly name displayed in management tools')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
+            <Label htmlFor="description">{_('Description')}</Label>
             <Textarea
               id="description"
               {...register('description')}
-              placeholder="Brief description of what this GPO does..."
+              placeholder={_('Brief description of what this GPO does...')}
               rows={3}
               className={errors.description ? 'border-red-500' : ''}
             />
@@ -146,26 +146,26 @@ export function CreateGPODialog ({
               <p className="text-sm text-red-500">{errors.description.message}</p>
             )}
             <p className="text-xs text-muted-foreground">
-              Optional description to help identify the purpose of this GPO
+              {_('Optional description to help identify the purpose of this GPO')}
             </p>
           </div>
 
           <div className="bg-muted/50 p-3 rounded-lg">
-            <h4 className="text-sm font-medium mb-2">Next Steps:</h4>
+            <h4 className="text-sm font-medium mb-2">{_('Next Steps:')}</h4>
             <ul className="text-xs text-muted-foreground space-y-1">
-              <li>• GPO will be created with default settings</li>
-              <li>• Use Group Policy Management Console to configure policies</li>
-              <li>• Link the GPO to OUs, domains, or sites to apply policies</li>
-              <li>• Test policies in a non-production environment first</li>
+              <li>{_('• GPO will be created with default settings')}</li>
+              <li>{_('• Use Group Policy Management Console to configure policies')}</li>
+              <li>{_('• Link the GPO to OUs, domains, or sites to apply policies')}</li>
+              <li>{_('• Test policies in a non-production environment first')}</li>
             </ul>
           </div>
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Creating...' : 'Create GPO'}
+              {isSubmitting ? _('Creating...') : _('Create GPO')}
             </Button>
           </DialogFooter>
         </form>
@@ -1,18 +1,22 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useGPOMutations } from './hooks/useGPO'
+import { GPOAPI } from '@/services/gpo-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { DeleteGPOLinkInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const deleteLinkSchema = z.object({
-  containerDN: z.string().min(1, 'Container DN is required'),
-  gpoName: z.string().min(1, 'GPO name is required')
+  containerDN: z.string().min(1, _('Container DN is required')),
+  gpoName: z.string().min(1, _('GPO name is required'))
 })
 
 type DeleteLinkFormData = z.infer<typeof deleteLinkSchema>;
@@ -34,6 +38,7 @@ export function DeleteLinkDialog ({
     register,
     handleSubmit,
     reset,
+    watch,
     formState: { errors }
   } = useForm<DeleteLinkFormData>({
     resolver: zodResolver(deleteLinkSchema)
@@ -41,14 +46,21 @@ export function DeleteLinkDialog ({
 
   const { deleteGPOLink } = useGPOMutations(
     () => {
-      toast.success('GPO link deleted successfully')
+      toast.success(_('GPO link deleted successfully'))
       onLinkDeleted()
     },
     (error) => {
-      toast.error(`Failed to delete GPO link: ${error}`)
+      toast.error(format(_('Failed to delete GPO link: $0'), error))
     }
   )
 
+  const [containerDN, gpoName] = watch(['containerDN', 'gpoName'])
+
+  const previewDelete = useCallback(
+    (api: PreviewScope) => api(GPOAPI).deleteGPOLink({ containerDN, gpoName }),
+    [containerDN, gpoName]
+  )
+
   const onSubmit = async (data: DeleteLinkFormData) => {
     setIsSubmitting(true)
     try {
@@ -74,15 +86,15 @@ export function DeleteLinkDialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Delete GPO Link</DialogTitle>
+          <DialogTitle>{_('Delete GPO Link')}</DialogTitle>
           <DialogDescription>
-            Remove a Group Policy Object link from a container.
+            {_('Remove a Group Policy Object link from a container.')}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="containerDN">Container DN *</Label>
+            <Label htmlFor="containerDN">{_('Container DN *')}</Label>
             <Input
               id="containerDN"
               {...register('containerDN')}
@@ -95,7 +107,7 @@ export function DeleteLinkDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="gpoName">GPO Name *</Label>
+            <Label htmlFor="gpoName">{_('GPO Name *')}</Label>
             <Input
               id="gpoName"
               {...register('gpoName')}
@@ -107,12 +119,14 @@ export function DeleteLinkDialog ({
             )}
           </div>
 
+          <CommandPreview operation={previewDelete} disabled={!containerDN || !gpoName} />
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" variant="destructive" disabled={isSubmitting}>
-              {isSubmitting ? 'Deleting Link...' : 'Delete Link'}
+              {isSubmitting ? _('Deleting Link...') : _('Delete Link')}
             </Button>
           </DialogFooter>
         </form>
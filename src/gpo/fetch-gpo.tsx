@@ -9,10 +9,11 @@ import { z } from 'zod'
 import { useGPOMutations } from './hooks/useGPO'
 import { toast } from 'sonner'
 import type { FetchGPOInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const fetchGPOSchema = z.object({
-  name: z.string().min(1, 'GPO name is required'),
-  targetPath: z.string().min(1, 'Target path is required')
+  name: z.string().min(1, _('GPO name is required')),
+  targetPath: z.string().min(1, _('Target path is required'))
 })
 
 type FetchGPOFormData = z.infer<typeof fetchGPOSchema>;
@@ -41,11 +42,11 @@ export function FetchGPODialog ({
 
   const { fetchGPO } = useGPOMutations(
     () => {
-      toast.success('GPO fetch completed successfully')
+      toast.success(_('GPO fetch completed successfully'))
       onFetchCompleted()
     },
     (error) => {
-      toast.error(`Failed to fetch GPO: ${error}`)
+      toast.error(format(_('Failed to fetch GPO: $0'), error))
     }
   )
 
@@ -74,15 +75,15 @@ export function FetchGPODialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Fetch GPO</DialogTitle>
+          <DialogTitle>{_('Fetch GPO')}</DialogTitle>
           <DialogDescription>
-            Download a Group Policy Object to a local directory.
+            {_('Download a Group Policy Object to a local directory.')}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="name">GPO Name *</Label>
+            <Label htmlFor="name">{_('GPO Name *')}</Label>
             <Input
               id="name"
               {...register('name')}
@@ -95,7 +96,7 @@ export function FetchGPODialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="targetPath">Target Directory *</Label>
+            <Label htmlFor="targetPath">{_('Target Directory *')}</Label>
             <Input
               id="targetPath"
               {...register('targetPath')}
@@ -109,10 +110,10 @@ export function FetchGPODialog ({
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Fetching...' : 'Fetch GPO'}
+              {isSubmitting ? _('Fetching...') : _('Fetch GPO')}
             </Button>
           </DialogFooter>
         </form>
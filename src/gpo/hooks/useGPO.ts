@@ -16,6 +16,7 @@ import type {
   SetGPOInheritanceInput,
   GPOContainer
 } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseGPOsReturn {
   gpos: SambaGPO[];
@@ -226,7 +227,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       invalidateQueries()
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create GPO'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to create GPO')
       onError?.(errorMessage)
       throw err
     }
@@ -239,7 +240,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       invalidateQueries()
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update GPO'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to update GPO')
       onError?.(errorMessage)
       throw err
     }
@@ -251,7 +252,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       invalidateQueries()
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete GPO'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to delete GPO')
       onError?.(errorMessage)
       throw err
     }
@@ -262,7 +263,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       await GPOAPI.backupGPO(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to backup GPO'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to backup GPO')
       onError?.(errorMessage)
       throw err
     }
@@ -274,7 +275,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       invalidateQueries()
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to restore GPO'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to restore GPO')
       onError?.(errorMessage)
       throw err
     }
@@ -285,7 +286,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       await GPOAPI.fetchGPO(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch GPO'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to fetch GPO')
       onError?.(errorMessage)
       throw err
     }
@@ -297,7 +298,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       invalidateQueries()
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to set GPO link'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to set GPO link')
       onError?.(errorMessage)
       throw err
     }
@@ -309,7 +310,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       invalidateQueries()
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete GPO link'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to delete GPO link')
       onError?.(errorMessage)
       throw err
     }
@@ -321,7 +322,7 @@ export const useGPOMutations = (onSuccess?: () => void, onError?: (error: string
       invalidateQueries()
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to set GPO inheritance'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to set GPO inheritance')
       onError?.(errorMessage)
       throw err
     }
@@ -23,6 +23,9 @@ import {
   Layers
 } from 'lucide-react'
 import { BackButton } from '../common'
+import { CapabilityNotice } from '@/components/layout/capability-notice'
+import { useCapabilities } from '@/components/layout/use-capabilities'
+import { GPOAPI } from '@/services/gpo-api'
 import { DataTable } from '@/components/ui/data-table'
 import { useGPOs, useGPOContainers } from './hooks/useGPO'
 import { CreateGPODialog } from './create-gpo'
@@ -36,6 +39,7 @@ import { InheritanceDialog } from './inheritance'
 import { ShowGPODialog } from './show-gpo'
 import type { SambaGPO } from '@/types/samba'
 import type { DataTableColumn } from '@/components/ui/data-table'
+import { _ } from '@/lib/i18n'
 
 export default function GPOManagement () {
   const [searchTerm, setSearchTerm] = useState('')
@@ -47,6 +51,7 @@ export default function GPOManagement () {
   const [backupDialogOpen, setBackupDialogOpen] = useState(false)
   const [restoreDialogOpen, setRestoreDialogOpen] = useState(false)
   const [fetchDialogOpen, setFetchDialogOpen] = useState(false)
+  const [backupSupport, restoreSupport] = useCapabilities([GPOAPI.requirements.backup, GPOAPI.requirements.restore])
   const [setLinkDialogOpen, setSetLinkDialogOpen] = useState(false)
   const [deleteLinkDialogOpen, setDeleteLinkDialogOpen] = useState(false)
   const [inheritanceDialogOpen, setInheritanceDialogOpen] = useState(false)
@@ -67,28 +72,28 @@ export default function GPOManagement () {
   const gpoColumns: DataTableColumn<SambaGPO>[] = [
     {
       key: 'name',
-      header: 'Name',
+      header: _('Name'),
       render: (gpo) => (
         <div className="font-medium">{gpo.name}</div>
       )
     },
     {
       key: 'displayName',
-      header: 'Display Name',
+      header: _('Display Name'),
       render: (gpo) => (
         <div>{gpo.displayName}</div>
       )
     },
     {
       key: 'guid',
-      header: 'GUID',
+      header: _('GUID'),
       render: (gpo) => (
         <div className="font-mono text-xs">{gpo.guid}</div>
       )
     },
     {
       key: 'status',
-      header: 'Status',
+      header: _('Status'),
       render: (gpo) => (
         <Badge
           variant={gpo.status === 'Enabled' ? 'default' : 'secondary'}
@@ -100,14 +105,14 @@ export default function GPOManagement () {
     },
     {
       key: 'version',
-      header: 'Version',
+      header: _('Version'),
       render: (gpo) => (
         <div className="text-center">{gpo.version}</div>
       )
     },
     {
       key: 'actions',
-      header: 'Actions',
+      header: _('Actions'),
       render: (gpo) => (
         <div className="flex items-center gap-2">
           <Button
@@ -140,9 +145,9 @@ export default function GPOManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">GPO Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('GPO Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Group Policy Objects for Active Directory
+            {_('Manage Group Policy Objects for Active Directory')}
           </p>
         </div>
       </div>
@@ -151,20 +156,20 @@ export default function GPOManagement () {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total GPOs</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Total GPOs')}</CardTitle>
             <FolderOpen className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{gpos.length}</div>
             <p className="text-xs text-muted-foreground">
-              Group Policy Objects
+              {_('Group Policy Objects')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Enabled</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Enabled')}</CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -172,27 +177,27 @@ export default function GPOManagement () {
               {gpos.filter(g => g.status === 'Enabled').length}
             </div>
             <p className="text-xs text-muted-foreground">
-              Active policies
+              {_('Active policies')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Containers</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Containers')}</CardTitle>
             <Database className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{containers.length}</div>
             <p className="text-xs text-muted-foreground">
-              Available containers
+              {_('Available containers')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Linked</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Linked')}</CardTitle>
             <Link className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -200,7 +205,7 @@ export default function GPOManagement () {
               {gpos.filter(g => g.linkedOUs.length > 0).length}
             </div>
             <p className="text-xs text-muted-foreground">
-              Linked GPOs
+              {_('Linked GPOs')}
             </p>
           </CardContent>
         </Card>
@@ -211,21 +216,21 @@ export default function GPOManagement () {
           <TabsList>
             <TabsTrigger value="operations" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
-              Operations
+              {_('Operations')}
             </TabsTrigger>
             <TabsTrigger value="gpos" className="flex items-center gap-2">
               <FolderOpen className="h-4 w-4" />
-              GPO List
+              {_('GPO List')}
             </TabsTrigger>
             <TabsTrigger value="containers" className="flex items-center gap-2">
               <Database className="h-4 w-4" />
-              Containers
+              {_('Containers')}
             </TabsTrigger>
           </TabsList>
 
           <div className="flex items-center gap-2">
             <Button onClick={refreshGPOs} variant="outline" size="sm">
-              Refresh
+              {_('Refresh')}
             </Button>
           </div>
         </div>
@@ -236,10 +241,10 @@ export default function GPOManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Plus className="h-5 w-5" />
-                  Create GPO
+                  {_('Create GPO')}
                 </CardTitle>
                 <CardDescription>
-                  Create a new Group Policy Object
+                  {_('Create a new Group Policy Object')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -247,7 +252,7 @@ export default function GPOManagement () {
                   onClick={() => setCreateDialogOpen(true)}
                   className="w-full"
                 >
-                  Create GPO
+                  {_('Create GPO')}
                 </Button>
               </CardContent>
             </Card>
@@ -256,10 +261,10 @@ export default function GPOManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Archive className="h-5 w-5" />
-                  Backup GPO
+                  {_('Backup GPO')}
                 </CardTitle>
                 <CardDescription>
-                  Backup existing Group Policy Object
+                  {_('Backup existing Group Policy Object')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -267,9 +272,11 @@ export default function GPOManagement () {
                   onClick={() => setBackupDialogOpen(true)}
                   className="w-full"
                   variant="outline"
+                  disabled={backupSupport?.supported === false}
                 >
-                  Backup GPO
+                  {_('Backup GPO')}
                 </Button>
+                <CapabilityNotice status={backupSupport} className="mt-2" />
               </CardContent>
             </Card>
 
@@ -277,10 +284,10 @@ export default function GPOManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Upload className="h-5 w-5" />
-                  Restore GPO
+                  {_('Restore GPO')}
                 </CardTitle>
                 <CardDescription>
-                  Restore GPO from backup
+                  {_('Restore GPO from backup')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -288,9 +295,11 @@ export default function GPOManagement () {
                   onClick={() => setRestoreDialogOpen(true)}
                   className="w-full"
                   variant="outline"
+                  disabled={restoreSupport?.supported === false}
                 >
-                  Restore GPO
+                  {_('Restore GPO')}
                 </Button>
+                <CapabilityNotice status={restoreSupport} className="mt-2" />
               </CardContent>
             </Card>
 
@@ -298,10 +307,10 @@ export default function GPOManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Download className="h-5 w-5" />
-                  Fetch GPO
+                  {_('Fetch GPO')}
                 </CardTitle>
                 <CardDescription>
-                  Download GPO to local directory
+                  {_('Download GPO to local directory')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -310,7 +319,7 @@ export default function GPOManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Fetch GPO
+                  {_('Fetch GPO')}
                 </Button>
               </CardContent>
             </Card>
@@ -319,10 +328,10 @@ export default function GPOManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Link className="h-5 w-5" />
-                  Set Link
+                  {_('Set Link')}
                 </CardTitle>
                 <CardDescription>
-                  Link GPO to container
+                  {_('Link GPO to container')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -331,7 +340,7 @@ export default function GPOManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Set Link
+                  {_('Set Link')}
                 </Button>
               </CardContent>
             </Card>
@@ -340,10 +349,10 @@ export default function GPOManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <UnlinkIcon className="h-5 w-5" />
-                  Delete Link
+                  {_('Delete Link')}
                 </CardTitle>
                 <CardDescription>
-                  Remove GPO link from container
+                  {_('Remove GPO link from container')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -352,7 +361,7 @@ export default function GPOManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Delete Link
+                  {_('Delete Link')}
                 </Button>
               </CardContent>
             </Card>
@@ -361,10 +370,10 @@ export default function GPOManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Layers className="h-5 w-5" />
-                  Inheritance
+                  {_('Inheritance')}
                 </CardTitle>
                 <CardDescription>
-                  Manage GPO inheritance settings
+                  {_('Manage GPO inheritance settings')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -373,7 +382,7 @@ export default function GPOManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Set Inheritance
+                  {_('Set Inheritance')}
                 </Button>
               </CardContent>
             </Card>
@@ -383,9 +392,9 @@ export default function GPOManagement () {
         <TabsContent value="gpos">
           <Card>
             <CardHeader>
-              <CardTitle>Group Policy Objects</CardTitle>
+              <CardTitle>{_('Group Policy Objects')}</CardTitle>
               <CardDescription>
-                All GPOs configured in the domain
+                {_('All GPOs configured in the domain')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -394,7 +403,7 @@ export default function GPOManagement () {
                   <div className="relative flex-1 max-w-sm">
                     <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                     <Input
-                      placeholder="Search GPOs..."
+                      placeholder={_('Search GPOs...')}
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
                       className="pl-8"
@@ -402,7 +411,7 @@ export default function GPOManagement () {
                   </div>
                   <Button onClick={() => setCreateDialogOpen(true)}>
                     <Plus className="h-4 w-4 mr-2" />
-                    Create GPO
+                    {_('Create GPO')}
                   </Button>
                 </div>
 
@@ -419,9 +428,9 @@ export default function GPOManagement () {
         <TabsContent value="containers">
           <Card>
             <CardHeader>
-              <CardTitle>Available Containers</CardTitle>
+              <CardTitle>{_('Available Containers')}</CardTitle>
               <CardDescription>
-                Containers that can be linked to GPOs
+                {_('Containers that can be linked to GPOs')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -439,9 +448,9 @@ export default function GPOManagement () {
                   ? (
                 <div className="text-center py-8">
                   <Database className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-2 text-sm font-semibold">No Containers</h3>
+                  <h3 className="mt-2 text-sm font-semibold">{_('No Containers')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    No containers available for GPO linking
+                    {_('No containers available for GPO linking')}
                   </p>
                 </div>
                     )
@@ -471,11 +480,9 @@ export default function GPOManagement () {
         <Info className="h-4 w-4" />
         <AlertDescription>
           <div className="space-y-2">
-            <p className="font-medium">Group Policy Object Management</p>
+            <p className="font-medium">{_('Group Policy Object Management')}</p>
             <p className="text-sm">
-              This module provides comprehensive tools for managing GPOs in your
-              Active Directory environment. Use these operations carefully as GPO
-              changes can affect user and computer configurations domain-wide.
+              {_('This module provides comprehensive tools for managing GPOs in your Active Directory environment. Use these operations carefully as GPO changes can affect user and computer configurations domain-wide.')}
             </p>
           </div>
         </AlertDescription>
@@ -10,11 +10,12 @@ import { z } from 'zod'
 import { useGPOMutations } from './hooks/useGPO'
 import { toast } from 'sonner'
 import type { SetGPOInheritanceInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const inheritanceSchema = z.object({
-  containerDN: z.string().min(1, 'Container DN is required'),
+  containerDN: z.string().min(1, _('Container DN is required')),
   inheritance: z.enum(['Enabled', 'Disabled'], {
-    required_error: 'Inheritance setting is required'
+    required_error: _('Inheritance setting is required')
   })
 })
 
@@ -46,11 +47,11 @@ export function InheritanceDialog ({
 
   const { setGPOInheritance } = useGPOMutations(
     () => {
-      toast.success('GPO inheritance set successfully')
+      toast.success(_('GPO inheritance set successfully'))
       onInheritanceSet()
     },
     (error) => {
-      toast.error(`Failed to set GPO inheritance: ${error}`)
+      toast.error(format(_('Failed to set GPO inheritance: $0'), error))
     }
   )
 
@@ -79,15 +80,15 @@ export function InheritanceDialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Set GPO Inheritance</DialogTitle>
+          <DialogTitle>{_('Set GPO Inheritance')}</DialogTitle>
           <DialogDescription>
-            Configure Group Policy inheritance for a container.
+            {_('Configure Group Policy inheritance for a container.')}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="containerDN">Container DN *</Label>
+            <Label htmlFor="containerDN">{_('Container DN *')}</Label>
             <Input
               id="containerDN"
               {...register('containerDN')}
@@ -100,17 +101,17 @@ export function InheritanceDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="inheritance">Inheritance *</Label>
+            <Label htmlFor="inheritance">{_('Inheritance *')}</Label>
             <Select
               value={watch('inheritance') || ''}
               onValueChange={(value) => setValue('inheritance', value as InheritanceFormData['inheritance'])}
             >
               <SelectTrigger className={errors.inheritance ? 'border-red-500' : ''}>
-                <SelectValue placeholder="Select inheritance setting" />
+                <SelectValue placeholder={_('Select inheritance setting')} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="Enabled">Enabled</SelectItem>
-                <SelectItem value="Disabled">Disabled</SelectItem>
+                <SelectItem value="Enabled">{_('Enabled')}</SelectItem>
+                <SelectItem value="Disabled">{_('Disabled')}</SelectItem>
               </SelectContent>
             </Select>
             {errors.inheritance && (
@@ -120,10 +121,10 @@ export function InheritanceDialog ({
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Setting Inheritance...' : 'Set Inheritance'}
+              {isSubmitting ? _('Setting Inheritance...') : _('Set Inheritance')}
             </Button>
           </DialogFooter>
         </form>
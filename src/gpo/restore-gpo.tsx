@@ -1,18 +1,22 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useGPOMutations } from './hooks/useGPO'
+import { GPOAPI } from '@/services/gpo-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { RestoreGPOInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const restoreGPOSchema = z.object({
-  name: z.string().min(1, 'GPO name is required'),
-  backupPath: z.string().min(1, 'Backup path is required'),
+  name: z.string().min(1, _('GPO name is required')),
+  backupPath: z.string().min(1, _('Backup path is required')),
   newName: z.string().optional()
 })
 
@@ -35,6 +39,7 @@ export function RestoreGPODialog ({
     register,
     handleSubmit,
     reset,
+    watch,
     formState: { errors }
   } = useForm<RestoreGPOFormData>({
     resolver: zodResolver(restoreGPOSchema)
@@ -42,14 +47,21 @@ export function RestoreGPODialog ({
 
   const { restoreGPO } = useGPOMutations(
     () => {
-      toast.success('GPO restore completed successfully')
+      toast.success(_('GPO restore completed successfully'))
       onRestoreCompleted()
     },
     (error) => {
-      toast.error(`Failed to restore GPO: ${error}`)
+      toast.error(format(_('Failed to restore GPO: $0'), error))
     }
   )
 
+  const [name, backupPath, newName] = watch(['name', 'backupPath', 'newName'])
+
+  const previewRestore = useCallback(
+    (api: PreviewScope) => api(GPOAPI).restoreGPO({ name, backupPath, newName }),
+    [name, backupPath, newName]
+  )
+
   const onSubmit = async (data: RestoreGPOFormData) => {
     setIsSubmitting(true)
     try {
@@ -76,15 +88,15 @@ export function RestoreGPODialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Restore GPO</DialogTitle>
+          <DialogTitle>{_('Restore GPO')}</DialogTitle>
           <DialogDescription>
-            Restore a Group Policy Object from backup.
+            {_('Restore a Group Policy Object from backup.')}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="name">Original GPO Name *</Label>
+            <Label htmlFor="name">{_('Original GPO Name *')}</Label>
             <Input
               id="name"
               {...register('name')}
@@ -97,7 +109,7 @@ export function RestoreGPODialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="backupPath">Backup Path *</Label>
+            <Label htmlFor="backupPath">{_('Backup Path *')}</Label>
             <Input
               id="backupPath"
               {...register('backupPath')}
@@ -110,20 +122,22 @@ export function RestoreGPODialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="newName">New GPO Name (Optional)</Label>
+            <Label htmlFor="newName">{_('New GPO Name (Optional)')}</Label>
             <Input
               id="newName"
               {...register('newName')}
-              placeholder="Leave empty to use original name"
+              placeholder={_('Leave empty to use original name')}
             />
           </div>
 
+          <CommandPreview operation={previewRestore} disabled={!name || !backupPath} />
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Restoring...' : 'Restore GPO'}
+              {isSubmitting ? _('Restoring...') : _('Restore GPO')}
             </Button>
           </DialogFooter>
         </form>
@@ -9,10 +9,11 @@ import { z } from 'zod'
 import { useGPOMutations } from './hooks/useGPO'
 import { toast } from 'sonner'
 import type { SetGPOLinkInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const setLinkSchema = z.object({
-  containerDN: z.string().min(1, 'Container DN is required'),
-  gpoName: z.string().min(1, 'GPO name is required'),
+  containerDN: z.string().min(1, _('Container DN is required')),
+  gpoName: z.string().min(1, _('GPO name is required')),
   linkOptions: z.string().optional(),
   order: z.number().optional()
 })
@@ -43,11 +44,11 @@ export function SetLinkDialog ({
 
   const { setGPOLink } = useGPOMutations(
     () => {
-      toast.success('GPO link set successfully')
+      toast.success(_('GPO link set successfully'))
       onLinkSet()
     },
     (error) => {
-      toast.error(`Failed to set GPO link: ${error}`)
+      toast.error(format(_('Failed to set GPO link: $0'), error))
     }
   )
 
@@ -78,15 +79,15 @@ export function SetLinkDialog ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Set GPO Link</DialogTitle>
+          <DialogTitle>{_('Set GPO Link')}</DialogTitle>
           <DialogDescription>
-            Link a Group Policy Object to a container.
+            {_('Link a Group Policy Object to a container.')}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="containerDN">Container DN *</Label>
+            <Label htmlFor="containerDN">{_('Container DN *')}</Label>
             <Input
               id="containerDN"
               {...register('containerDN')}
@@ -99,7 +100,7 @@ export function SetLinkDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="gpoName">GPO Name *</Label>
+            <Label htmlFor="gpoName">{_('GPO Name *')}</Label>
             <Input
               id="gpoName"
               {...register('gpoName')}
@@ -112,7 +113,7 @@ export function SetLinkDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="linkOptions">Link Options</Label>
+            <Label htmlFor="linkOptions">{_('Link Options')}</Label>
             <Input
               id="linkOptions"
               {...register('linkOptions')}
@@ -121,7 +122,7 @@ export function SetLinkDialog ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="order">Order</Label>
+            <Label htmlFor="order">{_('Order')}</Label>
             <Input
               id="order"
               type="number"
@@ -132,10 +133,10 @@ export function SetLinkDialog ({
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Setting Link...' : 'Set Link'}
+              {isSubmitting ? _('Setting Link...') : _('Set Link')}
             </Button>
           </DialogFooter>
         </form>
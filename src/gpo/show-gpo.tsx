@@ -13,6 +13,7 @@ import {
   Link
 } from 'lucide-react'
 import type { SambaGPO } from '@/types/samba'
+import { _, formatDateTime } from '@/lib/i18n'
 
 interface ShowGPODialogProps {
   isOpen: boolean;
@@ -46,10 +47,10 @@ export function ShowGPODialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FolderOpen className="h-5 w-5" />
-            GPO Details
+            {_('GPO Details')}
           </DialogTitle>
           <DialogDescription>
-            Detailed information about the Group Policy Object.
+            {_('Detailed information about the Group Policy Object.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -59,20 +60,20 @@ export function ShowGPODialog ({
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Settings className="h-5 w-5" />
-                Basic Information
+                {_('Basic Information')}
               </CardTitle>
               <CardDescription>
-                Core GPO properties and identification
+                {_('Core GPO properties and identification')}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">Name</p>
+                  <p className="text-sm font-medium text-muted-foreground">{_('Name')}</p>
                   <p className="text-lg font-semibold">{gpo.name}</p>
                 </div>
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">Status</p>
+                  <p className="text-sm font-medium text-muted-foreground">{_('Status')}</p>
                   <Badge className={getStatusColor(gpo.status)}>
                     {gpo.status}
                   </Badge>
@@ -82,7 +83,7 @@ export function ShowGPODialog ({
               <Separator />
 
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Display Name</p>
+                <p className="text-sm font-medium text-muted-foreground">{_('Display Name')}</p>
                 <p className="text-lg">{gpo.displayName}</p>
               </div>
 
@@ -90,7 +91,7 @@ export function ShowGPODialog ({
                 <>
                   <Separator />
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Description</p>
+                    <p className="text-sm font-medium text-muted-foreground">{_('Description')}</p>
                     <p className="text-sm">{gpo.description}</p>
                   </div>
                 </>
@@ -103,15 +104,15 @@ export function ShowGPODialog ({
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Hash className="h-5 w-5" />
-                Technical Details
+                {_('Technical Details')}
               </CardTitle>
               <CardDescription>
-                Technical identifiers and versioning information
+                {_('Technical identifiers and versioning information')}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">GUID</p>
+                <p className="text-sm font-medium text-muted-foreground">{_('GUID')}</p>
                 <p className="font-mono text-sm bg-muted p-2 rounded">{gpo.guid}</p>
               </div>
 
@@ -119,11 +120,11 @@ export function ShowGPODialog ({
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">Version</p>
+                  <p className="text-sm font-medium text-muted-foreground">{_('Version')}</p>
                   <p className="text-lg font-semibold">{gpo.version}</p>
                 </div>
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">Linked OUs</p>
+                  <p className="text-sm font-medium text-muted-foreground">{_('Linked OUs')}</p>
                   <p className="text-lg font-semibold">{gpo.linkedOUs.length}</p>
                 </div>
               </div>
@@ -135,21 +136,21 @@ export function ShowGPODialog ({
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Calendar className="h-5 w-5" />
-                Timestamps
+                {_('Timestamps')}
               </CardTitle>
               <CardDescription>
-                Creation and modification dates
+                {_('Creation and modification dates')}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">Created</p>
-                  <p className="text-sm">{gpo.createdAt.toLocaleString()}</p>
+                  <p className="text-sm font-medium text-muted-foreground">{_('Created')}</p>
+                  <p className="text-sm">{formatDateTime(gpo.createdAt)}</p>
                 </div>
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">Modified</p>
-                  <p className="text-sm">{gpo.modifiedAt.toLocaleString()}</p>
+                  <p className="text-sm font-medium text-muted-foreground">{_('Modified')}</p>
+                  <p className="text-sm">{formatDateTime(gpo.modifiedAt)}</p>
                 </div>
               </div>
             </CardContent>
@@ -161,10 +162,10 @@ export function ShowGPODialog ({
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Link className="h-5 w-5" />
-                  Linked Containers
+                  {_('Linked Containers')}
                 </CardTitle>
                 <CardDescription>
-                  Organizational units and containers where this GPO is applied
+                  {_('Organizational units and containers where this GPO is applied')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -177,7 +178,7 @@ export function ShowGPODialog ({
                       <Link className="h-4 w-4 text-blue-600" />
                       <div>
                         <p className="font-medium">{ou}</p>
-                        <p className="text-sm text-muted-foreground">Organizational Unit</p>
+                        <p className="text-sm text-muted-foreground">{_('Organizational Unit')}</p>
                       </div>
                     </div>
                   ))}
@@ -191,33 +192,33 @@ export function ShowGPODialog ({
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <FileText className="h-5 w-5" />
-                Management Information
+                {_('Management Information')}
               </CardTitle>
               <CardDescription>
-                Additional details for GPO management
+                {_('Additional details for GPO management')}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
                 <div className="p-3 bg-muted/50 rounded-lg">
-                  <p className="text-sm font-medium mb-2">Policy Settings</p>
+                  <p className="text-sm font-medium mb-2">{_('Policy Settings')}</p>
                   <p className="text-sm text-muted-foreground">
-                    Use Group Policy Management Console (GPMC) to view and edit policy settings.
+                    {_('Use Group Policy Management Console (GPMC) to view and edit policy settings.')}
                   </p>
                 </div>
 
                 <div className="p-3 bg-muted/50 rounded-lg">
-                  <p className="text-sm font-medium mb-2">Security Filtering</p>
+                  <p className="text-sm font-medium mb-2">{_('Security Filtering')}</p>
                   <p className="text-sm text-muted-foreground">
-                    Configure security filtering through GPMC to control which users and computers receive this policy.
+                    {_('Configure security filtering through GPMC to control which users and computers receive this policy.')}
                   </p>
                 </div>
 
                 {gpo.linkedOUs.length === 0 && (
                   <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
-                    <p className="text-sm font-medium text-orange-800 mb-1">No Links</p>
+                    <p className="text-sm font-medium text-orange-800 mb-1">{_('No Links')}</p>
                     <p className="text-sm text-orange-700">
-                      This GPO is not linked to any containers and will not apply to any users or computers.
+                      {_('This GPO is not linked to any containers and will not apply to any users or computers.')}
                     </p>
                   </div>
                 )}
@@ -227,7 +228,7 @@ export function ShowGPODialog ({
         </div>
 
         <DialogFooter>
-          <Button onClick={onClose}>Close</Button>
+          <Button onClick={onClose}>{_('Close')}</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -34,11 +34,12 @@ import {
 } from '@/components/ui/form'
 
 import { useGroupMutations } from './hooks/useGroupMutations'
+import { _ } from '@/lib/i18n'
 
 const createGroupSchema = z.object({
   name: z.string()
-    .min(1, 'Group name is required')
-    .regex(/^[a-zA-Z0-9_-]+$/, 'Group name can only contain letters, numbers, underscores, and hyphens'),
+    .min(1, _('Group name is required'))
+    .regex(/^[a-zA-Z0-9_-]+$/, _('Group name can only contain letters, numbers, underscores, and hyphens')),
   displayName: z.string().optional(),
   description: z.string().optional(),
   groupType: z.enum(['Security', 'Distribution']),
@@ -98,15 +99,15 @@ export default function CreateGroupDialog ({ onGroupCreated, trigger }: CreateGr
                 {trigger || (
                     <Button>
                         <Plus className="mr-2 h-4 w-4" />
-                        Create Group
+                        {_('Create Group')}
                     </Button>
                 )}
             </DialogTrigger>
             <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
-                    <DialogTitle>Create Group</DialogTitle>
+                    <DialogTitle>{_('Create Group')}</DialogTitle>
                     <DialogDescription>
-                        Create a new Active Directory group. Fill in the required information below.
+                        {_('Create a new Active Directory group. Fill in the required information below.')}
                     </DialogDescription>
                 </DialogHeader>
 
@@ -118,12 +119,12 @@ export default function CreateGroupDialog ({ onGroupCreated, trigger }: CreateGr
                                 name="name"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Group Name *</FormLabel>
+                                        <FormLabel>{_('Group Name *')}</FormLabel>
                                         <FormControl>
-                                            <Input placeholder="Enter group name" {...field} />
+                                            <Input placeholder={_('Enter group name')} {...field} />
                                         </FormControl>
                                         <FormDescription>
-                                            Unique name for the group (letters, numbers, underscore, hyphen only)
+                                            {_('Unique name for the group (letters, numbers, underscore, hyphen only)')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -135,12 +136,12 @@ export default function CreateGroupDialog ({ onGroupCreated, trigger }: CreateGr
                                 name="displayName"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Display Name</FormLabel>
+                                        <FormLabel>{_('Display Name')}</FormLabel>
                                         <FormControl>
-                                            <Input placeholder="Enter display name" {...field} />
+                                            <Input placeholder={_('Enter display name')} {...field} />
                                         </FormControl>
                                         <FormDescription>
-                                            Friendly name for the group
+                                            {_('Friendly name for the group')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -153,16 +154,16 @@ export default function CreateGroupDialog ({ onGroupCreated, trigger }: CreateGr
                             name="description"
                             render={({ field }) => (
                                 <FormItem>
-                                    <FormLabel>Description</FormLabel>
+                                    <FormLabel>{_('Description')}</FormLabel>
                                     <FormControl>
                                         <Textarea
-                                            placeholder="Enter group description"
+                                            placeholder={_('Enter group description')}
                                             className="resize-none"
                                             {...field}
                                         />
                                     </FormControl>
                                     <FormDescription>
-                                        Optional description of the group's purpose
+                                        {_("Optional description of the group's purpose")}
                                     </FormDescription>
                                     <FormMessage />
                                 </FormItem>
@@ -175,20 +176,20 @@ export default function CreateGroupDialog ({ onGroupCreated, trigger }: CreateGr
                                 name="groupType"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Group Type *</FormLabel>
+                                        <FormLabel>{_('Group Type *')}</FormLabel>
                                         <Select onValueChange={field.onChange} defaultValue={field.value}>
                                             <FormControl>
                                                 <SelectTrigger>
-                                                    <SelectValue placeholder="Select group type" />
+                                                    <SelectValue placeholder={_('Select group type')} />
                                                 </SelectTrigger>
                                             </FormControl>
                                             <SelectContent>
-                                                <SelectItem value="Security">Security Group</SelectItem>
-                                                <SelectItem value="Distribution">Distribution Group</SelectItem>
+                                                <SelectItem value="Security">{_('Security Group')}</SelectItem>
+                                                <SelectItem value="Distribution">{_('Distribution Group')}</SelectItem>
                                             </SelectContent>
                                         </Select>
                                         <FormDescription>
-                                            Security groups can be used for permissions
+                                            {_('Security groups can be used for permissions')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -200,21 +201,21 @@ export default function CreateGroupDialog ({ onGroupCreated, trigger }: CreateGr
                                 name="groupScope"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Group Scope</FormLabel>
+                                        <FormLabel>{_('Group Scope')}</FormLabel>
                                         <Select onValueChange={field.onChange} defaultValue={field.value}>
                                             <FormControl>
                                                 <SelectTrigger>
-                                                    <SelectValue placeholder="Select group scope" />
+                                                    <SelectValue placeholder={_('Select group scope')} />
                                                 </SelectTrigger>
                                             </FormControl>
                                             <SelectContent>
-                                                <SelectItem value="DomainLocal">Domain Local</SelectItem>
-                                                <SelectItem value="Global">Global</SelectItem>
-                                                <SelectItem value="Universal">Universal</SelectItem>
+                                                <SelectItem value="DomainLocal">{_('Domain Local')}</SelectItem>
+                                                <SelectItem value="Global">{_('Global')}</SelectItem>
+                                                <SelectItem value="Universal">{_('Universal')}</SelectItem>
                                             </SelectContent>
                                         </Select>
                                         <FormDescription>
-                                            Scope determines where the group can be used
+                                            {_('Scope determines where the group can be used')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -227,12 +228,12 @@ export default function CreateGroupDialog ({ onGroupCreated, trigger }: CreateGr
                             name="organizationalUnit"
                             render={({ field }) => (
                                 <FormItem>
-                                    <FormLabel>Organizational Unit</FormLabel>
+                                    <FormLabel>{_('Organizational Unit')}</FormLabel>
                                     <FormControl>
-                                        <Input placeholder="Enter OU (e.g., ou=Groups,dc=example,dc=com)" {...field} />
+                                        <Input placeholder={_('Enter OU (e.g., ou=Groups,dc=example,dc=com)')} {...field} />
                                     </FormControl>
                                     <FormDescription>
-                                        Leave empty to use the default Groups container
+                                        {_('Leave empty to use the default Groups container')}
                                     </FormDescription>
                                     <FormMessage />
                                 </FormItem>
@@ -245,11 +246,11 @@ export default function CreateGroupDialog ({ onGroupCreated, trigger }: CreateGr
                                 variant="outline"
                                 onClick={() => handleOpenChange(false)}
                             >
-                                Cancel
+                                {_('Cancel')}
                             </Button>
                             <Button type="submit" disabled={isLoading}>
                                 {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                Create Group
+                                {_('Create Group')}
                             </Button>
                         </DialogFooter>
                     </form>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -12,9 +12,13 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { AlertTriangle } from 'lucide-react'
 import { useGroupMutations } from './hooks/useGroupMutations'
+import { GroupAPI } from '@/services/group-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 interface DeleteGroupDialogProps {
   isOpen?: boolean;
@@ -43,11 +47,11 @@ export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
 
   const { deleteGroup } = useGroupMutations(
     () => {
-      toast.success('Group deleted successfully')
+      toast.success(_('Group deleted successfully'))
       onGroupDeleted?.()
     },
     (error) => {
-      toast.error(`Failed to delete group: ${error}`)
+      toast.error(format(_('Failed to delete group: $0'), error))
     }
   )
 
@@ -92,6 +96,8 @@ export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
 
   const isConfirmationValid = confirmationText === groupName
 
+  const previewDelete = useCallback((api: PreviewScope) => api(GroupAPI).delete(groupName), [groupName])
+
   // If trigger prop is provided, use Dialog with DialogTrigger
   if (trigger) {
     return (
@@ -103,29 +109,29 @@ export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <AlertTriangle className="h-5 w-5 text-red-600" />
-            Delete Group: {groupName}
+            {format(_('Delete Group: $0'), groupName)}
           </DialogTitle>
           <DialogDescription>
-            This action cannot be undone. This will permanently delete the group and remove all its members.
+            {_('This action cannot be undone. This will permanently delete the group and remove all its members.')}
           </DialogDescription>
         </DialogHeader>
 
         <Alert className="border-red-200 bg-red-50">
           <AlertTriangle className="h-4 w-4 text-red-600" />
           <AlertDescription className="text-red-800">
-            <strong>Warning:</strong> Deleting this group will:
+            <strong>{_('Warning:')}</strong>{' '}{_('Deleting this group will:')}
             <ul className="mt-2 list-disc list-inside space-y-1">
-              <li>Permanently remove the group from Active Directory</li>
-              <li>Remove all members from the group</li>
-              <li>Remove any permissions assigned to this group</li>
-              <li>This action cannot be undone</li>
+              <li>{_('Permanently remove the group from Active Directory')}</li>
+              <li>{_('Remove all members from the group')}</li>
+              <li>{_('Remove any permissions assigned to this group')}</li>
+              <li>{_('This action cannot be undone')}</li>
             </ul>
           </AlertDescription>
         </Alert>
 
         <div className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="groupName">Group Name</Label>
+            <Label htmlFor="groupName">{_('Group Name')}</Label>
             <Input
               id="groupName"
               value={groupName}
@@ -136,33 +142,35 @@ export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
 
           <div className="space-y-2">
             <Label htmlFor="confirmation">
-              Type the group name "{groupName}" to confirm deletion
+              {format(_('Type the group name "$0" to confirm deletion'), groupName)}
             </Label>
             <Input
               id="confirmation"
-              placeholder={`Type "${groupName}" to confirm`}
+              placeholder={format(_('Type "$0" to confirm'), groupName)}
               value={confirmationText}
               onChange={(e) => handleConfirmationChange(e.target.value)}
               className={confirmationText && !isConfirmationValid ? 'border-red-500' : ''}
             />
             {confirmationText && !isConfirmationValid && (
               <p className="text-sm text-red-500">
-                Confirmation text does not match the group name
+                {_('Confirmation text does not match the group name')}
               </p>
             )}
           </div>
+
+          <CommandPreview operation={previewDelete} disabled={!groupName} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             variant="destructive"
             onClick={handleDeleteGroup}
             disabled={!isConfirmationValid || isDeleting}
           >
-            {isDeleting ? 'Deleting...' : 'Delete Group'}
+            {isDeleting ? _('Deleting...') : _('Delete Group')}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -176,7 +184,7 @@ export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
       <div className="space-y-4">
         <div className="flex items-center gap-2">
           <Input
-            placeholder="Enter group name"
+            placeholder={_('Enter group name')}
             value={internalGroupName}
             onChange={(e) => handleInputChange(e.target.value)}
           />
@@ -185,7 +193,7 @@ export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
             disabled={!internalGroupName.trim()}
             variant="destructive"
           >
-            Delete Group
+            {_('Delete Group')}
           </Button>
         </div>
       </div>
@@ -198,29 +206,29 @@ export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <AlertTriangle className="h-5 w-5 text-red-600" />
-            Delete Group: {groupName}
+            {format(_('Delete Group: $0'), groupName)}
           </DialogTitle>
           <DialogDescription>
-            This action cannot be undone. This will permanently delete the group and remove all its members.
+            {_('This action cannot be undone. This will permanently delete the group and remove all its members.')}
           </DialogDescription>
         </DialogHeader>
 
         <Alert className="border-red-200 bg-red-50">
           <AlertTriangle className="h-4 w-4 text-red-600" />
           <AlertDescription className="text-red-800">
-            <strong>Warning:</strong> Deleting this group will:
+            <strong>{_('Warning:')}</strong>{' '}{_('Deleting this group will:')}
             <ul className="mt-2 list-disc list-inside space-y-1">
-              <li>Permanently remove the group from Active Directory</li>
-              <li>Remove all members from the group</li>
-              <li>Remove any permissions assigned to this group</li>
-              <li>This action cannot be undone</li>
+              <li>{_('Permanently remove the group from Active Directory')}</li>
+              <li>{_('Remove all members from the group')}</li>
+              <li>{_('Remove any permissions assigned to this group')}</li>
+              <li>{_('This action cannot be undone')}</li>
             </ul>
           </AlertDescription>
         </Alert>
 
         <div className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="groupName">Group Name</Label>
+            <Label htmlFor="groupName">{_('Group Name')}</Label>
             <Input
               id="groupName"
               value={groupName}
@@ -231,33 +239,35 @@ export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
 
           <div className="space-y-2">
             <Label htmlFor="confirmation">
-              Type the group name "{groupName}" to confirm deletion
+              {format(_('Type the group name "$0" to confirm deletion'), groupName)}
             </Label>
             <Input
               id="confirmation"
-              placeholder={`Type "${groupName}" to confirm`}
+              placeholder={format(_('Type "$0" to confirm'), groupName)}
               value={confirmationText}
               onChange={(e) => handleConfirmationChange(e.target.value)}
               className={confirmationText && !isConfirmationValid ? 'border-red-500' : ''}
             />
             {confirmationText && !isConfirmationValid && (
               <p className="text-sm text-red-500">
-                Confirmation text does not match the group name
+                {_('Confirmation text does not match the group name')}
               </p>
             )}
           </div>
+
+          <CommandPreview operation={previewDelete} disabled={!groupName} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             variant="destructive"
             onClick={handleDeleteGroup}
             disabled={!isConfirmationValid || isDeleting}
           >
-            {isDeleting ? 'Deleting...' : 'Delete Group'}
+            {isDeleting ? _('Deleting...') : _('Delete Group')}
           </Button>
         </DialogFooter>
       </DialogContent>
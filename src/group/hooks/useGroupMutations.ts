@@ -2,6 +2,7 @@ import { useCallback } from 'react'
 import { GroupAPI } from '../../services/group-api'
 import { CreateGroupInput } from '../../types/samba'
 import { APIError } from '../../lib/errors'
+import { _ } from '@/lib/i18n'
 
 export interface UseGroupMutationsReturn {
   createGroup: (groupData: CreateGroupInput) => Promise<void>;
@@ -22,7 +23,7 @@ export const useGroupMutations = (onSuccess?: () => void, onError?: (error: stri
       await GroupAPI.create(groupData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to create group'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to create group')
       onError?.(errorMessage)
       throw err
     }
@@ -33,7 +34,7 @@ export const useGroupMutations = (onSuccess?: () => void, onError?: (error: stri
       await GroupAPI.delete(groupName)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to delete group'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to delete group')
       onError?.(errorMessage)
       throw err
     }
@@ -44,7 +45,7 @@ export const useGroupMutations = (onSuccess?: () => void, onError?: (error: stri
       await GroupAPI.move(groupName, targetOU)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to move group'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to move group')
       onError?.(errorMessage)
       throw err
     }
@@ -55,7 +56,7 @@ export const useGroupMutations = (onSuccess?: () => void, onError?: (error: stri
       await GroupAPI.addMembers(groupName, memberNames)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to add group members'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to add group members')
       onError?.(errorMessage)
       throw err
     }
@@ -66,7 +67,7 @@ export const useGroupMutations = (onSuccess?: () => void, onError?: (error: stri
       await GroupAPI.removeMembers(groupName, memberNames)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to remove group members'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to remove group members')
       onError?.(errorMessage)
       throw err
     }
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { GroupAPI } from '../../services/group-api'
 import { SambaGroup } from '../../types/samba'
 import { APIError } from '../../lib/errors'
+import { _ } from '@/lib/i18n'
 
 export interface UseGroupsReturn {
   groups: SambaGroup[];
@@ -29,7 +30,7 @@ export const useGroups = (): UseGroupsReturn => {
       if (err instanceof APIError) {
         setError(err.message)
       } else {
-        setError('Failed to load groups')
+        setError(_('Failed to load groups'))
       }
     } finally {
       setLoading(false)
@@ -76,7 +77,7 @@ export const useGroupMembers = (groupName: string | null) => {
       if (err instanceof APIError) {
         setError(err.message)
       } else {
-        setError('Failed to load group members')
+        setError(_('Failed to load group members'))
       }
     } finally {
       setLoading(false)
@@ -123,7 +124,7 @@ export const useGroupDetails = (groupName: string | null) => {
       if (err instanceof APIError) {
         setError(err.message)
       } else {
-        setError('Failed to load group details')
+        setError(_('Failed to load group details'))
       }
     } finally {
       setLoading(false)
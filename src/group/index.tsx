@@ -31,6 +31,7 @@ import RemoveMembersDialog from './removemembers'
 // Import hooks
 import { useGroups } from './hooks/useGroups'
 import type { FilterOptions } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 interface GroupManagementPageProps {
     initialView?: 'list' | 'management';
@@ -66,9 +67,9 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                 {/* Header */}
                 <div className="flex items-center justify-between">
                     <div>
-                        <h1 className="text-3xl font-bold tracking-tight">Group Management</h1>
+                        <h1 className="text-3xl font-bold tracking-tight">{_('Group Management')}</h1>
                         <p className="text-muted-foreground">
-                            Manage Active Directory groups, members, and permissions
+                            {_('Manage Active Directory groups, members, and permissions')}
                         </p>
                     </div>
                     <div className="flex gap-2">
@@ -77,7 +78,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                             trigger={
                                 <Button>
                                     <Plus className="mr-2 h-4 w-4" />
-                                    Create Group
+                                    {_('Create Group')}
                                 </Button>
                             }
                         />
@@ -88,7 +89,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Total Groups</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Total Groups')}</CardTitle>
                             <Users className="h-4 w-4 text-muted-foreground" />
                         </CardHeader>
                         <CardContent>
@@ -97,7 +98,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Security Groups</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Security Groups')}</CardTitle>
                             <div className="h-2 w-2 bg-blue-500 rounded-full" />
                         </CardHeader>
                         <CardContent>
@@ -106,7 +107,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Distribution Groups</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Distribution Groups')}</CardTitle>
                             <div className="h-2 w-2 bg-green-500 rounded-full" />
                         </CardHeader>
                         <CardContent>
@@ -115,7 +116,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Global Scope</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Global Scope')}</CardTitle>
                             <div className="h-2 w-2 bg-purple-500 rounded-full" />
                         </CardHeader>
                         <CardContent>
@@ -128,8 +129,8 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                 <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'list' | 'management')} className="space-y-4">
                     <div className="flex items-center justify-between">
                         <TabsList>
-                            <TabsTrigger value="list">Group List</TabsTrigger>
-                            <TabsTrigger value="management">Management</TabsTrigger>
+                            <TabsTrigger value="list">{_('Group List')}</TabsTrigger>
+                            <TabsTrigger value="management">{_('Management')}</TabsTrigger>
                         </TabsList>
 
                         {activeTab === 'list' && (
@@ -137,7 +138,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                                 <div className="relative">
                                     <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                                     <Input
-                                        placeholder="Search groups..."
+                                        placeholder={_('Search groups...')}
                                         value={searchQuery}
                                         onChange={(e) => handleSearch(e.target.value)}
                                         className="pl-10 w-[300px]"
@@ -153,9 +154,9 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                     <TabsContent value="list" className="space-y-4">
                         <Card>
                             <CardHeader>
-                                <CardTitle>Active Directory Groups</CardTitle>
+                                <CardTitle>{_('Active Directory Groups')}</CardTitle>
                                 <CardDescription>
-                                    View and manage all groups in your Active Directory domain
+                                    {_('View and manage all groups in your Active Directory domain')}
                                 </CardDescription>
                             </CardHeader>
                             <CardContent>
@@ -173,9 +174,9 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>Group Operations</CardTitle>
+                                    <CardTitle>{_('Group Operations')}</CardTitle>
                                     <CardDescription>
-                                        Perform common group management tasks
+                                        {_('Perform common group management tasks')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
@@ -184,7 +185,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
                                                 <Plus className="mr-2 h-4 w-4" />
-                                                Create New Group
+                                                {_('Create New Group')}
                                             </Button>
                                         }
                                     />
@@ -192,7 +193,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                                         onGroupDeleted={refreshGroups}
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Delete Group
+                                                {_('Delete Group')}
                                             </Button>
                                         }
                                     />
@@ -200,7 +201,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                                         onGroupMoved={refreshGroups}
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Move Group to OU
+                                                {_('Move Group to OU')}
                                             </Button>
                                         }
                                     />
@@ -209,16 +210,16 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
 
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>Member Management</CardTitle>
+                                    <CardTitle>{_('Member Management')}</CardTitle>
                                     <CardDescription>
-                                        Manage group membership and members
+                                        {_('Manage group membership and members')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
                                     <ListMembersDialog
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                View Group Members
+                                                {_('View Group Members')}
                                             </Button>
                                         }
                                     />
@@ -226,7 +227,7 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
                                         onMembersRemoved={refreshGroups}
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Remove Members
+                                                {_('Remove Members')}
                                             </Button>
                                         }
                                     />
@@ -235,16 +236,16 @@ function GroupManagementPage ({ initialView = 'list' }: GroupManagementPageProps
 
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>Group Information</CardTitle>
+                                    <CardTitle>{_('Group Information')}</CardTitle>
                                     <CardDescription>
-                                        View detailed group information
+                                        {_('View detailed group information')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
                                     <GroupDetailsDialog
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                View Group Details
+                                                {_('View Group Details')}
                                             </Button>
                                         }
                                     />
@@ -1,5 +1,4 @@
 import React, { useMemo } from 'react'
-import { format } from 'date-fns'
 import { MoreHorizontal, Users, Shield, Globe, Building, Trash2, Info, FolderOpen, UserPlus, UserMinus } from 'lucide-react'
 
 import { DataTable, DataTableColumn } from '@/components/ui/data-table'
@@ -21,6 +20,7 @@ import GroupDetailsDialog from './show'
 import MoveGroupDialog from './move'
 import ListMembersDialog from './listmembers'
 import RemoveMembersDialog from './removemembers'
+import { _, formatDate } from '@/lib/i18n'
 
 interface GroupListProps {
   groups?: SambaGroup[];
@@ -39,12 +39,12 @@ const GroupActions: React.FC<GroupActionsProps> = ({ group, onRefresh }) => {
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
         <Button variant="ghost" className="h-8 w-8 p-0">
-          <span className="sr-only">Open menu</span>
+          <span className="sr-only">{_('Open menu')}</span>
           <MoreHorizontal className="h-4 w-4" />
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-48">
-        <DropdownMenuLabel>Actions</DropdownMenuLabel>
+        <DropdownMenuLabel>{_('Actions')}</DropdownMenuLabel>
         <DropdownMenuSeparator />
 
         <GroupDetailsDialog
@@ -52,7 +52,7 @@ const GroupActions: React.FC<GroupActionsProps> = ({ group, onRefresh }) => {
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <Info className="mr-2 h-4 w-4" />
-              View Details
+              {_('View Details')}
             </DropdownMenuItem>
           }
         />
@@ -62,7 +62,7 @@ const GroupActions: React.FC<GroupActionsProps> = ({ group, onRefresh }) => {
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <UserPlus className="mr-2 h-4 w-4" />
-              View Members
+              {_('View Members')}
             </DropdownMenuItem>
           }
         />
@@ -73,7 +73,7 @@ const GroupActions: React.FC<GroupActionsProps> = ({ group, onRefresh }) => {
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <UserMinus className="mr-2 h-4 w-4" />
-              Remove Members
+              {_('Remove Members')}
             </DropdownMenuItem>
           }
         />
@@ -84,7 +84,7 @@ const GroupActions: React.FC<GroupActionsProps> = ({ group, onRefresh }) => {
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <FolderOpen className="mr-2 h-4 w-4" />
-              Move to OU
+              {_('Move to OU')}
             </DropdownMenuItem>
           }
         />
@@ -100,7 +100,7 @@ const GroupActions: React.FC<GroupActionsProps> = ({ group, onRefresh }) => {
               className="text-destructive focus:text-destructive"
             >
               <Trash2 className="mr-2 h-4 w-4" />
-              Delete Group
+              {_('Delete Group')}
             </DropdownMenuItem>
           }
         />
@@ -113,7 +113,7 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
   const columns = useMemo<DataTableColumn<SambaGroup>[]>(() => [
     {
       key: 'name',
-      header: 'Group Name',
+      header: _('Group Name'),
       sortable: true,
       searchable: true,
       render: (group) => (
@@ -125,7 +125,7 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
     },
     {
       key: 'groupType',
-      header: 'Type',
+      header: _('Type'),
       sortable: true,
       render: (group) => (
         <Badge variant={group.groupType === 'Security' ? 'default' : 'secondary'}>
@@ -133,13 +133,13 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
             ? (
             <>
               <Shield className="mr-1 h-3 w-3" />
-              Security
+              {_('Security')}
             </>
               )
             : (
             <>
               <Globe className="mr-1 h-3 w-3" />
-              Distribution
+              {_('Distribution')}
             </>
               )}
         </Badge>
@@ -147,7 +147,7 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
     },
     {
       key: 'groupScope',
-      header: 'Scope',
+      header: _('Scope'),
       sortable: true,
       render: (group) => {
         const scopeIcon = {
@@ -168,7 +168,7 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
     },
     {
       key: 'description',
-      header: 'Description',
+      header: _('Description'),
       searchable: true,
       render: (group) => (
         <div className="text-sm max-w-[300px] truncate">
@@ -178,7 +178,7 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
     },
     {
       key: 'members',
-      header: 'Members',
+      header: _('Members'),
       sortable: true,
       render: (group) => {
         const memberCount = group.members?.length || 0
@@ -187,7 +187,7 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
             <div className="font-medium">{memberCount}</div>
             {memberCount > 0 && (
               <div className="text-xs text-muted-foreground">
-                {memberCount === 1 ? 'member' : 'members'}
+                {memberCount === 1 ? _('member') : _('members')}
               </div>
             )}
           </div>
@@ -196,17 +196,17 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
     },
     {
       key: 'createdAt',
-      header: 'Created',
+      header: _('Created'),
       sortable: true,
       render: (group) => (
         <div className="text-sm">
-          {format(group.createdAt, 'MMM dd, yyyy')}
+          {formatDate(group.createdAt)}
         </div>
       )
     },
     {
       key: 'actions',
-      header: 'Actions',
+      header: _('Actions'),
       render: (group) => <GroupActions group={group} onRefresh={onRefresh} />
     }
   ], [onRefresh])
@@ -215,9 +215,9 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
     return (
       <ErrorAlert
         error={error}
-        title="Failed to load groups"
+        title={_('Failed to load groups')}
         onRetry={onRefresh}
-        retryLabel="Retry Loading"
+        retryLabel={_('Retry Loading')}
       />
     )
   }
@@ -228,8 +228,8 @@ const GroupList: React.FC<GroupListProps> = ({ groups = [], loading = false, err
       columns={columns}
       loading={loading}
       searchable
-      searchPlaceholder="Search groups by name or description..."
-      emptyMessage="No groups found"
+      searchPlaceholder={_('Search groups by name or description...')}
+      emptyMessage={_('No groups found')}
     />
   )
 }
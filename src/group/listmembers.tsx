@@ -15,6 +15,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
 import { Users, Search, Info } from 'lucide-react'
 import { useGroupMembers } from './hooks/useGroups'
+import { _, format } from '@/lib/i18n'
 
 interface ListMembersDialogProps {
   isOpen?: boolean;
@@ -82,10 +83,10 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="h-5 w-5" />
-            Group Members: {groupName}
+            {format(_('Group Members: $0'), groupName)}
           </DialogTitle>
           <DialogDescription>
-            View all members of the selected group
+            {_('View all members of the selected group')}
           </DialogDescription>
         </DialogHeader>
 
@@ -93,7 +94,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
           <Alert className="border-red-200 bg-red-50">
             <Info className="h-4 w-4 text-red-600" />
             <AlertDescription className="text-red-800">
-              Error loading group members: {error}
+              {format(_('Error loading group members: $0'), error)}
             </AlertDescription>
           </Alert>
         )}
@@ -102,7 +103,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
           <div className="relative">
             <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search members..."
+              placeholder={_('Search members...')}
               value={searchTerm}
               onChange={(e) => handleSearchChange(e.target.value)}
               className="pl-8"
@@ -112,7 +113,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
           <Card>
             <CardHeader>
               <CardTitle className="text-sm">
-                Members {members && `(${filteredMembers.length}${searchTerm ? ` of ${members.length}` : ''})`}
+                {_('Members')}{' '}{members && `(${filteredMembers.length}${searchTerm ? ` of ${members.length}` : ''})`}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -127,12 +128,12 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
                 <div className="text-center py-8">
                   <Users className="mx-auto h-12 w-12 text-muted-foreground" />
                   <h3 className="mt-2 text-sm font-medium">
-                    {searchTerm ? 'No matching members' : 'No members found'}
+                    {searchTerm ? _('No matching members') : _('No members found')}
                   </h3>
                   <p className="mt-1 text-sm text-muted-foreground">
                     {searchTerm
-                      ? 'No members match your search criteria.'
-                      : 'This group currently has no members.'
+                      ? _('No members match your search criteria.')
+                      : _('This group currently has no members.')
                     }
                   </p>
                 </div>
@@ -159,8 +160,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
             <Alert className="border-blue-200 bg-blue-50">
               <Info className="h-4 w-4 text-blue-600" />
               <AlertDescription className="text-blue-800">
-                <strong>Group Membership:</strong> This group contains {members.length} member(s).
-                Use the search box above to filter the list.
+                <strong>{_('Group Membership:')}</strong>{' '}{format(_('This group contains $0 member(s). Use the search box above to filter the list.'), members.length)}
               </AlertDescription>
             </Alert>
           )}
@@ -168,7 +168,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
 
         <DialogFooter>
           <Button onClick={handleClose}>
-            Close
+            {_('Close')}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -182,7 +182,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
       <div className="space-y-4">
         <div className="flex items-center gap-2">
           <Input
-            placeholder="Enter group name"
+            placeholder={_('Enter group name')}
             value={internalGroupName}
             onChange={(e) => handleInputChange(e.target.value)}
           />
@@ -190,7 +190,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
             onClick={handleShowDialog}
             disabled={!internalGroupName.trim()}
           >
-            List Members
+            {_('List Members')}
           </Button>
         </div>
       </div>
@@ -203,10 +203,10 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="h-5 w-5" />
-            Group Members: {groupName}
+            {format(_('Group Members: $0'), groupName)}
           </DialogTitle>
           <DialogDescription>
-            View all members of the selected group
+            {_('View all members of the selected group')}
           </DialogDescription>
         </DialogHeader>
 
@@ -214,7 +214,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
           <Alert className="border-red-200 bg-red-50">
             <Info className="h-4 w-4 text-red-600" />
             <AlertDescription className="text-red-800">
-              Error loading members: {error}
+              {format(_('Error loading members: $0'), error)}
             </AlertDescription>
           </Alert>
         )}
@@ -223,7 +223,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
           <div className="flex items-center gap-2">
             <Search className="h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search members..."
+              placeholder={_('Search members...')}
               value={searchTerm}
               onChange={(e) => handleSearchChange(e.target.value)}
               className="flex-1"
@@ -233,19 +233,22 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
           <Card className="max-h-96 overflow-y-auto">
             <CardHeader>
               <CardTitle className="text-sm">
-                Members ({filteredMembers.length})
-              </CardTitle>
+                {format(_('Members ($0)'), filteredMembers.length)}</CardTitle>
             </CardHeader>
             <CardContent>
-              {loading ? (
+              {loading
+                ? (
                 <div className="flex justify-center py-8">
                   <LoadingSpinner />
                 </div>
-              ) : filteredMembers.length === 0 ? (
+                  )
+                : filteredMembers.length === 0
+                  ? (
                 <div className="text-center py-8 text-muted-foreground">
-                  {searchTerm ? 'No members match your search' : 'No members found in this group'}
+                  {searchTerm ? _('No members match your search') : _('No members found in this group')}
                 </div>
-              ) : (
+                    )
+                  : (
                 <div className="space-y-1">
                   <div className="space-y-1">
                     {filteredMembers.map((member, index) => (
@@ -267,8 +270,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
             <Alert className="border-blue-200 bg-blue-50">
               <Info className="h-4 w-4 text-blue-600" />
               <AlertDescription className="text-blue-800">
-                <strong>Group Membership:</strong> This group contains {members.length} member(s).
-                Use the search box above to filter the list.
+                <strong>{_('Group Membership:')}</strong>{' '}{format(_('This group contains $0 member(s). Use the search box above to filter the list.'), members.length)}
               </AlertDescription>
             </Alert>
           )}
@@ -276,7 +278,7 @@ export const ListMembersDialog: React.FC<ListMembersDialogProps> = ({
 
         <DialogFooter>
           <Button onClick={handleClose}>
-            Close
+            {_('Close')}
           </Button>
         </DialogFooter>
       </DialogContent>
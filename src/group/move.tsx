@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -19,9 +19,13 @@ import {
   SelectValue
 } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { Loader2, Move } from 'lucide-react'
 import { useGroupMutations } from './hooks/useGroupMutations'
+import { GroupAPI } from '@/services/group-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 interface MoveGroupDialogProps {
   isOpen?: boolean;
@@ -33,14 +37,14 @@ interface MoveGroupDialogProps {
 
 // Common organizational units in Active Directory
 const COMMON_OUS = [
-  { value: 'CN=Users,DC=domain,DC=local', label: 'Users (Default)' },
-  { value: 'OU=Groups,DC=domain,DC=local', label: 'Groups' },
-  { value: 'OU=Security Groups,DC=domain,DC=local', label: 'Security Groups' },
-  { value: 'OU=Distribution Groups,DC=domain,DC=local', label: 'Distribution Groups' },
-  { value: 'OU=IT,DC=domain,DC=local', label: 'IT Department' },
-  { value: 'OU=HR,DC=domain,DC=local', label: 'HR Department' },
-  { value: 'OU=Finance,DC=domain,DC=local', label: 'Finance Department' },
-  { value: 'OU=Custom', label: 'Custom OU (specify below)' }
+  { value: 'CN=Users,DC=domain,DC=local', label: _('Users (Default)') },
+  { value: 'OU=Groups,DC=domain,DC=local', label: _('Groups') },
+  { value: 'OU=Security Groups,DC=domain,DC=local', label: _('Security Groups') },
+  { value: 'OU=Distribution Groups,DC=domain,DC=local', label: _('Distribution Groups') },
+  { value: 'OU=IT,DC=domain,DC=local', label: _('IT Department') },
+  { value: 'OU=HR,DC=domain,DC=local', label: _('HR Department') },
+  { value: 'OU=Finance,DC=domain,DC=local', label: _('Finance Department') },
+  { value: 'OU=Custom', label: _('Custom OU (specify below)') }
 ]
 
 export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
@@ -64,7 +68,7 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
     () => {
       // Success callback
       const targetOU = selectedOU === 'OU=Custom' ? customOU : selectedOU
-      toast.success(`Group "${groupName}" moved to ${targetOU} successfully`)
+      toast.success(format(_('Group "$0" moved to $1 successfully'), groupName, targetOU))
       resetForm()
       onGroupMoved?.()
       onClose?.()
@@ -75,22 +79,28 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
     }
   )
 
+  const previewTargetOU = selectedOU === 'OU=Custom' ? customOU : selectedOU
+  const previewMove = useCallback(
+    (api: PreviewScope) => api(GroupAPI).move(groupName, previewTargetOU),
+    [groupName, previewTargetOU]
+  )
+
   const handleSubmit = async () => {
     if (!groupName) {
-      setError('Group name is required')
+      setError(_('Group name is required'))
       return
     }
 
     const targetOU = selectedOU === 'OU=Custom' ? customOU : selectedOU
 
     if (!targetOU.trim()) {
-      setError('Target Organizational Unit is required')
+      setError(_('Target Organizational Unit is required'))
       return
     }
 
     // Basic OU format validation
     if (!targetOU.includes('DC=') || (!targetOU.includes('OU=') && !targetOU.includes('CN='))) {
-      setError('Invalid OU format. Expected format: OU=Name,DC=domain,DC=local or CN=Name,DC=domain,DC=local')
+      setError(_('Invalid OU format. Expected format: OU=Name,DC=domain,DC=local or CN=Name,DC=domain,DC=local'))
       return
     }
 
@@ -168,11 +178,10 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Move className="h-4 w-4" />
-            Move Group to Different OU
+            {_('Move Group to Different OU')}
           </DialogTitle>
           <DialogDescription>
-            Move this group to a different Organizational Unit (OU). This will change the group's
-            location in the Active Directory hierarchy.
+            {_("Move this group to a different Organizational Unit (OU). This will change the group's location in the Active Directory hierarchy.")}
           </DialogDescription>
         </DialogHeader>
 
@@ -186,24 +195,24 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
           {/* Show group name input only if not provided externally */}
           {!externalGroupName && (
             <div className="space-y-2">
-              <Label htmlFor="group-name">Group Name *</Label>
+              <Label htmlFor="group-name">{_('Group Name *')}</Label>
               <Input
                 id="group-name"
                 value={internalGroupName}
                 onChange={(e) => handleGroupNameChange(e.target.value)}
-                placeholder="Enter group name"
+                placeholder={_('Enter group name')}
               />
               <p className="text-sm text-muted-foreground">
-                Enter the name of the group you want to move
+                {_('Enter the name of the group you want to move')}
               </p>
             </div>
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="target-ou">Target Organizational Unit *</Label>
+            <Label htmlFor="target-ou">{_('Target Organizational Unit *')}</Label>
             <Select value={selectedOU} onValueChange={handleOUChange}>
               <SelectTrigger>
-                <SelectValue placeholder="Select target OU" />
+                <SelectValue placeholder={_('Select target OU')} />
               </SelectTrigger>
               <SelectContent>
                 {COMMON_OUS.map((option, index) => (
@@ -214,13 +223,13 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
               </SelectContent>
             </Select>
             <p className="text-sm text-muted-foreground">
-              Select the OU where you want to move this group
+              {_('Select the OU where you want to move this group')}
             </p>
           </div>
 
           {selectedOU === 'OU=Custom' && (
             <div className="space-y-2">
-              <Label htmlFor="custom-ou">Custom OU Path *</Label>
+              <Label htmlFor="custom-ou">{_('Custom OU Path *')}</Label>
               <Input
                 id="custom-ou"
                 value={customOU}
@@ -228,7 +237,7 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
                 placeholder="OU=YourOU,DC=domain,DC=local"
               />
               <p className="text-sm text-muted-foreground">
-                Enter the full Distinguished Name (DN) of the target OU
+                {_('Enter the full Distinguished Name (DN) of the target OU')}
               </p>
             </div>
           )}
@@ -236,23 +245,25 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
           {groupName && (
             <Alert>
               <AlertDescription>
-                Moving group <strong>{groupName}</strong> to: <br />
+                {_('Moving group')}{' '}<strong>{groupName}</strong>{' '}{_('to:')}{' '}<br />
                 <code className="text-sm bg-muted px-1 py-0.5 rounded">{getTargetOU()}</code>
               </AlertDescription>
             </Alert>
           )}
+
+          <CommandPreview operation={previewMove} disabled={!groupName || !previewTargetOU.trim()} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             onClick={handleSubmit}
             disabled={loading || !isFormValid()}
           >
             {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            {loading ? 'Moving...' : 'Move Group'}
+            {loading ? _('Moving...') : _('Move Group')}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -266,10 +277,10 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Move className="h-4 w-4" />
-            Move Group
+            {_('Move Group')}
           </DialogTitle>
           <DialogDescription>
-            Move a group to a different organizational unit
+            {_('Move a group to a different organizational unit')}
           </DialogDescription>
         </DialogHeader>
 
@@ -277,32 +288,32 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
           {!externalGroupName && (
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="groupName" className="text-right">
-                Group Name
+                {_('Group Name')}
               </Label>
               <Input
                 id="groupName"
                 value={internalGroupName}
                 onChange={(e) => handleGroupNameChange(e.target.value)}
                 className="col-span-3"
-                placeholder="Enter group name"
+                placeholder={_('Enter group name')}
               />
             </div>
           )}
 
           {externalGroupName && (
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label className="text-right">Group</Label>
+              <Label className="text-right">{_('Group')}</Label>
               <div className="col-span-3 font-medium">{externalGroupName}</div>
             </div>
           )}
 
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="targetOU" className="text-right">
-              Target OU
+              {_('Target OU')}
             </Label>
             <Select value={selectedOU} onValueChange={handleOUChange}>
               <SelectTrigger className="col-span-3">
-                <SelectValue placeholder="Select organizational unit" />
+                <SelectValue placeholder={_('Select organizational unit')} />
               </SelectTrigger>
               <SelectContent>
                 {COMMON_OUS.map((ou) => (
@@ -317,7 +328,7 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
           {selectedOU === 'OU=Custom' && (
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="customOU" className="text-right">
-                Custom OU
+                {_('Custom OU')}
               </Label>
               <Input
                 id="customOU"
@@ -334,18 +345,20 @@ export const MoveGroupDialog: React.FC<MoveGroupDialogProps> = ({
               <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
+
+          <CommandPreview operation={previewMove} disabled={!groupName || !previewTargetOU.trim()} />
         </div>
 
         <DialogFooter>
           <Button type="button" variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             onClick={handleSubmit}
             disabled={loading || !isFormValid()}
           >
             {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            {loading ? 'Moving...' : 'Move Group'}
+            {loading ? _('Moving...') : _('Move Group')}
           </Button>
         </DialogFooter>
       </DialogContent>
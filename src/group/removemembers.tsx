@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -14,10 +14,14 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { Users, AlertTriangle } from 'lucide-react'
 import { useGroupMembers } from './hooks/useGroups'
 import { useGroupMutations } from './hooks/useGroupMutations'
+import { GroupAPI } from '@/services/group-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 interface RemoveMembersDialogProps {
   isOpen?: boolean;
@@ -48,13 +52,13 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
   const { members, loading: membersLoading, error: membersError, refresh } = useGroupMembers(groupName)
   const { removeMembers } = useGroupMutations(
     () => {
-      toast.success('Members removed successfully')
+      toast.success(_('Members removed successfully'))
       setSelectedMembers([])
       refresh()
       onMembersRemoved?.()
     },
     (error) => {
-      toast.error(`Failed to remove members: ${error}`)
+      toast.error(format(_('Failed to remove members: $0'), error))
     }
   )
 
@@ -90,6 +94,11 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
     }
   }
 
+  const previewRemove = useCallback(
+    (api: PreviewScope) => api(GroupAPI).removeMembers(groupName, selectedMembers),
+    [groupName, selectedMembers]
+  )
+
   const handleRemoveMembers = async () => {
     if (selectedMembers.length === 0) return
 
@@ -127,10 +136,10 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="h-5 w-5" />
-            Remove Members from: {groupName}
+            {format(_('Remove Members from: $0'), groupName)}
           </DialogTitle>
           <DialogDescription>
-            Select members to remove from the group
+            {_('Select members to remove from the group')}
           </DialogDescription>
         </DialogHeader>
 
@@ -138,7 +147,7 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
           <Alert className="border-red-200 bg-red-50">
             <AlertTriangle className="h-4 w-4 text-red-600" />
             <AlertDescription className="text-red-800">
-              Error loading group members: {membersError}
+              {format(_('Error loading group members: $0'), membersError)}
             </AlertDescription>
           </Alert>
         )}
@@ -146,7 +155,7 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
         <div className="space-y-4">
           <div className="flex items-center gap-2">
             <Input
-              placeholder="Search members..."
+              placeholder={_('Search members...')}
               value={searchTerm}
               onChange={(e) => handleSearchChange(e.target.value)}
               className="flex-1"
@@ -156,15 +165,14 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
               size="sm"
               onClick={() => handleSelectAll(selectedMembers.length !== filteredMembers.length)}
             >
-              {selectedMembers.length === filteredMembers.length ? 'Deselect All' : 'Select All'}
+              {selectedMembers.length === filteredMembers.length ? _('Deselect All') : _('Select All')}
             </Button>
           </div>
 
           <Card>
             <CardHeader>
               <CardTitle className="text-sm">
-                Members ({filteredMembers.length})
-                {selectedMembers.length > 0 && ` - ${selectedMembers.length} selected`}
+                {format(_('Members ($0)'), filteredMembers.length)}{selectedMembers.length > 0 && format(_(' - $0 selected'), selectedMembers.length)}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -178,9 +186,9 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
                   ? (
                 <div className="text-center py-8">
                   <Users className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-2 text-sm font-medium">No members found</h3>
+                  <h3 className="mt-2 text-sm font-medium">{_('No members found')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    {searchTerm ? 'No members match your search criteria.' : 'This group has no members.'}
+                    {searchTerm ? _('No members match your search criteria.') : _('This group has no members.')}
                   </p>
                 </div>
                     )
@@ -204,23 +212,24 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
             <Alert className="border-orange-200 bg-orange-50">
               <AlertTriangle className="h-4 w-4 text-orange-600" />
               <AlertDescription className="text-orange-800">
-                <strong>Warning:</strong> You are about to remove {selectedMembers.length} member(s) from the group.
-                This action cannot be undone.
+                <strong>{_('Warning:')}</strong>{' '}{format(_('You are about to remove $0 member(s) from the group. This action cannot be undone.'), selectedMembers.length)}
               </AlertDescription>
             </Alert>
           )}
+
+          <CommandPreview operation={previewRemove} disabled={!groupName || selectedMembers.length === 0} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             onClick={handleRemoveMembers}
             disabled={selectedMembers.length === 0 || isRemoving}
             variant="destructive"
           >
-            {isRemoving ? 'Removing...' : `Remove ${selectedMembers.length} Member(s)`}
+            {isRemoving ? _('Removing...') : format(_('Remove $0 Member(s)'), selectedMembers.length)}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -234,7 +243,7 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
       <div className="space-y-4">
         <div className="flex items-center gap-2">
           <Input
-            placeholder="Enter group name"
+            placeholder={_('Enter group name')}
             value={internalGroupName}
             onChange={(e) => handleInputChange(e.target.value)}
           />
@@ -242,7 +251,7 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
             onClick={handleShowDialog}
             disabled={!internalGroupName.trim()}
           >
-            Remove Members
+            {_('Remove Members')}
           </Button>
         </div>
       </div>
@@ -255,10 +264,10 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="h-5 w-5" />
-            Remove Members from: {groupName}
+            {format(_('Remove Members from: $0'), groupName)}
           </DialogTitle>
           <DialogDescription>
-            Select members to remove from the group
+            {_('Select members to remove from the group')}
           </DialogDescription>
         </DialogHeader>
 
@@ -266,7 +275,7 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
           <Alert className="border-red-200 bg-red-50">
             <AlertTriangle className="h-4 w-4 text-red-600" />
             <AlertDescription className="text-red-800">
-              Error loading group members: {membersError}
+              {format(_('Error loading group members: $0'), membersError)}
             </AlertDescription>
           </Alert>
         )}
@@ -274,7 +283,7 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
         <div className="space-y-4">
           <div className="flex items-center gap-2">
             <Input
-              placeholder="Search members..."
+              placeholder={_('Search members...')}
               value={searchTerm}
               onChange={(e) => handleSearchChange(e.target.value)}
               className="flex-1"
@@ -284,15 +293,14 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
               size="sm"
               onClick={() => handleSelectAll(selectedMembers.length !== filteredMembers.length)}
             >
-              {selectedMembers.length === filteredMembers.length ? 'Deselect All' : 'Select All'}
+              {selectedMembers.length === filteredMembers.length ? _('Deselect All') : _('Select All')}
             </Button>
           </div>
 
           <Card>
             <CardHeader>
               <CardTitle className="text-sm">
-                Members ({filteredMembers.length})
-                {selectedMembers.length > 0 && ` - ${selectedMembers.length} selected`}
+                {format(_('Members ($0)'), filteredMembers.length)}{selectedMembers.length > 0 && format(_(' - $0 selected'), selectedMembers.length)}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -306,9 +314,9 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
                   ? (
                 <div className="text-center py-8">
                   <Users className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-2 text-sm font-medium">No members found</h3>
+                  <h3 className="mt-2 text-sm font-medium">{_('No members found')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    {searchTerm ? 'No members match your search criteria.' : 'This group has no members.'}
+                    {searchTerm ? _('No members match your search criteria.') : _('This group has no members.')}
                   </p>
                 </div>
                     )
@@ -332,23 +340,24 @@ export const RemoveMembersDialog: React.FC<RemoveMembersDialogProps> = ({
             <Alert className="border-orange-200 bg-orange-50">
               <AlertTriangle className="h-4 w-4 text-orange-600" />
               <AlertDescription className="text-orange-800">
-                <strong>Warning:</strong> You are about to remove {selectedMembers.length} member(s) from the group.
-                This action cannot be undone.
+                <strong>{_('Warning:')}</strong>{' '}{format(_('You are about to remove $0 member(s) from the group. This action cannot be undone.'), selectedMembers.length)}
               </AlertDescription>
             </Alert>
           )}
+
+          <CommandPreview operation={previewRemove} disabled={!groupName || selectedMembers.length === 0} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             onClick={handleRemoveMembers}
             disabled={selectedMembers.length === 0 || isRemoving}
             variant="destructive"
           >
-            {isRemoving ? 'Removing...' : `Remove ${selectedMembers.length} Member(s)`}
+            {isRemoving ? _('Removing...') : format(_('Remove $0 Member(s)'), selectedMembers.length)}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -16,6 +16,7 @@ import { LoadingSpinner } from '@/components/ui/loading-spinner'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Users, Info } from 'lucide-react'
 import { useGroupDetails, useGroupMembers } from './hooks/useGroups'
+import { _, format } from '@/lib/i18n'
 
 interface GroupDetailsDialogProps {
   isOpen?: boolean;
@@ -66,10 +67,10 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="h-5 w-5" />
-            Group Details: {groupName}
+            {format(_('Group Details: $0'), groupName)}
           </DialogTitle>
           <DialogDescription>
-            View group information and manage members
+            {_('View group information and manage members')}
           </DialogDescription>
         </DialogHeader>
 
@@ -77,21 +78,21 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
           <Alert className="border-red-200 bg-red-50">
             <Info className="h-4 w-4 text-red-600" />
             <AlertDescription className="text-red-800">
-              Error loading group details: {groupError}
+              {format(_('Error loading group details: $0'), groupError)}
             </AlertDescription>
           </Alert>
         )}
 
         <Tabs defaultValue="details" className="w-full">
           <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="details">Group Details</TabsTrigger>
-            <TabsTrigger value="members">Members</TabsTrigger>
+            <TabsTrigger value="details">{_('Group Details')}</TabsTrigger>
+            <TabsTrigger value="members">{_('Members')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="details" className="space-y-4">
             <Card>
               <CardHeader>
-                <CardTitle>Group Information</CardTitle>
+                <CardTitle>{_('Group Information')}</CardTitle>
               </CardHeader>
               <CardContent>
                 {groupLoading
@@ -105,31 +106,31 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
                   <div className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Name</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Name')}</dt>
                         <dd className="text-sm mt-1">{group.name}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Display Name</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Display Name')}</dt>
                         <dd className="text-sm mt-1">{group.displayName || 'N/A'}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Description</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Description')}</dt>
                         <dd className="text-sm mt-1">{group.description || 'N/A'}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Group Type</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Group Type')}</dt>
                         <dd className="text-sm mt-1">{group.groupType || 'N/A'}</dd>
                       </div>
                       <div className="col-span-2">
-                        <dt className="text-sm font-medium text-muted-foreground">Distinguished Name</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Distinguished Name')}</dt>
                         <dd className="text-sm mt-1 font-mono break-all">{group.distinguishedName}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">SID</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('SID')}</dt>
                         <dd className="text-sm mt-1 font-mono">{group.sid || 'N/A'}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Member Count</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Member Count')}</dt>
                         <dd className="text-sm mt-1">{group.memberCount || 0}</dd>
                       </div>
                     </div>
@@ -138,9 +139,9 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
                     : (
                   <div className="text-center py-8">
                     <Users className="mx-auto h-12 w-12 text-muted-foreground" />
-                    <h3 className="mt-2 text-sm font-medium">Group not found</h3>
+                    <h3 className="mt-2 text-sm font-medium">{_('Group not found')}</h3>
                     <p className="mt-1 text-sm text-muted-foreground">
-                      The specified group could not be located.
+                      {_('The specified group could not be located.')}
                     </p>
                   </div>
                       )}
@@ -151,14 +152,14 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
           <TabsContent value="members" className="space-y-4">
             <Card>
               <CardHeader>
-                <CardTitle>Group Members</CardTitle>
+                <CardTitle>{_('Group Members')}</CardTitle>
               </CardHeader>
               <CardContent>
                 {membersError && (
                   <Alert className="border-red-200 bg-red-50 mb-4">
                     <Info className="h-4 w-4 text-red-600" />
                     <AlertDescription className="text-red-800">
-                      Error loading members: {membersError}
+                      {format(_('Error loading members: $0'), membersError)}
                     </AlertDescription>
                   </Alert>
                 )}
@@ -183,9 +184,9 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
                     : (
                   <div className="text-center py-8">
                     <Users className="mx-auto h-12 w-12 text-muted-foreground" />
-                    <h3 className="mt-2 text-sm font-medium">No members</h3>
+                    <h3 className="mt-2 text-sm font-medium">{_('No members')}</h3>
                     <p className="mt-1 text-sm text-muted-foreground">
-                      This group currently has no members.
+                      {_('This group currently has no members.')}
                     </p>
                   </div>
                       )}
@@ -196,7 +197,7 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
 
         <DialogFooter>
           <Button variant="outline" onClick={onClose}>
-            Close
+            {_('Close')}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -210,7 +211,7 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
       <div className="space-y-4">
         <div className="flex items-center gap-2">
           <Input
-            placeholder="Enter group name"
+            placeholder={_('Enter group name')}
             value={internalGroupName}
             onChange={(e) => handleInputChange(e, e.target.value)}
           />
@@ -218,7 +219,7 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
             onClick={handleShowGroup}
             disabled={!internalGroupName.trim()}
           >
-            Show Group
+            {_('Show Group')}
           </Button>
         </div>
       </div>
@@ -231,10 +232,10 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="h-5 w-5" />
-            Group Details: {groupName}
+            {format(_('Group Details: $0'), groupName)}
           </DialogTitle>
           <DialogDescription>
-            View group information and manage members
+            {_('View group information and manage members')}
           </DialogDescription>
         </DialogHeader>
 
@@ -242,21 +243,21 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
           <Alert className="border-red-200 bg-red-50">
             <Info className="h-4 w-4 text-red-600" />
             <AlertDescription className="text-red-800">
-              Error loading group details: {groupError}
+              {format(_('Error loading group details: $0'), groupError)}
             </AlertDescription>
           </Alert>
         )}
 
         <Tabs defaultValue="details" className="w-full">
           <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="details">Group Details</TabsTrigger>
-            <TabsTrigger value="members">Members</TabsTrigger>
+            <TabsTrigger value="details">{_('Group Details')}</TabsTrigger>
+            <TabsTrigger value="members">{_('Members')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="details" className="space-y-4">
             <Card>
               <CardHeader>
-                <CardTitle>Group Information</CardTitle>
+                <CardTitle>{_('Group Information')}</CardTitle>
               </CardHeader>
               <CardContent>
                 {groupLoading
@@ -270,31 +271,31 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
                   <div className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Name</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Name')}</dt>
                         <dd className="text-sm mt-1">{group.name}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Display Name</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Display Name')}</dt>
                         <dd className="text-sm mt-1">{group.displayName || 'N/A'}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Description</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Description')}</dt>
                         <dd className="text-sm mt-1">{group.description || 'N/A'}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Group Type</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Group Type')}</dt>
                         <dd className="text-sm mt-1">{group.groupType || 'N/A'}</dd>
                       </div>
                       <div className="col-span-2">
-                        <dt className="text-sm font-medium text-muted-foreground">Distinguished Name</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Distinguished Name')}</dt>
                         <dd className="text-sm mt-1 font-mono break-all">{group.distinguishedName}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">SID</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('SID')}</dt>
                         <dd className="text-sm mt-1 font-mono">{group.sid || 'N/A'}</dd>
                       </div>
                       <div>
-                        <dt className="text-sm font-medium text-muted-foreground">Member Count</dt>
+                        <dt className="text-sm font-medium text-muted-foreground">{_('Member Count')}</dt>
                         <dd className="text-sm mt-1">{group.memberCount || 0}</dd>
                       </div>
                     </div>
@@ -303,9 +304,9 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
                     : (
                   <div className="text-center py-8">
                     <Users className="mx-auto h-12 w-12 text-muted-foreground" />
-                    <h3 className="mt-2 text-sm font-medium">Group not found</h3>
+                    <h3 className="mt-2 text-sm font-medium">{_('Group not found')}</h3>
                     <p className="mt-1 text-sm text-muted-foreground">
-                      The specified group could not be located.
+                      {_('The specified group could not be located.')}
                     </p>
                   </div>
                       )}
@@ -316,14 +317,14 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
           <TabsContent value="members" className="space-y-4">
             <Card>
               <CardHeader>
-                <CardTitle>Group Members</CardTitle>
+                <CardTitle>{_('Group Members')}</CardTitle>
               </CardHeader>
               <CardContent>
                 {membersError && (
                   <Alert className="border-red-200 bg-red-50 mb-4">
                     <Info className="h-4 w-4 text-red-600" />
                     <AlertDescription className="text-red-800">
-                      Error loading members: {membersError}
+                      {format(_('Error loading members: $0'), membersError)}
                     </AlertDescription>
                   </Alert>
                 )}
@@ -348,9 +349,9 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
                     : (
                   <div className="text-center py-8">
                     <Users className="mx-auto h-12 w-12 text-muted-foreground" />
-                    <h3 className="mt-2 text-sm font-medium">No members</h3>
+                    <h3 className="mt-2 text-sm font-medium">{_('No members')}</h3>
                     <p className="mt-1 text-sm text-muted-foreground">
-                      This group currently has no members.
+                      {_('This group currently has no members.')}
                     </p>
                   </div>
                       )}
@@ -361,7 +362,7 @@ export const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({
 
         <DialogFooter>
           <Button variant="outline" onClick={onClose}>
-            Close
+            {_('Close')}
           </Button>
         </DialogFooter>
       </DialogContent>
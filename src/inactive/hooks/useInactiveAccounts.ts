@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react'
+import { InactiveAccountAPI } from '../../services/inactive-api'
+import type { InactiveAccount, InactiveAccountSearch } from '../../types/samba'
+import { ErrorHandler } from '../../lib/errors'
+
+export interface UseInactiveAccountsReturn {
+  accounts: InactiveAccount[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the inactive account report. Pass a memoised search;
+ * the report is re-run whenever it changes.
+ */
+export const useInactiveAccounts = (search: InactiveAccountSearch): UseInactiveAccountsReturn => {
+  const [accounts, setAccounts] = useState<InactiveAccount[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const result = await InactiveAccountAPI.find(search)
+      setAccounts(result)
+    } catch (err) {
+      const apiError = ErrorHandler.handle(err, 'useInactiveAccounts.fetchAccounts', {
+        showToast: false,
+        rethrow: false
+      })
+      setError(apiError.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [search])
+
+  const refresh = useCallback(async () => {
+    await fetchAccounts()
+  }, [fetchAccounts])
+
+  useEffect(() => {
+    fetchAccounts()
+  }, [fetchAccounts])
+
+  return {
+    accounts,
+    loading,
+    error,
+    refresh
+  }
+}
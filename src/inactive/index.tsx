@@ -0,0 +1,310 @@
+import React, { useMemo, useState } from 'react'
+import { createRoot } from 'react-dom/client'
+import { Download, RefreshCw, Search, ShieldOff, UserX } from 'lucide-react'
+import { toast } from 'sonner'
+import '../user/tailwind.css'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { DataTable, type DataTableColumn } from '@/components/ui/data-table'
+import { ErrorAlert } from '@/components/ui/error-alert'
+import { BackButton } from '../common'
+import { RemediateDialog } from './remediate'
+import { useInactiveAccounts } from './hooks/useInactiveAccounts'
+import { exportInactiveAccounts } from '@/services/inactive-api'
+import { EXPORT_MIME_TYPES, type ExportFormat } from '@/services/user-export'
+import { downloadFile } from '@/lib/utils'
+import type { InactiveAccount, InactiveAccountSearch } from '@/types/samba'
+import { _, format, formatDate, ngettext } from '@/lib/i18n'
+
+const DEFAULT_SEARCH: InactiveAccountSearch = {
+  days: 90,
+  users: true,
+  computers: true,
+  includeDisabled: false
+}
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  csv: _('CSV'),
+  json: _('JSON'),
+  xlsx: _('Excel (XLSX)')
+}
+
+const dateCell = (date?: Date) => date
+  ? <span className="text-sm whitespace-nowrap">{formatDate(date)}</span>
+  : <span className="text-muted-foreground">{_('Never')}</span>
+
+function InactiveAccountsPage () {
+  const [criteria, setCriteria] = useState<InactiveAccountSearch>(DEFAULT_SEARCH)
+  const [search, setSearch] = useState<InactiveAccountSearch>(DEFAULT_SEARCH)
+  const [selected, setSelected] = useState<InactiveAccount[]>([])
+  const [remediating, setRemediating] = useState(false)
+  // Remounts the table after a refresh, clearing its selection
+  const [generation, setGeneration] = useState(0)
+
+  const { accounts, loading, error, refresh } = useInactiveAccounts(search)
+
+  const updateCriteria = <K extends keyof InactiveAccountSearch>(key: K, value: InactiveAccountSearch[K]) => {
+    setCriteria(prev => ({ ...prev, [key]: value }))
+  }
+
+  const runSearch = () => {
+    setSelected([])
+    setGeneration(prev => prev + 1)
+    setSearch({ ...criteria, days: Math.max(1, Math.floor(criteria.days) || DEFAULT_SEARCH.days) })
+  }
+
+  const reload = async () => {
+    setSelected([])
+    setGeneration(prev => prev + 1)
+    await refresh()
+  }
+
+  const exportReport = (fileFormat: ExportFormat) => {
+    const stamp = new Date().toISOString().slice(0, 10)
+    downloadFile(
+      `inactive-accounts-${stamp}.${fileFormat}`,
+      exportInactiveAccounts(accounts, fileFormat),
+      EXPORT_MIME_TYPES[fileFormat]
+    )
+    toast.success(format(ngettext('Exported $0 account', 'Exported $0 accounts', accounts.length), accounts.length))
+  }
+
+  const columns = useMemo<DataTableColumn<InactiveAccount>[]>(() => [
+    {
+      key: 'kind',
+      header: _('Type'),
+      sortable: true,
+      render: (account) => (
+        <Badge variant="outline">{account.kind === 'user' ? _('User') : _('Computer')}</Badge>
+      )
+    },
+    {
+      key: 'name',
+      header: _('Name'),
+      sortable: true,
+      searchable: true,
+      render: (account) => (
+        <div>
+          <div className="font-medium">{account.name}</div>
+          {account.displayName && (
+            <div className="text-xs text-muted-foreground">{account.displayName}</div>
+          )}
+        </div>
+      )
+    },
+    {
+      key: 'enabled',
+      header: _('Status'),
+      sortable: true,
+      render: (account) => (
+        <Badge variant={account.enabled ? 'default' : 'secondary'}>
+          {account.enabled ? _('Enabled') : _('Disabled')}
+        </Badge>
+      )
+    },
+    {
+      key: 'lastLogonTimestamp',
+      header: _('Last Logon'),
+      sortable: true,
+      render: (account) => dateCell(account.lastLogonTimestamp)
+    },
+    {
+      key: 'passwordLastSet',
+      header: _('Password Last Set'),
+      sortable: true,
+      render: (account) => dateCell(account.passwordLastSet)
+    },
+    {
+      key: 'inactiveDays',
+      header: _('Inactive'),
+      sortable: true,
+      render: (account) => (
+        <span className="whitespace-nowrap">
+          {format(ngettext('$0 day', '$0 days', account.inactiveDays), account.inactiveDays)}
+        </span>
+      )
+    },
+    {
+      key: 'description',
+      header: _('Description'),
+      searchable: true,
+      render: (account) => (
+        <div className="text-sm max-w-[240px] truncate">{account.description}</div>
+      )
+    }
+  ], [])
+
+  return (
+        <div className="min-h-screen bg-background">
+            <div className="container mx-auto p-6 space-y-6">
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <BackButton />
+                        <div>
+                            <h1 className="text-3xl font-bold tracking-tight">{_('Inactive Accounts')}</h1>
+                            <p className="text-muted-foreground">
+                                {_('Users and computers that have not logged on or changed their password for a while')}
+                            </p>
+                        </div>
+                    </div>
+                    <Button variant="outline" onClick={reload} disabled={loading}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        {_('Refresh')}
+                    </Button>
+                </div>
+
+                {/* Criteria */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{_('Criteria')}</CardTitle>
+                        <CardDescription>
+                            {_('Uses the replicated last logon time, which domain controllers update only every 9 to 14 days. Accounts that never logged on count from their creation.')}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="flex flex-wrap items-end gap-6">
+                            <div className="space-y-2">
+                                <Label htmlFor="inactive-days">{_('Inactive for at least (days)')}</Label>
+                                <Input
+                                    id="inactive-days"
+                                    type="number"
+                                    min={1}
+                                    className="w-32"
+                                    value={Number.isNaN(criteria.days) ? '' : criteria.days}
+                                    onChange={(e) => updateCriteria('days', e.target.valueAsNumber)}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2 pb-2">
+                                <Checkbox
+                                    id="inactive-users"
+                                    checked={criteria.users}
+                                    onCheckedChange={(checked) => updateCriteria('users', checked === true)}
+                                />
+                                <Label htmlFor="inactive-users">{_('Users')}</Label>
+                            </div>
+                            <div className="flex items-center gap-2 pb-2">
+                                <Checkbox
+                                    id="inactive-computers"
+                                    checked={criteria.computers}
+                                    onCheckedChange={(checked) => updateCriteria('computers', checked === true)}
+                                />
+                                <Label htmlFor="inactive-computers">{_('Computers')}</Label>
+                            </div>
+                            <div className="flex items-center gap-2 pb-2">
+                                <Checkbox
+                                    id="inactive-disabled"
+                                    checked={criteria.includeDisabled}
+                                    onCheckedChange={(checked) => updateCriteria('includeDisabled', checked === true)}
+                                />
+                                <Label htmlFor="inactive-disabled">{_('Include disabled accounts')}</Label>
+                            </div>
+                            <Button onClick={runSearch} disabled={loading || (!criteria.users && !criteria.computers)}>
+                                <Search className="mr-2 h-4 w-4" />
+                                {_('Search')}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {/* Results */}
+                <Card>
+                    <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                        <div className="space-y-1.5">
+                            <CardTitle className="flex items-center gap-2">
+                                <UserX className="h-4 w-4" />
+                                {format(ngettext('$0 Inactive Account', '$0 Inactive Accounts', accounts.length), accounts.length)}
+                            </CardTitle>
+                            <CardDescription>
+                                {_('Select accounts to disable, quarantine or stamp them. Critical system accounts are never listed.')}
+                            </CardDescription>
+                        </div>
+                        <div className="flex gap-2">
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button variant="outline" size="sm" disabled={!accounts.length}>
+                                        <Download className="mr-2 h-4 w-4" />
+                                        {_('Export')}
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                    {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map(fileFormat => (
+                                        <DropdownMenuItem key={fileFormat} onClick={() => exportReport(fileFormat)}>
+                                            {EXPORT_LABELS[fileFormat]}
+                                        </DropdownMenuItem>
+                                    ))}
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+                            <Button size="sm" variant="destructive" disabled={!selected.length} onClick={() => setRemediating(true)}>
+                                <ShieldOff className="mr-2 h-4 w-4" />
+                                {format(_('Remediate Selected ($0)'), selected.length)}
+                            </Button>
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        {error
+                          ? (
+                            <ErrorAlert
+                                error={error}
+                                title={_('Failed to search for inactive accounts')}
+                                onRetry={refresh}
+                                retryLabel={_('Retry')}
+                            />
+                            )
+                          : (
+                            <DataTable
+                                key={generation}
+                                data={accounts}
+                                columns={columns}
+                                loading={loading}
+                                selectable
+                                onSelectionChange={setSelected}
+                                searchPlaceholder={_('Search accounts...')}
+                                emptyMessage={_('No accounts match the criteria')}
+                            />
+                            )}
+                    </CardContent>
+                </Card>
+
+                <RemediateDialog
+                    accounts={selected}
+                    isOpen={remediating}
+                    onClose={() => {
+                      setRemediating(false)
+                      setSelected([])
+                      setGeneration(prev => prev + 1)
+                    }}
+                    onCompleted={refresh}
+                />
+            </div>
+        </div>
+  )
+}
+
+// DOM mounting for standalone usage
+document.addEventListener('DOMContentLoaded', () => {
+  const container = document.getElementById('inactive')
+  if (container) {
+    const root = createRoot(container)
+    root.render(<InactiveAccountsPage />)
+  }
+})
+
+export default InactiveAccountsPage
@@ -0,0 +1,237 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2, ShieldOff } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { CommandPreview } from '@/components/ui/command-preview'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { InactiveAccountAPI } from '@/services/inactive-api'
+import type { PreviewScope } from '@/services/base-api'
+import type { InactiveAccount, InactiveRemediation, InactiveRemediationResult } from '@/types/samba'
+import { _, format, ngettext } from '@/lib/i18n'
+
+interface RemediateDialogProps {
+  accounts: InactiveAccount[];
+  isOpen: boolean;
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+const STATUS_LABELS: Record<InactiveRemediationResult['status'], string> = {
+  done: _('Done'),
+  failed: _('Failed'),
+  skipped: _('Skipped')
+}
+
+const STEP_LABELS: Record<InactiveRemediationResult['steps'][number], string> = {
+  stamp: _('stamped'),
+  disable: _('disabled'),
+  move: _('moved')
+}
+
+const defaultStamp = () => format(_('[Inactive $0]'), new Date().toISOString().slice(0, 10))
+
+export function RemediateDialog ({ accounts, isOpen, onClose, onCompleted }: RemediateDialogProps) {
+  const [disable, setDisable] = useState(true)
+  const [moveTo, setMoveTo] = useState('')
+  const [stamp, setStamp] = useState(defaultStamp)
+  const [step, setStep] = useState<'plan' | 'running' | 'done'>('plan')
+  const [results, setResults] = useState<InactiveRemediationResult[]>([])
+  const abortController = useRef<AbortController | null>(null)
+
+  const remediation = useMemo<InactiveRemediation>(() => ({
+    disable,
+    moveTo: moveTo.trim() || undefined,
+    stamp: stamp.trim() || undefined
+  }), [disable, moveTo, stamp])
+  const nothingToDo = !remediation.disable && !remediation.moveTo && !remediation.stamp
+
+  const previewRemediation = useCallback(
+    (api: PreviewScope) => api(InactiveAccountAPI).remediate(accounts, remediation),
+    [accounts, remediation]
+  )
+
+  const run = async () => {
+    const controller = new AbortController()
+    abortController.current = controller
+    setResults([])
+    setStep('running')
+
+    try {
+      const finished = await InactiveAccountAPI.remediate(accounts, remediation, {
+        signal: controller.signal,
+        onResult: result => setResults(previous => [...previous, result])
+      })
+      setResults(finished)
+
+      const done = finished.filter(result => result.status === 'done').length
+      toast.success(format(ngettext('Remediated $0 account', 'Remediated $0 accounts', done), done))
+    } finally {
+      abortController.current = null
+      setStep('done')
+      onCompleted()
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return
+    abortController.current?.abort()
+    setStep('plan')
+    setResults([])
+    setStamp(defaultStamp())
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldOff className="h-5 w-5" />
+            {_('Remediate Inactive Accounts')}
+          </DialogTitle>
+          <DialogDescription>
+            {format(ngettext(
+              'Apply the steps below to $0 selected account. Each account is handled in turn; a failure does not stop the others.',
+              'Apply the steps below to $0 selected accounts. Each account is handled in turn; a failure does not stop the others.',
+              accounts.length
+            ), accounts.length)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'plan' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="remediate-stamp">{_('Description stamp')}</Label>
+              <Input
+                id="remediate-stamp"
+                value={stamp}
+                onChange={(e) => setStamp(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {_('Prefixed to the description so the reason stays on the account. Leave empty to keep descriptions unchanged.')}
+              </p>
+            </div>
+
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="remediate-disable"
+                checked={disable}
+                onCheckedChange={(checked) => setDisable(checked === true)}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="remediate-disable">{_('Disable the accounts')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {_('Accounts that are already disabled are left as they are.')}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="remediate-move">{_('Move to quarantine OU')}</Label>
+              <Input
+                id="remediate-move"
+                placeholder="OU=Quarantine,DC=example,DC=com"
+                value={moveTo}
+                onChange={(e) => setMoveTo(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {_('Optional. The OU must already exist.')}
+              </p>
+            </div>
+
+            <CommandPreview operation={previewRemediation} disabled={nothingToDo} />
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                {_('Cancel')}
+              </Button>
+              <Button variant="destructive" onClick={run} disabled={nothingToDo || !accounts.length}>
+                {format(ngettext('Remediate $0 Account', 'Remediate $0 Accounts', accounts.length), accounts.length)}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {(step === 'running' || step === 'done') && (
+          <div className="space-y-4">
+            <Progress value={accounts.length ? (results.length / accounts.length) * 100 : 100} />
+            <div className="flex gap-2">
+              <Badge className="bg-green-600">
+                {format(_('$0 done'), results.filter(result => result.status === 'done').length)}
+              </Badge>
+              <Badge variant="secondary">
+                {format(_('$0 skipped'), results.filter(result => result.status === 'skipped').length)}
+              </Badge>
+              <Badge variant="destructive">
+                {format(_('$0 failed'), results.filter(result => result.status === 'failed').length)}
+              </Badge>
+            </div>
+
+            <div className="max-h-[40vh] overflow-auto rounded border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{_('Account')}</TableHead>
+                    <TableHead>{_('Status')}</TableHead>
+                    <TableHead>{_('Steps')}</TableHead>
+                    <TableHead>{_('Message')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(result => (
+                    <TableRow key={result.account.distinguishedName}>
+                      <TableCell className="font-mono">{result.account.name}</TableCell>
+                      <TableCell>
+                        <Badge variant={result.status === 'failed' ? 'destructive' : result.status === 'done' ? 'default' : 'secondary'}>
+                          {STATUS_LABELS[result.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {result.steps.map(done => STEP_LABELS[done]).join(', ')}
+                      </TableCell>
+                      <TableCell className="text-xs">{result.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <DialogFooter>
+              {step === 'running'
+                ? (
+                <Button variant="outline" onClick={() => abortController.current?.abort()}>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {_('Stop')}
+                </Button>
+                  )
+                : (
+                <Button onClick={() => handleOpenChange(false)}>{_('Close')}</Button>
+                  )}
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
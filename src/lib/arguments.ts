@@ -0,0 +1,314 @@
+// Command Argument Validation
+
+import { ValidationError } from './errors'
+import { _, format } from './i18n'
+
+/**
+ * What a command argument holds. Commands are spawned as argv arrays, so
+ * there is no shell to escape; each kind is checked for the syntax the
+ * receiving tool expects and rejected, never rewritten, when it is invalid.
+ */
+export type ArgumentKind = 'dn' | 'sddl' | 'ldapFilter' | 'password' | 'hostname' | 'text'
+
+const MAX_LENGTH: Record<ArgumentKind, number> = {
+  dn: 2048,
+  sddl: 65536,
+  ldapFilter: 65536,
+  password: 256,
+  hostname: 253,
+  text: 4096
+}
+
+// Option values by option name, with or without a leading `--`
+const OPTION_KINDS: Record<string, ArgumentKind> = {
+  objectdn: 'dn',
+  trusteedn: 'dn',
+  userou: 'dn',
+  computerou: 'dn',
+  groupou: 'dn',
+  newbasedn: 'dn',
+  sddl: 'sddl',
+  filter: 'ldapFilter',
+  password: 'password',
+  newpassword: 'password',
+  adminpass: 'password',
+  machinepass: 'password',
+  krbtgtpass: 'password',
+  dnspass: 'password',
+  ldapadminpass: 'password',
+  server: 'hostname'
+}
+
+// Positional arguments of samba-tool commands, by argv index
+const POSITIONAL_KINDS: Record<string, Record<number, ArgumentKind>> = {
+  'user create': { 4: 'password' },
+  'user add': { 4: 'password' },
+  'user move': { 4: 'dn' },
+  'group move': { 4: 'dn' },
+  'computer move': { 4: 'dn' },
+  'contact move': { 4: 'dn' },
+  'ou create': { 3: 'dn' },
+  'ou delete': { 3: 'dn' },
+  'ou move': { 3: 'dn', 4: 'dn' },
+  'ou rename': { 3: 'dn', 4: 'dn' },
+  'ou listobjects': { 3: 'dn' },
+  'gpo getlink': { 3: 'dn' },
+  'gpo setlink': { 3: 'dn' },
+  'gpo dellink': { 3: 'dn' },
+  'gpo getinheritance': { 3: 'dn' },
+  'gpo setinheritance': { 3: 'dn' },
+  'ntacl set': { 3: 'sddl' },
+  'dns add': { 3: 'hostname' },
+  'dns delete': { 3: 'hostname' },
+  'dns update': { 3: 'hostname' },
+  'dns query': { 3: 'hostname' },
+  'dns zonecreate': { 3: 'hostname' },
+  'dns zonedelete': { 3: 'hostname' },
+  'dns zonelist': { 3: 'hostname' },
+  'dns zoneinfo': { 3: 'hostname' },
+  'dns serverinfo': { 3: 'hostname' },
+  'dns cleanup': { 3: 'hostname' }
+}
+
+const DESCRIPTIONS: Record<ArgumentKind, string> = {
+  dn: 'distinguished name',
+  sddl: 'SDDL string',
+  ldapFilter: 'LDAP filter',
+  password: 'password',
+  hostname: 'host name',
+  text: 'value'
+}
+
+const HOSTNAME_LABEL = '[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?'
+const HOSTNAME_PATTERN = new RegExp(`^${HOSTNAME_LABEL}(?:\\.${HOSTNAME_LABEL})*\\.?$`)
+const IPV4_PATTERN = /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/
+const IPV6_PATTERN = /^[0-9A-Fa-f:.]*:[0-9A-Fa-f:.]*(?:%[A-Za-z0-9]+)?$/
+const ATTRIBUTE_TYPE_PATTERN = /^\s*(?:[A-Za-z][A-Za-z0-9-]*|\d+(?:\.\d+)*)\s*$/
+const SDDL_PATTERN = /^(?:[OGDS]:|\()/
+// eslint-disable-next-line no-control-regex
+const CONTROL_PATTERN = /[\u0000-\u0008\u000a-\u001f\u007f]/
+// eslint-disable-next-line no-control-regex
+const LINE_BREAK_PATTERN = /[\u0000\r\n]/
+
+/**
+ * Check an RFC 4514 distinguished name: a comma separated list of
+ * attribute=value pairs, where special characters in values are escaped
+ */
+export function isValidDN (value: string): boolean {
+  let expectingType = true
+  let type = ''
+  let hasValue = false
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+
+    if (expectingType) {
+      if (char === '=') {
+        if (!ATTRIBUTE_TYPE_PATTERN.test(type)) {
+          return false
+        }
+        expectingType = false
+        hasValue = false
+        type = ''
+      } else if (char === ',' || char === '+') {
+        return false
+      } else {
+        type += char
+      }
+      continue
+    }
+
+    if (char === '\\') {
+      const next = value.slice(i + 1, i + 3)
+      if (/^[0-9A-Fa-f]{2}$/.test(next)) {
+        i += 2
+      } else if (next && ' ,+"\\<>;=#'.includes(next[0])) {
+        i += 1
+      } else {
+        return false
+      }
+      hasValue = true
+    } else if (char === ',' || char === '+') {
+      if (!hasValue) {
+        return false
+      }
+      expectingType = true
+    } else if ('"<>;'.includes(char)) {
+      return false
+    } else if (char.trim()) {
+      hasValue = true
+    }
+  }
+
+  return !expectingType && hasValue
+}
+
+/**
+ * Check that an LDAP filter is fully parenthesised and that every
+ * parenthesis in a value is escaped (see APIUtils.escapeLDAP)
+ */
+export function isValidLDAPFilter (value: string): boolean {
+  if (!value.startsWith('(') || !value.endsWith(')')) {
+    return false
+  }
+
+  let depth = 0
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+
+    if (char === '\\') {
+      if (!/^[0-9A-Fa-f]{2}$/.test(value.slice(i + 1, i + 3))) {
+        return false
+      }
+      i += 2
+    } else if (char === '(') {
+      if (value[i + 1] === ')') {
+        return false
+      }
+      depth++
+    } else if (char === ')') {
+      depth--
+      if (depth < 0 || (depth === 0 && i !== value.length - 1)) {
+        return false
+      }
+    }
+  }
+
+  return depth === 0
+}
+
+/**
+ * Check the outline of an SDDL string: owner, group, DACL and SACL parts
+ * with balanced ACE parentheses (conditional ACEs nest them)
+ */
+export function isValidSDDL (value: string): boolean {
+  if (!SDDL_PATTERN.test(value) || CONTROL_PATTERN.test(value)) {
+    return false
+  }
+
+  let depth = 0
+  for (const char of value) {
+    if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+      if (depth < 0) {
+        return false
+      }
+    }
+  }
+
+  return depth === 0
+}
+
+export function isValidHostname (value: string): boolean {
+  return HOSTNAME_PATTERN.test(value) || IPV4_PATTERN.test(value) || IPV6_PATTERN.test(value)
+}
+
+/**
+ * Validate a single argument, throwing a ValidationError naming the
+ * argument when it does not match its kind
+ */
+export function validateArgument (kind: ArgumentKind, value: string, field?: string): void {
+  const description = DESCRIPTIONS[kind]
+  const shown = kind === 'password' ? undefined : value
+
+  const fail = (reason: string): never => {
+    throw new ValidationError(
+      field ? format(_('Invalid $0 for $1: $2'), description, field, reason) : format(_('Invalid $0: $1'), description, reason),
+      field,
+      shown
+    )
+  }
+
+  if (value.length > MAX_LENGTH[kind]) {
+    fail(`longer than ${MAX_LENGTH[kind]} characters`)
+  }
+
+  switch (kind) {
+    case 'password':
+      if (LINE_BREAK_PATTERN.test(value)) {
+        fail('line breaks are not allowed')
+      }
+      return
+    case 'dn':
+      if (!isValidDN(value)) {
+        fail(format(_("'$0' is not of the form CN=name,OU=unit,DC=example,DC=com"), value))
+      }
+      return
+    case 'ldapFilter':
+      if (!isValidLDAPFilter(value)) {
+        fail(format(_("'$0' has unbalanced or unescaped parentheses"), value))
+      }
+      return
+    case 'sddl':
+      if (!isValidSDDL(value)) {
+        fail(format(_("'$0' is not a valid security descriptor"), value))
+      }
+      return
+    case 'hostname':
+      if (!isValidHostname(value)) {
+        fail(format(_("'$0' is not a host name or IP address"), value))
+      }
+      return
+    default:
+      if (CONTROL_PATTERN.test(value)) {
+        fail('control characters are not allowed')
+      }
+  }
+}
+
+/**
+ * Work out the kind of every argument of an argv array from the option it
+ * belongs to or its position in a known samba-tool command. Explicit kinds,
+ * keyed by argv index, take precedence.
+ */
+export function classifyArguments (
+  command: string[],
+  explicit: Record<number, ArgumentKind> = {}
+): ArgumentKind[] {
+  const positional = command[0] === 'samba-tool'
+    ? POSITIONAL_KINDS[`${command[1]} ${command[2]}`] || {}
+    : {}
+
+  return command.map((arg, index) => {
+    if (explicit[index]) {
+      return explicit[index]
+    }
+
+    const previous = command[index - 1]
+    if (previous?.startsWith('--') && OPTION_KINDS[previous.slice(2)]) {
+      return OPTION_KINDS[previous.slice(2)]
+    }
+    if (positional[index] && !arg.startsWith('-')) {
+      return positional[index]
+    }
+
+    return 'text'
+  })
+}
+
+/**
+ * Validate every argument of a command. Inline `--option=value` arguments
+ * are checked against the option's kind.
+ */
+export function validateCommand (
+  command: string[],
+  explicit: Record<number, ArgumentKind> = {}
+): void {
+  const kinds = classifyArguments(command, explicit)
+
+  command.forEach((arg, index) => {
+    const option = arg.match(/^--([A-Za-z-]+)=([\s\S]*)$/)
+    if (option && !explicit[index] && OPTION_KINDS[option[1].toLowerCase()]) {
+      validateArgument(OPTION_KINDS[option[1].toLowerCase()], option[2], `--${option[1]}`)
+      return
+    }
+
+    const previous = command[index - 1]
+    const field = previous?.startsWith('--') && kinds[index] !== 'text'
+      ? previous
+      : `argument ${index}`
+    validateArgument(kinds[index], arg, field)
+  })
+}
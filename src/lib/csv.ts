@@ -0,0 +1,83 @@
+// CSV Reading and Writing
+
+/**
+ * Parse CSV text (RFC 4180) into rows of cells. Quoted cells may contain
+ * commas, doubled quotes and line breaks; blank lines are dropped.
+ */
+export function parseCSV (text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row)
+    }
+    row = []
+    cell = ''
+  }
+
+  // Spreadsheets often save UTF-8 with a byte order mark
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length) {
+    endRow()
+  }
+
+  return rows
+}
+
+/**
+ * Guess the delimiter of a CSV file from its header line; spreadsheets in
+ * locales with a decimal comma save with semicolons
+ */
+export function detectDelimiter (text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] || ''
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: header.split(delimiter).length }))
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter
+}
+
+/**
+ * Serialize rows to CSV. Cells that a spreadsheet would run as a formula
+ * are prefixed with a quote.
+ */
+export function toCSV (rows: unknown[][]): string {
+  return rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function formatCell (value: unknown): string {
+  let text = value === undefined || value === null ? '' : value instanceof Date ? value.toISOString() : String(value)
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
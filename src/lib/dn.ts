@@ -0,0 +1,64 @@
+// Distinguished names (RFC 4514)
+
+/**
+ * Split a DN into its RDNs. Escaped commas ("CN=Doe\, John") and hex
+ * escapes stay inside their RDN, still escaped.
+ */
+export function splitDN (dn: string): string[] {
+  const rdns: string[] = []
+  let current = ''
+
+  for (let i = 0; i < dn.length; i++) {
+    if (dn[i] === '\\' && i + 1 < dn.length) {
+      current += dn[i] + dn[++i]
+    } else if (dn[i] === ',') {
+      rdns.push(current.trimStart())
+      current = ''
+    } else {
+      current += dn[i]
+    }
+  }
+  if (current.trim()) {
+    rdns.push(current.trimStart())
+  }
+
+  return rdns
+}
+
+/**
+ * The DN of the container an object is in, e.g. "OU=Staff,DC=samdom,DC=example,DC=com"
+ */
+export function parentDN (dn: string): string {
+  return splitDN(dn).slice(1).join(',')
+}
+
+/**
+ * Undo RFC 4514 escaping: "\," and the like, and hex escapes of UTF-8 bytes
+ */
+export function unescapeDNValue (value: string): string {
+  return value.replace(/((?:\\[0-9a-fA-F]{2})+)|\\(.)/g, (_, hex: string | undefined, char: string | undefined) => {
+    if (!hex) return char ?? ''
+    try {
+      return decodeURIComponent(hex.replace(/\\/g, '%'))
+    } catch {
+      return hex.replace(/\\([0-9a-fA-F]{2})/g, (__, byte: string) => String.fromCharCode(parseInt(byte, 16)))
+    }
+  })
+}
+
+/**
+ * The attribute type and unescaped value of the first RDN, e.g.
+ * ["CN", "Doe, John"] for "CN=Doe\, John,OU=Staff"
+ */
+export function firstRDN (dn: string): [string, string] {
+  const [rdn = ''] = splitDN(dn)
+  const separator = rdn.indexOf('=')
+  return separator < 0 ? ['', unescapeDNValue(rdn)] : [rdn.slice(0, separator).trim(), unescapeDNValue(rdn.slice(separator + 1))]
+}
+
+/**
+ * The unescaped value of the first RDN, e.g. "Doe, John" for "CN=Doe\, John,OU=Staff"
+ */
+export function rdnValue (dn: string): string {
+  return firstRDN(dn)[1]
+}
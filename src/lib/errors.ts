@@ -1,5 +1,9 @@
 // Error Handling Utilities
 
+import { redactSecrets, redactText } from './redact'
+import { _, format } from './i18n'
+import { lookupLdapResult, lookupNTStatus, lookupWerror, type SambaStatus } from './samba-codes'
+
 export class APIError extends Error {
   constructor (
     message: string,
@@ -7,8 +11,9 @@ export class APIError extends Error {
     public details?: unknown,
     public statusCode?: number
   ) {
-    super(message)
+    super(redactText(message))
     this.name = 'APIError'
+    this.details = redactSecrets(details)
 
     // Maintain proper stack trace for V8 engines
     if (Error.captureStackTrace) {
@@ -35,14 +40,14 @@ export class ValidationError extends APIError {
 }
 
 export class AuthenticationError extends APIError {
-  constructor (message: string = 'Authentication required') {
+  constructor (message: string = _('Authentication required')) {
     super(message, 'AUTH_ERROR', undefined, 401)
     this.name = 'AuthenticationError'
   }
 }
 
 export class AuthorizationError extends APIError {
-  constructor (message: string = 'Insufficient permissions') {
+  constructor (message: string = _('Insufficient permissions')) {
     super(message, 'AUTHORIZATION_ERROR', undefined, 403)
     this.name = 'AuthorizationError'
   }
@@ -51,8 +56,8 @@ export class AuthorizationError extends APIError {
 export class NotFoundError extends APIError {
   constructor (resource: string, id?: string) {
     const message = id
-      ? `${resource} with id '${id}' not found`
-      : `${resource} not found`
+      ? format(_("$0 with id '$1' not found"), resource, id)
+      : format(_('$0 not found'), resource)
     super(message, 'NOT_FOUND', { resource, id }, 404)
     this.name = 'NotFoundError'
   }
@@ -66,7 +71,7 @@ export class ConflictError extends APIError {
 }
 
 export class NetworkError extends APIError {
-  constructor (message: string = 'Network connection failed') {
+  constructor (message: string = _('Network connection failed')) {
     super(message, 'NETWORK_ERROR')
     this.name = 'NetworkError'
   }
@@ -74,13 +79,98 @@ export class NetworkError extends APIError {
 
 export class TimeoutError extends APIError {
   constructor (operation: string, timeout: number) {
-    super(`Operation '${operation}' timed out after ${timeout}ms`, 'TIMEOUT_ERROR')
+    super(format(_("Operation '$0' timed out after $1ms"), operation, timeout), 'TIMEOUT_ERROR')
     this.name = 'TimeoutError'
   }
 }
 
+/**
+ * Raised when the installed Samba lacks a command or feature an operation
+ * needs
+ */
+export class UnsupportedError extends APIError {
+  constructor (message: string, public requirement?: unknown) {
+    super(message, 'UNSUPPORTED', requirement)
+    this.name = 'UnsupportedError'
+  }
+}
+
+/**
+ * Raised when a command is stopped through its AbortSignal. Whatever the
+ * command printed before it was stopped is kept in partialOutput.
+ */
+export class CancelledError extends APIError {
+  constructor (public partialOutput: string = '', message: string = _('Operation cancelled')) {
+    super(message, 'CANCELLED')
+    this.name = 'CancelledError'
+  }
+
+  /**
+   * Lines of partial output, for operations that report one result per line
+   */
+  get partialLines (): string[] {
+    return this.partialOutput.split('\n').filter(line => line.trim() !== '')
+  }
+}
+
+/**
+ * A failure samba-tool reported with a status code. The code is stable and
+ * can be matched on; explanation and remedy are translated for display.
+ */
+export class SambaError extends APIError {
+  public explanation: string
+  public remedy?: string
+  /**
+   * Whether running the same command again may succeed
+   */
+  public transient: boolean
+
+  constructor (message: string, status: SambaStatus, details?: unknown) {
+    super(message, status.code, details)
+    this.name = 'SambaError'
+    this.explanation = _(status.explanation)
+    this.remedy = status.remedy && _(status.remedy)
+    this.transient = Boolean(status.transient)
+  }
+}
+
+/**
+ * An LDAP result code from ldb, e.g. `(68, 'Entry ... already exists')`
+ */
+export class LDAPError extends SambaError {
+  constructor (message: string, public resultCode: number, details?: unknown) {
+    super(message, lookupLdapResult(resultCode), details)
+    this.name = 'LDAPError'
+  }
+}
+
+/**
+ * A Windows error code, e.g. `WERR_DNS_ERROR_ZONE_DOES_NOT_EXIST`
+ */
+export class WindowsError extends SambaError {
+  constructor (message: string, code: string, details?: unknown) {
+    super(message, lookupWerror(code), details)
+    this.name = 'WindowsError'
+  }
+}
+
+/**
+ * An NTSTATUS code, e.g. `NT_STATUS_LOGON_FAILURE`
+ */
+export class NTStatusError extends SambaError {
+  constructor (message: string, code: string, details?: unknown) {
+    super(message, lookupNTStatus(code), details)
+    this.name = 'NTStatusError'
+  }
+}
+
 // Error Parser for Samba Tool Output
 export class SambaErrorParser {
+  private static readonly NT_STATUS_PATTERN = /\b(NT_STATUS_[A-Z0-9_]+)/
+  private static readonly WERROR_PATTERN = /\b(WERR_[A-Z0-9_]+)/
+  // ldb prints the result code and its message as a Python tuple
+  private static readonly LDAP_PATTERN = /\((\d+), ['"](.*?)['"]\)/
+
   private static readonly ERROR_PATTERNS = {
     USER_EXISTS: /user '(.+)' already exists/i,
     USER_NOT_FOUND: /user '(.+)' not found/i,
@@ -96,6 +186,11 @@ export class SambaErrorParser {
   }
 
   static parseError (output: string, operation?: string): APIError {
+    const coded = this.parseStatusCode(output, operation)
+    if (coded) {
+      return coded
+    }
+
     // Check for specific error patterns
     for (const [errorType, pattern] of Object.entries(this.ERROR_PATTERNS)) {
       const match = output.match(pattern)
@@ -106,48 +201,91 @@ export class SambaErrorParser {
 
     // Generic error fallback
     return new APIError(
-      `Operation failed: ${output.trim() || 'Unknown error'}`,
+      format(_('Operation failed: $0'), output.trim() || _('Unknown error')),
       'SAMBA_ERROR',
       { operation, output }
     )
   }
 
+  /**
+   * Decode the status code in samba-tool's output. NTSTATUS and WERROR are
+   * preferred, as ldb wraps them in a generic LDAP error, e.g.
+   * `(1, 'LDAP client internal error: NT_STATUS_CONNECTION_REFUSED')`.
+   */
+  private static parseStatusCode (output: string, operation?: string): SambaError | null {
+    const details = { operation, output }
+    const ntStatus = output.match(this.NT_STATUS_PATTERN)
+    if (ntStatus) {
+      return new NTStatusError(this.summarize(output, ntStatus), ntStatus[1], details)
+    }
+
+    const werror = output.match(this.WERROR_PATTERN)
+    if (werror) {
+      return new WindowsError(this.summarize(output, werror), werror[1], details)
+    }
+
+    const ldap = output.match(this.LDAP_PATTERN)
+    if (ldap) {
+      return new LDAPError(this.summarize(output, ldap, ldap[2]), Number(ldap[1]), details)
+    }
+
+    return null
+  }
+
+  /**
+   * The line of output that carries the code, without the `ERROR(ldb):`
+   * prefix and with the code replaced by its message, e.g.
+   * `Failed to add user 'alice': Entry CN=alice,... already exists`
+   */
+  private static summarize (output: string, match: RegExpMatchArray, replacement = ''): string {
+    const line = output.split('\n').find(candidate => candidate.includes(match[0])) || ''
+    const summary = line
+      .replace(/^\s*ERROR(\([^)]*\))?:\s*/, '')
+      .replace(match[0], replacement)
+      .replace(/[\s:;,-]*\(\s*\)/, '')
+      .replace(/:?\s+-\s+(?=\S)/, ': ')
+      .replace(/[\s:;,-]+$/, '')
+      .replace(/\s{2,}/g, ' ')
+      .trim()
+    return summary || match[1]
+  }
+
   private static createSpecificError (errorType: string, match: RegExpMatchArray, operation?: string): APIError {
     const [fullMatch, ...groups] = match
 
     switch (errorType) {
       case 'USER_EXISTS':
-        return new ConflictError(`User '${groups[0]}' already exists`)
+        return new ConflictError(format(_("User '$0' already exists"), groups[0]))
 
       case 'USER_NOT_FOUND':
-        return new NotFoundError('User', groups[0])
+        return new NotFoundError(_('User'), groups[0])
 
       case 'GROUP_EXISTS':
-        return new ConflictError(`Group '${groups[0]}' already exists`)
+        return new ConflictError(format(_("Group '$0' already exists"), groups[0]))
 
       case 'GROUP_NOT_FOUND':
-        return new NotFoundError('Group', groups[0])
+        return new NotFoundError(_('Group'), groups[0])
 
       case 'COMPUTER_EXISTS':
-        return new ConflictError(`Computer '${groups[0]}' already exists`)
+        return new ConflictError(format(_("Computer '$0' already exists"), groups[0]))
 
       case 'COMPUTER_NOT_FOUND':
-        return new NotFoundError('Computer', groups[0])
+        return new NotFoundError(_('Computer'), groups[0])
 
       case 'INVALID_PASSWORD':
-        return new ValidationError('Password does not meet complexity requirements', 'password')
+        return new ValidationError(_('Password does not meet complexity requirements'), 'password')
 
       case 'ACCESS_DENIED':
-        return new AuthorizationError('Insufficient privileges to perform this operation')
+        return new AuthorizationError(_('Insufficient privileges to perform this operation'))
 
       case 'DOMAIN_CONTROLLER_UNREACHABLE':
-        return new NetworkError('Unable to connect to domain controller')
+        return new NetworkError(_('Unable to connect to domain controller'))
 
       case 'INVALID_CREDENTIALS':
-        return new AuthenticationError('Invalid credentials provided')
+        return new AuthenticationError(_('Invalid credentials provided'))
 
       case 'SYNTAX_ERROR':
-        return new ValidationError('Invalid syntax in command parameters')
+        return new ValidationError(_('Invalid syntax in command parameters'))
 
       default:
         return new APIError(fullMatch, errorType, { operation })
@@ -179,13 +317,13 @@ export class ErrorHandler {
     } else if (typeof error === 'string') {
       apiError = new APIError(error, 'STRING_ERROR')
     } else {
-      apiError = new APIError('An unknown error occurred', 'UNKNOWN_ERROR', error)
+      apiError = new APIError(_('An unknown error occurred'), 'UNKNOWN_ERROR', error)
     }
 
     if (logError) {
       console.error(`[${context || 'ErrorHandler'}]:`, {
         error: apiError.toJSON(),
-        originalError: error,
+        originalError: redactSecrets(error),
         stack: apiError.stack
       })
     }
@@ -202,15 +340,17 @@ export class ErrorHandler {
     return apiError
   }
 
+  /**
+   * Only failures that may go away on their own are retried: a busy or
+   * unreachable domain controller, or a timeout. Refusals such as an
+   * existing entry or denied access fail the same way every time.
+   */
   static isRetryableError (error: APIError): boolean {
-    const retryableCodes = [
-      'NETWORK_ERROR',
-      'TIMEOUT_ERROR',
-      'DOMAIN_CONTROLLER_UNREACHABLE'
-    ]
-
-    return retryableCodes.includes(error.code || '') ||
-           Boolean(error.statusCode && error.statusCode >= 500)
+    if (error instanceof SambaError) {
+      return error.transient
+    }
+
+    return ['NETWORK_ERROR', 'TIMEOUT_ERROR'].includes(error.code || '')
   }
 
   static getErrorMessage (error: unknown): string {
@@ -226,7 +366,7 @@ export class ErrorHandler {
       return error
     }
 
-    return 'An unknown error occurred'
+    return _('An unknown error occurred')
   }
 }
 
@@ -273,6 +413,6 @@ export class RetryHandler {
       }
     }
 
-    throw lastError || new APIError('Operation failed after retries')
+    throw lastError || new APIError(_('Operation failed after retries'))
   }
 }
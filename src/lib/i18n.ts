@@ -0,0 +1,75 @@
+// Translation and Locale Formatting
+
+import cockpit from 'cockpit'
+
+/**
+ * Translate a message with the catalogue Cockpit loaded for the session
+ * language (po.<lang>.js). Outside Cockpit the message is returned as is.
+ */
+export function _ (message: string): string {
+  return cockpit.gettext ? cockpit.gettext(message) : message
+}
+
+/**
+ * Mark a message for extraction without translating it yet, for tables
+ * that are translated where they are displayed
+ */
+export function N_ (message: string): string {
+  return message
+}
+
+/**
+ * Translate a message in a context, for short strings whose meaning
+ * depends on where they appear
+ */
+export function C_ (context: string, message: string): string {
+  return cockpit.gettext ? cockpit.gettext(context, message) : message
+}
+
+/**
+ * Translate a message with a plural form chosen for the count
+ */
+export function ngettext (singular: string, plural: string, count: number): string {
+  if (cockpit.ngettext) {
+    return cockpit.ngettext(singular, plural, count)
+  }
+  return count === 1 ? singular : plural
+}
+
+/**
+ * Fill `$0`, `$1`, ... placeholders, as cockpit.format does. Translated
+ * messages keep placeholders so translators can reorder them.
+ */
+export function format (template: string, ...values: unknown[]): string {
+  return template.replace(/\$(\d+)/g, (placeholder, index) => {
+    const value = values[Number(index)]
+    return value === undefined || value === null ? placeholder : String(value)
+  })
+}
+
+/**
+ * BCP 47 tag of the Cockpit session language, e.g. `de-DE`
+ */
+export function getLanguage (): string {
+  const language = cockpit.language || (typeof navigator !== 'undefined' ? navigator.language : '') || 'en'
+  return language.replace('_', '-')
+}
+
+const toDate = (value: Date | string | number): Date =>
+  value instanceof Date ? value : new Date(value)
+
+export function formatDate (value: Date | string | number, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string {
+  return new Intl.DateTimeFormat(getLanguage(), options).format(toDate(value))
+}
+
+export function formatDateTime (value: Date | string | number): string {
+  return formatDate(value, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+export function formatTime (value: Date | string | number): string {
+  return formatDate(value, { timeStyle: 'short' })
+}
+
+export function formatNumber (value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(getLanguage(), options).format(value)
+}
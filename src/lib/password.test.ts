@@ -0,0 +1,35 @@
+import { checkPassword, generatePassword, DEFAULT_PASSWORD_RULES, type PasswordIdentity, type PasswordRules } from './password'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+const failed = (password: string, rules: PasswordRules, identity?: PasswordIdentity) =>
+  checkPassword(password, rules, identity).filter(check => !check.passed).map(check => check.id)
+
+describe('Password policy checks', () => {
+  it('applies the length and complexity rules the way Samba does', () => {
+    expect(failed('Ab1!', DEFAULT_PASSWORD_RULES)).toEqual(['length'])
+    expect(failed('lowercase1', DEFAULT_PASSWORD_RULES)).toEqual(['complexity'])
+    // Three of the four classes are enough
+    expect(failed('Lowercase1', DEFAULT_PASSWORD_RULES)).toEqual([])
+
+    const identity = { username: 'alice', displayName: 'Anne Smith-Jo' }
+    expect(failed('xALICEx-99', DEFAULT_PASSWORD_RULES, identity)).toEqual(['username'])
+    expect(failed('Smithers!99', DEFAULT_PASSWORD_RULES, identity)).toEqual(['displayName'])
+    // Parts of two characters or less are ignored
+    expect(failed('Jo-Jo-Jo!99', DEFAULT_PASSWORD_RULES, identity)).toEqual([])
+
+    expect(checkPassword('alice', { minLength: 0, complexity: false }, identity)).toEqual([])
+  })
+
+  it('generates passwords that meet the policy', () => {
+    const rules = { minLength: 20, complexity: true }
+    const identity = { username: 'bob', displayName: 'Bob Jones' }
+
+    for (let i = 0; i < 20; i++) {
+      const password = generatePassword(rules, identity)
+      expect(password).toHaveLength(20)
+      expect(failed(password, rules, identity)).toEqual([])
+    }
+    expect(generatePassword()).toHaveLength(16)
+  })
+})
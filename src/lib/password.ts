@@ -0,0 +1,137 @@
+// Password Generation and Policy Checks
+
+import type { PasswordSettings } from '../types/samba'
+import { _, format, ngettext } from './i18n'
+
+/**
+ * The parts of a password policy a single password can be checked against
+ */
+export type PasswordRules = Pick<PasswordSettings, 'minLength' | 'complexity'>
+
+/**
+ * What Samba uses when the domain settings cannot be read
+ */
+export const DEFAULT_PASSWORD_RULES: PasswordRules = { minLength: 7, complexity: true }
+
+/**
+ * The account the password is for; complex passwords must not contain
+ * its name
+ */
+export interface PasswordIdentity {
+  username?: string;
+  displayName?: string;
+}
+
+export interface PasswordCheck {
+  id: 'length' | 'complexity' | 'username' | 'displayName';
+  message: string;
+  passed: boolean;
+}
+
+const LOWERCASE = 'abcdefghijkmnopqrstuvwxyz'
+const UPPERCASE = 'ABCDEFGHJKLMNPQRSTUVWXYZ'
+const DIGITS = '23456789'
+// Symbols that need no quoting in a CSV file, and are easy to read back and type
+const SPECIAL = '@$!%*?&'
+
+// Characters samba splits the display name on before looking for its parts
+const NAME_DELIMITERS = /[,.\-_#\s]+/
+
+/**
+ * A random index below `max` from the browser's CSPRNG, without the bias
+ * of taking a random number modulo `max`
+ */
+function randomIndex (max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max
+  const value = new Uint32Array(1)
+  do {
+    crypto.getRandomValues(value)
+  } while (value[0] >= limit)
+  return value[0] % max
+}
+
+function pick (characters: string): string {
+  return characters[randomIndex(characters.length)]
+}
+
+/**
+ * Check a password the way Samba does before accepting it: the minimum
+ * length and, with complexity on, three of the four character classes and
+ * neither the account name nor a part of the display name longer than two
+ * characters (case-insensitive). Only the checks that apply are returned.
+ */
+export function checkPassword (password: string, rules: PasswordRules, identity: PasswordIdentity = {}): PasswordCheck[] {
+  const checks: PasswordCheck[] = []
+
+  if (rules.minLength > 0) {
+    checks.push({
+      id: 'length',
+      message: format(ngettext('At least $0 character', 'At least $0 characters', rules.minLength), rules.minLength),
+      passed: password.length >= rules.minLength
+    })
+  }
+
+  if (!rules.complexity) {
+    return checks
+  }
+
+  const classes = [/\p{Lu}/u, /\p{Ll}/u, /\d/, /[^\p{L}\d]/u].filter(pattern => pattern.test(password)).length
+  checks.push({
+    id: 'complexity',
+    message: _('Three of: uppercase letters, lowercase letters, digits, symbols'),
+    passed: classes >= 3
+  })
+
+  const lower = password.toLowerCase()
+  const username = identity.username?.trim().toLowerCase()
+  if (username && username.length >= 3) {
+    checks.push({
+      id: 'username',
+      message: _('Does not contain the username'),
+      passed: !lower.includes(username)
+    })
+  }
+
+  const parts = (identity.displayName || '').toLowerCase().split(NAME_DELIMITERS).filter(part => part.length >= 3)
+  if (parts.length) {
+    checks.push({
+      id: 'displayName',
+      message: _('Does not contain parts of the display name'),
+      passed: !parts.some(part => lower.includes(part))
+    })
+  }
+
+  return checks
+}
+
+/**
+ * Generate a random password that meets the rules, at least 16 characters
+ * long and with at least one character of each class. Look-alike characters
+ * (l, I, O, 0, 1) are left out so the password can be read out or copied
+ * from paper, and it starts with a letter so a spreadsheet does not take it
+ * for a formula.
+ */
+export function generatePassword (rules: PasswordRules = DEFAULT_PASSWORD_RULES, identity: PasswordIdentity = {}): string {
+  let password: string
+  do {
+    password = randomPassword(Math.max(16, rules.minLength))
+  } while (!checkPassword(password, rules, identity).every(check => check.passed))
+  return password
+}
+
+function randomPassword (length: number): string {
+  const all = LOWERCASE + UPPERCASE + DIGITS + SPECIAL
+  const rest = [pick(UPPERCASE), pick(DIGITS), pick(SPECIAL)]
+
+  while (rest.length < length - 1) {
+    rest.push(pick(all))
+  }
+
+  // Shuffle so the required characters are not always in the same place
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1)
+    ;[rest[i], rest[j]] = [rest[j], rest[i]]
+  }
+
+  return pick(LOWERCASE) + rest.join('')
+}
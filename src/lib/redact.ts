@@ -0,0 +1,134 @@
+// Secret Redaction Utilities
+
+export const REDACTED = '********'
+
+// Options whose value is a secret, with or without a leading `--`
+const SECRET_OPTIONS = new Set([
+  'password',
+  'newpassword',
+  'adminpass',
+  'machinepass',
+  'krbtgtpass',
+  'dnspass',
+  'ldapadminpass'
+])
+
+// Commands that accept a password as a positional argument,
+// mapped to its index within the argv array
+const POSITIONAL_SECRETS: Record<string, number> = {
+  'user create': 4,
+  'user add': 4
+}
+
+const SECRET_OPTION_NAMES = Array.from(SECRET_OPTIONS).join('|')
+const SECRET_OPTION_TEXT = new RegExp(`(--(?:${SECRET_OPTION_NAMES})(?:=|\\s+))\\S+`, 'g')
+const CREDENTIALS_TEXT = /((?:^|\s)(?:-U\s*|--username(?:=|\s+))[^\s%]*%)\S+/g
+const PASSWD_TEXT = /(\bPASSWD=)\S+/g
+// e.g. "Admin password:        x8Jd..." logged by domain provision
+const PASSWORD_LINE_TEXT = /(\bAdmin(?:istrator)? password:[ \t]*)\S+/gi
+
+// Keys of structured details whose values are secrets
+const SECRET_KEY = /pass(word)?$|secret/i
+
+// LDIF attributes that hold passwords or keys, besides those SECRET_KEY names
+const SECRET_ATTRIBUTES = new Set(['unicodepwd', 'dbcspwd', 'supplementalcredentials'])
+
+const redactCredentials = (value: string): string => {
+  const separator = value.indexOf('%')
+  return separator >= 0 ? `${value.slice(0, separator + 1)}${REDACTED}` : value
+}
+
+/**
+ * Return LDIF, such as the input of ldbmodify, with the values of password
+ * attributes replaced
+ */
+export function redactLDIF (ldif: string): string {
+  return ldif
+    .replace(/\r?\n /g, '')
+    .replace(/^([A-Za-z0-9.-]+)((?:;[A-Za-z0-9.-]+)*)::?.*$/gm, (line, attribute: string, options: string) =>
+      SECRET_KEY.test(attribute) || SECRET_ATTRIBUTES.has(attribute.toLowerCase())
+        ? `${attribute}${options}: ${REDACTED}`
+        : line)
+}
+
+/**
+ * Return a copy of an argv array with passwords and `user%password`
+ * credentials replaced, suitable for logs, previews and error details
+ */
+export function redactCommand (command: string[]): string[] {
+  const positional = command[0] === 'samba-tool'
+    ? POSITIONAL_SECRETS[`${command[1]} ${command[2]}`]
+    : undefined
+
+  return command.map((arg, index) => {
+    if (index === positional && !arg.startsWith('-')) {
+      return REDACTED
+    }
+
+    const previous = command[index - 1]
+    if (previous?.startsWith('--') && SECRET_OPTIONS.has(previous.slice(2))) {
+      return REDACTED
+    }
+    if (previous === '-U' || previous === '--username') {
+      return redactCredentials(arg)
+    }
+
+    const option = arg.match(/^--([a-z-]+)=(.*)$/)
+    if (option) {
+      const [, name, value] = option
+      if (SECRET_OPTIONS.has(name)) {
+        return `--${name}=${REDACTED}`
+      }
+      if (name === 'username') {
+        return `--${name}=${redactCredentials(value)}`
+      }
+    }
+
+    if (arg.startsWith('-U') && arg.length > 2) {
+      return `-U${redactCredentials(arg.slice(2))}`
+    }
+
+    return arg
+  })
+}
+
+/**
+ * Redact secrets that appear in free text, such as a command line quoted in
+ * an error message or captured stderr
+ */
+export function redactText (text: string): string {
+  return text
+    .replace(SECRET_OPTION_TEXT, `$1${REDACTED}`)
+    .replace(CREDENTIALS_TEXT, `$1${REDACTED}`)
+    .replace(PASSWD_TEXT, `$1${REDACTED}`)
+    .replace(PASSWORD_LINE_TEXT, `$1${REDACTED}`)
+}
+
+/**
+ * Redact secrets from error details before they are kept or logged.
+ * Strings are scrubbed, password-like keys are masked and plain objects and
+ * arrays are copied; other errors are reduced to their name and message.
+ */
+export function redactSecrets (value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return redactText(value)
+  }
+  if (!value || typeof value !== 'object' || depth > 5) {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, depth + 1))
+  }
+  if (value instanceof Error) {
+    // APIError redacts its own details on construction
+    return 'code' in value ? value : { name: value.name, message: redactText(value.message) }
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) {
+    return value
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_KEY.test(key) && item ? REDACTED : redactSecrets(item, depth + 1)
+  ]))
+}
@@ -0,0 +1,412 @@
+// Samba Status Codes
+
+import { N_ } from './i18n'
+
+/**
+ * What a status code reported by samba-tool means. Explanations and
+ * remedies are marked for translation and translated where displayed.
+ */
+export interface SambaStatus {
+  /**
+   * Symbolic name, e.g. `LDAP_NO_SUCH_OBJECT` or `WERR_ACCESS_DENIED`
+   */
+  code: string;
+  explanation: string;
+  remedy?: string;
+  /**
+   * Whether running the same command again may succeed
+   */
+  transient?: boolean;
+}
+
+type StatusTable = Record<string, Omit<SambaStatus, 'code'>>
+
+/**
+ * LDAP result codes (RFC 4511) as ldb reports them, e.g.
+ * `(68, 'Entry ... already exists')`. Keyed by the result code.
+ */
+const LDAP_RESULTS: Record<number, SambaStatus> = {
+  1: {
+    code: 'LDAP_OPERATIONS_ERROR',
+    explanation: N_('The directory could not complete the operation'),
+    remedy: N_('Check the Samba log on the domain controller for the cause.')
+  },
+  2: {
+    code: 'LDAP_PROTOCOL_ERROR',
+    explanation: N_('The request was not understood by the directory')
+  },
+  3: {
+    code: 'LDAP_TIME_LIMIT_EXCEEDED',
+    explanation: N_('The directory did not answer within its time limit'),
+    remedy: N_('Try again when the domain controller is less busy.'),
+    transient: true
+  },
+  4: {
+    code: 'LDAP_SIZE_LIMIT_EXCEEDED',
+    explanation: N_('The search matched more entries than the directory returns at once'),
+    remedy: N_('Narrow the search with a filter or a smaller search base.')
+  },
+  7: {
+    code: 'LDAP_AUTH_METHOD_NOT_SUPPORTED',
+    explanation: N_('The domain controller does not accept this authentication method'),
+    remedy: N_('Use a Kerberos ticket or an encrypted (ldaps) connection.')
+  },
+  8: {
+    code: 'LDAP_STRONG_AUTH_REQUIRED',
+    explanation: N_('The domain controller requires a signed or encrypted connection'),
+    remedy: N_('Connect with a Kerberos ticket or over ldaps.')
+  },
+  11: {
+    code: 'LDAP_ADMIN_LIMIT_EXCEEDED',
+    explanation: N_('The request exceeded an administrative limit of the directory'),
+    remedy: N_('Split the change into smaller requests.')
+  },
+  12: {
+    code: 'LDAP_UNAVAILABLE_CRITICAL_EXTENSION',
+    explanation: N_('The domain controller does not support a control the request needs')
+  },
+  16: {
+    code: 'LDAP_NO_SUCH_ATTRIBUTE',
+    explanation: N_('The attribute or value to change is not set on the object'),
+    remedy: N_('Reload the object; it may have been changed in the meantime.')
+  },
+  17: {
+    code: 'LDAP_UNDEFINED_ATTRIBUTE_TYPE',
+    explanation: N_('The schema does not define this attribute'),
+    remedy: N_('Check the attribute name for typos.')
+  },
+  19: {
+    code: 'LDAP_CONSTRAINT_VIOLATION',
+    explanation: N_('A value breaks a constraint of the directory, such as the password policy'),
+    remedy: N_('Check length, history and complexity rules for the value, e.g. with the password policy.')
+  },
+  20: {
+    code: 'LDAP_ATTRIBUTE_OR_VALUE_EXISTS',
+    explanation: N_('The object already has this value'),
+    remedy: N_('Reload the object; the change may already have been made.')
+  },
+  21: {
+    code: 'LDAP_INVALID_ATTRIBUTE_SYNTAX',
+    explanation: N_('A value has the wrong format for its attribute'),
+    remedy: N_('Check the format of the values entered.')
+  },
+  32: {
+    code: 'LDAP_NO_SUCH_OBJECT',
+    explanation: N_('The object or its container does not exist'),
+    remedy: N_('Check the name and the organizational unit; the object may have been moved or deleted.')
+  },
+  34: {
+    code: 'LDAP_INVALID_DN_SYNTAX',
+    explanation: N_('A distinguished name is malformed'),
+    remedy: N_('Use the form CN=name,OU=unit,DC=example,DC=com and escape special characters.')
+  },
+  48: {
+    code: 'LDAP_INAPPROPRIATE_AUTHENTICATION',
+    explanation: N_('Anonymous or simple binds are not allowed for this operation'),
+    remedy: N_('Connect with credentials of a domain account.')
+  },
+  49: {
+    code: 'LDAP_INVALID_CREDENTIALS',
+    explanation: N_('The user name or password was not accepted'),
+    remedy: N_('Check the credentials of the connection profile; the account may be locked or its password expired.')
+  },
+  50: {
+    code: 'LDAP_INSUFFICIENT_ACCESS_RIGHTS',
+    explanation: N_('The account lacks the permissions for this change'),
+    remedy: N_('Connect as a member of Domain Admins or delegate the permission on the object.')
+  },
+  51: {
+    code: 'LDAP_BUSY',
+    explanation: N_('The domain controller is too busy to process the request'),
+    remedy: N_('Try again in a moment.'),
+    transient: true
+  },
+  52: {
+    code: 'LDAP_UNAVAILABLE',
+    explanation: N_('The directory is not available at the moment, e.g. during startup or replication'),
+    remedy: N_('Try again in a moment.'),
+    transient: true
+  },
+  53: {
+    code: 'LDAP_UNWILLING_TO_PERFORM',
+    explanation: N_('The directory refused the change'),
+    remedy: N_("The change may conflict with a policy or a system object; check the password policy and the object's flags.")
+  },
+  64: {
+    code: 'LDAP_NAMING_VIOLATION',
+    explanation: N_('The name is not allowed at this place in the directory'),
+    remedy: N_('Choose another container or naming attribute.')
+  },
+  65: {
+    code: 'LDAP_OBJECT_CLASS_VIOLATION',
+    explanation: N_('The object is missing required attributes or has attributes its class does not allow')
+  },
+  66: {
+    code: 'LDAP_NOT_ALLOWED_ON_NON_LEAF',
+    explanation: N_('The object still contains other objects'),
+    remedy: N_('Move or delete the objects it contains first.')
+  },
+  67: {
+    code: 'LDAP_NOT_ALLOWED_ON_RDN',
+    explanation: N_('The naming attribute cannot be changed this way'),
+    remedy: N_('Rename the object instead.')
+  },
+  68: {
+    code: 'LDAP_ENTRY_ALREADY_EXISTS',
+    explanation: N_('An object with this name already exists'),
+    remedy: N_('Choose another name, or edit the existing object.')
+  },
+  69: {
+    code: 'LDAP_OBJECT_CLASS_MODS_PROHIBITED',
+    explanation: N_('The object class of an existing object cannot be changed')
+  },
+  71: {
+    code: 'LDAP_AFFECTS_MULTIPLE_DSAS',
+    explanation: N_('The operation would cross into another naming context'),
+    remedy: N_('Objects cannot be moved between domains this way.')
+  },
+  80: {
+    code: 'LDAP_OTHER',
+    explanation: N_('The directory reported an internal error'),
+    remedy: N_('Check the Samba log on the domain controller for the cause.')
+  }
+}
+
+/**
+ * Windows error codes (WERROR) used by the DRSUAPI, DNS and SAMR pipes
+ */
+const WERROR_CODES: StatusTable = {
+  WERR_ACCESS_DENIED: {
+    explanation: N_('Access was denied'),
+    remedy: N_('Connect as a member of Domain Admins.')
+  },
+  WERR_DS_DRA_ACCESS_DENIED: {
+    explanation: N_('The account may not replicate the directory'),
+    remedy: N_('Connect as a member of Domain Admins or Enterprise Admins.')
+  },
+  WERR_INVALID_PARAMETER: {
+    explanation: N_('A parameter was not accepted by the server'),
+    remedy: N_('Check the values entered.')
+  },
+  WERR_NOT_SUPPORTED: {
+    explanation: N_('The server does not support this operation')
+  },
+  WERR_NO_SUCH_USER: {
+    explanation: N_('The user does not exist')
+  },
+  WERR_USER_EXISTS: {
+    explanation: N_('A user with this name already exists'),
+    remedy: N_('Choose another user name.')
+  },
+  WERR_GROUP_EXISTS: {
+    explanation: N_('A group with this name already exists'),
+    remedy: N_('Choose another group name.')
+  },
+  WERR_MEMBER_IN_GROUP: {
+    explanation: N_('The account is already a member of the group')
+  },
+  WERR_PASSWORD_RESTRICTION: {
+    explanation: N_('The password does not meet the password policy'),
+    remedy: N_('Use a longer or more complex password that was not used recently.')
+  },
+  WERR_DS_OBJ_NOT_FOUND: {
+    explanation: N_('The object does not exist in the directory'),
+    remedy: N_('Check the name; the object may have been moved or deleted.')
+  },
+  WERR_DS_DRA_BAD_DN: {
+    explanation: N_('A distinguished name is malformed'),
+    remedy: N_('Use the form CN=name,OU=unit,DC=example,DC=com.')
+  },
+  WERR_DS_BUSY: {
+    explanation: N_('The directory service is busy'),
+    remedy: N_('Try again in a moment.'),
+    transient: true
+  },
+  WERR_DS_DRA_BUSY: {
+    explanation: N_('The domain controller is busy replicating'),
+    remedy: N_('Try again when replication has finished.'),
+    transient: true
+  },
+  WERR_DS_UNAVAILABLE: {
+    explanation: N_('The directory service is unavailable'),
+    remedy: N_('Try again in a moment; check that the samba service is running.'),
+    transient: true
+  },
+  WERR_DS_DRA_CONNECTION_FAILED: {
+    explanation: N_('The replication connection to the other domain controller failed'),
+    remedy: N_('Check that the other domain controller is reachable, then try again.'),
+    transient: true
+  },
+  WERR_TIMEOUT: {
+    explanation: N_('The server did not answer in time'),
+    remedy: N_('Try again in a moment.'),
+    transient: true
+  },
+  WERR_NO_LOGON_SERVERS: {
+    explanation: N_('No domain controller was available to authenticate the request'),
+    remedy: N_('Check the network and DNS, then try again.'),
+    transient: true
+  },
+  WERR_DNS_ERROR_ZONE_DOES_NOT_EXIST: {
+    explanation: N_('The DNS zone does not exist'),
+    remedy: N_('Check the zone name or create the zone first.')
+  },
+  WERR_DNS_ERROR_ZONE_ALREADY_EXISTS: {
+    explanation: N_('The DNS zone already exists')
+  },
+  WERR_DNS_ERROR_NAME_DOES_NOT_EXIST: {
+    explanation: N_('The DNS name does not exist in the zone'),
+    remedy: N_('Check the record name; it may already have been deleted.')
+  },
+  WERR_DNS_ERROR_RECORD_ALREADY_EXISTS: {
+    explanation: N_('The DNS record already exists')
+  },
+  WERR_DNS_ERROR_RECORD_DOES_NOT_EXIST: {
+    explanation: N_('The DNS record does not exist'),
+    remedy: N_('The data must match the existing record exactly.')
+  },
+  WERR_BADFILE: {
+    explanation: N_('A file or registry key was not found')
+  }
+}
+
+/**
+ * NTSTATUS codes from SMB, RPC and authentication
+ */
+const NT_STATUS_CODES: StatusTable = {
+  NT_STATUS_ACCESS_DENIED: {
+    explanation: N_('Access was denied'),
+    remedy: N_('Connect as a member of Domain Admins.')
+  },
+  NT_STATUS_LOGON_FAILURE: {
+    explanation: N_('The user name or password was not accepted'),
+    remedy: N_('Check the credentials of the connection profile.')
+  },
+  NT_STATUS_WRONG_PASSWORD: {
+    explanation: N_('The password is wrong'),
+    remedy: N_('Check the credentials of the connection profile.')
+  },
+  NT_STATUS_NO_SUCH_USER: {
+    explanation: N_('The user does not exist')
+  },
+  NT_STATUS_ACCOUNT_DISABLED: {
+    explanation: N_('The account is disabled'),
+    remedy: N_('Enable the account or connect with another one.')
+  },
+  NT_STATUS_ACCOUNT_LOCKED_OUT: {
+    explanation: N_('The account is locked out after too many failed logons'),
+    remedy: N_('Unlock the account or wait for the lockout to expire.')
+  },
+  NT_STATUS_ACCOUNT_EXPIRED: {
+    explanation: N_('The account has expired'),
+    remedy: N_('Extend the account expiry date.')
+  },
+  NT_STATUS_PASSWORD_EXPIRED: {
+    explanation: N_('The password has expired'),
+    remedy: N_('Set a new password for the account.')
+  },
+  NT_STATUS_PASSWORD_MUST_CHANGE: {
+    explanation: N_('The password must be changed before the account can be used'),
+    remedy: N_('Set a new password for the account.')
+  },
+  NT_STATUS_PASSWORD_RESTRICTION: {
+    explanation: N_('The password does not meet the password policy'),
+    remedy: N_('Use a longer or more complex password that was not used recently.')
+  },
+  NT_STATUS_INVALID_LOGON_HOURS: {
+    explanation: N_('The account may not log on at this time')
+  },
+  NT_STATUS_TIME_DIFFERENCE_AT_DC: {
+    explanation: N_('The clocks of this server and the domain controller differ too much for Kerberos'),
+    remedy: N_('Synchronize the time with NTP on both machines.')
+  },
+  NT_STATUS_NO_SUCH_DOMAIN: {
+    explanation: N_('The domain could not be found'),
+    remedy: N_('Check the realm name and that DNS resolves the domain.')
+  },
+  NT_STATUS_OBJECT_NAME_NOT_FOUND: {
+    explanation: N_('The object or file does not exist')
+  },
+  NT_STATUS_OBJECT_PATH_NOT_FOUND: {
+    explanation: N_('The path does not exist'),
+    remedy: N_('Check the path; SYSVOL may not be provisioned on this server.')
+  },
+  NT_STATUS_OBJECT_NAME_COLLISION: {
+    explanation: N_('An object with this name already exists'),
+    remedy: N_('Choose another name.')
+  },
+  NT_STATUS_BAD_NETWORK_NAME: {
+    explanation: N_('The share does not exist on the server'),
+    remedy: N_('Check that the sysvol and netlogon shares are configured.')
+  },
+  NT_STATUS_INVALID_PARAMETER: {
+    explanation: N_('A parameter was not accepted by the server'),
+    remedy: N_('Check the values entered.')
+  },
+  NT_STATUS_NOT_SUPPORTED: {
+    explanation: N_('The server does not support this operation')
+  },
+  NT_STATUS_CONNECTION_REFUSED: {
+    explanation: N_('The domain controller refused the connection'),
+    remedy: N_('Check that the samba service is running and the firewall allows it.'),
+    transient: true
+  },
+  NT_STATUS_CONNECTION_RESET: {
+    explanation: N_('The connection to the domain controller was reset'),
+    remedy: N_('Try again in a moment.'),
+    transient: true
+  },
+  NT_STATUS_CONNECTION_DISCONNECTED: {
+    explanation: N_('The connection to the domain controller was lost'),
+    remedy: N_('Try again in a moment.'),
+    transient: true
+  },
+  NT_STATUS_HOST_UNREACHABLE: {
+    explanation: N_('The domain controller cannot be reached'),
+    remedy: N_('Check the network connection and the host name.'),
+    transient: true
+  },
+  NT_STATUS_NETWORK_UNREACHABLE: {
+    explanation: N_('The network of the domain controller cannot be reached'),
+    remedy: N_('Check the network connection and routing.'),
+    transient: true
+  },
+  NT_STATUS_IO_TIMEOUT: {
+    explanation: N_('The domain controller did not answer in time'),
+    remedy: N_('Try again in a moment.'),
+    transient: true
+  },
+  NT_STATUS_NO_LOGON_SERVERS: {
+    explanation: N_('No domain controller was available to authenticate the request'),
+    remedy: N_('Check the network and DNS, then try again.'),
+    transient: true
+  },
+  NT_STATUS_INSUFFICIENT_RESOURCES: {
+    explanation: N_('The server is short of resources'),
+    remedy: N_('Try again in a moment.'),
+    transient: true
+  }
+}
+
+/**
+ * Look up an LDAP result code. Codes without an entry still get their
+ * number as a code.
+ */
+export function lookupLdapResult (resultCode: number): SambaStatus {
+  return LDAP_RESULTS[resultCode] || {
+    code: `LDAP_${resultCode}`,
+    explanation: N_('The directory rejected the request')
+  }
+}
+
+export function lookupWerror (code: string): SambaStatus {
+  return lookup(WERROR_CODES, code)
+}
+
+export function lookupNTStatus (code: string): SambaStatus {
+  return lookup(NT_STATUS_CODES, code)
+}
+
+function lookup (table: StatusTable, code: string): SambaStatus {
+  return { code, ...(table[code] || { explanation: N_('The server reported an error') }) }
+}
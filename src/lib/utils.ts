@@ -4,3 +4,17 @@ import { twMerge } from 'tailwind-merge'
 export function cn (...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Offer text generated in the browser as a file download
+ */
+export function downloadFile (filename: string, content: BlobPart, type: string = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
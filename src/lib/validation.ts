@@ -1,39 +1,36 @@
 // Validation Schemas using Zod
 
 import { z } from 'zod'
+import { _, format } from './i18n'
+import { checkPassword, type PasswordIdentity, type PasswordRules } from './password'
 
 // Common validation patterns
 const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{1,64}$/
 const COMPUTER_NAME_PATTERN = /^[a-zA-Z0-9-]{1,15}$/
 const GROUP_NAME_PATTERN = /^[a-zA-Z0-9 ._-]{1,64}$/
 
-// Password complexity requirements for Active Directory
-const PASSWORD_PATTERN = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/
-
 // Custom validation messages
 const VALIDATION_MESSAGES = {
   username: {
-    required: 'Username is required',
-    invalid: 'Username can only contain letters, numbers, dots, underscores, and hyphens (1-64 characters)',
-    tooShort: 'Username must be at least 1 character',
-    tooLong: 'Username cannot exceed 64 characters'
+    required: _('Username is required'),
+    invalid: _('Username can only contain letters, numbers, dots, underscores, and hyphens (1-64 characters)'),
+    tooShort: _('Username must be at least 1 character'),
+    tooLong: _('Username cannot exceed 64 characters')
   },
   password: {
-    required: 'Password is required',
-    tooShort: 'Password must be at least 8 characters',
-    tooWeak: 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
+    required: _('Password is required')
   },
   email: {
-    invalid: 'Please enter a valid email address'
+    invalid: _('Please enter a valid email address')
   },
   computerName: {
-    required: 'Computer name is required',
-    invalid: 'Computer name can only contain letters, numbers, and hyphens (1-15 characters)',
-    invalidStart: 'Computer name cannot start or end with a hyphen'
+    required: _('Computer name is required'),
+    invalid: _('Computer name can only contain letters, numbers, and hyphens (1-15 characters)'),
+    invalidStart: _('Computer name cannot start or end with a hyphen')
   },
   groupName: {
-    required: 'Group name is required',
-    invalid: 'Group name can only contain letters, numbers, spaces, dots, underscores, and hyphens (1-64 characters)'
+    required: _('Group name is required'),
+    invalid: _('Group name can only contain letters, numbers, spaces, dots, underscores, and hyphens (1-64 characters)')
   }
 }
 
@@ -44,10 +41,10 @@ export const usernameSchema = z
   .max(64, VALIDATION_MESSAGES.username.tooLong)
   .regex(USERNAME_PATTERN, VALIDATION_MESSAGES.username.invalid)
 
+// The length and complexity rules come from the domain policy, see refinePassword
 export const passwordSchema = z
   .string()
-  .min(8, VALIDATION_MESSAGES.password.tooShort)
-  .regex(PASSWORD_PATTERN, VALIDATION_MESSAGES.password.tooWeak)
+  .min(1, VALIDATION_MESSAGES.password.required)
 
 export const optionalPasswordSchema = passwordSchema.optional().or(z.literal(''))
 
@@ -60,7 +57,7 @@ export const emailSchema = z
 export const computerNameSchema = z
   .string()
   .min(1, VALIDATION_MESSAGES.computerName.required)
-  .max(15, 'Computer name cannot exceed 15 characters')
+  .max(15, _('Computer name cannot exceed 15 characters'))
   .regex(COMPUTER_NAME_PATTERN, VALIDATION_MESSAGES.computerName.invalid)
   .refine(
     (name) => !name.startsWith('-') && !name.endsWith('-'),
@@ -70,7 +67,7 @@ export const computerNameSchema = z
 export const groupNameSchema = z
   .string()
   .min(1, VALIDATION_MESSAGES.groupName.required)
-  .max(64, 'Group name cannot exceed 64 characters')
+  .max(64, _('Group name cannot exceed 64 characters'))
   .regex(GROUP_NAME_PATTERN, VALIDATION_MESSAGES.groupName.invalid)
 
 // User validation schemas
@@ -82,6 +79,14 @@ export const createUserSchema = z.object({
   displayName: z.string().max(256).optional().or(z.literal('')),
   email: emailSchema,
   description: z.string().max(1024).optional().or(z.literal('')),
+  title: z.string().max(128).optional().or(z.literal('')),
+  department: z.string().max(64).optional().or(z.literal('')),
+  company: z.string().max(64).optional().or(z.literal('')),
+  office: z.string().max(128).optional().or(z.literal('')),
+  profilePath: z.string().max(260).optional().or(z.literal('')),
+  homeDirectory: z.string().max(260).optional().or(z.literal('')),
+  homeDrive: z.string().regex(/^[A-Za-z]:$/, _('Drive must be a letter followed by a colon, e.g. H:')).optional().or(z.literal('')),
+  scriptPath: z.string().max(260).optional().or(z.literal('')),
   organizationalUnit: z.string().optional().or(z.literal('')),
   groups: z.array(z.string()).optional().default([]),
   mustChangePassword: z.boolean().default(false),
@@ -89,6 +94,32 @@ export const createUserSchema = z.object({
   accountExpires: z.date().optional()
 })
 
+/**
+ * Report every password policy check the password fails as an issue on
+ * `path`, for use in superRefine
+ */
+export function refinePassword (
+  password: string,
+  rules: PasswordRules,
+  identity: PasswordIdentity,
+  context: z.RefinementCtx,
+  path: (string | number)[]
+) {
+  if (!password) return
+
+  checkPassword(password, rules, identity)
+    .filter(check => !check.passed)
+    .forEach(check => context.addIssue({ code: z.ZodIssueCode.custom, message: check.message, path }))
+}
+
+/**
+ * createUserSchema with the password checked against the policy the new
+ * account gets
+ */
+export const createUserSchemaFor = (rules: PasswordRules) => createUserSchema.superRefine((data, context) => {
+  refinePassword(data.password, rules, data, context, ['password'])
+})
+
 export const updateUserSchema = z.object({
   username: usernameSchema,
   firstName: z.string().max(64).optional().or(z.literal('')),
@@ -96,21 +127,23 @@ export const updateUserSchema = z.object({
   displayName: z.string().max(256).optional().or(z.literal('')),
   email: emailSchema,
   description: z.string().max(1024).optional().or(z.literal('')),
+  telephoneNumber: z.string().max(64).optional().or(z.literal('')),
+  title: z.string().max(128).optional().or(z.literal('')),
+  department: z.string().max(64).optional().or(z.literal('')),
+  company: z.string().max(64).optional().or(z.literal('')),
+  office: z.string().max(128).optional().or(z.literal('')),
+  manager: z.string().optional().or(z.literal('')),
   organizationalUnit: z.string().optional().or(z.literal('')),
-  groups: z.array(z.string()).optional(),
-  enabled: z.boolean().optional(),
-  mustChangePassword: z.boolean().optional(),
-  passwordNeverExpires: z.boolean().optional(),
-  accountExpires: z.date().optional()
+  enabled: z.boolean().optional()
 })
 
 export const changePasswordSchema = z.object({
   username: usernameSchema,
-  currentPassword: z.string().min(1, 'Current password is required'),
+  currentPassword: z.string().min(1, _('Current password is required')),
   newPassword: passwordSchema,
-  confirmPassword: z.string().min(1, 'Please confirm your password')
+  confirmPassword: z.string().min(1, _('Please confirm your password'))
 }).refine((data) => data.newPassword === data.confirmPassword, {
-  message: "Passwords don't match",
+  message: _("Passwords don't match"),
   path: ['confirmPassword']
 })
 
@@ -134,10 +167,10 @@ export const createGroupSchema = z.object({
   displayName: z.string().max(256).optional().or(z.literal('')),
   description: z.string().max(1024).optional().or(z.literal('')),
   groupType: z.enum(['Security', 'Distribution'], {
-    required_error: 'Please select a group type'
+    required_error: _('Please select a group type')
   }),
   groupScope: z.enum(['DomainLocal', 'Global', 'Universal'], {
-    required_error: 'Please select a group scope'
+    required_error: _('Please select a group scope')
   }),
   organizationalUnit: z.string().optional().or(z.literal(''))
 })
@@ -153,24 +186,24 @@ export const updateGroupSchema = z.object({
 export const createOUSchema = z.object({
   name: z
     .string()
-    .min(1, 'OU name is required')
-    .max(64, 'OU name cannot exceed 64 characters')
-    .regex(/^[a-zA-Z0-9 ._-]+$/, 'OU name contains invalid characters'),
+    .min(1, _('OU name is required'))
+    .max(64, _('OU name cannot exceed 64 characters'))
+    .regex(/^[a-zA-Z0-9 ._-]+$/, _('OU name contains invalid characters')),
   description: z.string().max(1024).optional().or(z.literal('')),
   parentOU: z.string().optional().or(z.literal(''))
 })
 
 // DNS validation schemas
 export const createDNSRecordSchema = z.object({
-  zoneName: z.string().min(1, 'Zone name is required'),
+  zoneName: z.string().min(1, _('Zone name is required')),
   name: z
     .string()
-    .min(1, 'Record name is required')
-    .max(255, 'Record name cannot exceed 255 characters'),
+    .min(1, _('Record name is required'))
+    .max(255, _('Record name cannot exceed 255 characters')),
   type: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT'], {
-    required_error: 'Please select a record type'
+    required_error: _('Please select a record type')
   }),
-  data: z.string().min(1, 'Record data is required'),
+  data: z.string().min(1, _('Record data is required')),
   ttl: z.number().min(1).max(2147483647).optional()
 })
 
@@ -178,20 +211,57 @@ export const createDNSRecordSchema = z.object({
 export const createGPOSchema = z.object({
   name: z
     .string()
-    .min(1, 'GPO name is required')
-    .max(64, 'GPO name cannot exceed 64 characters')
-    .regex(/^[a-zA-Z0-9 ._-]+$/, 'GPO name contains invalid characters'),
+    .min(1, _('GPO name is required'))
+    .max(64, _('GPO name cannot exceed 64 characters'))
+    .regex(/^[a-zA-Z0-9 ._-]+$/, _('GPO name contains invalid characters')),
   displayName: z
     .string()
-    .min(1, 'Display name is required')
-    .max(256, 'Display name cannot exceed 256 characters'),
+    .min(1, _('Display name is required'))
+    .max(256, _('Display name cannot exceed 256 characters')),
   description: z.string().max(1024).optional().or(z.literal(''))
 })
 
+// Password policy validation schemas
+const passwordSettingsFields = {
+  complexity: z.boolean(),
+  storePlaintext: z.boolean(),
+  historyLength: z.number().int().min(0).max(24, _('Password history length must be between 0 and 24')),
+  minLength: z.number().int().min(0).max(255, _('Minimum password length cannot exceed 255')),
+  minAge: z.number().int().min(0).max(998, _('Minimum password age must be between 0 and 998 days')),
+  maxAge: z.number().int().min(0).max(999, _('Maximum password age must be between 0 and 999 days')),
+  lockoutDuration: z.number().int().min(0).max(99999),
+  lockoutThreshold: z.number().int().min(0).max(999),
+  resetLockoutAfter: z.number().int().min(0).max(99999)
+}
+
+type PasswordSettingsFields = { [key in keyof typeof passwordSettingsFields]: z.infer<typeof passwordSettingsFields[key]> }
+
+const checkPasswordSettings = (settings: PasswordSettingsFields, context: z.RefinementCtx) => {
+  if (settings.maxAge > 0 && settings.minAge >= settings.maxAge) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: _('Minimum password age must be less than the maximum'), path: ['minAge'] })
+  }
+  if (settings.lockoutDuration > 0 && settings.resetLockoutAfter > settings.lockoutDuration) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: _('The reset time cannot be longer than the lockout duration'), path: ['resetLockoutAfter'] })
+  }
+}
+
+export const passwordSettingsSchema = z.object(passwordSettingsFields).superRefine(checkPasswordSettings)
+
+export const psoSchema = z.object({
+  name: z
+    .string()
+    .min(1, _('Name is required'))
+    .max(64, _('Name cannot exceed 64 characters'))
+    .regex(/^[^,+"\\<>;=/#]+$/, _('Name contains invalid characters')),
+  precedence: z.number().int().min(1, _('Precedence must be at least 1')),
+  ...passwordSettingsFields
+}).superRefine(checkPasswordSettings)
+
 // Filter and search validation schemas
 export const filterOptionsSchema = z.object({
   search: z.string().optional(),
   enabled: z.boolean().optional(),
+  locked: z.boolean().optional(),
   organizationalUnit: z.string().optional(),
   groups: z.array(z.string()).optional(),
   dateFrom: z.date().optional(),
@@ -210,29 +280,28 @@ export const paginationOptionsSchema = z.object({
 
 // Bulk operations validation
 export const bulkDeleteSchema = z.object({
-  items: z.array(z.string()).min(1, 'Please select at least one item to delete'),
+  items: z.array(z.string()).min(1, _('Please select at least one item to delete')),
   confirmText: z.literal('DELETE', {
-    errorMap: () => ({ message: 'Please type DELETE to confirm' })
+    errorMap: () => ({ message: _('Please type DELETE to confirm') })
   })
 })
 
 export const bulkMoveSchema = z.object({
-  items: z.array(z.string()).min(1, 'Please select at least one item to move'),
-  targetOU: z.string().min(1, 'Please select a target organizational unit')
+  items: z.array(z.string()).min(1, _('Please select at least one item to move')),
+  targetOU: z.string().min(1, _('Please select a target organizational unit'))
 })
 
 // Import/Export validation
 export const importUsersSchema = z.object({
-  file: z.instanceof(File, { message: 'Please select a file' }),
-  format: z.enum(['csv', 'json'], { required_error: 'Please select a format' }),
+  file: z.instanceof(File, { message: _('Please select a file') }),
+  format: z.enum(['csv', 'json'], { required_error: _('Please select a format') }),
   skipExisting: z.boolean().default(true),
   sendWelcomeEmail: z.boolean().default(false)
 })
 
 export const exportUsersSchema = z.object({
-  format: z.enum(['csv', 'json', 'xlsx'], { required_error: 'Please select a format' }),
-  includeGroups: z.boolean().default(true),
-  includePasswords: z.boolean().default(false),
+  format: z.enum(['csv', 'json', 'xlsx'], { required_error: _('Please select a format') }),
+  columns: z.array(z.string()).min(1, _('Please select at least one column')),
   filters: filterOptionsSchema.optional()
 })
 
@@ -276,22 +345,22 @@ export class ValidationHelper {
     let score = 0
 
     if (password.length >= 8) score += 1
-    else feedback.push('Use at least 8 characters')
+    else feedback.push(_('Use at least 8 characters'))
 
     if (/[a-z]/.test(password)) score += 1
-    else feedback.push('Include lowercase letters')
+    else feedback.push(_('Include lowercase letters'))
 
     if (/[A-Z]/.test(password)) score += 1
-    else feedback.push('Include uppercase letters')
+    else feedback.push(_('Include uppercase letters'))
 
     if (/\d/.test(password)) score += 1
-    else feedback.push('Include numbers')
+    else feedback.push(_('Include numbers'))
 
-    if (/[@$!%*?&]/.test(password)) score += 1
-    else feedback.push('Include special characters (@$!%*?&)')
+    if (/[^A-Za-z\d]/.test(password)) score += 1
+    else feedback.push(_('Include symbols'))
 
     if (password.length >= 12) score += 1
-    if (/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&]).{12,}$/.test(password)) score += 1
+    if (/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[^A-Za-z\d]).{12,}$/.test(password)) score += 1
 
     return {
       score,
@@ -323,14 +392,14 @@ export class ValidationHelper {
     if (!allowedTypes.includes(file.type)) {
       return {
         valid: false,
-        error: `File type not allowed. Allowed types: ${allowedTypes.join(', ')}`
+        error: format(_('File type not allowed. Allowed types: $0'), allowedTypes.join(', '))
       }
     }
 
     if (file.size > maxSize) {
       return {
         valid: false,
-        error: `File too large. Maximum size: ${(maxSize / 1024 / 1024).toFixed(1)}MB`
+        error: format(_('File too large. Maximum size: $0MB'), (maxSize / 1024 / 1024).toFixed(1))
       }
     }
 
@@ -352,3 +421,6 @@ export type CreateGPOInput = z.infer<typeof createGPOSchema>;
 export type FilterOptions = z.infer<typeof filterOptionsSchema>;
 export type SortOptions = z.infer<typeof sortOptionsSchema>;
 export type PaginationOptions = z.infer<typeof paginationOptionsSchema>;
+export type ExportUsersInput = z.infer<typeof exportUsersSchema>;
+export type PasswordSettingsInput = z.infer<typeof passwordSettingsSchema>;
+export type PSOInput = z.infer<typeof psoSchema>;
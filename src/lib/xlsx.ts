@@ -0,0 +1,179 @@
+// XLSX Writing
+
+export type CellValue = string | number | boolean | Date | null | undefined
+
+const encoder = new TextEncoder()
+
+const CRC_TABLE = Array.from({ length: 256 }, (_unused, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32 (data: Uint8Array): number {
+  let crc = 0xFFFFFFFF
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+/**
+ * Pack files into a ZIP archive without compression, which is all an
+ * XLSX reader needs
+ */
+function zip (files: Record<string, string>): Uint8Array<ArrayBuffer> {
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name)
+    const data = encoder.encode(content)
+    const crc = crc32(data)
+
+    // Local file header, then the central directory record pointing at it
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034B50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(12, 0x21, true) // 1980-01-01
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, nameBytes.length, true)
+
+    const record = new DataView(new ArrayBuffer(46))
+    record.setUint32(0, 0x02014B50, true)
+    record.setUint16(4, 20, true)
+    record.setUint16(6, 20, true)
+    record.setUint16(14, 0x21, true)
+    record.setUint32(16, crc, true)
+    record.setUint32(20, data.length, true)
+    record.setUint32(24, data.length, true)
+    record.setUint16(28, nameBytes.length, true)
+    record.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), nameBytes, data)
+    central.push(new Uint8Array(record.buffer), nameBytes)
+    offset += 30 + nameBytes.length + data.length
+  }
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054B50, true)
+  end.setUint16(8, central.length / 2, true)
+  end.setUint16(10, central.length / 2, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const all = [...parts, ...central, new Uint8Array(end.buffer)]
+  const result = new Uint8Array(all.reduce((size, part) => size + part.length, 0))
+  let position = 0
+  for (const part of all) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+function escapeXML (text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function columnName (index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Style indexes from STYLES: 1 is the bold header, 2 a date and time
+const HEADER_STYLE = 1
+const DATE_STYLE = 2
+
+function cell (value: CellValue, reference: string, header: boolean): string {
+  const style = header ? ` s="${HEADER_STYLE}"` : ''
+
+  if (value === null || value === undefined || value === '') {
+    return ''
+  }
+  if (value instanceof Date) {
+    // Local days since 1899-12-30, the spreadsheet epoch
+    const days = (value.getTime() - value.getTimezoneOffset() * 60000) / 86400000 + 25569
+    return `<c r="${reference}" s="${DATE_STYLE}"><v>${days}</v></c>`
+  }
+  if (typeof value === 'number') {
+    return `<c r="${reference}"${style}><v>${value}</v></c>`
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}" t="b"${style}><v>${value ? 1 : 0}</v></c>`
+  }
+  return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+const STYLES = XML_HEADER +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+  '</styleSheet>'
+
+/**
+ * Build a single-sheet XLSX workbook. The first row is written in bold and
+ * frozen; dates become real date cells.
+ */
+export function toXLSX (rows: CellValue[][], sheetName: string = 'Sheet1'): Uint8Array<ArrayBuffer> {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => cell(value, `${columnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0))
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`
+  })
+
+  // Sheet names are limited to 31 characters and a few are reserved
+  const name = escapeXML(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31))
+
+  return zip({
+    '[Content_Types].xml': XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>',
+    '_rels/.rels': XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml': XML_HEADER +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels': XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>',
+    'xl/styles.xml': STYLES,
+    'xl/worksheets/sheet1.xml': XML_HEADER +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      `<sheetData>${sheetRows.join('')}</sheetData>` +
+      '</worksheet>'
+  })
+}
@@ -3,6 +3,11 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { ConnectionSwitcher } from '@/components/layout/connection-switcher'
+import { CapabilityNotice } from '@/components/layout/capability-notice'
+import { useCapabilities } from '@/components/layout/use-capabilities'
+import { cn } from '@/lib/utils'
+import type { Requirement } from '@/services/capabilities'
 import {
   Users,
   Building,
@@ -16,8 +21,13 @@ import {
   Key,
   FileText,
   Settings,
-  Database
+  Database,
+  History,
+  KeyRound,
+  UserX,
+  CalendarClock
 } from 'lucide-react'
+import { _ } from '@/lib/i18n'
 
 interface ManagementModule {
     id: string;
@@ -27,147 +37,202 @@ interface ManagementModule {
     href: string;
     status?: 'active' | 'warning' | 'error';
     badge?: string;
+    /**
+     * samba-tool command group or release the module needs
+     */
+    requires?: Requirement;
 }
 
 const managementModules: ManagementModule[] = [
   {
     id: 'users',
-    title: 'User Management',
-    description: 'Create, modify, and manage user accounts and permissions',
+    title: _('User Management'),
+    description: _('Create, modify, and manage user accounts and permissions'),
     icon: Users,
     href: 'user/user.html',
     status: 'active',
-    badge: 'Core'
+    badge: 'Core',
+    requires: { command: 'user' }
   },
   {
     id: 'computers',
-    title: 'Computer Management',
-    description: 'Manage domain-joined computers and their policies',
+    title: _('Computer Management'),
+    description: _('Manage domain-joined computers and their policies'),
     icon: Building,
     href: 'computer/computer.html',
-    status: 'active'
+    status: 'active',
+    requires: { command: 'computer' }
   },
   {
     id: 'groups',
-    title: 'Group Management',
-    description: 'Create and manage security and distribution groups',
+    title: _('Group Management'),
+    description: _('Create and manage security and distribution groups'),
     icon: Shield,
     href: 'group/group.html',
     status: 'active',
-    badge: 'Core'
+    badge: 'Core',
+    requires: { command: 'group' }
   },
   {
     id: 'domain',
-    title: 'Domain Management',
-    description: 'Configure domain settings, trust relationships, and policies',
+    title: _('Domain Management'),
+    description: _('Configure domain settings, trust relationships, and policies'),
     icon: Network,
     href: 'domain/domain.html',
     status: 'active',
-    badge: 'Critical'
+    badge: 'Critical',
+    requires: { command: 'domain' }
   },
   {
     id: 'dns',
-    title: 'DNS Management',
-    description: 'Manage DNS zones, records, and domain name resolution',
+    title: _('DNS Management'),
+    description: _('Manage DNS zones, records, and domain name resolution'),
     icon: Database,
     href: 'dns/dns.html',
     status: 'active',
-    badge: 'Core'
+    badge: 'Core',
+    requires: { command: 'dns' }
   },
   {
     id: 'sites',
-    title: 'Sites Management',
-    description: 'Configure Active Directory sites and subnets',
+    title: _('Sites Management'),
+    description: _('Configure Active Directory sites and subnets'),
     icon: MapPin,
     href: 'sites/sites.html',
-    status: 'active'
+    status: 'active',
+    requires: { command: 'sites' }
   },
   {
     id: 'ou',
-    title: 'Organization Units',
-    description: 'Create and manage organizational unit structure',
+    title: _('Organization Units'),
+    description: _('Create and manage organizational unit structure'),
     icon: Folder,
     href: 'organization_unit/orgunit.html',
-    status: 'active'
+    status: 'active',
+    requires: { command: 'ou' }
   },
   {
     id: 'gpo',
-    title: 'Group Policy Objects',
-    description: 'Manage and deploy group policies across the domain',
+    title: _('Group Policy Objects'),
+    description: _('Manage and deploy group policies across the domain'),
     icon: FileText,
     href: 'gpo/gpo.html',
     status: 'active',
-    badge: 'Advanced'
+    badge: 'Advanced',
+    requires: { command: 'gpo' }
   },
   {
     id: 'fsmo',
-    title: 'FSMO Management',
-    description: 'Manage Flexible Single Master Operations roles',
+    title: _('FSMO Management'),
+    description: _('Manage Flexible Single Master Operations roles'),
     icon: Server,
     href: 'fsmo/fsmo.html',
     status: 'active',
-    badge: 'Advanced'
+    badge: 'Advanced',
+    requires: { command: 'fsmo' }
   },
   {
     id: 'spn',
-    title: 'SPN Management',
-    description: 'Manage Service Principal Names for authentication',
+    title: _('SPN Management'),
+    description: _('Manage Service Principal Names for authentication'),
     icon: Key,
     href: 'spn/spn.html',
     status: 'active',
-    badge: 'Advanced'
+    badge: 'Advanced',
+    requires: { command: 'spn' }
   },
   {
     id: 'delegation',
-    title: 'Delegation Management',
-    description: 'Configure delegation of authentication and permissions',
+    title: _('Delegation Management'),
+    description: _('Configure delegation of authentication and permissions'),
     icon: Settings,
     href: 'delegation/delegation.html',
     status: 'active',
-    badge: 'Advanced'
+    badge: 'Advanced',
+    requires: { command: 'delegation' }
   },
   {
     id: 'time',
-    title: 'Time Configuration',
-    description: 'Configure time synchronization and NTP settings',
+    title: _('Time Configuration'),
+    description: _('Configure time synchronization and NTP settings'),
     icon: Clock,
     href: 'time/time.html',
-    status: 'active'
+    status: 'active',
+    requires: { command: 'time' }
   },
   {
     id: 'contacts',
-    title: 'Contact Management',
-    description: 'Manage contact objects and address book entries',
+    title: _('Contact Management'),
+    description: _('Manage contact objects and address book entries'),
     icon: Mail,
     href: 'contact/contact.html',
-    status: 'active'
+    status: 'active',
+    requires: { command: 'contact' }
   },
   {
     id: 'forest',
-    title: 'Forest Management',
-    description: 'Manage forest-wide settings and configuration',
+    title: _('Forest Management'),
+    description: _('Manage forest-wide settings and configuration'),
     icon: Database,
     href: 'forest/forest.html',
     status: 'active',
-    badge: 'Advanced'
+    badge: 'Advanced',
+    requires: { command: 'forest' }
   },
   {
     id: 'dsacl',
-    title: 'DS ACL Management',
-    description: 'Manage Directory Service Access Control Lists',
+    title: _('DS ACL Management'),
+    description: _('Manage Directory Service Access Control Lists'),
     icon: Shield,
     href: 'dsacl/dsacl.html',
     status: 'active',
-    badge: 'Expert'
+    badge: 'Expert',
+    requires: { command: 'dsacl' }
   },
   {
     id: 'ntacl',
-    title: 'NT ACL Management',
-    description: 'Manage NTFS Access Control Lists on SYSVOL',
+    title: _('NT ACL Management'),
+    description: _('Manage NTFS Access Control Lists on SYSVOL'),
     icon: Shield,
     href: 'ntacl/ntacl.html',
     status: 'active',
-    badge: 'Expert'
+    badge: 'Expert',
+    requires: { command: 'ntacl' }
+  },
+  {
+    id: 'audit',
+    title: _('Audit Log'),
+    description: _('Review changes made through this console, who made them and when'),
+    icon: History,
+    href: 'audit/audit.html',
+    status: 'active'
+  },
+  {
+    id: 'password-policy',
+    title: _('Password Policy'),
+    description: _('Domain password and lockout settings and fine-grained password policies'),
+    icon: KeyRound,
+    href: 'password_policy/password_policy.html',
+    status: 'active',
+    requires: { command: 'domain passwordsettings' }
+  },
+  {
+    id: 'inactive',
+    title: _('Inactive Accounts'),
+    description: _('Find stale users and computers and disable, quarantine or stamp them'),
+    icon: UserX,
+    href: 'inactive/inactive.html',
+    status: 'active',
+    requires: { command: 'user' }
+  },
+  {
+    id: 'expiry',
+    title: _('Password Expiry'),
+    description: _('Passwords and accounts about to expire, and passwords that never do'),
+    icon: CalendarClock,
+    href: 'expiry/expiry.html',
+    status: 'active',
+    requires: { command: 'user' }
   }
 ]
 
@@ -208,23 +273,35 @@ const queryClient = new QueryClient({
 })
 
 export default function Main (): JSX.Element {
+  const capabilities = useCapabilities(managementModules.map(module => module.requires))
+  const availableCount = capabilities.filter(status => status?.supported !== false).length
+
   return (
         <QueryClientProvider client={queryClient}>
             <div className="container mx-auto px-4 py-8">
-                <div className="mb-8">
-                    <h1 className="text-3xl font-bold tracking-tight">Samba AD DC Management</h1>
-                    <p className="text-muted-foreground mt-2">
-                        Comprehensive Active Directory Domain Controller management interface
-                    </p>
+                <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">{_('Samba AD DC Management')}</h1>
+                        <p className="text-muted-foreground mt-2">
+                            {_('Comprehensive Active Directory Domain Controller management interface')}
+                        </p>
+                    </div>
+                    <ConnectionSwitcher />
                 </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {managementModules.map((module) => {
+                {managementModules.map((module, index) => {
                   const IconComponent = module.icon
+                  const unsupported = capabilities[index]?.supported === false
                   return (
                         <Card
                             key={module.id}
-                            className="group hover:shadow-lg transition-all duration-200 hover:scale-[1.02] cursor-pointer border-2 hover:border-primary/20"
+                            className={cn(
+                              'group transition-all duration-200 border-2',
+                              unsupported
+                                ? 'opacity-60'
+                                : 'hover:shadow-lg hover:scale-[1.02] cursor-pointer hover:border-primary/20'
+                            )}
                         >
                             <CardHeader className="pb-3">
                                 <div className="flex items-center justify-between">
@@ -245,13 +322,15 @@ export default function Main (): JSX.Element {
                                 <CardDescription className="text-sm leading-relaxed mb-4">
                                     {module.description}
                                 </CardDescription>
+                                <CapabilityNotice status={capabilities[index]} className="mb-4" />
                                 <Button
                                     variant="outline"
                                     size="sm"
                                     className="w-full group-hover:bg-primary group-hover:text-primary-foreground transition-colors"
+                                    disabled={unsupported}
                                     onClick={() => { window.location.href = module.href }}
                                 >
-                                    Manage
+                                    {_('Manage')}
                                 </Button>
                             </CardContent>
                         </Card>
@@ -260,19 +339,19 @@ export default function Main (): JSX.Element {
             </div>
 
             <div className="mt-12 p-6 bg-muted/50 rounded-lg">
-                <h2 className="text-xl font-semibold mb-4">System Status</h2>
+                <h2 className="text-xl font-semibold mb-4">{_('System Status')}</h2>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="text-center">
-                        <div className="text-2xl font-bold text-green-500">Active</div>
-                        <div className="text-sm text-muted-foreground">Domain Controller</div>
+                        <div className="text-2xl font-bold text-green-500">{_('Active')}</div>
+                        <div className="text-sm text-muted-foreground">{_('Domain Controller')}</div>
                     </div>
                     <div className="text-center">
-                        <div className="text-2xl font-bold text-blue-500">{managementModules.length}</div>
-                        <div className="text-sm text-muted-foreground">Management Modules</div>
+                        <div className="text-2xl font-bold text-blue-500">{availableCount}</div>
+                        <div className="text-sm text-muted-foreground">{_('Management Modules')}</div>
                     </div>
                     <div className="text-center">
-                        <div className="text-2xl font-bold text-purple-500">Ready</div>
-                        <div className="text-sm text-muted-foreground">System Status</div>
+                        <div className="text-2xl font-bold text-purple-500">{_('Ready')}</div>
+                        <div className="text-sm text-muted-foreground">{_('System Status')}</div>
                     </div>
                 </div>
             </div>
@@ -26,15 +26,16 @@ import { AlertTriangle } from 'lucide-react'
 import { useNTACLMutations } from './hooks/useNTACL'
 import { toast } from 'sonner'
 import type { ChangeDomSIDInput } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 const changeDomSIDSchema = z.object({
-  oldSid: z.string().min(1, 'Old SID is required').regex(
+  oldSid: z.string().min(1, _('Old SID is required')).regex(
     /^S-\d+-\d+-\d+/,
-    'SID must be in format S-1-5-21-...'
+    _('SID must be in format S-1-5-21-...')
   ),
-  newSid: z.string().min(1, 'New SID is required').regex(
+  newSid: z.string().min(1, _('New SID is required')).regex(
     /^S-\d+-\d+-\d+/,
-    'SID must be in format S-1-5-21-...'
+    _('SID must be in format S-1-5-21-...')
   ),
   xattrBackend: z.string().optional(),
   eadbFile: z.string().optional(),
@@ -94,7 +95,7 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
       }
 
       await changeDomainSID(input)
-      toast.success('Domain SID changed successfully in NT ACLs')
+      toast.success(_('Domain SID changed successfully in NT ACLs'))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -106,9 +107,9 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[600px]">
         <DialogHeader>
-          <DialogTitle>Change Domain SID</DialogTitle>
+          <DialogTitle>{_('Change Domain SID')}</DialogTitle>
           <DialogDescription>
-            Update domain SID references in NT ACLs after domain migration or restoration.
+            {_('Update domain SID references in NT ACLs after domain migration or restoration.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -118,12 +119,9 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Critical Operation</p>
+                  <p className="font-medium">{_('Critical Operation')}</p>
                   <p className="text-sm">
-                    This operation will change all references to the old domain SID
-                    with the new domain SID in NT ACLs. This is typically done after
-                    domain migration or backup restoration. Ensure you have the correct
-                    SIDs before proceeding.
+                    {_('This operation will change all references to the old domain SID with the new domain SID in NT ACLs. This is typically done after domain migration or backup restoration. Ensure you have the correct SIDs before proceeding.')}
                   </p>
                 </div>
               </AlertDescription>
@@ -134,7 +132,7 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
               name="oldSid"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Old Domain SID</FormLabel>
+                  <FormLabel>{_('Old Domain SID')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="S-1-5-21-1234567890-1234567890-1234567890"
@@ -143,7 +141,7 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
                     />
                   </FormControl>
                   <FormDescription>
-                    The old domain SID to be replaced
+                    {_('The old domain SID to be replaced')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -155,7 +153,7 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
               name="newSid"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>New Domain SID</FormLabel>
+                  <FormLabel>{_('New Domain SID')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="S-1-5-21-0987654321-0987654321-0987654321"
@@ -164,7 +162,7 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
                     />
                   </FormControl>
                   <FormDescription>
-                    The new domain SID to replace with
+                    {_('The new domain SID to replace with')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -177,7 +175,7 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
                 name="xattrBackend"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Xattr Backend</FormLabel>
+                    <FormLabel>{_('Xattr Backend')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -186,7 +184,7 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
                       />
                     </FormControl>
                     <FormDescription>
-                      Extended attribute backend type
+                      {_('Extended attribute backend type')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -198,16 +196,16 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
                 name="service"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Service</FormLabel>
+                    <FormLabel>{_('Service')}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Optional service name"
+                        placeholder={_('Optional service name')}
                         {...field}
                         disabled={isSubmitting}
                       />
                     </FormControl>
                     <FormDescription>
-                      Samba service name
+                      {_('Samba service name')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -216,20 +214,20 @@ export function ChangeDomSIDDialog ({ isOpen, onClose, onDomSIDChanged }: Change
             </div>
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">How to find Domain SIDs:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('How to find Domain SIDs:')}</h4>
               <div className="space-y-1 text-sm text-muted-foreground">
-                <div><code>wbinfo --domain-info DOMAIN</code> - Get current domain SID</div>
-                <div><code>net getdomainsid</code> - Get local domain SID</div>
-                <div><code>ldbsearch -H sam.ldb objectClass=domain</code> - Query LDAP for domain info</div>
+                <div><code>wbinfo --domain-info DOMAIN</code>{' '}{_('- Get current domain SID')}</div>
+                <div><code>net getdomainsid</code>{' '}{_('- Get local domain SID')}</div>
+                <div><code>ldbsearch -H sam.ldb objectClass=domain</code>{' '}{_('- Query LDAP for domain info')}</div>
               </div>
             </div>
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting} variant="destructive">
-                {isSubmitting ? 'Changing SID...' : 'Change Domain SID'}
+                {isSubmitting ? _('Changing SID...') : _('Change Domain SID')}
               </Button>
             </DialogFooter>
           </form>
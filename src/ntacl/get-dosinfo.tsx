@@ -27,9 +27,10 @@ import { HardDrive, Loader2 } from 'lucide-react'
 import { useDOSInfo } from './hooks/useNTACL'
 import { toast } from 'sonner'
 import type { GetNTACLInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const getDOSInfoSchema = z.object({
-  file: z.string().min(1, 'File path is required'),
+  file: z.string().min(1, _('File path is required')),
   xattrBackend: z.string().optional(),
   eadbFile: z.string().optional(),
   useNtvfs: z.string().optional(),
@@ -81,9 +82,9 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
       }
 
       setCurrentInput(input)
-      toast.success('Getting DOS file information...')
+      toast.success(_('Getting DOS file information...'))
     } catch (error) {
-      toast.error('Failed to get DOS info')
+      toast.error(_('Failed to get DOS info'))
     } finally {
       setIsSubmitting(false)
     }
@@ -93,9 +94,9 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Get DOS Information</DialogTitle>
+          <DialogTitle>{_('Get DOS Information')}</DialogTitle>
           <DialogDescription>
-            Retrieve DOS file attributes and information for a file or directory.
+            {_('Retrieve DOS file attributes and information for a file or directory.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -106,7 +107,7 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
               name="file"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>File Path</FormLabel>
+                  <FormLabel>{_('File Path')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="/path/to/file"
@@ -115,7 +116,7 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
                     />
                   </FormControl>
                   <FormDescription>
-                    Full path to the file or directory
+                    {_('Full path to the file or directory')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -128,7 +129,7 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
                 name="xattrBackend"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Xattr Backend</FormLabel>
+                    <FormLabel>{_('Xattr Backend')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -137,7 +138,7 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
                       />
                     </FormControl>
                     <FormDescription>
-                      Extended attribute backend type
+                      {_('Extended attribute backend type')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -149,16 +150,16 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
                 name="service"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Service</FormLabel>
+                    <FormLabel>{_('Service')}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Optional service name"
+                        placeholder={_('Optional service name')}
                         {...field}
                         disabled={isSubmitting || loading}
                       />
                     </FormControl>
                     <FormDescription>
-                      Samba service name
+                      {_('Samba service name')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -171,7 +172,7 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
               <Alert>
                 <Loader2 className="h-4 w-4 animate-spin" />
                 <AlertDescription>
-                  Retrieving DOS file information...
+                  {_('Retrieving DOS file information...')}
                 </AlertDescription>
               </Alert>
             )}
@@ -179,7 +180,7 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
             {error && (
               <Alert variant="destructive">
                 <AlertDescription>
-                  Error: {error}
+                  {format(_('Error: $0'), error)}
                 </AlertDescription>
               </Alert>
             )}
@@ -190,18 +191,18 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
                   <HardDrive className="h-4 w-4" />
                   <AlertDescription>
                     <div className="space-y-2">
-                      <p className="font-medium">DOS Information Retrieved</p>
-                      <p className="text-sm">File: {dosInfo.filePath}</p>
+                      <p className="font-medium">{_('DOS Information Retrieved')}</p>
+                      <p className="text-sm">{format(_('File: $0'), dosInfo.filePath)}</p>
                     </div>
                   </AlertDescription>
                 </Alert>
 
                 <div className="space-y-4">
                   <div>
-                    <h4 className="font-medium mb-2">DOS Attributes</h4>
+                    <h4 className="font-medium mb-2">{_('DOS Attributes')}</h4>
                     {dosInfo.attributes.length === 0
                       ? (
-                      <p className="text-sm text-muted-foreground">No DOS attributes found</p>
+                      <p className="text-sm text-muted-foreground">{_('No DOS attributes found')}</p>
                         )
                       : (
                       <div className="flex flex-wrap gap-2">
@@ -215,7 +216,7 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
                   </div>
 
                   <div>
-                    <h4 className="font-medium mb-2">Raw DOS Output</h4>
+                    <h4 className="font-medium mb-2">{_('Raw DOS Output')}</h4>
                     <div className="bg-muted/50 p-4 rounded-lg">
                       <pre className="text-xs font-mono overflow-x-auto whitespace-pre-wrap">
                         {dosInfo.rawOutput.join('\n')}
@@ -225,16 +226,16 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
                 </div>
 
                 <div className="bg-muted/50 rounded-lg p-4">
-                  <h4 className="text-sm font-medium mb-2">Common DOS Attributes:</h4>
+                  <h4 className="text-sm font-medium mb-2">{_('Common DOS Attributes:')}</h4>
                   <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
-                    <div><strong>R</strong> - Read-only</div>
-                    <div><strong>H</strong> - Hidden</div>
-                    <div><strong>S</strong> - System</div>
-                    <div><strong>A</strong> - Archive</div>
-                    <div><strong>D</strong> - Directory</div>
-                    <div><strong>N</strong> - Normal</div>
-                    <div><strong>T</strong> - Temporary</div>
-                    <div><strong>C</strong> - Compressed</div>
+                    <div><strong>{_('R')}</strong>{' '}{_('- Read-only')}</div>
+                    <div><strong>{_('H')}</strong>{' '}{_('- Hidden')}</div>
+                    <div><strong>{_('S')}</strong>{' '}{_('- System')}</div>
+                    <div><strong>{_('A')}</strong>{' '}{_('- Archive')}</div>
+                    <div><strong>{_('D')}</strong>{' '}{_('- Directory')}</div>
+                    <div><strong>{_('N')}</strong>{' '}{_('- Normal')}</div>
+                    <div><strong>{_('T')}</strong>{' '}{_('- Temporary')}</div>
+                    <div><strong>{_('C')}</strong>{' '}{_('- Compressed')}</div>
                   </div>
                 </div>
               </div>
@@ -242,10 +243,10 @@ export function GetDOSInfoDialog ({ isOpen, onClose }: GetDOSInfoDialogProps) {
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose}>
-                Close
+                {_('Close')}
               </Button>
               <Button type="submit" disabled={isSubmitting || loading}>
-                {isSubmitting || loading ? 'Getting Info...' : 'Get DOS Info'}
+                {isSubmitting || loading ? _('Getting Info...') : _('Get DOS Info')}
               </Button>
             </DialogFooter>
           </form>
@@ -27,9 +27,10 @@ import { FileText, Loader2 } from 'lucide-react'
 import { useNTACL } from './hooks/useNTACL'
 import { toast } from 'sonner'
 import type { GetNTACLInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const getNTACLSchema = z.object({
-  file: z.string().min(1, 'File path is required'),
+  file: z.string().min(1, _('File path is required')),
   xattrBackend: z.string().optional(),
   eadbFile: z.string().optional(),
   useNtvfs: z.string().optional(),
@@ -81,9 +82,9 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
       }
 
       setCurrentInput(input)
-      toast.success('Getting NT ACL information...')
+      toast.success(_('Getting NT ACL information...'))
     } catch (error) {
-      toast.error('Failed to get NT ACL')
+      toast.error(_('Failed to get NT ACL'))
     } finally {
       setIsSubmitting(false)
     }
@@ -93,9 +94,9 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Get NT ACLs</DialogTitle>
+          <DialogTitle>{_('Get NT ACLs')}</DialogTitle>
           <DialogDescription>
-            Retrieve Windows NT Access Control Lists for a file or directory.
+            {_('Retrieve Windows NT Access Control Lists for a file or directory.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -106,7 +107,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
               name="file"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>File Path</FormLabel>
+                  <FormLabel>{_('File Path')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="/path/to/file"
@@ -115,7 +116,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                     />
                   </FormControl>
                   <FormDescription>
-                    Full path to the file or directory
+                    {_('Full path to the file or directory')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -128,7 +129,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                 name="xattrBackend"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Xattr Backend</FormLabel>
+                    <FormLabel>{_('Xattr Backend')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -137,7 +138,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                       />
                     </FormControl>
                     <FormDescription>
-                      Extended attribute backend type
+                      {_('Extended attribute backend type')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -149,7 +150,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                 name="eadbFile"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>EADB File</FormLabel>
+                    <FormLabel>{_('EADB File')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -158,7 +159,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                       />
                     </FormControl>
                     <FormDescription>
-                      Extended attributes database file
+                      {_('Extended attributes database file')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -172,7 +173,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                 name="useNtvfs"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Use NTVFS</FormLabel>
+                    <FormLabel>{_('Use NTVFS')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -181,7 +182,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                       />
                     </FormControl>
                     <FormDescription>
-                      Use NT Virtual File System
+                      {_('Use NT Virtual File System')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -193,7 +194,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                 name="useS3fs"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Use S3FS</FormLabel>
+                    <FormLabel>{_('Use S3FS')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -202,7 +203,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                       />
                     </FormControl>
                     <FormDescription>
-                      Use S3 file system backend
+                      {_('Use S3 file system backend')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -215,16 +216,16 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
               name="service"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Service</FormLabel>
+                  <FormLabel>{_('Service')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="Optional service name"
+                      placeholder={_('Optional service name')}
                       {...field}
                       disabled={isSubmitting || loading}
                     />
                   </FormControl>
                   <FormDescription>
-                    Samba service name
+                    {_('Samba service name')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -236,7 +237,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
               <Alert>
                 <Loader2 className="h-4 w-4 animate-spin" />
                 <AlertDescription>
-                  Retrieving NT ACL information...
+                  {_('Retrieving NT ACL information...')}
                 </AlertDescription>
               </Alert>
             )}
@@ -244,7 +245,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
             {error && (
               <Alert variant="destructive">
                 <AlertDescription>
-                  Error: {error}
+                  {format(_('Error: $0'), error)}
                 </AlertDescription>
               </Alert>
             )}
@@ -255,18 +256,18 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                   <FileText className="h-4 w-4" />
                   <AlertDescription>
                     <div className="space-y-2">
-                      <p className="font-medium">NT ACL Retrieved</p>
-                      <p className="text-sm">File: {ntacl.filePath}</p>
+                      <p className="font-medium">{_('NT ACL Retrieved')}</p>
+                      <p className="text-sm">{format(_('File: $0'), ntacl.filePath)}</p>
                     </div>
                   </AlertDescription>
                 </Alert>
 
                 <div className="space-y-4">
                   <div>
-                    <h4 className="font-medium mb-2">Permissions</h4>
+                    <h4 className="font-medium mb-2">{_('Permissions')}</h4>
                     {ntacl.permissions.length === 0
                       ? (
-                      <p className="text-sm text-muted-foreground">No permissions found</p>
+                      <p className="text-sm text-muted-foreground">{_('No permissions found')}</p>
                         )
                       : (
                       <div className="space-y-2">
@@ -301,7 +302,7 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
                   </div>
 
                   <div>
-                    <h4 className="font-medium mb-2">Raw ACL Output</h4>
+                    <h4 className="font-medium mb-2">{_('Raw ACL Output')}</h4>
                     <div className="bg-muted/50 p-4 rounded-lg">
                       <pre className="text-xs font-mono overflow-x-auto whitespace-pre-wrap">
                         {ntacl.rawOutput.join('\n')}
@@ -314,10 +315,10 @@ export function GetNTACLDialog ({ isOpen, onClose }: GetNTACLDialogProps) {
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose}>
-                Close
+                {_('Close')}
               </Button>
               <Button type="submit" disabled={isSubmitting || loading}>
-                {isSubmitting || loading ? 'Getting ACLs...' : 'Get ACLs'}
+                {isSubmitting || loading ? _('Getting ACLs...') : _('Get ACLs')}
               </Button>
             </DialogFooter>
           </form>
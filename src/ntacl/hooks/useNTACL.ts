@@ -1,6 +1,8 @@
 import { useCallback } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { NTACLApi } from '@/services/ntacl-api'
+import { CancelledError } from '@/lib/errors'
+import type { StreamOptions } from '@/services/base-api'
 import type {
   NTACLInfo,
   DOSInfo,
@@ -9,6 +11,7 @@ import type {
   ChangeDomSIDInput,
   SysvolOperationInput
 } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseNTACLReturn {
   ntacl: NTACLInfo | null;
@@ -95,7 +98,7 @@ export const useSysvolCheck = (input: SysvolOperationInput = {}, autoFetch: bool
     refetch
   } = useQuery({
     queryKey: ['sysvol-check', input],
-    queryFn: () => NTACLApi.sysvolCheck(input),
+    queryFn: ({ signal }) => NTACLApi.sysvolCheck(input, { signal }),
     enabled: autoFetch,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000 // 10 minutes
@@ -118,7 +121,7 @@ export const useSysvolCheck = (input: SysvolOperationInput = {}, autoFetch: bool
 export interface UseNTACLMutationsReturn {
   setNTACL: (input: SetNTACLInput) => Promise<void>;
   changeDomainSID: (input: ChangeDomSIDInput) => Promise<void>;
-  sysvolReset: (input?: SysvolOperationInput) => Promise<void>;
+  sysvolReset: (input?: SysvolOperationInput, options?: StreamOptions) => Promise<void>;
   isLoading: boolean;
   error: string | null;
 }
@@ -132,7 +135,7 @@ export const useNTACLMutations = (onSuccess?: () => void, onError?: (error: stri
       await NTACLApi.setNTACL(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to set NT ACL'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to set NT ACL')
       onError?.(errorMessage)
       throw err
     }
@@ -143,18 +146,21 @@ export const useNTACLMutations = (onSuccess?: () => void, onError?: (error: stri
       await NTACLApi.changeDomainSID(input)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to change domain SID'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to change domain SID')
       onError?.(errorMessage)
       throw err
     }
   }, [onSuccess, onError])
 
-  const sysvolReset = useCallback(async (input: SysvolOperationInput = {}) => {
+  const sysvolReset = useCallback(async (input: SysvolOperationInput = {}, options?: StreamOptions) => {
     try {
-      await NTACLApi.sysvolReset(input)
+      await NTACLApi.sysvolReset(input, options)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to reset SYSVOL'
+      if (err instanceof CancelledError) {
+        throw err
+      }
+      const errorMessage = err instanceof Error ? err.message : _('Failed to reset SYSVOL')
       onError?.(errorMessage)
       throw err
     }
@@ -13,12 +13,16 @@ import {
   Info
 } from 'lucide-react'
 import { BackButton } from '../common'
+import { CapabilityNotice } from '@/components/layout/capability-notice'
+import { useCapability } from '@/components/layout/use-capabilities'
+import { NTACLApi } from '@/services/ntacl-api'
 import { useSysvolCheck } from './hooks/useNTACL'
 import { GetNTACLDialog } from './get-ntacl'
 import { SetNTACLDialog } from './set-ntacl'
 import { ChangeDomSIDDialog } from './change-domsid'
 import { GetDOSInfoDialog } from './get-dosinfo'
 import { SysvolResetDialog } from './sysvol-reset'
+import { _ } from '@/lib/i18n'
 
 export default function NTACLManagement () {
   const { sysvolStatus, loading: sysvolLoading, refresh: refreshSysvol } = useSysvolCheck()
@@ -29,6 +33,7 @@ export default function NTACLManagement () {
   const [changeDomSIDDialogOpen, setChangeDomSIDDialogOpen] = useState(false)
   const [getDOSInfoDialogOpen, setGetDOSInfoDialogOpen] = useState(false)
   const [sysvolResetDialogOpen, setSysvolResetDialogOpen] = useState(false)
+  const changeDomSIDSupport = useCapability(NTACLApi.requirements.changeDomainSID)
 
   const handleOperationSuccess = () => {
     refreshSysvol()
@@ -46,9 +51,9 @@ export default function NTACLManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">NT ACL Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('NT ACL Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Windows NT Access Control Lists for files and SYSVOL
+            {_('Manage Windows NT Access Control Lists for files and SYSVOL')}
           </p>
         </div>
       </div>
@@ -57,7 +62,7 @@ export default function NTACLManagement () {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">SYSVOL Status</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('SYSVOL Status')}</CardTitle>
             {hasSysvolIssues
               ? (
               <AlertTriangle className="h-4 w-4 text-red-600" />
@@ -68,49 +73,49 @@ export default function NTACLManagement () {
           </CardHeader>
           <CardContent>
             <div className={`text-2xl font-bold ${hasSysvolIssues ? 'text-red-600' : 'text-green-600'}`}>
-              {hasSysvolIssues ? 'Issues Found' : 'Healthy'}
+              {hasSysvolIssues ? _('Issues Found') : _('Healthy')}
             </div>
             <p className="text-xs text-muted-foreground">
-              SYSVOL ACL status
+              {_('SYSVOL ACL status')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">File ACLs</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('File ACLs')}</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">Managed</div>
+            <div className="text-2xl font-bold">{_('Managed')}</div>
             <p className="text-xs text-muted-foreground">
-              NT file system ACLs
+              {_('NT file system ACLs')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">DOS Attributes</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('DOS Attributes')}</CardTitle>
             <HardDrive className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">Available</div>
+            <div className="text-2xl font-bold">{_('Available')}</div>
             <p className="text-xs text-muted-foreground">
-              File system attributes
+              {_('File system attributes')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Security Model</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Security Model')}</CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">Windows NT</div>
+            <div className="text-2xl font-bold">{_('Windows NT')}</div>
             <p className="text-xs text-muted-foreground">
-              Native Windows ACLs
+              {_('Native Windows ACLs')}
             </p>
           </CardContent>
         </Card>
@@ -121,17 +126,17 @@ export default function NTACLManagement () {
           <TabsList>
             <TabsTrigger value="operations" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
-              Operations
+              {_('Operations')}
             </TabsTrigger>
             <TabsTrigger value="sysvol-status" className="flex items-center gap-2">
               <CheckCircle className="h-4 w-4" />
-              SYSVOL Status
+              {_('SYSVOL Status')}
             </TabsTrigger>
           </TabsList>
 
           <div className="flex items-center gap-2">
             <Button onClick={refreshSysvol} variant="outline">
-              Refresh SYSVOL
+              {_('Refresh SYSVOL')}
             </Button>
           </div>
         </div>
@@ -142,10 +147,10 @@ export default function NTACLManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <FileText className="h-5 w-5" />
-                  Get File ACLs
+                  {_('Get File ACLs')}
                 </CardTitle>
                 <CardDescription>
-                  Retrieve NT ACLs for a specific file or directory
+                  {_('Retrieve NT ACLs for a specific file or directory')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -153,7 +158,7 @@ export default function NTACLManagement () {
                   onClick={() => setGetNTACLDialogOpen(true)}
                   className="w-full"
                 >
-                  Get ACLs
+                  {_('Get ACLs')}
                 </Button>
               </CardContent>
             </Card>
@@ -162,10 +167,10 @@ export default function NTACLManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Shield className="h-5 w-5" />
-                  Set File ACLs
+                  {_('Set File ACLs')}
                 </CardTitle>
                 <CardDescription>
-                  Set NT ACLs for a specific file or directory
+                  {_('Set NT ACLs for a specific file or directory')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -173,7 +178,7 @@ export default function NTACLManagement () {
                   onClick={() => setSetNTACLDialogOpen(true)}
                   className="w-full"
                 >
-                  Set ACLs
+                  {_('Set ACLs')}
                 </Button>
               </CardContent>
             </Card>
@@ -182,10 +187,10 @@ export default function NTACLManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Settings className="h-5 w-5" />
-                  Change Domain SID
+                  {_('Change Domain SID')}
                 </CardTitle>
                 <CardDescription>
-                  Update domain SID references in ACLs
+                  {_('Update domain SID references in ACLs')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -193,9 +198,11 @@ export default function NTACLManagement () {
                   onClick={() => setChangeDomSIDDialogOpen(true)}
                   className="w-full"
                   variant="outline"
+                  disabled={changeDomSIDSupport?.supported === false}
                 >
-                  Change SID
+                  {_('Change SID')}
                 </Button>
+                <CapabilityNotice status={changeDomSIDSupport} className="mt-2" />
               </CardContent>
             </Card>
 
@@ -203,10 +210,10 @@ export default function NTACLManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <HardDrive className="h-5 w-5" />
-                  Get DOS Info
+                  {_('Get DOS Info')}
                 </CardTitle>
                 <CardDescription>
-                  Retrieve DOS file attributes and information
+                  {_('Retrieve DOS file attributes and information')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -215,7 +222,7 @@ export default function NTACLManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Get DOS Info
+                  {_('Get DOS Info')}
                 </Button>
               </CardContent>
             </Card>
@@ -224,10 +231,10 @@ export default function NTACLManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <AlertTriangle className="h-5 w-5" />
-                  Reset SYSVOL
+                  {_('Reset SYSVOL')}
                 </CardTitle>
                 <CardDescription>
-                  Reset SYSVOL ACLs to default settings
+                  {_('Reset SYSVOL ACLs to default settings')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -236,7 +243,7 @@ export default function NTACLManagement () {
                   className="w-full"
                   variant="destructive"
                 >
-                  Reset SYSVOL
+                  {_('Reset SYSVOL')}
                 </Button>
               </CardContent>
             </Card>
@@ -245,10 +252,10 @@ export default function NTACLManagement () {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <CheckCircle className="h-5 w-5" />
-                  Check SYSVOL
+                  {_('Check SYSVOL')}
                 </CardTitle>
                 <CardDescription>
-                  Verify SYSVOL ACL consistency and health
+                  {_('Verify SYSVOL ACL consistency and health')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -257,7 +264,7 @@ export default function NTACLManagement () {
                   className="w-full"
                   variant="outline"
                 >
-                  Check SYSVOL
+                  {_('Check SYSVOL')}
                 </Button>
               </CardContent>
             </Card>
@@ -269,10 +276,10 @@ export default function NTACLManagement () {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <CheckCircle className="h-5 w-5" />
-                SYSVOL ACL Status
+                {_('SYSVOL ACL Status')}
               </CardTitle>
               <CardDescription>
-                Current status of SYSVOL ACLs and any detected issues.
+                {_('Current status of SYSVOL ACLs and any detected issues.')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -290,9 +297,9 @@ export default function NTACLManagement () {
                   ? (
                 <div className="text-center py-8">
                   <CheckCircle className="mx-auto h-12 w-12 text-green-600" />
-                  <h3 className="mt-2 text-sm font-semibold">SYSVOL Healthy</h3>
+                  <h3 className="mt-2 text-sm font-semibold">{_('SYSVOL Healthy')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    No SYSVOL ACL issues detected
+                    {_('No SYSVOL ACL issues detected')}
                   </p>
                 </div>
                     )
@@ -302,13 +309,13 @@ export default function NTACLManagement () {
                     <Alert>
                       <AlertTriangle className="h-4 w-4" />
                       <AlertDescription>
-                        Issues detected with SYSVOL ACLs. Review the status below and consider running SYSVOL reset if needed.
+                        {_('Issues detected with SYSVOL ACLs. Review the status below and consider running SYSVOL reset if needed.')}
                       </AlertDescription>
                     </Alert>
                   )}
 
                   <div className="space-y-2">
-                    <h4 className="font-medium">SYSVOL Check Results:</h4>
+                    <h4 className="font-medium">{_('SYSVOL Check Results:')}</h4>
                     <div className="bg-muted/50 p-4 rounded-lg">
                       <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap">
                         {sysvolStatus.join('\n')}
@@ -323,14 +330,14 @@ export default function NTACLManagement () {
                         variant="destructive"
                         size="sm"
                       >
-                        Reset SYSVOL ACLs
+                        {_('Reset SYSVOL ACLs')}
                       </Button>
                       <Button
                         onClick={refreshSysvol}
                         variant="outline"
                         size="sm"
                       >
-                        Recheck
+                        {_('Recheck')}
                       </Button>
                     </div>
                   )}
@@ -346,11 +353,9 @@ export default function NTACLManagement () {
         <Info className="h-4 w-4" />
         <AlertDescription>
           <div className="space-y-2">
-            <p className="font-medium">NT ACL Management</p>
+            <p className="font-medium">{_('NT ACL Management')}</p>
             <p className="text-sm">
-              This module provides tools for managing Windows NT Access Control Lists (ACLs)
-              on files and directories. NT ACLs control file system permissions and are critical
-              for proper Samba integration with Windows clients.
+              {_('This module provides tools for managing Windows NT Access Control Lists (ACLs) on files and directories. NT ACLs control file system permissions and are critical for proper Samba integration with Windows clients.')}
             </p>
           </div>
         </AlertDescription>
@@ -27,10 +27,11 @@ import { AlertTriangle } from 'lucide-react'
 import { useNTACLMutations } from './hooks/useNTACL'
 import { toast } from 'sonner'
 import type { SetNTACLInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const setNTACLSchema = z.object({
-  acl: z.string().min(1, 'ACL is required'),
-  file: z.string().min(1, 'File path is required'),
+  acl: z.string().min(1, _('ACL is required')),
+  file: z.string().min(1, _('File path is required')),
   xattrBackend: z.string().optional(),
   eadbFile: z.string().optional(),
   useNtvfs: z.string().optional(),
@@ -89,7 +90,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
       }
 
       await setNTACL(input)
-      toast.success(`NT ACL set successfully for "${data.file}"`)
+      toast.success(format(_('NT ACL set successfully for "$0"'), data.file))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -101,9 +102,9 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Set NT ACLs</DialogTitle>
+          <DialogTitle>{_('Set NT ACLs')}</DialogTitle>
           <DialogDescription>
-            Set Windows NT Access Control Lists for a file or directory.
+            {_('Set Windows NT Access Control Lists for a file or directory.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -113,11 +114,9 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Warning</p>
+                  <p className="font-medium">{_('Warning')}</p>
                   <p className="text-sm">
-                    Setting NT ACLs will modify file system permissions. Incorrect ACLs
-                    can make files inaccessible or compromise security. Ensure you understand
-                    the ACL format before proceeding.
+                    {_('Setting NT ACLs will modify file system permissions. Incorrect ACLs can make files inaccessible or compromise security. Ensure you understand the ACL format before proceeding.')}
                   </p>
                 </div>
               </AlertDescription>
@@ -128,7 +127,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
               name="acl"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>ACL</FormLabel>
+                  <FormLabel>{_('ACL')}</FormLabel>
                   <FormControl>
                     <Textarea
                       placeholder="O:BAG:SYD:(A;;FA;;;SY)(A;;FA;;;BA)..."
@@ -138,7 +137,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                     />
                   </FormControl>
                   <FormDescription>
-                    NT ACL in SDDL (Security Descriptor Definition Language) format
+                    {_('NT ACL in SDDL (Security Descriptor Definition Language) format')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -150,7 +149,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
               name="file"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>File Path</FormLabel>
+                  <FormLabel>{_('File Path')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="/path/to/file"
@@ -159,7 +158,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                     />
                   </FormControl>
                   <FormDescription>
-                    Full path to the file or directory
+                    {_('Full path to the file or directory')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -172,7 +171,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                 name="xattrBackend"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Xattr Backend</FormLabel>
+                    <FormLabel>{_('Xattr Backend')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -181,7 +180,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                       />
                     </FormControl>
                     <FormDescription>
-                      Extended attribute backend type
+                      {_('Extended attribute backend type')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -193,7 +192,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                 name="eadbFile"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>EADB File</FormLabel>
+                    <FormLabel>{_('EADB File')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -202,7 +201,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                       />
                     </FormControl>
                     <FormDescription>
-                      Extended attributes database file
+                      {_('Extended attributes database file')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -216,7 +215,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                 name="useNtvfs"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Use NTVFS</FormLabel>
+                    <FormLabel>{_('Use NTVFS')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -225,7 +224,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                       />
                     </FormControl>
                     <FormDescription>
-                      Use NT Virtual File System
+                      {_('Use NT Virtual File System')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -237,7 +236,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                 name="useS3fs"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Use S3FS</FormLabel>
+                    <FormLabel>{_('Use S3FS')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -246,7 +245,7 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
                       />
                     </FormControl>
                     <FormDescription>
-                      Use S3 file system backend
+                      {_('Use S3 file system backend')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -259,16 +258,16 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
               name="service"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Service</FormLabel>
+                  <FormLabel>{_('Service')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="Optional service name"
+                      placeholder={_('Optional service name')}
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Samba service name
+                    {_('Samba service name')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -276,21 +275,21 @@ export function SetNTACLDialog ({ isOpen, onClose, onNTACLSet }: SetNTACLDialogP
             />
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">SDDL Format Examples:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('SDDL Format Examples:')}</h4>
               <div className="space-y-1 text-xs text-muted-foreground font-mono">
-                <div><strong>Full Control for System:</strong> O:SYG:SYD:(A;;FA;;;SY)</div>
-                <div><strong>Read/Write for Administrators:</strong> (A;;FRFW;;;BA)</div>
-                <div><strong>Read Only for Users:</strong> (A;;FR;;;AU)</div>
-                <div><strong>Deny Write for Guest:</strong> (D;;FW;;;GU)</div>
+                <div><strong>{_('Full Control for System:')}</strong> O:SYG:SYD:(A;;FA;;;SY)</div>
+                <div><strong>{_('Read/Write for Administrators:')}</strong>{' '}{_('(A;;FRFW;;;BA)')}</div>
+                <div><strong>{_('Read Only for Users:')}</strong>{' '}{_('(A;;FR;;;AU)')}</div>
+                <div><strong>{_('Deny Write for Guest:')}</strong>{' '}{_('(D;;FW;;;GU)')}</div>
               </div>
             </div>
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Setting ACLs...' : 'Set ACLs'}
+                {isSubmitting ? _('Setting ACLs...') : _('Set ACLs')}
               </Button>
             </DialogFooter>
           </form>
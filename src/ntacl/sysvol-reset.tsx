@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback, useRef } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -22,10 +22,18 @@ import {
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
+import { CancelledAlert } from '@/components/ui/error-alert'
+import { CommandConsole, useCommandOutput } from '@/components/ui/command-console'
 import { AlertTriangle } from 'lucide-react'
 import { useNTACLMutations } from './hooks/useNTACL'
+import { NTACLApi } from '@/services/ntacl-api'
+import { CancelledError } from '@/lib/errors'
+import { SYSVOL_RESET_PHASES } from '@/services/progress'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { SysvolOperationInput } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 const sysvolResetSchema = z.object({
   xattrBackend: z.string().optional(),
@@ -46,6 +54,9 @@ interface SysvolResetDialogProps {
 export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolResetDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [confirmed, setConfirmed] = useState(false)
+  const [cancelled, setCancelled] = useState(false)
+  const abortController = useRef<AbortController | null>(null)
+  const output = useCommandOutput(SYSVOL_RESET_PHASES)
 
   const form = useForm<SysvolResetFormData>({
     resolver: zodResolver(sysvolResetSchema),
@@ -66,19 +77,44 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
     (error) => toast.error(error)
   )
 
+  const [xattrBackend, eadbFile, useNtvfs, useS3fs, service] = form.watch(['xattrBackend', 'eadbFile', 'useNtvfs', 'useS3fs', 'service'])
+
+  const previewReset = useCallback(
+    (api: PreviewScope) => api(NTACLApi).sysvolReset({
+      xattrBackend: xattrBackend || undefined,
+      eadbFile: eadbFile || undefined,
+      useNtvfs: useNtvfs || undefined,
+      useS3fs: useS3fs || undefined,
+      service: service || undefined
+    }),
+    [xattrBackend, eadbFile, useNtvfs, useS3fs, service]
+  )
+
   const handleClose = () => {
+    abortController.current?.abort()
     form.reset()
     setConfirmed(false)
+    setCancelled(false)
+    output.reset()
     onClose()
   }
 
+  const handleCancelReset = () => {
+    abortController.current?.abort()
+  }
+
   const onSubmit = async (data: SysvolResetFormData) => {
     if (!confirmed) {
-      toast.error('Please confirm that you understand the risks')
+      toast.error(_('Please confirm that you understand the risks'))
       return
     }
 
+    const controller = new AbortController()
+    abortController.current = controller
+
     setIsSubmitting(true)
+    setCancelled(false)
+    output.reset()
     try {
       const input: SysvolOperationInput = {
         xattrBackend: data.xattrBackend || undefined,
@@ -88,11 +124,16 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
         service: data.service || undefined
       }
 
-      await sysvolReset(input)
-      toast.success('SYSVOL ACLs reset successfully')
+      await sysvolReset(input, { signal: controller.signal, onOutput: output.onOutput })
+      toast.success(_('SYSVOL ACLs reset successfully'))
     } catch (error) {
-      // Error already handled by mutation hook
+      // Other errors are already handled by the mutation hook
+      if (error instanceof CancelledError) {
+        toast.warning(_('SYSVOL reset cancelled'))
+        setCancelled(true)
+      }
     } finally {
+      abortController.current = null
       setIsSubmitting(false)
     }
   }
@@ -101,9 +142,9 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[600px]">
         <DialogHeader>
-          <DialogTitle>Reset SYSVOL ACLs</DialogTitle>
+          <DialogTitle>{_('Reset SYSVOL ACLs')}</DialogTitle>
           <DialogDescription>
-            Reset SYSVOL ACLs to their default Windows-compatible settings.
+            {_('Reset SYSVOL ACLs to their default Windows-compatible settings.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -113,18 +154,15 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium text-destructive">Destructive Operation</p>
+                  <p className="font-medium text-destructive">{_('Destructive Operation')}</p>
                   <p className="text-sm">
-                    This operation will reset all SYSVOL ACLs to their default settings.
-                    This will affect Group Policy access and may impact domain functionality.
-                    Only proceed if you are experiencing SYSVOL permission issues and
-                    understand the consequences.
+                    {_('This operation will reset all SYSVOL ACLs to their default settings. This will affect Group Policy access and may impact domain functionality. Only proceed if you are experiencing SYSVOL permission issues and understand the consequences.')}
                   </p>
                   <ul className="text-sm list-disc list-inside space-y-1">
-                    <li>All custom SYSVOL ACLs will be lost</li>
-                    <li>Group Policy access may be temporarily affected</li>
-                    <li>Domain controllers may need to replicate changes</li>
-                    <li>Clients may experience temporary access issues</li>
+                    <li>{_('All custom SYSVOL ACLs will be lost')}</li>
+                    <li>{_('Group Policy access may be temporarily affected')}</li>
+                    <li>{_('Domain controllers may need to replicate changes')}</li>
+                    <li>{_('Clients may experience temporary access issues')}</li>
                   </ul>
                 </div>
               </AlertDescription>
@@ -136,7 +174,7 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
                 name="xattrBackend"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Xattr Backend</FormLabel>
+                    <FormLabel>{_('Xattr Backend')}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Optional"
@@ -145,7 +183,7 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
                       />
                     </FormControl>
                     <FormDescription>
-                      Extended attribute backend type
+                      {_('Extended attribute backend type')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -157,16 +195,16 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
                 name="service"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Service</FormLabel>
+                    <FormLabel>{_('Service')}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Optional service name"
+                        placeholder={_('Optional service name')}
                         {...field}
                         disabled={isSubmitting}
                       />
                     </FormControl>
                     <FormDescription>
-                      Samba service name
+                      {_('Samba service name')}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -175,13 +213,13 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
             </div>
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">When to use SYSVOL reset:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('When to use SYSVOL reset:')}</h4>
               <div className="space-y-1 text-sm text-muted-foreground">
-                <div>• Group Policy deployment is failing</div>
-                <div>• SYSVOL access errors in event logs</div>
-                <div>• After domain migration or restoration</div>
-                <div>• When sysvolcheck reports ACL inconsistencies</div>
-                <div>• Permission denied errors accessing SYSVOL</div>
+                <div>{_('• Group Policy deployment is failing')}</div>
+                <div>{_('• SYSVOL access errors in event logs')}</div>
+                <div>{_('• After domain migration or restoration')}</div>
+                <div>{_('• When sysvolcheck reports ACL inconsistencies')}</div>
+                <div>{_('• Permission denied errors accessing SYSVOL')}</div>
               </div>
             </div>
 
@@ -194,20 +232,39 @@ export function SysvolResetDialog ({ isOpen, onClose, onSysvolReset }: SysvolRes
                 className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
               />
               <label htmlFor="confirm-reset" className="text-sm">
-                I understand this will reset all SYSVOL ACLs and may impact domain functionality
+                {_('I understand this will reset all SYSVOL ACLs and may impact domain functionality')}
               </label>
             </div>
 
+            <CommandPreview operation={previewReset} />
+
+            {(isSubmitting || output.lines.length > 0) && (
+              <CommandConsole
+                title={_('samba-tool ntacl sysvolreset')}
+                lines={output.lines}
+                phases={output.phases}
+                phase={output.phase}
+                status={isSubmitting ? 'running' : cancelled ? 'cancelled' : 'failed'}
+              />
+            )}
+
+            {cancelled && (
+              <CancelledAlert
+                title={_('SYSVOL Reset Cancelled')}
+                message={_('The reset was stopped before it finished, so ACLs may have been reset on part of SYSVOL only. Run the reset again to bring SYSVOL back to a consistent state.')}
+              />
+            )}
+
             <DialogFooter>
-              <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+              <Button type="button" variant="outline" onClick={isSubmitting ? handleCancelReset : handleClose}>
+                {isSubmitting ? _('Cancel Reset') : _('Cancel')}
               </Button>
               <Button
                 type="submit"
                 disabled={isSubmitting || !confirmed}
                 variant="destructive"
               >
-                {isSubmitting ? 'Resetting SYSVOL...' : 'Reset SYSVOL ACLs'}
+                {isSubmitting ? _('Resetting SYSVOL...') : _('Reset SYSVOL ACLs')}
               </Button>
             </DialogFooter>
           </form>
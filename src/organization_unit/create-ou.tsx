@@ -32,11 +32,12 @@ import { Button } from '@/components/ui/button'
 import { useOUMutations } from './hooks/useOU'
 import { toast } from 'sonner'
 import type { CreateOUInput, SambaOU } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const createOUSchema = z.object({
-  name: z.string().min(1, 'Organization Unit name is required').regex(
+  name: z.string().min(1, _('Organization Unit name is required')).regex(
     /^OU=.+/,
-    'OU name must start with "OU=" (e.g., OU=Marketing)'
+    _('OU name must start with "OU=" (e.g., OU=Marketing)')
   ),
   description: z.string().optional(),
   parentOU: z.string().optional()
@@ -86,7 +87,7 @@ export function CreateOUDialog ({ isOpen, onClose, onOUCreated, parentOUs }: Cre
       }
 
       await createOU(ouData)
-      toast.success(`Organization Unit "${data.name}" created successfully`)
+      toast.success(format(_('Organization Unit "$0" created successfully'), data.name))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -98,9 +99,9 @@ export function CreateOUDialog ({ isOpen, onClose, onOUCreated, parentOUs }: Cre
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Create Organization Unit</DialogTitle>
+          <DialogTitle>{_('Create Organization Unit')}</DialogTitle>
           <DialogDescription>
-            Create a new organizational unit to organize your Active Directory objects.
+            {_('Create a new organizational unit to organize your Active Directory objects.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -111,7 +112,7 @@ export function CreateOUDialog ({ isOpen, onClose, onOUCreated, parentOUs }: Cre
               name="name"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Organization Unit Name</FormLabel>
+                  <FormLabel>{_('Organization Unit Name')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="OU=Marketing"
@@ -120,7 +121,7 @@ export function CreateOUDialog ({ isOpen, onClose, onOUCreated, parentOUs }: Cre
                     />
                   </FormControl>
                   <FormDescription>
-                    The distinguished name of the OU (must start with "OU=")
+                    {_('The distinguished name of the OU (must start with "OU=")')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -132,17 +133,17 @@ export function CreateOUDialog ({ isOpen, onClose, onOUCreated, parentOUs }: Cre
               name="description"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Description</FormLabel>
+                  <FormLabel>{_('Description')}</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Enter OU description (optional)"
+                      placeholder={_('Enter OU description (optional)')}
                       className="resize-none"
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Optional description for the organizational unit
+                    {_('Optional description for the organizational unit')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -154,15 +155,15 @@ export function CreateOUDialog ({ isOpen, onClose, onOUCreated, parentOUs }: Cre
               name="parentOU"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Parent OU (Optional)</FormLabel>
+                  <FormLabel>{_('Parent OU (Optional)')}</FormLabel>
                   <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select parent OU (optional)" />
+                        <SelectValue placeholder={_('Select parent OU (optional)')} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="">No parent (root level)</SelectItem>
+                      <SelectItem value="">{_('No parent (root level)')}</SelectItem>
                       {parentOUs.map((ou) => (
                         <SelectItem key={ou.distinguishedName} value={ou.distinguishedName}>
                           {ou.name}
@@ -171,7 +172,7 @@ export function CreateOUDialog ({ isOpen, onClose, onOUCreated, parentOUs }: Cre
                     </SelectContent>
                   </Select>
                   <FormDescription>
-                    Choose a parent OU to create this as a nested unit
+                    {_('Choose a parent OU to create this as a nested unit')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -179,21 +180,21 @@ export function CreateOUDialog ({ isOpen, onClose, onOUCreated, parentOUs }: Cre
             />
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">Examples:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('Examples:')}</h4>
               <div className="space-y-1 text-sm text-muted-foreground">
-                <div><code>OU=Marketing</code> - Marketing department</div>
-                <div><code>OU=Sales</code> - Sales department</div>
-                <div><code>OU=IT</code> - IT department</div>
-                <div><code>OU=Servers</code> - Server computers</div>
+                <div><code>OU=Marketing</code>{' '}{_('- Marketing department')}</div>
+                <div><code>OU=Sales</code>{' '}{_('- Sales department')}</div>
+                <div><code>OU=IT</code>{' '}{_('- IT department')}</div>
+                <div><code>OU=Servers</code>{' '}{_('- Server computers')}</div>
               </div>
             </div>
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Creating...' : 'Create OU'}
+                {isSubmitting ? _('Creating...') : _('Create OU')}
               </Button>
             </DialogFooter>
           </form>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -9,9 +9,13 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { AlertTriangle } from 'lucide-react'
 import { useOUMutations } from './hooks/useOU'
+import { OrganizationUnitAPI } from '@/services/ou-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
+import { _ } from '@/lib/i18n'
 
 interface DeleteOUDialogProps {
   isOpen: boolean;
@@ -31,13 +35,15 @@ export function DeleteOUDialog ({ isOpen, onClose, onOUDeleted, ouDN }: DeleteOU
     (error) => toast.error(error)
   )
 
+  const previewDelete = useCallback((api: PreviewScope) => api(OrganizationUnitAPI).deleteOU(ouDN || ''), [ouDN])
+
   const handleDelete = async () => {
     if (!ouDN) return
 
     setIsSubmitting(true)
     try {
       await deleteOU(ouDN)
-      toast.success('Organization Unit deleted successfully')
+      toast.success(_('Organization Unit deleted successfully'))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -51,9 +57,9 @@ export function DeleteOUDialog ({ isOpen, onClose, onOUDeleted, ouDN }: DeleteOU
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Delete Organization Unit</DialogTitle>
+          <DialogTitle>{_('Delete Organization Unit')}</DialogTitle>
           <DialogDescription>
-            Are you sure you want to delete this organizational unit?
+            {_('Are you sure you want to delete this organizational unit?')}
           </DialogDescription>
         </DialogHeader>
 
@@ -62,33 +68,33 @@ export function DeleteOUDialog ({ isOpen, onClose, onOUDeleted, ouDN }: DeleteOU
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
               <div className="space-y-2">
-                <p className="font-medium">This action cannot be undone.</p>
+                <p className="font-medium">{_('This action cannot be undone.')}</p>
                 <p className="text-sm">
-                  You are about to delete the following organizational unit:
+                  {_('You are about to delete the following organizational unit:')}
                 </p>
                 <code className="block text-sm bg-muted p-2 rounded">
                   {ouDN}
                 </code>
                 <p className="text-sm text-destructive">
-                  Warning: This will permanently delete the OU and may affect any objects
-                  or child OUs contained within it. Make sure the OU is empty or move
-                  its contents first.
+                  {_('Warning: This will permanently delete the OU and may affect any objects or child OUs contained within it. Make sure the OU is empty or move its contents first.')}
                 </p>
               </div>
             </AlertDescription>
           </Alert>
+
+          <CommandPreview operation={previewDelete} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             variant="destructive"
             onClick={handleDelete}
             disabled={isSubmitting}
           >
-            {isSubmitting ? 'Deleting...' : 'Delete OU'}
+            {isSubmitting ? _('Deleting...') : _('Delete OU')}
           </Button>
         </DialogFooter>
       </DialogContent>
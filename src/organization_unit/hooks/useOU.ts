@@ -8,6 +8,7 @@ import type {
   MoveOUInput,
   RenameOUInput
 } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseOUReturn {
   ous: SambaOU[];
@@ -132,7 +133,7 @@ export const useOUMutations = (onSuccess?: () => void, onError?: (error: string)
       await OrganizationUnitAPI.createOU(ouData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create organizational unit'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to create organizational unit')
       onError?.(errorMessage)
       throw err
     }
@@ -143,7 +144,7 @@ export const useOUMutations = (onSuccess?: () => void, onError?: (error: string)
       await OrganizationUnitAPI.deleteOU(ouDN)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete organizational unit'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to delete organizational unit')
       onError?.(errorMessage)
       throw err
     }
@@ -154,7 +155,7 @@ export const useOUMutations = (onSuccess?: () => void, onError?: (error: string)
       await OrganizationUnitAPI.moveOU(moveData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to move organizational unit'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to move organizational unit')
       onError?.(errorMessage)
       throw err
     }
@@ -165,7 +166,7 @@ export const useOUMutations = (onSuccess?: () => void, onError?: (error: string)
       await OrganizationUnitAPI.renameOU(renameData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to rename organizational unit'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to rename organizational unit')
       onError?.(errorMessage)
       throw err
     }
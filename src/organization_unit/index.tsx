@@ -21,6 +21,7 @@ import { DeleteOUDialog } from './delete-ou'
 import { MoveOUDialog } from './move-ou'
 import { RenameOUDialog } from './rename-ou'
 import { ListObjectsDialog } from './list-objects'
+import { _, format } from '@/lib/i18n'
 
 export default function OrganizationUnitManagement () {
   const { ous, loading: ousLoading, refresh: refreshOUs } = useOUs()
@@ -88,9 +89,9 @@ export default function OrganizationUnitManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Organization Unit Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('Organization Unit Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Active Directory organizational units and their structure
+            {_('Manage Active Directory organizational units and their structure')}
           </p>
         </div>
       </div>
@@ -99,20 +100,20 @@ export default function OrganizationUnitManagement () {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total OUs</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Total OUs')}</CardTitle>
             <FolderTree className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{ous.length}</div>
             <p className="text-xs text-muted-foreground">
-              Organizational units
+              {_('Organizational units')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Root OUs</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Root OUs')}</CardTitle>
             <Building className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -120,14 +121,14 @@ export default function OrganizationUnitManagement () {
               {ous.filter(ou => !ou.parentOU).length}
             </div>
             <p className="text-xs text-muted-foreground">
-              Top-level units
+              {_('Top-level units')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Nested OUs</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Nested OUs')}</CardTitle>
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -135,7 +136,7 @@ export default function OrganizationUnitManagement () {
               {ous.filter(ou => ou.parentOU).length}
             </div>
             <p className="text-xs text-muted-foreground">
-              Nested units
+              {_('Nested units')}
             </p>
           </CardContent>
         </Card>
@@ -146,14 +147,14 @@ export default function OrganizationUnitManagement () {
           <TabsList>
             <TabsTrigger value="list" className="flex items-center gap-2">
               <FolderTree className="h-4 w-4" />
-              Organization Units
+              {_('Organization Units')}
             </TabsTrigger>
           </TabsList>
 
           <div className="flex items-center gap-2">
             <Button onClick={() => setCreateOUDialogOpen(true)} className="flex items-center gap-2">
               <Plus className="h-4 w-4" />
-              Create OU
+              {_('Create OU')}
             </Button>
           </div>
         </div>
@@ -161,14 +162,14 @@ export default function OrganizationUnitManagement () {
         <TabsContent value="list">
           <Card>
             <CardHeader>
-              <CardTitle>Organization Units</CardTitle>
+              <CardTitle>{_('Organization Units')}</CardTitle>
               <CardDescription>
-                Manage the organizational structure of your Active Directory domain.
+                {_('Manage the organizational structure of your Active Directory domain.')}
               </CardDescription>
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
                 <Input
-                  placeholder="Search organizational units..."
+                  placeholder={_('Search organizational units...')}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
@@ -191,17 +192,17 @@ export default function OrganizationUnitManagement () {
                 <div className="text-center py-8">
                   <FolderTree className="mx-auto h-12 w-12 text-muted-foreground" />
                   <h3 className="mt-2 text-sm font-semibold">
-                    {searchQuery ? 'No OUs Found' : 'No Organization Units'}
+                    {searchQuery ? _('No OUs Found') : _('No Organization Units')}
                   </h3>
                   <p className="mt-1 text-sm text-muted-foreground">
                     {searchQuery
-                      ? 'Try adjusting your search terms'
-                      : 'Create your first organizational unit to get started'
+                      ? _('Try adjusting your search terms')
+                      : _('Create your first organizational unit to get started')
                     }
                   </p>
                   {!searchQuery && (
                     <Button onClick={() => setCreateOUDialogOpen(true)} className="mt-4">
-                      Create Organization Unit
+                      {_('Create Organization Unit')}
                     </Button>
                   )}
                 </div>
@@ -227,16 +228,16 @@ export default function OrganizationUnitManagement () {
                               <div className="flex items-center gap-2 mt-2">
                                 {ou.parentOU
                                   ? (
-                                  <Badge variant="outline">Nested</Badge>
+                                  <Badge variant="outline">{_('Nested')}</Badge>
                                     )
                                   : (
-                                  <Badge variant="secondary">Root</Badge>
+                                  <Badge variant="secondary">{_('Root')}</Badge>
                                     )}
                                 <Badge variant="outline">
-                                  {ou.children.length} children
+                                  {format(_('$0 children'), ou.children.length)}
                                 </Badge>
                                 <Badge variant="outline">
-                                  {ou.objects.length} objects
+                                  {format(_('$0 objects'), ou.objects.length)}
                                 </Badge>
                               </div>
                             </div>
@@ -250,7 +251,7 @@ export default function OrganizationUnitManagement () {
                               className="flex items-center gap-2"
                             >
                               <Users className="h-4 w-4" />
-                              Objects
+                              {_('Objects')}
                             </Button>
                             <Button
                               variant="outline"
@@ -259,7 +260,7 @@ export default function OrganizationUnitManagement () {
                               className="flex items-center gap-2"
                             >
                               <Edit2 className="h-4 w-4" />
-                              Rename
+                              {_('Rename')}
                             </Button>
                             <Button
                               variant="outline"
@@ -268,7 +269,7 @@ export default function OrganizationUnitManagement () {
                               className="flex items-center gap-2"
                             >
                               <Move className="h-4 w-4" />
-                              Move
+                              {_('Move')}
                             </Button>
                             <Button
                               variant="outline"
@@ -277,7 +278,7 @@ export default function OrganizationUnitManagement () {
                               className="text-destructive hover:text-destructive flex items-center gap-2"
                             >
                               <Trash2 className="h-4 w-4" />
-                              Delete
+                              {_('Delete')}
                             </Button>
                           </div>
                         </div>
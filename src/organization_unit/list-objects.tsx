@@ -16,6 +16,7 @@ import {
   Loader2
 } from 'lucide-react'
 import { useOUObjects } from './hooks/useOU'
+import { _, format } from '@/lib/i18n'
 
 interface ListObjectsDialogProps {
   isOpen: boolean;
@@ -71,9 +72,9 @@ export function ListObjectsDialog ({ isOpen, onClose, ouDN }: ListObjectsDialogP
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-hidden flex flex-col">
         <DialogHeader>
-          <DialogTitle>OU Objects</DialogTitle>
+          <DialogTitle>{_('OU Objects')}</DialogTitle>
           <DialogDescription>
-            Objects contained in this organizational unit
+            {_('Objects contained in this organizational unit')}
           </DialogDescription>
           <div className="text-sm text-muted-foreground">
             <code className="bg-muted px-2 py-1 rounded text-xs">
@@ -87,14 +88,14 @@ export function ListObjectsDialog ({ isOpen, onClose, ouDN }: ListObjectsDialogP
             ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-6 w-6 animate-spin" />
-              <span className="ml-2">Loading objects...</span>
+              <span className="ml-2">{_('Loading objects...')}</span>
             </div>
               )
             : error
               ? (
             <div className="text-center py-8">
               <div className="text-destructive text-sm">
-                Error loading objects: {error}
+                {format(_('Error loading objects: $0'), error)}
               </div>
             </div>
                 )
@@ -102,9 +103,9 @@ export function ListObjectsDialog ({ isOpen, onClose, ouDN }: ListObjectsDialogP
                 ? (
             <div className="text-center py-8">
               <Users className="mx-auto h-12 w-12 text-muted-foreground" />
-              <h3 className="mt-2 text-sm font-semibold">No Objects Found</h3>
+              <h3 className="mt-2 text-sm font-semibold">{_('No Objects Found')}</h3>
               <p className="mt-1 text-sm text-muted-foreground">
-                This organizational unit contains no objects
+                {_('This organizational unit contains no objects')}
               </p>
             </div>
                   )
@@ -114,7 +115,7 @@ export function ListObjectsDialog ({ isOpen, onClose, ouDN }: ListObjectsDialogP
               <div className="flex flex-wrap gap-2">
                 {Object.entries(groupedObjects).map(([type, items]) => (
                   <Badge key={type} variant="secondary" className="text-xs">
-                    {items.length} {type}{items.length !== 1 ? 's' : ''}
+                    {items.length} {type}{items.length !== 1 ? _('s') : ''}
                   </Badge>
                 ))}
               </div>
@@ -124,8 +125,7 @@ export function ListObjectsDialog ({ isOpen, onClose, ouDN }: ListObjectsDialogP
                 <div key={type}>
                   <h4 className="font-medium text-sm mb-2 flex items-center gap-2">
                     {getObjectIcon(type)}
-                    {type}s ({items.length})
-                  </h4>
+                    {format(_('$0s ($1)'), type, items.length)}</h4>
                   <div className="space-y-2">
                     {items.map((object) => (
                       <Card key={object.distinguishedName} className="border-l-4 border-l-border">
@@ -152,7 +152,7 @@ export function ListObjectsDialog ({ isOpen, onClose, ouDN }: ListObjectsDialogP
                                   variant={object.enabled ? 'default' : 'destructive'}
                                   className="text-xs"
                                 >
-                                  {object.enabled ? 'Enabled' : 'Disabled'}
+                                  {object.enabled ? _('Enabled') : _('Disabled')}
                                 </Badge>
                               )}
                             </div>
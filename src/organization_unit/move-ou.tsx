@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -28,13 +28,17 @@ import {
 } from '@/components/ui/select'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { Info } from 'lucide-react'
 import { useOUMutations } from './hooks/useOU'
+import { OrganizationUnitAPI } from '@/services/ou-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { MoveOUInput, SambaOU } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 const moveOUSchema = z.object({
-  targetParentDN: z.string().min(1, 'Target parent is required')
+  targetParentDN: z.string().min(1, _('Target parent is required'))
 })
 
 type MoveOUFormData = z.infer<typeof moveOUSchema>;
@@ -65,6 +69,13 @@ export function MoveOUDialog ({ isOpen, onClose, onOUMoved, ouDN, parentOUs }: M
     (error) => toast.error(error)
   )
 
+  const targetParentDN = form.watch('targetParentDN')
+
+  const previewMove = useCallback(
+    (api: PreviewScope) => api(OrganizationUnitAPI).moveOU({ ouDN: ouDN || '', targetParentDN }),
+    [ouDN, targetParentDN]
+  )
+
   const handleClose = () => {
     form.reset()
     onClose()
@@ -81,7 +92,7 @@ export function MoveOUDialog ({ isOpen, onClose, onOUMoved, ouDN, parentOUs }: M
       }
 
       await moveOU(moveData)
-      toast.success('Organization Unit moved successfully')
+      toast.success(_('Organization Unit moved successfully'))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -101,9 +112,9 @@ export function MoveOUDialog ({ isOpen, onClose, onOUMoved, ouDN, parentOUs }: M
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Move Organization Unit</DialogTitle>
+          <DialogTitle>{_('Move Organization Unit')}</DialogTitle>
           <DialogDescription>
-            Move this organizational unit to a different parent container.
+            {_('Move this organizational unit to a different parent container.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -113,7 +124,7 @@ export function MoveOUDialog ({ isOpen, onClose, onOUMoved, ouDN, parentOUs }: M
               <Info className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Moving OU:</p>
+                  <p className="font-medium">{_('Moving OU:')}</p>
                   <code className="block text-sm bg-muted p-2 rounded">
                     {ouDN}
                   </code>
@@ -126,15 +137,15 @@ export function MoveOUDialog ({ isOpen, onClose, onOUMoved, ouDN, parentOUs }: M
               name="targetParentDN"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Target Parent</FormLabel>
+                  <FormLabel>{_('Target Parent')}</FormLabel>
                   <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select target parent OU" />
+                        <SelectValue placeholder={_('Select target parent OU')} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="root">Domain Root</SelectItem>
+                      <SelectItem value="root">{_('Domain Root')}</SelectItem>
                       {availableParents.map((ou) => (
                         <SelectItem key={ou.distinguishedName} value={ou.distinguishedName}>
                           {ou.name}
@@ -146,7 +157,7 @@ export function MoveOUDialog ({ isOpen, onClose, onOUMoved, ouDN, parentOUs }: M
                     </SelectContent>
                   </Select>
                   <FormDescription>
-                    Choose the new parent container for this OU
+                    {_('Choose the new parent container for this OU')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -157,23 +168,25 @@ export function MoveOUDialog ({ isOpen, onClose, onOUMoved, ouDN, parentOUs }: M
               <Info className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Important Notes:</p>
+                  <p className="font-medium">{_('Important Notes:')}</p>
                   <ul className="text-sm space-y-1 list-disc list-inside">
-                    <li>Moving an OU will change its distinguished name</li>
-                    <li>All child objects and OUs will move with this OU</li>
-                    <li>Group Policy links and permissions may be affected</li>
-                    <li>Applications referencing the old DN will need updates</li>
+                    <li>{_('Moving an OU will change its distinguished name')}</li>
+                    <li>{_('All child objects and OUs will move with this OU')}</li>
+                    <li>{_('Group Policy links and permissions may be affected')}</li>
+                    <li>{_('Applications referencing the old DN will need updates')}</li>
                   </ul>
                 </div>
               </AlertDescription>
             </Alert>
 
+            <CommandPreview operation={previewMove} disabled={!targetParentDN} />
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Moving...' : 'Move OU'}
+                {isSubmitting ? _('Moving...') : _('Move OU')}
               </Button>
             </DialogFooter>
           </form>
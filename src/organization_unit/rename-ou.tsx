@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -22,15 +22,19 @@ import {
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { Info, AlertTriangle } from 'lucide-react'
 import { useOUMutations } from './hooks/useOU'
+import { OrganizationUnitAPI } from '@/services/ou-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
 import type { RenameOUInput } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 const renameOUSchema = z.object({
-  newName: z.string().min(1, 'New name is required').regex(
+  newName: z.string().min(1, _('New name is required')).regex(
     /^OU=.+/,
-    'OU name must start with "OU=" (e.g., OU=NewName)'
+    _('OU name must start with "OU=" (e.g., OU=NewName)')
   )
 })
 
@@ -61,6 +65,13 @@ export function RenameOUDialog ({ isOpen, onClose, onOURenamed, ouDN }: RenameOU
     (error) => toast.error(error)
   )
 
+  const newName = form.watch('newName')
+
+  const previewRename = useCallback(
+    (api: PreviewScope) => api(OrganizationUnitAPI).renameOU({ ouDN: ouDN || '', newName }),
+    [ouDN, newName]
+  )
+
   const handleClose = () => {
     form.reset()
     onClose()
@@ -77,7 +88,7 @@ export function RenameOUDialog ({ isOpen, onClose, onOURenamed, ouDN }: RenameOU
       }
 
       await renameOU(renameData)
-      toast.success('Organization Unit renamed successfully')
+      toast.success(_('Organization Unit renamed successfully'))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -94,9 +105,9 @@ export function RenameOUDialog ({ isOpen, onClose, onOURenamed, ouDN }: RenameOU
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Rename Organization Unit</DialogTitle>
+          <DialogTitle>{_('Rename Organization Unit')}</DialogTitle>
           <DialogDescription>
-            Change the name of this organizational unit.
+            {_('Change the name of this organizational unit.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -106,12 +117,12 @@ export function RenameOUDialog ({ isOpen, onClose, onOURenamed, ouDN }: RenameOU
               <Info className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Current OU:</p>
+                  <p className="font-medium">{_('Current OU:')}</p>
                   <code className="block text-sm bg-muted p-2 rounded">
                     {ouDN}
                   </code>
                   <p className="text-sm">
-                    Current name: <strong>OU={currentOUName}</strong>
+                    {_('Current name:')}{' '}<strong>OU={currentOUName}</strong>
                   </p>
                 </div>
               </AlertDescription>
@@ -122,7 +133,7 @@ export function RenameOUDialog ({ isOpen, onClose, onOURenamed, ouDN }: RenameOU
               name="newName"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>New Name</FormLabel>
+                  <FormLabel>{_('New Name')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder={`OU=${currentOUName}_New`}
@@ -131,7 +142,7 @@ export function RenameOUDialog ({ isOpen, onClose, onOURenamed, ouDN }: RenameOU
                     />
                   </FormControl>
                   <FormDescription>
-                    Enter the new name for the OU (must start with "OU=")
+                    {_('Enter the new name for the OU (must start with "OU=")')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -142,20 +153,20 @@ export function RenameOUDialog ({ isOpen, onClose, onOURenamed, ouDN }: RenameOU
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
-                  <p className="font-medium">Important Considerations:</p>
+                  <p className="font-medium">{_('Important Considerations:')}</p>
                   <ul className="text-sm space-y-1 list-disc list-inside">
-                    <li>Renaming will change the distinguished name of this OU</li>
-                    <li>All child objects will have updated distinguished names</li>
-                    <li>Group Policy links may need to be updated</li>
-                    <li>Applications referencing the old name will need updates</li>
-                    <li>Active Directory replication will propagate this change</li>
+                    <li>{_('Renaming will change the distinguished name of this OU')}</li>
+                    <li>{_('All child objects will have updated distinguished names')}</li>
+                    <li>{_('Group Policy links may need to be updated')}</li>
+                    <li>{_('Applications referencing the old name will need updates')}</li>
+                    <li>{_('Active Directory replication will propagate this change')}</li>
                   </ul>
                 </div>
               </AlertDescription>
             </Alert>
 
             <div className="bg-muted/50 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-2">Example Names:</h4>
+              <h4 className="text-sm font-medium mb-2">{_('Example Names:')}</h4>
               <div className="space-y-1 text-sm text-muted-foreground">
                 <div><code>OU=Marketing_Department</code></div>
                 <div><code>OU=Sales_Team</code></div>
@@ -164,12 +175,14 @@ export function RenameOUDialog ({ isOpen, onClose, onOURenamed, ouDN }: RenameOU
               </div>
             </div>
 
+            <CommandPreview operation={previewRename} disabled={!/^OU=.+/.test(newName || '')} />
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Renaming...' : 'Rename OU'}
+                {isSubmitting ? _('Renaming...') : _('Rename OU')}
               </Button>
             </DialogFooter>
           </form>
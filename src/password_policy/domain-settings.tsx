@@ -0,0 +1,166 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Globe, Loader2, Pencil } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Form } from '@/components/ui/form'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CommandPreview } from '@/components/ui/command-preview'
+import { ErrorAlert } from '@/components/ui/error-alert'
+
+import { SettingsFields, SettingsSummary, changedSettings } from './settings'
+import { passwordSettingsSchema, type PasswordSettingsInput } from '@/lib/validation'
+import { PasswordPolicyAPI } from '@/services/password-policy-api'
+import type { PreviewScope } from '@/services/base-api'
+import type { PasswordSettings } from '@/types/samba'
+import { _ } from '@/lib/i18n'
+
+interface EditDomainSettingsDialogProps {
+  settings: PasswordSettings;
+  onSaved?: (settings: PasswordSettings) => void;
+}
+
+function EditDomainSettingsDialog ({ settings, onSaved }: EditDomainSettingsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const form = useForm<PasswordSettingsInput>({
+    resolver: zodResolver(passwordSettingsSchema),
+    defaultValues: settings
+  })
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(settings)
+    }
+  }, [isOpen, settings, form])
+
+  // Only the changed settings are passed on, so the preview shows exactly what is set
+  const changes = JSON.stringify(changedSettings(settings, form.watch()))
+  const previewSet = useCallback(
+    (api: PreviewScope) => api(PasswordPolicyAPI).setDomainSettings(JSON.parse(changes)),
+    [changes]
+  )
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (!open) {
+      setError(null)
+    }
+  }
+
+  const onSubmit = async (data: PasswordSettingsInput) => {
+    const changed = changedSettings(settings, data)
+    if (!Object.keys(changed).length) {
+      toast.info(_('Nothing to change'))
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const saved = await PasswordPolicyAPI.setDomainSettings(changed)
+      toast.success(_('Domain password settings updated'))
+      setIsOpen(false)
+      onSaved?.(saved)
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil className="mr-2 h-4 w-4" />
+          {_('Edit')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{_('Domain Password Settings')}</DialogTitle>
+          <DialogDescription>
+            {_('These settings apply to every account that no password settings object applies to.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <SettingsFields control={form.control} />
+
+            {error && <ErrorAlert error={error} title={_('Failed to Update Password Settings')} />}
+            <CommandPreview operation={previewSet} />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+                {_('Cancel')}
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {_('Save')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface DomainSettingsCardProps {
+  settings: PasswordSettings | null;
+  loading: boolean;
+  error: string | null;
+  onChanged: () => void;
+}
+
+export default function DomainSettingsCard ({ settings, loading, error, onChanged }: DomainSettingsCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="h-4 w-4" />
+            {_('Domain Defaults')}
+          </CardTitle>
+          <CardDescription>
+            {_('Password and lockout rules for accounts without a password settings object')}
+          </CardDescription>
+        </div>
+        {settings && <EditDomainSettingsDialog settings={settings} onSaved={onChanged} />}
+      </CardHeader>
+      <CardContent>
+        {error && <ErrorAlert error={error} title={_('Failed to Load Password Settings')} />}
+        {loading && !settings && (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {Array.from({ length: 8 }).map((_item, index) => (
+              <Skeleton key={index} className="h-5 w-full" />
+            ))}
+          </div>
+        )}
+        {settings && <SettingsSummary settings={settings} />}
+      </CardContent>
+    </Card>
+  )
+}
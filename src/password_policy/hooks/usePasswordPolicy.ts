@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react'
+import { PasswordPolicyAPI } from '../../services/password-policy-api'
+import type { PasswordSettings, PasswordSettingsObject } from '../../types/samba'
+import { ErrorHandler } from '../../lib/errors'
+
+export interface UsePasswordPolicyReturn {
+  settings: PasswordSettings | null;
+  psos: PasswordSettingsObject[];
+  loading: boolean;
+  error: string | null;
+  /**
+   * Why the PSOs could not be listed; the domain settings may still load
+   */
+  psoError: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the domain password settings and the PSOs
+ */
+export const usePasswordPolicy = (psoSupported = true): UsePasswordPolicyReturn => {
+  const [settings, setSettings] = useState<PasswordSettings | null>(null)
+  const [psos, setPSOs] = useState<PasswordSettingsObject[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [error, setError] = useState<string | null>(null)
+  const [psoError, setPSOError] = useState<string | null>(null)
+
+  const fetchPolicy = useCallback(async () => {
+    const handle = (err: unknown, context: string) => ErrorHandler.handle(err, `usePasswordPolicy.${context}`, {
+      showToast: false,
+      rethrow: false
+    }).message
+
+    setLoading(true)
+    setError(null)
+    setPSOError(null)
+
+    const [domain, objects] = await Promise.allSettled([
+      PasswordPolicyAPI.getDomainSettings(),
+      psoSupported ? PasswordPolicyAPI.listPSOs() : Promise.resolve([])
+    ])
+
+    if (domain.status === 'fulfilled') {
+      setSettings(domain.value)
+    } else {
+      setError(handle(domain.reason, 'getDomainSettings'))
+    }
+    if (objects.status === 'fulfilled') {
+      setPSOs(objects.value)
+    } else {
+      setPSOError(handle(objects.reason, 'listPSOs'))
+    }
+    setLoading(false)
+  }, [psoSupported])
+
+  const refresh = useCallback(async () => {
+    await fetchPolicy()
+  }, [fetchPolicy])
+
+  useEffect(() => {
+    fetchPolicy()
+  }, [fetchPolicy])
+
+  return {
+    settings,
+    psos,
+    loading,
+    error,
+    psoError,
+    refresh
+  }
+}
@@ -0,0 +1,57 @@
+import React from 'react'
+import { createRoot } from 'react-dom/client'
+import { RefreshCw } from 'lucide-react'
+import '../user/tailwind.css'
+
+import { Button } from '@/components/ui/button'
+import { useCapability } from '@/components/layout/use-capabilities'
+import { BackButton } from '../common'
+import DomainSettingsCard from './domain-settings'
+import PSOCard from './pso'
+import ResultantPolicyCard from './resultant'
+import { usePasswordPolicy } from './hooks/usePasswordPolicy'
+import { PasswordPolicyAPI } from '@/services/password-policy-api'
+import { _ } from '@/lib/i18n'
+
+function PasswordPolicyPage () {
+  const support = useCapability(PasswordPolicyAPI.requirements.pso)
+  const { settings, psos, loading, error, psoError, refresh } = usePasswordPolicy(support?.supported !== false)
+
+  return (
+        <div className="min-h-screen bg-background">
+            <div className="container mx-auto p-6 space-y-6">
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <BackButton />
+                        <div>
+                            <h1 className="text-3xl font-bold tracking-tight">{_('Password Policy')}</h1>
+                            <p className="text-muted-foreground">
+                                {_('Password complexity, expiry and account lockout rules')}
+                            </p>
+                        </div>
+                    </div>
+                    <Button variant="outline" onClick={refresh} disabled={loading}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        {_('Refresh')}
+                    </Button>
+                </div>
+
+                <DomainSettingsCard settings={settings} loading={loading} error={error} onChanged={refresh} />
+                <PSOCard psos={psos} defaults={settings} loading={loading} error={psoError} onChanged={refresh} />
+                <ResultantPolicyCard />
+            </div>
+        </div>
+  )
+}
+
+// DOM mounting for standalone usage
+document.addEventListener('DOMContentLoaded', () => {
+  const container = document.getElementById('password-policy')
+  if (container) {
+    const root = createRoot(container)
+    root.render(<PasswordPolicyPage />)
+  }
+})
+
+export default PasswordPolicyPage
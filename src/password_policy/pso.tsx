@@ -0,0 +1,476 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Loader2, Pencil, Plus, ShieldCheck, Trash2, Users, X } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { CommandPreview } from '@/components/ui/command-preview'
+import { ErrorAlert } from '@/components/ui/error-alert'
+import { CapabilityNotice } from '@/components/layout/capability-notice'
+import { useCapability } from '@/components/layout/use-capabilities'
+
+import { SettingsFields, changedSettings, NUMERIC_FIELDS } from './settings'
+import { psoSchema, type PSOInput } from '@/lib/validation'
+import { PasswordPolicyAPI } from '@/services/password-policy-api'
+import type { PreviewScope } from '@/services/base-api'
+import type { PasswordSettings, PasswordSettingsObject } from '@/types/samba'
+import { _, format, ngettext } from '@/lib/i18n'
+
+interface PSODialogProps {
+  /**
+   * The PSO to edit; a new one is created when left out
+   */
+  pso?: PasswordSettingsObject;
+  /**
+   * Starting values for a new PSO, normally the domain settings
+   */
+  defaults: PasswordSettings | null;
+  disabled?: boolean;
+  onSaved?: (pso: PasswordSettingsObject) => void;
+}
+
+function PSODialog ({ pso, defaults, disabled, onSaved }: PSODialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const form = useForm<PSOInput>({
+    resolver: zodResolver(psoSchema)
+  })
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const base = pso || defaults
+    if (base) {
+      const { complexity, storePlaintext, historyLength, minLength, minAge, maxAge, lockoutDuration, lockoutThreshold, resetLockoutAfter } = base
+      form.reset({
+        name: pso?.name ?? '',
+        precedence: pso?.precedence ?? 10,
+        complexity,
+        storePlaintext,
+        historyLength,
+        minLength,
+        minAge,
+        maxAge,
+        lockoutDuration,
+        lockoutThreshold,
+        resetLockoutAfter
+      })
+    }
+  }, [isOpen, pso, defaults, form])
+
+  const values = form.watch()
+  const request = JSON.stringify(pso
+    ? {
+        name: pso.name,
+        precedence: values.precedence !== pso.precedence ? values.precedence : undefined,
+        ...changedSettings(pso, values)
+      }
+    : values)
+  const previewSave = useCallback(
+    (api: PreviewScope) => pso ? api(PasswordPolicyAPI).updatePSO(JSON.parse(request)) : api(PasswordPolicyAPI).createPSO(JSON.parse(request)),
+    [pso, request]
+  )
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (!open) {
+      setError(null)
+    }
+  }
+
+  const onSubmit = async (data: PSOInput) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const saved = pso
+        ? await PasswordPolicyAPI.updatePSO({
+          name: pso.name,
+          precedence: data.precedence !== pso.precedence ? data.precedence : undefined,
+          ...changedSettings(pso, data)
+        })
+        : await PasswordPolicyAPI.createPSO(data)
+      toast.success(pso
+        ? format(_('Password settings object "$0" updated'), saved.name)
+        : format(_('Password settings object "$0" created'), saved.name))
+      setIsOpen(false)
+      onSaved?.(saved)
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {pso
+          ? (
+          <Button variant="ghost" size="sm" disabled={disabled} title={_('Edit')}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+            )
+          : (
+          <Button size="sm" disabled={disabled || !defaults}>
+            <Plus className="mr-2 h-4 w-4" />
+            {_('New PSO')}
+          </Button>
+            )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {pso ? format(_('Edit "$0"'), pso.name) : _('New Password Settings Object')}
+          </DialogTitle>
+          <DialogDescription>
+            {_('A password settings object overrides the domain defaults for the users and groups it is applied to.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{_('Name')}</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ''} disabled={!!pso} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="precedence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{_('Precedence')}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={Number.isNaN(field.value) ? '' : field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      {_('When several objects apply to a user, the lowest precedence wins.')}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <SettingsFields control={form.control} />
+
+            {error && <ErrorAlert error={error} title={_('Failed to Save Password Settings Object')} />}
+            <CommandPreview operation={previewSave} />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+                {_('Cancel')}
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {pso ? _('Save') : _('Create')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface AppliesToDialogProps {
+  pso: PasswordSettingsObject;
+  disabled?: boolean;
+  onChanged?: () => void;
+}
+
+/**
+ * The users and groups a PSO applies to directly, with apply and unapply
+ */
+function AppliesToDialog ({ pso, disabled, onChanged }: AppliesToDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [target, setTarget] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<Error | null>(null)
+
+  const previewApply = useCallback(
+    (api: PreviewScope) => api(PasswordPolicyAPI).applyPSO(pso.name, target.trim()),
+    [pso.name, target]
+  )
+
+  const run = async (name: string, action: () => Promise<void>, message: string) => {
+    setBusy(name)
+    setError(null)
+    try {
+      await action()
+      toast.success(message)
+      onChanged?.()
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const apply = async () => {
+    const name = target.trim()
+    if (!name) return
+
+    await run(name, () => PasswordPolicyAPI.applyPSO(pso.name, name), format(_('Applied "$0" to $1'), pso.name, name))
+    setTarget('')
+  }
+
+  const unapply = (name: string) =>
+    run(name, () => PasswordPolicyAPI.unapplyPSO(pso.name, name), format(_('Removed "$0" from $1'), pso.name, name))
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) setError(null) }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={disabled} title={_('Applies to')}>
+          <Users className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{format(_('"$0" Applies To'), pso.name)}</DialogTitle>
+          <DialogDescription>
+            {_('Users get the settings when the object is applied to them or to a group they are a member of.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {pso.appliesTo.length === 0
+            ? (
+            <p className="text-sm text-muted-foreground">{_('Not applied to any user or group yet.')}</p>
+              )
+            : (
+            <ul className="divide-y rounded-md border">
+              {pso.appliesTo.map(entry => (
+                <li key={entry.distinguishedName} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 font-medium">
+                      {entry.name}
+                      <Badge variant="outline">{entry.kind === 'group' ? _('Group') : _('User')}</Badge>
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground">{entry.distinguishedName}</div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => unapply(entry.name)}
+                    disabled={busy !== null}
+                    title={_('Unapply')}
+                  >
+                    {busy === entry.name ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+              )}
+
+          <div className="flex gap-2">
+            <Input
+              placeholder={_('User or group name')}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') apply() }}
+            />
+            <Button onClick={apply} disabled={!target.trim() || busy !== null}>
+              {busy === target.trim() && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {_('Apply')}
+            </Button>
+          </div>
+
+          {error && <ErrorAlert error={error} title={_('Failed to Change Where the Object Applies')} />}
+          <CommandPreview operation={previewApply} disabled={!target.trim()} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface PSOCardProps {
+  psos: PasswordSettingsObject[];
+  defaults: PasswordSettings | null;
+  loading: boolean;
+  error: string | null;
+  onChanged: () => void;
+}
+
+export default function PSOCard ({ psos, defaults, loading, error, onChanged }: PSOCardProps) {
+  const support = useCapability(PasswordPolicyAPI.requirements.pso)
+  const unsupported = support?.supported === false
+  const [deleting, setDeleting] = useState<PasswordSettingsObject | null>(null)
+  const [deleteBusy, setDeleteBusy] = useState(false)
+
+  const previewDelete = useCallback(
+    (api: PreviewScope) => api(PasswordPolicyAPI).deletePSO(deleting?.name || ''),
+    [deleting]
+  )
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+
+    setDeleteBusy(true)
+    try {
+      await PasswordPolicyAPI.deletePSO(deleting.name)
+      toast.success(format(_('Password settings object "$0" deleted'), deleting.name))
+      setDeleting(null)
+      onChanged()
+    } catch (err) {
+      toast.error((err as Error).message)
+    } finally {
+      setDeleteBusy(false)
+    }
+  }
+
+  const describe = (pso: PasswordSettingsObject, key: 'minLength' | 'maxAge' | 'lockoutThreshold') =>
+    NUMERIC_FIELDS.find(field => field.key === key)?.describe(pso[key])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4" />
+            {_('Fine-Grained Password Policies')}
+          </CardTitle>
+          <CardDescription>
+            {_('Password settings objects (PSOs) give selected users and groups their own rules')}
+          </CardDescription>
+        </div>
+        <PSODialog defaults={defaults} disabled={unsupported} onSaved={onChanged} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <CapabilityNotice status={support} />
+        {error && !unsupported && <ErrorAlert error={error} title={_('Failed to Load Password Settings Objects')} />}
+
+        {loading && !psos.length
+          ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_item, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+            )
+          : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{_('Name')}</TableHead>
+                <TableHead>{_('Precedence')}</TableHead>
+                <TableHead>{_('Minimum length')}</TableHead>
+                <TableHead>{_('Maximum age')}</TableHead>
+                <TableHead>{_('Lockout')}</TableHead>
+                <TableHead>{_('Applies to')}</TableHead>
+                <TableHead className="text-right">{_('Actions')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {psos.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {_('No password settings objects. Every account uses the domain defaults.')}
+                  </TableCell>
+                </TableRow>
+              )}
+              {psos.map(pso => (
+                <TableRow key={pso.name}>
+                  <TableCell className="font-medium">{pso.name}</TableCell>
+                  <TableCell>{pso.precedence}</TableCell>
+                  <TableCell>{describe(pso, 'minLength')}</TableCell>
+                  <TableCell>{describe(pso, 'maxAge')}</TableCell>
+                  <TableCell>{describe(pso, 'lockoutThreshold')}</TableCell>
+                  <TableCell>
+                    {pso.appliesTo.length
+                      ? pso.appliesTo.map(entry => entry.name).join(', ')
+                      : <span className="text-muted-foreground">{_('Nobody')}</span>}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <AppliesToDialog pso={pso} disabled={unsupported} onChanged={onChanged} />
+                    <PSODialog pso={pso} defaults={defaults} disabled={unsupported} onSaved={onChanged} />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={unsupported}
+                      onClick={() => setDeleting(pso)}
+                      title={_('Delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+            )}
+        {psos.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {format(ngettext('$0 password settings object', '$0 password settings objects', psos.length), psos.length)}
+          </p>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        title={_('Delete Password Settings Object')}
+        message={format(_('Delete "$0"? The users and groups it applies to fall back to the next object or the domain defaults.'), deleting?.name || '')}
+        confirmLabel={_('Delete')}
+        variant="destructive"
+        loading={deleteBusy}
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleting(null)}
+        preview={previewDelete}
+      />
+    </Card>
+  )
+}
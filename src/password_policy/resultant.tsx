@@ -0,0 +1,93 @@
+import React, { useState } from 'react'
+import { Loader2, Search, UserCheck } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { ErrorAlert } from '@/components/ui/error-alert'
+import { CapabilityNotice } from '@/components/layout/capability-notice'
+import { useCapability } from '@/components/layout/use-capabilities'
+
+import { SettingsSummary } from './settings'
+import { PasswordPolicyAPI } from '@/services/password-policy-api'
+import type { ResultantPasswordPolicy } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
+
+/**
+ * Looks up which settings are in force for one user
+ */
+export default function ResultantPolicyCard () {
+  const support = useCapability(PasswordPolicyAPI.requirements.pso)
+  const [username, setUsername] = useState('')
+  const [result, setResult] = useState<ResultantPasswordPolicy | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const lookup = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const name = username.trim()
+    if (!name) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      setResult(await PasswordPolicyAPI.getResultantPolicy(name))
+    } catch (err) {
+      setResult(null)
+      setError(err as Error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-4 w-4" />
+          {_('Effective Policy')}
+        </CardTitle>
+        <CardDescription>
+          {_('Find out which rules apply to a user, directly or through group membership')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <CapabilityNotice status={support} />
+        <form onSubmit={lookup} className="flex gap-2">
+          <Input
+            placeholder={_('Username')}
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            disabled={support?.supported === false}
+          />
+          <Button type="submit" disabled={!username.trim() || loading || support?.supported === false}>
+            {loading
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <Search className="mr-2 h-4 w-4" />}
+            {_('Look Up')}
+          </Button>
+        </form>
+
+        {error && <ErrorAlert error={error} title={_('Failed to Find the Effective Policy')} />}
+        {result && (
+          <div className="space-y-3 rounded-md border p-4">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{result.username}</span>
+              {result.pso
+                ? <Badge>{format(_('PSO: $0'), result.pso)}</Badge>
+                : <Badge variant="secondary">{_('Domain defaults')}</Badge>}
+            </div>
+            <SettingsSummary settings={result.settings} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
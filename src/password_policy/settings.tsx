@@ -0,0 +1,177 @@
+import React from 'react'
+import type { Control, Path } from 'react-hook-form'
+
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form'
+
+import type { PasswordSettingsInput } from '@/lib/validation'
+import type { PasswordSettings } from '@/types/samba'
+import { _, N_, format, ngettext } from '@/lib/i18n'
+
+type NumericSetting = Exclude<keyof PasswordSettings, 'complexity' | 'storePlaintext'>
+
+interface NumericField {
+  key: NumericSetting;
+  label: string;
+  description: string;
+  /**
+   * How a value is shown; 0 often means "never" or "off"
+   */
+  describe: (value: number) => string;
+}
+
+const days = (value: number) => format(ngettext('$0 day', '$0 days', value), value)
+const minutes = (value: number) => format(ngettext('$0 minute', '$0 minutes', value), value)
+
+export const NUMERIC_FIELDS: NumericField[] = [
+  {
+    key: 'minLength',
+    label: N_('Minimum password length'),
+    description: N_('Characters a password needs at least.'),
+    describe: value => value ? format(ngettext('$0 character', '$0 characters', value), value) : _('No minimum')
+  },
+  {
+    key: 'historyLength',
+    label: N_('Password history length'),
+    description: N_('Earlier passwords that cannot be reused.'),
+    describe: value => value ? format(ngettext('$0 password remembered', '$0 passwords remembered', value), value) : _('Not kept')
+  },
+  {
+    key: 'minAge',
+    label: N_('Minimum password age (days)'),
+    description: N_('How long a new password must be kept before it can be changed again.'),
+    describe: value => value ? days(value) : _('None')
+  },
+  {
+    key: 'maxAge',
+    label: N_('Maximum password age (days)'),
+    description: N_('After this many days the password expires. 0 means passwords never expire.'),
+    describe: value => value ? days(value) : _('Never expires')
+  },
+  {
+    key: 'lockoutThreshold',
+    label: N_('Account lockout threshold'),
+    description: N_('Bad passwords before the account is locked out. 0 turns lockout off.'),
+    describe: value => value ? format(ngettext('$0 bad password', '$0 bad passwords', value), value) : _('Never locks out')
+  },
+  {
+    key: 'lockoutDuration',
+    label: N_('Account lockout duration (minutes)'),
+    description: N_('How long a locked out account stays locked. 0 keeps it locked until an administrator unlocks it.'),
+    describe: value => value ? minutes(value) : _('Until unlocked')
+  },
+  {
+    key: 'resetLockoutAfter',
+    label: N_('Reset lockout counter after (minutes)'),
+    description: N_('Time after which the bad password count starts over.'),
+    describe: minutes
+  }
+]
+
+/**
+ * The settings in `values` that differ from `current`, so that only those
+ * are passed to samba-tool
+ */
+export function changedSettings (current: PasswordSettings, values: PasswordSettingsInput): Partial<PasswordSettings> {
+  const keys: (keyof PasswordSettings)[] = ['complexity', 'storePlaintext', ...NUMERIC_FIELDS.map(field => field.key)]
+  return keys
+    .filter(key => values[key] !== current[key])
+    .reduce<Partial<PasswordSettings>>((changes, key) => ({ ...changes, [key]: values[key] }), {})
+}
+
+interface SettingsSummaryProps {
+  settings: PasswordSettings;
+}
+
+/**
+ * Read-only list of the settings with their meaning spelled out
+ */
+export const SettingsSummary: React.FC<SettingsSummaryProps> = ({ settings }) => (
+  <dl className="grid gap-x-6 gap-y-2 text-sm sm:grid-cols-2">
+    <div className="flex justify-between gap-2">
+      <dt className="text-muted-foreground">{_('Password complexity')}</dt>
+      <dd className="font-medium">{settings.complexity ? _('Required') : _('Not required')}</dd>
+    </div>
+    <div className="flex justify-between gap-2">
+      <dt className="text-muted-foreground">{_('Store plaintext passwords')}</dt>
+      <dd className="font-medium">{settings.storePlaintext ? _('Yes') : _('No')}</dd>
+    </div>
+    {NUMERIC_FIELDS.map(field => (
+      <div key={field.key} className="flex justify-between gap-2">
+        <dt className="text-muted-foreground">{_(field.label)}</dt>
+        <dd className="font-medium">{field.describe(settings[field.key])}</dd>
+      </div>
+    ))}
+  </dl>
+)
+
+interface SettingsFieldsProps<T extends PasswordSettingsInput> {
+  control: Control<T>;
+}
+
+/**
+ * Form fields for every setting, shared by the domain and PSO dialogs
+ */
+export const SettingsFields = <T extends PasswordSettingsInput>({ control }: SettingsFieldsProps<T>) => (
+  <div className="space-y-4">
+    <div className="flex flex-wrap gap-6">
+      <FormField
+        control={control}
+        name={'complexity' as Path<T>}
+        render={({ field }) => (
+          <FormItem className="flex items-center space-x-2 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value as boolean} onCheckedChange={(checked) => field.onChange(checked === true)} />
+            </FormControl>
+            <FormLabel className="font-normal">{_('Require complex passwords')}</FormLabel>
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={'storePlaintext' as Path<T>}
+        render={({ field }) => (
+          <FormItem className="flex items-center space-x-2 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value as boolean} onCheckedChange={(checked) => field.onChange(checked === true)} />
+            </FormControl>
+            <FormLabel className="font-normal">{_('Store passwords with reversible encryption')}</FormLabel>
+          </FormItem>
+        )}
+      />
+    </div>
+
+    <div className="grid gap-4 sm:grid-cols-2">
+      {NUMERIC_FIELDS.map(setting => (
+        <FormField
+          key={setting.key}
+          control={control}
+          name={setting.key as Path<T>}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{_(setting.label)}</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(field.value) ? '' : field.value as number}
+                  onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                />
+              </FormControl>
+              <FormDescription>{_(setting.description)}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </div>
+  </div>
+)
@@ -0,0 +1,119 @@
+// Account Control API Service
+
+import { BaseAPI, APIUtils } from './base-api'
+import { ACCOUNT_CONTROL_FLAGS, applyAccountControl, changedAccountControlFlags, decodeAccountControl } from './account-control'
+import type { AccountControlChanges, AccountControlState } from '../types/samba'
+import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
+
+type AccountKind = AccountControlState['kind']
+
+export class AccountControlAPI extends BaseAPI {
+  /**
+   * Read the userAccountControl of a user or computer; computers are named
+   * without the trailing $
+   */
+  static async get (kind: AccountKind, name: string): Promise<AccountControlState> {
+    this.validateRequired({ name }, ['name'])
+
+    try {
+      return await this.read(kind, name)
+    } catch (error) {
+      if (error instanceof APIError && error.code === 'ACCOUNT_NOT_FOUND') {
+        throw error
+      }
+      throw new APIError(
+        format(_('Failed to read the account flags of $0: $1'), name, (error as Error).message),
+        'ACCOUNT_CONTROL_READ_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * Set or clear flags. The value is read again and only the changed bits
+   * are applied to it, so flags set elsewhere are kept. When `expected` is
+   * given, the write is refused if the value no longer matches it, e.g.
+   * because someone else changed the account since it was shown. The value
+   * is read back afterwards, as the directory may refuse a flag silently.
+   */
+  static async update (
+    kind: AccountKind,
+    name: string,
+    changes: AccountControlChanges,
+    expected?: number
+  ): Promise<AccountControlState> {
+    const current = await this.get(kind, name)
+    this.checkUnchanged(current, expected)
+
+    if (!changedAccountControlFlags(current.userAccountControl, changes).length) {
+      return current
+    }
+
+    const value = applyAccountControl(current.userAccountControl, changes)
+    try {
+      await this.swapValue(current.distinguishedName, 'userAccountControl', String(current.userAccountControl), String(value))
+    } catch (error) {
+      // A failed swap usually means the value changed after it was read
+      const latest = await this.get(kind, name)
+      this.checkUnchanged(latest, current.userAccountControl)
+      throw new APIError(
+        format(_('Failed to change the account flags of $0: $1'), name, (error as Error).message),
+        'ACCOUNT_CONTROL_UPDATE_FAILED',
+        error
+      )
+    }
+
+    const updated = await this.get(kind, name)
+    const ignored = changedAccountControlFlags(updated.userAccountControl, changes)
+    if (ignored.length) {
+      throw new APIError(
+        format(_('The domain controller did not apply $0 to $1'), ignored.join(', '), name),
+        'ACCOUNT_CONTROL_NOT_APPLIED'
+      )
+    }
+
+    return updated
+  }
+
+  private static async read (kind: AccountKind, name: string): Promise<AccountControlState> {
+    const accountName = kind === 'computer' ? `${name.replace(/\$$/, '')}$` : name
+    const objectFilter = kind === 'computer'
+      ? '(objectClass=computer)'
+      : '(&(objectCategory=person)(objectClass=user)(!(objectClass=computer)))'
+    const [entry] = await this.search({
+      filter: `(&${objectFilter}(sAMAccountName=${APIUtils.escapeLDAP(accountName)}))`,
+      attributes: ['userAccountControl']
+    })
+
+    if (!entry) {
+      throw new APIError(
+        kind === 'computer'
+          ? format(_('Computer $0 does not exist'), name)
+          : format(_('User $0 does not exist'), name),
+        'ACCOUNT_NOT_FOUND'
+      )
+    }
+
+    const userAccountControl = parseInt(this.ldifValue(entry, 'userAccountControl') || '0', 10)
+    return {
+      kind,
+      name: accountName.replace(/\$$/, ''),
+      distinguishedName: entry.dn,
+      userAccountControl,
+      flags: decodeAccountControl(userAccountControl)
+    }
+  }
+
+  private static checkUnchanged (state: AccountControlState, expected?: number): void {
+    if (expected === undefined || state.userAccountControl === expected) return
+
+    const changed = ACCOUNT_CONTROL_FLAGS.filter(({ bit }) => (state.userAccountControl & bit) !== (expected & bit))
+    throw new APIError(
+      changed.length
+        ? format(_('The account flags of $0 were changed by someone else ($1); reload them and try again'), state.name, changed.map(({ flag }) => flag).join(', '))
+        : format(_('The account flags of $0 were changed by someone else; reload them and try again'), state.name),
+      'ACCOUNT_CONTROL_CONFLICT'
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { AccountControlAPI } from './account-control-api'
+import { applyAccountControl, changedAccountControlFlags, decodeAccountControl, formatAccountControl } from './account-control'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+const NORMAL_ACCOUNT = 0x200
+const WORKSTATION_TRUST_ACCOUNT = 0x1000
+
+describe('Account control flags', () => {
+  it('decodes and changes only the editable bits', () => {
+    const value = NORMAL_ACCOUNT | 0x2 | 0x10000 | 0x400000
+
+    expect(decodeAccountControl(value)).toMatchObject({
+      DONT_EXPIRE_PASSWORD: true,
+      DONT_REQUIRE_PREAUTH: true,
+      NOT_DELEGATED: false,
+      PASSWD_NOTREQD: false
+    })
+    expect(applyAccountControl(value, { DONT_REQUIRE_PREAUTH: false, NOT_DELEGATED: true }))
+      .toBe(NORMAL_ACCOUNT | 0x2 | 0x10000 | 0x100000)
+    expect(changedAccountControlFlags(value, { DONT_EXPIRE_PASSWORD: true, SMARTCARD_REQUIRED: true }))
+      .toEqual(['SMARTCARD_REQUIRED'])
+    expect(formatAccountControl(0x10200)).toBe('0x00010200 (66048)')
+  })
+})
+
+describe('AccountControlAPI', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+  })
+
+  it('sets and clears flags on a user and keeps the other bits', async () => {
+    const before = await AccountControlAPI.get('user', 'alice')
+    expect(before.userAccountControl).toBe(NORMAL_ACCOUNT)
+
+    const after = await AccountControlAPI.update('user', 'alice', {
+      NOT_DELEGATED: true,
+      SMARTCARD_REQUIRED: true
+    }, before.userAccountControl)
+    expect(after.userAccountControl).toBe(NORMAL_ACCOUNT | 0x100000 | 0x40000)
+
+    const cleared = await AccountControlAPI.update('user', 'alice', { SMARTCARD_REQUIRED: false })
+    expect(cleared.flags).toMatchObject({ NOT_DELEGATED: true, SMARTCARD_REQUIRED: false })
+    expect((await UserAPI.show('alice')).enabled).toBe(true)
+  })
+
+  it('edits computers by name without the trailing $', async () => {
+    const state = await AccountControlAPI.update('computer', 'WS01', { TRUSTED_FOR_DELEGATION: true })
+
+    expect(state).toMatchObject({ name: 'WS01', flags: { TRUSTED_FOR_DELEGATION: true } })
+    expect(state.userAccountControl).toBe(WORKSTATION_TRUST_ACCOUNT | 0x80000)
+    await expect(AccountControlAPI.get('user', 'WS01')).rejects.toMatchObject({ code: 'ACCOUNT_NOT_FOUND' })
+  })
+
+  it('refuses to write over a change made since the value was read', async () => {
+    const shown = await AccountControlAPI.get('user', 'bob')
+    await AccountControlAPI.update('user', 'bob', { DONT_EXPIRE_PASSWORD: true })
+
+    await expect(AccountControlAPI.update('user', 'bob', { DONT_REQUIRE_PREAUTH: true }, shown.userAccountControl))
+      .rejects.toMatchObject({ code: 'ACCOUNT_CONTROL_CONFLICT' })
+    expect((await AccountControlAPI.get('user', 'bob')).flags).toMatchObject({
+      DONT_EXPIRE_PASSWORD: true,
+      DONT_REQUIRE_PREAUTH: false
+    })
+  })
+})
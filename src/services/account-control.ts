@@ -0,0 +1,112 @@
+// Account Control (userAccountControl flags)
+
+import type { AccountControlChanges, AccountControlFlag } from '@/types/samba'
+import { N_ } from '@/lib/i18n'
+
+/**
+ * The security-relevant userAccountControl flags that can be edited, in
+ * the order they are shown. `weakens` marks the flags that lower the
+ * account's security when set.
+ */
+export const ACCOUNT_CONTROL_FLAGS: Array<{
+  flag: AccountControlFlag;
+  bit: number;
+  label: string;
+  description: string;
+  weakens: boolean;
+}> = [
+  {
+    flag: 'PASSWD_NOTREQD',
+    bit: 0x0020,
+    label: N_('Password not required'),
+    description: N_('The account may have an empty password, whatever the password policy says'),
+    weakens: true
+  },
+  {
+    flag: 'ENCRYPTED_TEXT_PWD_ALLOWED',
+    bit: 0x0080,
+    label: N_('Store password using reversible encryption'),
+    description: N_('The next password set is kept in a form the domain controller can decrypt, for protocols such as CHAP and HTTP digest'),
+    weakens: true
+  },
+  {
+    flag: 'DONT_EXPIRE_PASSWORD',
+    bit: 0x10000,
+    label: N_('Password never expires'),
+    description: N_('The maximum password age of the domain or the password settings object does not apply'),
+    weakens: true
+  },
+  {
+    flag: 'SMARTCARD_REQUIRED',
+    bit: 0x40000,
+    label: N_('Smart card required for interactive logon'),
+    description: N_('Interactive logons must use a smart card; the password no longer works for them'),
+    weakens: false
+  },
+  {
+    flag: 'TRUSTED_FOR_DELEGATION',
+    bit: 0x80000,
+    label: N_('Trusted for unconstrained delegation'),
+    description: N_('Services running as this account receive the tickets of the users who connect and can act as them towards any service. Domain controllers need it; other accounts rarely do.'),
+    weakens: true
+  },
+  {
+    flag: 'NOT_DELEGATED',
+    bit: 0x100000,
+    label: N_('Account is sensitive and cannot be delegated'),
+    description: N_('No service can act as this account through delegation; recommended for administrators'),
+    weakens: false
+  },
+  {
+    flag: 'USE_DES_KEY_ONLY',
+    bit: 0x200000,
+    label: N_('Use only DES encryption types'),
+    description: N_('Restricts Kerberos to DES, which is broken and disabled by default in current Samba and Windows; the account may no longer be able to log on'),
+    weakens: true
+  },
+  {
+    flag: 'DONT_REQUIRE_PREAUTH',
+    bit: 0x400000,
+    label: N_('Do not require Kerberos pre-authentication'),
+    description: N_('Anyone can request a ticket for the account and attack its password offline (AS-REP roasting)'),
+    weakens: true
+  }
+]
+
+/**
+ * The editable flags set in a userAccountControl value
+ */
+export function decodeAccountControl (value: number): Record<AccountControlFlag, boolean> {
+  return Object.fromEntries(
+    ACCOUNT_CONTROL_FLAGS.map(({ flag, bit }) => [flag, (value & bit) !== 0])
+  ) as Record<AccountControlFlag, boolean>
+}
+
+/**
+ * The value with the changed flags set or cleared; every other bit is kept
+ */
+export function applyAccountControl (value: number, changes: AccountControlChanges): number {
+  // Bitwise operators work on signed 32-bit integers; >>> 0 keeps the result unsigned
+  return ACCOUNT_CONTROL_FLAGS.reduce((result, { flag, bit }) => {
+    const set = changes[flag]
+    if (set === undefined) return result
+    return (set ? result | bit : result & ~bit) >>> 0
+  }, value >>> 0)
+}
+
+/**
+ * The flags whose value the changes would alter
+ */
+export function changedAccountControlFlags (value: number, changes: AccountControlChanges): AccountControlFlag[] {
+  const flags = decodeAccountControl(value)
+  return ACCOUNT_CONTROL_FLAGS
+    .map(({ flag }) => flag)
+    .filter(flag => changes[flag] !== undefined && changes[flag] !== flags[flag])
+}
+
+/**
+ * The value as shown in Active Directory tools, e.g. "0x00010200 (66048)"
+ */
+export function formatAccountControl (value: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(8, '0')} (${value})`
+}
@@ -0,0 +1,22 @@
+import { BaseAPI } from './base-api'
+import { filterAuditEntries, type AuditEntry, type AuditFilter } from './audit'
+import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
+
+export class AuditAPI extends BaseAPI {
+  /**
+   * List recorded changes, newest first
+   */
+  static async list (filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    try {
+      const entries = await this.getAuditStore().read()
+      return filterAuditEntries(entries, filter).reverse()
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to read audit log: $0'), (error as Error).message),
+        'AUDIT_READ_FAILED',
+        error
+      )
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { BaseAPI, APIUtils } from './base-api'
+import { UserAPI } from './user-api'
+import { AuditAPI } from './audit-api'
+import { describeCommand, MemoryAuditStore } from './audit'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+import { DNSAPI } from './dns-api'
+import { InactiveAccountAPI } from './inactive-api'
+import { APIError } from '@/lib/errors'
+import { redactCommand, redactLDIF, REDACTED } from '@/lib/redact'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+describe('describeCommand', () => {
+  it('classifies reads and writes', () => {
+    expect(describeCommand(['samba-tool', 'user', 'show', 'alice'])).toEqual({ kind: 'read', operation: 'user show', object: 'alice' })
+    expect(describeCommand(['samba-tool', 'user', 'create', 'list', 'secret'])).toEqual({ kind: 'write', operation: 'user create', object: 'list' })
+    expect(describeCommand(['samba-tool', 'domain', 'trust', 'list']).kind).toBe('read')
+    expect(describeCommand(['samba-tool', 'domain', 'backup', 'offline', '--targetdir=/tmp']).operation).toBe('domain backup offline')
+    expect(describeCommand(['samba-tool', 'dbcheck', '--fix']).kind).toBe('write')
+    expect(describeCommand(['ldbsearch', '-H', 'sam.ldb', '(objectClass=user)']).kind).toBe('read')
+    expect(describeCommand(['ldbmodify', '-H', 'sam.ldb']).kind).toBe('write')
+  })
+})
+
+describe('redactCommand', () => {
+  it('hides passwords in every supported form', () => {
+    expect(redactCommand(['samba-tool', 'user', 'create', 'dave', 'Passw0rd!', '--given-name', 'Dave']))
+      .toEqual(['samba-tool', 'user', 'create', 'dave', REDACTED, '--given-name', 'Dave'])
+    expect(redactCommand(['samba-tool', 'dns', 'add', 'dc1', '--password=secret', '-U', 'admin%secret']))
+      .toEqual(['samba-tool', 'dns', 'add', 'dc1', `--password=${REDACTED}`, '-U', `admin%${REDACTED}`])
+    expect(redactCommand(['samba-tool', 'user', 'setpassword', 'bob', '--newpassword', 'secret']))
+      .toEqual(['samba-tool', 'user', 'setpassword', 'bob', '--newpassword', REDACTED])
+  })
+
+  it('keeps secrets out of error messages and details', () => {
+    const error = new APIError('Failed: samba-tool dns add --password=secret -U admin%secret', 'FAILED', {
+      command: 'samba-tool domain join --adminpass secret',
+      adminPassword: 'secret',
+      cause: new Error('PASSWD=secret rejected')
+    })
+
+    expect(JSON.stringify(error.toJSON())).not.toContain('secret')
+    expect(error.message).toBe(`Failed: samba-tool dns add --password=${REDACTED} -U admin%${REDACTED}`)
+  })
+
+  it('hands credentials to samba-tool through the environment', async () => {
+    const transport = new FakeSambaTransport({ directory: FakeDirectory.createSample() })
+    const spawn = jest.spyOn(transport, 'spawn').mockResolvedValue('')
+    BaseAPI.setTransport(transport)
+
+    await DNSAPI.listZones('dc1', 'secret')
+    expect(spawn.mock.calls[0][0]).toEqual(['samba-tool', 'dns', 'zonelist', 'dc1'])
+    expect(spawn.mock.calls[0][1]?.env).toEqual({ PASSWD: 'secret' })
+  })
+})
+
+describe('audit trail', () => {
+  let store: MemoryAuditStore
+
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+    store = new MemoryAuditStore('admin')
+    BaseAPI.setAuditStore(store)
+  })
+
+  it('records writes with redacted arguments and skips reads', async () => {
+    await UserAPI.list()
+    await UserAPI.create({ username: 'dave', password: 'Passw0rd!' })
+    await expect(UserAPI.create({ username: 'alice', password: 'Passw0rd!' })).rejects.toThrow()
+
+    const entries = await store.read()
+    expect(entries).toHaveLength(2)
+    expect(entries[0]).toMatchObject({ user: 'admin', operation: 'user create', object: 'dave', outcome: 'success' })
+    expect(entries[0].command).not.toContain('Passw0rd!')
+    expect(entries[1]).toMatchObject({ object: 'alice', outcome: 'failure' })
+    expect(entries[1].errorCode).toBeTruthy()
+  })
+
+  it('filters entries by object and date, newest first', async () => {
+    await UserAPI.disable('alice')
+    await UserAPI.disable('bob')
+
+    expect((await AuditAPI.list()).map(entry => entry.object)).toEqual(['bob', 'alice'])
+    expect((await AuditAPI.list({ object: 'ali' })).map(entry => entry.object)).toEqual(['alice'])
+    expect(await AuditAPI.list({ from: new Date(Date.now() + 60000) })).toEqual([])
+  })
+})
+
+describe('command preview', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+  })
+
+  it('collects writes without running or recording them', async () => {
+    const commands = await BaseAPI.preview(api => api(UserAPI).delete('alice'))
+
+    expect(commands).toEqual([{ command: ['samba-tool', 'user', 'delete', 'alice'] }])
+    expect((await UserAPI.list()).map(user => user.username)).toContain('alice')
+    expect(await AuditAPI.list()).toEqual([])
+  })
+
+  it('runs writes started outside the preview while it waits for a read', async () => {
+    const preview = BaseAPI.preview(async api => {
+      await api(UserAPI).show('alice')
+      await api(UserAPI).delete('alice')
+    })
+    await UserAPI.disable('bob')
+
+    expect(await preview).toEqual([{ command: ['samba-tool', 'user', 'delete', 'alice'] }])
+    expect((await UserAPI.show('bob')).enabled).toBe(false)
+    expect((await AuditAPI.list()).map(entry => entry.object)).toEqual(['bob'])
+  })
+
+  it('collects the writes of services called by the previewed one', async () => {
+    const alice = await UserAPI.show('alice')
+    const commands = await BaseAPI.preview(api => api(InactiveAccountAPI).remediate([{
+      kind: 'user',
+      name: 'alice',
+      distinguishedName: alice.distinguishedName || '',
+      enabled: true,
+      userAccountControl: 0x200,
+      createdAt: new Date(),
+      inactiveDays: 400
+    }], { disable: true }))
+
+    expect(commands).toEqual([{ command: ['samba-tool', 'user', 'disable', 'alice'] }])
+    expect((await UserAPI.show('alice')).enabled).toBe(true)
+  })
+
+  it('redacts secrets and quotes arguments for the shell', async () => {
+    const [{ command }] = await BaseAPI.preview(api => api(UserAPI).create({ username: 'dave', password: 'Passw0rd!', firstName: "D'Arcy Smith" }))
+
+    expect(command).not.toContain('Passw0rd!')
+    expect(APIUtils.toShellCommand(command)).toContain("'D'\\''Arcy Smith'")
+    expect(APIUtils.toShellCommand(['samba-tool', 'user', 'show', 'alice'])).toBe('samba-tool user show alice')
+  })
+
+  it('records and previews the entry and attributes of an ldbmodify', async () => {
+    const { distinguishedName } = await UserAPI.show('alice')
+
+    const [preview] = await BaseAPI.preview(api => api(UserAPI).update({ username: 'alice', description: 'On leave' }))
+    expect(preview.command[0]).toBe('ldbmodify')
+    expect(preview.input).toContain(`dn: ${distinguishedName}`)
+    expect(preview.input).toContain('description: On leave')
+    expect(redactLDIF('dn: CN=x\nreplace: unicodePwd\nunicodePwd:: IgBQAGEAcwBzACIA\n-\n')).toBe(`dn: CN=x\nreplace: unicodePwd\nunicodePwd: ${REDACTED}\n-\n`)
+
+    await UserAPI.update({ username: 'alice', description: 'On leave' })
+    expect(await AuditAPI.list()).toMatchObject([{
+      operation: 'ldbmodify replace',
+      object: distinguishedName,
+      attributes: ['description'],
+      outcome: 'success'
+    }])
+  })
+})
@@ -0,0 +1,252 @@
+// Audit Trail
+
+import cockpit from 'cockpit'
+
+export type CommandKind = 'read' | 'write'
+export type AuditOutcome = 'success' | 'failure'
+
+export interface CommandDescription {
+  kind: CommandKind;
+  operation: string;
+  object?: string;
+  /**
+   * Attributes a command changes, for those that read what they change
+   * from stdin (ldbmodify)
+   */
+  attributes?: string[];
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  user: string;
+  operation: string;
+  object?: string;
+  attributes?: string[];
+  command: string[];
+  outcome: AuditOutcome;
+  errorCode?: string;
+  duration: number;
+}
+
+export interface AuditFilter {
+  object?: string;
+  user?: string;
+  from?: Date;
+  to?: Date;
+  outcome?: AuditOutcome;
+}
+
+/**
+ * Where audit entries are kept. The Cockpit store appends JSON lines to a
+ * file on the domain controller; the memory store backs the sandbox.
+ */
+export interface AuditStore {
+  currentUser (): Promise<string>;
+  append (entry: AuditEntry): Promise<void>;
+  read (): Promise<AuditEntry[]>;
+}
+
+// samba-tool actions that never modify the directory or the host
+const READ_ACTIONS = new Set([
+  'list',
+  'listall',
+  'listobjects',
+  'listmembers',
+  'listcontainers',
+  'show',
+  'showrepl',
+  'info',
+  'get',
+  'getdosinfo',
+  'getgroups',
+  'getlink',
+  'getinheritance',
+  'fetch',
+  'query',
+  'serverinfo',
+  'zonelist',
+  'zoneinfo',
+  'sysvolcheck',
+  'validate'
+])
+
+// Command groups that nest another level of actions (e.g. domain trust list)
+const SUBCOMMAND_GROUPS = new Set([
+  'trust',
+  'backup',
+  'passwordsettings',
+  'pso',
+  'directory_service',
+  'level',
+  'subnet'
+])
+
+// samba-tool commands without an action word
+const STANDALONE_COMMANDS = new Set(['time', 'dbcheck', 'testparm', 'processes'])
+
+const READ_PROGRAMS = new Set(['ldbsearch', 'which', 'klist', 'testparm'])
+
+/**
+ * Classify an argv array as a read or a write and name its operation
+ * (e.g. "user create") and target object
+ */
+export function describeCommand (command: string[]): CommandDescription {
+  const [program, ...args] = command
+  const name = program.split('/').pop() || program
+
+  if (name !== 'samba-tool') {
+    return { kind: READ_PROGRAMS.has(name) ? 'read' : 'write', operation: name }
+  }
+
+  if (!args.length || args[0].startsWith('-')) {
+    return { kind: 'read', operation: name }
+  }
+  if (args.includes('--help')) {
+    return { kind: 'read', operation: args.slice(0, args.indexOf('--help')).join(' ') }
+  }
+
+  const path = [args[0]]
+  let index = 1
+
+  if (!STANDALONE_COMMANDS.has(args[0])) {
+    while (SUBCOMMAND_GROUPS.has(args[index])) {
+      path.push(args[index++])
+    }
+    if (args[index] && !args[index].startsWith('-')) {
+      path.push(args[index++])
+    }
+  }
+
+  const object = args[index] && !args[index].startsWith('-') ? args[index] : undefined
+  const action = path[path.length - 1]
+
+  let kind: CommandKind = READ_ACTIONS.has(action) ? 'read' : 'write'
+  if (STANDALONE_COMMANDS.has(action)) {
+    kind = args.includes('--fix') ? 'write' : 'read'
+  }
+
+  return { kind, operation: path.join(' '), object }
+}
+
+export function filterAuditEntries (entries: AuditEntry[], filter: AuditFilter = {}): AuditEntry[] {
+  const object = filter.object?.trim().toLowerCase()
+  const user = filter.user?.trim().toLowerCase()
+
+  return entries.filter(entry => {
+    const timestamp = new Date(entry.timestamp)
+
+    if (object && !(entry.object || '').toLowerCase().includes(object) &&
+      !entry.command.join(' ').toLowerCase().includes(object)) {
+      return false
+    }
+    if (user && !entry.user.toLowerCase().includes(user)) {
+      return false
+    }
+    if (filter.from && timestamp < filter.from) {
+      return false
+    }
+    if (filter.to && timestamp > filter.to) {
+      return false
+    }
+    if (filter.outcome && entry.outcome !== filter.outcome) {
+      return false
+    }
+    return true
+  })
+}
+
+/**
+ * Parse a JSON lines audit log, skipping lines that are truncated or corrupt
+ */
+export function parseAuditLog (content: string | null): AuditEntry[] {
+  return (content || '')
+    .split('\n')
+    .filter(line => line.trim())
+    .reduce<AuditEntry[]>((entries, line) => {
+      try {
+        entries.push(JSON.parse(line) as AuditEntry)
+      } catch {
+        // Ignore partial writes
+      }
+      return entries
+    }, [])
+}
+
+export class CockpitAuditStore implements AuditStore {
+  static readonly DEFAULT_PATH = '/var/log/cockpit-samba-ad-dc/audit.log'
+
+  readonly path: string
+  private user?: Promise<string>
+  private directoryReady?: Promise<unknown>
+  private pending: Promise<void> = Promise.resolve()
+
+  constructor (path: string = CockpitAuditStore.DEFAULT_PATH) {
+    this.path = path
+  }
+
+  currentUser (): Promise<string> {
+    if (!this.user) {
+      const user: Promise<string> = cockpit.user()
+        .then((info: { name?: string }) => info.name || 'unknown')
+        .catch(() => 'unknown')
+      this.user = user
+    }
+    return this.user
+  }
+
+  append (entry: AuditEntry): Promise<void> {
+    // Serialise appends from this session so modify() never races itself
+    this.pending = this.pending
+      .catch(() => undefined)
+      .then(async () => {
+        await this.ensureDirectory()
+        await cockpit.file(this.path, { superuser: 'require' })
+          .modify((content: string | null) => `${content || ''}${JSON.stringify(entry)}\n`)
+      })
+
+    return this.pending
+  }
+
+  async read (): Promise<AuditEntry[]> {
+    const content = await cockpit.file(this.path, { superuser: 'try' }).read()
+    return parseAuditLog(content)
+  }
+
+  private ensureDirectory (): Promise<unknown> {
+    if (this.directoryReady) {
+      return this.directoryReady
+    }
+
+    const directory = this.path.slice(0, this.path.lastIndexOf('/'))
+    const ready: Promise<unknown> = cockpit.spawn(['mkdir', '-p', '-m', '0750', directory], {
+      superuser: 'require',
+      err: 'message'
+    })
+
+    // Try again on the next append if the directory could not be created
+    ready.catch(() => { this.directoryReady = undefined })
+    this.directoryReady = ready
+    return ready
+  }
+}
+
+export class MemoryAuditStore implements AuditStore {
+  private readonly entries: AuditEntry[] = []
+  private readonly user: string
+
+  constructor (user: string = 'sandbox') {
+    this.user = user
+  }
+
+  async currentUser (): Promise<string> {
+    return this.user
+  }
+
+  async append (entry: AuditEntry): Promise<void> {
+    this.entries.push(entry)
+  }
+
+  async read (): Promise<AuditEntry[]> {
+    return [...this.entries]
+  }
+}
@@ -1,22 +1,110 @@
 // Base API Service Layer
 
-import cockpit from 'cockpit'
-import { APIError, SambaErrorParser, RetryHandler, type RetryOptions } from '@/lib/errors'
+import { APIError, CancelledError, UnsupportedError, SambaErrorParser, RetryHandler, type RetryOptions } from '@/lib/errors'
+import { CockpitTransport, isSandboxRequested, type CommandTransport } from './transport'
+import { FakeSambaTransport } from './fake'
+import { CockpitAuditStore, MemoryAuditStore, describeCommand, type AuditStore, type CommandDescription } from './audit'
+import { CockpitUserTemplateStore, MemoryUserTemplateStore, type UserTemplateStore } from './user-template'
+import { CockpitOffboardStore, MemoryOffboardStore, type OffboardStore } from './offboard'
+import { CommandScheduler, type CommandPriority, type SchedulerOptions } from './scheduler'
+import { BrowserConnectionStore, ConnectionManager } from './connection'
+import { CapabilityRegistry, type Requirement } from './capabilities'
+import { redactCommand, redactLDIF, redactText } from '@/lib/redact'
+import { firstRDN, splitDN } from '@/lib/dn'
+import { validateArgument, validateCommand, type ArgumentKind } from '@/lib/arguments'
+import type { PaginatedResponse, PaginationOptions } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 export interface CommandOptions {
   superuser?: boolean;
   timeout?: number;
   input?: string;
   env?: Record<string, string>;
+  /**
+   * Stops the command (or drops it from the queue) when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Streaming mode: receives each line of stdout and stderr as it arrives,
+   * with secrets redacted. The command still resolves with its full output.
+   */
+  onOutput?: (line: string) => void;
   retry?: RetryOptions;
+  /**
+   * Kinds of arguments that cannot be inferred from their option or
+   * position, keyed by argv index
+   */
+  argumentKinds?: Record<number, ArgumentKind>;
+  /**
+   * Scheduling priority; defaults to high for commands that modify the
+   * domain and normal for reads
+   */
+  priority?: CommandPriority;
+  /**
+   * What a command changes, for commands whose arguments do not say
+   * (ldbmodify reads the entry and its attributes from stdin). Recorded
+   * in the audit trail; the input of such commands is then shown in
+   * previews, with passwords redacted.
+   */
+  description?: Omit<CommandDescription, 'kind'>;
 }
 
+/**
+ * Options accepted by long-running API calls that can be cancelled
+ */
+export type CancelOptions = Pick<CommandOptions, 'signal'>
+
+/**
+ * Options accepted by long-running API calls that report their output
+ * while they run
+ */
+export type StreamOptions = Pick<CommandOptions, 'signal' | 'onOutput'>
+
 export interface ParseOptions<T> {
   parser: (line: string) => T | null;
   filter?: (item: T) => boolean;
   transform?: (items: T[]) => T[];
 }
 
+export interface LDIFEntry {
+  dn: string;
+  attributes: Record<string, string[]>;
+}
+
+/**
+ * Gives the version of a service class whose commands a preview collects
+ */
+export type PreviewScope = <S extends object>(service: S) => S
+
+/**
+ * An API operation to preview, e.g. `api => api(UserAPI).delete(name)`
+ */
+export type PreviewOperation = (api: PreviewScope) => Promise<unknown>
+
+/**
+ * A command a preview collected, with the LDIF it would read from stdin
+ */
+export interface PreviewCommand {
+  command: string[];
+  input?: string;
+}
+
+interface PreviewContext {
+  commands: PreviewCommand[];
+  /**
+   * The scoped subclass made for each service class
+   */
+  classes: Map<object, object>;
+}
+
+export interface SearchOptions {
+  filter: string;
+  attributes?: string[];
+  base?: string;
+  scope?: 'base' | 'one' | 'sub';
+  pageSize?: number;
+}
+
 export abstract class BaseAPI {
   protected static readonly DEFAULT_TIMEOUT = 30000 // 30 seconds
   protected static readonly DEFAULT_COMMAND_OPTIONS: CommandOptions = {
@@ -24,57 +112,341 @@ export abstract class BaseAPI {
     timeout: BaseAPI.DEFAULT_TIMEOUT
   }
 
+  protected static readonly SAM_LDB_URL = '/var/lib/samba/private/sam.ldb'
+  protected static readonly DEFAULT_PAGE_SIZE = 1000
+
+  private static transport?: CommandTransport
+  private static auditStore?: AuditStore
+  private static userTemplateStore?: UserTemplateStore
+  private static offboardStore?: OffboardStore
+  private static connections?: ConnectionManager
+  private static capabilities?: CapabilityRegistry
+  /**
+   * Only set on the classes a preview creates; see preview()
+   */
+  private static previewContext?: PreviewContext
+  private static readonly scheduler = new CommandScheduler()
+  private static backgroundDepth = 0
+
+  /**
+   * Replace the transport used by every service class (e.g. the sandbox)
+   */
+  static setTransport (transport: CommandTransport): void {
+    BaseAPI.transport = transport
+    BaseAPI.auditStore = undefined
+    BaseAPI.userTemplateStore = undefined
+    BaseAPI.offboardStore = undefined
+    BaseAPI.capabilities = undefined
+  }
+
+  /**
+   * Get the active transport, choosing the sandbox when it was requested
+   */
+  static getTransport (): CommandTransport {
+    if (!BaseAPI.transport) {
+      BaseAPI.transport = isSandboxRequested()
+        ? new FakeSambaTransport({ latency: 150 })
+        : new CockpitTransport()
+    }
+
+    return BaseAPI.transport
+  }
+
+  static isSandbox (): boolean {
+    return this.getTransport().name === 'sandbox'
+  }
+
+  static setAuditStore (store: AuditStore): void {
+    BaseAPI.auditStore = store
+  }
+
+  /**
+   * Get the audit store; sandbox sessions keep their trail in memory
+   */
+  static getAuditStore (): AuditStore {
+    if (!BaseAPI.auditStore) {
+      BaseAPI.auditStore = this.isSandbox() ? new MemoryAuditStore() : new CockpitAuditStore()
+    }
+
+    return BaseAPI.auditStore
+  }
+
+  static setUserTemplateStore (store: UserTemplateStore): void {
+    BaseAPI.userTemplateStore = store
+  }
+
+  /**
+   * Get the user template store; sandbox templates live in memory
+   */
+  static getUserTemplateStore (): UserTemplateStore {
+    if (!BaseAPI.userTemplateStore) {
+      BaseAPI.userTemplateStore = this.isSandbox() ? new MemoryUserTemplateStore() : new CockpitUserTemplateStore()
+    }
+
+    return BaseAPI.userTemplateStore
+  }
+
+  static setOffboardStore (store: OffboardStore): void {
+    BaseAPI.offboardStore = store
+  }
+
+  /**
+   * Get the offboarding record store; sandbox records live in memory
+   */
+  static getOffboardStore (): OffboardStore {
+    if (!BaseAPI.offboardStore) {
+      BaseAPI.offboardStore = this.isSandbox() ? new MemoryOffboardStore() : new CockpitOffboardStore()
+    }
+
+    return BaseAPI.offboardStore
+  }
+
+  static setConnectionManager (manager: ConnectionManager): void {
+    BaseAPI.connections = manager
+  }
+
+  /**
+   * Get the connection profiles; the active one decides which domain
+   * controller every command is sent to
+   */
+  static getConnections (): ConnectionManager {
+    if (!BaseAPI.connections) {
+      BaseAPI.connections = new ConnectionManager(new BrowserConnectionStore())
+    }
+
+    return BaseAPI.connections
+  }
+
+  /**
+   * Get the capability registry of the installed Samba. Probes run as
+   * background reads; outside the sandbox their results are kept for the
+   * browser session.
+   */
+  static getCapabilities (): CapabilityRegistry {
+    if (!BaseAPI.capabilities) {
+      BaseAPI.capabilities = new CapabilityRegistry({
+        version: async () => (await BaseAPI.getVersion()).version,
+        help: command => BaseAPI.inBackground(() => BaseAPI.executeCommand(['samba-tool', ...command, '--help']))
+      }, this.isSandbox() ? undefined : window.sessionStorage)
+    }
+
+    return BaseAPI.capabilities
+  }
+
+  /**
+   * Fail with an UnsupportedError when the installed Samba does not meet a
+   * requirement, before any command is run
+   */
+  protected static async requireCapability (requirement: Requirement): Promise<void> {
+    const status = await this.getCapabilities().check(requirement)
+    if (!status.supported) {
+      throw new UnsupportedError(status.reason || _('Not supported by the installed Samba'), requirement)
+    }
+  }
+
   /**
-   * Execute a samba-tool command with error handling and retry logic
+   * Change how many commands may run at the same time
+   */
+  static configureScheduler (options: SchedulerOptions): void {
+    BaseAPI.scheduler.configure(options)
+  }
+
+  static getScheduler (): CommandScheduler {
+    return BaseAPI.scheduler
+  }
+
+  /**
+   * Run an API operation as a background refresh: the commands it starts
+   * straight away are queued behind everything the user asked for. Commands
+   * issued after the operation first awaits keep their normal priority.
+   */
+  static inBackground<T> (operation: () => Promise<T>): Promise<T> {
+    BaseAPI.backgroundDepth++
+    try {
+      return operation()
+    } finally {
+      BaseAPI.backgroundDepth--
+    }
+  }
+
+  /**
+   * Run an API operation in preview mode and return the commands it would
+   * execute, with secrets redacted. Read-only commands still run so that
+   * multi-step operations see real data; commands that modify the domain
+   * are collected instead of executed.
+   *
+   * The operation must call services through the scope it is given, e.g.
+   * `api => api(UserAPI).delete(name)`: only commands started through the
+   * scoped classes are collected, so writes made elsewhere in the meantime
+   * still run.
+   */
+  static async preview (operation: PreviewOperation): Promise<PreviewCommand[]> {
+    const context: PreviewContext = { commands: [], classes: new Map() }
+
+    try {
+      await operation(service => BaseAPI.previewClass(service, context))
+    } catch (error) {
+      // Later steps may fail because earlier writes never happened
+      if (context.commands.length === 0) {
+        throw error
+      }
+    }
+
+    return context.commands
+  }
+
+  /**
+   * The service class to call from another service. Inside a preview this
+   * is the caller's preview scope, so the commands of the callee are
+   * collected as well; every call to another service must go through here.
+   */
+  protected static scoped<S extends object> (service: S): S {
+    return this.previewContext ? BaseAPI.previewClass(service, this.previewContext) : service
+  }
+
+  /**
+   * A subclass of the service that carries the preview context, so that
+   * `this.executeCommand` in its methods knows it is being previewed
+   */
+  private static previewClass<S extends object> (service: S, context: PreviewContext): S {
+    const existing = context.classes.get(service)
+    if (existing) {
+      return existing as S
+    }
+
+    const scoped = class extends (service as unknown as typeof BaseAPI) {}
+    scoped.previewContext = context
+    context.classes.set(service, scoped)
+    return scoped as unknown as S
+  }
+
+  /**
+   * Execute a samba-tool command with error handling and retry logic.
+   * Commands go through the shared scheduler; identical reads that are
+   * already running are shared rather than spawned again. Commands that
+   * modify the domain are recorded in the audit trail.
+   *
+   * The active connection profile is applied first, so services build
+   * commands for the local DC and never handle -H or -U themselves.
    */
   protected static async executeCommand (
-    command: string[],
+    requested: string[],
     options: CommandOptions = {}
   ): Promise<string> {
-    const finalOptions = { ...this.DEFAULT_COMMAND_OPTIONS, ...options }
-    const { retry, ...cockpitOptions } = finalOptions
-
-    // Sanitize command arguments
-    const sanitizedCommand = this.sanitizeCommand(command)
+    const { command, env } = this.getConnections().connect(requested)
+    const finalOptions = {
+      ...this.DEFAULT_COMMAND_OPTIONS,
+      ...options,
+      env: env || options.env ? { ...env, ...options.env } : undefined
+    }
+    const { retry, argumentKinds, priority, onOutput, description, ...commandOptions } = finalOptions
+    const transportOptions = onOutput
+      ? { ...commandOptions, onOutput: (line: string) => onOutput(redactText(line)) }
+      : commandOptions
+
+    // Arguments are passed as argv, never through a shell; reject malformed
+    // values instead of altering them
+    validateCommand(command, argumentKinds)
+
+    const { kind } = describeCommand(command)
+    const transport = this.getTransport()
+    const readPriority: CommandPriority = BaseAPI.backgroundDepth > 0 ? 'low' : 'normal'
+    const { signal } = transportOptions
+    const schedule = {
+      priority: priority || (kind === 'write' ? 'high' : readPriority),
+      // A cancellable read is not shared: aborting it must not fail the
+      // others. Neither is a streamed one, whose lines go to one listener.
+      key: kind === 'read' && !signal && !onOutput ? JSON.stringify([transport.name, command, transportOptions]) : undefined,
+      signal
+    }
 
     const operation = async (): Promise<string> => {
       try {
-        const result = await cockpit.spawn(sanitizedCommand, {
-          err: 'message',
-          ...cockpitOptions
-        })
-
-        return result || ''
+        return await BaseAPI.scheduler.schedule(() => transport.spawn(command, transportOptions), schedule)
       } catch (error: any) {
+        if (error instanceof CancelledError) {
+          throw error
+        }
         throw SambaErrorParser.parseError(
           error.message || error.toString(),
-          command.join(' ')
+          redactCommand(command).join(' ')
         )
       }
     }
 
-    if (retry) {
-      return await RetryHandler.withRetry(operation, retry)
+    if (kind === 'write' && this.previewContext) {
+      this.previewContext.commands.push({
+        command: redactCommand(command),
+        input: description && commandOptions.input ? redactLDIF(commandOptions.input) : undefined
+      })
+      return ''
+    }
+
+    if (kind === 'read') {
+      return retry ? await RetryHandler.withRetry(operation, retry) : await operation()
     }
 
-    return await operation()
+    const startedAt = Date.now()
+    try {
+      const output = retry ? await RetryHandler.withRetry(operation, retry) : await operation()
+      await this.recordAudit(command, description, startedAt)
+      return output
+    } catch (error) {
+      await this.recordAudit(command, description, startedAt, error as APIError)
+      throw error
+    }
   }
 
   /**
-   * Sanitize command arguments to prevent injection attacks
+   * Append an entry to the audit trail. Failing to write the trail is
+   * logged but never fails the command itself.
    */
-  private static sanitizeCommand (command: string[]): string[] {
-    return command.map(arg => {
-      // Remove potentially dangerous characters
-      const sanitized = arg.replace(/[;&|`$(){}[\]<>]/g, '')
+  private static async recordAudit (
+    command: string[],
+    description: CommandOptions['description'],
+    startedAt: number,
+    error?: APIError
+  ): Promise<void> {
+    const { operation, object, attributes } = { ...describeCommand(command), ...description }
 
-      // Limit argument length
-      if (sanitized.length > 1000) {
-        throw new APIError('Command argument too long', 'INVALID_INPUT')
-      }
+    try {
+      const store = this.getAuditStore()
+      await store.append({
+        timestamp: new Date().toISOString(),
+        user: await store.currentUser(),
+        operation,
+        object,
+        attributes,
+        command: redactCommand(command),
+        outcome: error ? 'failure' : 'success',
+        errorCode: error ? error.code || 'UNKNOWN_ERROR' : undefined,
+        duration: Date.now() - startedAt
+      })
+    } catch (auditError) {
+      console.warn('Failed to write audit log entry:', auditError)
+    }
+  }
 
-      return sanitized
-    })
+  /**
+   * Command options that hand a credentials password to samba-tool in the
+   * PASSWD environment variable, which Samba reads in place of --password,
+   * so it never shows up in the process list
+   */
+  protected static withPassword (password?: string, options: CommandOptions = {}): CommandOptions {
+    if (!password) {
+      return options
+    }
+
+    return { ...options, env: { ...options.env, PASSWD: password } }
+  }
+
+  /**
+   * Standard input for samba-tool commands that prompt for a new password
+   * and its confirmation when none is given on the command line
+   */
+  protected static passwordPrompt (password: string): string {
+    validateArgument('password', password, 'password')
+    return `${password}\n${password}\n`
   }
 
   /**
@@ -102,6 +474,182 @@ export abstract class BaseAPI {
     return items
   }
 
+  /**
+   * Run a single ldbsearch against sam.ldb and return the parsed entries.
+   * Results are fetched with the paged_results control so large domains
+   * do not have to be materialised by the server in one go.
+   *
+   * The filter must be well formed; callers escape any user supplied
+   * values with APIUtils.escapeLDAP.
+   */
+  protected static async search (options: SearchOptions): Promise<LDIFEntry[]> {
+    const { filter, attributes = [], base, scope = 'sub', pageSize = this.DEFAULT_PAGE_SIZE } = options
+
+    const command = ['ldbsearch', '-H', this.SAM_LDB_URL, '-s', scope]
+
+    if (base) {
+      command.push('-b', base)
+    }
+
+    command.push(`--controls=paged_results:1:${pageSize}`)
+    const argumentKinds: Record<number, ArgumentKind> = { [command.length]: 'ldapFilter' }
+    if (base) {
+      argumentKinds[command.indexOf('-b') + 1] = 'dn'
+    }
+    command.push(filter, ...attributes)
+
+    const output = await this.executeCommand(command, { argumentKinds })
+    return this.parseLDIF(output)
+  }
+
+  /**
+   * Search and return a single page of results
+   */
+  protected static async searchPage (
+    options: SearchOptions,
+    pagination: PaginationOptions
+  ): Promise<PaginatedResponse<LDIFEntry>> {
+    const entries = await this.search(options)
+    const start = (pagination.page - 1) * pagination.pageSize
+
+    return {
+      items: entries.slice(start, start + pagination.pageSize),
+      total: entries.length,
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      totalPages: Math.max(1, Math.ceil(entries.length / pagination.pageSize))
+    }
+  }
+
+  /**
+   * Replace attributes of one entry with ldbmodify. An empty string or
+   * array removes the attribute; attributes not listed are left alone.
+   */
+  protected static async modify (dn: string, changes: Record<string, string | string[]>): Promise<void> {
+    const lines = [this.ldifLine('dn', dn), 'changetype: modify']
+
+    for (const [attribute, value] of Object.entries(changes)) {
+      // A replace without values deletes the attribute, and unlike a
+      // delete it does not fail when the attribute is already absent
+      const values = (Array.isArray(value) ? value : [value]).filter(item => item !== '')
+      lines.push(`replace: ${attribute}`, ...values.map(item => this.ldifLine(attribute, item)), '-')
+    }
+
+    await this.executeCommand(['ldbmodify', '-H', this.SAM_LDB_URL], {
+      input: `${lines.join('\n')}\n`,
+      description: { operation: 'ldbmodify replace', object: dn, attributes: Object.keys(changes) }
+    })
+  }
+
+  /**
+   * Replace one value of a single-valued attribute, but only while it still
+   * holds `expected`: the delete of the old value fails with "no matching
+   * attribute value" when someone changed it since it was read, and the
+   * record is then not applied at all.
+   */
+  protected static async swapValue (dn: string, attribute: string, expected: string, value: string): Promise<void> {
+    const lines = [
+      this.ldifLine('dn', dn),
+      'changetype: modify',
+      `delete: ${attribute}`,
+      this.ldifLine(attribute, expected),
+      '-',
+      `add: ${attribute}`,
+      this.ldifLine(attribute, value),
+      '-'
+    ]
+
+    await this.executeCommand(['ldbmodify', '-H', this.SAM_LDB_URL], {
+      input: `${lines.join('\n')}\n`,
+      description: { operation: 'ldbmodify replace', object: dn, attributes: [attribute] }
+    })
+  }
+
+  /**
+   * Parse LDIF (ldbsearch or samba-tool show output) into entries
+   */
+  protected static parseLDIF (output: string): LDIFEntry[] {
+    const entries: LDIFEntry[] = []
+    let current: LDIFEntry | null = null
+
+    // Unfold continuation lines (RFC 2849: a leading space continues the previous line)
+    const lines = output.replace(/\r?\n /g, '').split(/\r?\n/)
+
+    lines.forEach(line => {
+      if (!line.trim()) {
+        current = null
+        return
+      }
+
+      if (line.startsWith('#')) {
+        return
+      }
+
+      const match = line.match(/^([A-Za-z0-9;.-]+)(::?)\s?(.*)$/)
+      if (!match) {
+        return
+      }
+
+      const [, name, separator, rawValue] = match
+      const value = separator === '::' ? this.decodeBase64(rawValue) : rawValue
+
+      if (name.toLowerCase() === 'dn') {
+        current = { dn: value, attributes: {} }
+        entries.push(current)
+        return
+      }
+
+      if (!current || name.toLowerCase() === 'ref') {
+        return
+      }
+
+      const entry: LDIFEntry = current
+      if (!entry.attributes[name]) {
+        entry.attributes[name] = []
+      }
+      entry.attributes[name].push(value)
+    })
+
+    return entries
+  }
+
+  /**
+   * First value of an LDIF attribute (case-insensitive name lookup)
+   */
+  protected static ldifValue (entry: LDIFEntry, attribute: string): string | undefined {
+    return this.ldifValues(entry, attribute)[0]
+  }
+
+  protected static ldifValues (entry: LDIFEntry, attribute: string): string[] {
+    const key = Object.keys(entry.attributes).find(name => name.toLowerCase() === attribute.toLowerCase())
+    return key ? entry.attributes[key] : []
+  }
+
+  /**
+   * One LDIF attribute line, base64 encoded when the value is not a
+   * SAFE-STRING (RFC 2849)
+   */
+  private static ldifLine (attribute: string, value: string): string {
+    // eslint-disable-next-line no-control-regex
+    if (/^(?![ :<])[\x01-\x09\x0B\x0C\x0E-\x7F]*$/.test(value) && !value.endsWith(' ')) {
+      return `${attribute}: ${value}`
+    }
+    const bytes = new TextEncoder().encode(value)
+    return `${attribute}:: ${btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))}`
+  }
+
+  private static decodeBase64 (value: string): string {
+    const binary = atob(value.trim())
+    try {
+      return decodeURIComponent(
+        Array.from(binary, char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+      )
+    } catch {
+      // Binary attribute (e.g. objectGUID); keep the raw bytes
+      return binary
+    }
+  }
+
   /**
    * Build samba-tool command with consistent structure
    */
@@ -181,7 +729,7 @@ export abstract class BaseAPI {
 
     if (missingFields.length > 0) {
       throw new APIError(
-        `Missing required fields: ${missingFields.join(', ')}`,
+        format(_('Missing required fields: $0'), missingFields.join(', ')),
         'VALIDATION_ERROR',
         { missingFields }
       )
@@ -207,12 +755,49 @@ export abstract class BaseAPI {
     return isNaN(parsed.getTime()) ? undefined : parsed
   }
 
+  /**
+   * Parse an LDAP GeneralizedTime value (e.g. 20240101120000.0Z)
+   */
+  protected static parseGeneralizedTime (value?: string): Date | undefined {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})/)
+    if (!match) {
+      return undefined
+    }
+
+    const [, year, month, day, hour, minute, second] = match.map(Number)
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+  }
+
+  /**
+   * Parse an NT timestamp (100ns intervals since 1601), as used by lastLogon,
+   * pwdLastSet and accountExpires. Zero and the "never" sentinel yield undefined.
+   */
+  protected static parseNTTime (value?: string): Date | undefined {
+    if (!value || value === '0' || value === '9223372036854775807') {
+      return undefined
+    }
+
+    const ticks = Number(value)
+    if (!Number.isFinite(ticks) || ticks <= 0) {
+      return undefined
+    }
+
+    return new Date(ticks / 10000 - 11644473600000)
+  }
+
+  /**
+   * The NT timestamp of a date, for comparisons in LDAP filters
+   */
+  protected static toNTTime (date: Date): string {
+    return String((BigInt(date.getTime()) + 11644473600000n) * 10000n)
+  }
+
   /**
    * Check if a command exists and is executable
    */
   protected static async validateCommand (command: string): Promise<boolean> {
     try {
-      await cockpit.spawn(['which', command])
+      await this.getTransport().spawn(['which', command], {})
       return true
     } catch {
       return false
@@ -237,16 +822,18 @@ export abstract class BaseAPI {
 
       return { version, features }
     } catch (error) {
-      throw new APIError('Failed to get Samba version', 'VERSION_ERROR', error)
+      throw new APIError(_('Failed to get Samba version'), 'VERSION_ERROR', error)
     }
   }
 
   /**
-   * Test connection to domain controller
+   * Test connection to a domain controller, by default the one of the
+   * active connection profile
    */
-  static async testConnection (): Promise<boolean> {
+  static async testConnection (host?: string): Promise<boolean> {
     try {
-      await this.executeCommand(['samba-tool', 'domain', 'info', '127.0.0.1'], {
+      const server = host || this.getConnections().active.host || '127.0.0.1'
+      await this.executeCommand(['samba-tool', 'domain', 'info', server], {
         timeout: 5000 // Short timeout for connection test
       })
       return true
@@ -262,48 +849,32 @@ export class APIUtils {
    * Escape special characters in LDAP queries
    */
   static escapeLDAP (input: string): string {
+    // RFC 4515 hex escapes; backslash must go first
     return input
-      .replace(/\\/g, '\\\\')
-      .replace(/\*/g, '\\*')
-      .replace(/\(/g, '\\(')
-      .replace(/\)/g, '\\)')
+      .replace(/\\/g, '\\5c')
+      .replace(/\*/g, '\\2a')
+      .replace(/\(/g, '\\28')
+      .replace(/\)/g, '\\29')
       .replace(/\0/g, '\\00')
   }
 
   /**
-   * Generate a secure random password
+   * Escape an attribute value for use in a distinguished name (RFC 4514)
    */
-  static generatePassword (
-    length: number = 12,
-    includeSymbols: boolean = true
-  ): string {
-    const lowercase = 'abcdefghijklmnopqrstuvwxyz'
-    const uppercase = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
-    const numbers = '0123456789'
-    const symbols = includeSymbols ? '!@#$%^&*()_+-=[]{}|;:,.<>?' : ''
-
-    const allChars = lowercase + uppercase + numbers + symbols
-    let password = ''
-
-    // Ensure at least one character from each category
-    password += this.randomChar(lowercase)
-    password += this.randomChar(uppercase)
-    password += this.randomChar(numbers)
-    if (includeSymbols) {
-      password += this.randomChar(symbols)
-    }
-
-    // Fill remaining length
-    for (let i = password.length; i < length; i++) {
-      password += this.randomChar(allChars)
-    }
-
-    // Shuffle the password
-    return password.split('').sort(() => Math.random() - 0.5).join('')
+  static escapeDN (value: string): string {
+    return value
+      .replace(/[\\,+"<>;=]/g, char => `\\${char}`)
+      .replace(/^[ #]/, char => `\\${char}`)
+      .replace(/ $/, '\\ ')
   }
 
-  private static randomChar (chars: string): string {
-    return chars[Math.floor(Math.random() * chars.length)]
+  /**
+   * Quote an argv array so it can be pasted into a POSIX shell
+   */
+  static toShellCommand (command: string[]): string {
+    return command
+      .map(arg => /^[A-Za-z0-9_@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`)
+      .join(' ')
   }
 
   /**
@@ -337,11 +908,9 @@ export class APIUtils {
    */
   static parseDN (dn: string): Record<string, string[]> {
     const components: Record<string, string[]> = {}
-    const parts = dn.split(',').map(part => part.trim())
 
-    parts.forEach(part => {
-      const [key, ...valueParts] = part.split('=')
-      const value = valueParts.join('=').trim()
+    splitDN(dn).forEach(part => {
+      const [key, value] = firstRDN(part)
 
       if (key && value) {
         const normalizedKey = key.trim().toLowerCase()
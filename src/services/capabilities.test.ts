@@ -0,0 +1,60 @@
+import { BaseAPI } from './base-api'
+import { DomainAPI } from './domain-api'
+import { MemoryAuditStore } from './audit'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+import { CapabilityRegistry, compareVersions } from './capabilities'
+import { UnsupportedError } from '@/lib/errors'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+describe('capabilities', () => {
+  let audit: MemoryAuditStore
+
+  const useSamba = (version: string, missingCommands: string[] = []) => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample(), version, missingCommands }))
+    audit = new MemoryAuditStore()
+    BaseAPI.setAuditStore(audit)
+  }
+
+  it('compares Samba versions', () => {
+    expect(compareVersions('4.19.5-Debian', '4.15.0')).toBeGreaterThan(0)
+    expect(compareVersions('4.9.18', '4.10.0')).toBeLessThan(0)
+    expect(compareVersions('4.10', '4.10.0')).toBe(0)
+  })
+
+  it('explains requirements an older release does not meet', async () => {
+    useSamba('4.9.18')
+
+    await expect(DomainAPI.backupOffline({ targetdir: '/tmp' })).rejects.toThrow(UnsupportedError)
+    await expect(BaseAPI.getCapabilities().check(DomainAPI.requirements.backupOffline)).resolves.toEqual({
+      supported: false,
+      reason: 'Requires Samba 4.10.0 or later; this server runs 4.9.18'
+    })
+    expect(await BaseAPI.getCapabilities().check(DomainAPI.requirements.backupOnline)).toEqual({ supported: true })
+  })
+
+  it('probes samba-tool for commands without recording them', async () => {
+    useSamba('4.19.5', ['contact'])
+    const registry = BaseAPI.getCapabilities()
+
+    expect(await registry.hasCommand('user')).toBe(true)
+    expect((await registry.check({ command: 'contact' })).reason).toBe('samba-tool contact is not available in Samba 4.19.5')
+    expect(registry.peek({ command: 'contact' })?.supported).toBe(false)
+    expect(await audit.read()).toEqual([])
+  })
+
+  it('remembers probes for the same version', async () => {
+    const storage = new Map<string, string>()
+    const cache = {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => { storage.set(key, value) }
+    }
+    const help = jest.fn().mockResolvedValue('')
+    const probe = { version: async () => '4.19.5', help }
+
+    await new CapabilityRegistry(probe, cache).hasCommand('dns')
+    await new CapabilityRegistry(probe, cache).hasCommand('dns')
+
+    expect(help).toHaveBeenCalledTimes(1)
+  })
+})
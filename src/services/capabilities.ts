@@ -0,0 +1,213 @@
+// Samba Capabilities
+
+import { _, format } from '../lib/i18n'
+
+/**
+ * What a page, action or service call needs from the installed Samba.
+ * Commands are probed with `samba-tool <command> --help`, so a backport
+ * counts even when the version says otherwise.
+ */
+export interface Requirement {
+  /**
+   * samba-tool command that must exist, e.g. `domain backup offline`
+   */
+  command?: string;
+  /**
+   * Oldest Samba release that provides it, e.g. `4.15.0`
+   */
+  minVersion?: string;
+}
+
+export interface CapabilityStatus {
+  supported: boolean;
+  /**
+   * Why the requirement is not met, for display
+   */
+  reason?: string;
+}
+
+/**
+ * How the registry learns about the installed Samba
+ */
+export interface CapabilityProbe {
+  /**
+   * Version string as printed by `samba-tool --version`
+   */
+  version (): Promise<string>;
+  /**
+   * Resolves when `samba-tool <command> --help` succeeds
+   */
+  help (command: string[]): Promise<unknown>;
+}
+
+const CACHE_STORAGE_KEY = 'cockpit-samba-ad-dc:capabilities'
+
+interface CachedProbes {
+  version: string;
+  commands: Record<string, boolean>;
+}
+
+/**
+ * Compare dotted version numbers; suffixes such as `-Debian` are ignored
+ */
+export function compareVersions (a: string, b: string): number {
+  const parse = (version: string) => (version.match(/\d+(?:\.\d+)*/)?.[0] || '0').split('.').map(Number)
+  const left = parse(a)
+  const right = parse(b)
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0)
+    if (difference !== 0) {
+      return difference
+    }
+  }
+  return 0
+}
+
+export function describeRequirement (requirement: Requirement): string {
+  const parts = [
+    requirement.command && `samba-tool ${requirement.command}`,
+    requirement.minVersion && `Samba ${requirement.minVersion} or later`
+  ].filter(Boolean)
+  return parts.join(' from ') || 'nothing'
+}
+
+const requirementKey = (requirement: Requirement): string =>
+  `${requirement.command || ''}@${requirement.minVersion || ''}`
+
+/**
+ * Knows which Samba release is installed and which samba-tool commands it
+ * has. Results are shared by every check and, when a storage is given,
+ * remembered for the browser session as long as the version is unchanged.
+ */
+export class CapabilityRegistry {
+  private readonly probe: CapabilityProbe
+  private readonly storage?: Pick<Storage, 'getItem' | 'setItem'>
+  private readonly listeners = new Set<() => void>()
+  private readonly statuses = new Map<string, CapabilityStatus>()
+  private readonly commands = new Map<string, Promise<boolean>>()
+  private version?: Promise<string | null>
+  private revision = 0
+
+  constructor (probe: CapabilityProbe, storage?: Pick<Storage, 'getItem' | 'setItem'>) {
+    this.probe = probe
+    this.storage = storage
+  }
+
+  getRevision = (): number => this.revision
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  /**
+   * The installed Samba version, or null when it cannot be determined
+   */
+  getVersion (): Promise<string | null> {
+    if (!this.version) {
+      this.version = this.probe.version()
+        .then(version => /\d+\.\d+/.test(version) ? version : null)
+        .catch(() => null)
+    }
+    return this.version
+  }
+
+  /**
+   * Whether samba-tool knows a command, e.g. `user unlock`
+   */
+  hasCommand (command: string): Promise<boolean> {
+    let result = this.commands.get(command)
+    if (!result) {
+      result = this.probeCommand(command)
+      this.commands.set(command, result)
+    }
+    return result
+  }
+
+  /**
+   * Check a requirement. Without a known version only the command probe
+   * decides.
+   */
+  async check (requirement: Requirement): Promise<CapabilityStatus> {
+    const key = requirementKey(requirement)
+    const known = this.statuses.get(key)
+    if (known) {
+      return known
+    }
+
+    const status = await this.evaluate(requirement)
+    this.statuses.set(key, status)
+    this.revision++
+    this.listeners.forEach(listener => listener())
+    return status
+  }
+
+  /**
+   * The result of an earlier check, without probing
+   */
+  peek (requirement: Requirement): CapabilityStatus | undefined {
+    return this.statuses.get(requirementKey(requirement))
+  }
+
+  private async evaluate (requirement: Requirement): Promise<CapabilityStatus> {
+    const version = await this.getVersion()
+
+    if (requirement.minVersion && version && compareVersions(version, requirement.minVersion) < 0) {
+      return {
+        supported: false,
+        reason: format(_('Requires Samba $0 or later; this server runs $1'), requirement.minVersion, version)
+      }
+    }
+
+    if (requirement.command && !await this.hasCommand(requirement.command)) {
+      return {
+        supported: false,
+        reason: format(_('samba-tool $0 is not available in $1'), requirement.command, version ? format(_('Samba $0'), version) : _('the installed Samba'))
+      }
+    }
+
+    return { supported: true }
+  }
+
+  private async probeCommand (command: string): Promise<boolean> {
+    const version = await this.getVersion()
+    const cached = this.readCache(version)
+    if (command in cached.commands) {
+      return cached.commands[command]
+    }
+
+    const supported = await this.probe.help(command.split(' ')).then(() => true, () => false)
+
+    // Re-read, as other probes may have finished in the meantime
+    const latest = this.readCache(version)
+    this.writeCache({ version: latest.version, commands: { ...latest.commands, [command]: supported } })
+    return supported
+  }
+
+  private readCache (version: string | null): CachedProbes {
+    const empty = { version: version || '', commands: {} }
+    if (!this.storage || !version) {
+      return empty
+    }
+
+    try {
+      const cached: CachedProbes = JSON.parse(this.storage.getItem(CACHE_STORAGE_KEY) || 'null')
+      return cached?.version === version ? cached : empty
+    } catch {
+      return empty
+    }
+  }
+
+  private writeCache (cache: CachedProbes): void {
+    if (!this.storage || !cache.version) {
+      return
+    }
+
+    try {
+      this.storage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache))
+    } catch {
+      // A full or unavailable storage only costs another probe
+    }
+  }
+}
@@ -1,44 +1,55 @@
 // Computer API Service
 
-import { BaseAPI } from './base-api'
+import { BaseAPI, APIUtils, type LDIFEntry } from './base-api'
 import { APIError, SambaErrorParser } from '@/lib/errors'
 import type {
   SambaComputer,
   CreateComputerInput,
   FilterOptions
 } from '@/types/samba'
+import { _ } from '@/lib/i18n'
+import { parentDN } from '@/lib/dn'
 
 export class ComputerAPI extends BaseAPI {
+  private static readonly COMPUTER_ATTRIBUTES = [
+    'cn',
+    'sAMAccountName',
+    'dNSHostName',
+    'operatingSystem',
+    'operatingSystemVersion',
+    'description',
+    'userAccountControl',
+    'whenCreated',
+    'lastLogon',
+    'lastLogonTimestamp',
+    'pwdLastSet'
+  ]
+
   /**
    * List all computers with optional filtering
    */
   static async list (filters?: FilterOptions): Promise<SambaComputer[]> {
     try {
-      const command = ['samba-tool', 'computer', 'list']
+      const clauses = ['(objectClass=computer)']
 
-      // Add search filter if provided
       if (filters?.search) {
-        // Use LDAP filter for search
-        command.push('--filter', `(|(cn=*${filters.search}*)(sAMAccountName=*${filters.search}*)(dNSHostName=*${filters.search}*))`)
+        const term = APIUtils.escapeLDAP(filters.search)
+        clauses.push(`(|(cn=*${term}*)(sAMAccountName=*${term}*)(dNSHostName=*${term}*))`)
       }
 
-      const output = await this.executeCommand(command)
-
-      // Parse computer list and get detailed info for each computer
-      const computerNames = this.parseSimpleList(output)
-
-      // Get detailed information for each computer
-      const computers = await Promise.all(
-        computerNames.map(name => this.show(name).catch(() => null))
-      )
-
-      // Filter out failed computer lookups and apply additional filters
-      let filteredComputers = computers.filter((computer): computer is SambaComputer => computer !== null)
-
       if (filters?.enabled !== undefined) {
-        filteredComputers = filteredComputers.filter(computer => computer.enabled === filters.enabled)
+        const disabled = '(userAccountControl:1.2.840.113556.1.4.803:=2)'
+        clauses.push(filters.enabled ? `(!${disabled})` : disabled)
       }
 
+      // One ldbsearch for every account instead of a `computer show` per computer
+      const entries = await this.search({
+        filter: `(&${clauses.join('')})`,
+        attributes: this.COMPUTER_ATTRIBUTES
+      })
+
+      let filteredComputers = entries.map(entry => this.mapComputerEntry(entry))
+
       if (filters?.organizationalUnit) {
         filteredComputers = filteredComputers.filter(computer =>
           computer.organizationalUnit === filters.organizationalUnit
@@ -55,7 +66,7 @@ export class ComputerAPI extends BaseAPI {
 
       return filteredComputers
     } catch (error) {
-      throw new APIError('Failed to list computers', 'COMPUTER_LIST_ERROR', error)
+      throw new APIError(_('Failed to list computers'), 'COMPUTER_LIST_ERROR', error)
     }
   }
 
@@ -198,61 +209,29 @@ export class ComputerAPI extends BaseAPI {
   }
 
   private static parseComputerDetails (output: string, computerName: string): SambaComputer {
-    const lines = output.split('\n')
-    const computer: Partial<SambaComputer> = {
-      name: computerName,
-      enabled: true,
-      createdAt: new Date(),
-      distinguishedName: `CN=${computerName},CN=Computers,DC=domain,DC=local`
-    }
-
-    lines.forEach(line => {
-      const [key, ...valueParts] = line.split(':')
-      const value = valueParts.join(':').trim()
-
-      if (!key || !value) return
-
-      const normalizedKey = key.trim().toLowerCase()
-
-      switch (normalizedKey) {
-        case 'distinguishedname':
-          computer.distinguishedName = value
-          break
-        case 'dnshostname':
-          computer.dnsHostName = value
-          break
-        case 'operatingsystem':
-          computer.operatingSystem = value
-          break
-        case 'operatingsystemversion':
-          computer.operatingSystemVersion = value
-          break
-        case 'description':
-          computer.description = value
-          break
-        case 'useraccountcontrol': {
-          // Parse account control flags
-          const flags = parseInt(value)
-          computer.enabled = !(flags & 0x0002) // ACCOUNTDISABLE flag
-          break
-        }
-        case 'whencreated':
-          computer.createdAt = this.parseDate(value) || new Date()
-          break
-        case 'lastlogon':
-          computer.lastLogon = this.parseDate(value)
-          break
-      }
-    })
+    const [entry] = this.parseLDIF(output)
+    return this.mapComputerEntry(entry || { dn: '', attributes: {} }, computerName)
+  }
 
-    // Extract OU from distinguished name
-    if (computer.distinguishedName) {
-      const ouMatch = computer.distinguishedName.match(/,(?:OU|CN)=(.+?)(?:,DC=|$)/)
-      if (ouMatch) {
-        computer.organizationalUnit = ouMatch[1]
-      }
+  private static mapComputerEntry (entry: LDIFEntry, fallbackName: string = ''): SambaComputer {
+    const get = (attribute: string) => this.ldifValue(entry, attribute)
+    const flags = parseInt(get('userAccountControl') || '0', 10)
+    const name = get('cn') || get('sAMAccountName')?.replace(/\$$/, '') || fallbackName
+
+    return {
+      name,
+      distinguishedName: entry.dn || `CN=${name},CN=Computers,DC=domain,DC=local`,
+      dnsHostName: get('dNSHostName'),
+      operatingSystem: get('operatingSystem'),
+      operatingSystemVersion: get('operatingSystemVersion'),
+      description: get('description'),
+      enabled: !(flags & 0x0002), // ACCOUNTDISABLE flag
+      createdAt: this.parseGeneralizedTime(get('whenCreated')) || new Date(),
+      lastLogon: this.parseNTTime(get('lastLogon')),
+      lastLogonTimestamp: this.parseNTTime(get('lastLogonTimestamp')),
+      passwordLastSet: this.parseNTTime(get('pwdLastSet')),
+      // The container's full DN, the same as for users
+      organizationalUnit: entry.dn ? parentDN(entry.dn) : undefined
     }
-
-    return computer as SambaComputer
   }
 }
@@ -0,0 +1,148 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { KerberosAPI, parseKlist } from './kerberos-api'
+import { MemoryAuditStore } from './audit'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+import {
+  ConnectionManager,
+  MemoryConnectionStore,
+  applyConnection,
+  type ConnectionProfile
+} from './connection'
+import type { TransportOptions } from './transport'
+import { ValidationError } from '@/lib/errors'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+const branch: ConnectionProfile = {
+  id: 'branch',
+  name: 'Branch DC',
+  host: 'dc2.example.com',
+  username: 'Administrator',
+  authMethod: 'password'
+}
+
+describe('connection profiles', () => {
+  let spawned: Array<{ command: string[]; options: TransportOptions }>
+  let connections: ConnectionManager
+
+  beforeEach(() => {
+    spawned = []
+    connections = new ConnectionManager(new MemoryConnectionStore([branch]))
+    BaseAPI.setConnectionManager(connections)
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+    BaseAPI.setTransport({
+      name: 'stub',
+      spawn: async (command, options) => {
+        spawned.push({ command, options })
+        return ''
+      }
+    })
+  })
+
+  afterEach(() => {
+    BaseAPI.setConnectionManager(new ConnectionManager())
+  })
+
+  it('points directory commands at the profile host and user', () => {
+    expect(applyConnection(['samba-tool', 'user', 'list'], branch))
+      .toEqual(['samba-tool', 'user', 'list', '-H', 'ldap://dc2.example.com', '-U', 'Administrator'])
+    expect(applyConnection(['ldbsearch', '-H', '/var/lib/samba/private/sam.ldb', '(objectClass=user)'], branch))
+      .toEqual(['ldbsearch', '-H', 'ldap://dc2.example.com', '(objectClass=user)', '-U', 'Administrator'])
+    expect(applyConnection(['samba-tool', 'forest', 'directory_service', 'show'], branch))
+      .toEqual(['samba-tool', 'forest', 'directory_service', 'show', '-H', 'ldap://dc2.example.com', '-U', 'Administrator'])
+  })
+
+  it('names the profile host to commands that take it elsewhere', () => {
+    expect(applyConnection(['samba-tool', 'domain', 'trust', 'list'], branch))
+      .toEqual(['samba-tool', 'domain', 'trust', 'list', '--local-dc-ipaddress', 'dc2.example.com', '-U', 'Administrator'])
+    expect(applyConnection(['samba-tool', 'domain', 'backup', 'online', '--targetdir', '/tmp', '--server', 'dc1'], branch))
+      .toEqual(['samba-tool', 'domain', 'backup', 'online', '--targetdir', '/tmp', '--server', 'dc1', '-U', 'Administrator'])
+    expect(applyConnection(['samba-tool', 'domain', 'info'], branch))
+      .toEqual(['samba-tool', 'domain', 'info', 'dc2.example.com'])
+    expect(applyConnection(['samba-tool', 'domain', 'info', '10.0.0.5'], branch))
+      .toEqual(['samba-tool', 'domain', 'info', '10.0.0.5'])
+  })
+
+  it('refuses to run commands for this server against a remote profile', () => {
+    for (const command of [
+      ['samba-tool', 'domain', 'provision'],
+      ['samba-tool', 'domain', 'backup', 'offline', '--targetdir', '/tmp'],
+      ['samba-tool', 'ntacl', 'sysvolreset']
+    ]) {
+      expect(() => applyConnection(command, branch)).toThrow(expect.objectContaining({ code: 'CONNECTION_LOCAL_ONLY' }))
+    }
+    expect(applyConnection(['samba-tool', 'ntacl', 'sysvolreset'], { id: 'local', name: 'Local', authMethod: 'system' }))
+      .toEqual(['samba-tool', 'ntacl', 'sysvolreset'])
+    expect(applyConnection(['samba-tool', 'ntacl', 'get', '--help'], branch))
+      .toEqual(['samba-tool', 'ntacl', 'get', '--help'])
+  })
+
+  it('keeps commands local for the local profile', async () => {
+    await UserAPI.list()
+
+    expect(spawned[0].command.slice(0, 3)).toEqual(['ldbsearch', '-H', '/var/lib/samba/private/sam.ldb'])
+    expect(spawned[0].command).not.toContain('-U')
+    expect(spawned[0].options.env).toBeUndefined()
+  })
+
+  it('passes the in-memory password of the active profile', async () => {
+    connections.select('branch')
+    expect(connections.getSnapshot().needsPassword).toBe(true)
+    connections.setPassword('branch', 'Secr3t!')
+
+    await UserAPI.list()
+
+    expect(spawned[0].command.slice(0, 3)).toEqual(['ldbsearch', '-H', 'ldap://dc2.example.com'])
+    expect(spawned[0].command.slice(-2)).toEqual(['-U', 'Administrator'])
+    expect(spawned[0].options.env).toEqual({ PASSWD: 'Secr3t!' })
+  })
+
+  it('runs commands with the ticket of a Kerberos profile', async () => {
+    const kerberos: ConnectionProfile = {
+      id: 'kerberos',
+      name: 'As admin',
+      host: 'dc1.samdom.example.com',
+      username: 'Administrator@samdom.example.com',
+      authMethod: 'kerberos'
+    }
+    const transport = new FakeSambaTransport({ directory: FakeDirectory.createSample() })
+    const spawn = jest.spyOn(transport, 'spawn')
+    BaseAPI.setTransport(transport)
+    connections.saveProfile(kerberos)
+    connections.select('kerberos')
+
+    await expect(UserAPI.list()).rejects.toThrow()
+
+    const ticket = await KerberosAPI.obtainTicket(kerberos, 'Passw0rd!')
+    expect(ticket.principal).toBe('Administrator@SAMDOM.EXAMPLE.COM')
+    expect((ticket.expires?.getTime() || 0) - Date.now()).toBeGreaterThan(9 * 60 * 60 * 1000)
+    expect(connections.getSnapshot().needsPassword).toBe(false)
+
+    spawn.mockClear()
+    await UserAPI.list()
+
+    const [command, options] = spawn.mock.calls[0]
+    expect(command).toContain('--use-kerberos=required')
+    expect(command).not.toContain('-U')
+    expect(options?.env).toEqual({ KRB5CCNAME: connections.getCredentialCache('kerberos') })
+  })
+
+  it('reads ticket lifetimes from Heimdal klist', () => {
+    const ticket = parseKlist([
+      'Credentials cache: FILE:/tmp/krb5cc_0',
+      '        Principal: administrator@SAMDOM.EXAMPLE.COM',
+      '',
+      '  Issued                Expires               Principal',
+      'Oct 19 10:00:00 2026  Oct 19 20:00:00 2026  krbtgt/SAMDOM.EXAMPLE.COM@SAMDOM.EXAMPLE.COM'
+    ].join('\n'))
+
+    expect(ticket?.principal).toBe('administrator@SAMDOM.EXAMPLE.COM')
+    expect(ticket?.expires).toEqual(new Date(2026, 9, 19, 20, 0, 0))
+  })
+
+  it('rejects remote profiles without credentials', () => {
+    expect(() => connections.saveProfile({ name: 'Remote', host: 'dc3.example.com', authMethod: 'system' }))
+      .toThrow(ValidationError)
+  })
+})
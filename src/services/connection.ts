@@ -0,0 +1,474 @@
+// Connection Profiles
+
+import { isValidHostname } from '@/lib/arguments'
+import { APIError, ValidationError } from '@/lib/errors'
+import { _, format } from '@/lib/i18n'
+
+/**
+ * How commands authenticate: `system` runs them as root against the local
+ * databases, `password` binds as the profile's user and `kerberos` uses a
+ * ticket obtained for the user at the start of the session
+ */
+export type AuthMethod = 'system' | 'password' | 'kerberos'
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  /**
+   * Domain controller to manage; empty for this server
+   */
+  host?: string;
+  /**
+   * User to bind as; the Kerberos principal for `kerberos` profiles
+   */
+  username?: string;
+  authMethod: AuthMethod;
+}
+
+/**
+ * A ticket-granting ticket held in a profile's credential cache
+ */
+export interface KerberosTicket {
+  principal: string;
+  expires?: Date;
+  renewUntil?: Date;
+}
+
+export interface ConnectionSnapshot {
+  profiles: ConnectionProfile[];
+  active: ConnectionProfile;
+  /**
+   * Ticket of the active profile, when it uses Kerberos and has one
+   */
+  ticket?: KerberosTicket;
+  /**
+   * The active profile authenticates with a password that has not been
+   * entered in this session, or with a ticket that is missing or expired
+   */
+  needsPassword: boolean;
+}
+
+/**
+ * A command rewritten for the active profile, with the environment that
+ * carries its credentials
+ */
+export interface ConnectedCommand {
+  command: string[];
+  env?: Record<string, string>;
+}
+
+/**
+ * Where profiles are kept. Profiles never contain secrets; passwords only
+ * live in the ConnectionManager's memory.
+ */
+export interface ConnectionStore {
+  load (): ConnectionProfile[];
+  save (profiles: ConnectionProfile[]): void;
+  getActiveId (): string | null;
+  setActiveId (id: string | null): void;
+  /**
+   * Identifies the browser session, to name its credential caches
+   */
+  getSessionId (): string;
+}
+
+export const LOCAL_PROFILE: ConnectionProfile = {
+  id: 'local',
+  name: _('This server'),
+  authMethod: 'system'
+}
+
+const PROFILES_STORAGE_KEY = 'cockpit-samba-ad-dc:connections'
+const ACTIVE_STORAGE_KEY = 'cockpit-samba-ad-dc:connection'
+const SESSION_STORAGE_KEY = 'cockpit-samba-ad-dc:session'
+
+const KERBEROS_OPTION = '--use-kerberos=required'
+
+// samba-tool command groups that manage the directory over LDAP and accept -H
+const LDAP_URL_GROUPS = new Set([
+  'user', 'group', 'computer', 'contact', 'ou', 'gpo', 'dsacl', 'spn',
+  'delegation', 'sites', 'fsmo', 'forest', 'schema', 'dbcheck'
+])
+
+// ... and domain subcommands that do
+const LDAP_URL_DOMAIN_COMMANDS = new Set(['passwordsettings', 'level'])
+
+// Command groups that take the server as an argument but still need -U
+const CREDENTIAL_GROUPS = new Set(['dns'])
+
+// Commands that name the DC in an option of their own, with -U. domain
+// trust falls back to -U for the local DC when no --local-dc-username is given.
+const SERVER_OPTION_COMMANDS = new Map([
+  ['domain trust', '--local-dc-ipaddress'],
+  ['domain backup online', '--server'],
+  ['domain backup rename', '--server']
+])
+
+// Commands that take the DC as their first argument and need no credentials
+const SERVER_ARGUMENT_COMMANDS = new Set(['domain info'])
+
+/**
+ * Keeps profiles in local storage and the profile chosen for this browser
+ * tab in session storage, so every module page opened from it follows along
+ */
+export class BrowserConnectionStore implements ConnectionStore {
+  load (): ConnectionProfile[] {
+    try {
+      const profiles = JSON.parse(window.localStorage.getItem(PROFILES_STORAGE_KEY) || '[]')
+      return Array.isArray(profiles) ? profiles : []
+    } catch {
+      return []
+    }
+  }
+
+  save (profiles: ConnectionProfile[]): void {
+    window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles))
+  }
+
+  getActiveId (): string | null {
+    try {
+      return window.sessionStorage.getItem(ACTIVE_STORAGE_KEY)
+    } catch {
+      return null
+    }
+  }
+
+  setActiveId (id: string | null): void {
+    if (id) {
+      window.sessionStorage.setItem(ACTIVE_STORAGE_KEY, id)
+    } else {
+      window.sessionStorage.removeItem(ACTIVE_STORAGE_KEY)
+    }
+  }
+
+  getSessionId (): string {
+    let id = window.sessionStorage.getItem(SESSION_STORAGE_KEY)
+    if (!id) {
+      id = createSessionId()
+      window.sessionStorage.setItem(SESSION_STORAGE_KEY, id)
+    }
+    return id
+  }
+}
+
+export class MemoryConnectionStore implements ConnectionStore {
+  private profiles: ConnectionProfile[]
+  private activeId: string | null = null
+  private readonly sessionId = createSessionId()
+
+  constructor (profiles: ConnectionProfile[] = []) {
+    this.profiles = profiles
+  }
+
+  load (): ConnectionProfile[] {
+    return [...this.profiles]
+  }
+
+  save (profiles: ConnectionProfile[]): void {
+    this.profiles = [...profiles]
+  }
+
+  getActiveId (): string | null {
+    return this.activeId
+  }
+
+  setActiveId (id: string | null): void {
+    this.activeId = id
+  }
+
+  getSessionId (): string {
+    return this.sessionId
+  }
+}
+
+function createSessionId (): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * A ticket is usable until it expires; one without a known lifetime is
+ * taken as valid
+ */
+export function isTicketValid (ticket?: KerberosTicket, now: Date = new Date()): boolean {
+  return !!ticket && (!ticket.expires || ticket.expires > now)
+}
+
+/**
+ * Check a profile before it is saved, throwing a ValidationError naming the
+ * offending field
+ */
+export function validateProfile (profile: ConnectionProfile): void {
+  if (!profile.name.trim()) {
+    throw new ValidationError(_('A profile name is required'), 'name')
+  }
+  if (profile.host && !isValidHostname(profile.host)) {
+    throw new ValidationError(format(_("'$0' is not a host name or IP address"), profile.host), 'host', profile.host)
+  }
+  if (profile.authMethod === 'system' && profile.host) {
+    throw new ValidationError(_('A remote domain controller needs credentials'), 'authMethod')
+  }
+  if (profile.authMethod !== 'system' && !profile.username?.trim()) {
+    throw new ValidationError(format(_('A username is required for $0 authentication'), profile.authMethod), 'username')
+  }
+  // The service ticket is issued for ldap/<host>, so the DC must be named
+  if (profile.authMethod === 'kerberos' && !profile.host) {
+    throw new ValidationError(_('Kerberos needs the full host name of the domain controller'), 'host')
+  }
+}
+
+/**
+ * Rewrite a command for a profile: directory commands get `-H ldap://host`
+ * (ldb tools have their local database URL replaced), others the option or
+ * argument they take the server in, and commands that authenticate get
+ * `-U user` or `--use-kerberos=required`, unless the caller already chose
+ * its credentials. samba-tool commands that only work on this server's
+ * files, such as provisioning, offline backups and ntacl, throw an APIError
+ * for a remote profile rather than run here.
+ */
+export function applyConnection (command: string[], profile: ConnectionProfile): string[] {
+  const [program, group, action, subaction] = command
+  const url = profile.host ? `ldap://${profile.host}` : undefined
+  const hasOption = (...names: string[]) => command.some(arg =>
+    names.some(name => arg === name || arg.startsWith(`${name}=`)))
+  const credentials = (): string[] => {
+    if (hasOption('-U', '--username', '-k', '--use-kerberos')) {
+      return []
+    }
+    if (profile.authMethod === 'kerberos') {
+      return [KERBEROS_OPTION]
+    }
+    return profile.authMethod === 'password' && profile.username ? ['-U', profile.username] : []
+  }
+
+  if (program.startsWith('ldb')) {
+    const index = command.indexOf('-H')
+    if (!url || index < 0 || command[index + 1]?.includes('://')) {
+      return command
+    }
+
+    const connected = [...command]
+    connected[index + 1] = url
+    connected.push(...credentials())
+    return connected
+  }
+
+  if (program !== 'samba-tool') {
+    return command
+  }
+
+  const takesURL = LDAP_URL_GROUPS.has(group) ||
+    (group === 'domain' && LDAP_URL_DOMAIN_COMMANDS.has(action))
+  const serverOption = SERVER_OPTION_COMMANDS.get(`${group} ${action} ${subaction}`) ||
+    SERVER_OPTION_COMMANDS.get(`${group} ${action}`)
+
+  if (takesURL || serverOption || CREDENTIAL_GROUPS.has(group)) {
+    const connected = [...command]
+    if (takesURL && url && !hasOption('-H', '--URL')) {
+      connected.push('-H', url)
+    }
+    if (serverOption && profile.host && !hasOption(serverOption)) {
+      connected.push(serverOption, profile.host)
+    }
+    connected.push(...credentials())
+    return connected
+  }
+
+  if (SERVER_ARGUMENT_COMMANDS.has(`${group} ${action}`)) {
+    // An address the caller gave is kept
+    return profile.host && (command.length < 4 || command[3].startsWith('-'))
+      ? [...command.slice(0, 3), profile.host, ...command.slice(3)]
+      : command
+  }
+
+  // Help and version describe the samba-tool that runs the remote commands
+  if (!profile.host || hasOption('--help', '-h', '--version', '-V') || group?.startsWith('-')) {
+    return command
+  }
+  throw new APIError(
+    format(_('"$0" only works on this server, not on $1. Switch the connection to "$2" to run it.'),
+      command.slice(0, 3).join(' '), profile.host, LOCAL_PROFILE.name),
+    'CONNECTION_LOCAL_ONLY'
+  )
+}
+
+/**
+ * Holds the connection profiles and the one BaseAPI applies to every
+ * command. Passwords entered for a profile are kept in memory only, so they
+ * are gone when the page is closed or reloaded. Kerberos tickets live in a
+ * credential cache on the server named after the browser session, which
+ * every module page of the session shares.
+ */
+export class ConnectionManager {
+  private readonly store: ConnectionStore
+  private readonly passwords = new Map<string, string>()
+  private readonly tickets = new Map<string, KerberosTicket>()
+  private readonly listeners = new Set<() => void>()
+  private snapshot: ConnectionSnapshot
+
+  constructor (store: ConnectionStore = new MemoryConnectionStore()) {
+    this.store = store
+    this.snapshot = this.createSnapshot()
+  }
+
+  get profiles (): ConnectionProfile[] {
+    return this.snapshot.profiles
+  }
+
+  get active (): ConnectionProfile {
+    return this.snapshot.active
+  }
+
+  getSnapshot = (): ConnectionSnapshot => this.snapshot
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  select (id: string): void {
+    if (!this.profiles.some(profile => profile.id === id)) {
+      throw new ValidationError(format(_("Unknown connection profile '$0'"), id), 'id', id)
+    }
+
+    this.store.setActiveId(id === LOCAL_PROFILE.id ? null : id)
+    this.notify()
+  }
+
+  /**
+   * Add or update a profile; a profile without an id is new
+   */
+  saveProfile (profile: Omit<ConnectionProfile, 'id'> & { id?: string }): ConnectionProfile {
+    const saved: ConnectionProfile = {
+      id: profile.id || `profile-${Date.now().toString(36)}`,
+      name: profile.name.trim(),
+      host: profile.host?.trim() || undefined,
+      username: profile.authMethod === 'system' ? undefined : profile.username?.trim(),
+      authMethod: profile.authMethod
+    }
+
+    if (saved.id === LOCAL_PROFILE.id) {
+      throw new ValidationError(_('The local profile cannot be changed'), 'id', saved.id)
+    }
+    validateProfile(saved)
+
+    const stored = this.store.load()
+    const index = stored.findIndex(item => item.id === saved.id)
+    if (index >= 0) {
+      const previous = stored[index]
+      // A password belongs to a user on a host, a ticket to a principal
+      if (previous.host !== saved.host || previous.username !== saved.username) {
+        this.passwords.delete(saved.id)
+      }
+      if (previous.username !== saved.username || saved.authMethod !== 'kerberos') {
+        this.tickets.delete(saved.id)
+      }
+      stored[index] = saved
+    } else {
+      stored.push(saved)
+    }
+
+    this.store.save(stored)
+    this.notify()
+    return saved
+  }
+
+  removeProfile (id: string): void {
+    this.store.save(this.store.load().filter(profile => profile.id !== id))
+    this.passwords.delete(id)
+    this.tickets.delete(id)
+    if (this.store.getActiveId() === id) {
+      this.store.setActiveId(null)
+    }
+    this.notify()
+  }
+
+  setPassword (id: string, password: string): void {
+    this.passwords.set(id, password)
+    this.notify()
+  }
+
+  hasPassword (id: string): boolean {
+    return this.passwords.has(id)
+  }
+
+  forgetPassword (id: string): void {
+    this.passwords.delete(id)
+    this.notify()
+  }
+
+  /**
+   * Record the ticket found in a profile's credential cache, or its absence
+   */
+  setTicket (id: string, ticket: KerberosTicket | null): void {
+    if (ticket) {
+      this.tickets.set(id, ticket)
+    } else {
+      this.tickets.delete(id)
+    }
+    this.notify()
+  }
+
+  getTicket (id: string): KerberosTicket | undefined {
+    return this.tickets.get(id)
+  }
+
+  /**
+   * The profile can run commands without asking for a password first
+   */
+  hasCredentials (profile: ConnectionProfile): boolean {
+    switch (profile.authMethod) {
+      case 'password':
+        return this.passwords.has(profile.id)
+      case 'kerberos':
+        return isTicketValid(this.tickets.get(profile.id))
+      default:
+        return true
+    }
+  }
+
+  /**
+   * Credential cache holding a profile's tickets for this browser session
+   */
+  getCredentialCache (id: string): string {
+    return `FILE:/tmp/krb5cc_samba-ad-dc_${this.store.getSessionId()}_${id}`
+  }
+
+  /**
+   * The active profile applied to a command
+   */
+  connect (command: string[]): ConnectedCommand {
+    const { active } = this
+    const connected = applyConnection(command, active)
+    const added = connected.slice(command.length)
+    const password = this.passwords.get(active.id)
+
+    // Samba reads the password for -U from PASSWD and the ticket from the
+    // cache in KRB5CCNAME; a user the caller chose keeps the caller's password
+    if (added.includes(KERBEROS_OPTION)) {
+      return { command: connected, env: { KRB5CCNAME: this.getCredentialCache(active.id) } }
+    }
+    return {
+      command: connected,
+      env: added.includes('-U') && password ? { PASSWD: password } : undefined
+    }
+  }
+
+  private createSnapshot (): ConnectionSnapshot {
+    const profiles = [LOCAL_PROFILE, ...this.store.load()]
+    const activeId = this.store.getActiveId()
+    const active = profiles.find(profile => profile.id === activeId) || LOCAL_PROFILE
+
+    return {
+      profiles,
+      active,
+      ticket: this.tickets.get(active.id),
+      needsPassword: !this.hasCredentials(active)
+    }
+  }
+
+  private notify (): void {
+    this.snapshot = this.createSnapshot()
+    this.listeners.forEach(listener => listener())
+  }
+}
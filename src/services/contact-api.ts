@@ -1,6 +1,7 @@
 import { BaseAPI } from './base-api'
 import { SambaContact, CreateContactInput } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class ContactAPI extends BaseAPI {
   /**
@@ -12,7 +13,7 @@ export class ContactAPI extends BaseAPI {
       return this.parseContactList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to fetch contacts: ${(error as Error).message}`,
+        format(_('Failed to fetch contacts: $0'), (error as Error).message),
         'CONTACT_LIST_FAILED',
         error
       )
@@ -28,7 +29,7 @@ export class ContactAPI extends BaseAPI {
       return this.parseContactDetails(output, contactName)
     } catch (error) {
       throw new APIError(
-        `Failed to fetch contact details: ${(error as Error).message}`,
+        format(_('Failed to fetch contact details: $0'), (error as Error).message),
         'CONTACT_SHOW_FAILED',
         error
       )
@@ -83,7 +84,7 @@ export class ContactAPI extends BaseAPI {
       return await this.show(contactName)
     } catch (error) {
       throw new APIError(
-        `Failed to create contact: ${(error as Error).message}`,
+        format(_('Failed to create contact: $0'), (error as Error).message),
         'CONTACT_CREATE_FAILED',
         error
       )
@@ -98,7 +99,7 @@ export class ContactAPI extends BaseAPI {
       await this.executeCommand(['samba-tool', 'contact', 'delete', contactName])
     } catch (error) {
       throw new APIError(
-        `Failed to delete contact: ${(error as Error).message}`,
+        format(_('Failed to delete contact: $0'), (error as Error).message),
         'CONTACT_DELETE_FAILED',
         error
       )
@@ -119,7 +120,7 @@ export class ContactAPI extends BaseAPI {
       return await this.show(contactName)
     } catch (error) {
       throw new APIError(
-        `Failed to move contact: ${(error as Error).message}`,
+        format(_('Failed to move contact: $0'), (error as Error).message),
         'CONTACT_MOVE_FAILED',
         error
       )
@@ -7,6 +7,7 @@ import {
   SetAnyProtocolInput
 } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class DelegationAPI extends BaseAPI {
   /**
@@ -21,7 +22,7 @@ export class DelegationAPI extends BaseAPI {
       return this.parseDelegationInfo(output, accountName)
     } catch (error) {
       throw new APIError(
-        `Failed to show delegation: ${(error as Error).message}`,
+        format(_('Failed to show delegation: $0'), (error as Error).message),
         'DELEGATION_SHOW_FAILED',
         error
       )
@@ -39,7 +40,7 @@ export class DelegationAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to add service delegation: ${(error as Error).message}`,
+        format(_('Failed to add service delegation: $0'), (error as Error).message),
         'DELEGATION_ADD_SERVICE_FAILED',
         error
       )
@@ -57,7 +58,7 @@ export class DelegationAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to delete service delegation: ${(error as Error).message}`,
+        format(_('Failed to delete service delegation: $0'), (error as Error).message),
         'DELEGATION_DELETE_SERVICE_FAILED',
         error
       )
@@ -71,14 +72,11 @@ export class DelegationAPI extends BaseAPI {
     this.validateRequired(input as unknown as Record<string, unknown>, ['accountName'])
 
     try {
-      const command = ['samba-tool', 'delegation', 'for-any-service', input.accountName]
-      if (!input.enable) {
-        command.push('--off')
-      }
+      const command = ['samba-tool', 'delegation', 'for-any-service', input.accountName, input.enable ? 'on' : 'off']
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to set any-service delegation: ${(error as Error).message}`,
+        format(_('Failed to set any-service delegation: $0'), (error as Error).message),
         'DELEGATION_ANY_SERVICE_FAILED',
         error
       )
@@ -92,14 +90,11 @@ export class DelegationAPI extends BaseAPI {
     this.validateRequired(input as unknown as Record<string, unknown>, ['accountName'])
 
     try {
-      const command = ['samba-tool', 'delegation', 'for-any-protocol', input.accountName]
-      if (!input.enable) {
-        command.push('--off')
-      }
+      const command = ['samba-tool', 'delegation', 'for-any-protocol', input.accountName, input.enable ? 'on' : 'off']
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to set any-protocol delegation: ${(error as Error).message}`,
+        format(_('Failed to set any-protocol delegation: $0'), (error as Error).message),
         'DELEGATION_ANY_PROTOCOL_FAILED',
         error
       )
@@ -107,52 +102,46 @@ export class DelegationAPI extends BaseAPI {
   }
 
   /**
-   * Parse delegation information from output
+   * Parse `delegation show`, which prints "key: value" lines: the two
+   * userAccountControl flags as True/False and one line per service the
+   * account may delegate to
    */
   private static parseDelegationInfo (output: string, accountName: string): DelegationInfo {
     const lines = output.trim().split('\n').filter(line => line.trim() !== '')
     const allowedServices: string[] = []
-    const protocols: string[] = []
     let anyService = false
     let anyProtocol = false
-    let delegationType: 'Constrained' | 'Unconstrained' | 'ResourceBased' = 'Constrained'
+    let resourceBased = false
 
     lines.forEach(line => {
-      const trimmedLine = line.trim().toLowerCase()
-
-      // Check for delegation types
-      if (trimmedLine.includes('unconstrained')) {
-        delegationType = 'Unconstrained'
-      } else if (trimmedLine.includes('resource-based') || trimmedLine.includes('rbcd')) {
-        delegationType = 'ResourceBased'
-      }
-
-      // Check for any-service
-      if (trimmedLine.includes('any service') || trimmedLine.includes('for-any-service')) {
-        anyService = true
-      }
-
-      // Check for any-protocol
-      if (trimmedLine.includes('any protocol') || trimmedLine.includes('for-any-protocol')) {
-        anyProtocol = true
-      }
-
-      // Extract service principals
-      if (trimmedLine.includes('/') && (trimmedLine.includes('host') || trimmedLine.includes('cifs') || trimmedLine.includes('http'))) {
-        allowedServices.push(line.trim())
-      }
-
-      // Extract protocols
-      if (trimmedLine.includes('kerberos') || trimmedLine.includes('ntlm') || trimmedLine.includes('negotiate')) {
-        protocols.push(line.trim())
+      const separator = line.indexOf(':')
+      if (separator < 0) return
+
+      const key = line.slice(0, separator).trim().toLowerCase()
+      const value = line.slice(separator + 1).trim()
+
+      switch (key) {
+        case 'uf_trusted_for_delegation':
+          anyService = value.toLowerCase() === 'true'
+          break
+        case 'uf_trusted_to_authenticate_for_delegation':
+          anyProtocol = value.toLowerCase() === 'true'
+          break
+        case 'msds-allowedtodelegateto':
+          allowedServices.push(value)
+          break
+        case 'msds-allowedtoactonbehalfofotheridentity':
+          resourceBased = true
+          break
       }
     })
 
     return {
       accountName,
-      delegationType,
+      delegationType: anyService ? 'Unconstrained' : resourceBased ? 'ResourceBased' : 'Constrained',
       allowedServices,
-      protocols,
+      // Kerberos only unless anyProtocol; samba-tool prints no list
+      protocols: [],
       anyService,
       anyProtocol,
       rawOutput: lines
@@ -1,4 +1,4 @@
-import { BaseAPI } from './base-api'
+import { BaseAPI, type CancelOptions } from './base-api'
 import {
   DNSRecord,
   DNSServerInfo,
@@ -9,7 +9,8 @@ import {
   DeleteDNSZoneInput,
   DNSCleanupInput
 } from '../types/samba'
-import { APIError } from '../lib/errors'
+import { APIError, CancelledError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class DNSAPI extends BaseAPI {
   /**
@@ -21,14 +22,10 @@ export class DNSAPI extends BaseAPI {
     try {
       const command = ['samba-tool', 'dns', 'add', input.server, input.zone, input.name, input.type, input.data]
 
-      if (input.password) {
-        command.push(`--password=${input.password}`)
-      }
-
-      await this.executeCommand(command)
+      await this.executeCommand(command, this.withPassword(input.password))
     } catch (error) {
       throw new APIError(
-        `Failed to create DNS record: ${(error as Error).message}`,
+        format(_('Failed to create DNS record: $0'), (error as Error).message),
         'DNS_CREATE_RECORD_FAILED',
         error
       )
@@ -44,14 +41,10 @@ export class DNSAPI extends BaseAPI {
     try {
       const command = ['samba-tool', 'dns', 'delete', input.server, input.zone, input.name, input.type, input.data]
 
-      if (input.password) {
-        command.push(`--password=${input.password}`)
-      }
-
-      await this.executeCommand(command)
+      await this.executeCommand(command, this.withPassword(input.password))
     } catch (error) {
       throw new APIError(
-        `Failed to delete DNS record: ${(error as Error).message}`,
+        format(_('Failed to delete DNS record: $0'), (error as Error).message),
         'DNS_DELETE_RECORD_FAILED',
         error
       )
@@ -67,14 +60,10 @@ export class DNSAPI extends BaseAPI {
     try {
       const command = ['samba-tool', 'dns', 'zonecreate', input.server, input.zoneName]
 
-      if (input.password) {
-        command.push(`--password=${input.password}`)
-      }
-
-      await this.executeCommand(command)
+      await this.executeCommand(command, this.withPassword(input.password))
     } catch (error) {
       throw new APIError(
-        `Failed to create DNS zone: ${(error as Error).message}`,
+        format(_('Failed to create DNS zone: $0'), (error as Error).message),
         'DNS_CREATE_ZONE_FAILED',
         error
       )
@@ -90,14 +79,10 @@ export class DNSAPI extends BaseAPI {
     try {
       const command = ['samba-tool', 'dns', 'zonedelete', input.server, input.zoneName]
 
-      if (input.password) {
-        command.push(`--password=${input.password}`)
-      }
-
-      await this.executeCommand(command)
+      await this.executeCommand(command, this.withPassword(input.password))
     } catch (error) {
       throw new APIError(
-        `Failed to delete DNS zone: ${(error as Error).message}`,
+        format(_('Failed to delete DNS zone: $0'), (error as Error).message),
         'DNS_DELETE_ZONE_FAILED',
         error
       )
@@ -113,15 +98,11 @@ export class DNSAPI extends BaseAPI {
     try {
       const command = ['samba-tool', 'dns', 'zonelist', server]
 
-      if (password) {
-        command.push(`--password=${password}`)
-      }
-
-      const output = await this.executeCommand(command)
+      const output = await this.executeCommand(command, this.withPassword(password))
       return this.parseZoneList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list DNS zones: ${(error as Error).message}`,
+        format(_('Failed to list DNS zones: $0'), (error as Error).message),
         'DNS_LIST_ZONES_FAILED',
         error
       )
@@ -137,15 +118,11 @@ export class DNSAPI extends BaseAPI {
     try {
       const command = ['samba-tool', 'dns', 'zoneinfo', server, zoneName]
 
-      if (password) {
-        command.push(`--password=${password}`)
-      }
-
-      const output = await this.executeCommand(command)
+      const output = await this.executeCommand(command, this.withPassword(password))
       return this.parseZoneInfo(output, server, zoneName)
     } catch (error) {
       throw new APIError(
-        `Failed to get DNS zone info: ${(error as Error).message}`,
+        format(_('Failed to get DNS zone info: $0'), (error as Error).message),
         'DNS_ZONE_INFO_FAILED',
         error
       )
@@ -161,15 +138,11 @@ export class DNSAPI extends BaseAPI {
     try {
       const command = ['samba-tool', 'dns', 'serverinfo', server]
 
-      if (password) {
-        command.push(`--password=${password}`)
-      }
-
-      const output = await this.executeCommand(command)
+      const output = await this.executeCommand(command, this.withPassword(password))
       return this.parseServerInfo(output, server)
     } catch (error) {
       throw new APIError(
-        `Failed to get DNS server info: ${(error as Error).message}`,
+        format(_('Failed to get DNS server info: $0'), (error as Error).message),
         'DNS_SERVER_INFO_FAILED',
         error
       )
@@ -179,21 +152,20 @@ export class DNSAPI extends BaseAPI {
   /**
    * Cleanup DNS records
    */
-  static async cleanup (input: DNSCleanupInput): Promise<string[]> {
+  static async cleanup (input: DNSCleanupInput, options: CancelOptions = {}): Promise<string[]> {
     this.validateRequired(input as unknown as Record<string, unknown>, ['server'])
 
     try {
       const command = ['samba-tool', 'dns', 'cleanup', input.server]
 
-      if (input.password) {
-        command.push(`--password=${input.password}`)
-      }
-
-      const output = await this.executeCommand(command)
+      const output = await this.executeCommand(command, this.withPassword(input.password, options))
       return output.split('\n').filter(line => line.trim() !== '')
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error
+      }
       throw new APIError(
-        `Failed to cleanup DNS: ${(error as Error).message}`,
+        format(_('Failed to cleanup DNS: $0'), (error as Error).message),
         'DNS_CLEANUP_FAILED',
         error
       )
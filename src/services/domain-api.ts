@@ -1,4 +1,4 @@
-import { BaseAPI } from './base-api'
+import { BaseAPI, type StreamOptions } from './base-api'
 import {
   DomainInfo,
   TrustRelationship,
@@ -10,9 +10,20 @@ import {
   BackupRenameInput,
   BackupRestoreInput
 } from '../types/samba'
-import { APIError } from '../lib/errors'
+import { APIError, CancelledError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class DomainAPI extends BaseAPI {
+  /**
+   * What the backup operations need from the installed Samba
+   */
+  static readonly requirements = {
+    backupOnline: { command: 'domain backup online', minVersion: '4.9.0' },
+    backupOffline: { command: 'domain backup offline', minVersion: '4.10.0' },
+    backupRename: { command: 'domain backup rename', minVersion: '4.9.0' },
+    backupRestore: { command: 'domain backup restore', minVersion: '4.9.0' }
+  }
+
   /**
    * Get domain information
    */
@@ -27,7 +38,7 @@ export class DomainAPI extends BaseAPI {
       return this.parseDomainInfo(output)
     } catch (error) {
       throw new APIError(
-        `Failed to get domain info: ${(error as Error).message}`,
+        format(_('Failed to get domain info: $0'), (error as Error).message),
         'DOMAIN_INFO_FAILED',
         error
       )
@@ -37,7 +48,7 @@ export class DomainAPI extends BaseAPI {
   /**
    * Join a domain
    */
-  static async join (joinData: DomainJoinInput): Promise<string> {
+  static async join (joinData: DomainJoinInput, options: StreamOptions = {}): Promise<string> {
     try {
       const command = [
         'samba-tool', 'domain', 'join',
@@ -49,10 +60,6 @@ export class DomainAPI extends BaseAPI {
         command.push('-U', joinData.username)
       }
 
-      if (joinData.password) {
-        command.push('--password', joinData.password)
-      }
-
       if (joinData.organizationalUnit) {
         command.push('--machinepass', joinData.organizationalUnit)
       }
@@ -61,10 +68,13 @@ export class DomainAPI extends BaseAPI {
         command.push('--server', joinData.computerName)
       }
 
-      return await this.executeCommand(command)
+      return await this.executeCommand(command, this.withPassword(joinData.password, options))
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error
+      }
       throw new APIError(
-        `Failed to join domain: ${(error as Error).message}`,
+        format(_('Failed to join domain: $0'), (error as Error).message),
         'DOMAIN_JOIN_FAILED',
         error
       )
@@ -82,14 +92,10 @@ export class DomainAPI extends BaseAPI {
         command.push('-U', username)
       }
 
-      if (password) {
-        command.push('--password', password)
-      }
-
-      return await this.executeCommand(command)
+      return await this.executeCommand(command, this.withPassword(password))
     } catch (error) {
       throw new APIError(
-        `Failed to demote domain controller: ${(error as Error).message}`,
+        format(_('Failed to demote domain controller: $0'), (error as Error).message),
         'DOMAIN_DEMOTE_FAILED',
         error
       )
@@ -97,25 +103,73 @@ export class DomainAPI extends BaseAPI {
   }
 
   /**
-   * Promote to domain controller (dcpromo equivalent)
+   * Promote to domain controller (dcpromo equivalent). Provisioning has no
+   * way to read --adminpass other than argv, so the domain is provisioned
+   * with a generated password that is then replaced over stdin.
+   *
+   * A fully qualified domain name is provisioned as the realm, with its
+   * first label as the NetBIOS domain name.
+   *
+   * Provisioning cannot be cancelled: stopping samba-tool halfway leaves a
+   * partial smb.conf and sam.ldb that a new provision refuses to overwrite,
+   * so no signal is taken.
    */
-  static async promote (domain: string, adminPassword: string): Promise<string> {
+  static async promote (
+    domain: string,
+    adminPassword: string,
+    dnsForwarder?: string,
+    options: Pick<StreamOptions, 'onOutput'> = {}
+  ): Promise<string> {
+    let output: string
     try {
-      const command = [
-        'samba-tool', 'domain', 'provision',
-        '--domain', domain,
-        '--adminpass', adminPassword,
-        '--server-role=dc'
-      ]
+      const command = ['samba-tool', 'domain', 'provision']
+
+      if (domain.includes('.')) {
+        command.push(
+          `--realm=${domain.toUpperCase()}`,
+          `--domain=${domain.split('.')[0].toUpperCase()}`
+        )
+      } else {
+        command.push('--domain', domain)
+      }
 
-      return await this.executeCommand(command)
+      command.push('--server-role=dc', '--dns-backend=SAMBA_INTERNAL')
+
+      if (dnsForwarder) {
+        command.push(`--option=dns forwarder = ${dnsForwarder}`)
+      }
+
+      output = await this.executeCommand(command, options)
     } catch (error) {
       throw new APIError(
-        `Failed to promote to domain controller: ${(error as Error).message}`,
+        format(_('Failed to promote to domain controller: $0'), (error as Error).message),
         'DOMAIN_PROMOTE_FAILED',
         error
       )
     }
+
+    // The domain now exists with the random password provision generated,
+    // which is redacted from the output. Not cancellable: stopping here
+    // would leave nobody able to log on.
+    try {
+      // Not part of the provision output; reported so progress can show it
+      options.onOutput?.('Setting the Administrator password')
+      await this.executeCommand(
+        ['samba-tool', 'user', 'setpassword', 'Administrator'],
+        { input: this.passwordPrompt(adminPassword) }
+      )
+    } catch (error) {
+      throw new APIError(
+        format(
+          _('The domain was provisioned, but the Administrator password was not set: $0. Set it as root on this server with "samba-tool user setpassword Administrator" before logging on.'),
+          (error as Error).message
+        ),
+        'DOMAIN_ADMIN_PASSWORD_NOT_SET',
+        error
+      )
+    }
+
+    return output
   }
 
   /**
@@ -131,7 +185,7 @@ export class DomainAPI extends BaseAPI {
       return await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to perform classic upgrade: ${(error as Error).message}`,
+        format(_('Failed to perform classic upgrade: $0'), (error as Error).message),
         'DOMAIN_CLASSIC_UPGRADE_FAILED',
         error
       )
@@ -143,7 +197,9 @@ export class DomainAPI extends BaseAPI {
   /**
    * Create offline backup
    */
-  static async backupOffline (backupData: BackupOfflineInput): Promise<BackupInfo> {
+  static async backupOffline (backupData: BackupOfflineInput, options: StreamOptions = {}): Promise<BackupInfo> {
+    await this.requireCapability(this.requirements.backupOffline)
+
     try {
       const command = [
         'samba-tool', 'domain', 'backup', 'offline',
@@ -153,11 +209,14 @@ export class DomainAPI extends BaseAPI {
       // Compress option not available in standard BackupOfflineInput
       // Will need to extend the interface if compression is needed
 
-      const output = await this.executeCommand(command)
+      const output = await this.executeCommand(command, options)
       return this.parseBackupInfo(output, 'offline')
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error
+      }
       throw new APIError(
-        `Failed to create offline backup: ${(error as Error).message}`,
+        format(_('Failed to create offline backup: $0'), (error as Error).message),
         'DOMAIN_BACKUP_OFFLINE_FAILED',
         error
       )
@@ -167,7 +226,9 @@ export class DomainAPI extends BaseAPI {
   /**
    * Create online backup
    */
-  static async backupOnline (backupData: BackupOnlineInput): Promise<BackupInfo> {
+  static async backupOnline (backupData: BackupOnlineInput, options: StreamOptions = {}): Promise<BackupInfo> {
+    await this.requireCapability(this.requirements.backupOnline)
+
     try {
       const command = [
         'samba-tool', 'domain', 'backup', 'online',
@@ -178,11 +239,14 @@ export class DomainAPI extends BaseAPI {
       // Username and password not in BackupOnlineInput interface
       // Using server property only as per interface definition
 
-      const output = await this.executeCommand(command.filter(arg => arg !== undefined))
+      const output = await this.executeCommand(command.filter(arg => arg !== undefined), options)
       return this.parseBackupInfo(output, 'online')
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error
+      }
       throw new APIError(
-        `Failed to create online backup: ${(error as Error).message}`,
+        format(_('Failed to create online backup: $0'), (error as Error).message),
         'DOMAIN_BACKUP_ONLINE_FAILED',
         error
       )
@@ -193,6 +257,8 @@ export class DomainAPI extends BaseAPI {
    * Rename backup
    */
   static async backupRename (renameData: BackupRenameInput): Promise<string> {
+    await this.requireCapability(this.requirements.backupRename)
+
     try {
       const command = [
         'samba-tool', 'domain', 'backup', 'rename',
@@ -203,7 +269,7 @@ export class DomainAPI extends BaseAPI {
       return await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to rename backup: ${(error as Error).message}`,
+        format(_('Failed to rename backup: $0'), (error as Error).message),
         'DOMAIN_BACKUP_RENAME_FAILED',
         error
       )
@@ -214,6 +280,8 @@ export class DomainAPI extends BaseAPI {
    * Restore from backup
    */
   static async backupRestore (restoreData: BackupRestoreInput): Promise<string> {
+    await this.requireCapability(this.requirements.backupRestore)
+
     try {
       const command = [
         'samba-tool', 'domain', 'backup', 'restore',
@@ -231,7 +299,7 @@ export class DomainAPI extends BaseAPI {
       return await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to restore backup: ${(error as Error).message}`,
+        format(_('Failed to restore backup: $0'), (error as Error).message),
         'DOMAIN_BACKUP_RESTORE_FAILED',
         error
       )
@@ -249,7 +317,7 @@ export class DomainAPI extends BaseAPI {
       return this.parseTrustList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list trusts: ${(error as Error).message}`,
+        format(_('Failed to list trusts: $0'), (error as Error).message),
         'DOMAIN_TRUST_LIST_FAILED',
         error
       )
@@ -268,15 +336,11 @@ export class DomainAPI extends BaseAPI {
         '--direction', trustData.trustDirection.toLowerCase()
       ]
 
-      if (trustData.trustPassword) {
-        command.push('--password', trustData.trustPassword)
-      }
-
-      const output = await this.executeCommand(command)
+      const output = await this.executeCommand(command, this.withPassword(trustData.trustPassword))
       return this.parseTrustInfo(output, trustData.trustDomain)
     } catch (error) {
       throw new APIError(
-        `Failed to create trust: ${(error as Error).message}`,
+        format(_('Failed to create trust: $0'), (error as Error).message),
         'DOMAIN_TRUST_CREATE_FAILED',
         error
       )
@@ -294,14 +358,10 @@ export class DomainAPI extends BaseAPI {
         command.push('-U', username)
       }
 
-      if (password) {
-        command.push('--password', password)
-      }
-
-      await this.executeCommand(command)
+      await this.executeCommand(command, this.withPassword(password))
     } catch (error) {
       throw new APIError(
-        `Failed to delete trust: ${(error as Error).message}`,
+        format(_('Failed to delete trust: $0'), (error as Error).message),
         'DOMAIN_TRUST_DELETE_FAILED',
         error
       )
@@ -317,7 +377,7 @@ export class DomainAPI extends BaseAPI {
       return this.parseTrustInfo(output, domain)
     } catch (error) {
       throw new APIError(
-        `Failed to show trust details: ${(error as Error).message}`,
+        format(_('Failed to show trust details: $0'), (error as Error).message),
         'DOMAIN_TRUST_SHOW_FAILED',
         error
       )
@@ -333,7 +393,7 @@ export class DomainAPI extends BaseAPI {
       return this.parseTrustValidation(output)
     } catch (error) {
       throw new APIError(
-        `Failed to validate trust: ${(error as Error).message}`,
+        format(_('Failed to validate trust: $0'), (error as Error).message),
         'DOMAIN_TRUST_VALIDATE_FAILED',
         error
       )
@@ -349,7 +409,7 @@ export class DomainAPI extends BaseAPI {
       return output.trim().split('\n').filter(line => line.trim() !== '')
     } catch (error) {
       throw new APIError(
-        `Failed to list trust namespaces: ${(error as Error).message}`,
+        format(_('Failed to list trust namespaces: $0'), (error as Error).message),
         'DOMAIN_TRUST_NAMESPACES_FAILED',
         error
       )
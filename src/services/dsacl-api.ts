@@ -1,6 +1,7 @@
 import { BaseAPI } from './base-api'
 import { DSACLInfo, DSACLEntry, SetDSACLInput } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class DSACLApi extends BaseAPI {
   /**
@@ -18,7 +19,7 @@ export class DSACLApi extends BaseAPI {
       return this.parseDSACLOutput(output, objectDN)
     } catch (error) {
       throw new APIError(
-        `Failed to get DSACL: ${(error as Error).message}`,
+        format(_('Failed to get DSACL: $0'), (error as Error).message),
         'DSACL_GET_FAILED',
         error
       )
@@ -54,7 +55,7 @@ export class DSACLApi extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to set DSACL: ${(error as Error).message}`,
+        format(_('Failed to set DSACL: $0'), (error as Error).message),
         'DSACL_SET_FAILED',
         error
       )
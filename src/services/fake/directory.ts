@@ -0,0 +1,465 @@
+// In-memory directory backing the sandbox transport
+
+import { parentDN, rdnValue } from '@/lib/dn'
+
+export interface FakeEntry {
+  dn: string;
+  attributes: Record<string, string[]>;
+}
+
+export interface FakeDNSRecord {
+  name: string;
+  type: string;
+  data: string;
+  ttl: number;
+}
+
+export interface FakeDirectoryOptions {
+  realm?: string;
+  netbiosName?: string;
+  hostname?: string;
+}
+
+// 100ns intervals between 1601-01-01 and 1970-01-01
+const NT_EPOCH_OFFSET = 116444736000000000
+export const NT_TIME_NEVER = '9223372036854775807'
+
+export const UF_ACCOUNTDISABLE = 0x0002
+export const UF_NORMAL_ACCOUNT = 0x0200
+export const UF_WORKSTATION_TRUST_ACCOUNT = 0x1000
+export const UF_SERVER_TRUST_ACCOUNT = 0x2000
+export const UF_DONT_EXPIRE_PASSWD = 0x10000
+export const UF_TRUSTED_FOR_DELEGATION = 0x80000
+export const UF_TRUSTED_TO_AUTHENTICATE_FOR_DELEGATION = 0x1000000
+
+export function toGeneralizedTime (date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').replace(/\.\d+Z$/, '.0Z')
+}
+
+export function toNTTime (date: Date): string {
+  return String(date.getTime() * 10000 + NT_EPOCH_OFFSET)
+}
+
+/**
+ * A tiny LDAP-like store: entries keyed by DN with multi-valued attributes,
+ * plus DNS zones which live outside the directory tree in this model.
+ */
+export class FakeDirectory {
+  readonly realm: string
+  readonly netbiosName: string
+  readonly hostname: string
+  readonly baseDN: string
+  readonly domainSid = 'S-1-5-21-2212615479-2695158682-2101375467'
+
+  private readonly entries = new Map<string, FakeEntry>()
+  private readonly zones = new Map<string, FakeDNSRecord[]>()
+  private nextRid = 1103
+  private usn = 4000
+
+  constructor (options: FakeDirectoryOptions = {}) {
+    this.realm = (options.realm || 'samdom.example.com').toLowerCase()
+    this.netbiosName = options.netbiosName || this.realm.split('.')[0].toUpperCase()
+    this.hostname = options.hostname || 'dc1'
+    this.baseDN = this.realm.split('.').map(part => `DC=${part}`).join(',')
+  }
+
+  // Entry access
+
+  get (dn: string): FakeEntry | undefined {
+    return this.entries.get(dn.toLowerCase())
+  }
+
+  has (dn: string): boolean {
+    return this.entries.has(dn.toLowerCase())
+  }
+
+  all (): FakeEntry[] {
+    return Array.from(this.entries.values())
+  }
+
+  add (dn: string, attributes: Record<string, string[]>): FakeEntry {
+    const now = toGeneralizedTime(new Date())
+    const usn = String(++this.usn)
+    const entry: FakeEntry = {
+      dn,
+      attributes: {
+        whenCreated: [now],
+        whenChanged: [now],
+        uSNCreated: [usn],
+        uSNChanged: [usn],
+        name: [rdnValue(dn)],
+        ...attributes
+      }
+    }
+
+    this.entries.set(dn.toLowerCase(), entry)
+    return entry
+  }
+
+  remove (dn: string): void {
+    this.entries.delete(dn.toLowerCase())
+
+    // Drop dangling references from group memberships
+    this.entries.forEach(entry => {
+      for (const attr of ['member', 'memberOf']) {
+        const values = entry.attributes[attr]
+        if (values) {
+          entry.attributes[attr] = values.filter(value => value.toLowerCase() !== dn.toLowerCase())
+        }
+      }
+    })
+  }
+
+  /**
+   * Rename an entry (and its whole subtree), rewriting member/memberOf links
+   */
+  rename (oldDN: string, newDN: string): void {
+    const oldSuffix = oldDN.toLowerCase()
+    const rewrite = (dn: string): string => {
+      const lower = dn.toLowerCase()
+      if (lower === oldSuffix) return newDN
+      if (lower.endsWith(`,${oldSuffix}`)) return dn.slice(0, dn.length - oldDN.length) + newDN
+      return dn
+    }
+
+    const moved = this.all().filter(entry => rewrite(entry.dn) !== entry.dn)
+    moved.forEach(entry => {
+      this.entries.delete(entry.dn.toLowerCase())
+      entry.dn = rewrite(entry.dn)
+      entry.attributes.name = [rdnValue(entry.dn)]
+      this.entries.set(entry.dn.toLowerCase(), entry)
+    })
+
+    this.entries.forEach(entry => {
+      for (const attr of ['member', 'memberOf']) {
+        const values = entry.attributes[attr]
+        if (values) {
+          entry.attributes[attr] = values.map(rewrite)
+        }
+      }
+    })
+  }
+
+  setAttribute (dn: string, attribute: string, values: string[]): void {
+    const entry = this.get(dn)
+    if (!entry) return
+
+    if (values.length === 0) {
+      delete entry.attributes[attribute]
+    } else {
+      entry.attributes[attribute] = values
+    }
+    entry.attributes.whenChanged = [toGeneralizedTime(new Date())]
+    entry.attributes.uSNChanged = [String(++this.usn)]
+  }
+
+  getAttribute (entry: FakeEntry, attribute: string): string | undefined {
+    const key = Object.keys(entry.attributes).find(name => name.toLowerCase() === attribute.toLowerCase())
+    return key ? entry.attributes[key][0] : undefined
+  }
+
+  children (dn: string): FakeEntry[] {
+    const lower = dn.toLowerCase()
+    return this.all().filter(entry => parentDN(entry.dn).toLowerCase() === lower)
+  }
+
+  hasObjectClass (entry: FakeEntry, objectClass: string): boolean {
+    return (entry.attributes.objectClass || []).some(value => value.toLowerCase() === objectClass.toLowerCase())
+  }
+
+  /**
+   * Resolve an account by sAMAccountName (computers may omit the trailing $)
+   */
+  findAccount (name: string, objectClass: 'user' | 'group' | 'computer'): FakeEntry | undefined {
+    const candidates = objectClass === 'computer' && !name.endsWith('$') ? [name, `${name}$`] : [name]
+
+    return this.all().find(entry => {
+      if (!this.hasObjectClass(entry, objectClass)) return false
+      // computer objects are also users; keep user lookups to plain accounts
+      if (objectClass === 'user' && this.hasObjectClass(entry, 'computer')) return false
+      const account = this.getAttribute(entry, 'sAMAccountName') || ''
+      return candidates.some(candidate => candidate.toLowerCase() === account.toLowerCase())
+    })
+  }
+
+  /**
+   * Expand a DN relative to the domain (e.g. "OU=Sales") to a full DN
+   */
+  toFullDN (dn: string): string {
+    if (dn.toLowerCase().endsWith(this.baseDN.toLowerCase())) {
+      return dn
+    }
+    return `${dn},${this.baseDN}`
+  }
+
+  toRelativeDN (dn: string): string {
+    const suffix = `,${this.baseDN}`
+    return dn.toLowerCase().endsWith(suffix.toLowerCase()) ? dn.slice(0, dn.length - suffix.length) : dn
+  }
+
+  allocateSid (): string {
+    return `${this.domainSid}-${this.nextRid++}`
+  }
+
+  // Group membership
+
+  addMember (groupDN: string, memberDN: string): void {
+    const group = this.get(groupDN)
+    const member = this.get(memberDN)
+    if (!group || !member) return
+
+    const members = group.attributes.member || []
+    if (!members.some(dn => dn.toLowerCase() === member.dn.toLowerCase())) {
+      this.setAttribute(group.dn, 'member', [...members, member.dn])
+      this.setAttribute(member.dn, 'memberOf', [...(member.attributes.memberOf || []), group.dn])
+    }
+  }
+
+  removeMember (groupDN: string, memberDN: string): void {
+    const group = this.get(groupDN)
+    const member = this.get(memberDN)
+    if (!group || !member) return
+
+    this.setAttribute(group.dn, 'member',
+      (group.attributes.member || []).filter(dn => dn.toLowerCase() !== member.dn.toLowerCase()))
+    this.setAttribute(member.dn, 'memberOf',
+      (member.attributes.memberOf || []).filter(dn => dn.toLowerCase() !== group.dn.toLowerCase()))
+  }
+
+  // DNS
+
+  listZones (): string[] {
+    return Array.from(this.zones.keys())
+  }
+
+  getZone (zone: string): FakeDNSRecord[] | undefined {
+    return this.zones.get(zone.toLowerCase())
+  }
+
+  createZone (zone: string): void {
+    this.zones.set(zone.toLowerCase(), [
+      { name: '@', type: 'SOA', data: `serial=1, refresh=900, retry=600, expire=86400, minttl=3600, ns=${this.hostname}.${this.realm}., email=hostmaster.${this.realm}.`, ttl: 3600 },
+      { name: '@', type: 'NS', data: `${this.hostname}.${this.realm}.`, ttl: 3600 }
+    ])
+  }
+
+  deleteZone (zone: string): void {
+    this.zones.delete(zone.toLowerCase())
+  }
+
+  /**
+   * Build a directory populated with a small but realistic domain
+   */
+  static createSample (options: FakeDirectoryOptions = {}): FakeDirectory {
+    const dir = new FakeDirectory(options)
+    const base = dir.baseDN
+    const realm = dir.realm
+
+    dir.add(base, {
+      objectClass: ['top', 'domain', 'domainDNS'],
+      dc: [realm.split('.')[0]],
+      objectSid: [dir.domainSid],
+      minPwdLength: ['7'],
+      pwdHistoryLength: ['24'],
+      maxPwdAge: ['-37108517437440'],
+      minPwdAge: ['-864000000000'],
+      pwdProperties: ['1'],
+      lockoutThreshold: ['0'],
+      lockoutDuration: ['-18000000000'],
+      lockOutObservationWindow: ['-18000000000']
+    })
+
+    const container = (dn: string) => dir.add(dn, { objectClass: ['top', 'container'], cn: [rdnValue(dn)] })
+    const ou = (dn: string, description?: string) => dir.add(dn, {
+      objectClass: ['top', 'organizationalUnit'],
+      ou: [rdnValue(dn)],
+      ...(description ? { description: [description] } : {})
+    })
+
+    container(`CN=Users,${base}`)
+    container(`CN=Computers,${base}`)
+    container(`CN=System,${base}`)
+    container(`CN=Policies,CN=System,${base}`)
+    dir.add(`CN=Password Settings Container,CN=System,${base}`, {
+      objectClass: ['top', 'msDS-PasswordSettingsContainer'],
+      cn: ['Password Settings Container']
+    })
+    ou(`OU=Domain Controllers,${base}`, 'Default container for domain controllers')
+    ou(`OU=Staff,${base}`, 'All staff accounts')
+    ou(`OU=Sales,OU=Staff,${base}`)
+    ou(`OU=Engineering,OU=Staff,${base}`)
+    ou(`OU=Workstations,${base}`)
+    ou(`OU=Leavers,${base}`, 'Accounts of people who have left')
+
+    const group = (name: string, parent: string, description: string, groupType = '-2147483646') => dir.add(`CN=${name},${parent}`, {
+      objectClass: ['top', 'group'],
+      cn: [name],
+      sAMAccountName: [name],
+      description: [description],
+      groupType: [groupType],
+      objectSid: [dir.allocateSid()]
+    })
+
+    const users = `CN=Users,${base}`
+    group('Domain Admins', users, 'Designated administrators of the domain')
+    group('Domain Users', users, 'All domain users')
+    group('Domain Computers', users, 'All workstations and servers joined to the domain')
+    group('Sales Team', `OU=Sales,OU=Staff,${base}`, 'Sales department')
+    group('Engineers', `OU=Engineering,OU=Staff,${base}`, 'Engineering department')
+    group('Newsletter', `OU=Staff,${base}`, 'Company newsletter recipients', '2')
+
+    const lastLogon = toNTTime(new Date(Date.now() - 2 * 24 * 60 * 60 * 1000))
+    const user = (username: string, parent: string, attrs: Record<string, string[]>, groups: string[], uac = UF_NORMAL_ACCOUNT) => {
+      const entry = dir.add(`CN=${username},${parent}`, {
+        objectClass: ['top', 'person', 'organizationalPerson', 'user'],
+        cn: [username],
+        sAMAccountName: [username],
+        userPrincipalName: [`${username}@${realm}`],
+        userAccountControl: [String(uac)],
+        objectSid: [dir.allocateSid()],
+        primaryGroupID: ['513'],
+        accountExpires: [NT_TIME_NEVER],
+        pwdLastSet: [toNTTime(new Date(Date.now() - 20 * 24 * 60 * 60 * 1000))],
+        lastLogon: [lastLogon],
+        lastLogonTimestamp: [lastLogon],
+        badPwdCount: ['0'],
+        badPasswordTime: ['0'],
+        logonCount: ['12'],
+        ...attrs
+      })
+      groups.forEach(name => {
+        const groupEntry = dir.findAccount(name, 'group')
+        if (groupEntry) dir.addMember(groupEntry.dn, entry.dn)
+      })
+    }
+
+    // Stricter passwords and a lockout for administrators
+    dir.add(`CN=Admins,CN=Password Settings Container,CN=System,${base}`, {
+      objectClass: ['top', 'msDS-PasswordSettings'],
+      cn: ['Admins'],
+      'msDS-PasswordSettingsPrecedence': ['10'],
+      'msDS-PasswordComplexityEnabled': ['TRUE'],
+      'msDS-PasswordReversibleEncryptionEnabled': ['FALSE'],
+      'msDS-PasswordHistoryLength': ['24'],
+      'msDS-MinimumPasswordLength': ['14'],
+      'msDS-MinimumPasswordAge': ['-864000000000'],
+      'msDS-MaximumPasswordAge': ['-25920000000000'],
+      'msDS-LockoutThreshold': ['5'],
+      'msDS-LockoutDuration': ['-18000000000'],
+      'msDS-LockoutObservationWindow': ['-18000000000'],
+      'msDS-PSOAppliesTo': [`CN=Domain Admins,${users}`]
+    })
+
+    const daysAgo = (days: number) => [toNTTime(new Date(Date.now() - days * 24 * 60 * 60 * 1000))]
+
+    user('Administrator', users, {
+      description: ['Built-in account for administering the computer/domain'],
+      isCriticalSystemObject: ['TRUE']
+    }, ['Domain Admins'], UF_NORMAL_ACCOUNT | UF_DONT_EXPIRE_PASSWD)
+    user('Guest', users, {
+      description: ['Built-in account for guest access to the computer/domain'],
+      isCriticalSystemObject: ['TRUE']
+    }, [], UF_NORMAL_ACCOUNT | UF_ACCOUNTDISABLE | UF_DONT_EXPIRE_PASSWD)
+    user('alice', `OU=Sales,OU=Staff,${base}`, {
+      givenName: ['Alice'],
+      sn: ['Smith'],
+      displayName: ['Alice Smith'],
+      mail: ['alice@' + realm],
+      description: ['Account manager'],
+      title: ['Account Manager'],
+      department: ['Sales'],
+      // Due for a change within the week under the domain's 42 days
+      pwdLastSet: daysAgo(38)
+    }, ['Sales Team', 'Newsletter'])
+    user('bob', `OU=Engineering,OU=Staff,${base}`, {
+      givenName: ['Bob'],
+      sn: ['Jones'],
+      displayName: ['Bob Jones'],
+      mail: ['bob@' + realm],
+      title: ['Developer'],
+      department: ['Engineering'],
+      // Locked out after five bad passwords ten minutes ago
+      lockoutTime: [toNTTime(new Date(Date.now() - 10 * 60 * 1000))],
+      badPwdCount: ['5'],
+      badPasswordTime: [toNTTime(new Date(Date.now() - 10 * 60 * 1000))],
+      // Runs the build server's web front end
+      servicePrincipalName: [`HTTP/build.${realm}`],
+      'msDS-AllowedToDelegateTo': [`cifs/files.${realm}`]
+    }, ['Engineers'])
+    user('carol', `OU=Engineering,OU=Staff,${base}`, {
+      givenName: ['Carol'],
+      sn: ['White'],
+      displayName: ['Carol White'],
+      // Left half a year ago
+      whenCreated: [toGeneralizedTime(new Date(Date.now() - 700 * 24 * 60 * 60 * 1000))],
+      lastLogon: daysAgo(200),
+      lastLogonTimestamp: daysAgo(200),
+      pwdLastSet: daysAgo(250)
+    }, ['Engineers', 'Newsletter'], UF_NORMAL_ACCOUNT | UF_ACCOUNTDISABLE)
+
+    const computer = (name: string, parent: string, attrs: Record<string, string[]>, uac = UF_WORKSTATION_TRUST_ACCOUNT) => {
+      const entry = dir.add(`CN=${name},${parent}`, {
+        objectClass: ['top', 'person', 'organizationalPerson', 'user', 'computer'],
+        cn: [name],
+        sAMAccountName: [`${name}$`],
+        dNSHostName: [`${name.toLowerCase()}.${realm}`],
+        userAccountControl: [String(uac)],
+        objectSid: [dir.allocateSid()],
+        primaryGroupID: [uac & UF_SERVER_TRUST_ACCOUNT ? '516' : '515'],
+        lastLogon: [lastLogon],
+        lastLogonTimestamp: [lastLogon],
+        pwdLastSet: [toNTTime(new Date(Date.now() - 10 * 24 * 60 * 60 * 1000))],
+        ...attrs
+      })
+      if (!(uac & UF_SERVER_TRUST_ACCOUNT)) {
+        const domainComputers = dir.findAccount('Domain Computers', 'group')
+        if (domainComputers) dir.addMember(domainComputers.dn, entry.dn)
+      }
+    }
+
+    computer(dir.hostname.toUpperCase(), `OU=Domain Controllers,${base}`, {
+      operatingSystem: ['Samba'],
+      operatingSystemVersion: ['4.19.5'],
+      isCriticalSystemObject: ['TRUE']
+    }, UF_SERVER_TRUST_ACCOUNT)
+    computer('WS01', `OU=Workstations,${base}`, {
+      operatingSystem: ['Windows 11 Pro'],
+      operatingSystemVersion: ['10.0 (22631)']
+    })
+    computer('WS02', `CN=Computers,${base}`, {
+      operatingSystem: ['Windows 10 Pro'],
+      operatingSystemVersion: ['10.0 (19045)'],
+      // Not seen since it was replaced
+      whenCreated: [toGeneralizedTime(new Date(Date.now() - 900 * 24 * 60 * 60 * 1000))],
+      lastLogon: daysAgo(120),
+      lastLogonTimestamp: daysAgo(120),
+      pwdLastSet: daysAgo(125)
+    })
+
+    const policies = `CN=Policies,CN=System,${base}`
+    const gpo = (guid: string, displayName: string) => dir.add(`CN=${guid},${policies}`, {
+      objectClass: ['top', 'container', 'groupPolicyContainer'],
+      cn: [guid],
+      displayName: [displayName],
+      gPCFileSysPath: [`\\\\${realm}\\sysvol\\${realm}\\Policies\\${guid}`],
+      versionNumber: ['0'],
+      flags: ['0']
+    })
+
+    gpo('{31B2F340-016D-11D2-945F-00C04FB984F9}', 'Default Domain Policy')
+    gpo('{6AC1786C-016F-11D2-945F-00C04FB984F9}', 'Default Domain Controllers Policy')
+    dir.setAttribute(base, 'gPLink', [`[LDAP://CN={31B2F340-016D-11D2-945F-00C04FB984F9},${policies};0]`])
+    dir.setAttribute(`OU=Domain Controllers,${base}`, 'gPLink', [`[LDAP://CN={6AC1786C-016F-11D2-945F-00C04FB984F9},${policies};0]`])
+
+    dir.createZone(realm)
+    dir.getZone(realm)?.push(
+      { name: '@', type: 'A', data: '10.0.0.10', ttl: 900 },
+      { name: dir.hostname, type: 'A', data: '10.0.0.10', ttl: 900 },
+      { name: 'ws01', type: 'A', data: '10.0.0.21', ttl: 1200 },
+      { name: 'www', type: 'CNAME', data: `${dir.hostname}.${realm}.`, ttl: 3600 }
+    )
+    dir.createZone(`_msdcs.${realm}`)
+
+    return dir
+  }
+}
@@ -0,0 +1,4 @@
+export { FakeDirectory, toGeneralizedTime, toNTTime } from './directory'
+export type { FakeEntry, FakeDNSRecord, FakeDirectoryOptions } from './directory'
+export { FakeSambaTransport, FakeProcessError } from './transport'
+export type { FakeSambaTransportOptions } from './transport'
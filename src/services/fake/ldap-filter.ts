@@ -0,0 +1,157 @@
+// Minimal RFC 4515 filter evaluation for the sandbox directory
+
+import type { FakeEntry } from './directory'
+
+type FilterNode =
+  | { type: 'and' | 'or'; children: FilterNode[] }
+  | { type: 'not'; child: FilterNode }
+  | { type: 'present'; attribute: string }
+  | { type: 'equal' | 'greater' | 'less'; attribute: string; value: string }
+  | { type: 'substring'; attribute: string; pattern: RegExp }
+  | { type: 'bitand' | 'bitor'; attribute: string; value: number }
+
+const MATCHING_RULE_BIT_AND = '1.2.840.113556.1.4.803'
+const MATCHING_RULE_BIT_OR = '1.2.840.113556.1.4.804'
+
+function unescapeValue (value: string): string {
+  return value.replace(/\\([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+}
+
+function escapeRegExp (value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+class FilterParser {
+  private position = 0
+  private readonly input: string
+
+  constructor (input: string) {
+    this.input = input
+  }
+
+  parse (): FilterNode {
+    const node = this.parseFilter()
+    if (this.position !== this.input.length) {
+      throw new Error(`Unexpected trailing input in filter: ${this.input.slice(this.position)}`)
+    }
+    return node
+  }
+
+  private parseFilter (): FilterNode {
+    this.expect('(')
+    let node: FilterNode
+
+    switch (this.input[this.position]) {
+      case '&':
+      case '|': {
+        const type = this.input[this.position++] === '&' ? 'and' : 'or'
+        const children: FilterNode[] = []
+        while (this.input[this.position] === '(') {
+          children.push(this.parseFilter())
+        }
+        node = { type, children }
+        break
+      }
+      case '!':
+        this.position++
+        node = { type: 'not', child: this.parseFilter() }
+        break
+      default:
+        node = this.parseItem()
+    }
+
+    this.expect(')')
+    return node
+  }
+
+  private parseItem (): FilterNode {
+    const end = this.findClosing()
+    const item = this.input.slice(this.position, end)
+    this.position = end
+
+    const extensible = item.match(/^([^:=]+):([\d.]+):=(.*)$/)
+    if (extensible) {
+      const [, attribute, rule, value] = extensible
+      if (rule !== MATCHING_RULE_BIT_AND && rule !== MATCHING_RULE_BIT_OR) {
+        throw new Error(`Unsupported matching rule ${rule}`)
+      }
+      return { type: rule === MATCHING_RULE_BIT_AND ? 'bitand' : 'bitor', attribute, value: parseInt(value, 10) }
+    }
+
+    const comparison = item.match(/^([^=<>~]+)(>=|<=|=)(.*)$/)
+    if (!comparison) {
+      throw new Error(`Invalid filter item: ${item}`)
+    }
+
+    const [, attribute, operator, value] = comparison
+    if (operator === '>=') return { type: 'greater', attribute, value: unescapeValue(value) }
+    if (operator === '<=') return { type: 'less', attribute, value: unescapeValue(value) }
+    if (value === '*') return { type: 'present', attribute }
+
+    if (value.includes('*')) {
+      const pattern = value.split('*').map(part => escapeRegExp(unescapeValue(part))).join('.*')
+      return { type: 'substring', attribute, pattern: new RegExp(`^${pattern}$`, 'i') }
+    }
+
+    return { type: 'equal', attribute, value: unescapeValue(value) }
+  }
+
+  private findClosing (): number {
+    const end = this.input.indexOf(')', this.position)
+    if (end < 0) {
+      throw new Error('Unbalanced parentheses in filter')
+    }
+    return end
+  }
+
+  private expect (char: string): void {
+    if (this.input[this.position] !== char) {
+      throw new Error(`Expected '${char}' at position ${this.position} in filter`)
+    }
+    this.position++
+  }
+}
+
+function valuesOf (entry: FakeEntry, attribute: string): string[] {
+  if (attribute.toLowerCase() === 'distinguishedname') {
+    return [entry.dn]
+  }
+  if (attribute.toLowerCase() === 'objectcategory') {
+    // Samba accepts the short class name for objectCategory
+    const classes = entry.attributes.objectClass || []
+    if (classes.includes('computer')) return ['computer']
+    if (classes.includes('person')) return ['person']
+    if (classes.includes('group')) return ['group']
+    return classes.slice(-1)
+  }
+
+  const key = Object.keys(entry.attributes).find(name => name.toLowerCase() === attribute.toLowerCase())
+  return key ? entry.attributes[key] : []
+}
+
+function compare (a: string, b: string): number {
+  if (/^-?\d+$/.test(a) && /^-?\d+$/.test(b)) {
+    return Number(a) - Number(b)
+  }
+  return a.localeCompare(b)
+}
+
+function evaluate (node: FilterNode, entry: FakeEntry): boolean {
+  switch (node.type) {
+    case 'and': return node.children.every(child => evaluate(child, entry))
+    case 'or': return node.children.some(child => evaluate(child, entry))
+    case 'not': return !evaluate(node.child, entry)
+    case 'present': return valuesOf(entry, node.attribute).length > 0
+    case 'equal': return valuesOf(entry, node.attribute).some(value => value.toLowerCase() === node.value.toLowerCase())
+    case 'greater': return valuesOf(entry, node.attribute).some(value => compare(value, node.value) >= 0)
+    case 'less': return valuesOf(entry, node.attribute).some(value => compare(value, node.value) <= 0)
+    case 'substring': return valuesOf(entry, node.attribute).some(value => node.pattern.test(value))
+    case 'bitand': return valuesOf(entry, node.attribute).some(value => (parseInt(value, 10) & node.value) === node.value)
+    case 'bitor': return valuesOf(entry, node.attribute).some(value => (parseInt(value, 10) & node.value) !== 0)
+  }
+}
+
+export function compileFilter (filter: string): (entry: FakeEntry) => boolean {
+  const node = new FilterParser(filter.trim()).parse()
+  return entry => evaluate(node, entry)
+}
@@ -0,0 +1,1491 @@
+// Sandbox transport: answers samba-tool commands from an in-memory directory
+
+import type { CommandTransport, TransportOptions } from '../transport'
+import {
+  FakeDirectory,
+  type FakeEntry,
+  NT_TIME_NEVER,
+  UF_ACCOUNTDISABLE,
+  UF_DONT_EXPIRE_PASSWD,
+  UF_NORMAL_ACCOUNT,
+  UF_TRUSTED_FOR_DELEGATION,
+  UF_TRUSTED_TO_AUTHENTICATE_FOR_DELEGATION,
+  UF_WORKSTATION_TRUST_ACCOUNT,
+  toNTTime
+} from './directory'
+import { compileFilter } from './ldap-filter'
+import { parentDN, splitDN } from '@/lib/dn'
+import { CancelledError } from '@/lib/errors'
+
+/**
+ * Mirrors the shape of a cockpit ProcessError so callers can treat
+ * sandbox failures exactly like real ones.
+ */
+export class FakeProcessError extends Error {
+  readonly problem = null
+  readonly exit_signal = null
+  // eslint-disable-next-line camelcase -- field name used by cockpit
+  readonly exit_status: number
+
+  constructor (message: string, exitStatus: number = 255) {
+    super(message)
+    this.name = 'ProcessError'
+    this.exit_status = exitStatus
+  }
+}
+
+export interface FakeSambaTransportOptions {
+  directory?: FakeDirectory;
+  latency?: number;
+  version?: string;
+  /**
+   * samba-tool commands to leave out, e.g. `domain backup offline`, to
+   * stand in for an older release
+   */
+  missingCommands?: string[];
+}
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+type Handler = (args: ParsedArgs, options: TransportOptions) => string
+
+// Top-level samba-tool commands of a current release, for --help probes
+const SAMBA_TOOL_COMMANDS = new Set([
+  'computer', 'contact', 'dbcheck', 'delegation', 'dns', 'domain', 'drs',
+  'dsacl', 'forest', 'fsmo', 'gpo', 'group', 'ldapcmp', 'ntacl', 'ou',
+  'processes', 'rodc', 'schema', 'sites', 'spn', 'testparm', 'time', 'user',
+  'visualize'
+])
+
+interface FakeTicket {
+  principal: string;
+  issued: Date;
+}
+
+// Password settings as samba-tool prints them, with the attributes that
+// hold them on the domain object and on a PSO. Ages and durations are
+// stored as negative 100ns intervals.
+const DAY = 24 * 60 * 60 * 1e7
+const MINUTE = 60 * 1e7
+const INTERVAL_NEVER = '-9223372036854775808'
+
+const PASSWORD_SETTINGS: Array<{ label: string; option: string; domain: string; pso: string; unit?: number }> = [
+  { label: 'Password history length', option: 'history-length', domain: 'pwdHistoryLength', pso: 'msDS-PasswordHistoryLength' },
+  { label: 'Minimum password length', option: 'min-pwd-length', domain: 'minPwdLength', pso: 'msDS-MinimumPasswordLength' },
+  { label: 'Minimum password age (days)', option: 'min-pwd-age', domain: 'minPwdAge', pso: 'msDS-MinimumPasswordAge', unit: DAY },
+  { label: 'Maximum password age (days)', option: 'max-pwd-age', domain: 'maxPwdAge', pso: 'msDS-MaximumPasswordAge', unit: DAY },
+  { label: 'Account lockout duration (mins)', option: 'account-lockout-duration', domain: 'lockoutDuration', pso: 'msDS-LockoutDuration', unit: MINUTE },
+  { label: 'Account lockout threshold (attempts)', option: 'account-lockout-threshold', domain: 'lockoutThreshold', pso: 'msDS-LockoutThreshold' },
+  { label: 'Reset account lockout after (mins)', option: 'reset-account-lockout-after', domain: 'lockOutObservationWindow', pso: 'msDS-LockoutObservationWindow', unit: MINUTE }
+]
+
+// pwdProperties flags
+const DOMAIN_PASSWORD_COMPLEX = 0x01
+const DOMAIN_PASSWORD_STORE_CLEARTEXT = 0x10
+
+// Samba's KDC defaults: 10 hour tickets, renewable for a week
+const TICKET_LIFETIME = 10 * 60 * 60 * 1000
+const TICKET_RENEW_LIFETIME = 7 * 24 * 60 * 60 * 1000
+
+// Flags that never take a value; everything else consumes the next argument
+const BOOLEAN_FLAGS = new Set([
+  'full-dn', 'must-change-at-next-login', 'random-password', 'noexpiry',
+  'use-username-as-cn', 'verbose', 'force', 'recursive', 'json',
+  'password-never-expires'
+])
+
+function parseArgs (argv: string[]): ParsedArgs {
+  const positional: string[] = []
+  const flags: Record<string, string | true> = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+
+    if (arg.startsWith('--')) {
+      const [name, ...rest] = arg.slice(2).split('=')
+      if (rest.length > 0) {
+        flags[name] = rest.join('=')
+      } else if (!BOOLEAN_FLAGS.has(name) && i + 1 < argv.length && !argv[i + 1].startsWith('-')) {
+        flags[name] = argv[++i]
+      } else {
+        flags[name] = true
+      }
+    } else if (/^-[A-Za-z]$/.test(arg) && i + 1 < argv.length) {
+      flags[arg.slice(1)] = argv[++i]
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  return { positional, flags }
+}
+
+function flag (args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name]
+  return typeof value === 'string' ? value : undefined
+}
+
+function fail (message: string): never {
+  throw new FakeProcessError(message)
+}
+
+// MIT klist date format: 10/19/2026 20:00:00
+function formatKlistDate (date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+function renderLDIF (entry: FakeEntry): string {
+  const lines = [`dn: ${entry.dn}`]
+  Object.entries(entry.attributes).forEach(([name, values]) => {
+    values.forEach(value => lines.push(`${name}: ${value}`))
+  })
+  return lines.join('\n') + '\n'
+}
+
+export class FakeSambaTransport implements CommandTransport {
+  readonly name = 'sandbox'
+  readonly directory: FakeDirectory
+
+  private readonly latency: number
+  private readonly version: string
+  private readonly missingCommands: string[]
+  private readonly handlers: Record<string, Handler>
+  private readonly tickets = new Map<string, FakeTicket>()
+
+  constructor (options: FakeSambaTransportOptions = {}) {
+    this.directory = options.directory || FakeDirectory.createSample()
+    this.latency = options.latency ?? 0
+    this.version = options.version || '4.19.5-Debian'
+    this.missingCommands = options.missingCommands || []
+    this.handlers = this.createHandlers()
+  }
+
+  async spawn (command: string[], options: TransportOptions = {}): Promise<string> {
+    const { signal, onOutput } = options
+
+    await this.wait(this.latency, signal)
+
+    const output = this.execute(command, options)
+    if (!onOutput) {
+      return output
+    }
+
+    // Replay the output line by line, as a long command would print it
+    const lines = output.split('\n').filter(line => line)
+    for (let index = 0; index < lines.length; index++) {
+      await this.wait(this.latency / 5, signal, lines.slice(0, index).join('\n'))
+      onOutput(lines[index])
+    }
+    return output
+  }
+
+  private async wait (ms: number, signal?: AbortSignal, partialOutput?: string): Promise<void> {
+    if (ms > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ms)
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer)
+          reject(new CancelledError(partialOutput))
+        }, { once: true })
+      })
+    }
+
+    if (signal?.aborted) {
+      throw new CancelledError(partialOutput)
+    }
+  }
+
+  private execute (command: string[], options: TransportOptions): string {
+    const [program, ...argv] = command
+
+    if (program === 'which') {
+      if (argv[0] === 'samba-tool') return '/usr/bin/samba-tool\n'
+      fail('')
+    }
+
+    if (program === 'kinit' || program === 'klist' || program === 'kdestroy') {
+      return this.kerberos(program, parseArgs(argv), options)
+    }
+
+    if (argv.includes('--use-kerberos=required') && !argv.includes('--help') && !this.tickets.has(options.env?.KRB5CCNAME || '')) {
+      fail('Failed to bind - LDAP error 49 LDAP_INVALID_CREDENTIALS - authentication failed: no Kerberos ticket in the credentials cache')
+    }
+
+    if (program === 'ldbsearch') {
+      return this.ldbsearch(parseArgs(argv))
+    }
+
+    if (program === 'ldbmodify') {
+      return this.ldbmodify(options.input || '')
+    }
+
+    if (program !== 'samba-tool') {
+      fail(`${program}: command not found`)
+    }
+
+    if (argv[0] === '--version') {
+      return `${this.version}\n`
+    }
+
+    if (argv.includes('--help')) {
+      return this.help(argv.slice(0, argv.indexOf('--help')))
+    }
+
+    const [tool, action, ...rest] = argv
+    const handler = this.handlers[`${tool} ${action}`]
+
+    if (!handler) {
+      fail(`samba-tool: Unknown command: ${[tool, action].filter(Boolean).join(' ')}`)
+    }
+
+    return handler(parseArgs(rest), options)
+  }
+
+  /**
+   * ldbsearch [-H url] [-b base] [-s scope] [--controls=...] filter [attrs...]
+   */
+  private ldbsearch (args: ParsedArgs): string {
+    const [filter = '(objectClass=*)', ...attributes] = args.positional
+    const base = flag(args, 'b') || flag(args, 'basedn') || this.directory.baseDN
+    const scope = flag(args, 's') || flag(args, 'scope') || 'sub'
+
+    let matches: (entry: FakeEntry) => boolean
+    try {
+      matches = compileFilter(filter)
+    } catch (error) {
+      fail(`Failed to parse filter: ${(error as Error).message}\nsearch failed - Operations error`)
+    }
+
+    const baseLower = base.toLowerCase()
+    const inScope = (entry: FakeEntry): boolean => {
+      const dn = entry.dn.toLowerCase()
+      if (scope === 'base') return dn === baseLower
+      if (scope === 'one') return parentDN(dn) === baseLower
+      return dn === baseLower || dn.endsWith(`,${baseLower}`)
+    }
+
+    const results = this.directory.all().filter(entry => inScope(entry) && matches(entry))
+    const wanted = attributes.map(name => name.toLowerCase())
+
+    const records = results.map((entry, index) => {
+      const lines = [`# record ${index + 1}`, `dn: ${entry.dn}`]
+      Object.entries(entry.attributes).forEach(([name, values]) => {
+        if (wanted.length && !wanted.includes(name.toLowerCase()) && !wanted.includes('*')) return
+        values.forEach(value => lines.push(`${name}: ${value}`))
+      })
+      // Constructed attributes are only returned when asked for by name
+      if (wanted.includes('msds-resultantpso') && this.directory.hasObjectClass(entry, 'user')) {
+        const pso = this.resultantPSO(entry)
+        if (pso) lines.push(`msDS-ResultantPSO: ${pso.dn}`)
+      }
+      return lines.join('\n')
+    })
+
+    return [
+      ...records,
+      `# returned ${results.length} records\n# ${results.length} entries\n# 0 referrals`
+    ].join('\n\n') + '\n'
+  }
+
+  /**
+   * ldbmodify [-H url] with `changetype: modify` records on stdin. Each
+   * record is applied as a whole or not at all, as ldb does.
+   */
+  private ldbmodify (input: string): string {
+    const decode = (value: string) => new TextDecoder().decode(Uint8Array.from(atob(value), char => char.charCodeAt(0)))
+    const records = input.replace(/\r?\n /g, '').split(/\n\s*\n/).filter(record => record.trim())
+    let modified = 0
+
+    for (const record of records) {
+      const lines = record.split('\n').filter(line => line && !line.startsWith('#'))
+      const parsed = lines.map(line => {
+        if (line === '-') return { name: '-', value: '' }
+        const match = line.match(/^([A-Za-z0-9;.-]+)(::?) ?(.*)$/)
+        if (!match) fail(`ERR: (Operations error) "Invalid LDIF line '${line}'"\nModified ${modified} records successfully`)
+        return { name: match[1], value: match[2] === '::' ? decode(match[3]) : match[3] }
+      })
+
+      const [dn, changetype] = parsed
+      const entry = dn?.name.toLowerCase() === 'dn' ? this.directory.get(dn.value) : undefined
+      if (!entry) {
+        fail(`ERR: (No such object) "ldb_modify: no such object" on DN ${dn?.value} at block before line ${lines.length}\nModified ${modified} records successfully`)
+      }
+      if (changetype?.value !== 'modify') {
+        fail(`ERR: (Operations error) "changetype ${changetype?.value} is not supported here" on DN ${entry.dn}\nModified ${modified} records successfully`)
+      }
+
+      // Work on a copy so a failing operation leaves the entry untouched
+      const attributes = Object.fromEntries(Object.entries(entry.attributes).map(([name, values]) => [name, [...values]]))
+      const keyOf = (name: string) => Object.keys(attributes).find(key => key.toLowerCase() === name.toLowerCase()) || name
+
+      let operation: { type: string; attribute: string; values: string[] } | undefined
+      const apply = () => {
+        if (!operation) return
+        const key = keyOf(operation.attribute)
+        const current = attributes[key] || []
+        if (operation.type === 'add') {
+          attributes[key] = [...current, ...operation.values]
+        } else if (operation.type === 'replace') {
+          attributes[key] = operation.values
+        } else if (operation.type === 'delete') {
+          if (!current.length || operation.values.some(value => !current.includes(value))) {
+            fail(`ERR: (No such attribute) "attribute '${operation.attribute}': no matching attribute value while deleting attribute on '${entry.dn}'" on DN ${entry.dn}\nModified ${modified} records successfully`)
+          }
+          attributes[key] = operation.values.length ? current.filter(value => !operation?.values.includes(value)) : []
+        }
+        if (!attributes[key].length) delete attributes[key]
+        operation = undefined
+      }
+
+      for (const { name, value } of parsed.slice(2)) {
+        if (name === '-') {
+          apply()
+        } else if (!operation && ['add', 'replace', 'delete'].includes(name)) {
+          operation = { type: name, attribute: value, values: [] }
+        } else if (operation && name.toLowerCase() === operation.attribute.toLowerCase()) {
+          operation.values.push(value)
+        }
+      }
+      apply()
+
+      for (const name of new Set([...Object.keys(entry.attributes), ...Object.keys(attributes)])) {
+        if (JSON.stringify(entry.attributes[name]) !== JSON.stringify(attributes[name])) {
+          this.directory.setAttribute(entry.dn, name, attributes[name] || [])
+        }
+      }
+      modified++
+    }
+
+    return `Modified ${modified} records successfully\n`
+  }
+
+  // Lookup helpers
+
+  /**
+   * Usage of a samba-tool command; unknown commands fail the way
+   * samba-tool reports them
+   */
+  private help (path: string[]): string {
+    const name = path.join(' ')
+    const missing = this.missingCommands.some(command => name === command || name.startsWith(`${command} `))
+
+    if (missing || (path.length > 0 && !SAMBA_TOOL_COMMANDS.has(path[0]))) {
+      fail(`samba-tool ${path.slice(0, -1).join(' ')}: no such subcommand: ${path[path.length - 1]}`)
+    }
+
+    return `Usage: samba-tool ${name} [options]\n`
+  }
+
+  /**
+   * kinit, klist and kdestroy on credential caches given with -c. Any
+   * non-empty password is accepted for an existing, enabled user.
+   */
+  private kerberos (program: string, args: ParsedArgs, options: TransportOptions): string {
+    const ccache = flag(args, 'c') || 'FILE:/tmp/krb5cc_0'
+    const realm = this.directory.realm.toUpperCase()
+
+    if (program === 'kinit') {
+      const [name = ''] = args.positional
+      const [user, principalRealm = realm] = name.split('@')
+      const principal = `${user}@${principalRealm}`
+      const account = principalRealm === realm ? this.directory.findAccount(user, 'user') : undefined
+
+      if (!account) {
+        fail(`kinit: Client '${principal}' not found in Kerberos database while getting initial credentials`)
+      }
+      if (!options.input?.split('\n')[0] || (this.uac(account) & UF_ACCOUNTDISABLE)) {
+        fail('kinit: Password incorrect while getting initial credentials')
+      }
+
+      this.tickets.set(ccache, { principal, issued: new Date() })
+      return ''
+    }
+
+    const ticket = this.tickets.get(ccache)
+    if (!ticket) {
+      fail(`${program}: No credentials cache found (filename: ${ccache.replace(/^FILE:/, '')})`)
+    }
+
+    if (program === 'kdestroy') {
+      this.tickets.delete(ccache)
+      return ''
+    }
+
+    const issued = ticket.issued.getTime()
+    return [
+      `Ticket cache: ${ccache}`,
+      `Default principal: ${ticket.principal}`,
+      '',
+      'Valid starting       Expires              Service principal',
+      `${formatKlistDate(ticket.issued)}  ${formatKlistDate(new Date(issued + TICKET_LIFETIME))}  krbtgt/${realm}@${realm}`,
+      `\trenew until ${formatKlistDate(new Date(issued + TICKET_RENEW_LIFETIME))}`
+    ].join('\n') + '\n'
+  }
+
+  private requireAccount (name: string, kind: 'user' | 'group' | 'computer'): FakeEntry {
+    const entry = this.directory.findAccount(name, kind)
+    if (!entry) {
+      fail(`ERROR: Unable to find ${kind} "${name}"`)
+    }
+    return entry
+  }
+
+  // spn and delegation take users and computers alike
+  private requireSecurityAccount (name: string): FakeEntry {
+    const entry = this.directory.findAccount(name, 'user') || this.directory.findAccount(name, 'computer')
+    if (!entry) {
+      fail(`ERROR: Unable to find user "${name}"`)
+    }
+    return entry
+  }
+
+  private requireContainer (dn: string): string {
+    const full = this.directory.toFullDN(dn)
+    if (!this.directory.has(full)) {
+      fail(`ERROR(ldb): Failed to find container "${dn}" - (32, 'No such object')`)
+    }
+    return full
+  }
+
+  private requireDomain (): FakeEntry {
+    return this.directory.get(this.directory.baseDN) as FakeEntry
+  }
+
+  private psoContainer (): string {
+    return `CN=Password Settings Container,CN=System,${this.directory.baseDN}`
+  }
+
+  /**
+   * The PSO in force for a user: the best one applied to the user itself,
+   * else the best one applied to a group it is a direct member of
+   */
+  private resultantPSO (user: FakeEntry): FakeEntry | undefined {
+    const dir = this.directory
+    const psos = dir.children(this.psoContainer())
+      .sort((a, b) => Number(dir.getAttribute(a, 'msDS-PasswordSettingsPrecedence')) - Number(dir.getAttribute(b, 'msDS-PasswordSettingsPrecedence')))
+    const appliesTo = (entry: FakeEntry, dns: string[]) =>
+      (entry.attributes['msDS-PSOAppliesTo'] || []).some(dn => dns.includes(dn.toLowerCase()))
+
+    const groups = (user.attributes.memberOf || []).map(dn => dn.toLowerCase())
+    return psos.find(entry => appliesTo(entry, [user.dn.toLowerCase()])) || psos.find(entry => appliesTo(entry, groups))
+  }
+
+  private requirePSO (name: string): FakeEntry {
+    const entry = this.directory.get(`CN=${name},${this.psoContainer()}`)
+    if (!entry) {
+      fail(`ERROR: Unable to find PSO '${name}'`)
+    }
+    return entry
+  }
+
+  private renderPasswordSettings (entry: FakeEntry, isPSO: boolean): string[] {
+    const get = (attribute: string) => this.directory.getAttribute(entry, attribute)
+    const onOff = (value: boolean) => value ? 'on' : 'off'
+    const properties = parseInt(get('pwdProperties') || '0', 10)
+
+    return [
+      `Password complexity: ${onOff(isPSO ? get('msDS-PasswordComplexityEnabled') === 'TRUE' : !!(properties & DOMAIN_PASSWORD_COMPLEX))}`,
+      `Store plaintext passwords: ${onOff(isPSO ? get('msDS-PasswordReversibleEncryptionEnabled') === 'TRUE' : !!(properties & DOMAIN_PASSWORD_STORE_CLEARTEXT))}`,
+      ...PASSWORD_SETTINGS.map(setting => {
+        const value = get(isPSO ? setting.pso : setting.domain) || '0'
+        const shown = !setting.unit ? value : value === INTERVAL_NEVER ? '0' : String(Math.floor(Math.abs(Number(value)) / setting.unit))
+        return `${setting.label}: ${shown}`
+      })
+    ]
+  }
+
+  /**
+   * Apply the --option=value settings of a set or create; returns the
+   * labels of the settings that were given
+   */
+  private writePasswordSettings (entry: FakeEntry, args: ParsedArgs, isPSO: boolean): string[] {
+    const changed: string[] = []
+    const onOff = (name: string): boolean | undefined => {
+      const value = flag(args, name)
+      if (value === undefined || value === 'default') return undefined
+      if (value !== 'on' && value !== 'off') fail(`ERROR: Invalid value for --${name}: ${value}`)
+      return value === 'on'
+    }
+
+    const flags: Array<[string, string, string, number]> = [
+      ['complexity', 'Password complexity', 'msDS-PasswordComplexityEnabled', DOMAIN_PASSWORD_COMPLEX],
+      ['store-plaintext', 'Store plaintext passwords', 'msDS-PasswordReversibleEncryptionEnabled', DOMAIN_PASSWORD_STORE_CLEARTEXT]
+    ]
+    for (const [name, label, psoAttribute, bit] of flags) {
+      const enabled = onOff(name)
+      if (enabled === undefined) continue
+      if (isPSO) {
+        this.directory.setAttribute(entry.dn, psoAttribute, [enabled ? 'TRUE' : 'FALSE'])
+      } else {
+        const properties = parseInt(this.directory.getAttribute(entry, 'pwdProperties') || '0', 10)
+        this.directory.setAttribute(entry.dn, 'pwdProperties', [String(enabled ? properties | bit : properties & ~bit)])
+      }
+      changed.push(label)
+    }
+
+    for (const setting of PASSWORD_SETTINGS) {
+      const raw = flag(args, setting.option)
+      if (raw === undefined) continue
+
+      const value = Number(raw)
+      if (!Number.isInteger(value) || value < 0) {
+        fail(`ERROR: ${setting.label} must be a positive number`)
+      }
+      if (setting.option === 'history-length' && value > 24) {
+        fail('ERROR: Password history length must be in the range of 0 to 24!')
+      }
+
+      const stored = !setting.unit ? String(value) : value === 0 && setting.option === 'max-pwd-age' ? INTERVAL_NEVER : String(-value * setting.unit)
+      this.directory.setAttribute(entry.dn, isPSO ? setting.pso : setting.domain, [stored])
+      changed.push(setting.label)
+    }
+
+    return changed
+  }
+
+  private renderPSO (entry: FakeEntry, showAppliesTo = true): string {
+    const appliesTo = entry.attributes['msDS-PSOAppliesTo'] || []
+    const lines = [
+      `Password information for PSO '${this.directory.getAttribute(entry, 'cn')}'`,
+      '',
+      `Precedence (lowest is best): ${this.directory.getAttribute(entry, 'msDS-PasswordSettingsPrecedence')}`,
+      ...this.renderPasswordSettings(entry, true)
+    ]
+    if (showAppliesTo) {
+      lines.push('', appliesTo.length
+        ? `PSO applies directly to ${appliesTo.length} groups/users:`
+        : 'Note: PSO does not apply to any users or groups.')
+      appliesTo.forEach(dn => lines.push(`  ${dn}`))
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * samba-tool domain passwordsettings pso <action> ...
+   */
+  private pso (action: string, args: ParsedArgs): string {
+    const dir = this.directory
+    const psos = () => dir.children(this.psoContainer())
+      .sort((a, b) => Number(dir.getAttribute(a, 'msDS-PasswordSettingsPrecedence')) - Number(dir.getAttribute(b, 'msDS-PasswordSettingsPrecedence')))
+    const [name, second] = args.positional
+
+    switch (action) {
+      case 'list': {
+        if (!psos().length) {
+          return "No PSOs are present, or you don't have permission to view them.\n"
+        }
+        return [
+          'Precedence | PSO name',
+          '--------------------------------------------------',
+          ...psos().map(entry => `${String(dir.getAttribute(entry, 'msDS-PasswordSettingsPrecedence')).padEnd(10)} | ${dir.getAttribute(entry, 'cn')}`)
+        ].join('\n') + '\n'
+      }
+
+      case 'show':
+        return this.renderPSO(this.requirePSO(name))
+
+      case 'create': {
+        const dn = `CN=${name},${this.psoContainer()}`
+        if (dir.has(dn)) {
+          fail(`ERROR: PSO '${name}' already exists`)
+        }
+        if (!/^\d+$/.test(second || '')) {
+          fail(`ERROR: Invalid precedence '${second}'`)
+        }
+        if (!dir.has(this.psoContainer())) {
+          dir.add(this.psoContainer(), { objectClass: ['top', 'msDS-PasswordSettingsContainer'], cn: ['Password Settings Container'] })
+        }
+
+        // Settings that are not given start out as the domain's
+        const domain = this.requireDomain()
+        const properties = parseInt(dir.getAttribute(domain, 'pwdProperties') || '0', 10)
+        const entry = dir.add(dn, {
+          objectClass: ['top', 'msDS-PasswordSettings'],
+          cn: [name],
+          'msDS-PasswordSettingsPrecedence': [second],
+          'msDS-PasswordComplexityEnabled': [properties & DOMAIN_PASSWORD_COMPLEX ? 'TRUE' : 'FALSE'],
+          'msDS-PasswordReversibleEncryptionEnabled': [properties & DOMAIN_PASSWORD_STORE_CLEARTEXT ? 'TRUE' : 'FALSE'],
+          ...Object.fromEntries(PASSWORD_SETTINGS.map(setting => [setting.pso, [dir.getAttribute(domain, setting.domain) || '0']]))
+        })
+        this.writePasswordSettings(entry, args, true)
+        return `PSO successfully created: ${dn}\n`
+      }
+
+      case 'set': {
+        const entry = this.requirePSO(name)
+        const precedence = flag(args, 'precedence')
+        if (precedence !== undefined) {
+          dir.setAttribute(entry.dn, 'msDS-PasswordSettingsPrecedence', [precedence])
+        }
+        if (!this.writePasswordSettings(entry, args, true).length && precedence === undefined) {
+          fail('ERROR: You must specify at least one option to set. Try --help')
+        }
+        return `Successfully updated PSO: ${entry.dn}\n`
+      }
+
+      case 'delete': {
+        const entry = this.requirePSO(name)
+        dir.remove(entry.dn)
+        return `Deleted PSO ${name}\n`
+      }
+
+      case 'apply':
+      case 'unapply': {
+        const entry = this.requirePSO(name)
+        const target = dir.findAccount(second, 'user') || dir.findAccount(second, 'group')
+        if (!target) {
+          fail(`ERROR: The specified user or group '${second}' was not found`)
+        }
+        const current = entry.attributes['msDS-PSOAppliesTo'] || []
+        const applied = current.some(dn => dn.toLowerCase() === target.dn.toLowerCase())
+
+        if (action === 'apply') {
+          if (!applied) dir.setAttribute(entry.dn, 'msDS-PSOAppliesTo', [...current, target.dn])
+          return `PSO '${name}' applied to '${second}'\n`
+        }
+        if (!applied) {
+          fail(`ERROR: PSO '${name}' does not apply to '${second}'`)
+        }
+        dir.setAttribute(entry.dn, 'msDS-PSOAppliesTo', current.filter(dn => dn.toLowerCase() !== target.dn.toLowerCase()))
+        return `PSO '${name}' no longer applies to '${second}'\n`
+      }
+
+      case 'show-user': {
+        const user = this.requireAccount(name, 'user')
+        const resultant = this.resultantPSO(user)
+
+        if (!resultant) {
+          return `No PSO applies to user '${name}'. The default domain settings apply.\nRefer to 'samba-tool domain passwordsettings show'.\n`
+        }
+        return `The following PSO settings apply to user '${name}'.\n\n${this.renderPSO(resultant, false)}`
+      }
+    }
+
+    fail(`samba-tool domain passwordsettings pso: no such subcommand: ${action}`)
+  }
+
+  private uac (entry: FakeEntry): number {
+    return parseInt(this.directory.getAttribute(entry, 'userAccountControl') || '0', 10)
+  }
+
+  private setUAC (entry: FakeEntry, value: number): void {
+    this.directory.setAttribute(entry.dn, 'userAccountControl', [String(value)])
+  }
+
+  private moveEntry (entry: FakeEntry, target: string): string {
+    const parent = this.requireContainer(target)
+    const [rdn] = splitDN(entry.dn)
+    const newDN = `${rdn},${parent}`
+    if (this.directory.has(newDN)) {
+      fail(`ERROR(ldb): Failed to move "${entry.dn}" - (68, 'Entry ${newDN} already exists')`)
+    }
+    this.directory.rename(entry.dn, newDN)
+    return newDN
+  }
+
+  private accountsOfClass (objectClass: 'user' | 'group' | 'computer'): FakeEntry[] {
+    return this.directory.all().filter(entry =>
+      this.directory.hasObjectClass(entry, objectClass) &&
+      (objectClass !== 'user' || !this.directory.hasObjectClass(entry, 'computer'))
+    )
+  }
+
+  private gpoByName (name: string): FakeEntry {
+    const gpo = this.directory.all().find(entry =>
+      this.directory.hasObjectClass(entry, 'groupPolicyContainer') &&
+      (this.directory.getAttribute(entry, 'cn')?.toLowerCase() === name.toLowerCase() ||
+        this.directory.getAttribute(entry, 'displayName') === name)
+    )
+    if (!gpo) {
+      fail(`ERROR: GPO '${name}' does not exist`)
+    }
+    return gpo
+  }
+
+  private gpoLinks (containerDN: string): string[] {
+    const container = this.directory.get(this.directory.toFullDN(containerDN))
+    if (!container) {
+      fail(`ERROR: Container '${containerDN}' does not exist`)
+    }
+    const gPLink = this.directory.getAttribute(container, 'gPLink') || ''
+    return Array.from(gPLink.matchAll(/\[LDAP:\/\/([^;]+);\d+\]/gi)).map(match => match[1])
+  }
+
+  private renderGPO (gpo: FakeEntry): string {
+    const get = (name: string) => this.directory.getAttribute(gpo, name) || ''
+    return [
+      `GPO          : ${get('cn')}`,
+      `display name : ${get('displayName')}`,
+      `path         : ${get('gPCFileSysPath')}`,
+      `dn           : ${gpo.dn}`,
+      `version      : ${get('versionNumber')}`,
+      'flags        : NONE'
+    ].join('\n') + '\n'
+  }
+
+  private createHandlers (): Record<string, Handler> {
+    const dir = this.directory
+
+    return {
+      // Domain
+
+      'domain info': () => [
+        `Forest           : ${dir.realm}`,
+        `Domain           : ${dir.realm}`,
+        `Netbios domain   : ${dir.netbiosName}`,
+        `DC name          : ${dir.hostname}.${dir.realm}`,
+        `DC netbios name  : ${dir.hostname.toUpperCase()}`,
+        'Server site      : Default-First-Site-Name',
+        'Client site      : Default-First-Site-Name'
+      ].join('\n') + '\n',
+
+      // The sandbox is already provisioned; these only print a typical log
+
+      'domain provision': () => [
+        'Looking up IPv4 addresses',
+        'Setting up share.ldb',
+        'Setting up secrets.ldb',
+        'Setting up the registry',
+        'Setting up the privileges database',
+        'Setting up idmap db',
+        'Setting up SAM db',
+        'Setting up sam.ldb partitions and settings',
+        'Pre-loading the Samba 4 and AD schema',
+        `Adding DomainDN: ${dir.baseDN}`,
+        'Adding configuration container',
+        'Setting up sam.ldb schema',
+        'Setting up display specifiers',
+        'Adding users container',
+        'Adding computers container',
+        'Setting up sam.ldb data',
+        'Setting up well known security principals',
+        'Setting up sam.ldb users and groups',
+        'Setting up self join',
+        'Adding DNS accounts',
+        `Creating CN=MicrosoftDNS,CN=System,${dir.baseDN}`,
+        'Creating DomainDnsZones and ForestDnsZones partitions',
+        'Populating DomainDnsZones and ForestDnsZones partitions',
+        'Fixing provision GUIDs',
+        'A Kerberos configuration suitable for Samba AD has been generated at /var/lib/samba/private/krb5.conf',
+        'Server Role:           active directory domain controller',
+        `DNS Domain:            ${dir.realm}`,
+        `DOMAIN SID:            ${dir.domainSid}`
+      ].join('\n') + '\n',
+
+      'domain join': ({ positional }) => {
+        const realm = (positional[0] || dir.realm).toLowerCase()
+        const base = realm.split('.').map(part => `DC=${part}`).join(',')
+        return [
+          `Finding a writeable DC for domain '${realm}'`,
+          `Found DC dc1.${realm}`,
+          `workgroup is ${realm.split('.')[0].toUpperCase()}`,
+          `realm is ${realm}`,
+          `Adding CN=${dir.hostname.toUpperCase()},OU=Domain Controllers,${base}`,
+          'Calling bare provision',
+          'Setting up share.ldb',
+          'Setting up secrets.ldb',
+          `Provision OK for domain DN ${base}`,
+          'Starting replication',
+          `Schema-DN[CN=Schema,CN=Configuration,${base}] objects[1550/1550] linked_values[0/0]`,
+          `Partition[CN=Configuration,${base}] objects[1625/1625] linked_values[28/28]`,
+          `Partition[${base}] objects[218/218] linked_values[24/24]`,
+          `Replicating DC=DomainDnsZones,${base}`,
+          `Replicating DC=ForestDnsZones,${base}`,
+          'Committing SAM database',
+          'Sending DsReplicaUpdateRefs for all the replicated partitions',
+          'Setting isSynchronized and dsServiceName',
+          'Setting up secrets database',
+          `Joined domain ${realm.split('.')[0].toUpperCase()} (${dir.domainSid}) as a DC`
+        ].join('\n') + '\n'
+      },
+
+      'domain backup': (args) => {
+        const targetdir = flag(args, 'targetdir') || '.'
+        const mode = args.positional[0]
+        const file = `${targetdir.replace(/\/$/, '')}/samba-backup-${dir.realm}-${new Date().toISOString().slice(0, 19)}.tar.bz2`
+        const steps = mode === 'online'
+          ? [
+              `Finding a writeable DC for domain '${dir.realm}'`,
+              'Starting replication',
+              `Partition[CN=Configuration,${dir.baseDN}] objects[1625/1625] linked_values[28/28]`,
+              `Partition[${dir.baseDN}] objects[218/218] linked_values[24/24]`
+            ]
+          : [
+              'running backup on dirs: /var/lib/samba/private /var/lib/samba/sysvol /etc/samba',
+              'Starting transaction on /var/lib/samba/private/sam.ldb',
+              'Backing up /var/lib/samba/private/sam.ldb',
+              'Backing up /var/lib/samba/private/secrets.ldb'
+            ]
+        return [
+          ...steps,
+          'Backing up sysvol ACLs',
+          `Creating backup file ${file}...`,
+          'Backup succeeded.',
+          `backup saved to ${file}`
+        ].join('\n') + '\n'
+      },
+
+      'domain passwordsettings': (args) => {
+        const [action, ...rest] = args.positional
+
+        if (action === 'show') {
+          return [
+            `Password information for domain '${dir.baseDN}'`,
+            '',
+            ...this.renderPasswordSettings(this.requireDomain(), false)
+          ].join('\n') + '\n'
+        }
+
+        if (action === 'set') {
+          const changed = this.writePasswordSettings(this.requireDomain(), args, false)
+          if (!changed.length) {
+            fail('ERROR: You must specify at least one option to set. Try --help')
+          }
+          return [...changed.map(label => `${label} changed!`), 'All changes applied successfully!'].join('\n') + '\n'
+        }
+
+        if (action === 'pso') {
+          return this.pso(rest[0], { positional: rest.slice(1), flags: args.flags })
+        }
+
+        fail(`samba-tool domain passwordsettings: no such subcommand: ${action}`)
+      },
+
+      'ntacl sysvolreset': () => {
+        const sysvol = `/var/lib/samba/sysvol/${dir.realm}`
+        const policies = dir.all()
+          .filter(entry => dir.hasObjectClass(entry, 'groupPolicyContainer'))
+          .map(entry => `Resetting ACLs on Policies/${dir.getAttribute(entry, 'cn')}`)
+        return [
+          `Using sysvol ${sysvol}`,
+          `Resetting ACLs on ${sysvol}`,
+          ...policies
+        ].join('\n') + '\n'
+      },
+
+      // Users
+
+      'user list': () => this.accountsOfClass('user')
+        .map(entry => dir.getAttribute(entry, 'sAMAccountName'))
+        .join('\n') + '\n',
+
+      'user show': ({ positional }) => renderLDIF(this.requireAccount(positional[0], 'user')),
+
+      'user create': (args, options) => {
+        const [username, password = options.input?.split('\n')[0]] = args.positional
+        const parent = flag(args, 'userou') ? this.requireContainer(flag(args, 'userou') as string) : `CN=Users,${dir.baseDN}`
+        const dn = `CN=${username},${parent}`
+
+        if (dir.findAccount(username, 'user') || dir.has(dn)) {
+          fail(`ERROR(ldb): Failed to add user '${username}':  - (68, 'Entry ${dn} already exists')`)
+        }
+        if (!password && !args.flags['random-password']) {
+          fail(`ERROR: Failed to add user '${username}':  - No password was supplied`)
+        }
+
+        const attrs: Record<string, string[]> = {
+          objectClass: ['top', 'person', 'organizationalPerson', 'user'],
+          cn: [username],
+          sAMAccountName: [username],
+          userPrincipalName: [`${username}@${dir.realm}`],
+          userAccountControl: [String(UF_NORMAL_ACCOUNT | (args.flags['password-never-expires'] ? UF_DONT_EXPIRE_PASSWD : 0))],
+          objectSid: [dir.allocateSid()],
+          primaryGroupID: ['513'],
+          accountExpires: [NT_TIME_NEVER],
+          pwdLastSet: [args.flags['must-change-at-next-login'] ? '0' : toNTTime(new Date())],
+          lastLogon: ['0'],
+          badPwdCount: ['0'],
+          badPasswordTime: ['0'],
+          logonCount: ['0']
+        }
+        const optional: Record<string, string> = {
+          'given-name': 'givenName',
+          surname: 'sn',
+          'full-name': 'displayName',
+          'mail-address': 'mail',
+          description: 'description',
+          'telephone-number': 'telephoneNumber',
+          'job-title': 'title',
+          department: 'department',
+          company: 'company',
+          'physical-delivery-office': 'physicalDeliveryOfficeName',
+          'profile-path': 'profilePath',
+          'home-directory': 'homeDirectory',
+          'home-drive': 'homeDrive',
+          'script-path': 'scriptPath'
+        }
+        Object.entries(optional).forEach(([name, attribute]) => {
+          const value = flag(args, name)
+          if (value) attrs[attribute] = [value]
+        })
+
+        dir.add(dn, attrs)
+        const domainUsers = dir.findAccount('Domain Users', 'group')
+        if (domainUsers) dir.addMember(domainUsers.dn, dn)
+
+        return `User '${username}' added successfully\n`
+      },
+
+      'user delete': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'user')
+        dir.remove(entry.dn)
+        return `Deleted user ${positional[0]}\n`
+      },
+
+      'user enable': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'user')
+        this.setUAC(entry, this.uac(entry) & ~UF_ACCOUNTDISABLE)
+        return `Enabled user '${positional[0]}'\n`
+      },
+
+      'user disable': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'user')
+        this.setUAC(entry, this.uac(entry) | UF_ACCOUNTDISABLE)
+        return `Disabled user '${positional[0]}'\n`
+      },
+
+      'user unlock': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'user')
+        dir.setAttribute(entry.dn, 'lockoutTime', ['0'])
+        dir.setAttribute(entry.dn, 'badPwdCount', ['0'])
+        return `Unlocked user '${positional[0]}'\n`
+      },
+
+      'user setpassword': (args, options) => {
+        const entry = this.requireAccount(args.positional[0], 'user')
+        const password = flag(args, 'newpassword') ?? options.input?.split('\n')[0]
+        if (!password) {
+          fail('ERROR: Failed to set password for user: no password supplied')
+        }
+        dir.setAttribute(entry.dn, 'pwdLastSet', [args.flags['must-change-at-next-login'] ? '0' : toNTTime(new Date())])
+        return 'Changed password OK\n'
+      },
+
+      'user setexpiry': (args) => {
+        const username = args.positional[0]
+        const entry = this.requireAccount(username, 'user')
+
+        if (args.flags.noexpiry) {
+          dir.setAttribute(entry.dn, 'accountExpires', [NT_TIME_NEVER])
+          this.setUAC(entry, this.uac(entry) | UF_DONT_EXPIRE_PASSWD)
+          return `Expiry for user '${username}' disabled.\n`
+        }
+
+        const days = parseInt(flag(args, 'days') || '0', 10)
+        dir.setAttribute(entry.dn, 'accountExpires', [toNTTime(new Date(Date.now() + days * 24 * 60 * 60 * 1000))])
+        this.setUAC(entry, this.uac(entry) & ~UF_DONT_EXPIRE_PASSWD)
+        return `Expiry for user '${username}' set to ${days} days.\n`
+      },
+
+      'user move': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'user')
+        const newDN = this.moveEntry(entry, positional[1])
+        return `Moved user "${positional[0]}" into "${parentDN(newDN)}"\n`
+      },
+
+      'user getgroups': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'user')
+        return (entry.attributes.memberOf || [])
+          .map(dn => {
+            const group = dir.get(dn)
+            return (group && dir.getAttribute(group, 'sAMAccountName')) || dn
+          })
+          .join('\n') + '\n'
+      },
+
+      // Groups
+
+      'group list': () => this.accountsOfClass('group')
+        .map(entry => dir.getAttribute(entry, 'sAMAccountName'))
+        .join('\n') + '\n',
+
+      'group show': ({ positional }) => renderLDIF(this.requireAccount(positional[0], 'group')),
+
+      'group add': (args) => {
+        const name = args.positional[0]
+        const parent = flag(args, 'groupou') ? this.requireContainer(flag(args, 'groupou') as string) : `CN=Users,${dir.baseDN}`
+        if (dir.findAccount(name, 'group')) {
+          fail(`ERROR(ldb): Failed to create group "${name}" - (68, 'Entry CN=${name},${parent} already exists')`)
+        }
+
+        const scope = (flag(args, 'group-scope') || 'Global').toLowerCase()
+        const distribution = (flag(args, 'group-type') || 'Security').toLowerCase() === 'distribution'
+        const scopeBits: Record<string, number> = { domain: 0x4, global: 0x2, universal: 0x8 }
+        const groupType = (scopeBits[scope] ?? 0x2) | (distribution ? 0 : 0x80000000)
+
+        dir.add(`CN=${name},${parent}`, {
+          objectClass: ['top', 'group'],
+          cn: [name],
+          sAMAccountName: [name],
+          groupType: [String(groupType | 0)],
+          objectSid: [dir.allocateSid()],
+          ...(flag(args, 'description') ? { description: [flag(args, 'description') as string] } : {})
+        })
+        return `Added group ${name}\n`
+      },
+
+      'group delete': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'group')
+        dir.remove(entry.dn)
+        return `Deleted group ${positional[0]}\n`
+      },
+
+      'group listmembers': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'group')
+        return (entry.attributes.member || [])
+          .map(dn => dir.get(dn))
+          .filter((member): member is FakeEntry => Boolean(member))
+          .map(member => dir.getAttribute(member, 'sAMAccountName'))
+          .join('\n') + '\n'
+      },
+
+      'group addmembers': ({ positional }) => {
+        const [groupName, memberList] = positional
+        const group = this.requireAccount(groupName, 'group')
+        memberList.split(',').map(name => name.trim()).filter(Boolean).forEach(name => {
+          const member = dir.findAccount(name, 'user') || dir.findAccount(name, 'group') || dir.findAccount(name, 'computer')
+          if (!member) {
+            fail(`ERROR(exception): Failed to add members ['${name}'] to group "${groupName}" - Unable to find "${name}". Operation cancelled.`)
+          }
+          dir.addMember(group.dn, member.dn)
+        })
+        return `Added members to group ${groupName}\n`
+      },
+
+      'group removemembers': ({ positional }) => {
+        const [groupName, memberList] = positional
+        const group = this.requireAccount(groupName, 'group')
+        memberList.split(',').map(name => name.trim()).filter(Boolean).forEach(name => {
+          const member = dir.findAccount(name, 'user') || dir.findAccount(name, 'group') || dir.findAccount(name, 'computer')
+          if (!member) {
+            fail(`ERROR(exception): Failed to remove members ['${name}'] from group "${groupName}" - Unable to find "${name}". Operation cancelled.`)
+          }
+          dir.removeMember(group.dn, member.dn)
+        })
+        return `Removed members from group ${groupName}\n`
+      },
+
+      'group move': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'group')
+        const newDN = this.moveEntry(entry, positional[1])
+        return `Moved group "${positional[0]}" into "${newDN.split(',').slice(1).join(',')}"\n`
+      },
+
+      // Computers
+
+      'computer list': () => this.accountsOfClass('computer')
+        .map(entry => dir.getAttribute(entry, 'sAMAccountName'))
+        .join('\n') + '\n',
+
+      'computer show': ({ positional }) => renderLDIF(this.requireAccount(positional[0], 'computer')),
+
+      'computer create': (args) => {
+        const name = args.positional[0].replace(/\$$/, '')
+        const parent = flag(args, 'computerou') ? this.requireContainer(flag(args, 'computerou') as string) : `CN=Computers,${dir.baseDN}`
+        if (dir.findAccount(name, 'computer')) {
+          fail(`ERROR(ldb): Failed to create computer '${name}':  - (68, 'Entry CN=${name},${parent} already exists')`)
+        }
+
+        const dn = `CN=${name},${parent}`
+        dir.add(dn, {
+          objectClass: ['top', 'person', 'organizationalPerson', 'user', 'computer'],
+          cn: [name],
+          sAMAccountName: [`${name}$`],
+          dNSHostName: [`${name.toLowerCase()}.${dir.realm}`],
+          userAccountControl: [String(UF_WORKSTATION_TRUST_ACCOUNT)],
+          objectSid: [dir.allocateSid()],
+          primaryGroupID: ['515'],
+          lastLogon: ['0'],
+          pwdLastSet: [toNTTime(new Date())],
+          ...(flag(args, 'description') ? { description: [flag(args, 'description') as string] } : {})
+        })
+        const domainComputers = dir.findAccount('Domain Computers', 'group')
+        if (domainComputers) dir.addMember(domainComputers.dn, dn)
+
+        return `Computer '${name}' added successfully\n`
+      },
+
+      'computer delete': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'computer')
+        dir.remove(entry.dn)
+        return `Deleted computer ${positional[0]}\n`
+      },
+
+      'computer move': ({ positional }) => {
+        const entry = this.requireAccount(positional[0], 'computer')
+        const newDN = this.moveEntry(entry, positional[1])
+        return `Moved computer "${positional[0]}" into "${newDN.split(',').slice(1).join(',')}"\n`
+      },
+
+      // Service principal names
+
+      'spn list': ({ positional }) => {
+        const entry = this.requireSecurityAccount(positional[0])
+        const spns = entry.attributes.servicePrincipalName || []
+        if (spns.length === 0) {
+          return `User ${entry.dn} has no servicePrincipalName\n`
+        }
+        return `User ${entry.dn} has the following servicePrincipalName: \n${spns.map(spn => `\t ${spn}\n`).join('')}`
+      },
+
+      'spn add': ({ positional }) => {
+        const [name, account] = positional
+        const owner = dir.all().find(entry => (entry.attributes.servicePrincipalName || []).some(spn => spn.toLowerCase() === name.toLowerCase()))
+        if (owner) {
+          fail(`ERROR: Service principal ${name} already affected to ${dir.getAttribute(owner, 'sAMAccountName')}`)
+        }
+        const entry = this.requireSecurityAccount(account)
+        dir.setAttribute(entry.dn, 'servicePrincipalName', [...(entry.attributes.servicePrincipalName || []), name])
+        return ''
+      },
+
+      'spn delete': ({ positional }) => {
+        const [name, account] = positional
+        const entry = account
+          ? this.requireSecurityAccount(account)
+          : dir.all().find(candidate => (candidate.attributes.servicePrincipalName || []).some(spn => spn.toLowerCase() === name.toLowerCase()))
+        const spns = entry?.attributes.servicePrincipalName || []
+        if (!entry || !spns.some(spn => spn.toLowerCase() === name.toLowerCase())) {
+          fail(`ERROR: Service principal ${name} not affected`)
+        }
+        dir.setAttribute(entry.dn, 'servicePrincipalName', spns.filter(spn => spn.toLowerCase() !== name.toLowerCase()))
+        return ''
+      },
+
+      // Delegation
+
+      'delegation show': ({ positional }) => {
+        const entry = this.requireSecurityAccount(positional[0])
+        const uac = this.uac(entry)
+        const title = (value: number) => value ? 'True' : 'False'
+        return [
+          `Account-DN: ${entry.dn}`,
+          `UF_TRUSTED_FOR_DELEGATION: ${title(uac & UF_TRUSTED_FOR_DELEGATION)}`,
+          `UF_TRUSTED_TO_AUTHENTICATE_FOR_DELEGATION: ${title(uac & UF_TRUSTED_TO_AUTHENTICATE_FOR_DELEGATION)}`,
+          ...(entry.attributes['msDS-AllowedToDelegateTo'] || []).map(service => `msDS-AllowedToDelegateTo: ${service}`)
+        ].join('\n') + '\n'
+      },
+
+      'delegation for-any-service': ({ positional }) => {
+        const entry = this.requireSecurityAccount(positional[0])
+        const on = (positional[1] || 'on').toLowerCase() === 'on'
+        this.setUAC(entry, on ? this.uac(entry) | UF_TRUSTED_FOR_DELEGATION : this.uac(entry) & ~UF_TRUSTED_FOR_DELEGATION)
+        return ''
+      },
+
+      'delegation for-any-protocol': ({ positional }) => {
+        const entry = this.requireSecurityAccount(positional[0])
+        const on = (positional[1] || 'on').toLowerCase() === 'on'
+        this.setUAC(entry, on ? this.uac(entry) | UF_TRUSTED_TO_AUTHENTICATE_FOR_DELEGATION : this.uac(entry) & ~UF_TRUSTED_TO_AUTHENTICATE_FOR_DELEGATION)
+        return ''
+      },
+
+      'delegation add-service': ({ positional }) => {
+        const [account, principal] = positional
+        const entry = this.requireSecurityAccount(account)
+        const services = entry.attributes['msDS-AllowedToDelegateTo'] || []
+        if (!services.some(service => service.toLowerCase() === principal.toLowerCase())) {
+          dir.setAttribute(entry.dn, 'msDS-AllowedToDelegateTo', [...services, principal])
+        }
+        return ''
+      },
+
+      'delegation del-service': ({ positional }) => {
+        const [account, principal] = positional
+        const entry = this.requireSecurityAccount(account)
+        const services = entry.attributes['msDS-AllowedToDelegateTo'] || []
+        dir.setAttribute(entry.dn, 'msDS-AllowedToDelegateTo', services.filter(service => service.toLowerCase() !== principal.toLowerCase()))
+        return ''
+      },
+
+      // Organizational units
+
+      'ou list': (args) => dir.all()
+        .filter(entry => dir.hasObjectClass(entry, 'organizationalUnit'))
+        .map(entry => args.flags['full-dn'] ? entry.dn : dir.toRelativeDN(entry.dn))
+        .join('\n') + '\n',
+
+      'ou listobjects': (args) => {
+        const dn = this.requireContainer(args.positional[0])
+        return dir.children(dn)
+          .map(entry => args.flags['full-dn'] ? entry.dn : dir.toRelativeDN(entry.dn))
+          .join('\n') + '\n'
+      },
+
+      'ou create': (args) => {
+        const dn = dir.toFullDN(args.positional[0])
+        if (dir.has(dn)) {
+          fail(`ERROR(ldb): Failed to add ou "${dn}" - (68, 'Entry ${dn} already exists')`)
+        }
+        this.requireContainer(dn.split(',').slice(1).join(','))
+        dir.add(dn, {
+          objectClass: ['top', 'organizationalUnit'],
+          ou: [dn.split(',')[0].replace(/^OU=/i, '')],
+          ...(flag(args, 'description') ? { description: [flag(args, 'description') as string] } : {})
+        })
+        return `Added ou "${dn}"\n`
+      },
+
+      'ou delete': (args) => {
+        const dn = this.requireContainer(args.positional[0])
+        if (dir.children(dn).length > 0 && !args.flags['force-subtree-delete']) {
+          fail(`ERROR(ldb): Failed to delete ou "${dn}" - (66, 'subtree_delete: Unable to delete a non-leaf node (it has ${dir.children(dn).length} children)!')`)
+        }
+        dir.remove(dn)
+        return `Deleted ou "${dn}"\n`
+      },
+
+      'ou rename': ({ positional }) => {
+        const oldDN = this.requireContainer(positional[0])
+        const newDN = dir.toFullDN(positional[1])
+        if (dir.has(newDN)) {
+          fail(`ERROR(ldb): Failed to rename ou "${oldDN}" - (68, 'Entry ${newDN} already exists')`)
+        }
+        dir.rename(oldDN, newDN)
+        dir.setAttribute(newDN, 'ou', [newDN.split(',')[0].replace(/^OU=/i, '')])
+        return `Renamed ou "${oldDN}" to "${newDN}"\n`
+      },
+
+      'ou move': ({ positional }) => {
+        const oldDN = this.requireContainer(positional[0])
+        const entry = dir.get(oldDN) as FakeEntry
+        const newDN = this.moveEntry(entry, positional[1])
+        return `Moved ou "${oldDN}" into "${newDN.split(',').slice(1).join(',')}"\n`
+      },
+
+      // DNS
+
+      'dns serverinfo': ({ positional }) => [
+        '  dwVersion                   : 0xece0205',
+        '  fBootMethod                 : DNS_BOOT_METHOD_DIRECTORY',
+        '  fAdminConfigured            : FALSE',
+        '  fAllowUpdate                : TRUE',
+        '  fDsAvailable                : TRUE',
+        `  pszServerName               : ${positional[0] === 'localhost' ? `${dir.hostname}.${dir.realm}` : positional[0]}`,
+        `  pszDsContainer              : CN=MicrosoftDNS,DC=DomainDnsZones,${dir.baseDN}`,
+        '  aipServerAddrs              : [\'10.0.0.10\']',
+        '  aipListenAddrs              : [\'10.0.0.10\']',
+        `  pszDomainName               : ${dir.realm}`,
+        `  pszForestName               : ${dir.realm}`
+      ].join('\n') + '\n',
+
+      'dns zonelist': () => {
+        const zones = dir.listZones()
+        const blocks = zones.map(zone => [
+          `  pszZoneName                 : ${zone}`,
+          '  Flags                       : DNS_RPC_ZONE_DSINTEGRATED DNS_RPC_ZONE_UPDATE_SECURE',
+          '  ZoneType                    : DNS_ZONE_TYPE_PRIMARY',
+          '  Version                     : 50',
+          '  dwDpFlags                   : DNS_DP_AUTOCREATED DNS_DP_DOMAIN_DEFAULT DNS_DP_ENLISTED',
+          `  pszDpFqdn                   : DomainDnsZones.${dir.realm}`
+        ].join('\n'))
+        return `  ${zones.length} zone(s) found\n\n${blocks.join('\n\n')}\n`
+      },
+
+      'dns zoneinfo': ({ positional }) => {
+        const zone = positional[1]
+        if (!dir.getZone(zone)) {
+          fail('ERROR: Zone does not exist; (WERR_DNS_ERROR_ZONE_DOES_NOT_EXIST)')
+        }
+        return [
+          `  pszZoneName                 : ${zone}`,
+          '  dwZoneType                  : DNS_ZONE_TYPE_PRIMARY',
+          '  fReverse                    : FALSE',
+          '  fAllowUpdate                : DNS_ZONE_UPDATE_SECURE',
+          '  fPaused                     : FALSE',
+          '  fShutdown                   : FALSE',
+          '  fAutoCreated                : FALSE',
+          '  fUseDatabase                : TRUE',
+          '  pszDataFile                 : None',
+          '  dwAgingEnabled              : FALSE'
+        ].join('\n') + '\n'
+      },
+
+      'dns zonecreate': ({ positional }) => {
+        const zone = positional[1]
+        if (dir.getZone(zone)) {
+          fail('ERROR: Zone already exists; (WERR_DNS_ERROR_ZONE_ALREADY_EXISTS)')
+        }
+        dir.createZone(zone)
+        return `Zone ${zone} created successfully\n`
+      },
+
+      'dns zonedelete': ({ positional }) => {
+        const zone = positional[1]
+        if (!dir.getZone(zone)) {
+          fail('ERROR: Zone does not exist; (WERR_DNS_ERROR_ZONE_DOES_NOT_EXIST)')
+        }
+        dir.deleteZone(zone)
+        return `Zone ${zone} deleted successfully\n`
+      },
+
+      'dns query': ({ positional }) => {
+        const [, zone, name, type] = positional
+        const records = dir.getZone(zone)
+        if (!records) {
+          fail('ERROR: Zone does not exist; (WERR_DNS_ERROR_ZONE_DOES_NOT_EXIST)')
+        }
+
+        const matching = records.filter(record =>
+          (name === '@' || record.name === name) && (type === 'ALL' || record.type === type))
+        if (matching.length === 0) {
+          fail('ERROR: Record or zone does not exist; (WERR_DNS_ERROR_NAME_DOES_NOT_EXIST)')
+        }
+
+        const byName = new Map<string, typeof matching>()
+        matching.forEach(record => byName.set(record.name, [...(byName.get(record.name) || []), record]))
+
+        return Array.from(byName.entries()).map(([recordName, group]) => [
+          `  Name=${recordName === '@' ? '' : recordName}, Records=${group.length}, Children=0`,
+          ...group.map(record => `    ${record.type}: ${record.data} (flags=600000f0, serial=1, ttl=${record.ttl})`)
+        ].join('\n')).join('\n') + '\n'
+      },
+
+      'dns add': ({ positional }) => {
+        const [, zone, name, type, data] = positional
+        const records = dir.getZone(zone)
+        if (!records) {
+          fail('ERROR: Zone does not exist; (WERR_DNS_ERROR_ZONE_DOES_NOT_EXIST)')
+        }
+        if (records.some(record => record.name === name && record.type === type && record.data === data)) {
+          fail('ERROR: Record already exists; (WERR_DNS_ERROR_RECORD_ALREADY_EXISTS)')
+        }
+        records.push({ name, type, data, ttl: 900 })
+        return 'Record added successfully\n'
+      },
+
+      'dns delete': ({ positional }) => {
+        const [, zone, name, type, data] = positional
+        const records = dir.getZone(zone)
+        const index = records?.findIndex(record => record.name === name && record.type === type && record.data === data) ?? -1
+        if (!records || index < 0) {
+          fail('ERROR: Record does not exist; (WERR_DNS_ERROR_RECORD_DOES_NOT_EXIST)')
+        }
+        records.splice(index, 1)
+        return 'Record deleted successfully\n'
+      },
+
+      'dns cleanup': () => '',
+
+      // Group policy
+
+      'gpo listall': () => dir.all()
+        .filter(entry => dir.hasObjectClass(entry, 'groupPolicyContainer'))
+        .map(gpo => this.renderGPO(gpo))
+        .join('\n'),
+
+      'gpo list': ({ positional }) => {
+        const account = this.requireAccount(positional[0], 'user')
+        const linked = new Set<string>()
+        const parts = account.dn.split(',')
+        for (let i = 1; i < parts.length; i++) {
+          const container = dir.get(parts.slice(i).join(','))
+          if (container) this.gpoLinks(container.dn).forEach(link => linked.add(link.toLowerCase()))
+        }
+        const gpos = Array.from(linked).map(dn => dir.get(dn)).filter((gpo): gpo is FakeEntry => Boolean(gpo))
+        return `GPOs for user ${positional[0]}\n` + gpos
+          .map(gpo => `    ${dir.getAttribute(gpo, 'displayName')} ${dir.getAttribute(gpo, 'cn')}`)
+          .join('\n') + '\n'
+      },
+
+      'gpo show': ({ positional }) => this.renderGPO(this.gpoByName(positional[0])),
+
+      'gpo create': ({ positional }) => {
+        const displayName = positional[0]
+        const hex = (length: number) => Array.from({ length }, () => Math.floor(Math.random() * 16).toString(16)).join('').toUpperCase()
+        const guid = `{${hex(8)}-${hex(4)}-${hex(4)}-${hex(4)}-${hex(12)}}`
+        dir.add(`CN=${guid},CN=Policies,CN=System,${dir.baseDN}`, {
+          objectClass: ['top', 'container', 'groupPolicyContainer'],
+          cn: [guid],
+          displayName: [displayName],
+          gPCFileSysPath: [`\\\\${dir.realm}\\sysvol\\${dir.realm}\\Policies\\${guid}`],
+          versionNumber: ['0'],
+          flags: ['0']
+        })
+        return `GPO '${displayName}' created as ${guid}\n`
+      },
+
+      'gpo del': ({ positional }) => {
+        const gpo = this.gpoByName(positional[0])
+        dir.remove(gpo.dn)
+        return `GPO ${dir.getAttribute(gpo, 'cn')} deleted.\n`
+      },
+
+      'gpo getlink': ({ positional }) => {
+        const links = this.gpoLinks(positional[0])
+        if (links.length === 0) {
+          return `No GPO(s) linked to DN=${positional[0]}\n`
+        }
+        return `GPO(s) linked to DN ${positional[0]}\n` + links.map(link => {
+          const gpo = dir.get(link)
+          return [
+            `    GPO     : ${gpo ? dir.getAttribute(gpo, 'cn') : link}`,
+            `    Name    : ${gpo ? dir.getAttribute(gpo, 'displayName') : ''}`,
+            '    Options : NONE'
+          ].join('\n')
+        }).join('\n\n') + '\n'
+      },
+
+      'gpo setlink': ({ positional }) => {
+        const [containerDN, name] = positional
+        const gpo = this.gpoByName(name)
+        const links = this.gpoLinks(containerDN)
+        if (!links.some(link => link.toLowerCase() === gpo.dn.toLowerCase())) {
+          const container = dir.toFullDN(containerDN)
+          dir.setAttribute(container, 'gPLink', [[...links, gpo.dn].map(link => `[LDAP://${link};0]`).join('')])
+        }
+        return `Added/Updated GPO link\n${this.handlers['gpo getlink']({ positional: [containerDN], flags: {} }, {})}`
+      },
+
+      'gpo dellink': ({ positional }) => {
+        const [containerDN, name] = positional
+        const gpo = this.gpoByName(name)
+        const links = this.gpoLinks(containerDN)
+        if (!links.some(link => link.toLowerCase() === gpo.dn.toLowerCase())) {
+          fail(`ERROR: GPO '${name}' not linked to this container`)
+        }
+        const remaining = links.filter(link => link.toLowerCase() !== gpo.dn.toLowerCase())
+        dir.setAttribute(dir.toFullDN(containerDN), 'gPLink', remaining.length ? [remaining.map(link => `[LDAP://${link};0]`).join('')] : [])
+        return `Deleted GPO link.\n${this.handlers['gpo getlink']({ positional: [containerDN], flags: {} }, {})}`
+      },
+
+      'gpo getinheritance': ({ positional }) => {
+        const container = dir.get(this.requireContainer(positional[0])) as FakeEntry
+        const blocked = dir.getAttribute(container, 'gPOptions') === '1'
+        return `Container has ${blocked ? 'GPO_BLOCK_INHERITANCE' : 'GPO_INHERIT'}\n`
+      },
+
+      'gpo setinheritance': ({ positional }) => {
+        const dn = this.requireContainer(positional[0])
+        const block = positional[1]?.toLowerCase() === 'block' || positional[1] === 'Disabled'
+        dir.setAttribute(dn, 'gPOptions', [block ? '1' : '0'])
+        return ''
+      },
+
+      'gpo listcontainers': ({ positional }) => {
+        const gpo = this.gpoByName(positional[0])
+        const containers = dir.all().filter(entry =>
+          (dir.getAttribute(entry, 'gPLink') || '').toLowerCase().includes(gpo.dn.toLowerCase()))
+        return `Container(s) using GPO ${dir.getAttribute(gpo, 'cn')}\n` +
+          containers.map(entry => `    DN: ${entry.dn}`).join('\n') + '\n'
+      },
+
+      'gpo backup': ({ positional }) => {
+        this.gpoByName(positional[0])
+        return ''
+      },
+
+      'gpo restore': () => '',
+
+      'gpo fetch': ({ positional }) => {
+        this.gpoByName(positional[0])
+        return ''
+      }
+    }
+  }
+}
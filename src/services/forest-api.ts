@@ -1,6 +1,7 @@
 import { BaseAPI } from './base-api'
 import { SambaForest, ForestDirectoryServiceInfo, SetDSHeuristicsInput } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class ForestAPI extends BaseAPI {
   /**
@@ -16,7 +17,7 @@ export class ForestAPI extends BaseAPI {
       return forestInfo
     } catch (error) {
       throw new APIError(
-        `Failed to get forest information: ${(error as Error).message}`,
+        format(_('Failed to get forest information: $0'), (error as Error).message),
         'FOREST_INFO_FAILED',
         error
       )
@@ -32,7 +33,7 @@ export class ForestAPI extends BaseAPI {
       return this.parseDirectoryServiceSettings(output)
     } catch (error) {
       throw new APIError(
-        `Failed to get directory service settings: ${(error as Error).message}`,
+        format(_('Failed to get directory service settings: $0'), (error as Error).message),
         'DS_SETTINGS_FAILED',
         error
       )
@@ -50,7 +51,7 @@ export class ForestAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to set dsheuristics: ${(error as Error).message}`,
+        format(_('Failed to set dsheuristics: $0'), (error as Error).message),
         'DS_HEURISTICS_SET_FAILED',
         error
       )
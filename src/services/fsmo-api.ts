@@ -1,6 +1,7 @@
 import { BaseAPI } from './base-api'
 import { FSMORoles, TransferFSMORoleInput, SeizeFSMORoleInput } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class FSMOAPI extends BaseAPI {
   /**
@@ -12,7 +13,7 @@ export class FSMOAPI extends BaseAPI {
       return this.parseFSMORoles(output)
     } catch (error) {
       throw new APIError(
-        `Failed to show FSMO roles: ${(error as Error).message}`,
+        format(_('Failed to show FSMO roles: $0'), (error as Error).message),
         'FSMO_SHOW_FAILED',
         error
       )
@@ -31,7 +32,7 @@ export class FSMOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to transfer FSMO role: ${(error as Error).message}`,
+        format(_('Failed to transfer FSMO role: $0'), (error as Error).message),
         'FSMO_TRANSFER_FAILED',
         error
       )
@@ -50,7 +51,7 @@ export class FSMOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to seize FSMO role: ${(error as Error).message}`,
+        format(_('Failed to seize FSMO role: $0'), (error as Error).message),
         'FSMO_SEIZE_FAILED',
         error
       )
@@ -14,8 +14,17 @@ import {
   GPOContainer
 } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class GPOAPI extends BaseAPI {
+  /**
+   * What GPO backups need from the installed Samba
+   */
+  static readonly requirements = {
+    backup: { command: 'gpo backup' },
+    restore: { command: 'gpo restore' }
+  }
+
   /**
    * List all GPOs
    */
@@ -26,7 +35,7 @@ export class GPOAPI extends BaseAPI {
       return this.parseGPOList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list GPOs: ${(error as Error).message}`,
+        format(_('Failed to list GPOs: $0'), (error as Error).message),
         'GPO_LIST_FAILED',
         error
       )
@@ -43,7 +52,7 @@ export class GPOAPI extends BaseAPI {
       return this.parseGPOList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list specific GPOs: ${(error as Error).message}`,
+        format(_('Failed to list specific GPOs: $0'), (error as Error).message),
         'GPO_LIST_SPECIFIC_FAILED',
         error
       )
@@ -62,7 +71,7 @@ export class GPOAPI extends BaseAPI {
       return this.parseGPODetails(output, name)
     } catch (error) {
       throw new APIError(
-        `Failed to show GPO details: ${(error as Error).message}`,
+        format(_('Failed to show GPO details: $0'), (error as Error).message),
         'GPO_SHOW_FAILED',
         error
       )
@@ -85,7 +94,7 @@ export class GPOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to create GPO: ${(error as Error).message}`,
+        format(_('Failed to create GPO: $0'), (error as Error).message),
         'GPO_CREATE_FAILED',
         error
       )
@@ -103,7 +112,7 @@ export class GPOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to delete GPO: ${(error as Error).message}`,
+        format(_('Failed to delete GPO: $0'), (error as Error).message),
         'GPO_DELETE_FAILED',
         error
       )
@@ -115,13 +124,14 @@ export class GPOAPI extends BaseAPI {
    */
   static async backupGPO (input: BackupGPOInput): Promise<void> {
     this.validateRequired(input as unknown as Record<string, unknown>, ['name', 'backupPath'])
+    await this.requireCapability(this.requirements.backup)
 
     try {
       const command = ['samba-tool', 'gpo', 'backup', input.name, input.backupPath]
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to backup GPO: ${(error as Error).message}`,
+        format(_('Failed to backup GPO: $0'), (error as Error).message),
         'GPO_BACKUP_FAILED',
         error
       )
@@ -133,6 +143,7 @@ export class GPOAPI extends BaseAPI {
    */
   static async restoreGPO (input: RestoreGPOInput): Promise<void> {
     this.validateRequired(input as unknown as Record<string, unknown>, ['name', 'backupPath'])
+    await this.requireCapability(this.requirements.restore)
 
     try {
       const command = ['samba-tool', 'gpo', 'restore', input.name, input.backupPath]
@@ -144,7 +155,7 @@ export class GPOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to restore GPO: ${(error as Error).message}`,
+        format(_('Failed to restore GPO: $0'), (error as Error).message),
         'GPO_RESTORE_FAILED',
         error
       )
@@ -162,7 +173,7 @@ export class GPOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to fetch GPO: ${(error as Error).message}`,
+        format(_('Failed to fetch GPO: $0'), (error as Error).message),
         'GPO_FETCH_FAILED',
         error
       )
@@ -181,7 +192,7 @@ export class GPOAPI extends BaseAPI {
       return this.parseGPOLinks(output, containerDN)
     } catch (error) {
       throw new APIError(
-        `Failed to get GPO links: ${(error as Error).message}`,
+        format(_('Failed to get GPO links: $0'), (error as Error).message),
         'GPO_GET_LINKS_FAILED',
         error
       )
@@ -208,7 +219,7 @@ export class GPOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to set GPO link: ${(error as Error).message}`,
+        format(_('Failed to set GPO link: $0'), (error as Error).message),
         'GPO_SET_LINK_FAILED',
         error
       )
@@ -226,7 +237,7 @@ export class GPOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to delete GPO link: ${(error as Error).message}`,
+        format(_('Failed to delete GPO link: $0'), (error as Error).message),
         'GPO_DELETE_LINK_FAILED',
         error
       )
@@ -245,7 +256,7 @@ export class GPOAPI extends BaseAPI {
       return this.parseGPOInheritance(output, containerDN)
     } catch (error) {
       throw new APIError(
-        `Failed to get GPO inheritance: ${(error as Error).message}`,
+        format(_('Failed to get GPO inheritance: $0'), (error as Error).message),
         'GPO_GET_INHERITANCE_FAILED',
         error
       )
@@ -263,7 +274,7 @@ export class GPOAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to set GPO inheritance: ${(error as Error).message}`,
+        format(_('Failed to set GPO inheritance: $0'), (error as Error).message),
         'GPO_SET_INHERITANCE_FAILED',
         error
       )
@@ -280,7 +291,7 @@ export class GPOAPI extends BaseAPI {
       return this.parseGPOContainers(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list containers: ${(error as Error).message}`,
+        format(_('Failed to list containers: $0'), (error as Error).message),
         'GPO_LIST_CONTAINERS_FAILED',
         error
       )
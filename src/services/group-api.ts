@@ -1,6 +1,7 @@
 import { BaseAPI } from './base-api'
 import { SambaGroup, CreateGroupInput } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class GroupAPI extends BaseAPI {
   /**
@@ -12,7 +13,7 @@ export class GroupAPI extends BaseAPI {
       return this.parseGroupList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to fetch groups: ${(error as Error).message}`,
+        format(_('Failed to fetch groups: $0'), (error as Error).message),
         'GROUP_LIST_FAILED',
         error
       )
@@ -28,7 +29,7 @@ export class GroupAPI extends BaseAPI {
       return this.parseGroupDetails(output, groupName)
     } catch (error) {
       throw new APIError(
-        `Failed to fetch group details: ${(error as Error).message}`,
+        format(_('Failed to fetch group details: $0'), (error as Error).message),
         'GROUP_SHOW_FAILED',
         error
       )
@@ -57,7 +58,7 @@ export class GroupAPI extends BaseAPI {
       return await this.show(groupData.name)
     } catch (error) {
       throw new APIError(
-        `Failed to create group: ${(error as Error).message}`,
+        format(_('Failed to create group: $0'), (error as Error).message),
         'GROUP_CREATE_FAILED',
         error
       )
@@ -72,7 +73,7 @@ export class GroupAPI extends BaseAPI {
       await this.executeCommand(['samba-tool', 'group', 'delete', groupName])
     } catch (error) {
       throw new APIError(
-        `Failed to delete group: ${(error as Error).message}`,
+        format(_('Failed to delete group: $0'), (error as Error).message),
         'GROUP_DELETE_FAILED',
         error
       )
@@ -93,7 +94,7 @@ export class GroupAPI extends BaseAPI {
       return await this.show(groupName)
     } catch (error) {
       throw new APIError(
-        `Failed to move group: ${(error as Error).message}`,
+        format(_('Failed to move group: $0'), (error as Error).message),
         'GROUP_MOVE_FAILED',
         error
       )
@@ -109,7 +110,7 @@ export class GroupAPI extends BaseAPI {
       return output.trim().split('\n').filter(member => member.trim() !== '')
     } catch (error) {
       throw new APIError(
-        `Failed to list group members: ${(error as Error).message}`,
+        format(_('Failed to list group members: $0'), (error as Error).message),
         'GROUP_LIST_MEMBERS_FAILED',
         error
       )
@@ -130,7 +131,7 @@ export class GroupAPI extends BaseAPI {
       }
     } catch (error) {
       throw new APIError(
-        `Failed to add group members: ${(error as Error).message}`,
+        format(_('Failed to add group members: $0'), (error as Error).message),
         'GROUP_ADD_MEMBERS_FAILED',
         error
       )
@@ -151,7 +152,7 @@ export class GroupAPI extends BaseAPI {
       }
     } catch (error) {
       throw new APIError(
-        `Failed to remove group members: ${(error as Error).message}`,
+        format(_('Failed to remove group members: $0'), (error as Error).message),
         'GROUP_REMOVE_MEMBERS_FAILED',
         error
       )
@@ -0,0 +1,264 @@
+// Inactive Account API Service
+
+import { BaseAPI, type CancelOptions, type LDIFEntry } from './base-api'
+import { UserAPI } from './user-api'
+import { ComputerAPI } from './computer-api'
+import type { ExportFormat } from './user-export'
+import { toCSV } from '../lib/csv'
+import { toXLSX, type CellValue } from '../lib/xlsx'
+import type {
+  InactiveAccount,
+  InactiveAccountSearch,
+  InactiveRemediation,
+  InactiveRemediationResult
+} from '../types/samba'
+import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
+
+const DAY = 24 * 60 * 60 * 1000
+const UF_ACCOUNTDISABLE = 0x0002
+
+export interface RemediateOptions extends CancelOptions {
+  /**
+   * Called after each account, for progress
+   */
+  onResult?: (result: InactiveRemediationResult, index: number) => void;
+}
+
+/**
+ * Write the report. JSON keeps the field names and ISO dates; CSV and XLSX
+ * get translated headers.
+ */
+export function exportInactiveAccounts (accounts: InactiveAccount[], fileFormat: ExportFormat): string | Uint8Array<ArrayBuffer> {
+  if (fileFormat === 'json') {
+    return JSON.stringify(accounts, null, 2)
+  }
+
+  const rows: CellValue[][] = [
+    [_('Type'), _('Name'), _('Display Name'), _('Enabled'), _('Last Logon'), _('Password Last Set'), _('Created'), _('Inactive Days'), _('Description'), _('Distinguished Name')],
+    ...accounts.map(account => [
+      account.kind === 'user' ? _('User') : _('Computer'),
+      account.name,
+      account.displayName,
+      account.enabled,
+      account.lastLogonTimestamp,
+      account.passwordLastSet,
+      account.createdAt,
+      account.inactiveDays,
+      account.description,
+      account.distinguishedName
+    ])
+  ]
+
+  return fileFormat === 'xlsx' ? toXLSX(rows, _('Inactive Accounts')) : toCSV(rows)
+}
+
+export class InactiveAccountAPI extends BaseAPI {
+  private static readonly ATTRIBUTES = [
+    'sAMAccountName',
+    'displayName',
+    'description',
+    'objectClass',
+    'userAccountControl',
+    'whenCreated',
+    'lastLogonTimestamp',
+    'pwdLastSet'
+  ]
+
+  /**
+   * Users and computers that neither logged on nor changed their password
+   * within the threshold. lastLogon is not replicated, so the replicated
+   * lastLogonTimestamp is used; it lags by up to 14 days. Accounts that
+   * never logged on count from their creation. Critical system accounts
+   * (Administrator, krbtgt, domain controllers) are never reported.
+   */
+  static async find (search: InactiveAccountSearch): Promise<InactiveAccount[]> {
+    if (!search.users && !search.computers) {
+      return []
+    }
+
+    const now = Date.now()
+    const cutoff = new Date(now - search.days * DAY)
+    const kinds = [
+      search.users ? '(&(objectCategory=person)(objectClass=user)(!(objectClass=computer)))' : '',
+      search.computers ? '(objectClass=computer)' : ''
+    ].join('')
+    const clauses = [
+      `(|${kinds})`,
+      '(!(isCriticalSystemObject=TRUE))',
+      `(|(!(lastLogonTimestamp=*))(lastLogonTimestamp<=${this.toNTTime(cutoff)}))`
+    ]
+    if (!search.includeDisabled) {
+      clauses.push(`(!(userAccountControl:1.2.840.113556.1.4.803:=${UF_ACCOUNTDISABLE}))`)
+    }
+
+    let entries: LDIFEntry[]
+    try {
+      entries = await this.search({
+        filter: `(&${clauses.join('')})`,
+        attributes: this.ATTRIBUTES
+      })
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to search for inactive accounts: $0'), (error as Error).message),
+        'INACTIVE_SEARCH_FAILED',
+        error
+      )
+    }
+
+    return entries
+      .map(entry => this.mapAccount(entry, now))
+      .filter(account => account.inactiveDays >= search.days)
+      .sort((a, b) => b.inactiveDays - a.inactiveDays)
+  }
+
+  /**
+   * Apply the remediation to the accounts one by one. A failed account does
+   * not stop the others; every account gets a result, and once the signal
+   * is aborted the remaining accounts are skipped.
+   */
+  static async remediate (
+    accounts: InactiveAccount[],
+    remediation: InactiveRemediation,
+    options: RemediateOptions = {}
+  ): Promise<InactiveRemediationResult[]> {
+    const { signal, onResult } = options
+    const results: InactiveRemediationResult[] = []
+
+    for (const [index, account] of accounts.entries()) {
+      const result = await this.remediateAccount(account, remediation, signal)
+      results.push(result)
+      onResult?.(result, index)
+    }
+
+    return results
+  }
+
+  private static async remediateAccount (
+    account: InactiveAccount,
+    remediation: InactiveRemediation,
+    signal?: AbortSignal
+  ): Promise<InactiveRemediationResult> {
+    const result: InactiveRemediationResult = { account, status: 'skipped', steps: [] }
+
+    if (signal?.aborted) {
+      return { ...result, message: _('Stopped before this account') }
+    }
+
+    try {
+      const stamp = remediation.stamp?.trim()
+      if (stamp && await this.stampDescription(account.distinguishedName, stamp)) {
+        result.steps.push('stamp')
+      }
+
+      if (remediation.disable && account.enabled) {
+        if (account.kind === 'user') {
+          await this.scoped(UserAPI).disable(account.name)
+          result.steps.push('disable')
+        } else if (await this.disableComputer(account.distinguishedName)) {
+          result.steps.push('disable')
+        }
+      }
+
+      const target = remediation.moveTo?.trim()
+      if (target) {
+        if (account.kind === 'user') {
+          await this.scoped(UserAPI).move(account.name, target)
+        } else {
+          await this.scoped(ComputerAPI).move(account.name, target)
+        }
+        result.steps.push('move')
+      }
+    } catch (error) {
+      return {
+        ...result,
+        status: 'failed',
+        message: result.steps.length
+          ? format(_('Stopped after $0: $1'), result.steps.join(', '), (error as Error).message)
+          : (error as Error).message
+      }
+    }
+
+    return { ...result, status: result.steps.length ? 'done' : 'skipped' }
+  }
+
+  /**
+   * Put the stamp in front of the description. The description is read
+   * again rather than taken from the report, and an existing one is only
+   * replaced while it still holds that value, so an edit made since is
+   * kept. Resolves to false when it already has the stamp.
+   */
+  private static async stampDescription (dn: string, stamp: string): Promise<boolean> {
+    const [entry] = await this.search({ base: dn, scope: 'base', filter: '(objectClass=*)', attributes: ['description'] })
+    if (!entry) {
+      throw new APIError(format(_('Account $0 no longer exists'), dn), 'INACTIVE_ACCOUNT_NOT_FOUND')
+    }
+
+    const current = this.ldifValue(entry, 'description')
+    if (current?.startsWith(stamp)) {
+      return false
+    }
+
+    if (current) {
+      await this.swapValue(dn, 'description', current, `${stamp} ${current}`)
+    } else {
+      await this.modify(dn, { description: stamp })
+    }
+    return true
+  }
+
+  /**
+   * samba-tool has no computer disable, so the flag is set directly. The
+   * value is read again rather than taken from the report, and only written
+   * if it is still that value, so flags changed since are kept. Resolves to
+   * false when the computer is already disabled.
+   */
+  private static async disableComputer (dn: string): Promise<boolean> {
+    const [entry] = await this.search({
+      base: dn,
+      scope: 'base',
+      filter: '(objectClass=computer)',
+      attributes: ['userAccountControl']
+    })
+    if (!entry) {
+      throw new APIError(format(_('Computer $0 no longer exists'), dn), 'INACTIVE_ACCOUNT_NOT_FOUND')
+    }
+
+    const current = parseInt(this.ldifValue(entry, 'userAccountControl') || '0', 10)
+    if (current & UF_ACCOUNTDISABLE) {
+      return false
+    }
+
+    await this.swapValue(dn, 'userAccountControl', String(current), String(current | UF_ACCOUNTDISABLE))
+    return true
+  }
+
+  private static mapAccount (entry: LDIFEntry, now: number): InactiveAccount {
+    const get = (attribute: string) => this.ldifValue(entry, attribute)
+    const flags = parseInt(get('userAccountControl') || '0', 10)
+    const isComputer = this.ldifValues(entry, 'objectClass').some(value => value.toLowerCase() === 'computer')
+    const createdAt = this.parseGeneralizedTime(get('whenCreated')) || new Date(now)
+    const lastLogonTimestamp = this.parseNTTime(get('lastLogonTimestamp'))
+    const passwordLastSet = this.parseNTTime(get('pwdLastSet'))
+    const accountName = get('sAMAccountName') || ''
+
+    const lastActivity = Math.max(
+      (lastLogonTimestamp || createdAt).getTime(),
+      passwordLastSet?.getTime() ?? 0
+    )
+
+    return {
+      kind: isComputer ? 'computer' : 'user',
+      name: isComputer ? accountName.replace(/\$$/, '') : accountName,
+      distinguishedName: entry.dn,
+      displayName: get('displayName'),
+      description: get('description'),
+      enabled: !(flags & UF_ACCOUNTDISABLE),
+      userAccountControl: flags,
+      lastLogonTimestamp,
+      passwordLastSet,
+      createdAt,
+      inactiveDays: Math.floor((now - lastActivity) / DAY)
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { BaseAPI } from './base-api'
+import { InactiveAccountAPI, exportInactiveAccounts } from './inactive-api'
+import { AccountControlAPI } from './account-control-api'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+const SEARCH = { days: 90, users: true, computers: true, includeDisabled: false }
+
+describe('Inactive accounts', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+  })
+
+  it('finds users and computers by replicated logon and password age', async () => {
+    expect((await InactiveAccountAPI.find(SEARCH)).map(account => account.name)).toEqual(['WS02'])
+
+    const all = await InactiveAccountAPI.find({ ...SEARCH, includeDisabled: true })
+    expect(all.map(account => [account.kind, account.name, account.enabled])).toEqual([
+      ['user', 'carol', false],
+      ['computer', 'WS02', true]
+    ])
+    // Counted from the newer of the last logon and the password change
+    expect(all[1].inactiveDays).toBe(120)
+
+    expect((await InactiveAccountAPI.find({ ...SEARCH, days: 150, includeDisabled: true })).map(account => account.name)).toEqual(['carol'])
+    expect(await InactiveAccountAPI.find({ ...SEARCH, computers: false })).toEqual([])
+
+    const csv = exportInactiveAccounts(all, 'csv') as string
+    expect(csv.split('\r\n')[2]).toMatch(/^Computer,WS02,,true,/)
+  })
+
+  it('stamps, disables and moves the selected accounts', async () => {
+    const [ws02] = await InactiveAccountAPI.find(SEARCH)
+    const quarantine = 'OU=Workstations,DC=samdom,DC=example,DC=com'
+
+    const seen: string[] = []
+    const results = await InactiveAccountAPI.remediate([ws02], {
+      disable: true,
+      moveTo: quarantine,
+      stamp: '[Inactive 2026-10-19]'
+    }, { onResult: result => seen.push(result.account.name) })
+
+    expect(seen).toEqual(['WS02'])
+    expect(results[0]).toMatchObject({ status: 'done', steps: ['stamp', 'disable', 'move'] })
+
+    const [after] = await InactiveAccountAPI.find({ ...SEARCH, includeDisabled: true, users: false })
+    expect(after).toMatchObject({
+      enabled: false,
+      distinguishedName: `CN=WS02,${quarantine}`,
+      description: '[Inactive 2026-10-19]'
+    })
+
+    const [failed] = await InactiveAccountAPI.remediate([after], { disable: true, moveTo: 'OU=Nowhere,DC=samdom,DC=example,DC=com', stamp: '[Inactive 2026-10-19]' })
+    // Already stamped and disabled, so only the move was tried
+    expect(failed.status).toBe('failed')
+    expect(failed.steps).toEqual([])
+  })
+
+  it('keeps flags changed on a computer since the report was loaded', async () => {
+    const [ws02] = await InactiveAccountAPI.find(SEARCH)
+    await AccountControlAPI.update('computer', 'WS02', { TRUSTED_FOR_DELEGATION: true })
+
+    const [result] = await InactiveAccountAPI.remediate([ws02], { disable: true })
+    expect(result).toMatchObject({ status: 'done', steps: ['disable'] })
+
+    const after = await AccountControlAPI.get('computer', 'WS02')
+    expect(after.userAccountControl & 0x2).toBe(0x2)
+    expect(after.flags.TRUSTED_FOR_DELEGATION).toBe(true)
+  })
+
+  it('stamps the description as it is now, not as it was in the report', async () => {
+    const directory = FakeDirectory.createSample()
+    BaseAPI.setTransport(new FakeSambaTransport({ directory }))
+    const [ws02] = await InactiveAccountAPI.find(SEARCH)
+    directory.setAttribute(ws02.distinguishedName, 'description', ['Lab bench 4'])
+
+    const [result] = await InactiveAccountAPI.remediate([ws02], { disable: false, stamp: '[Inactive]' })
+    expect(result).toMatchObject({ status: 'done', steps: ['stamp'] })
+    const entry = directory.get(ws02.distinguishedName)
+    expect(entry && directory.getAttribute(entry, 'description')).toBe('[Inactive] Lab bench 4')
+  })
+})
@@ -0,0 +1,73 @@
+// JSON Stores
+
+import cockpit from 'cockpit'
+
+/**
+ * A list of records kept in one JSON file on the server and shared by
+ * every administrator, or in memory for the sandbox
+ */
+export interface JsonStore<T> {
+  read (): Promise<T[]>;
+  /**
+   * Replace the records with what `change` makes of the stored ones
+   */
+  update (change: (records: T[]) => T[]): Promise<T[]>;
+}
+
+export class CockpitJsonStore<T> implements JsonStore<T> {
+  readonly path: string
+  private readonly directoryMode: string
+  private directoryReady?: Promise<unknown>
+
+  constructor (path: string, directoryMode = '0750') {
+    this.path = path
+    this.directoryMode = directoryMode
+  }
+
+  async read (): Promise<T[]> {
+    const content = await cockpit.file(this.path, { syntax: JSON, superuser: 'try' }).read()
+    return Array.isArray(content) ? content : []
+  }
+
+  async update (change: (records: T[]) => T[]): Promise<T[]> {
+    await this.ensureDirectory()
+
+    // modify() retries when another administrator wrote in between
+    return cockpit.file(this.path, { syntax: JSON, superuser: 'require' })
+      .modify((content: T[] | null) => change(Array.isArray(content) ? content : []))
+  }
+
+  private ensureDirectory (): Promise<unknown> {
+    if (this.directoryReady) {
+      return this.directoryReady
+    }
+
+    const directory = this.path.slice(0, this.path.lastIndexOf('/'))
+    const ready: Promise<unknown> = cockpit.spawn(['mkdir', '-p', '-m', this.directoryMode, directory], {
+      superuser: 'require',
+      err: 'message'
+    })
+
+    // Try again on the next write if the directory could not be created
+    ready.catch(() => { this.directoryReady = undefined })
+    this.directoryReady = ready
+    return ready
+  }
+}
+
+export class MemoryJsonStore<T> implements JsonStore<T> {
+  private records: T[]
+
+  constructor (records: T[] = []) {
+    this.records = records
+  }
+
+  async read (): Promise<T[]> {
+    return [...this.records]
+  }
+
+  async update (change: (records: T[]) => T[]): Promise<T[]> {
+    this.records = change([...this.records])
+    return [...this.records]
+  }
+}
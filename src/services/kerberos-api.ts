@@ -0,0 +1,125 @@
+import { BaseAPI } from './base-api'
+import type { ConnectionProfile, KerberosTicket } from './connection'
+import { APIError, ValidationError } from '../lib/errors'
+import { validateArgument } from '../lib/arguments'
+import { _, format } from '../lib/i18n'
+
+/**
+ * Parse `klist` output (MIT or Heimdal) into the ticket-granting ticket it
+ * lists. Dates that cannot be read leave the lifetime unknown.
+ */
+export function parseKlist (output: string): KerberosTicket | null {
+  const principal = output.match(/^\s*(?:Default principal|Principal):\s*(\S+)/m)?.[1]
+  if (!principal) {
+    return null
+  }
+
+  const parseDate = (value?: string): Date | undefined => {
+    const date = value ? new Date(value.trim()) : undefined
+    return date && !isNaN(date.getTime()) ? date : undefined
+  }
+
+  const lines = output.split('\n')
+  const index = lines.findIndex(line => /\skrbtgt\//.test(line))
+  if (index < 0) {
+    return { principal }
+  }
+
+  // Columns are separated by at least two spaces: issued, expires, service
+  const [, expires] = lines[index].trim().split(/\s{2,}/)
+  const renewUntil = lines[index + 1]?.match(/renew until\s+(.+)$/)?.[1]
+
+  return {
+    principal,
+    expires: parseDate(expires),
+    renewUntil: parseDate(renewUntil)
+  }
+}
+
+export class KerberosAPI extends BaseAPI {
+  /**
+   * `--use-kerberos=required` came with the command line rework in 4.15
+   */
+  static readonly requirements = {
+    ticket: { minVersion: '4.15.0' }
+  }
+
+  /**
+   * Obtain a ticket for a Kerberos profile into the session's credential
+   * cache. kinit reads the password from standard input.
+   */
+  static async obtainTicket (profile: ConnectionProfile, password: string): Promise<KerberosTicket> {
+    const principal = this.principalOf(profile)
+    validateArgument('password', password, 'password')
+    await this.requireCapability(this.requirements.ticket)
+
+    const connections = this.getConnections()
+    const ccache = connections.getCredentialCache(profile.id)
+
+    try {
+      await this.executeCommand(['kinit', '-c', ccache, principal], {
+        input: `${password}\n`
+      })
+      const ticket = await this.readTicket(ccache) || { principal }
+      connections.setTicket(profile.id, ticket)
+      return ticket
+    } catch (error) {
+      connections.setTicket(profile.id, null)
+      throw new APIError(
+        format(_('Failed to obtain a Kerberos ticket for $0: $1'), principal, (error as Error).message),
+        'KERBEROS_KINIT_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * Look up the ticket a profile holds in this session, e.g. one obtained
+   * on another module page. Returns null when there is none.
+   */
+  static async refreshTicket (profile: ConnectionProfile): Promise<KerberosTicket | null> {
+    const connections = this.getConnections()
+    const ticket = await this.readTicket(connections.getCredentialCache(profile.id))
+    connections.setTicket(profile.id, ticket)
+    return ticket
+  }
+
+  /**
+   * Remove the profile's tickets from the server
+   */
+  static async destroyTicket (profile: ConnectionProfile): Promise<void> {
+    const connections = this.getConnections()
+
+    try {
+      await this.executeCommand(['kdestroy', '-c', connections.getCredentialCache(profile.id)])
+      connections.setTicket(profile.id, null)
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to destroy the Kerberos ticket: $0'), (error as Error).message),
+        'KERBEROS_KDESTROY_FAILED',
+        error
+      )
+    }
+  }
+
+  private static async readTicket (ccache: string): Promise<KerberosTicket | null> {
+    try {
+      return parseKlist(await this.executeCommand(['klist', '-c', ccache]))
+    } catch {
+      // klist fails when the cache does not exist
+      return null
+    }
+  }
+
+  /**
+   * Principal to request a ticket for; the realm is upper case by convention
+   */
+  private static principalOf (profile: ConnectionProfile): string {
+    if (profile.authMethod !== 'kerberos' || !profile.username) {
+      throw new ValidationError(format(_("Profile '$0' does not use Kerberos"), profile.name), 'authMethod')
+    }
+
+    const [user, realm] = profile.username.split('@')
+    return realm ? `${user}@${realm.toUpperCase()}` : user
+  }
+}
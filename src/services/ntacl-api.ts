@@ -1,4 +1,4 @@
-import { BaseAPI } from './base-api'
+import { BaseAPI, type CancelOptions, type StreamOptions } from './base-api'
 import {
   NTACLInfo,
   GetNTACLInput,
@@ -8,9 +8,17 @@ import {
   DOSInfo,
   NTACLPermission
 } from '../types/samba'
-import { APIError } from '../lib/errors'
+import { APIError, CancelledError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class NTACLApi extends BaseAPI {
+  /**
+   * What the SID change needs from the installed Samba
+   */
+  static readonly requirements = {
+    changeDomainSID: { command: 'ntacl changedomsid' }
+  }
+
   /**
    * Get NT ACL for a file
    */
@@ -26,7 +34,7 @@ export class NTACLApi extends BaseAPI {
       return this.parseNTACLOutput(output, input.file)
     } catch (error) {
       throw new APIError(
-        `Failed to get NT ACL: ${(error as Error).message}`,
+        format(_('Failed to get NT ACL: $0'), (error as Error).message),
         'NTACL_GET_FAILED',
         error
       )
@@ -47,7 +55,7 @@ export class NTACLApi extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to set NT ACL: ${(error as Error).message}`,
+        format(_('Failed to set NT ACL: $0'), (error as Error).message),
         'NTACL_SET_FAILED',
         error
       )
@@ -59,6 +67,7 @@ export class NTACLApi extends BaseAPI {
    */
   static async changeDomainSID (input: ChangeDomSIDInput): Promise<void> {
     this.validateRequired(input as unknown as Record<string, unknown>, ['oldSid', 'newSid'])
+    await this.requireCapability(this.requirements.changeDomainSID)
 
     try {
       const command = ['samba-tool', 'ntacl', 'changedomsid', input.oldSid, input.newSid]
@@ -68,7 +77,7 @@ export class NTACLApi extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to change domain SID: ${(error as Error).message}`,
+        format(_('Failed to change domain SID: $0'), (error as Error).message),
         'NTACL_CHANGEDOMSID_FAILED',
         error
       )
@@ -90,7 +99,7 @@ export class NTACLApi extends BaseAPI {
       return this.parseDOSInfo(output, input.file)
     } catch (error) {
       throw new APIError(
-        `Failed to get DOS info: ${(error as Error).message}`,
+        format(_('Failed to get DOS info: $0'), (error as Error).message),
         'NTACL_GETDOSINFO_FAILED',
         error
       )
@@ -100,17 +109,17 @@ export class NTACLApi extends BaseAPI {
   /**
    * Check SYSVOL ACLs
    */
-  static async sysvolCheck (input: SysvolOperationInput = {}): Promise<string[]> {
+  static async sysvolCheck (input: SysvolOperationInput = {}, options: CancelOptions = {}): Promise<string[]> {
     try {
       const command = ['samba-tool', 'ntacl', 'sysvolcheck']
 
       this.addOptionalParams(command, input)
 
-      const output = await this.executeCommand(command)
+      const output = await this.executeCommand(command, options)
       return output.split('\n').filter(line => line.trim() !== '')
     } catch (error) {
       throw new APIError(
-        `Failed to check SYSVOL: ${(error as Error).message}`,
+        format(_('Failed to check SYSVOL: $0'), (error as Error).message),
         'NTACL_SYSVOLCHECK_FAILED',
         error
       )
@@ -120,16 +129,19 @@ export class NTACLApi extends BaseAPI {
   /**
    * Reset SYSVOL ACLs
    */
-  static async sysvolReset (input: SysvolOperationInput = {}): Promise<void> {
+  static async sysvolReset (input: SysvolOperationInput = {}, options: StreamOptions = {}): Promise<void> {
     try {
       const command = ['samba-tool', 'ntacl', 'sysvolreset']
 
       this.addOptionalParams(command, input)
 
-      await this.executeCommand(command)
+      await this.executeCommand(command, options)
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error
+      }
       throw new APIError(
-        `Failed to reset SYSVOL: ${(error as Error).message}`,
+        format(_('Failed to reset SYSVOL: $0'), (error as Error).message),
         'NTACL_SYSVOLRESET_FAILED',
         error
       )
@@ -0,0 +1,336 @@
+// Offboarding API Service
+
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { GroupAPI } from './group-api'
+import { SPNAPI } from './spn-api'
+import { DelegationAPI } from './delegation-api'
+import { PasswordPolicyAPI } from './password-policy-api'
+import { OFFBOARD_STEPS, offboardStamp, revertableSteps } from './offboard'
+import type {
+  OffboardOptions,
+  OffboardPriorState,
+  OffboardRecord,
+  OffboardStep,
+  OffboardStepResult
+} from '../types/samba'
+import { APIError } from '../lib/errors'
+import { DEFAULT_PASSWORD_RULES, generatePassword, type PasswordRules } from '../lib/password'
+import { _, format, ngettext } from '../lib/i18n'
+
+export interface OffboardRunOptions {
+  /**
+   * Called as each step finishes, for progress
+   */
+  onResult?: (result: OffboardStepResult) => void;
+}
+
+// The primary group; never in memberOf and not removable
+const DOMAIN_USERS = 'domain users'
+
+const removableGroups = (prior: OffboardPriorState): string[] =>
+  prior.groups.filter(group => group.toLowerCase() !== DOMAIN_USERS)
+
+export class OffboardAPI extends BaseAPI {
+  /**
+   * Offboarding records, newest first; only those of `username` when given
+   */
+  static async list (username?: string): Promise<OffboardRecord[]> {
+    try {
+      const records = await this.getOffboardStore().read()
+      return records
+        .filter(record => !username || record.username.toLowerCase() === username.toLowerCase())
+        .sort((a, b) => b.offboardedAt.localeCompare(a.offboardedAt))
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to read offboarding records: $0'), (error as Error).message),
+        'OFFBOARD_READ_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * Offboard a user. The current state is recorded before anything is
+   * changed, so the steps can be reverted; then every chosen step runs,
+   * and a failed step does not stop the ones after it.
+   */
+  static async offboard (username: string, options: OffboardOptions, run: OffboardRunOptions = {}): Promise<OffboardRecord> {
+    this.validateRequired({ username }, ['username'])
+    if (options.steps.includes('move')) {
+      this.validateRequired({ leaversOU: options.leaversOU }, ['leaversOU'])
+    }
+
+    let prior: OffboardPriorState
+    try {
+      prior = await this.captureState(username)
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to read the current state of $0, nothing was changed: $1'), username, (error as Error).message),
+        'OFFBOARD_READ_FAILED',
+        error
+      )
+    }
+
+    const now = new Date()
+    const record: OffboardRecord = {
+      id: `${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      username,
+      ticket: options.ticket?.trim() || undefined,
+      offboardedAt: now.toISOString(),
+      offboardedBy: await this.getAuditStore().currentUser(),
+      prior,
+      results: []
+    }
+    await this.saveRecord(record, _('Failed to record the state of $0, nothing was changed: $1'))
+
+    for (const { step } of OFFBOARD_STEPS.filter(({ step }) => options.steps.includes(step))) {
+      const result = await this.runStep(step, () => this.offboardStep(step, record, options, now))
+      record.results.push(result)
+      run.onResult?.(result)
+    }
+
+    await this.saveRecord(record, _('$0 was offboarded, but the results could not be recorded: $1'))
+    return record
+  }
+
+  /**
+   * Undo the steps of an offboarding, last first, see revertableSteps().
+   * Each step compares the prior state with the current one, so a step
+   * that was carried out in part is undone in part. The offboarding only
+   * counts as reverted once no step failed; until then the failed steps
+   * can be reverted again. The random password cannot be undone.
+   */
+  static async revert (id: string, run: OffboardRunOptions = {}): Promise<OffboardRecord> {
+    const record = (await this.list()).find(candidate => candidate.id === id)
+    if (!record) {
+      throw new APIError(_('The offboarding record no longer exists'), 'OFFBOARD_NOT_FOUND')
+    }
+    if (record.revertedAt) {
+      throw new APIError(format(_('The offboarding of $0 was already reverted'), record.username), 'OFFBOARD_ALREADY_REVERTED')
+    }
+
+    const steps = revertableSteps(record)
+    const results: OffboardStepResult[] = (record.revertResults || []).filter(result => !steps.includes(result.step))
+
+    for (const step of steps) {
+      const result: OffboardStepResult = step === 'password'
+        ? { step, status: 'skipped', message: _('The old password cannot be restored; set a new one for the user') }
+        : await this.runStep(step, () => this.revertStep(step, record))
+      results.push(result)
+      run.onResult?.(result)
+    }
+
+    const reverted: OffboardRecord = { ...record, revertResults: results }
+    if (!results.some(result => result.status === 'failed')) {
+      reverted.revertedAt = new Date().toISOString()
+      reverted.revertedBy = await this.getAuditStore().currentUser()
+    }
+
+    await this.saveRecord(reverted, _('The offboarding of $0 was reverted, but this could not be recorded: $1'))
+    return reverted
+  }
+
+  private static async captureState (username: string): Promise<OffboardPriorState> {
+    const user = await this.scoped(UserAPI).show(username)
+    const spns = await this.scoped(SPNAPI).list(username)
+    const delegation = await this.scoped(DelegationAPI).showDelegation(username)
+
+    return {
+      distinguishedName: user.distinguishedName || '',
+      enabled: user.enabled,
+      description: user.description,
+      organizationalUnit: user.organizationalUnit,
+      groups: user.groups,
+      spns: spns.map(spn => spn.name),
+      delegation: {
+        anyService: delegation.anyService,
+        anyProtocol: delegation.anyProtocol,
+        services: delegation.allowedServices
+      }
+    }
+  }
+
+  private static async runStep (step: OffboardStep, action: () => Promise<string | null>): Promise<OffboardStepResult> {
+    try {
+      const message = await action()
+      return message === null
+        ? { step, status: 'skipped', message: _('Nothing to do') }
+        : { step, status: 'done', message: message || undefined }
+    } catch (error) {
+      return { step, status: 'failed', message: (error as Error).message }
+    }
+  }
+
+  /**
+   * Carry out one step; resolves to a message, or null when there was
+   * nothing to do
+   */
+  private static async offboardStep (
+    step: OffboardStep,
+    record: OffboardRecord,
+    options: OffboardOptions,
+    now: Date
+  ): Promise<string | null> {
+    const { username, prior } = record
+
+    switch (step) {
+      case 'disable':
+        if (!prior.enabled) return null
+        await this.scoped(UserAPI).disable(username)
+        return ''
+
+      case 'password':
+        await this.scoped(UserAPI).setPassword(username, generatePassword(await this.passwordRules(username), { username }))
+        return ''
+
+      case 'groups': {
+        const groups = removableGroups(prior)
+        if (!groups.length) return null
+        for (const group of groups) {
+          await this.scoped(GroupAPI).removeMembers(group, [username])
+        }
+        return format(ngettext('Removed from $0 group', 'Removed from $0 groups', groups.length), groups.length)
+      }
+
+      case 'move': {
+        const target = options.leaversOU?.trim() || ''
+        if (target.toLowerCase() === (prior.organizationalUnit || '').toLowerCase()) return null
+        await this.scoped(UserAPI).move(username, target)
+        return format(_('Moved to $0'), target)
+      }
+
+      case 'description': {
+        const stamp = offboardStamp(now, options.ticket)
+        await this.scoped(UserAPI).update({ username, description: prior.description ? `${stamp} ${prior.description}` : stamp })
+        return stamp
+      }
+
+      case 'spns':
+        if (!prior.spns.length) return null
+        for (const name of prior.spns) {
+          await this.scoped(SPNAPI).delete({ name, user: username })
+        }
+        return format(ngettext('Removed $0 SPN', 'Removed $0 SPNs', prior.spns.length), prior.spns.length)
+
+      case 'delegation': {
+        const { anyService, anyProtocol, services } = prior.delegation
+        if (!anyService && !anyProtocol && !services.length) return null
+        if (anyService) {
+          await this.scoped(DelegationAPI).setAnyService({ accountName: username, enable: false })
+        }
+        if (anyProtocol) {
+          await this.scoped(DelegationAPI).setAnyProtocol({ accountName: username, enable: false })
+        }
+        for (const principal of services) {
+          await this.scoped(DelegationAPI).deleteService({ accountName: username, principal })
+        }
+        return ''
+      }
+    }
+  }
+
+  /**
+   * Undo one step by restoring what the prior state has and the account
+   * lacks now; resolves to null when nothing was missing
+   */
+  private static async revertStep (step: OffboardStep, record: OffboardRecord): Promise<string | null> {
+    const { username, prior } = record
+    const same = (a?: string, b?: string) => (a || '').toLowerCase() === (b || '').toLowerCase()
+
+    switch (step) {
+      case 'disable':
+        if (!prior.enabled || (await this.scoped(UserAPI).show(username)).enabled) return null
+        await this.scoped(UserAPI).enable(username)
+        return ''
+
+      case 'password':
+        // Reported by revert() without running anything
+        return null
+
+      case 'groups': {
+        const current = (await this.scoped(UserAPI).show(username)).groups
+        const groups = removableGroups(prior).filter(group => !current.some(other => same(other, group)))
+        if (!groups.length) return null
+        for (const group of groups) {
+          await this.scoped(GroupAPI).addMembers(group, [username])
+        }
+        return format(ngettext('Added back to $0 group', 'Added back to $0 groups', groups.length), groups.length)
+      }
+
+      case 'move':
+        if (!prior.organizationalUnit) return null
+        if (same((await this.scoped(UserAPI).show(username)).organizationalUnit, prior.organizationalUnit)) return null
+        await this.scoped(UserAPI).move(username, prior.organizationalUnit)
+        return format(_('Moved back to $0'), prior.organizationalUnit)
+
+      case 'description':
+        if ((await this.scoped(UserAPI).show(username)).description === prior.description) return null
+        await this.scoped(UserAPI).update({ username, description: prior.description || '' })
+        return ''
+
+      case 'spns': {
+        const current = (await this.scoped(SPNAPI).list(username)).map(spn => spn.name)
+        const spns = prior.spns.filter(name => !current.some(other => same(other, name)))
+        if (!spns.length) return null
+        for (const name of spns) {
+          await this.scoped(SPNAPI).add({ name, user: username })
+        }
+        return format(ngettext('Added back $0 SPN', 'Added back $0 SPNs', spns.length), spns.length)
+      }
+
+      case 'delegation': {
+        const current = await this.scoped(DelegationAPI).showDelegation(username)
+        const { anyService, anyProtocol } = prior.delegation
+        const services = prior.delegation.services.filter(principal => !current.allowedServices.some(other => same(other, principal)))
+        const anyProtocolMissing = anyProtocol && !current.anyProtocol
+        const anyServiceMissing = anyService && !current.anyService
+        if (!services.length && !anyProtocolMissing && !anyServiceMissing) return null
+        for (const principal of services) {
+          await this.scoped(DelegationAPI).addService({ accountName: username, principal })
+        }
+        if (anyProtocolMissing) {
+          await this.scoped(DelegationAPI).setAnyProtocol({ accountName: username, enable: true })
+        }
+        if (anyServiceMissing) {
+          await this.scoped(DelegationAPI).setAnyService({ accountName: username, enable: true })
+        }
+        return ''
+      }
+    }
+  }
+
+  /**
+   * The rules the random password must meet, falling back to the domain
+   * settings and then to Samba's defaults
+   */
+  private static async passwordRules (username: string): Promise<PasswordRules> {
+    try {
+      return (await this.scoped(PasswordPolicyAPI).getResultantPolicy(username)).settings
+    } catch {
+      try {
+        return await this.scoped(PasswordPolicyAPI).getDomainSettings()
+      } catch {
+        return DEFAULT_PASSWORD_RULES
+      }
+    }
+  }
+
+  /**
+   * Add or replace the record; `message` takes the username and the error
+   */
+  private static async saveRecord (record: OffboardRecord, message: string): Promise<void> {
+    try {
+      await this.getOffboardStore().update(records => [
+        ...records.filter(existing => existing.id !== record.id),
+        record
+      ])
+    } catch (error) {
+      throw new APIError(
+        format(message, record.username, (error as Error).message),
+        'OFFBOARD_RECORD_FAILED',
+        error
+      )
+    }
+  }
+}
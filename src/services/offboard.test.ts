@@ -0,0 +1,144 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { SPNAPI } from './spn-api'
+import { DelegationAPI } from './delegation-api'
+import { OffboardAPI } from './offboard-api'
+import { MemoryOffboardStore, OFFBOARD_STEPS } from './offboard'
+import { MemoryAuditStore } from './audit'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+import type { CommandTransport } from './transport'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+const LEAVERS = 'OU=Leavers,DC=samdom,DC=example,DC=com'
+
+/**
+ * The sample domain, except that samba-tool commands starting with
+ * `failing` fail while it is set
+ */
+const failingTransport = (): CommandTransport & { failing: string[] } => {
+  const fake = new FakeSambaTransport({ directory: FakeDirectory.createSample() })
+  return {
+    name: 'failing',
+    failing: [],
+    async spawn (command, options) {
+      if (this.failing.length && this.failing.every((arg, index) => command[index + 1] === arg)) {
+        throw new Error(`ERROR: ${this.failing.join(' ')} failed`)
+      }
+      return fake.spawn(command, options)
+    }
+  }
+}
+
+describe('Offboarding', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+    BaseAPI.setOffboardStore(new MemoryOffboardStore())
+  })
+
+  it('runs every step, records the prior state and reverts it', async () => {
+    await DelegationAPI.setAnyProtocol({ accountName: 'bob', enable: true })
+
+    const record = await OffboardAPI.offboard('bob', {
+      steps: OFFBOARD_STEPS.map(({ step }) => step),
+      leaversOU: LEAVERS,
+      ticket: 'INC-42'
+    })
+
+    expect(record.results.map(result => [result.step, result.status])).toEqual([
+      ['disable', 'done'],
+      ['password', 'done'],
+      ['groups', 'done'],
+      ['move', 'done'],
+      ['description', 'done'],
+      ['spns', 'done'],
+      ['delegation', 'done']
+    ])
+    expect(record.prior).toMatchObject({
+      enabled: true,
+      groups: ['Engineers'],
+      organizationalUnit: 'OU=Engineering,OU=Staff,DC=samdom,DC=example,DC=com',
+      spns: ['HTTP/build.samdom.example.com'],
+      delegation: { anyService: false, anyProtocol: true, services: ['cifs/files.samdom.example.com'] }
+    })
+
+    const bob = await UserAPI.show('bob')
+    expect(bob).toMatchObject({ enabled: false, groups: [], organizationalUnit: LEAVERS })
+    expect(bob.description).toMatch(/^\[Offboarded \d{4}-\d{2}-\d{2} INC-42\]$/)
+    expect(await SPNAPI.list('bob')).toEqual([])
+    expect(await DelegationAPI.showDelegation('bob')).toMatchObject({ anyProtocol: false, allowedServices: [] })
+
+    expect((await OffboardAPI.list('bob')).map(entry => entry.id)).toEqual([record.id])
+
+    const reverted = await OffboardAPI.revert(record.id)
+    expect(reverted.revertResults?.find(result => result.step === 'password')?.status).toBe('skipped')
+    expect(reverted.revertResults?.filter(result => result.status === 'failed')).toEqual([])
+
+    const restored = await UserAPI.show('bob')
+    expect(restored).toMatchObject({ enabled: true, groups: ['Engineers'], organizationalUnit: record.prior.organizationalUnit })
+    expect(restored.description).toBeUndefined()
+    expect((await SPNAPI.list('bob')).map(spn => spn.name)).toEqual(['HTTP/build.samdom.example.com'])
+    expect(await DelegationAPI.showDelegation('bob')).toMatchObject({ anyProtocol: true, allowedServices: ['cifs/files.samdom.example.com'] })
+
+    await expect(OffboardAPI.revert(record.id)).rejects.toMatchObject({ code: 'OFFBOARD_ALREADY_REVERTED' })
+  })
+
+  it('reports a failed step and carries on with the rest', async () => {
+    const record = await OffboardAPI.offboard('carol', {
+      steps: ['disable', 'move', 'description'],
+      leaversOU: 'OU=Nowhere,DC=samdom,DC=example,DC=com'
+    })
+
+    // carol is already disabled
+    expect(record.results.map(result => [result.step, result.status])).toEqual([
+      ['disable', 'skipped'],
+      ['move', 'failed'],
+      ['description', 'done']
+    ])
+  })
+
+  it('reverts a step that was carried out in part', async () => {
+    const transport = failingTransport()
+    BaseAPI.setTransport(transport)
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+    BaseAPI.setOffboardStore(new MemoryOffboardStore())
+    await DelegationAPI.setAnyProtocol({ accountName: 'bob', enable: true })
+
+    transport.failing = ['delegation', 'del-service']
+    const record = await OffboardAPI.offboard('bob', { steps: ['delegation'] })
+    expect(record.results[0].status).toBe('failed')
+    expect(await DelegationAPI.showDelegation('bob')).toMatchObject({ anyProtocol: false })
+
+    transport.failing = []
+    const reverted = await OffboardAPI.revert(record.id)
+    expect(reverted.revertResults).toMatchObject([{ step: 'delegation', status: 'done' }])
+    expect(await DelegationAPI.showDelegation('bob')).toMatchObject({ anyProtocol: true, allowedServices: ['cifs/files.samdom.example.com'] })
+  })
+
+  it('lets a revert with a failed step be retried', async () => {
+    const transport = failingTransport()
+    BaseAPI.setTransport(transport)
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+    BaseAPI.setOffboardStore(new MemoryOffboardStore())
+    const record = await OffboardAPI.offboard('bob', { steps: ['disable', 'groups'] })
+
+    transport.failing = ['user', 'enable']
+    const failed = await OffboardAPI.revert(record.id)
+    expect(failed.revertedAt).toBeUndefined()
+    expect(failed.revertResults?.map(result => [result.step, result.status])).toEqual([
+      ['groups', 'done'],
+      ['disable', 'failed']
+    ])
+
+    transport.failing = []
+    const results: string[] = []
+    const retried = await OffboardAPI.revert(record.id, { onResult: result => results.push(result.step) })
+    expect(results).toEqual(['disable'])
+    expect(retried.revertedAt).toBeDefined()
+    expect(retried.revertResults?.map(result => [result.step, result.status])).toEqual([
+      ['groups', 'done'],
+      ['disable', 'done']
+    ])
+    expect(await UserAPI.show('bob')).toMatchObject({ enabled: true, groups: ['Engineers'] })
+  })
+})
@@ -0,0 +1,65 @@
+// Offboarding
+
+import { CockpitJsonStore, MemoryJsonStore, type JsonStore } from './json-store'
+import type { OffboardRecord, OffboardStep } from '@/types/samba'
+import { N_ } from '@/lib/i18n'
+
+/**
+ * The steps in the order they are carried out; a revert undoes them in
+ * reverse
+ */
+export const OFFBOARD_STEPS: Array<{ step: OffboardStep; label: string; description: string }> = [
+  { step: 'disable', label: N_('Disable the account'), description: N_('The user can no longer log on') },
+  { step: 'password', label: N_('Reset the password'), description: N_('To a random password nobody knows; this cannot be reverted') },
+  { step: 'groups', label: N_('Remove group memberships'), description: N_('Every group except Domain Users') },
+  { step: 'move', label: N_('Move to the leavers OU'), description: N_('Out of the OUs their group policies and delegations apply to') },
+  { step: 'description', label: N_('Stamp the description'), description: N_('With the date and the ticket number') },
+  { step: 'spns', label: N_('Remove service principal names'), description: N_('So no service keeps authenticating as the user') },
+  { step: 'delegation', label: N_('Remove delegation'), description: N_('Unconstrained, protocol transition and constrained delegation') }
+]
+
+/**
+ * The steps a revert of `record` undoes, last first: those that succeeded
+ * and those that failed, which may have been carried out in part, except
+ * the ones an earlier revert already undid. A failed password reset
+ * changed nothing that could be undone.
+ */
+export function revertableSteps (record: OffboardRecord): OffboardStep[] {
+  const undone = (record.revertResults || []).filter(result => result.status !== 'failed').map(result => result.step)
+  const changed = record.results
+    .filter(({ step, status }) => status === 'done' || (status === 'failed' && step !== 'password'))
+    .map(result => result.step)
+
+  return OFFBOARD_STEPS.map(({ step }) => step).reverse().filter(step => changed.includes(step) && !undone.includes(step))
+}
+
+/**
+ * Offboarding records: a JSON file on the server, or memory in the sandbox
+ */
+export type OffboardStore = JsonStore<OffboardRecord>
+
+/**
+ * The text put in front of the description, e.g. "[Offboarded 2026-10-19 INC-1234]"
+ */
+export function offboardStamp (date: Date, ticket?: string): string {
+  const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  return `[${['Offboarded', day, ticket?.trim()].filter(Boolean).join(' ')}]`
+}
+
+/**
+ * The leavers OU next to the user's own OUs, at the top of the domain
+ */
+export function defaultLeaversOU (distinguishedName?: string): string {
+  const domain = (distinguishedName || '').split(',').filter(part => /^DC=/i.test(part.trim()))
+  return ['OU=Leavers', ...domain].join(',')
+}
+
+export class CockpitOffboardStore extends CockpitJsonStore<OffboardRecord> {
+  static readonly DEFAULT_PATH = '/var/lib/cockpit-samba-ad-dc/offboarding.json'
+
+  constructor (path: string = CockpitOffboardStore.DEFAULT_PATH) {
+    super(path)
+  }
+}
+
+export class MemoryOffboardStore extends MemoryJsonStore<OffboardRecord> {}
@@ -1,6 +1,7 @@
 import { BaseAPI } from './base-api'
 import { SambaOU, SambaOUObject, CreateOUInput, MoveOUInput, RenameOUInput } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class OrganizationUnitAPI extends BaseAPI {
   /**
@@ -19,7 +20,7 @@ export class OrganizationUnitAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to create organizational unit: ${(error as Error).message}`,
+        format(_('Failed to create organizational unit: $0'), (error as Error).message),
         'OU_CREATE_FAILED',
         error
       )
@@ -37,7 +38,7 @@ export class OrganizationUnitAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to delete organizational unit: ${(error as Error).message}`,
+        format(_('Failed to delete organizational unit: $0'), (error as Error).message),
         'OU_DELETE_FAILED',
         error
       )
@@ -55,7 +56,7 @@ export class OrganizationUnitAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to move organizational unit: ${(error as Error).message}`,
+        format(_('Failed to move organizational unit: $0'), (error as Error).message),
         'OU_MOVE_FAILED',
         error
       )
@@ -73,7 +74,7 @@ export class OrganizationUnitAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to rename organizational unit: ${(error as Error).message}`,
+        format(_('Failed to rename organizational unit: $0'), (error as Error).message),
         'OU_RENAME_FAILED',
         error
       )
@@ -89,7 +90,7 @@ export class OrganizationUnitAPI extends BaseAPI {
       return this.parseOUList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list organizational units: ${(error as Error).message}`,
+        format(_('Failed to list organizational units: $0'), (error as Error).message),
         'OU_LIST_FAILED',
         error
       )
@@ -107,7 +108,7 @@ export class OrganizationUnitAPI extends BaseAPI {
       return this.parseOUObjects(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list OU objects: ${(error as Error).message}`,
+        format(_('Failed to list OU objects: $0'), (error as Error).message),
         'OU_OBJECTS_LIST_FAILED',
         error
       )
@@ -128,7 +129,7 @@ export class OrganizationUnitAPI extends BaseAPI {
 
       const ou = ouList.find(u => u.distinguishedName === ouDN)
       if (!ou) {
-        throw new Error(`Organizational unit with DN "${ouDN}" not found`)
+        throw new Error(format(_('Organizational unit with DN "$0" not found'), ouDN))
       }
 
       return {
@@ -137,7 +138,7 @@ export class OrganizationUnitAPI extends BaseAPI {
       }
     } catch (error) {
       throw new APIError(
-        `Failed to get organizational unit: ${(error as Error).message}`,
+        format(_('Failed to get organizational unit: $0'), (error as Error).message),
         'OU_GET_FAILED',
         error
       )
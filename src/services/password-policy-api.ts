@@ -0,0 +1,316 @@
+// Password Policy API Service
+
+import { BaseAPI, APIUtils } from './base-api'
+import type {
+  PasswordSettings,
+  PasswordSettingsObject,
+  PSOTarget,
+  CreatePSOInput,
+  UpdatePSOInput,
+  ResultantPasswordPolicy
+} from '../types/samba'
+import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
+import { rdnValue } from '../lib/dn'
+
+type SettingKey = keyof PasswordSettings
+
+/**
+ * How each setting is printed by `passwordsettings show` and `pso show`,
+ * and the option that sets it
+ */
+const SETTINGS: Record<SettingKey, { label: string; option: string }> = {
+  complexity: { label: 'password complexity', option: 'complexity' },
+  storePlaintext: { label: 'store plaintext passwords', option: 'store-plaintext' },
+  historyLength: { label: 'password history length', option: 'history-length' },
+  minLength: { label: 'minimum password length', option: 'min-pwd-length' },
+  minAge: { label: 'minimum password age (days)', option: 'min-pwd-age' },
+  maxAge: { label: 'maximum password age (days)', option: 'max-pwd-age' },
+  lockoutDuration: { label: 'account lockout duration (mins)', option: 'account-lockout-duration' },
+  lockoutThreshold: { label: 'account lockout threshold (attempts)', option: 'account-lockout-threshold' },
+  resetLockoutAfter: { label: 'reset account lockout after (mins)', option: 'reset-account-lockout-after' }
+}
+
+const BOOLEAN_SETTINGS: SettingKey[] = ['complexity', 'storePlaintext']
+
+export class PasswordPolicyAPI extends BaseAPI {
+  static readonly requirements = {
+    pso: { command: 'domain passwordsettings pso' }
+  }
+
+  /**
+   * The domain-wide password and lockout settings
+   */
+  static async getDomainSettings (): Promise<PasswordSettings> {
+    try {
+      const output = await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'show'])
+      return this.parseSettings(output)
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to read the password settings: $0'), (error as Error).message),
+        'PASSWORD_SETTINGS_SHOW_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * Change the domain settings; settings left out keep their value
+   */
+  static async setDomainSettings (settings: Partial<PasswordSettings>): Promise<PasswordSettings> {
+    const options = this.settingsOptions(settings)
+    if (!options.length) {
+      return this.getDomainSettings()
+    }
+
+    try {
+      await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'set', ...options])
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to change the password settings: $0'), (error as Error).message),
+        'PASSWORD_SETTINGS_SET_FAILED',
+        error
+      )
+    }
+    return this.getDomainSettings()
+  }
+
+  /**
+   * All Password Settings Objects, lowest precedence first
+   */
+  static async listPSOs (): Promise<PasswordSettingsObject[]> {
+    await this.requireCapability(this.requirements.pso)
+
+    let names: string[]
+    try {
+      const output = await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'pso', 'list'])
+      names = output.split('\n')
+        .map(line => line.match(/^\s*\d+\s*\|\s*(.+?)\s*$/)?.[1])
+        .filter((name): name is string => !!name)
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to list password settings objects: $0'), (error as Error).message),
+        'PSO_LIST_FAILED',
+        error
+      )
+    }
+
+    const psos = await Promise.all(names.map(name => this.getPSO(name)))
+    return psos.sort((a, b) => a.precedence - b.precedence)
+  }
+
+  static async getPSO (name: string): Promise<PasswordSettingsObject> {
+    this.validateRequired({ name }, ['name'])
+    await this.requireCapability(this.requirements.pso)
+
+    try {
+      const output = await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'pso', 'show', name])
+      const { appliesTo, ...pso } = this.parsePSO(output, name)
+      return { ...pso, appliesTo: await this.resolveTargets(appliesTo) }
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to show password settings object $0: $1'), name, (error as Error).message),
+        'PSO_SHOW_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * Create a PSO. Settings left out are copied from the domain settings
+   * by samba-tool.
+   */
+  static async createPSO (input: CreatePSOInput): Promise<PasswordSettingsObject> {
+    this.validateRequired(input as unknown as Record<string, unknown>, ['name', 'precedence'])
+    await this.requireCapability(this.requirements.pso)
+
+    const { name, precedence, ...settings } = input
+    try {
+      await this.executeCommand([
+        'samba-tool', 'domain', 'passwordsettings', 'pso', 'create',
+        name, String(precedence), ...this.settingsOptions(settings)
+      ])
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to create password settings object: $0'), (error as Error).message),
+        'PSO_CREATE_FAILED',
+        error
+      )
+    }
+    return this.getPSO(name)
+  }
+
+  static async updatePSO (input: UpdatePSOInput): Promise<PasswordSettingsObject> {
+    this.validateRequired(input as unknown as Record<string, unknown>, ['name'])
+    await this.requireCapability(this.requirements.pso)
+
+    const { name, precedence, ...settings } = input
+    const options = this.settingsOptions(settings)
+    if (precedence !== undefined) {
+      options.unshift(`--precedence=${precedence}`)
+    }
+
+    try {
+      if (options.length) {
+        await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'pso', 'set', name, ...options])
+      }
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to change password settings object: $0'), (error as Error).message),
+        'PSO_SET_FAILED',
+        error
+      )
+    }
+    return this.getPSO(name)
+  }
+
+  static async deletePSO (name: string): Promise<void> {
+    this.validateRequired({ name }, ['name'])
+    await this.requireCapability(this.requirements.pso)
+
+    try {
+      await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'pso', 'delete', name])
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to delete password settings object: $0'), (error as Error).message),
+        'PSO_DELETE_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * Apply a PSO to a user or group, given by account name
+   */
+  static async applyPSO (name: string, target: string): Promise<void> {
+    this.validateRequired({ name, target }, ['name', 'target'])
+    await this.requireCapability(this.requirements.pso)
+
+    try {
+      await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'pso', 'apply', name, target])
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to apply password settings object: $0'), (error as Error).message),
+        'PSO_APPLY_FAILED',
+        error
+      )
+    }
+  }
+
+  static async unapplyPSO (name: string, target: string): Promise<void> {
+    this.validateRequired({ name, target }, ['name', 'target'])
+    await this.requireCapability(this.requirements.pso)
+
+    try {
+      await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'pso', 'unapply', name, target])
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to unapply password settings object: $0'), (error as Error).message),
+        'PSO_UNAPPLY_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * The settings in force for a user: the winning PSO, applied directly or
+   * through a group, or else the domain settings
+   */
+  static async getResultantPolicy (username: string): Promise<ResultantPasswordPolicy> {
+    this.validateRequired({ username }, ['username'])
+    await this.requireCapability(this.requirements.pso)
+
+    let output: string
+    try {
+      output = await this.executeCommand(['samba-tool', 'domain', 'passwordsettings', 'pso', 'show-user', username])
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to find the password settings of user $0: $1'), username, (error as Error).message),
+        'PSO_SHOW_USER_FAILED',
+        error
+      )
+    }
+
+    if (/No PSO applies/i.test(output)) {
+      return { username, settings: await this.getDomainSettings() }
+    }
+
+    return { username, pso: this.parsePSO(output, '').name, settings: this.parseSettings(output) }
+  }
+
+  /**
+   * Look up the account names of the DNs a PSO applies to, in one search
+   */
+  private static async resolveTargets (dns: string[]): Promise<PSOTarget[]> {
+    if (!dns.length) {
+      return []
+    }
+
+    const entries = await this.search({
+      filter: `(|${dns.map(dn => `(distinguishedName=${APIUtils.escapeLDAP(dn)})`).join('')})`,
+      attributes: ['sAMAccountName', 'objectClass']
+    })
+
+    return dns.map(dn => {
+      const entry = entries.find(candidate => candidate.dn.toLowerCase() === dn.toLowerCase())
+      const classes = entry ? this.ldifValues(entry, 'objectClass').map(value => value.toLowerCase()) : []
+      return {
+        distinguishedName: dn,
+        name: (entry && this.ldifValue(entry, 'sAMAccountName')) || rdnValue(dn),
+        kind: classes.includes('group') ? 'group' : 'user'
+      }
+    })
+  }
+
+  /**
+   * `--option=value` arguments for the settings that are given
+   */
+  private static settingsOptions (settings: Partial<PasswordSettings>): string[] {
+    return (Object.keys(SETTINGS) as SettingKey[])
+      .filter(key => settings[key] !== undefined)
+      .map(key => {
+        const value = settings[key]
+        return `--${SETTINGS[key].option}=${typeof value === 'boolean' ? (value ? 'on' : 'off') : value}`
+      })
+  }
+
+  /**
+   * Parse the "Label: value" lines both show commands print
+   */
+  private static parseSettings (output: string): PasswordSettings {
+    const settings: Partial<Record<SettingKey, boolean | number>> = {}
+    const keys = Object.keys(SETTINGS) as SettingKey[]
+
+    output.split('\n').forEach(line => {
+      const separator = line.lastIndexOf(':')
+      if (separator < 0) return
+
+      const label = line.slice(0, separator).trim().toLowerCase()
+      const value = line.slice(separator + 1).trim()
+      const key = keys.find(candidate => SETTINGS[candidate].label === label)
+      if (!key) return
+
+      settings[key] = BOOLEAN_SETTINGS.includes(key) ? value.toLowerCase() === 'on' : parseInt(value, 10) || 0
+    })
+
+    const missing = keys.filter(key => settings[key] === undefined)
+    if (missing.length) {
+      throw new Error(format(_('Unexpected output, missing $0'), missing.map(key => SETTINGS[key].label).join(', ')))
+    }
+    return settings as unknown as PasswordSettings
+  }
+
+  private static parsePSO (output: string, fallbackName: string): PasswordSettings & { name: string; precedence: number; appliesTo: string[] } {
+    const lines = output.split('\n')
+    const appliesAt = lines.findIndex(line => /applies directly to/i.test(line))
+
+    return {
+      ...this.parseSettings(output),
+      name: output.match(/PSO '(.+?)'/)?.[1] || fallbackName,
+      precedence: parseInt(output.match(/Precedence[^:]*:\s*(\d+)/i)?.[1] || '0', 10),
+      appliesTo: appliesAt < 0
+        ? []
+        : lines.slice(appliesAt + 1).map(line => line.trim()).filter(line => /^(CN|OU|DC)=/i.test(line))
+    }
+  }
+}
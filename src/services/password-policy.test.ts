@@ -0,0 +1,54 @@
+import { BaseAPI } from './base-api'
+import { PasswordPolicyAPI } from './password-policy-api'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+describe('Password policy', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+  })
+
+  it('reads and changes the domain settings', async () => {
+    expect(await PasswordPolicyAPI.getDomainSettings()).toEqual({
+      complexity: true,
+      storePlaintext: false,
+      historyLength: 24,
+      minLength: 7,
+      minAge: 1,
+      maxAge: 42,
+      lockoutDuration: 30,
+      lockoutThreshold: 0,
+      resetLockoutAfter: 30
+    })
+
+    const changed = await PasswordPolicyAPI.setDomainSettings({ minLength: 10, lockoutThreshold: 5, maxAge: 0 })
+    expect(changed).toMatchObject({ minLength: 10, lockoutThreshold: 5, maxAge: 0, complexity: true })
+
+    await expect(PasswordPolicyAPI.setDomainSettings({ historyLength: 30 })).rejects.toThrow(/range of 0 to 24/)
+  })
+
+  it('creates, applies and resolves fine-grained settings', async () => {
+    await PasswordPolicyAPI.createPSO({ name: 'Sales', precedence: 20, minLength: 12, complexity: false })
+
+    const psos = await PasswordPolicyAPI.listPSOs()
+    expect(psos.map(pso => [pso.name, pso.precedence])).toEqual([['Admins', 10], ['Sales', 20]])
+    // Settings that were not given are copied from the domain
+    expect(psos[1]).toMatchObject({ minLength: 12, complexity: false, historyLength: 24, appliesTo: [] })
+
+    await PasswordPolicyAPI.applyPSO('Sales', 'Sales Team')
+    expect((await PasswordPolicyAPI.getPSO('Sales')).appliesTo).toEqual([
+      { distinguishedName: 'CN=Sales Team,OU=Sales,OU=Staff,DC=samdom,DC=example,DC=com', name: 'Sales Team', kind: 'group' }
+    ])
+
+    const alice = await PasswordPolicyAPI.getResultantPolicy('alice')
+    expect(alice).toMatchObject({ pso: 'Sales', settings: { minLength: 12 } })
+
+    await PasswordPolicyAPI.unapplyPSO('Sales', 'Sales Team')
+    const fallback = await PasswordPolicyAPI.getResultantPolicy('alice')
+    expect(fallback.pso).toBeUndefined()
+    expect(fallback.settings.minLength).toBe(7)
+
+    expect((await PasswordPolicyAPI.getResultantPolicy('Administrator')).pso).toBe('Admins')
+  })
+})
@@ -0,0 +1,82 @@
+import { BaseAPI } from './base-api'
+import { DomainAPI } from './domain-api'
+import { MemoryAuditStore } from './audit'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+import { createLineReader } from './transport'
+import { PROVISION_PHASES, getCommandPhases, matchPhase, BACKUP_PHASES } from './progress'
+import { REDACTED } from '@/lib/redact'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+describe('command progress', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+  })
+
+  it('splits streamed chunks into lines', () => {
+    const lines: string[] = []
+    const reader = createLineReader(line => lines.push(line))
+
+    reader.push('Setting up SAM')
+    reader.push(' db\nPartition[1/2]\rPartition[2/2]\r\nDone')
+    expect(lines).toEqual(['Setting up SAM db', 'Partition[1/2]', 'Partition[2/2]'])
+
+    reader.flush()
+    expect(lines[3]).toBe('Done')
+  })
+
+  it('maps provision output to its phases without going backwards', () => {
+    expect(getCommandPhases(['samba-tool', 'domain', 'backup', 'online'])).toBe(BACKUP_PHASES)
+    expect(matchPhase(PROVISION_PHASES, 'Setting up SAM db')).toBe(1)
+    expect(matchPhase(PROVISION_PHASES, 'Setting up share.ldb', 3)).toBe(3)
+    expect(matchPhase(PROVISION_PHASES, 'unrelated line', 2)).toBe(2)
+  })
+
+  it('streams provision output and reaches every phase', async () => {
+    const lines: string[] = []
+    let phase = -1
+
+    await DomainAPI.promote('corp.example.com', 'Passw0rd!', '8.8.8.8', {
+      onOutput: line => {
+        lines.push(line)
+        phase = matchPhase(PROVISION_PHASES, line, phase)
+      }
+    })
+
+    expect(lines[0]).toBe('Looking up IPv4 addresses')
+    expect(phase).toBe(PROVISION_PHASES.length - 1)
+  })
+
+  it('says so when the domain was provisioned but the password was not set', async () => {
+    BaseAPI.setTransport({
+      name: 'stub',
+      spawn: async (command) => {
+        if (command.includes('setpassword')) {
+          throw new Error('ERROR: Failed to set password for user')
+        }
+        return ''
+      }
+    })
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+
+    await expect(DomainAPI.promote('corp.example.com', 'Passw0rd!'))
+      .rejects.toMatchObject({ code: 'DOMAIN_ADMIN_PASSWORD_NOT_SET' })
+  })
+
+  it('redacts secrets from streamed lines', async () => {
+    BaseAPI.setTransport({
+      name: 'stub',
+      spawn: async (_command, options) => {
+        options.onOutput?.('Admin password:        x8Jd2kQ')
+        return ''
+      }
+    })
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+    const lines: string[] = []
+
+    await DomainAPI.backupOffline({ targetdir: '/tmp' }, { onOutput: line => lines.push(line) })
+
+    expect(lines).toEqual([`Admin password:        ${REDACTED}`])
+  })
+})
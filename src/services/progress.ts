@@ -0,0 +1,172 @@
+// Command Progress
+
+import { describeCommand } from './audit'
+import { _ } from '@/lib/i18n'
+
+/**
+ * A stage of a long-running samba-tool command, recognised by the log
+ * lines the command prints when it reaches that stage
+ */
+export interface CommandPhase {
+  id: string;
+  name: string;
+  description: string;
+  pattern: RegExp;
+}
+
+export const PROVISION_PHASES: CommandPhase[] = [
+  {
+    id: 'prepare',
+    name: _('Preparation'),
+    description: _('Looking up addresses and creating the local databases'),
+    pattern: /Looking up IPv[46] addresses|Setting up (share|secrets)\.ldb|Setting up the registry|privileges database|idmap db/
+  },
+  {
+    id: 'schema',
+    name: _('Schema'),
+    description: _('Creating the SAM database and loading the AD schema'),
+    pattern: /Setting up SAM db|sam\.ldb partitions|Pre-loading the Samba 4 and AD schema|Setting up sam\.ldb schema/
+  },
+  {
+    id: 'directory',
+    name: _('Directory'),
+    description: _('Adding the domain, its containers and the built-in accounts'),
+    pattern: /Adding DomainDN|configuration container|display specifiers|(users|computers) container|Setting up sam\.ldb (data|users and groups)|well known security principals|Setting up self join/
+  },
+  {
+    id: 'dns',
+    name: _('DNS'),
+    description: _('Creating the DNS zones and accounts'),
+    pattern: /Adding DNS accounts|CN=MicrosoftDNS|(Domain|Forest)DnsZones/
+  },
+  {
+    id: 'finalize',
+    name: _('Finalization'),
+    description: _('Writing the Kerberos and server configuration'),
+    pattern: /Fixing provision GUIDs|Kerberos configuration|fake yp server|Server Role:/
+  },
+  {
+    id: 'administrator',
+    name: _('Administrator'),
+    description: _('Setting the Administrator password'),
+    pattern: /Setting the Administrator password/
+  }
+]
+
+export const JOIN_PHASES: CommandPhase[] = [
+  {
+    id: 'locate',
+    name: _('Locate DC'),
+    description: _('Finding a writeable domain controller'),
+    pattern: /Finding a writeable DC|Found DC|workgroup is|realm is/
+  },
+  {
+    id: 'account',
+    name: _('Computer account'),
+    description: _('Creating the domain controller account'),
+    pattern: /^Adding CN=|Calling bare provision/
+  },
+  {
+    id: 'provision',
+    name: _('Local databases'),
+    description: _('Provisioning the local databases'),
+    pattern: /Setting up (share|secrets)\.ldb|Provision OK/
+  },
+  {
+    id: 'replicate',
+    name: _('Replication'),
+    description: _('Replicating the directory partitions'),
+    pattern: /Starting replication|Schema-DN\[|Partition\[|Replicating/
+  },
+  {
+    id: 'finalize',
+    name: _('Finalization'),
+    description: _('Registering the DC and committing the database'),
+    pattern: /Committing SAM database|DsReplicaUpdateRefs|isSynchronized|Setting up secrets database|Joined domain/
+  }
+]
+
+export const BACKUP_PHASES: CommandPhase[] = [
+  {
+    id: 'prepare',
+    name: _('Preparation'),
+    description: _('Locking or replicating the databases'),
+    pattern: /Finding a writeable DC|running backup on dirs|Starting transaction|Starting replication/
+  },
+  {
+    id: 'databases',
+    name: _('Databases'),
+    description: _('Copying the SAM and private databases'),
+    pattern: /Backing up|Partition\[|Schema-DN\[|Replicating|tdbbackup/
+  },
+  {
+    id: 'sysvol',
+    name: _('SYSVOL'),
+    description: _('Saving SYSVOL and its ACLs'),
+    pattern: /(Backing up|Adding|Saving) .*sysvol|sysvol .*(ACLs|archive)/i
+  },
+  {
+    id: 'archive',
+    name: _('Archive'),
+    description: _('Writing the backup file'),
+    pattern: /Creating backup file/
+  },
+  {
+    id: 'done',
+    name: _('Done'),
+    description: _('Backup succeeded'),
+    pattern: /Backup succeeded|backup saved to/
+  }
+]
+
+export const SYSVOL_RESET_PHASES: CommandPhase[] = [
+  {
+    id: 'prepare',
+    name: _('Preparation'),
+    description: _('Reading the domain SID and SYSVOL location'),
+    pattern: /domain SID|Looking up|Using sysvol/i
+  },
+  {
+    id: 'sysvol',
+    name: _('SYSVOL'),
+    description: _('Resetting the ACLs of the SYSVOL share'),
+    pattern: /Resetting ACLs on (the )?(sysvol|\/)/i
+  },
+  {
+    id: 'policies',
+    name: _('Policies'),
+    description: _('Resetting the ACLs of every Group Policy folder'),
+    pattern: /Resetting ACLs on Polic|\{[0-9A-F-]{36}\}/i
+  }
+]
+
+const COMMAND_PHASES: Record<string, CommandPhase[]> = {
+  'domain provision': PROVISION_PHASES,
+  'domain join': JOIN_PHASES,
+  'domain backup offline': BACKUP_PHASES,
+  'domain backup online': BACKUP_PHASES,
+  'ntacl sysvolreset': SYSVOL_RESET_PHASES
+}
+
+/**
+ * The known phases of a command, or an empty list when its output cannot
+ * be mapped to progress
+ */
+export function getCommandPhases (command: string[]): CommandPhase[] {
+  return COMMAND_PHASES[describeCommand(command).operation] || []
+}
+
+/**
+ * Work out which phase a command has reached after printing a line.
+ * Phases never go backwards, so a later line that happens to match an
+ * earlier phase does not move the progress back.
+ */
+export function matchPhase (phases: CommandPhase[], line: string, current: number = -1): number {
+  for (let index = phases.length - 1; index > current; index--) {
+    if (phases[index].pattern.test(line)) {
+      return index
+    }
+  }
+
+  return current
+}
@@ -0,0 +1,71 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { DNSAPI } from './dns-api'
+import { MemoryAuditStore } from './audit'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+import {
+  ErrorHandler,
+  LDAPError,
+  NTStatusError,
+  SambaErrorParser,
+  WindowsError
+} from '@/lib/errors'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+describe('SambaErrorParser', () => {
+  it('decodes LDAP result codes from ldb', () => {
+    const error = SambaErrorParser.parseError(
+      "ERROR(ldb): Failed to add user 'alice':  - (68, 'Entry CN=alice,CN=Users,DC=samdom,DC=example,DC=com already exists')"
+    )
+
+    expect(error).toBeInstanceOf(LDAPError)
+    expect(error).toMatchObject({ code: 'LDAP_ENTRY_ALREADY_EXISTS', resultCode: 68, transient: false })
+    expect(error.message).toBe("Failed to add user 'alice': Entry CN=alice,CN=Users,DC=samdom,DC=example,DC=com already exists")
+    expect((error as LDAPError).remedy).toBeTruthy()
+  })
+
+  it('prefers the NTSTATUS wrapped in an LDAP error', () => {
+    const error = SambaErrorParser.parseError(
+      "ERROR(ldb): Failed to connect to 'ldap://dc1' with backend 'ldap': LDAP client internal error: NT_STATUS_IO_TIMEOUT - (1, 'LDAP client internal error: NT_STATUS_IO_TIMEOUT')"
+    )
+
+    expect(error).toBeInstanceOf(NTStatusError)
+    expect(error.code).toBe('NT_STATUS_IO_TIMEOUT')
+    expect(ErrorHandler.isRetryableError(error)).toBe(true)
+  })
+
+  it('only retries transient failures', () => {
+    expect(ErrorHandler.isRetryableError(SambaErrorParser.parseError('ERROR: NT_STATUS_LOGON_FAILURE'))).toBe(false)
+    expect(ErrorHandler.isRetryableError(SambaErrorParser.parseError("(51, 'Server is busy')"))).toBe(true)
+    expect(ErrorHandler.isRetryableError(SambaErrorParser.parseError("(50, 'Insufficient access')"))).toBe(false)
+  })
+
+  it('keeps unknown codes instead of dropping them', () => {
+    expect(SambaErrorParser.parseError('ERROR: something odd; (WERR_SOMETHING_NEW)').code).toBe('WERR_SOMETHING_NEW')
+    expect(SambaErrorParser.parseError("(4242, 'Unheard of')").code).toBe('LDAP_4242')
+  })
+})
+
+describe('Decoded errors from the sandbox transport', () => {
+  let store: MemoryAuditStore
+
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+    store = new MemoryAuditStore('admin')
+    BaseAPI.setAuditStore(store)
+  })
+
+  it('surfaces the LDAP code of a duplicate user', async () => {
+    await expect(UserAPI.create({ username: 'alice', password: 'Passw0rd!' }))
+      .rejects.toMatchObject({ code: 'LDAP_ENTRY_ALREADY_EXISTS' })
+  })
+
+  it('records the WERROR code of a missing zone in the audit trail', async () => {
+    const failure = DNSAPI.deleteZone({ server: 'dc1', zoneName: 'missing.example.com' })
+    await expect(failure).rejects.toMatchObject({ details: expect.any(WindowsError) })
+
+    const [entry] = await store.read()
+    expect(entry.errorCode).toBe('WERR_DNS_ERROR_ZONE_DOES_NOT_EXIST')
+  })
+})
@@ -0,0 +1,144 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { ComputerAPI } from './computer-api'
+import { CommandScheduler } from './scheduler'
+import { MemoryAuditStore } from './audit'
+import { NTACLApi } from './ntacl-api'
+import { CancelledError } from '@/lib/errors'
+import type { CommandTransport } from './transport'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+// Transport whose commands finish only when the test releases them
+class GatedTransport implements CommandTransport {
+  readonly name = 'gated'
+  readonly started: string[][] = []
+  private readonly gates: (() => void)[] = []
+
+  spawn (command: string[]): Promise<string> {
+    this.started.push(command)
+    return new Promise(resolve => this.gates.push(() => resolve('')))
+  }
+
+  releaseAll (): void {
+    this.gates.splice(0).forEach(release => release())
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// Keep releasing commands until every operation has finished
+async function settle (transport: GatedTransport, pending: Promise<unknown>[]): Promise<void> {
+  const state = { done: false }
+  const all = Promise.allSettled(pending).then(() => { state.done = true })
+
+  while (!state.done) {
+    transport.releaseAll()
+    await flush()
+  }
+  await all
+}
+
+describe('CommandScheduler', () => {
+  it('limits parallel tasks and starts queued ones by priority', async () => {
+    const scheduler = new CommandScheduler({ maxParallel: 1 })
+    const order: string[] = []
+    const task = (name: string) => async () => { order.push(name) }
+
+    await Promise.all([
+      scheduler.schedule(task('first')),
+      scheduler.schedule(task('refresh'), { priority: 'low' }),
+      scheduler.schedule(task('read')),
+      scheduler.schedule(task('write'), { priority: 'high' })
+    ])
+
+    expect(order).toEqual(['first', 'write', 'read', 'refresh'])
+  })
+
+  it('shares in-flight tasks with the same key', async () => {
+    const scheduler = new CommandScheduler()
+    const task = jest.fn(async () => 'output')
+
+    const results = await Promise.all([
+      scheduler.schedule(task, { key: 'list' }),
+      scheduler.schedule(task, { key: 'list' })
+    ])
+
+    expect(results).toEqual(['output', 'output'])
+    expect(task).toHaveBeenCalledTimes(1)
+
+    await scheduler.schedule(task, { key: 'list' })
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops queued tasks when their signal is aborted', async () => {
+    const scheduler = new CommandScheduler({ maxParallel: 1 })
+    const controller = new AbortController()
+    const second = jest.fn(async () => 'second')
+
+    const first = scheduler.schedule(async () => 'first')
+    const queued = scheduler.schedule(second, { signal: controller.signal })
+    controller.abort()
+
+    await expect(queued).rejects.toBeInstanceOf(CancelledError)
+    await expect(first).resolves.toBe('first')
+    expect(second).not.toHaveBeenCalled()
+  })
+})
+
+describe('BaseAPI scheduling', () => {
+  let transport: GatedTransport
+
+  beforeEach(() => {
+    transport = new GatedTransport()
+    BaseAPI.setTransport(transport)
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+    BaseAPI.configureScheduler({ maxParallel: 1 })
+  })
+
+  afterEach(() => {
+    BaseAPI.configureScheduler({ maxParallel: CommandScheduler.DEFAULT_MAX_PARALLEL })
+  })
+
+  it('runs a user write before queued background refreshes', async () => {
+    const pending = [
+      UserAPI.show('alice').catch(() => undefined),
+      ComputerAPI.inBackground(() => ComputerAPI.list()).catch(() => undefined),
+      UserAPI.disable('bob').catch(() => undefined)
+    ]
+
+    await flush()
+    expect(transport.started).toHaveLength(1)
+
+    transport.releaseAll()
+    await flush()
+    expect(transport.started[1]).toEqual(['samba-tool', 'user', 'disable', 'bob'])
+
+    await settle(transport, pending)
+    expect(transport.started.findIndex(command => command[0] === 'ldbsearch')).toBeGreaterThan(1)
+  })
+
+  it('rejects a running command with a CancelledError when aborted', async () => {
+    BaseAPI.setTransport({
+      name: 'stub',
+      spawn: (_command, options) => new Promise((resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new CancelledError('Resetting ACLs on Policies\n')))
+      })
+    })
+    const controller = new AbortController()
+
+    const reset = NTACLApi.sysvolReset({}, { signal: controller.signal })
+    await flush()
+    controller.abort()
+
+    await expect(reset).rejects.toMatchObject({ code: 'CANCELLED', partialLines: ['Resetting ACLs on Policies'] })
+  })
+
+  it('spawns identical concurrent reads once', async () => {
+    const pending = [UserAPI.list(), UserAPI.list()]
+
+    await flush()
+    expect(transport.started).toHaveLength(1)
+    await settle(transport, pending)
+  })
+})
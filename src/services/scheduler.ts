@@ -0,0 +1,136 @@
+// Command Scheduler
+
+import { CancelledError } from '@/lib/errors'
+
+/**
+ * Commands that modify the domain run at high priority so that a user's
+ * change is never stuck behind list refreshes; background refreshes yield
+ * to everything else.
+ */
+export type CommandPriority = 'high' | 'normal' | 'low'
+
+export interface SchedulerOptions {
+  maxParallel?: number;
+}
+
+export interface ScheduleOptions {
+  priority?: CommandPriority;
+  /**
+   * Tasks with the same key share one run while it is in flight
+   */
+  key?: string;
+  /**
+   * Aborting drops the task if it has not started yet
+   */
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  rank: number;
+  run: () => Promise<unknown>;
+  signal?: AbortSignal;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const PRIORITY_RANK: Record<CommandPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2
+}
+
+/**
+ * Limits how many commands run at once through the Cockpit bridge. Queued
+ * tasks start in priority order, first come first served within a priority.
+ */
+export class CommandScheduler {
+  static readonly DEFAULT_MAX_PARALLEL = 4
+
+  private maxParallel: number
+  private running = 0
+  private readonly queue: QueuedTask[] = []
+  private readonly inFlight = new Map<string, Promise<unknown>>()
+
+  constructor (options: SchedulerOptions = {}) {
+    this.maxParallel = CommandScheduler.DEFAULT_MAX_PARALLEL
+    this.configure(options)
+  }
+
+  configure (options: SchedulerOptions): void {
+    if (options.maxParallel !== undefined) {
+      this.maxParallel = Math.max(1, Math.floor(options.maxParallel))
+      this.drain()
+    }
+  }
+
+  get limit (): number {
+    return this.maxParallel
+  }
+
+  get active (): number {
+    return this.running
+  }
+
+  get queued (): number {
+    return this.queue.length
+  }
+
+  schedule<T> (task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 'normal', key, signal } = options
+
+    if (signal?.aborted) {
+      return Promise.reject(new CancelledError())
+    }
+
+    if (key) {
+      const existing = this.inFlight.get(key)
+      if (existing) {
+        return existing as Promise<T>
+      }
+    }
+
+    const rank = PRIORITY_RANK[priority]
+    const promise = new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = { rank, run: task, signal, resolve: resolve as (value: unknown) => void, reject }
+      const index = this.queue.findIndex(item => item.rank > rank)
+      this.queue.splice(index < 0 ? this.queue.length : index, 0, queued)
+
+      signal?.addEventListener('abort', () => {
+        const position = this.queue.indexOf(queued)
+        if (position >= 0) {
+          this.queue.splice(position, 1)
+          reject(new CancelledError())
+        }
+      }, { once: true })
+    })
+
+    if (key) {
+      this.inFlight.set(key, promise)
+      const forget = () => { this.inFlight.delete(key) }
+      promise.then(forget, forget)
+    }
+
+    this.drain()
+    return promise
+  }
+
+  private drain (): void {
+    while (this.running < this.maxParallel && this.queue.length > 0) {
+      const next = this.queue.shift() as QueuedTask
+      this.running++
+
+      Promise.resolve()
+        .then(() => {
+          if (next.signal?.aborted) {
+            throw new CancelledError()
+          }
+          return next.run()
+        })
+        .then(next.resolve, next.reject)
+        .finally(() => {
+          this.running--
+          this.drain()
+        })
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { BaseAPI } from './base-api'
 import { SambaSite, SambaSubnet, CreateSiteInput, CreateSubnetInput, SetSiteInput } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class SitesAPI extends BaseAPI {
   /**
@@ -19,7 +20,7 @@ export class SitesAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to create site: ${(error as Error).message}`,
+        format(_('Failed to create site: $0'), (error as Error).message),
         'SITE_CREATE_FAILED',
         error
       )
@@ -37,7 +38,7 @@ export class SitesAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to remove site: ${(error as Error).message}`,
+        format(_('Failed to remove site: $0'), (error as Error).message),
         'SITE_REMOVE_FAILED',
         error
       )
@@ -60,7 +61,7 @@ export class SitesAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to create subnet: ${(error as Error).message}`,
+        format(_('Failed to create subnet: $0'), (error as Error).message),
         'SUBNET_CREATE_FAILED',
         error
       )
@@ -78,7 +79,7 @@ export class SitesAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to remove subnet: ${(error as Error).message}`,
+        format(_('Failed to remove subnet: $0'), (error as Error).message),
         'SUBNET_REMOVE_FAILED',
         error
       )
@@ -96,7 +97,7 @@ export class SitesAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to set site for server: ${(error as Error).message}`,
+        format(_('Failed to set site for server: $0'), (error as Error).message),
         'SITE_SET_FAILED',
         error
       )
@@ -112,7 +113,7 @@ export class SitesAPI extends BaseAPI {
       return this.parseSitesList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list sites: ${(error as Error).message}`,
+        format(_('Failed to list sites: $0'), (error as Error).message),
         'SITES_LIST_FAILED',
         error
       )
@@ -128,7 +129,7 @@ export class SitesAPI extends BaseAPI {
       return this.parseSubnetsList(output)
     } catch (error) {
       throw new APIError(
-        `Failed to list subnets: ${(error as Error).message}`,
+        format(_('Failed to list subnets: $0'), (error as Error).message),
         'SUBNETS_LIST_FAILED',
         error
       )
@@ -1,6 +1,7 @@
 import { BaseAPI } from './base-api'
 import { SambaSPN, CreateSPNInput, DeleteSPNInput } from '../types/samba'
 import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
 
 export class SPNAPI extends BaseAPI {
   /**
@@ -14,7 +15,7 @@ export class SPNAPI extends BaseAPI {
       return this.parseSPNList(output, username)
     } catch (error) {
       throw new APIError(
-        `Failed to list SPNs for user ${username}: ${(error as Error).message}`,
+        format(_('Failed to list SPNs for user $0: $1'), username, (error as Error).message),
         'SPN_LIST_FAILED',
         error
       )
@@ -32,7 +33,7 @@ export class SPNAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to add SPN: ${(error as Error).message}`,
+        format(_('Failed to add SPN: $0'), (error as Error).message),
         'SPN_ADD_FAILED',
         error
       )
@@ -50,7 +51,7 @@ export class SPNAPI extends BaseAPI {
       await this.executeCommand(command)
     } catch (error) {
       throw new APIError(
-        `Failed to delete SPN: ${(error as Error).message}`,
+        format(_('Failed to delete SPN: $0'), (error as Error).message),
         'SPN_DELETE_FAILED',
         error
       )
@@ -58,10 +59,14 @@ export class SPNAPI extends BaseAPI {
   }
 
   /**
-   * Parse SPN list output from samba-tool
+   * Parse SPN list output from samba-tool: a "User <dn> has the following
+   * servicePrincipalName:" header, or "has no servicePrincipalName", and
+   * one indented SPN per line
    */
   private static parseSPNList (output: string, username: string): SambaSPN[] {
-    const lines = output.trim().split('\n').filter(line => line.trim() !== '')
+    const lines = output.split('\n')
+      .map(line => line.trim())
+      .filter(line => line !== '' && !/servicePrincipalName:?$/.test(line))
 
     return lines.map(spnName => {
       // Parse SPN format: service/hostname:port
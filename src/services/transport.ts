@@ -0,0 +1,146 @@
+// Command Transport Layer
+
+import cockpit from 'cockpit'
+import { CancelledError } from '@/lib/errors'
+
+export interface TransportOptions {
+  superuser?: boolean;
+  timeout?: number;
+  input?: string;
+  env?: Record<string, string>;
+  /**
+   * Stops the command when aborted; the promise then rejects with a
+   * CancelledError carrying the output received so far
+   */
+  signal?: AbortSignal;
+  /**
+   * Receives stdout and stderr, merged in the order they arrive, one line
+   * at a time while the command runs
+   */
+  onOutput?: (line: string) => void;
+}
+
+/**
+ * Runs an argv array and resolves with its stdout. Implementations must
+ * reject with an error whose message carries the command's stderr so that
+ * SambaErrorParser can classify it.
+ */
+export interface CommandTransport {
+  readonly name: string;
+  spawn (command: string[], options: TransportOptions): Promise<string>;
+}
+
+/**
+ * Split chunks of process output into lines for an onOutput callback. Carriage
+ * returns end a line too, as progress counters redraw themselves with them.
+ */
+export function createLineReader (onLine: (line: string) => void): { push (chunk: string): void; flush (): void } {
+  let pending = ''
+
+  return {
+    push (chunk: string): void {
+      const lines = (pending + chunk).split(/\r\n|\n|\r/)
+      pending = lines.pop() || ''
+      lines.forEach(onLine)
+    },
+    flush (): void {
+      if (pending) {
+        onLine(pending)
+        pending = ''
+      }
+    }
+  }
+}
+
+/**
+ * Default transport: runs commands on the host through the Cockpit bridge
+ */
+export class CockpitTransport implements CommandTransport {
+  readonly name = 'cockpit'
+
+  async spawn (command: string[], options: TransportOptions): Promise<string> {
+    const { superuser, timeout, input, env, signal, onOutput } = options
+
+    if (signal?.aborted) {
+      throw new CancelledError()
+    }
+
+    const process = cockpit.spawn(command, {
+      // Streamed stderr has to arrive through the same callback as stdout
+      err: onOutput ? 'out' : 'message',
+      superuser: superuser ? 'require' : undefined,
+      timeout,
+      environ: env ? Object.entries(env).map(([key, value]) => `${key}=${value}`) : undefined
+    })
+
+    if (input !== undefined) {
+      process.input(input)
+    }
+
+    if (!signal && !onOutput) {
+      const result = await process
+      return result || ''
+    }
+
+    // Collect output as it arrives so a cancelled command can report it
+    let output = ''
+    const lines = onOutput ? createLineReader(onOutput) : undefined
+    process.stream((data: string) => {
+      output += data
+      lines?.push(data)
+    })
+
+    return new Promise<string>((resolve, reject) => {
+      const abort = () => {
+        process.close('cancelled')
+        lines?.flush()
+        reject(new CancelledError(output))
+      }
+      signal?.addEventListener('abort', abort, { once: true })
+
+      process
+        .then(() => {
+          lines?.flush()
+          resolve(output)
+        })
+        .catch((error: Error) => {
+          lines?.flush()
+          // With stderr merged into the stream, the error message no longer
+          // carries it, so report the output instead
+          reject(onOutput && output.trim() ? new Error(output) : error)
+        })
+        .finally(() => signal?.removeEventListener('abort', abort))
+    })
+  }
+}
+
+const SANDBOX_STORAGE_KEY = 'cockpit-samba-ad-dc:sandbox'
+
+/**
+ * Sandbox mode is requested with `?sandbox=1` in the page URL or by setting
+ * the `cockpit-samba-ad-dc:sandbox` local storage key to `1`.
+ */
+export function isSandboxRequested (): boolean {
+  if (typeof window === 'undefined') {
+    return false
+  }
+
+  try {
+    const params = new URLSearchParams(window.location.search)
+    if (params.has('sandbox')) {
+      return params.get('sandbox') !== '0'
+    }
+
+    return window.localStorage?.getItem(SANDBOX_STORAGE_KEY) === '1'
+  } catch {
+    return false
+  }
+}
+
+export function setSandboxRequested (enabled: boolean): void {
+  if (enabled) {
+    window.localStorage.setItem(SANDBOX_STORAGE_KEY, '1')
+  } else {
+    window.localStorage.removeItem(SANDBOX_STORAGE_KEY)
+  }
+}
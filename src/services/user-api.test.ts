@@ -0,0 +1,179 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { GroupAPI } from './group-api'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+describe('UserAPI against the sandbox transport', () => {
+  let transport: FakeSambaTransport
+
+  beforeEach(() => {
+    transport = new FakeSambaTransport({ directory: FakeDirectory.createSample() })
+    BaseAPI.setTransport(transport)
+  })
+
+  it('lists the seeded users without computer accounts', async () => {
+    const users = await UserAPI.list()
+    const names = users.map(user => user.username)
+
+    expect(names).toEqual(expect.arrayContaining(['Administrator', 'alice', 'bob', 'carol']))
+    expect(names).not.toContain('WS01$')
+  })
+
+  it('lists users with a single ldbsearch and filters in LDAP', async () => {
+    const spawn = jest.spyOn(transport, 'spawn')
+
+    const matches = await UserAPI.list({ search: 'ali' })
+    expect(matches.map(user => user.username)).toEqual(['alice'])
+    expect(spawn).toHaveBeenCalledTimes(1)
+    expect(spawn.mock.calls[0][0][0]).toBe('ldbsearch')
+
+    const disabled = await UserAPI.list({ enabled: false })
+    expect(disabled.map(user => user.username).sort()).toEqual(['Guest', 'carol'])
+  })
+
+  it('escapes search terms instead of breaking the filter', async () => {
+    await expect(UserAPI.list({ search: 'a*)(x' })).resolves.toEqual([])
+  })
+
+  it('decodes folded and base64 LDIF values', async () => {
+    BaseAPI.setTransport({
+      name: 'stub',
+      spawn: async () => [
+        '# record 1',
+        'dn: CN=J\\C3\\BCrgen,CN=Users,DC=samdom,DC=example,DC=com',
+        'sAMAccountName: juergen',
+        'displayName:: SsO8cmdlbiBNw7xsbGVy',
+        'description: A very long description that ldbsearch',
+        '  wraps onto a second line',
+        'whenCreated: 20240131083000.0Z',
+        'lastLogon: 133500000000000000',
+        '',
+        '# returned 1 records'
+      ].join('\n')
+    })
+
+    const [user] = await UserAPI.list()
+    expect(user.displayName).toBe('Jürgen Müller')
+    expect(user.description).toBe('A very long description that ldbsearch wraps onto a second line')
+    expect(user.createdAt.toISOString()).toBe('2024-01-31T08:30:00.000Z')
+    expect(user.lastLogin?.getUTCFullYear()).toBe(2024)
+  })
+
+  it('parses user details from samba-tool show output', async () => {
+    const alice = await UserAPI.show('alice')
+
+    expect(alice.firstName).toBe('Alice')
+    expect(alice.lastName).toBe('Smith')
+    expect(alice.email).toBe('alice@samdom.example.com')
+    expect(alice.enabled).toBe(true)
+
+    const carol = await UserAPI.show('carol')
+    expect(carol.enabled).toBe(false)
+  })
+
+  it('creates, disables and deletes a user', async () => {
+    await UserAPI.create({ username: 'dave', password: 'Passw0rd!', firstName: 'Dave' })
+    expect((await UserAPI.show('dave')).firstName).toBe('Dave')
+
+    await UserAPI.disable('dave')
+    expect((await UserAPI.show('dave')).enabled).toBe(false)
+
+    await UserAPI.delete('dave')
+    await expect(UserAPI.show('dave')).rejects.toThrow(/Unable to find user "dave"/)
+  })
+
+  it('rejects duplicate accounts', async () => {
+    await expect(UserAPI.create({ username: 'alice', password: 'Passw0rd!' })).rejects.toThrow(/already exists/)
+  })
+
+  it('moves a user between organizational units', async () => {
+    await UserAPI.move('bob', 'OU=Sales,OU=Staff')
+
+    const entry = transport.directory.findAccount('bob', 'user')
+    expect(entry?.dn).toBe('CN=bob,OU=Sales,OU=Staff,DC=samdom,DC=example,DC=com')
+  })
+
+  it('reads containers and groups of names with escaped commas', async () => {
+    const dir = transport.directory
+    const group = dir.add('CN=Support\\, Level 2,OU=Staff,DC=samdom,DC=example,DC=com', {
+      objectClass: ['top', 'group'],
+      cn: ['Support, Level 2'],
+      sAMAccountName: ['support-l2']
+    })
+    const user = dir.add('CN=Doe\\, John,OU=Sales,OU=Staff,DC=samdom,DC=example,DC=com', {
+      objectClass: ['top', 'person', 'organizationalPerson', 'user'],
+      cn: ['Doe, John'],
+      sAMAccountName: ['jdoe'],
+      userAccountControl: ['512']
+    })
+    dir.addMember(group.dn, user.dn)
+
+    const expected = { organizationalUnit: 'OU=Sales,OU=Staff,DC=samdom,DC=example,DC=com', groups: ['support-l2'] }
+    expect(await UserAPI.show('jdoe')).toMatchObject(expected)
+    expect((await UserAPI.list()).find(candidate => candidate.username === 'jdoe')).toMatchObject(expected)
+
+    await GroupAPI.removeMembers('support-l2', ['jdoe'])
+    expect((await UserAPI.show('jdoe')).groups).toEqual([])
+  })
+
+  it('writes only the changed attributes and moves the user', async () => {
+    const alice = await UserAPI.show('alice')
+    const bob = await UserAPI.show('bob')
+    const changes = {
+      username: 'alice',
+      firstName: 'Alice',
+      title: 'Head of Sales',
+      office: 'Zürich 2.14',
+      description: '',
+      manager: bob.distinguishedName,
+      organizationalUnit: 'OU=Engineering,OU=Staff,DC=samdom,DC=example,DC=com'
+    }
+
+    expect(UserAPI.diff(alice, changes).map(change => change.attribute)).toEqual(
+      ['description', 'title', 'physicalDeliveryOfficeName', 'manager', 'distinguishedName']
+    )
+
+    const spawn = jest.spyOn(transport, 'spawn')
+    const updated = await UserAPI.update(changes)
+
+    const modify = spawn.mock.calls.find(([command]) => command[0] === 'ldbmodify')
+    expect(modify?.[1]?.input).toContain('replace: description\n-\n')
+    expect(modify?.[1]?.input).toContain('physicalDeliveryOfficeName:: WsO8cmljaCAyLjE0')
+    expect(modify?.[1]?.input).not.toContain('givenName')
+
+    expect(updated).toMatchObject({ title: 'Head of Sales', office: 'Zürich 2.14', manager: bob.distinguishedName })
+    expect(updated.description).toBeUndefined()
+    expect(updated.organizationalUnit).toBe('OU=Engineering,OU=Staff,DC=samdom,DC=example,DC=com')
+    expect(UserAPI.diff(updated, changes)).toEqual([])
+  })
+
+  it('reports locked accounts and unlocks them', async () => {
+    const locked = await UserAPI.list({ locked: true })
+    expect(locked.map(user => user.username)).toEqual(['bob'])
+    expect(locked[0]).toMatchObject({ locked: true, badPasswordCount: 5 })
+    expect(locked[0].lockoutTime).toBeInstanceOf(Date)
+
+    const bob = await UserAPI.unlock('bob')
+    expect(bob).toMatchObject({ locked: false, badPasswordCount: 0, lockoutTime: undefined })
+    await expect(UserAPI.list({ locked: true })).resolves.toEqual([])
+  })
+
+  it('answers the password prompt on stdin instead of putting it in argv', async () => {
+    const spawn = jest.spyOn(transport, 'spawn')
+
+    await UserAPI.create({ username: 'dave', password: 'Pa$$(w0rd);|`' })
+    expect(spawn.mock.calls[0][0]).toEqual(['samba-tool', 'user', 'create', 'dave'])
+    expect(spawn.mock.calls[0][1]?.input).toBe('Pa$$(w0rd);|`\nPa$$(w0rd);|`\n')
+  })
+
+  it('rejects malformed arguments with a ValidationError instead of running them', async () => {
+    const spawn = jest.spyOn(transport, 'spawn')
+
+    await expect(UserAPI.move('bob', 'Sales; rm -rf /')).rejects.toThrow(/Invalid distinguished name for argument 4/)
+    await expect(UserAPI.delete('bob\u0007')).rejects.toMatchObject({ name: 'ValidationError', field: 'argument 3' })
+    await expect(UserAPI.create({ username: 'dave', password: 'one\ntwo' })).rejects.toThrow(/line breaks/)
+    expect(spawn).not.toHaveBeenCalled()
+  })
+})
@@ -1,43 +1,131 @@
 // User API Service
 
-import { BaseAPI } from './base-api'
+import { BaseAPI, APIUtils, type LDIFEntry } from './base-api'
 import { APIError, SambaErrorParser } from '@/lib/errors'
 import type {
   SambaUser,
   CreateUserInput,
   UpdateUserInput,
+  UserAttributeChange,
+  UserField,
   FilterOptions
 } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
+import { parentDN, rdnValue } from '@/lib/dn'
+
+// LDAP_MATCHING_RULE_BIT_AND
+const UAC_BIT_AND = '1.2.840.113556.1.4.803'
+
+// UF_LOCKOUT in msDS-User-Account-Control-Computed
+const UF_LOCKOUT = 0x0010
+
+const UF_DONT_EXPIRE_PASSWD = 0x10000
+
+// The domain object and the PSOs, for their maximum password ages
+const PASSWORD_POLICY_FILTER = '(&(objectClass=domainDNS)(maxPwdAge=*))(objectClass=msDS-PasswordSettings)'
+const PASSWORD_POLICY_ATTRIBUTES = ['objectClass', 'maxPwdAge', 'msDS-MaximumPasswordAge']
+
+// Maximum password ages in milliseconds, 0 when passwords never expire
+interface PasswordAges {
+  domain: number;
+  /**
+   * Keyed by lower-cased PSO DN
+   */
+  psos: Map<string, number>;
+  /**
+   * The resultant PSO of the account asked for, if any
+   */
+  resultantPSO?: string;
+}
+
+// The directory attribute written for each editable text field
+const USER_FIELD_ATTRIBUTES: Partial<Record<UserField, string>> = {
+  firstName: 'givenName',
+  lastName: 'sn',
+  displayName: 'displayName',
+  email: 'mail',
+  description: 'description',
+  telephoneNumber: 'telephoneNumber',
+  title: 'title',
+  department: 'department',
+  company: 'company',
+  office: 'physicalDeliveryOfficeName',
+  manager: 'manager'
+}
 
 export class UserAPI extends BaseAPI {
+  static readonly requirements = {
+    unlock: { command: 'user unlock' }
+  }
+
+  private static readonly USER_ATTRIBUTES = [
+    'sAMAccountName',
+    'displayName',
+    'givenName',
+    'sn',
+    'mail',
+    'description',
+    'userAccountControl',
+    'whenCreated',
+    'lastLogon',
+    'lastLogonTimestamp',
+    'pwdLastSet',
+    'accountExpires',
+    'memberOf',
+    'telephoneNumber',
+    'title',
+    'department',
+    'company',
+    'physicalDeliveryOfficeName',
+    'manager',
+    'profilePath',
+    'homeDirectory',
+    'homeDrive',
+    'scriptPath',
+    'lockoutTime',
+    'badPwdCount',
+    'badPasswordTime',
+    // Constructed; tells whether the lockout has run out
+    'msDS-User-Account-Control-Computed',
+    // Constructed; the PSO in force, following nested groups
+    'msDS-ResultantPSO'
+  ]
+
   /**
    * List all users with optional filtering
    */
   static async list (filters?: FilterOptions): Promise<SambaUser[]> {
     try {
-      const command = ['samba-tool', 'user', 'list']
+      const clauses = ['(objectCategory=person)', '(objectClass=user)', '(!(objectClass=computer))']
 
-      // Add search filter if provided
       if (filters?.search) {
-        // Use LDAP filter for search
-        command.push('--filter', `(|(cn=*${filters.search}*)(sAMAccountName=*${filters.search}*)(mail=*${filters.search}*))`)
+        const term = APIUtils.escapeLDAP(filters.search)
+        clauses.push(`(|(cn=*${term}*)(sAMAccountName=*${term}*)(mail=*${term}*)(displayName=*${term}*))`)
       }
 
-      const output = await this.executeCommand(command)
+      if (filters?.enabled !== undefined) {
+        const disabled = `(userAccountControl:${UAC_BIT_AND}:=2)`
+        clauses.push(filters.enabled ? `(!${disabled})` : disabled)
+      }
 
-      // Parse user list and get detailed info for each user
-      const usernames = this.parseSimpleList(output)
+      if (filters?.locked) {
+        clauses.push('(lockoutTime>=1)')
+      }
 
-      // Get detailed information for each user
-      const users = await Promise.all(
-        usernames.map(username => this.show(username).catch(() => null))
-      )
+      // One ldbsearch for every account instead of a `user show` per user,
+      // which also brings the password policies for the expiry dates and
+      // the groups for the names of the memberships
+      const entries = await this.search({
+        filter: `(|(&${clauses.join('')})${PASSWORD_POLICY_FILTER}(objectClass=group))`,
+        attributes: [...this.USER_ATTRIBUTES, ...PASSWORD_POLICY_ATTRIBUTES]
+      })
+      const { accounts, ages, groupNames } = this.splitPasswordAges(entries)
 
-      // Filter out failed user lookups and apply additional filters
-      let filteredUsers = users.filter((user): user is SambaUser => user !== null)
+      let filteredUsers = accounts.map(entry => this.mapUserEntry(entry, '', ages, groupNames))
 
-      if (filters?.enabled !== undefined) {
-        filteredUsers = filteredUsers.filter(user => user.enabled === filters.enabled)
+      if (filters?.locked) {
+        // lockoutTime stays set after the lockout duration has passed
+        filteredUsers = filteredUsers.filter(user => user.locked)
       }
 
       if (filters?.organizationalUnit) {
@@ -62,7 +150,7 @@ export class UserAPI extends BaseAPI {
 
       return filteredUsers
     } catch (error) {
-      throw new APIError('Failed to list users', 'USER_LIST_ERROR', error)
+      throw new APIError(_('Failed to list users'), 'USER_LIST_ERROR', error)
     }
   }
 
@@ -76,7 +164,7 @@ export class UserAPI extends BaseAPI {
       const command = ['samba-tool', 'user', 'show', username]
       const output = await this.executeCommand(command)
 
-      return this.parseUserDetails(output, username)
+      return this.parseUserDetails(output, username, await this.passwordAgesFor(username))
     } catch (error) {
       if (error instanceof APIError) {
         throw error
@@ -96,7 +184,11 @@ export class UserAPI extends BaseAPI {
 
     try {
       const command = this.buildCreateCommand(userData)
-      await this.executeCommand(command)
+      await this.executeCommand(command, { input: this.passwordPrompt(userData.password) })
+
+      if (userData.groups?.length || userData.accountExpires) {
+        await this.finishCreate(userData)
+      }
 
       // Return the created user details
       return await this.show(userData.username)
@@ -112,17 +204,54 @@ export class UserAPI extends BaseAPI {
   }
 
   /**
-   * Update user information
+   * Compare a user with the requested changes, one entry per field that
+   * would change. Text fields compare as written; the container compares
+   * case-insensitively, as DNs do.
+   */
+  static diff (user: SambaUser, changes: UpdateUserInput): UserAttributeChange[] {
+    const result: UserAttributeChange[] = []
+
+    for (const [field, attribute] of Object.entries(USER_FIELD_ATTRIBUTES) as [UserField, string][]) {
+      const after = changes[field]
+      const before = user[field as keyof SambaUser] as string | undefined
+      if (typeof after === 'string' && after.trim() !== (before ?? '')) {
+        result.push({ field, attribute, before: before ?? '', after: after.trim() })
+      }
+    }
+
+    const container = changes.organizationalUnit?.trim()
+    if (container && container.toLowerCase() !== (user.organizationalUnit ?? '').toLowerCase()) {
+      result.push({ field: 'organizationalUnit', attribute: 'distinguishedName', before: user.organizationalUnit ?? '', after: container })
+    }
+
+    if (changes.enabled !== undefined && changes.enabled !== user.enabled) {
+      result.push({ field: 'enabled', attribute: 'userAccountControl', before: String(user.enabled), after: String(changes.enabled) })
+    }
+
+    return result
+  }
+
+  /**
+   * Update user information. Only the fields that differ from the
+   * directory are written: text attributes in one ldbmodify, then the
+   * account state, then the move to another container.
    */
   static async update (userData: UpdateUserInput): Promise<SambaUser> {
     this.validateRequired(userData as unknown as Record<string, unknown>, ['username'])
 
     try {
-      // Build update commands
-      const commands = this.buildUpdateCommands(userData)
+      const current = await this.show(userData.username)
+      const changes = this.diff(current, userData)
+
+      const attributes = changes.filter(change => USER_FIELD_ATTRIBUTES[change.field])
+      if (attributes.length && current.distinguishedName) {
+        await this.modify(
+          current.distinguishedName,
+          Object.fromEntries(attributes.map(change => [change.attribute, change.after]))
+        )
+      }
 
-      // Execute all update commands
-      for (const command of commands) {
+      for (const command of this.buildUpdateCommands(userData.username, changes)) {
         await this.executeCommand(command)
       }
 
@@ -205,7 +334,7 @@ export class UserAPI extends BaseAPI {
 
     try {
       const command = ['samba-tool', 'user', 'setpassword', username]
-      await this.executeCommand(command, { input: password })
+      await this.executeCommand(command, { input: this.passwordPrompt(password) })
     } catch (error) {
       throw SambaErrorParser.parseError(
         error instanceof Error ? error.message : String(error),
@@ -239,6 +368,28 @@ export class UserAPI extends BaseAPI {
     }
   }
 
+  /**
+   * Release a user locked out by bad password attempts
+   */
+  static async unlock (username: string): Promise<SambaUser> {
+    this.validateRequired({ username }, ['username'])
+    await this.requireCapability(this.requirements.unlock)
+
+    try {
+      await this.executeCommand(['samba-tool', 'user', 'unlock', username])
+
+      return await this.show(username)
+    } catch (error) {
+      if (error instanceof APIError) {
+        throw error
+      }
+      throw SambaErrorParser.parseError(
+        error instanceof Error ? error.message : String(error),
+        `unlock user ${username}`
+      )
+    }
+  }
+
   /**
    * Move user to different OU
    */
@@ -317,8 +468,34 @@ export class UserAPI extends BaseAPI {
 
   // Private helper methods
 
+  /**
+   * Add the new user to its groups and set the account expiry, which
+   * `user create` cannot do. The account exists by now, so a failure is
+   * reported as USER_CREATE_INCOMPLETE rather than as a failed create.
+   */
+  private static async finishCreate (userData: CreateUserInput): Promise<void> {
+    try {
+      if (userData.groups?.length) {
+        await this.addToGroups(userData.username, userData.groups)
+      }
+
+      if (userData.accountExpires) {
+        // Not `user setexpiry`, which also clears "password never expires"
+        const { distinguishedName } = await this.show(userData.username)
+        await this.modify(distinguishedName || '', { accountExpires: this.toNTTime(userData.accountExpires) })
+      }
+    } catch (error) {
+      throw new APIError(
+        format(_('User $0 was created, but not completely set up: $1'), userData.username, (error as Error).message),
+        'USER_CREATE_INCOMPLETE',
+        error
+      )
+    }
+  }
+
   private static buildCreateCommand (userData: CreateUserInput): string[] {
-    const command = ['samba-tool', 'user', 'create', userData.username, userData.password]
+    // The password is answered on stdin when samba-tool prompts for it
+    const command = ['samba-tool', 'user', 'create', userData.username]
 
     if (userData.firstName) {
       command.push('--given-name', userData.firstName)
@@ -340,6 +517,22 @@ export class UserAPI extends BaseAPI {
       command.push('--description', userData.description)
     }
 
+    const options: Array<[string, string | undefined]> = [
+      ['--job-title', userData.title],
+      ['--department', userData.department],
+      ['--company', userData.company],
+      ['--physical-delivery-office', userData.office],
+      ['--profile-path', userData.profilePath],
+      ['--home-directory', userData.homeDirectory],
+      ['--home-drive', userData.homeDrive],
+      ['--script-path', userData.scriptPath]
+    ]
+    for (const [option, value] of options) {
+      if (value) {
+        command.push(option, value)
+      }
+    }
+
     if (userData.organizationalUnit) {
       command.push('--userou', userData.organizationalUnit)
     }
@@ -355,80 +548,158 @@ export class UserAPI extends BaseAPI {
     return command
   }
 
-  private static buildUpdateCommands (userData: UpdateUserInput): string[][] {
+  private static buildUpdateCommands (username: string, changes: UserAttributeChange[]): string[][] {
     const commands: string[][] = []
-    const username = userData.username
 
-    if (userData.email !== undefined) {
-      commands.push(['samba-tool', 'user', 'setmail', username, userData.email || ''])
+    for (const change of changes) {
+      if (change.field === 'enabled') {
+        commands.push(['samba-tool', 'user', change.after === 'true' ? 'enable' : 'disable', username])
+      } else if (change.field === 'organizationalUnit') {
+        commands.push(['samba-tool', 'user', 'move', username, change.after])
+      }
     }
 
-    if (userData.displayName !== undefined) {
-      commands.push(['samba-tool', 'user', 'setprimarygroup', username, userData.displayName])
-    }
+    return commands
+  }
 
-    if (userData.enabled !== undefined) {
-      const action = userData.enabled ? 'enable' : 'disable'
-      commands.push(['samba-tool', 'user', action, username])
+  /**
+   * Take the domain object, the PSOs and the groups, which are searched for
+   * together with the accounts, out of the results; read the maximum
+   * password ages and the sAMAccountNames of the groups
+   */
+  private static splitPasswordAges (entries: LDIFEntry[]): { accounts: LDIFEntry[]; ages: PasswordAges; groupNames: Map<string, string> } {
+    // Ages are negative 100ns intervals; 0 and the minimum int64 mean never
+    const toMilliseconds = (value?: string) => {
+      const ticks = Math.abs(Number(value || '0'))
+      return Number.isFinite(ticks) && ticks < 9e18 ? ticks / 10000 : 0
+    }
+    const ages: PasswordAges = { domain: 0, psos: new Map() }
+    const accounts: LDIFEntry[] = []
+    const groupNames = new Map<string, string>()
+
+    for (const entry of entries) {
+      const classes = this.ldifValues(entry, 'objectClass').map(value => value.toLowerCase())
+      if (classes.includes('group')) {
+        groupNames.set(entry.dn.toLowerCase(), this.ldifValue(entry, 'sAMAccountName') || rdnValue(entry.dn))
+      } else if (classes.includes('domaindns')) {
+        ages.domain = toMilliseconds(this.ldifValue(entry, 'maxPwdAge'))
+      } else if (classes.includes('msds-passwordsettings')) {
+        ages.psos.set(entry.dn.toLowerCase(), toMilliseconds(this.ldifValue(entry, 'msDS-MaximumPasswordAge')))
+      } else {
+        accounts.push(entry)
+      }
     }
 
-    return commands
+    return { accounts, ages, groupNames }
+  }
+
+  /**
+   * `user show` leaves out constructed attributes, so the resultant PSO and
+   * the ages are looked up separately. Undefined when they cannot be read;
+   * expiry is then left unknown rather than failing the caller.
+   */
+  private static async passwordAgesFor (username: string): Promise<PasswordAges | undefined> {
+    try {
+      const entries = await this.search({
+        filter: `(|(&(objectClass=user)(sAMAccountName=${APIUtils.escapeLDAP(username)}))${PASSWORD_POLICY_FILTER})`,
+        attributes: [...PASSWORD_POLICY_ATTRIBUTES, 'msDS-ResultantPSO']
+      })
+      const { accounts: [account], ages } = this.splitPasswordAges(entries)
+      return { ...ages, resultantPSO: account && this.ldifValue(account, 'msDS-ResultantPSO') }
+    } catch {
+      return undefined
+    }
   }
 
-  private static parseUserDetails (output: string, username: string): SambaUser {
-    const lines = output.split('\n')
-    const user: Partial<SambaUser> = {
-      username,
-      enabled: true,
-      groups: [],
-      createdAt: new Date()
-    }
-
-    lines.forEach(line => {
-      const [key, ...valueParts] = line.split(':')
-      const value = valueParts.join(':').trim()
-
-      if (!key || !value) return
-
-      const normalizedKey = key.trim().toLowerCase()
-
-      switch (normalizedKey) {
-        case 'displayname':
-          user.displayName = value
-          break
-        case 'givenname':
-          user.firstName = value
-          break
-        case 'sn':
-          user.lastName = value
-          break
-        case 'mail':
-          user.email = value
-          break
-        case 'description':
-          user.description = value
-          break
-        case 'useraccountcontrol': {
-          // Parse account control flags
-          const flags = parseInt(value)
-          user.enabled = !(flags & 0x0002) // ACCOUNTDISABLE flag
-          break
+  /**
+   * memberOf holds group DNs, but samba-tool finds groups by
+   * sAMAccountName, which need not be the CN; read those names in one
+   * search. Groups that cannot be read keep their CN. list() gets them
+   * from its own search instead.
+   */
+  private static async groupNames (entries: LDIFEntry[]): Promise<Map<string, string>> {
+    const dns = [...new Set(entries.flatMap(entry => this.ldifValues(entry, 'memberOf')).map(dn => dn.toLowerCase()))]
+    const names = new Map<string, string>()
+    if (!dns.length) {
+      return names
+    }
+
+    try {
+      const groups = await this.search({
+        filter: `(&(objectClass=group)(|${dns.map(dn => `(distinguishedName=${APIUtils.escapeLDAP(dn)})`).join('')}))`,
+        attributes: ['sAMAccountName']
+      })
+      for (const group of groups) {
+        const name = this.ldifValue(group, 'sAMAccountName')
+        if (name) {
+          names.set(group.dn.toLowerCase(), name)
         }
-        case 'whencreated':
-          user.createdAt = this.parseDate(value) || new Date()
-          break
-        case 'lastlogon':
-          user.lastLogin = this.parseDate(value)
-          break
-        case 'memberof':
-          // Parse group memberships
-          if (value) {
-            user.groups = value.split(',').map(group => group.trim())
-          }
-          break
       }
-    })
+    } catch {
+      // Fall back to the CNs
+    }
+    return names
+  }
+
+  private static async parseUserDetails (output: string, username: string, ages?: PasswordAges): Promise<SambaUser> {
+    const [entry = { dn: '', attributes: {} }] = this.parseLDIF(output)
+    if (ages?.resultantPSO) {
+      entry.attributes['msDS-ResultantPSO'] = [ages.resultantPSO]
+    }
+    return this.mapUserEntry(entry, username, ages, await this.groupNames([entry]))
+  }
 
-    return user as SambaUser
+  private static mapUserEntry (entry: LDIFEntry, fallbackName: string = '', ages?: PasswordAges, groupNames?: Map<string, string>): SambaUser {
+    const get = (attribute: string) => this.ldifValue(entry, attribute)
+    const flags = parseInt(get('userAccountControl') || '0', 10)
+    const lockoutTime = this.parseNTTime(get('lockoutTime'))
+    const computedFlags = get('msDS-User-Account-Control-Computed')
+
+    // pwdLastSet 0 means the password must be changed at next logon
+    const pwdLastSet = get('pwdLastSet')
+    const passwordLastSet = this.parseNTTime(pwdLastSet)
+    const passwordNeverExpires = !!(flags & UF_DONT_EXPIRE_PASSWD)
+    const resultantPSO = get('msDS-ResultantPSO')?.toLowerCase()
+    const maxAge = ages && (resultantPSO && ages.psos.has(resultantPSO) ? ages.psos.get(resultantPSO) : ages.domain)
+    const passwordExpires = !passwordNeverExpires && maxAge && passwordLastSet
+      ? new Date(passwordLastSet.getTime() + maxAge)
+      : undefined
+
+    return {
+      username: get('sAMAccountName') || fallbackName,
+      distinguishedName: entry.dn || undefined,
+      displayName: get('displayName'),
+      firstName: get('givenName'),
+      lastName: get('sn'),
+      email: get('mail'),
+      description: get('description'),
+      enabled: !(flags & 0x0002), // ACCOUNTDISABLE flag
+      passwordExpired: pwdLastSet === '0' || (!!passwordExpires && passwordExpires.getTime() <= Date.now()),
+      passwordNeverExpires,
+      mustChangePassword: pwdLastSet === '0',
+      passwordExpires,
+      accountExpires: this.parseNTTime(get('accountExpires')),
+      createdAt: this.parseGeneralizedTime(get('whenCreated')) || new Date(),
+      lastLogin: this.parseNTTime(get('lastLogon')),
+      lastLogonTimestamp: this.parseNTTime(get('lastLogonTimestamp')),
+      passwordLastSet,
+      groups: this.ldifValues(entry, 'memberOf').map(dn => groupNames?.get(dn.toLowerCase()) || rdnValue(dn)),
+      organizationalUnit: entry.dn ? parentDN(entry.dn) : undefined,
+      telephoneNumber: get('telephoneNumber'),
+      title: get('title'),
+      department: get('department'),
+      company: get('company'),
+      office: get('physicalDeliveryOfficeName'),
+      manager: get('manager'),
+      profilePath: get('profilePath'),
+      homeDirectory: get('homeDirectory'),
+      homeDrive: get('homeDrive'),
+      scriptPath: get('scriptPath'),
+      // Without the computed flags, any lockout time counts as locked
+      locked: computedFlags !== undefined ? !!(parseInt(computedFlags, 10) & UF_LOCKOUT) : !!lockoutTime,
+      lockoutTime,
+      badPasswordCount: parseInt(get('badPwdCount') || '0', 10),
+      lastBadPassword: this.parseNTTime(get('badPasswordTime'))
+    }
   }
 }
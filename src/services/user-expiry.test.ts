@@ -0,0 +1,40 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { PasswordPolicyAPI } from './password-policy-api'
+import { findExpiring, findPasswordNeverExpires } from './user-expiry'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+const entries = (users: Awaited<ReturnType<typeof UserAPI.list>>, days: number) =>
+  findExpiring(users, { days, includeDisabled: false }).map(entry => [entry.user.username, entry.kind, entry.daysLeft])
+
+describe('User expiry', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+  })
+
+  it('reports passwords expiring under the domain policy and never-expiring ones', async () => {
+    const users = await UserAPI.list()
+    const alice = users.find(user => user.username === 'alice')
+
+    // 42.9 days from 38 days ago
+    expect(alice).toMatchObject({ passwordExpired: false, passwordNeverExpires: false })
+    expect(entries(users, 7)).toEqual([['alice', 'password', 4]])
+    expect(entries(users, 30)).toEqual([['alice', 'password', 4], ['bob', 'password', 22]])
+
+    expect(findPasswordNeverExpires(users, false).map(user => user.username)).toEqual(['Administrator'])
+    expect(findPasswordNeverExpires(users, true).map(user => user.username)).toEqual(['Administrator', 'Guest'])
+  })
+
+  it('uses the resultant PSO and reports account expiry', async () => {
+    // The Admins PSO allows 30 days
+    await PasswordPolicyAPI.applyPSO('Admins', 'alice')
+    await UserAPI.setExpiry('bob', new Date(Date.now() + 3.5 * 24 * 60 * 60 * 1000))
+
+    expect((await UserAPI.show('alice')).passwordExpired).toBe(true)
+
+    const users = await UserAPI.list()
+    expect(entries(users, 7)).toEqual([['alice', 'password', -9], ['bob', 'account', 3]])
+  })
+})
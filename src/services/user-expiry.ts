@@ -0,0 +1,49 @@
+// User Expiry Report
+
+import type { ExpiringAccount, ExpiryReportSearch, SambaUser } from '@/types/samba'
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Whole days from now until the date, rounded down; negative once it has passed
+ */
+export function daysUntil (date: Date, now: Date = new Date()): number {
+  return Math.floor((date.getTime() - now.getTime()) / DAY)
+}
+
+/**
+ * Passwords and accounts that expire within the window or already have,
+ * soonest first. Passwords that must be changed at next logon count as
+ * expired now.
+ */
+export function findExpiring (users: SambaUser[], search: ExpiryReportSearch, now: Date = new Date()): ExpiringAccount[] {
+  const until = now.getTime() + search.days * DAY
+  const result: ExpiringAccount[] = []
+
+  for (const user of users) {
+    if (!user.enabled && !search.includeDisabled) continue
+
+    const passwordExpires = user.mustChangePassword && !user.passwordNeverExpires ? now : user.passwordExpires
+    const expiries: Array<[ExpiringAccount['kind'], Date | undefined]> = [
+      ['password', passwordExpires],
+      ['account', user.accountExpires]
+    ]
+
+    for (const [kind, expires] of expiries) {
+      if (expires && expires.getTime() <= until) {
+        result.push({ user, kind, expires, daysLeft: daysUntil(expires, now) })
+      }
+    }
+  }
+
+  return result.sort((a, b) => a.expires.getTime() - b.expires.getTime())
+}
+
+/**
+ * Users flagged "password never expires", by username
+ */
+export function findPasswordNeverExpires (users: SambaUser[], includeDisabled: boolean): SambaUser[] {
+  return users
+    .filter(user => user.passwordNeverExpires && (user.enabled || includeDisabled))
+    .sort((a, b) => a.username.localeCompare(b.username))
+}
@@ -0,0 +1,40 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { exportUsers } from './user-export'
+import { parseCSV } from '@/lib/csv'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+describe('User export', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+  })
+
+  it('writes the chosen columns of the filtered users', async () => {
+    const users = await UserAPI.list({ enabled: false })
+    const [header, ...rows] = parseCSV(exportUsers(users, ['username', 'enabled', 'groups', 'organizationalUnit'], 'csv') as string)
+
+    expect(header).toEqual(['Username', 'Enabled', 'Groups', 'Organizational Unit'])
+    expect(rows.map(row => row[0]).sort()).toEqual(['Guest', 'carol'])
+    expect(rows.find(row => row[0] === 'carol')).toEqual(['carol', 'false', expect.any(String), 'OU=Engineering,OU=Staff,DC=samdom,DC=example,DC=com'])
+  })
+
+  it('keeps types in JSON', async () => {
+    const users = await UserAPI.list({ search: 'alice' })
+    const [alice] = JSON.parse(exportUsers(users, ['username', 'enabled', 'groups'], 'json') as string)
+
+    expect(alice).toEqual({ username: 'alice', enabled: true, groups: expect.arrayContaining(['Sales Team']) })
+  })
+
+  it('packs XLSX as a zip with the sheet and its strings', async () => {
+    const users = await UserAPI.list({ search: 'alice' })
+    const workbook = exportUsers(users, ['username', 'lastLogin'], 'xlsx') as Uint8Array
+    const text = new TextDecoder().decode(workbook)
+
+    // Local file header signature, then the stored (uncompressed) parts
+    expect(Array.from(workbook.slice(0, 4))).toEqual([0x50, 0x4B, 0x03, 0x04])
+    expect(text).toContain('xl/worksheets/sheet1.xml')
+    expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">alice</t></is></c>')
+  })
+})
@@ -0,0 +1,65 @@
+// User Export
+
+import { toCSV } from '@/lib/csv'
+import { toXLSX, type CellValue } from '@/lib/xlsx'
+import type { SambaUser } from '@/types/samba'
+import { _, N_ } from '@/lib/i18n'
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx'
+
+export type ExportValue = CellValue | string[]
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  value: (user: SambaUser) => ExportValue;
+  /**
+   * Selected when the export dialog opens
+   */
+  default?: boolean;
+}
+
+export const USER_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'username', label: N_('Username'), value: user => user.username, default: true },
+  { key: 'displayName', label: N_('Display Name'), value: user => user.displayName, default: true },
+  { key: 'firstName', label: N_('First Name'), value: user => user.firstName },
+  { key: 'lastName', label: N_('Last Name'), value: user => user.lastName },
+  { key: 'email', label: N_('Email'), value: user => user.email, default: true },
+  { key: 'description', label: N_('Description'), value: user => user.description },
+  { key: 'enabled', label: N_('Enabled'), value: user => user.enabled, default: true },
+  { key: 'groups', label: N_('Groups'), value: user => user.groups, default: true },
+  { key: 'lastLogin', label: N_('Last Logon'), value: user => user.lastLogin, default: true },
+  { key: 'createdAt', label: N_('Created'), value: user => user.createdAt },
+  { key: 'passwordExpires', label: N_('Password Expires'), value: user => user.passwordExpires },
+  { key: 'accountExpires', label: N_('Account Expires'), value: user => user.accountExpires },
+  { key: 'organizationalUnit', label: N_('Organizational Unit'), value: user => user.organizationalUnit, default: true },
+  { key: 'distinguishedName', label: N_('Distinguished Name'), value: user => user.distinguishedName }
+]
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+/**
+ * Write the users with the chosen columns, in the order of
+ * `USER_EXPORT_COLUMNS`. JSON keeps the column keys, booleans and group
+ * lists; CSV and XLSX get translated headers and one cell per column.
+ */
+export function exportUsers (users: SambaUser[], columnKeys: string[], fileFormat: ExportFormat): string | Uint8Array<ArrayBuffer> {
+  const columns = USER_EXPORT_COLUMNS.filter(column => columnKeys.includes(column.key))
+
+  if (fileFormat === 'json') {
+    const records = users.map(user => Object.fromEntries(columns.map(column => [column.key, column.value(user) ?? null])))
+    return JSON.stringify(records, null, 2)
+  }
+
+  const cell = (value: ExportValue): CellValue => Array.isArray(value) ? value.join('; ') : value
+  const rows: CellValue[][] = [
+    columns.map(column => _(column.label)),
+    ...users.map(user => columns.map(column => cell(column.value(user))))
+  ]
+
+  return fileFormat === 'xlsx' ? toXLSX(rows, _('Users')) : toCSV(rows)
+}
@@ -0,0 +1,100 @@
+import { BaseAPI, type CancelOptions } from './base-api'
+import { UserAPI } from './user-api'
+import { GroupAPI } from './group-api'
+import { PasswordPolicyAPI } from './password-policy-api'
+import {
+  planImport,
+  type ColumnMapping,
+  type ImportOptions,
+  type ImportRecord,
+  type ImportResult,
+  type ImportRow
+} from './user-import'
+import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
+
+export interface RunImportOptions extends CancelOptions {
+  /**
+   * Called after each row, for progress
+   */
+  onResult?: (result: ImportResult, index: number) => void;
+}
+
+export class UserImportAPI extends BaseAPI {
+  /**
+   * Map and validate the records against the accounts and groups already
+   * in the directory, without changing anything
+   */
+  static async plan (records: ImportRecord[], mapping: ColumnMapping, options: ImportOptions): Promise<ImportRow[]> {
+    try {
+      const [users, groups, rules] = await Promise.all([
+        this.scoped(UserAPI).list(),
+        this.scoped(GroupAPI).list(),
+        // Samba's defaults apply when the settings cannot be read
+        this.scoped(PasswordPolicyAPI).getDomainSettings().catch(() => undefined)
+      ])
+      return planImport(
+        records,
+        mapping,
+        options,
+        users.map(user => user.username),
+        groups.map(group => group.name),
+        rules
+      )
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to prepare import: $0'), (error as Error).message),
+        'USER_IMPORT_PREVIEW_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * Create the accounts of the planned rows one by one. A failed row does
+   * not stop the import; every row gets a result, and once the signal is
+   * aborted the remaining rows are skipped.
+   */
+  static async run (rows: ImportRow[], options: RunImportOptions = {}): Promise<ImportResult[]> {
+    const { signal, onResult } = options
+    const results: ImportResult[] = []
+
+    for (const [index, row] of rows.entries()) {
+      const result = await this.importRow(row, signal)
+      results.push(result)
+      onResult?.(result, index)
+    }
+
+    return results
+  }
+
+  private static async importRow (row: ImportRow, signal?: AbortSignal): Promise<ImportResult> {
+    const { username } = row.input
+    const result: ImportResult = { row: row.row, username, status: 'skipped' }
+
+    if (row.action !== 'create') {
+      return { ...result, status: row.action === 'skip' ? 'skipped' : 'failed', message: row.messages.join('; ') }
+    }
+
+    if (signal?.aborted) {
+      return { ...result, message: _('The import was stopped before this row') }
+    }
+
+    try {
+      await this.scoped(UserAPI).create(row.input)
+    } catch (error) {
+      // Created, but not added to all groups or without its expiry
+      if (!(error instanceof APIError && error.code === 'USER_CREATE_INCOMPLETE')) {
+        return { ...result, status: 'failed', message: (error as Error).message }
+      }
+      result.message = error.message
+    }
+
+    result.status = 'created'
+    if (row.generatedPassword) {
+      result.password = row.input.password
+    }
+
+    return result
+  }
+}
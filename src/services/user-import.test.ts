@@ -0,0 +1,90 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { GroupAPI } from './group-api'
+import { UserImportAPI } from './user-import-api'
+import {
+  formatImportReport,
+  getImportColumns,
+  guessColumnMapping,
+  parseImportFile
+} from './user-import'
+import { MemoryAuditStore } from './audit'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+const CSV = [
+  'Login;Given Name;Surname;Mail;Groups',
+  'erin;Erin;"O\'Neil; Jr";erin@example.com;Engineers',
+  'alice;Alice;Smith;;',
+  'frank;Frank;;not-an-email;',
+  'gina;Gina;Lee;;Unknown Group'
+].join('\r\n')
+
+describe('User import', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+    BaseAPI.setAuditStore(new MemoryAuditStore())
+  })
+
+  it('reads CSV and JSON and guesses the column mapping', () => {
+    const records = parseImportFile(CSV, 'csv')
+    expect(records).toHaveLength(4)
+    expect(records[0].Surname).toBe("O'Neil; Jr")
+
+    expect(guessColumnMapping(getImportColumns(records))).toEqual({
+      username: 'Login',
+      firstName: 'Given Name',
+      lastName: 'Surname',
+      email: 'Mail',
+      groups: 'Groups'
+    })
+
+    expect(parseImportFile('{"users": [{"username": "erin"}]}', 'json')).toEqual([{ username: 'erin' }])
+    expect(() => parseImportFile('{"username": "erin"}', 'json')).toThrow(/array of user objects/)
+  })
+
+  it('plans each row against the directory', async () => {
+    const records = parseImportFile(CSV, 'csv')
+    const rows = await UserImportAPI.plan(records, guessColumnMapping(getImportColumns(records)), {
+      skipExisting: true,
+      organizationalUnit: 'OU=Staff'
+    })
+
+    expect(rows.map(row => row.action)).toEqual(['create', 'skip', 'error', 'error'])
+    expect(rows[0].input).toMatchObject({ organizationalUnit: 'OU=Staff', groups: ['Engineers'] })
+    expect(rows[0].generatedPassword).toBe(true)
+    expect(rows[2].messages.join()).toMatch(/valid email/)
+    expect(rows[3].messages.join()).toMatch(/Unknown Group/)
+  })
+
+  it('creates the planned users and reports generated passwords', async () => {
+    const records = parseImportFile(CSV, 'csv')
+    const rows = await UserImportAPI.plan(records, guessColumnMapping(getImportColumns(records)), { skipExisting: true })
+    const onResult = jest.fn()
+
+    const results = await UserImportAPI.run(rows, { onResult })
+
+    expect(results.map(result => result.status)).toEqual(['created', 'skipped', 'failed', 'failed'])
+    expect(onResult).toHaveBeenCalledTimes(4)
+    expect(results[0].password).toBe(rows[0].input.password)
+    expect(results[1].password).toBeUndefined()
+    expect((await UserAPI.show('erin')).lastName).toBe("O'Neil; Jr")
+    expect(await GroupAPI.listMembers('Engineers')).toContain('erin')
+
+    const report = formatImportReport(results, 'csv')
+    expect(report.split('\r\n')[0]).toBe('row,username,status,message,password')
+    expect(report).toContain(`1,erin,created,,${rows[0].input.password}`)
+  })
+
+  it('skips the remaining rows once stopped', async () => {
+    const records = parseImportFile(CSV, 'csv')
+    const rows = await UserImportAPI.plan(records, guessColumnMapping(getImportColumns(records)), { skipExisting: true })
+    const controller = new AbortController()
+    controller.abort()
+
+    const [first] = await UserImportAPI.run(rows, { signal: controller.signal })
+    expect(first).toMatchObject({ username: 'erin', status: 'skipped' })
+    await expect(UserAPI.show('erin')).rejects.toThrow()
+  })
+})
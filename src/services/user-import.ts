@@ -0,0 +1,262 @@
+// Bulk User Import
+
+import { createUserSchemaFor } from '@/lib/validation'
+import { detectDelimiter, parseCSV, toCSV } from '@/lib/csv'
+import { DEFAULT_PASSWORD_RULES, generatePassword, type PasswordRules } from '@/lib/password'
+import type { CreateUserInput } from '@/types/samba'
+import { _, N_, format } from '@/lib/i18n'
+
+export type ImportFormat = 'csv' | 'json'
+
+/**
+ * A row of the import file, keyed by its column names
+ */
+export type ImportRecord = Record<string, unknown>
+
+export type ImportField = keyof Omit<CreateUserInput, 'accountExpires'>
+
+/**
+ * Which column of the file fills each field; unmapped fields are left out
+ */
+export type ColumnMapping = Partial<Record<ImportField, string>>
+
+export interface ImportFieldInfo {
+  field: ImportField;
+  label: string;
+  /**
+   * Column names, lowercased without spaces, that map to this field
+   * without asking
+   */
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldInfo[] = [
+  { field: 'username', label: N_('Username'), aliases: ['username', 'samaccountname', 'login', 'logon', 'account', 'uid'] },
+  { field: 'password', label: N_('Password'), aliases: ['password', 'initialpassword', 'pwd'] },
+  { field: 'firstName', label: N_('First Name'), aliases: ['firstname', 'givenname', 'forename', 'given_name', 'first_name'] },
+  { field: 'lastName', label: N_('Last Name'), aliases: ['lastname', 'surname', 'sn', 'familyname', 'last_name'] },
+  { field: 'displayName', label: N_('Display Name'), aliases: ['displayname', 'fullname', 'name', 'display_name'] },
+  { field: 'email', label: N_('Email'), aliases: ['email', 'mail', 'emailaddress', 'e-mail'] },
+  { field: 'description', label: N_('Description'), aliases: ['description', 'comment', 'notes'] },
+  { field: 'organizationalUnit', label: N_('Organizational Unit'), aliases: ['organizationalunit', 'ou', 'userou', 'container'] },
+  { field: 'groups', label: N_('Groups'), aliases: ['groups', 'group', 'memberof'] },
+  { field: 'mustChangePassword', label: N_('Must Change Password'), aliases: ['mustchangepassword', 'changepasswordatlogon'] },
+  { field: 'passwordNeverExpires', label: N_('Password Never Expires'), aliases: ['passwordneverexpires'] }
+]
+
+export interface ImportOptions {
+  /**
+   * Leave rows for accounts that already exist out instead of reporting
+   * them as errors
+   */
+  skipExisting: boolean;
+  /**
+   * Where rows without an OU of their own are created; empty for the
+   * default Users container
+   */
+  organizationalUnit?: string;
+  /**
+   * Groups every imported user is added to, besides the row's own
+   */
+  groups?: string[];
+  /**
+   * Require a new password at first logon for every imported user
+   */
+  mustChangePassword?: boolean;
+}
+
+export type ImportAction = 'create' | 'skip' | 'error'
+
+/**
+ * A row of the file after mapping and validation, as shown in the preview
+ */
+export interface ImportRow {
+  /**
+   * Position of the record in the file, starting at 1
+   */
+  row: number;
+  action: ImportAction;
+  input: CreateUserInput;
+  /**
+   * Whether the password was generated because the row had none
+   */
+  generatedPassword: boolean;
+  messages: string[];
+}
+
+export type ImportStatus = 'created' | 'skipped' | 'failed'
+
+export interface ImportResult {
+  row: number;
+  username: string;
+  status: ImportStatus;
+  message?: string;
+  /**
+   * The generated password, so it can be handed to the user
+   */
+  password?: string;
+}
+
+/**
+ * Read the records of an import file. CSV needs a header row; JSON is an
+ * array of objects, or an object with a `users` array.
+ */
+export function parseImportFile (text: string, fileFormat: ImportFormat): ImportRecord[] {
+  if (fileFormat === 'json') {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch (error) {
+      throw new Error(format(_('The file is not valid JSON: $0'), (error as Error).message))
+    }
+
+    const records = Array.isArray(data) ? data : (data as { users?: unknown })?.users
+    if (!Array.isArray(records) || records.some(record => !record || typeof record !== 'object' || Array.isArray(record))) {
+      throw new Error(_('The JSON file must contain an array of user objects'))
+    }
+    return records as ImportRecord[]
+  }
+
+  const [header, ...rows] = parseCSV(text, detectDelimiter(text))
+  if (!header) {
+    throw new Error(_('The CSV file is empty'))
+  }
+
+  const columns = header.map(column => column.trim())
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])))
+}
+
+/**
+ * The column names found in the records, in the order they first appear
+ */
+export function getImportColumns (records: ImportRecord[]): string[] {
+  const columns = new Set<string>()
+  records.forEach(record => Object.keys(record).forEach(column => columns.add(column)))
+  return [...columns]
+}
+
+/**
+ * Map columns whose names are known spellings of a field
+ */
+export function guessColumnMapping (columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const normalize = (name: string) => name.toLowerCase().replace(/\s+/g, '')
+
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    const column = columns.find(candidate => aliases.includes(normalize(candidate)))
+    if (column) {
+      mapping[field] = column
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * Turn each record into a `CreateUserInput`, validate it with
+ * `createUserSchemaFor(rules)` and decide whether it is created, skipped or
+ * reported as an error. Rows without a password get a generated one that
+ * meets the rules.
+ */
+export function planImport (
+  records: ImportRecord[],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  existingUsers: string[] = [],
+  existingGroups?: string[],
+  rules: PasswordRules = DEFAULT_PASSWORD_RULES
+): ImportRow[] {
+  const schema = createUserSchemaFor(rules)
+  const existing = new Set(existingUsers.map(name => name.toLowerCase()))
+  const knownGroups = existingGroups && new Set(existingGroups.map(name => name.toLowerCase()))
+  const seen = new Set<string>()
+
+  return records.map((record, index) => {
+    const text = (field: ImportField) => {
+      const column = mapping[field]
+      const value = column ? record[column] : undefined
+      return value === undefined || value === null ? '' : String(value).trim()
+    }
+    const flag = (field: ImportField, fallback = false) => {
+      const value = mapping[field] ? record[mapping[field] as string] : undefined
+      if (typeof value === 'boolean') return value
+      const normalized = String(value ?? '').trim().toLowerCase()
+      return normalized ? ['1', 'true', 'yes', 'y', 'x'].includes(normalized) : fallback
+    }
+    const list = (field: ImportField) => {
+      const column = mapping[field]
+      const value = column ? record[column] : undefined
+      const values = Array.isArray(value) ? value.map(String) : String(value ?? '').split(/[;|]/)
+      return values.map(name => name.trim()).filter(Boolean)
+    }
+
+    const password = text('password')
+    const input: CreateUserInput = {
+      username: text('username'),
+      password: password || generatePassword(rules, { username: text('username'), displayName: text('displayName') }),
+      firstName: text('firstName'),
+      lastName: text('lastName'),
+      displayName: text('displayName'),
+      email: text('email'),
+      description: text('description'),
+      organizationalUnit: text('organizationalUnit') || options.organizationalUnit || '',
+      groups: [...new Set([...list('groups'), ...(options.groups || [])])],
+      mustChangePassword: flag('mustChangePassword', Boolean(options.mustChangePassword)),
+      passwordNeverExpires: flag('passwordNeverExpires')
+    }
+
+    const planned: ImportRow = {
+      row: index + 1,
+      action: 'create',
+      input,
+      generatedPassword: !password,
+      messages: []
+    }
+
+    const result = schema.safeParse(input)
+    if (!result.success) {
+      planned.action = 'error'
+      planned.messages = result.error.issues.map(issue => {
+        const info = IMPORT_FIELDS.find(({ field }) => field === issue.path[0])
+        return info ? `${_(info.label)}: ${issue.message}` : issue.message
+      })
+      return planned
+    }
+
+    const key = input.username.toLowerCase()
+    if (seen.has(key)) {
+      planned.action = 'error'
+      planned.messages.push(format(_("User '$0' appears more than once in the file"), input.username))
+      return planned
+    }
+    seen.add(key)
+
+    if (existing.has(key)) {
+      planned.action = options.skipExisting ? 'skip' : 'error'
+      planned.messages.push(format(_("User '$0' already exists"), input.username))
+      return planned
+    }
+
+    const unknown = knownGroups ? (input.groups || []).filter(group => !knownGroups.has(group.toLowerCase())) : []
+    if (unknown.length) {
+      planned.action = 'error'
+      planned.messages.push(format(_('Unknown groups: $0'), unknown.join(', ')))
+    }
+
+    return planned
+  })
+}
+
+/**
+ * The per-row report offered for download when the import has finished
+ */
+export function formatImportReport (results: ImportResult[], fileFormat: ImportFormat): string {
+  if (fileFormat === 'json') {
+    return JSON.stringify(results, null, 2)
+  }
+
+  return toCSV([
+    ['row', 'username', 'status', 'message', 'password'],
+    ...results.map(result => [result.row, result.username, result.status, result.message, result.password])
+  ])
+}
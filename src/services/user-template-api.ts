@@ -0,0 +1,86 @@
+// User Template API Service
+
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { templateFromUser, type UserTemplate, type UserTemplateField } from './user-template'
+import { APIError } from '../lib/errors'
+import { _, format } from '../lib/i18n'
+
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase()
+
+export class UserTemplateAPI extends BaseAPI {
+  /**
+   * The saved templates, by name
+   */
+  static async list (): Promise<UserTemplate[]> {
+    try {
+      const templates = await this.getUserTemplateStore().read()
+      return templates.sort((a, b) => a.name.localeCompare(b.name))
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to read user templates: $0'), (error as Error).message),
+        'USER_TEMPLATE_READ_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * Add a template, or replace the one called `previousName` when editing
+   * or renaming it
+   */
+  static async save (template: UserTemplate, previousName?: string): Promise<UserTemplate> {
+    this.validateRequired({ name: template.name }, ['name'])
+
+    const store = this.getUserTemplateStore()
+    const saved: UserTemplate = {
+      ...template,
+      name: template.name.trim(),
+      updatedAt: new Date().toISOString(),
+      updatedBy: await this.getAuditStore().currentUser()
+    }
+
+    try {
+      await store.update(templates => {
+        const replaced = previousName ?? saved.name
+        if (templates.some(existing => sameName(existing.name, saved.name) && !sameName(existing.name, replaced))) {
+          throw new APIError(format(_('A template named $0 already exists'), saved.name), 'USER_TEMPLATE_EXISTS')
+        }
+        return [...templates.filter(existing => !sameName(existing.name, replaced)), saved]
+      })
+      return saved
+    } catch (error) {
+      if (error instanceof APIError) {
+        throw error
+      }
+      throw new APIError(
+        format(_('Failed to save user template $0: $1'), saved.name, (error as Error).message),
+        'USER_TEMPLATE_SAVE_FAILED',
+        error
+      )
+    }
+  }
+
+  static async delete (name: string): Promise<void> {
+    try {
+      await this.getUserTemplateStore().update(templates =>
+        templates.filter(template => !sameName(template.name, name))
+      )
+    } catch (error) {
+      throw new APIError(
+        format(_('Failed to delete user template $0: $1'), name, (error as Error).message),
+        'USER_TEMPLATE_DELETE_FAILED',
+        error
+      )
+    }
+  }
+
+  /**
+   * A template copying the container, groups and chosen attributes of an
+   * existing user, as "Copy" does in Active Directory Users and Computers
+   */
+  static async fromUser (username: string, fields: UserTemplateField[]): Promise<UserTemplate> {
+    const user = await this.scoped(UserAPI).show(username)
+    return templateFromUser(user, fields, format(_('Copy of $0'), user.username))
+  }
+}
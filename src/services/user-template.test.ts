@@ -0,0 +1,56 @@
+import { BaseAPI } from './base-api'
+import { UserAPI } from './user-api'
+import { UserTemplateAPI } from './user-template-api'
+import { MemoryUserTemplateStore, expandTemplateValues, templateToInput } from './user-template'
+import { FakeDirectory, FakeSambaTransport } from './fake'
+
+jest.mock('cockpit', () => ({}), { virtual: true })
+
+describe('User templates', () => {
+  beforeEach(() => {
+    BaseAPI.setTransport(new FakeSambaTransport({ directory: FakeDirectory.createSample() }))
+    BaseAPI.setUserTemplateStore(new MemoryUserTemplateStore())
+  })
+
+  it('adds a new user to the requested groups', async () => {
+    await UserAPI.create({ username: 'dave', password: 'Passw0rd!2024', groups: ['Engineers', 'Newsletter'] })
+
+    const dave = await UserAPI.show('dave')
+    expect(dave.groups.sort()).toEqual(['Domain Users', 'Engineers', 'Newsletter'])
+  })
+
+  it('copies the container, groups and chosen attributes of a user', async () => {
+    const template = await UserTemplateAPI.fromUser('alice', ['department', 'title'])
+    expect(template).toMatchObject({
+      organizationalUnit: 'OU=Sales,OU=Staff,DC=samdom,DC=example,DC=com',
+      groups: ['Sales Team', 'Newsletter'],
+      attributes: { department: 'Sales', title: 'Account Manager' }
+    })
+    expect(template.attributes).not.toHaveProperty('description')
+
+    await UserAPI.create({
+      ...expandTemplateValues(templateToInput(template), 'erin'),
+      username: 'erin',
+      password: 'Passw0rd!2024'
+    })
+
+    const erin = await UserAPI.show('erin')
+    expect(erin).toMatchObject({ organizationalUnit: template.organizationalUnit, department: 'Sales', title: 'Account Manager' })
+    expect(erin.groups.sort()).toEqual(['Domain Users', 'Newsletter', 'Sales Team'])
+  })
+
+  it('saves, renames and deletes templates by name', async () => {
+    const base = { groups: [], attributes: { homeDirectory: '\\\\files\\home\\%username%' }, mustChangePassword: true, passwordNeverExpires: false }
+    await UserTemplateAPI.save({ ...base, name: 'Sales' })
+    await UserTemplateAPI.save({ ...base, name: 'Engineering' })
+
+    await expect(UserTemplateAPI.save({ ...base, name: 'sales' }, 'Engineering')).rejects.toMatchObject({ code: 'USER_TEMPLATE_EXISTS' })
+
+    await UserTemplateAPI.save({ ...base, name: 'Developers' }, 'Engineering')
+    await UserTemplateAPI.delete('sales')
+
+    const templates = await UserTemplateAPI.list()
+    expect(templates.map(template => template.name)).toEqual(['Developers'])
+    expect(expandTemplateValues(templates[0].attributes, 'frank').homeDirectory).toBe('\\\\files\\home\\frank')
+  })
+})
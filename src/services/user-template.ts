@@ -0,0 +1,152 @@
+// User Templates
+
+import { CockpitJsonStore, MemoryJsonStore, type JsonStore } from './json-store'
+import type { CreateUserInput, SambaUser } from '@/types/samba'
+import { N_ } from '@/lib/i18n'
+
+/**
+ * Attributes a template passes on to the users created from it
+ */
+export type UserTemplateField =
+  | 'description'
+  | 'title'
+  | 'department'
+  | 'company'
+  | 'office'
+  | 'profilePath'
+  | 'homeDirectory'
+  | 'homeDrive'
+  | 'scriptPath'
+
+export const USER_TEMPLATE_FIELDS: Array<{ field: UserTemplateField; label: string }> = [
+  { field: 'description', label: N_('Description') },
+  { field: 'title', label: N_('Job Title') },
+  { field: 'department', label: N_('Department') },
+  { field: 'company', label: N_('Company') },
+  { field: 'office', label: N_('Office') },
+  { field: 'profilePath', label: N_('Profile Path') },
+  { field: 'homeDirectory', label: N_('Home Directory') },
+  { field: 'homeDrive', label: N_('Home Drive') },
+  { field: 'scriptPath', label: N_('Logon Script') }
+]
+
+export interface UserTemplate {
+  name: string;
+  organizationalUnit?: string;
+  groups: string[];
+  /**
+   * Values may contain %username%, replaced by the new user's name
+   */
+  attributes: Partial<Record<UserTemplateField, string>>;
+  mustChangePassword: boolean;
+  passwordNeverExpires: boolean;
+  /**
+   * New accounts expire this many days after they are created
+   */
+  accountExpiresDays?: number;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+/**
+ * Where templates are kept: a JSON file on the server, shared by every
+ * administrator, or memory in the sandbox
+ */
+export type UserTemplateStore = JsonStore<UserTemplate>
+
+const DAY = 24 * 60 * 60 * 1000
+const USERNAME_PATTERN = /%username%/gi
+
+/**
+ * A template from an existing user: its container, groups and the chosen
+ * attributes. The user's own name in a profile or home path is turned
+ * back into %username%, as when copying a user on Windows.
+ */
+export function templateFromUser (user: SambaUser, fields: UserTemplateField[], name = ''): UserTemplate {
+  const attributes: UserTemplate['attributes'] = {}
+  const ownName = new RegExp(user.username.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi')
+
+  for (const field of fields) {
+    const value = user[field]
+    if (value) {
+      attributes[field] = ['profilePath', 'homeDirectory', 'scriptPath'].includes(field)
+        ? value.replace(ownName, '%username%')
+        : value
+    }
+  }
+
+  return {
+    name,
+    organizationalUnit: user.organizationalUnit,
+    // The primary group is not in memberOf and every user gets it anyway
+    groups: user.groups.filter(group => group.toLowerCase() !== 'domain users'),
+    attributes,
+    mustChangePassword: true,
+    passwordNeverExpires: !!user.passwordNeverExpires
+  }
+}
+
+/**
+ * A template from the create user form, keeping the fields that are filled in
+ */
+export function templateFromInput (input: Omit<CreateUserInput, 'username' | 'password'>, name: string, now: Date = new Date()): UserTemplate {
+  const attributes: UserTemplate['attributes'] = {}
+  for (const { field } of USER_TEMPLATE_FIELDS) {
+    const value = input[field]?.trim()
+    if (value) {
+      attributes[field] = value
+    }
+  }
+
+  return {
+    name: name.trim(),
+    organizationalUnit: input.organizationalUnit || undefined,
+    groups: input.groups || [],
+    attributes,
+    mustChangePassword: !!input.mustChangePassword,
+    passwordNeverExpires: !!input.passwordNeverExpires,
+    accountExpiresDays: input.accountExpires
+      ? Math.max(1, Math.ceil((input.accountExpires.getTime() - now.getTime()) / DAY))
+      : undefined
+  }
+}
+
+/**
+ * The create user fields a template fills in
+ */
+export function templateToInput (template: UserTemplate, now: Date = new Date()): Omit<CreateUserInput, 'username' | 'password'> {
+  return {
+    ...template.attributes,
+    organizationalUnit: template.organizationalUnit,
+    groups: [...template.groups],
+    mustChangePassword: template.mustChangePassword,
+    passwordNeverExpires: template.passwordNeverExpires,
+    accountExpires: template.accountExpiresDays
+      ? new Date(now.getTime() + template.accountExpiresDays * DAY)
+      : undefined
+  }
+}
+
+/**
+ * Replace %username% in the template fields of a new user
+ */
+export function expandTemplateValues<T extends Partial<Record<UserTemplateField, string>>> (input: T, username: string): T {
+  const result = { ...input }
+  for (const { field } of USER_TEMPLATE_FIELDS) {
+    const value = result[field]
+    if (value) {
+      result[field] = value.replace(USERNAME_PATTERN, username) as T[UserTemplateField]
+    }
+  }
+  return result
+}
+
+export class CockpitUserTemplateStore extends CockpitJsonStore<UserTemplate> {
+  static readonly DEFAULT_PATH = '/etc/cockpit-samba-ad-dc/user-templates.json'
+
+  constructor (path: string = CockpitUserTemplateStore.DEFAULT_PATH) {
+    super(path, '0755')
+  }
+}
+
+export class MemoryUserTemplateStore extends MemoryJsonStore<UserTemplate> {}
@@ -25,9 +25,10 @@ import { Button } from '@/components/ui/button'
 import { useSitesMutations } from './hooks/useSites'
 import { toast } from 'sonner'
 import type { CreateSiteInput } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const createSiteSchema = z.object({
-  name: z.string().min(1, 'Site name is required'),
+  name: z.string().min(1, _('Site name is required')),
   description: z.string().optional()
 })
 
@@ -72,7 +73,7 @@ export function CreateSiteDialog ({ isOpen, onClose, onSiteCreated }: CreateSite
       }
 
       await createSite(siteData)
-      toast.success(`Site "${data.name}" created successfully`)
+      toast.success(format(_('Site "$0" created successfully'), data.name))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -84,9 +85,9 @@ export function CreateSiteDialog ({ isOpen, onClose, onSiteCreated }: CreateSite
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Create Site</DialogTitle>
+          <DialogTitle>{_('Create Site')}</DialogTitle>
           <DialogDescription>
-            Create a new Active Directory site for managing replication topology.
+            {_('Create a new Active Directory site for managing replication topology.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -97,16 +98,16 @@ export function CreateSiteDialog ({ isOpen, onClose, onSiteCreated }: CreateSite
               name="name"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Site Name</FormLabel>
+                  <FormLabel>{_('Site Name')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="Enter site name"
+                      placeholder={_('Enter site name')}
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    A unique name for the site (e.g., "MainOffice", "Branch1")
+                    {_('A unique name for the site (e.g., "MainOffice", "Branch1")')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -118,17 +119,17 @@ export function CreateSiteDialog ({ isOpen, onClose, onSiteCreated }: CreateSite
               name="description"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Description</FormLabel>
+                  <FormLabel>{_('Description')}</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Enter site description (optional)"
+                      placeholder={_('Enter site description (optional)')}
                       className="resize-none"
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Optional description for the site
+                    {_('Optional description for the site')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -137,10 +138,10 @@ export function CreateSiteDialog ({ isOpen, onClose, onSiteCreated }: CreateSite
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Creating...' : 'Create Site'}
+                {isSubmitting ? _('Creating...') : _('Create Site')}
               </Button>
             </DialogFooter>
           </form>
@@ -32,13 +32,14 @@ import { Button } from '@/components/ui/button'
 import { useSitesMutations } from './hooks/useSites'
 import { toast } from 'sonner'
 import type { CreateSubnetInput, SambaSite } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const createSubnetSchema = z.object({
-  subnet: z.string().min(1, 'Subnet is required').regex(
+  subnet: z.string().min(1, _('Subnet is required')).regex(
     /^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/,
-    'Subnet must be in CIDR format (e.g., 192.168.1.0/24)'
+    _('Subnet must be in CIDR format (e.g., 192.168.1.0/24)')
   ),
-  site: z.string().min(1, 'Site is required'),
+  site: z.string().min(1, _('Site is required')),
   description: z.string().optional()
 })
 
@@ -86,7 +87,7 @@ export function CreateSubnetDialog ({ isOpen, onClose, onSubnetCreated, sites }:
       }
 
       await createSubnet(subnetData)
-      toast.success(`Subnet "${data.subnet}" created successfully`)
+      toast.success(format(_('Subnet "$0" created successfully'), data.subnet))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -98,9 +99,9 @@ export function CreateSubnetDialog ({ isOpen, onClose, onSubnetCreated, sites }:
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Create Subnet</DialogTitle>
+          <DialogTitle>{_('Create Subnet')}</DialogTitle>
           <DialogDescription>
-            Create a new subnet and associate it with a site for proper replication routing.
+            {_('Create a new subnet and associate it with a site for proper replication routing.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -111,7 +112,7 @@ export function CreateSubnetDialog ({ isOpen, onClose, onSubnetCreated, sites }:
               name="subnet"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Subnet</FormLabel>
+                  <FormLabel>{_('Subnet')}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="192.168.1.0/24"
@@ -120,7 +121,7 @@ export function CreateSubnetDialog ({ isOpen, onClose, onSubnetCreated, sites }:
                     />
                   </FormControl>
                   <FormDescription>
-                    Subnet in CIDR notation (e.g., 192.168.1.0/24)
+                    {_('Subnet in CIDR notation (e.g., 192.168.1.0/24)')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -132,11 +133,11 @@ export function CreateSubnetDialog ({ isOpen, onClose, onSubnetCreated, sites }:
               name="site"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Site</FormLabel>
+                  <FormLabel>{_('Site')}</FormLabel>
                   <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select a site" />
+                        <SelectValue placeholder={_('Select a site')} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
@@ -148,7 +149,7 @@ export function CreateSubnetDialog ({ isOpen, onClose, onSubnetCreated, sites }:
                     </SelectContent>
                   </Select>
                   <FormDescription>
-                    The site this subnet belongs to
+                    {_('The site this subnet belongs to')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -160,17 +161,17 @@ export function CreateSubnetDialog ({ isOpen, onClose, onSubnetCreated, sites }:
               name="description"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Description</FormLabel>
+                  <FormLabel>{_('Description')}</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Enter subnet description (optional)"
+                      placeholder={_('Enter subnet description (optional)')}
                       className="resize-none"
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Optional description for the subnet
+                    {_('Optional description for the subnet')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -179,10 +180,10 @@ export function CreateSubnetDialog ({ isOpen, onClose, onSubnetCreated, sites }:
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Creating...' : 'Create Subnet'}
+                {isSubmitting ? _('Creating...') : _('Create Subnet')}
               </Button>
             </DialogFooter>
           </form>
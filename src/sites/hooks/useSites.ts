@@ -8,6 +8,7 @@ import type {
   CreateSubnetInput,
   SetSiteInput
 } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 export interface UseSitesReturn {
   sites: SambaSite[];
@@ -98,7 +99,7 @@ export const useSitesMutations = (onSuccess?: () => void, onError?: (error: stri
       await SitesAPI.createSite(siteData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create site'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to create site')
       onError?.(errorMessage)
       throw err
     }
@@ -109,7 +110,7 @@ export const useSitesMutations = (onSuccess?: () => void, onError?: (error: stri
       await SitesAPI.removeSite(siteName)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to remove site'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to remove site')
       onError?.(errorMessage)
       throw err
     }
@@ -120,7 +121,7 @@ export const useSitesMutations = (onSuccess?: () => void, onError?: (error: stri
       await SitesAPI.createSubnet(subnetData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create subnet'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to create subnet')
       onError?.(errorMessage)
       throw err
     }
@@ -131,7 +132,7 @@ export const useSitesMutations = (onSuccess?: () => void, onError?: (error: stri
       await SitesAPI.removeSubnet(subnetName)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to remove subnet'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to remove subnet')
       onError?.(errorMessage)
       throw err
     }
@@ -142,7 +143,7 @@ export const useSitesMutations = (onSuccess?: () => void, onError?: (error: stri
       await SitesAPI.setSite(setSiteData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to set site for server'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to set site for server')
       onError?.(errorMessage)
       throw err
     }
@@ -17,6 +17,7 @@ import { CreateSiteDialog } from './create-site'
 import { CreateSubnetDialog } from './create-subnet'
 import { SetSiteDialog } from './set-site'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 export default function SitesManagement () {
   const { sites, loading: sitesLoading, refresh: refreshSites } = useSites()
@@ -51,10 +52,10 @@ export default function SitesManagement () {
   }
 
   const handleRemoveSite = async (siteName: string) => {
-    if (confirm(`Are you sure you want to remove site "${siteName}"?`)) {
+    if (confirm(format(_('Are you sure you want to remove site "$0"?'), siteName))) {
       try {
         await removeSite(siteName)
-        toast.success(`Site "${siteName}" removed successfully`)
+        toast.success(format(_('Site "$0" removed successfully'), siteName))
       } catch (error) {
         // Error already handled by mutation hook
       }
@@ -62,10 +63,10 @@ export default function SitesManagement () {
   }
 
   const handleRemoveSubnet = async (subnetName: string) => {
-    if (confirm(`Are you sure you want to remove subnet "${subnetName}"?`)) {
+    if (confirm(format(_('Are you sure you want to remove subnet "$0"?'), subnetName))) {
       try {
         await removeSubnet(subnetName)
-        toast.success(`Subnet "${subnetName}" removed successfully`)
+        toast.success(format(_('Subnet "$0" removed successfully'), subnetName))
       } catch (error) {
         // Error already handled by mutation hook
       }
@@ -77,9 +78,9 @@ export default function SitesManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Sites Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('Sites Management')}</h1>
           <p className="text-muted-foreground">
-            Configure Active Directory sites and subnets for replication topology
+            {_('Configure Active Directory sites and subnets for replication topology')}
           </p>
         </div>
       </div>
@@ -88,39 +89,39 @@ export default function SitesManagement () {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Sites</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Sites')}</CardTitle>
             <MapPin className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{sites.length}</div>
             <p className="text-xs text-muted-foreground">
-              Active Directory sites
+              {_('Active Directory sites')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Subnets</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Subnets')}</CardTitle>
             <Network className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{subnets.length}</div>
             <p className="text-xs text-muted-foreground">
-              Configured subnets
+              {_('Configured subnets')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Replication</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Replication')}</CardTitle>
             <Globe className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">Optimized</div>
+            <div className="text-2xl font-bold">{_('Optimized')}</div>
             <p className="text-xs text-muted-foreground">
-              Topology management
+              {_('Topology management')}
             </p>
           </CardContent>
         </Card>
@@ -131,26 +132,26 @@ export default function SitesManagement () {
           <TabsList>
             <TabsTrigger value="sites" className="flex items-center gap-2">
               <MapPin className="h-4 w-4" />
-              Sites
+              {_('Sites')}
             </TabsTrigger>
             <TabsTrigger value="subnets" className="flex items-center gap-2">
               <Network className="h-4 w-4" />
-              Subnets
+              {_('Subnets')}
             </TabsTrigger>
           </TabsList>
 
           <div className="flex items-center gap-2">
             <Button onClick={() => setCreateSiteDialogOpen(true)} className="flex items-center gap-2">
               <Plus className="h-4 w-4" />
-              Create Site
+              {_('Create Site')}
             </Button>
             <Button onClick={() => setCreateSubnetDialogOpen(true)} variant="outline" className="flex items-center gap-2">
               <Plus className="h-4 w-4" />
-              Create Subnet
+              {_('Create Subnet')}
             </Button>
             <Button onClick={() => setSetSiteDialogOpen(true)} variant="outline" className="flex items-center gap-2">
               <Server className="h-4 w-4" />
-              Set Server Site
+              {_('Set Server Site')}
             </Button>
           </div>
         </div>
@@ -175,12 +176,12 @@ export default function SitesManagement () {
               <Card className="col-span-full">
                 <CardContent className="text-center py-8">
                   <MapPin className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-2 text-sm font-semibold">No Sites Found</h3>
+                  <h3 className="mt-2 text-sm font-semibold">{_('No Sites Found')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    Create your first site to get started
+                    {_('Create your first site to get started')}
                   </p>
                   <Button onClick={() => setCreateSiteDialogOpen(true)} className="mt-4">
-                    Create Site
+                    {_('Create Site')}
                   </Button>
                 </CardContent>
               </Card>
@@ -210,11 +211,11 @@ export default function SitesManagement () {
                   <CardContent>
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Subnets:</span>
+                        <span className="text-muted-foreground">{_('Subnets:')}</span>
                         <Badge variant="secondary">{site.subnets.length}</Badge>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Servers:</span>
+                        <span className="text-muted-foreground">{_('Servers:')}</span>
                         <Badge variant="secondary">{site.servers.length}</Badge>
                       </div>
                     </div>
@@ -245,12 +246,12 @@ export default function SitesManagement () {
               <Card className="col-span-full">
                 <CardContent className="text-center py-8">
                   <Network className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-2 text-sm font-semibold">No Subnets Found</h3>
+                  <h3 className="mt-2 text-sm font-semibold">{_('No Subnets Found')}</h3>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    Create your first subnet to get started
+                    {_('Create your first subnet to get started')}
                   </p>
                   <Button onClick={() => setCreateSubnetDialogOpen(true)} className="mt-4">
-                    Create Subnet
+                    {_('Create Subnet')}
                   </Button>
                 </CardContent>
               </Card>
@@ -277,7 +278,7 @@ export default function SitesManagement () {
                   <CardContent>
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Site:</span>
+                        <span className="text-muted-foreground">{_('Site:')}</span>
                         <Badge variant="outline">{subnet.site}</Badge>
                       </div>
                       {subnet.description && (
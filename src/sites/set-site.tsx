@@ -31,10 +31,11 @@ import { Button } from '@/components/ui/button'
 import { useSitesMutations } from './hooks/useSites'
 import { toast } from 'sonner'
 import type { SetSiteInput, SambaSite } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 const setSiteSchema = z.object({
-  server: z.string().min(1, 'Server name is required'),
-  site: z.string().min(1, 'Site is required')
+  server: z.string().min(1, _('Server name is required')),
+  site: z.string().min(1, _('Site is required'))
 })
 
 type SetSiteFormData = z.infer<typeof setSiteSchema>;
@@ -79,7 +80,7 @@ export function SetSiteDialog ({ isOpen, onClose, onSiteSet, sites }: SetSiteDia
       }
 
       await setSite(setSiteData)
-      toast.success(`Server "${data.server}" moved to site "${data.site}" successfully`)
+      toast.success(format(_('Server "$0" moved to site "$1" successfully'), data.server, data.site))
     } catch (error) {
       // Error already handled by mutation hook
     } finally {
@@ -91,9 +92,9 @@ export function SetSiteDialog ({ isOpen, onClose, onSiteSet, sites }: SetSiteDia
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Set Server Site</DialogTitle>
+          <DialogTitle>{_('Set Server Site')}</DialogTitle>
           <DialogDescription>
-            Move a domain controller server to a different site for optimal replication topology.
+            {_('Move a domain controller server to a different site for optimal replication topology.')}
           </DialogDescription>
         </DialogHeader>
 
@@ -104,16 +105,16 @@ export function SetSiteDialog ({ isOpen, onClose, onSiteSet, sites }: SetSiteDia
               name="server"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Server Name</FormLabel>
+                  <FormLabel>{_('Server Name')}</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="Enter server name"
+                      placeholder={_('Enter server name')}
                       {...field}
                       disabled={isSubmitting}
                     />
                   </FormControl>
                   <FormDescription>
-                    Name of the domain controller server to move
+                    {_('Name of the domain controller server to move')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -125,11 +126,11 @@ export function SetSiteDialog ({ isOpen, onClose, onSiteSet, sites }: SetSiteDia
               name="site"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Target Site</FormLabel>
+                  <FormLabel>{_('Target Site')}</FormLabel>
                   <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select target site" />
+                        <SelectValue placeholder={_('Select target site')} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
@@ -146,7 +147,7 @@ export function SetSiteDialog ({ isOpen, onClose, onSiteSet, sites }: SetSiteDia
                     </SelectContent>
                   </Select>
                   <FormDescription>
-                    The site where the server should be moved
+                    {_('The site where the server should be moved')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -157,13 +158,11 @@ export function SetSiteDialog ({ isOpen, onClose, onSiteSet, sites }: SetSiteDia
               <div className="flex">
                 <div className="ml-3">
                   <h3 className="text-sm font-medium text-yellow-800">
-                    Important Note
+                    {_('Important Note')}
                   </h3>
                   <div className="mt-2 text-sm text-yellow-700">
                     <p>
-                      Moving a server to a different site will affect replication
-                      topology. Ensure the target site has appropriate subnets
-                      configured for optimal network routing.
+                      {_('Moving a server to a different site will affect replication topology. Ensure the target site has appropriate subnets configured for optimal network routing.')}
                     </p>
                   </div>
                 </div>
@@ -172,10 +171,10 @@ export function SetSiteDialog ({ isOpen, onClose, onSiteSet, sites }: SetSiteDia
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
-                Cancel
+                {_('Cancel')}
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Moving Server...' : 'Move Server'}
+                {isSubmitting ? _('Moving Server...') : _('Move Server')}
               </Button>
             </DialogFooter>
           </form>
@@ -18,6 +18,7 @@ import { Loader2, Plus, Key } from 'lucide-react'
 import { useSPNMutations } from './hooks/useSPNMutations'
 import { toast } from 'sonner'
 import type { CreateSPNInput } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 interface AddSPNDialogProps {
   isOpen: boolean;
@@ -27,16 +28,16 @@ interface AddSPNDialogProps {
 
 const addSPNSchema = z.object({
   name: z.string()
-    .min(1, 'SPN name is required')
-    .max(200, 'SPN name must be less than 200 characters')
+    .min(1, _('SPN name is required'))
+    .max(200, _('SPN name must be less than 200 characters'))
     .refine(
       (val) => val.includes('/'),
-      'SPN must be in format: service/hostname or service/hostname:port'
+      _('SPN must be in format: service/hostname or service/hostname:port')
     ),
   user: z.string()
-    .min(1, 'Username is required')
-    .max(100, 'Username must be less than 100 characters')
-    .regex(/^[a-zA-Z0-9._-]+$/, 'Username can only contain letters, numbers, dots, underscores, and hyphens')
+    .min(1, _('Username is required'))
+    .max(100, _('Username must be less than 100 characters'))
+    .regex(/^[a-zA-Z0-9._-]+$/, _('Username can only contain letters, numbers, dots, underscores, and hyphens'))
 })
 
 type AddSPNFormData = z.infer<typeof addSPNSchema>;
@@ -65,7 +66,7 @@ export function AddSPNDialog ({
   const { addSPN } = useSPNMutations(
     () => {
       // Success callback
-      toast.success('SPN added successfully')
+      toast.success(_('SPN added successfully'))
       resetForm()
       onSPNAdded?.()
       onClose()
@@ -110,10 +111,10 @@ export function AddSPNDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Plus className="h-4 w-4" />
-            Add Service Principal Name
+            {_('Add Service Principal Name')}
           </DialogTitle>
           <DialogDescription>
-            Create a new SPN to map a service to a user account for Kerberos authentication
+            {_('Create a new SPN to map a service to a user account for Kerberos authentication')}
           </DialogDescription>
         </DialogHeader>
 
@@ -125,34 +126,34 @@ export function AddSPNDialog ({
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="name">SPN Name *</Label>
+            <Label htmlFor="name">{_('SPN Name *')}</Label>
             <Input
               id="name"
               {...register('name')}
-              placeholder="HTTP/webserver.domain.com or MSSQLSvc/sqlserver:1433"
+              placeholder={_('HTTP/webserver.domain.com or MSSQLSvc/sqlserver:1433')}
               className={errors.name ? 'border-destructive' : ''}
             />
             {errors.name && (
               <p className="text-sm text-destructive">{errors.name.message}</p>
             )}
             <p className="text-sm text-muted-foreground">
-              Format: service/hostname[:port] (e.g., HTTP/server.com, MSSQLSvc/db.com:1433)
+              {_('Format: service/hostname[:port] (e.g., HTTP/server.com, MSSQLSvc/db.com:1433)')}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="user">Username *</Label>
+            <Label htmlFor="user">{_('Username *')}</Label>
             <Input
               id="user"
               {...register('user')}
-              placeholder="serviceaccount or user1"
+              placeholder={_('serviceaccount or user1')}
               className={errors.user ? 'border-destructive' : ''}
             />
             {errors.user && (
               <p className="text-sm text-destructive">{errors.user.message}</p>
             )}
             <p className="text-sm text-muted-foreground">
-              The user account that will be associated with this SPN
+              {_('The user account that will be associated with this SPN')}
             </p>
           </div>
 
@@ -160,23 +161,23 @@ export function AddSPNDialog ({
           <Alert>
             <Key className="h-4 w-4" />
             <AlertDescription>
-              <strong>Common SPN Examples:</strong>
+              <strong>{_('Common SPN Examples:')}</strong>
               <ul className="mt-2 list-disc list-inside text-sm space-y-1">
-                <li><code>HTTP/webserver.domain.com</code> - Web services</li>
-                <li><code>MSSQLSvc/sqlserver.domain.com:1433</code> - SQL Server</li>
-                <li><code>HOST/fileserver.domain.com</code> - File services</li>
-                <li><code>ldap/domaincontroller.domain.com</code> - LDAP services</li>
+                <li><code>HTTP/webserver.domain.com</code>{' '}{_('- Web services')}</li>
+                <li><code>MSSQLSvc/sqlserver.domain.com:1433</code>{' '}{_('- SQL Server')}</li>
+                <li><code>HOST/fileserver.domain.com</code>{' '}{_('- File services')}</li>
+                <li><code>ldap/domaincontroller.domain.com</code>{' '}{_('- LDAP services')}</li>
               </ul>
             </AlertDescription>
           </Alert>
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button type="submit" disabled={loading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {loading ? 'Adding...' : 'Add SPN'}
+              {loading ? _('Adding...') : _('Add SPN')}
             </Button>
           </DialogFooter>
         </form>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -9,9 +9,13 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CommandPreview } from '@/components/ui/command-preview'
 import { AlertTriangle, Loader2, Trash2 } from 'lucide-react'
 import { useSPNMutations } from './hooks/useSPNMutations'
+import { SPNAPI } from '@/services/spn-api'
+import type { PreviewScope } from '@/services/base-api'
 import { toast } from 'sonner'
+import { _, format } from '@/lib/i18n'
 
 interface DeleteSPNDialogProps {
   isOpen: boolean;
@@ -34,7 +38,7 @@ export function DeleteSPNDialog ({
   const { deleteSPN } = useSPNMutations(
     () => {
       // Success callback
-      toast.success(`SPN "${spnName}" deleted successfully`)
+      toast.success(format(_('SPN "$0" deleted successfully'), spnName))
       onSPNDeleted?.()
       onClose()
     },
@@ -44,6 +48,11 @@ export function DeleteSPNDialog ({
     }
   )
 
+  const previewDelete = useCallback(
+    (api: PreviewScope) => api(SPNAPI).delete({ name: spnName, user: userName }),
+    [spnName, userName]
+  )
+
   const handleClose = () => {
     setError(null)
     onClose()
@@ -85,23 +94,23 @@ export function DeleteSPNDialog ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-destructive">
             <AlertTriangle className="h-4 w-4" />
-            Delete Service Principal Name
+            {_('Delete Service Principal Name')}
           </DialogTitle>
           <DialogDescription>
-            <strong>Warning:</strong> This action cannot be undone. Deleting this SPN will:
+            <strong>{_('Warning:')}</strong>{' '}{_('This action cannot be undone. Deleting this SPN will:')}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
           <div className="text-sm text-muted-foreground space-y-2">
             <ul className="list-disc ml-4 space-y-1">
-              <li>Remove the SPN from the user account</li>
-              <li>Disable Kerberos authentication for this service</li>
-              <li>Potentially break service authentication</li>
-              <li>Affect applications using this SPN</li>
+              <li>{_('Remove the SPN from the user account')}</li>
+              <li>{_('Disable Kerberos authentication for this service')}</li>
+              <li>{_('Potentially break service authentication')}</li>
+              <li>{_('Affect applications using this SPN')}</li>
             </ul>
             <p className="font-medium text-destructive mt-3">
-              This action is <strong>irreversible</strong>.
+              {_('This action is')}{' '}<strong>{_('irreversible')}</strong>.
             </p>
           </div>
 
@@ -115,21 +124,23 @@ export function DeleteSPNDialog ({
           <Alert>
             <AlertDescription>
               <div className="space-y-2">
-                <div><strong>SPN:</strong> <code className="bg-muted px-1 py-0.5 rounded">{spnName}</code></div>
-                <div><strong>User:</strong> <code className="bg-muted px-1 py-0.5 rounded">{userName}</code></div>
+                <div><strong>{_('SPN:')}</strong> <code className="bg-muted px-1 py-0.5 rounded">{spnName}</code></div>
+                <div><strong>{_('User:')}</strong> <code className="bg-muted px-1 py-0.5 rounded">{userName}</code></div>
                 <div className="grid grid-cols-2 gap-4 mt-3 text-sm">
-                  <div><strong>Service:</strong> {service}</div>
-                  {hostname && <div><strong>Hostname:</strong> {hostname}</div>}
-                  {port && <div><strong>Port:</strong> {port}</div>}
+                  <div><strong>{_('Service:')}</strong> {service}</div>
+                  {hostname && <div><strong>{_('Hostname:')}</strong> {hostname}</div>}
+                  {port && <div><strong>{_('Port:')}</strong> {port}</div>}
                 </div>
               </div>
             </AlertDescription>
           </Alert>
+
+          <CommandPreview operation={previewDelete} disabled={!spnName || !userName} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={handleClose}>
-            Cancel
+            {_('Cancel')}
           </Button>
           <Button
             variant="destructive"
@@ -138,11 +149,11 @@ export function DeleteSPNDialog ({
           >
             {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             {loading
-              ? 'Deleting...'
+              ? _('Deleting...')
               : (
               <>
                 <Trash2 className="mr-2 h-4 w-4" />
-                Delete SPN
+                {_('Delete SPN')}
               </>
                 )}
           </Button>
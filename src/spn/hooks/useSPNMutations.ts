@@ -2,6 +2,7 @@ import { useCallback } from 'react'
 import { SPNAPI } from '../../services/spn-api'
 import { CreateSPNInput, DeleteSPNInput } from '../../types/samba'
 import { APIError } from '../../lib/errors'
+import { _ } from '@/lib/i18n'
 
 export interface UseSPNMutationsReturn {
   addSPN: (spnData: CreateSPNInput) => Promise<void>;
@@ -19,7 +20,7 @@ export const useSPNMutations = (onSuccess?: () => void, onError?: (error: string
       await SPNAPI.add(spnData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to add SPN'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to add SPN')
       onError?.(errorMessage)
       throw err
     }
@@ -30,7 +31,7 @@ export const useSPNMutations = (onSuccess?: () => void, onError?: (error: string
       await SPNAPI.delete(spnData)
       onSuccess?.()
     } catch (err) {
-      const errorMessage = err instanceof APIError ? err.message : 'Failed to delete SPN'
+      const errorMessage = err instanceof APIError ? err.message : _('Failed to delete SPN')
       onError?.(errorMessage)
       throw err
     }
@@ -13,6 +13,7 @@ import { BackButton } from '../common'
 import { SPNList } from './list'
 import { AddSPNDialog } from './add'
 import { DeleteSPNDialog } from './delete'
+import { _ } from '@/lib/i18n'
 
 interface SPNManagementPageProps {
   initialView?: 'list';
@@ -45,9 +46,9 @@ export default function SPNManagementPage ({ initialView = 'list' }: SPNManageme
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">SPN Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('SPN Management')}</h1>
           <p className="text-muted-foreground">
-            Manage Service Principal Names for authentication in Active Directory
+            {_('Manage Service Principal Names for authentication in Active Directory')}
           </p>
         </div>
       </div>
@@ -56,39 +57,39 @@ export default function SPNManagementPage ({ initialView = 'list' }: SPNManageme
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Service Principal Names</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Service Principal Names')}</CardTitle>
             <Key className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">SPNs</div>
+            <div className="text-2xl font-bold">{_('SPNs')}</div>
             <p className="text-xs text-muted-foreground">
-              Authentication identifiers for services
+              {_('Authentication identifiers for services')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Kerberos Authentication</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Kerberos Authentication')}</CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">Security</div>
+            <div className="text-2xl font-bold">{_('Security')}</div>
             <p className="text-xs text-muted-foreground">
-              Secure service authentication
+              {_('Secure service authentication')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Service Mapping</CardTitle>
+            <CardTitle className="text-sm font-medium">{_('Service Mapping')}</CardTitle>
             <Server className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">Identity</div>
+            <div className="text-2xl font-bold">{_('Identity')}</div>
             <p className="text-xs text-muted-foreground">
-              Maps services to user accounts
+              {_('Maps services to user accounts')}
             </p>
           </CardContent>
         </Card>
@@ -99,7 +100,7 @@ export default function SPNManagementPage ({ initialView = 'list' }: SPNManageme
           <TabsList>
             <TabsTrigger value="list" className="flex items-center gap-2">
               <List className="h-4 w-4" />
-              SPN Operations
+              {_('SPN Operations')}
             </TabsTrigger>
           </TabsList>
 
@@ -107,7 +108,7 @@ export default function SPNManagementPage ({ initialView = 'list' }: SPNManageme
           <div className="flex items-center gap-2">
             <Button onClick={() => setAddDialogOpen(true)} className="flex items-center gap-2">
               <Plus className="h-4 w-4" />
-              Add SPN
+              {_('Add SPN')}
             </Button>
           </div>
         </div>
@@ -125,9 +126,9 @@ export default function SPNManagementPage ({ initialView = 'list' }: SPNManageme
       {/* Information Section */}
       <Card>
         <CardHeader>
-          <CardTitle>About Service Principal Names (SPNs)</CardTitle>
+          <CardTitle>{_('About Service Principal Names (SPNs)')}</CardTitle>
           <CardDescription>
-            Understanding SPNs and their role in Kerberos authentication
+            {_('Understanding SPNs and their role in Kerberos authentication')}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -135,24 +136,23 @@ export default function SPNManagementPage ({ initialView = 'list' }: SPNManageme
             <div>
               <h4 className="font-medium mb-2 flex items-center gap-2">
                 <Key className="h-4 w-4" />
-                What are SPNs?
+                {_('What are SPNs?')}
               </h4>
               <p className="text-sm text-muted-foreground mb-2">
-                Service Principal Names (SPNs) are unique identifiers for service instances in Active Directory.
-                They enable Kerberos authentication by mapping services to user accounts.
+                {_('Service Principal Names (SPNs) are unique identifiers for service instances in Active Directory. They enable Kerberos authentication by mapping services to user accounts.')}
               </p>
               <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
-                <li>Format: service/hostname:port</li>
-                <li>Enable secure authentication</li>
-                <li>Required for Kerberos delegation</li>
-                <li>Must be unique across the domain</li>
+                <li>{_('Format: service/hostname:port')}</li>
+                <li>{_('Enable secure authentication')}</li>
+                <li>{_('Required for Kerberos delegation')}</li>
+                <li>{_('Must be unique across the domain')}</li>
               </ul>
             </div>
 
             <div>
               <h4 className="font-medium mb-2 flex items-center gap-2">
                 <Server className="h-4 w-4" />
-                Common SPN Examples
+                {_('Common SPN Examples')}
               </h4>
               <div className="space-y-2 text-sm">
                 <div className="bg-muted p-2 rounded font-mono">
@@ -25,6 +25,7 @@ import {
 import { SPNAPI } from '@/services/spn-api'
 import { toast } from 'sonner'
 import type { SambaSPN } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 interface SPNListProps {
   onDeleteSPN: (spnName: string, userName: string) => void;
@@ -40,7 +41,7 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
 
   const handleSearch = async () => {
     if (!username.trim()) {
-      setError('Username is required')
+      setError(_('Username is required'))
       return
     }
 
@@ -54,14 +55,14 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
       setResultsDialogOpen(true)
 
       if (result.length === 0) {
-        toast.info(`No SPNs found for user: ${username}`)
+        toast.info(format(_('No SPNs found for user: $0'), username))
       } else {
-        toast.success(`Found ${result.length} SPNs for user: ${username}`)
+        toast.success(format(_('Found $0 SPNs for user: $1'), result.length, username))
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to list SPNs'
+      const errorMessage = err instanceof Error ? err.message : _('Failed to list SPNs')
       setError(errorMessage)
-      toast.error('Failed to retrieve SPNs')
+      toast.error(_('Failed to retrieve SPNs'))
     } finally {
       setLoading(false)
     }
@@ -98,16 +99,16 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Search className="h-4 w-4" />
-            List User SPNs
+            {_('List User SPNs')}
           </CardTitle>
           <CardDescription>
-            Enter a username to list all Service Principal Names associated with that user account
+            {_('Enter a username to list all Service Principal Names associated with that user account')}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Button onClick={() => setDialogOpen(true)} className="flex items-center gap-2">
             <Eye className="h-4 w-4" />
-            List SPNs for User
+            {_('List SPNs for User')}
           </Button>
         </CardContent>
       </Card>
@@ -118,10 +119,10 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <User className="h-4 w-4" />
-              Search User SPNs
+              {_('Search User SPNs')}
             </DialogTitle>
             <DialogDescription>
-              Enter the username to list all SPNs associated with that account
+              {_('Enter the username to list all SPNs associated with that account')}
             </DialogDescription>
           </DialogHeader>
 
@@ -133,27 +134,27 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
             )}
 
             <div className="space-y-2">
-              <Label htmlFor="username">Username *</Label>
+              <Label htmlFor="username">{_('Username *')}</Label>
               <Input
                 id="username"
                 value={username}
                 onChange={handleUsernameChange}
-                placeholder="Enter username (e.g., user1, serviceaccount)"
+                placeholder={_('Enter username (e.g., user1, serviceaccount)')}
                 className={error && !username.trim() ? 'border-destructive' : ''}
               />
               <p className="text-sm text-muted-foreground">
-                Enter the username to search for associated SPNs
+                {_('Enter the username to search for associated SPNs')}
               </p>
             </div>
           </div>
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setDialogOpen(false)}>
-              Cancel
+              {_('Cancel')}
             </Button>
             <Button onClick={handleSearch} disabled={loading || !username.trim()}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {loading ? 'Searching...' : 'List SPNs'}
+              {loading ? _('Searching...') : _('List SPNs')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -165,10 +166,10 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Key className="h-4 w-4" />
-              SPNs for User: {username}
+              {format(_('SPNs for User: $0'), username)}
             </DialogTitle>
             <DialogDescription>
-              Service Principal Names associated with this user account
+              {_('Service Principal Names associated with this user account')}
             </DialogDescription>
           </DialogHeader>
 
@@ -177,9 +178,9 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
               ? (
               <div className="text-center py-8">
                 <Key className="mx-auto h-12 w-12 text-muted-foreground" />
-                <h3 className="mt-2 text-sm font-semibold">No SPNs Found</h3>
+                <h3 className="mt-2 text-sm font-semibold">{_('No SPNs Found')}</h3>
                 <p className="mt-1 text-sm text-muted-foreground">
-                  No Service Principal Names are associated with user: {username}
+                  {format(_('No Service Principal Names are associated with user: $0'), username)}
                 </p>
               </div>
                 )
@@ -199,16 +200,16 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
                             <div className="flex items-center gap-4 text-sm text-muted-foreground">
                               <div className="flex items-center gap-1">
                                 <Server className="h-3 w-3" />
-                                Service: <Badge variant="secondary">{service}</Badge>
+                                {_('Service:')}{' '}<Badge variant="secondary">{service}</Badge>
                               </div>
                               {hostname && (
                                 <div className="flex items-center gap-1">
-                                  Host: <span className="font-mono">{hostname}</span>
+                                  {_('Host:')}{' '}<span className="font-mono">{hostname}</span>
                                 </div>
                               )}
                               {port && (
                                 <div className="flex items-center gap-1">
-                                  Port: <span className="font-mono">{port}</span>
+                                  {_('Port:')}{' '}<span className="font-mono">{port}</span>
                                 </div>
                               )}
                             </div>
@@ -233,7 +234,7 @@ export function SPNList ({ onDeleteSPN }: SPNListProps) {
 
           <DialogFooter>
             <Button onClick={() => setResultsDialogOpen(false)}>
-              Close
+              {_('Close')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -15,6 +15,7 @@ import { ErrorAlert } from '@/components/ui/error-alert'
 import { toast } from 'sonner'
 
 import cockpit from 'cockpit'
+import { _, format, formatDate } from '@/lib/i18n'
 
 // interface TimeInfo {
 //   currentTime: string;
@@ -33,7 +34,7 @@ export default function TimeManagement () {
     e.preventDefault()
 
     if (!server.trim()) {
-      setError('Server address is required')
+      setError(_('Server address is required'))
       return
     }
 
@@ -41,15 +42,15 @@ export default function TimeManagement () {
       setLoading(true)
       setError(null)
 
-      const command = `samba-tool time ${server}`
+      const command = format(_('samba-tool time $0'), server)
       const result = await cockpit.script(command, { superuser: true, err: 'message' })
 
       setServerTime(result)
-      toast.success('Server time retrieved successfully')
+      toast.success(_('Server time retrieved successfully'))
     } catch (exception: any) {
-      const errorMessage = exception?.message || 'Failed to get server time'
+      const errorMessage = exception?.message || _('Failed to get server time')
       setError(errorMessage)
-      toast.error('Failed to retrieve server time')
+      toast.error(_('Failed to retrieve server time'))
     } finally {
       setLoading(false)
     }
@@ -69,9 +70,9 @@ export default function TimeManagement () {
       <div className="flex items-center gap-4">
         <BackButton />
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Time Configuration</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{_('Time Configuration')}</h1>
           <p className="text-muted-foreground">
-            Configure time synchronization and NTP settings for Samba AD DC
+            {_('Configure time synchronization and NTP settings for Samba AD DC')}
           </p>
         </div>
       </div>
@@ -82,10 +83,10 @@ export default function TimeManagement () {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <ServerIcon className="h-4 w-4" />
-              Server Time Query
+              {_('Server Time Query')}
             </CardTitle>
             <CardDescription>
-              Query the current time from a specific server to check time synchronization
+              {_('Query the current time from a specific server to check time synchronization')}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -99,17 +100,17 @@ export default function TimeManagement () {
 
             <form onSubmit={getServerTime} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="server">Server Address *</Label>
+                <Label htmlFor="server">{_('Server Address *')}</Label>
                 <Input
                   id="server"
                   type="text"
                   value={server}
                   onChange={handleServerChange}
-                  placeholder="127.0.0.1 or server.domain.com"
+                  placeholder={_('127.0.0.1 or server.domain.com')}
                   className={error && !server.trim() ? 'border-destructive' : ''}
                 />
                 <p className="text-sm text-muted-foreground">
-                  Enter the IP address or hostname of the server to query
+                  {_('Enter the IP address or hostname of the server to query')}
                 </p>
               </div>
 
@@ -122,13 +123,13 @@ export default function TimeManagement () {
                   ? (
                   <>
                     <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                    Querying...
+                    {_('Querying...')}
                   </>
                     )
                   : (
                   <>
                     <Clock className="mr-2 h-4 w-4" />
-                    Get Server Time
+                    {_('Get Server Time')}
                   </>
                     )}
               </Button>
@@ -141,27 +142,22 @@ export default function TimeManagement () {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Calendar className="h-4 w-4" />
-              Current Local Time
+              {_('Current Local Time')}
             </CardTitle>
             <CardDescription>
-              Your local system time for reference
+              {_('Your local system time for reference')}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="text-center p-4">
               <div className="text-3xl font-bold">
-                {new Date().toLocaleTimeString()}
+                {formatDate(new Date(), { timeStyle: 'medium' })}
               </div>
               <div className="text-muted-foreground mt-2">
-                {new Date().toLocaleDateString('en-US', {
-                  weekday: 'long',
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric'
-                })}
+                {formatDate(new Date(), { dateStyle: 'full' })}
               </div>
               <div className="text-sm text-muted-foreground mt-1">
-                Timezone: {Intl.DateTimeFormat().resolvedOptions().timeZone}
+                {format(_('Timezone: $0'), Intl.DateTimeFormat().resolvedOptions().timeZone)}
               </div>
             </div>
           </CardContent>
@@ -174,10 +170,10 @@ export default function TimeManagement () {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Clock className="h-4 w-4" />
-              Server Time Result
+              {_('Server Time Result')}
             </CardTitle>
             <CardDescription>
-              Time information from server: {server}
+              {format(_('Time information from server: $0'), server)}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -193,32 +189,31 @@ export default function TimeManagement () {
       {/* Time Synchronization Info */}
       <Card>
         <CardHeader>
-          <CardTitle>Time Synchronization Information</CardTitle>
+          <CardTitle>{_('Time Synchronization Information')}</CardTitle>
           <CardDescription>
-            Important considerations for Active Directory time synchronization
+            {_('Important considerations for Active Directory time synchronization')}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <Alert>
             <Clock className="h-4 w-4" />
             <AlertDescription>
-              <strong>Important:</strong> Accurate time synchronization is critical for Active Directory.
-              All domain controllers should be synchronized to prevent authentication issues.
+              <strong>{_('Important:')}</strong>{' '}{_('Accurate time synchronization is critical for Active Directory. All domain controllers should be synchronized to prevent authentication issues.')}
             </AlertDescription>
           </Alert>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
             <div>
-              <h4 className="font-medium mb-2">Time Synchronization Requirements:</h4>
+              <h4 className="font-medium mb-2">{_('Time Synchronization Requirements:')}</h4>
               <ul className="list-disc list-inside space-y-1 text-muted-foreground">
-                <li>Maximum time difference: 5 minutes</li>
-                <li>Recommended difference: &lt; 1 minute</li>
-                <li>Use reliable NTP sources</li>
-                <li>Configure time zones correctly</li>
+                <li>{_('Maximum time difference: 5 minutes')}</li>
+                <li>{_('Recommended difference: < 1 minute')}</li>
+                <li>{_('Use reliable NTP sources')}</li>
+                <li>{_('Configure time zones correctly')}</li>
               </ul>
             </div>
             <div>
-              <h4 className="font-medium mb-2">Common NTP Servers:</h4>
+              <h4 className="font-medium mb-2">{_('Common NTP Servers:')}</h4>
               <ul className="list-disc list-inside space-y-1 text-muted-foreground">
                 <li>pool.ntp.org</li>
                 <li>time.nist.gov</li>
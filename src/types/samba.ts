@@ -2,20 +2,57 @@
 
 export interface SambaUser {
   username: string;
+  distinguishedName?: string;
   displayName?: string;
   firstName?: string;
   lastName?: string;
   email?: string;
   description?: string;
   enabled: boolean;
+  /**
+   * The password is past its maximum age, or must be changed at next logon
+   */
   passwordExpired?: boolean;
   passwordNeverExpires?: boolean;
   mustChangePassword?: boolean;
+  /**
+   * When the password reaches the maximum age of the domain or of the
+   * user's PSO; undefined when it never does or the policy is unknown
+   */
+  passwordExpires?: Date;
   accountExpires?: Date;
+  /**
+   * lastLogon, as recorded by the DC that was asked; not replicated
+   */
   lastLogin?: Date;
+  /**
+   * Replicated last logon; only updated when older than about 14 days
+   */
+  lastLogonTimestamp?: Date;
+  passwordLastSet?: Date;
   createdAt: Date;
   groups: string[];
   organizationalUnit?: string;
+  telephoneNumber?: string;
+  title?: string;
+  department?: string;
+  company?: string;
+  office?: string;
+  /**
+   * Distinguished name of the user's manager
+   */
+  manager?: string;
+  profilePath?: string;
+  homeDirectory?: string;
+  homeDrive?: string;
+  scriptPath?: string;
+  /**
+   * Locked out by too many bad passwords and not yet released
+   */
+  locked?: boolean;
+  lockoutTime?: Date;
+  badPasswordCount?: number;
+  lastBadPassword?: Date;
 }
 
 export interface CreateUserInput {
@@ -26,18 +63,69 @@ export interface CreateUserInput {
   displayName?: string;
   email?: string;
   description?: string;
+  title?: string;
+  department?: string;
+  company?: string;
+  office?: string;
+  profilePath?: string;
+  homeDirectory?: string;
+  /**
+   * Drive letter the home directory is mapped to, e.g. "H:"
+   */
+  homeDrive?: string;
+  scriptPath?: string;
   organizationalUnit?: string;
+  /**
+   * Groups the user is added to once created
+   */
   groups?: string[];
   mustChangePassword?: boolean;
   passwordNeverExpires?: boolean;
   accountExpires?: Date;
 }
 
-export interface UpdateUserInput extends Partial<Omit<CreateUserInput, 'username' | 'password'>> {
+/**
+ * Changes to a user. Fields left undefined are not touched; an empty
+ * string clears the attribute.
+ */
+export interface UpdateUserInput {
   username: string;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  email?: string;
+  description?: string;
+  telephoneNumber?: string;
+  title?: string;
+  department?: string;
+  company?: string;
+  office?: string;
+  /**
+   * Distinguished name of the manager
+   */
+  manager?: string;
+  /**
+   * Container to move the user to; empty leaves the user where it is
+   */
+  organizationalUnit?: string;
   enabled?: boolean;
 }
 
+export type UserField = Exclude<keyof UpdateUserInput, 'username'>
+
+/**
+ * One attribute that differs between a user and the requested changes
+ */
+export interface UserAttributeChange {
+  field: UserField;
+  /**
+   * The LDAP attribute behind the field
+   */
+  attribute: string;
+  before: string;
+  after: string;
+}
+
 export interface SambaComputer {
   name: string;
   distinguishedName: string;
@@ -46,6 +134,8 @@ export interface SambaComputer {
   operatingSystemVersion?: string;
   enabled: boolean;
   lastLogon?: Date;
+  lastLogonTimestamp?: Date;
+  passwordLastSet?: Date;
   createdAt: Date;
   organizationalUnit?: string;
   description?: string;
@@ -252,6 +342,248 @@ export interface CreateTrustInput {
   trustDirection: 'Incoming' | 'Outgoing' | 'Bidirectional';
 }
 
+// Password Policy Types
+export interface PasswordSettings {
+  complexity: boolean;
+  storePlaintext: boolean;
+  historyLength: number;
+  minLength: number;
+  /**
+   * Days before a new password may be changed again
+   */
+  minAge: number;
+  /**
+   * Days after which a password expires; 0 means never
+   */
+  maxAge: number;
+  /**
+   * Minutes an account stays locked out; 0 means until unlocked
+   */
+  lockoutDuration: number;
+  /**
+   * Bad passwords before lockout; 0 disables lockout
+   */
+  lockoutThreshold: number;
+  /**
+   * Minutes after which the bad password count starts over
+   */
+  resetLockoutAfter: number;
+}
+
+/**
+ * A user or group a PSO is applied to
+ */
+export interface PSOTarget {
+  distinguishedName: string;
+  /**
+   * Account name, as `pso apply` and `pso unapply` take it
+   */
+  name: string;
+  kind: 'user' | 'group';
+}
+
+/**
+ * A fine-grained Password Settings Object
+ */
+export interface PasswordSettingsObject extends PasswordSettings {
+  name: string;
+  /**
+   * Lowest wins when several PSOs apply to a user
+   */
+  precedence: number;
+  /**
+   * Users and groups the PSO is applied to directly
+   */
+  appliesTo: PSOTarget[];
+}
+
+export interface CreatePSOInput extends Partial<PasswordSettings> {
+  name: string;
+  precedence: number;
+}
+
+export interface UpdatePSOInput extends Partial<PasswordSettings> {
+  name: string;
+  precedence?: number;
+}
+
+/**
+ * The password settings that are in force for one user
+ */
+export interface ResultantPasswordPolicy {
+  username: string;
+  /**
+   * The winning PSO; undefined when the domain settings apply
+   */
+  pso?: string;
+  settings: PasswordSettings;
+}
+
+// Inactive Account Types
+export interface InactiveAccountSearch {
+  /**
+   * Accounts without a logon or password change for this many days
+   */
+  days: number;
+  users: boolean;
+  computers: boolean;
+  includeDisabled: boolean;
+}
+
+export interface InactiveAccount {
+  kind: 'user' | 'computer';
+  /**
+   * sAMAccountName; computers without the trailing $
+   */
+  name: string;
+  distinguishedName: string;
+  displayName?: string;
+  description?: string;
+  enabled: boolean;
+  userAccountControl: number;
+  lastLogonTimestamp?: Date;
+  passwordLastSet?: Date;
+  createdAt: Date;
+  /**
+   * Days since the last logon, password change or, failing both, creation
+   */
+  inactiveDays: number;
+}
+
+/**
+ * What to do with each selected inactive account; the steps run in the
+ * order stamp, disable, move
+ */
+export interface InactiveRemediation {
+  disable: boolean;
+  /**
+   * Quarantine OU to move the accounts to
+   */
+  moveTo?: string;
+  /**
+   * Text put in front of the description
+   */
+  stamp?: string;
+}
+
+export interface InactiveRemediationResult {
+  account: InactiveAccount;
+  status: 'done' | 'failed' | 'skipped';
+  /**
+   * The steps that were carried out
+   */
+  steps: Array<'stamp' | 'disable' | 'move'>;
+  message?: string;
+}
+
+// Expiry Report Types
+export interface ExpiryReportSearch {
+  /**
+   * Expiring within this many days; already expired accounts are included
+   */
+  days: number;
+  includeDisabled: boolean;
+}
+
+/**
+ * A password or account expiry in the report. A user whose password and
+ * account both expire in the window is listed twice.
+ */
+export interface ExpiringAccount {
+  user: SambaUser;
+  kind: 'password' | 'account';
+  expires: Date;
+  /**
+   * Whole days left; negative once expired
+   */
+  daysLeft: number;
+}
+
+// Offboarding Types
+export type OffboardStep = 'disable' | 'password' | 'groups' | 'move' | 'description' | 'spns' | 'delegation'
+
+export interface OffboardOptions {
+  steps: OffboardStep[];
+  /**
+   * Container the account is moved to, e.g. a Leavers OU
+   */
+  leaversOU?: string;
+  /**
+   * Ticket number put in the description stamp
+   */
+  ticket?: string;
+}
+
+/**
+ * The account as it was before it was offboarded, for the revert
+ */
+export interface OffboardPriorState {
+  distinguishedName: string;
+  enabled: boolean;
+  description?: string;
+  organizationalUnit?: string;
+  groups: string[];
+  spns: string[];
+  delegation: {
+    anyService: boolean;
+    anyProtocol: boolean;
+    services: string[];
+  };
+}
+
+export interface OffboardStepResult {
+  step: OffboardStep;
+  status: 'done' | 'failed' | 'skipped';
+  message?: string;
+}
+
+/**
+ * One offboarding, kept on the server. Times are ISO strings since the
+ * records are stored as JSON.
+ */
+export interface OffboardRecord {
+  id: string;
+  username: string;
+  ticket?: string;
+  offboardedAt: string;
+  offboardedBy: string;
+  prior: OffboardPriorState;
+  results: OffboardStepResult[];
+  revertedAt?: string;
+  revertedBy?: string;
+  revertResults?: OffboardStepResult[];
+}
+
+// Account Control Types
+export type AccountControlFlag =
+  | 'PASSWD_NOTREQD'
+  | 'ENCRYPTED_TEXT_PWD_ALLOWED'
+  | 'DONT_EXPIRE_PASSWORD'
+  | 'SMARTCARD_REQUIRED'
+  | 'TRUSTED_FOR_DELEGATION'
+  | 'NOT_DELEGATED'
+  | 'USE_DES_KEY_ONLY'
+  | 'DONT_REQUIRE_PREAUTH'
+
+/**
+ * The userAccountControl of one user or computer
+ */
+export interface AccountControlState {
+  kind: 'user' | 'computer';
+  /**
+   * sAMAccountName; computers without the trailing $
+   */
+  name: string;
+  distinguishedName: string;
+  userAccountControl: number;
+  flags: Record<AccountControlFlag, boolean>;
+}
+
+/**
+ * The flags to set (true) or clear (false); flags left out keep their value
+ */
+export type AccountControlChanges = Partial<Record<AccountControlFlag, boolean>>
+
 // Backup Types
 export interface BackupInfo {
   id: string;
@@ -304,6 +636,10 @@ export interface PaginatedResponse<T> {
 export interface FilterOptions {
   search?: string;
   enabled?: boolean;
+  /**
+   * Only accounts that are currently locked out
+   */
+  locked?: boolean;
   organizationalUnit?: string;
   groups?: string[];
   dateFrom?: Date;
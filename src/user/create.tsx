@@ -1,7 +1,8 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { Loader2, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Eye, EyeOff, Loader2, Plus, Save, Wand2, X } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import {
@@ -16,6 +17,8 @@ import {
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
 import {
   Form,
   FormControl,
@@ -26,35 +29,71 @@ import {
   FormMessage
 } from '@/components/ui/form'
 
-import { createUserSchema, type CreateUserInput } from '@/lib/validation'
+import { createUserSchemaFor, type CreateUserInput } from '@/lib/validation'
+import { generatePassword } from '@/lib/password'
 import { useUserMutations } from './hooks/useUserMutations'
+import { usePasswordRules } from './hooks/usePasswordRules'
+import PasswordRequirements from './password-requirements'
+import StartFrom from './start-from'
+import { useUserTemplates } from './hooks/useUserTemplates'
+import { expandTemplateValues, templateFromInput, templateToInput, type UserTemplate } from '@/services/user-template'
+import type { SambaUser } from '@/types/samba'
 import { ErrorToast, SuccessToast } from '@/common'
+import { _, format } from '@/lib/i18n'
 
 interface CreateUserDialogProps {
     onUserCreated?: (user: any) => void;
     trigger?: React.ReactNode;
+    /**
+     * Start from this user's container, groups and attributes
+     */
+    copyFrom?: SambaUser;
 }
 
-export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUserDialogProps) {
+const EMPTY_USER: CreateUserInput = {
+  username: '',
+  password: '',
+  firstName: '',
+  lastName: '',
+  displayName: '',
+  email: '',
+  description: '',
+  title: '',
+  department: '',
+  company: '',
+  office: '',
+  profilePath: '',
+  homeDirectory: '',
+  homeDrive: '',
+  scriptPath: '',
+  organizationalUnit: '',
+  groups: [],
+  mustChangePassword: false,
+  passwordNeverExpires: false,
+  accountExpires: undefined
+}
+
+// yyyy-mm-dd in local time, for a date input
+const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+export default function CreateUserDialog ({ onUserCreated, trigger, copyFrom }: CreateUserDialogProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [showToasts, setShowToasts] = useState({ success: false, error: false })
+  const [showPassword, setShowPassword] = useState(false)
+  const [source, setSource] = useState<string | null>(null)
+  const [newGroup, setNewGroup] = useState('')
+  const [templateName, setTemplateName] = useState<string | null>(null)
+  const [savingTemplate, setSavingTemplate] = useState(false)
+
+  // A new account gets the domain settings; PSOs apply once it is in a group
+  const policy = usePasswordRules(undefined, isOpen)
+  const schema = useMemo(() => createUserSchemaFor(policy.rules), [policy.rules])
+  const templates = useUserTemplates(isOpen)
 
   const form = useForm<CreateUserInput>({
-    resolver: zodResolver(createUserSchema),
-    defaultValues: {
-      username: '',
-      password: '',
-      firstName: '',
-      lastName: '',
-      displayName: '',
-      email: '',
-      description: '',
-      organizationalUnit: '',
-      groups: [],
-      mustChangePassword: false,
-      passwordNeverExpires: false,
-      accountExpires: undefined
-    }
+    resolver: zodResolver(schema),
+    defaultValues: EMPTY_USER
   })
 
   const { create, creating, error, clearError } = useUserMutations({
@@ -71,9 +110,58 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
     }
   })
 
+  const [password, username, displayName] = form.watch(['password', 'username', 'displayName'])
+
+  const fillPassword = () => {
+    form.setValue('password', generatePassword(policy.rules, { username, displayName }), { shouldValidate: true })
+    setShowPassword(true)
+  }
+
+  // Keeps what identifies the new user and replaces everything a template sets
+  const applyTemplate = (template: UserTemplate, from: string) => {
+    const values = form.getValues()
+    const input = templateToInput(template)
+    form.reset({
+      ...EMPTY_USER,
+      username: values.username,
+      password: values.password,
+      firstName: values.firstName,
+      lastName: values.lastName,
+      displayName: values.displayName,
+      email: values.email,
+      ...input,
+      organizationalUnit: input.organizationalUnit ?? ''
+    })
+    setSource(from)
+  }
+
+  const groups = form.watch('groups') ?? []
+  const addGroup = () => {
+    const group = newGroup.trim()
+    if (group && !groups.some(other => other.toLowerCase() === group.toLowerCase())) {
+      form.setValue('groups', [...groups, group])
+    }
+    setNewGroup('')
+  }
+
+  const saveTemplate = async () => {
+    if (!templateName?.trim()) return
+
+    try {
+      setSavingTemplate(true)
+      const saved = await templates.save(templateFromInput(form.getValues(), templateName))
+      toast.success(format(_('Template "$0" saved'), saved.name))
+      setTemplateName(null)
+    } catch (err) {
+      toast.error((err as Error).message)
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
   const onSubmit = async (data: CreateUserInput) => {
     clearError()
-    await create(data)
+    await create(expandTemplateValues(data, data.username))
   }
 
   const handleOpenChange = (open: boolean) => {
@@ -81,6 +169,10 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
     if (!open) {
       form.reset()
       clearError()
+      setShowPassword(false)
+      setSource(null)
+      setNewGroup('')
+      setTemplateName(null)
     }
   }
 
@@ -94,7 +186,7 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage="User created successfully!"
+                    successMessage={_('User created successfully!')}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -104,18 +196,25 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                     {trigger || (
                         <Button>
                             <Plus className="mr-2 h-4 w-4" />
-                            Create User
+                            {_('Create User')}
                         </Button>
                     )}
                 </DialogTrigger>
                 <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
-                        <DialogTitle>Create User</DialogTitle>
+                        <DialogTitle>{copyFrom ? format(_('Copy User $0'), copyFrom.username) : _('Create User')}</DialogTitle>
                         <DialogDescription>
-                            Create a new Active Directory user account. Fill in the required information below.
+                            {_('Create a new Active Directory user account. Fill in the required information below.')}
                         </DialogDescription>
                     </DialogHeader>
 
+                    <StartFrom templates={templates.templates} copyFrom={copyFrom?.username} onApply={applyTemplate} />
+                    {source && (
+                        <p className="text-sm text-muted-foreground">
+                            {format(_('Started from $0. %username% in paths is replaced by the new username.'), source)}
+                        </p>
+                    )}
+
                     <Form {...form}>
                         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -124,12 +223,12 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                     name="username"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>Username *</FormLabel>
+                                            <FormLabel>{_('Username *')}</FormLabel>
                                             <FormControl>
-                                                <Input placeholder="Enter username" {...field} />
+                                                <Input placeholder={_('Enter username')} {...field} />
                                             </FormControl>
                                             <FormDescription>
-                                                Unique username for the user account
+                                                {_('Unique username for the user account')}
                                             </FormDescription>
                                             <FormMessage />
                                         </FormItem>
@@ -141,13 +240,36 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                     name="password"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>Password *</FormLabel>
-                                            <FormControl>
-                                                <Input type="password" placeholder="Enter password" {...field} />
-                                            </FormControl>
-                                            <FormDescription>
-                                                Must be at least 8 characters with mixed case, numbers, and symbols
-                                            </FormDescription>
+                                            <FormLabel>{_('Password *')}</FormLabel>
+                                            <div className="flex gap-2">
+                                                <div className="relative flex-1">
+                                                    <FormControl>
+                                                        <Input
+                                                            type={showPassword ? 'text' : 'password'}
+                                                            placeholder={_('Enter password')}
+                                                            {...field}
+                                                        />
+                                                    </FormControl>
+                                                    <Button
+                                                        type="button"
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                                                        onClick={() => setShowPassword(!showPassword)}
+                                                    >
+                                                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                                                    </Button>
+                                                </div>
+                                                <Button type="button" variant="outline" size="icon" onClick={fillPassword} title={_('Generate password')}>
+                                                    <Wand2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                            <PasswordRequirements
+                                                password={password}
+                                                rules={policy.rules}
+                                                identity={{ username, displayName }}
+                                                loaded={policy.loaded}
+                                            />
                                             <FormMessage />
                                         </FormItem>
                                     )}
@@ -160,9 +282,9 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                     name="firstName"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>First Name</FormLabel>
+                                            <FormLabel>{_('First Name')}</FormLabel>
                                             <FormControl>
-                                                <Input placeholder="Enter first name" {...field} />
+                                                <Input placeholder={_('Enter first name')} {...field} />
                                             </FormControl>
                                             <FormMessage />
                                         </FormItem>
@@ -174,9 +296,9 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                     name="lastName"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>Last Name</FormLabel>
+                                            <FormLabel>{_('Last Name')}</FormLabel>
                                             <FormControl>
-                                                <Input placeholder="Enter last name" {...field} />
+                                                <Input placeholder={_('Enter last name')} {...field} />
                                             </FormControl>
                                             <FormMessage />
                                         </FormItem>
@@ -189,12 +311,12 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                 name="displayName"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Display Name</FormLabel>
+                                        <FormLabel>{_('Display Name')}</FormLabel>
                                         <FormControl>
-                                            <Input placeholder="Enter display name" {...field} />
+                                            <Input placeholder={_('Enter display name')} {...field} />
                                         </FormControl>
                                         <FormDescription>
-                                            Full name as it will appear in the directory
+                                            {_('Full name as it will appear in the directory')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -206,9 +328,9 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                 name="email"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Email Address</FormLabel>
+                                        <FormLabel>{_('Email Address')}</FormLabel>
                                         <FormControl>
-                                            <Input type="email" placeholder="Enter email address" {...field} />
+                                            <Input type="email" placeholder={_('Enter email address')} {...field} />
                                         </FormControl>
                                         <FormMessage />
                                     </FormItem>
@@ -220,10 +342,10 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                 name="description"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Description</FormLabel>
+                                        <FormLabel>{_('Description')}</FormLabel>
                                         <FormControl>
                                             <Textarea
-                                                placeholder="Enter user description"
+                                                placeholder={_('Enter user description')}
                                                 className="resize-none"
                                                 {...field}
                                             />
@@ -233,17 +355,204 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                 )}
                             />
 
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <FormField
+                                    control={form.control}
+                                    name="title"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{_('Job Title')}</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder={_('Enter job title')} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="department"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{_('Department')}</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder={_('Enter department')} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <FormField
+                                    control={form.control}
+                                    name="company"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{_('Company')}</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder={_('Enter company')} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="office"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{_('Office')}</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder={_('Enter office')} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <FormField
+                                    control={form.control}
+                                    name="profilePath"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{_('Profile Path')}</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder={'\\\\server\\profiles\\%username%'} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="homeDirectory"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{_('Home Directory')}</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder={'\\\\server\\home\\%username%'} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="homeDrive"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{_('Home Drive')}</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder={'H:'} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="scriptPath"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{_('Logon Script')}</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder={'logon.bat'} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+
                             <FormField
                                 control={form.control}
                                 name="organizationalUnit"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Organizational Unit</FormLabel>
+                                        <FormLabel>{_('Organizational Unit')}</FormLabel>
                                         <FormControl>
-                                            <Input placeholder="Enter OU (e.g., ou=Users,dc=example,dc=com)" {...field} />
+                                            <Input placeholder={_('Enter OU (e.g., ou=Users,dc=example,dc=com)')} {...field} />
                                         </FormControl>
                                         <FormDescription>
-                                            Leave empty to use the default Users container
+                                            {_('Leave empty to use the default Users container')}
+                                        </FormDescription>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="groups"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>{_('Groups')}</FormLabel>
+                                        <div className="flex gap-2">
+                                            <Input
+                                                placeholder={_('Group name')}
+                                                value={newGroup}
+                                                onChange={(e) => setNewGroup(e.target.value)}
+                                                onKeyDown={(e) => {
+                                                  if (e.key === 'Enter') {
+                                                    e.preventDefault()
+                                                    addGroup()
+                                                  }
+                                                }}
+                                            />
+                                            <Button type="button" variant="outline" onClick={addGroup} disabled={!newGroup.trim()}>
+                                                <Plus className="mr-2 h-4 w-4" />
+                                                {_('Add')}
+                                            </Button>
+                                        </div>
+                                        {(field.value ?? []).length > 0 && (
+                                            <div className="flex flex-wrap gap-2">
+                                                {(field.value ?? []).map(group => (
+                                                    <Badge key={group} variant="secondary" className="gap-1">
+                                                        {group}
+                                                        <button
+                                                            type="button"
+                                                            aria-label={format(_('Remove $0'), group)}
+                                                            onClick={() => field.onChange((field.value ?? []).filter(other => other !== group))}
+                                                        >
+                                                            <X className="h-3 w-3" />
+                                                        </button>
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <FormDescription>
+                                            {_('Domain Users is the primary group of every new user')}
+                                        </FormDescription>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="accountExpires"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>{_('Account Expires')}</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="date"
+                                                className="w-48"
+                                                value={field.value ? toDateInput(field.value) : ''}
+                                                onChange={(e) => field.onChange(e.target.value ? new Date(`${e.target.value}T00:00:00`) : undefined)}
+                                            />
+                                        </FormControl>
+                                        <FormDescription>
+                                            {_('Leave empty for an account that never expires')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -263,9 +572,9 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                                 />
                                             </FormControl>
                                             <div className="space-y-1 leading-none">
-                                                <FormLabel>Must change password at next login</FormLabel>
+                                                <FormLabel>{_('Must change password at next login')}</FormLabel>
                                                 <FormDescription>
-                                                    Force user to change password on first login
+                                                    {_('Force user to change password on first login')}
                                                 </FormDescription>
                                             </div>
                                         </FormItem>
@@ -284,9 +593,9 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                                 />
                                             </FormControl>
                                             <div className="space-y-1 leading-none">
-                                                <FormLabel>Password never expires</FormLabel>
+                                                <FormLabel>{_('Password never expires')}</FormLabel>
                                                 <FormDescription>
-                                                    Disable password expiration for this account
+                                                    {_('Disable password expiration for this account')}
                                                 </FormDescription>
                                             </div>
                                         </FormItem>
@@ -294,17 +603,54 @@ export default function CreateUserDialog ({ onUserCreated, trigger }: CreateUser
                                 />
                             </div>
 
+                            {templateName !== null && (
+                                <div className="flex items-end gap-2 rounded-md border p-4">
+                                    <div className="flex-1 space-y-2">
+                                        <Label htmlFor="template-name">{_('Template Name')}</Label>
+                                        <Input
+                                            id="template-name"
+                                            value={templateName}
+                                            onChange={(e) => setTemplateName(e.target.value)}
+                                            onKeyDown={(e) => {
+                                              // Save the template rather than submit the user
+                                              if (e.key === 'Enter') {
+                                                e.preventDefault()
+                                                saveTemplate()
+                                              }
+                                            }}
+                                            placeholder={_('e.g. Sales staff')}
+                                        />
+                                        <p className="text-sm text-muted-foreground">
+                                            {_('Saves the container, groups, attributes and account options, but not the name, email or password. A template with the same name is replaced.')}
+                                        </p>
+                                    </div>
+                                    <Button type="button" onClick={saveTemplate} disabled={savingTemplate || !templateName.trim()}>
+                                        {savingTemplate && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                        {_('Save')}
+                                    </Button>
+                                </div>
+                            )}
+
                             <DialogFooter>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    className="mr-auto"
+                                    onClick={() => setTemplateName(templateName === null ? '' : null)}
+                                >
+                                    <Save className="mr-2 h-4 w-4" />
+                                    {_('Save as Template')}
+                                </Button>
                                 <Button
                                     type="button"
                                     variant="outline"
                                     onClick={() => handleOpenChange(false)}
                                 >
-                                    Cancel
+                                    {_('Cancel')}
                                 </Button>
                                 <Button type="submit" disabled={creating}>
                                     {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                    Create User
+                                    {_('Create User')}
                                 </Button>
                             </DialogFooter>
                         </form>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { Trash2, AlertTriangle } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
@@ -15,10 +15,14 @@ import {
 } from '@/components/ui/alert-dialog'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { CommandPreview } from '@/components/ui/command-preview'
 
 import { useUserMutations } from './hooks/useUserMutations'
+import { UserAPI } from '@/services/user-api'
+import type { PreviewScope } from '@/services/base-api'
 import { ErrorToast, SuccessToast } from '@/common'
 import type { SambaUser } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 interface DeleteUserDialogProps {
     user?: SambaUser;
@@ -76,6 +80,8 @@ export default function DeleteUserDialog ({
 
   const canDelete = confirmUsername === username && !deleting
 
+  const previewDelete = useCallback((api: PreviewScope) => api(UserAPI).delete(username), [username])
+
   return (
         <>
             {showToasts.error && error && (
@@ -86,7 +92,7 @@ export default function DeleteUserDialog ({
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage={`User "${username}" has been deleted successfully.`}
+                    successMessage={format(_('User "$0" has been deleted successfully.'), username)}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -96,7 +102,7 @@ export default function DeleteUserDialog ({
                     {trigger || (
                         <Button variant="destructive" size="sm">
                             <Trash2 className="mr-2 h-4 w-4" />
-                            Delete User
+                            {_('Delete User')}
                         </Button>
                     )}
                 </AlertDialogTrigger>
@@ -104,20 +110,19 @@ export default function DeleteUserDialog ({
                     <AlertDialogHeader>
                         <div className="flex items-center gap-2">
                             <AlertTriangle className="h-5 w-5 text-destructive" />
-                            <AlertDialogTitle>Delete User Account</AlertDialogTitle>
+                            <AlertDialogTitle>{_('Delete User Account')}</AlertDialogTitle>
                         </div>
                         <AlertDialogDescription asChild>
                             <div className="space-y-3">
                                 <p>
-                                    Are you sure you want to delete the user account for <strong>"{displayName}"</strong>?
+                                    {_('Are you sure you want to delete the user account for')}{' '}<strong>"{displayName}"</strong>?
                                 </p>
                                 <p className="text-sm text-muted-foreground">
-                                    This action cannot be undone. The user will be permanently removed from Active Directory,
-                                    and all associated permissions and group memberships will be lost.
+                                    {_('This action cannot be undone. The user will be permanently removed from Active Directory, and all associated permissions and group memberships will be lost.')}
                                 </p>
                                 <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
                                     <p className="text-sm font-medium text-destructive">
-                                        Warning: This will also affect any services or applications that depend on this user account.
+                                        {_('Warning: This will also affect any services or applications that depend on this user account.')}
                                     </p>
                                 </div>
                             </div>
@@ -126,25 +131,27 @@ export default function DeleteUserDialog ({
 
                     <div className="py-4">
                         <Label htmlFor="confirm-username" className="text-sm font-medium">
-                            To confirm, type the username "{username}" below:
+                            {format(_('To confirm, type the username "$0" below:'), username)}
                         </Label>
                         <Input
                             id="confirm-username"
                             type="text"
                             value={confirmUsername}
                             onChange={(e) => setConfirmUsername(e.target.value)}
-                            placeholder={`Type "${username}" to confirm`}
+                            placeholder={format(_('Type "$0" to confirm'), username)}
                             className="mt-2"
                             autoComplete="off"
                         />
                     </div>
 
+                    <CommandPreview operation={previewDelete} disabled={!username} />
+
                     <AlertDialogFooter>
                         <AlertDialogCancel
                             onClick={() => handleOpenChange(false)}
                             disabled={deleting}
                         >
-                            Cancel
+                            {_('Cancel')}
                         </AlertDialogCancel>
                         <AlertDialogAction
                             onClick={handleDelete}
@@ -155,13 +162,13 @@ export default function DeleteUserDialog ({
                               ? (
                                 <>
                                     <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-background border-t-transparent" />
-                                    Deleting...
+                                    {_('Deleting...')}
                                 </>
                                 )
                               : (
                                 <>
                                     <Trash2 className="mr-2 h-4 w-4" />
-                                    Delete User
+                                    {_('Delete User')}
                                 </>
                                 )}
                         </AlertDialogAction>
@@ -0,0 +1,426 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { ArrowRight, Check, Loader2, Pencil, X } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CommandPreview } from '@/components/ui/command-preview'
+import { ErrorAlert } from '@/components/ui/error-alert'
+
+import { updateUserSchema, type UpdateUserInput } from '@/lib/validation'
+import { UserAPI } from '@/services/user-api'
+import type { PreviewScope } from '@/services/base-api'
+import type { SambaUser, UserAttributeChange, UserField } from '@/types/samba'
+import { _, N_, format, ngettext } from '@/lib/i18n'
+
+interface EditUserDialogProps {
+  username: string;
+  onUserUpdated?: (user: SambaUser) => void;
+  trigger?: React.ReactNode;
+}
+
+type EditStep = 'form' | 'review' | 'done'
+
+type TextField = Exclude<UserField, 'enabled' | 'manager' | 'organizationalUnit'>
+
+const FIELD_LABELS: Record<UserField, string> = {
+  firstName: N_('First Name'),
+  lastName: N_('Last Name'),
+  displayName: N_('Display Name'),
+  email: N_('Email'),
+  description: N_('Description'),
+  telephoneNumber: N_('Telephone'),
+  title: N_('Job Title'),
+  department: N_('Department'),
+  company: N_('Company'),
+  office: N_('Office'),
+  manager: N_('Manager'),
+  organizationalUnit: N_('Organizational Unit'),
+  enabled: N_('Account Status')
+}
+
+const IDENTITY_FIELDS: TextField[] = ['firstName', 'lastName', 'displayName', 'email']
+const ORGANIZATION_FIELDS: TextField[] = ['title', 'department', 'company', 'office', 'telephoneNumber']
+
+// Radix selects cannot carry an empty value
+const NO_MANAGER = '__none__'
+
+function toFormValues (user: SambaUser): UpdateUserInput {
+  return {
+    username: user.username,
+    firstName: user.firstName ?? '',
+    lastName: user.lastName ?? '',
+    displayName: user.displayName ?? '',
+    email: user.email ?? '',
+    description: user.description ?? '',
+    telephoneNumber: user.telephoneNumber ?? '',
+    title: user.title ?? '',
+    department: user.department ?? '',
+    company: user.company ?? '',
+    office: user.office ?? '',
+    manager: user.manager ?? '',
+    organizationalUnit: user.organizationalUnit ?? ''
+  }
+}
+
+function describeValue (change: UserAttributeChange, value: string, managers: SambaUser[]): string {
+  if (change.field === 'enabled') {
+    return value === 'true' ? _('Enabled') : _('Disabled')
+  }
+  if (change.field === 'manager' && value) {
+    const manager = managers.find(user => user.distinguishedName?.toLowerCase() === value.toLowerCase())
+    return manager?.displayName || manager?.username || value
+  }
+  return value
+}
+
+export default function EditUserDialog ({ username, onUserUpdated, trigger }: EditUserDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [step, setStep] = useState<EditStep>('form')
+  const [user, setUser] = useState<SambaUser | null>(null)
+  const [managers, setManagers] = useState<SambaUser[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const [pending, setPending] = useState<UpdateUserInput | null>(null)
+  const [changes, setChanges] = useState<UserAttributeChange[]>([])
+  // Fields that still differ after the update was read back
+  const [unapplied, setUnapplied] = useState<UserField[]>([])
+
+  const form = useForm<UpdateUserInput>({
+    resolver: zodResolver(updateUserSchema),
+    defaultValues: { username }
+  })
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [current, users] = await Promise.all([UserAPI.show(username), UserAPI.list()])
+      setUser(current)
+      setManagers(users.filter(candidate => candidate.distinguishedName && candidate.username !== username))
+      form.reset(toFormValues(current))
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setLoading(false)
+    }
+  }, [username, form])
+
+  useEffect(() => {
+    if (isOpen) {
+      load()
+    }
+  }, [isOpen, load])
+
+  const previewUpdate = useCallback(
+    (api: PreviewScope) => api(UserAPI).update(pending || { username }),
+    [pending, username]
+  )
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (!open) {
+      setStep('form')
+      setPending(null)
+      setChanges([])
+      setUnapplied([])
+      setError(null)
+    }
+  }
+
+  const onReview = (data: UpdateUserInput) => {
+    if (!user) return
+
+    const planned = UserAPI.diff(user, data)
+    if (!planned.length) {
+      toast.info(_('Nothing to change'))
+      return
+    }
+    setPending(data)
+    setChanges(planned)
+    setError(null)
+    setStep('review')
+  }
+
+  const onApply = async () => {
+    if (!pending) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const updated = await UserAPI.update(pending)
+      setUnapplied(UserAPI.diff(updated, pending).map(change => change.field))
+      setUser(updated)
+      setStep('done')
+      toast.success(format(_('User "$0" updated'), username))
+      onUserUpdated?.(updated)
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderTextField = (name: TextField) => (
+    <FormField
+      key={name}
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{_(FIELD_LABELS[name])}</FormLabel>
+          <FormControl>
+            <Input {...field} value={field.value ?? ''} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  const renderChanges = () => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{_('Attribute')}</TableHead>
+          <TableHead>{_('Before')}</TableHead>
+          <TableHead className="w-6" />
+          <TableHead>{_('After')}</TableHead>
+          {step === 'done' && <TableHead className="w-10" />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map(change => (
+          <TableRow key={change.field}>
+            <TableCell>
+              <div className="font-medium">{_(FIELD_LABELS[change.field])}</div>
+              <div className="text-xs font-mono text-muted-foreground">{change.attribute}</div>
+            </TableCell>
+            <TableCell className="break-all text-muted-foreground">
+              {describeValue(change, change.before, managers) || <em>{_('(empty)')}</em>}
+            </TableCell>
+            <TableCell>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            </TableCell>
+            <TableCell className="break-all">
+              {describeValue(change, change.after, managers) || <em>{_('(cleared)')}</em>}
+            </TableCell>
+            {step === 'done' && (
+              <TableCell>
+                {unapplied.includes(change.field)
+                  ? <X className="h-4 w-4 text-destructive" aria-label={_('Not applied')} />
+                  : <Check className="h-4 w-4 text-green-600" aria-label={_('Applied')} />}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+
+  const renderForm = () => (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onReview)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          {IDENTITY_FIELDS.map(renderTextField)}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{_(FIELD_LABELS.description)}</FormLabel>
+              <FormControl>
+                <Textarea {...field} value={field.value ?? ''} rows={2} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          {ORGANIZATION_FIELDS.map(renderTextField)}
+
+          <FormField
+            control={form.control}
+            name="manager"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{_(FIELD_LABELS.manager)}</FormLabel>
+                <Select
+                  value={field.value || NO_MANAGER}
+                  onValueChange={(value) => field.onChange(value === NO_MANAGER ? '' : value)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_MANAGER}>{_('No manager')}</SelectItem>
+                    {managers.map(manager => (
+                      <SelectItem key={manager.distinguishedName} value={manager.distinguishedName as string}>
+                        {manager.displayName
+                          ? `${manager.displayName} (${manager.username})`
+                          : manager.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="organizationalUnit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{_(FIELD_LABELS.organizationalUnit)}</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ''} className="font-mono" />
+              </FormControl>
+              <FormDescription>
+                {_('Change the distinguished name of the container to move the user.')}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            {_('Cancel')}
+          </Button>
+          <Button type="submit">
+            {_('Review Changes')}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  )
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="space-y-4">
+          <Skeleton className="h-10" />
+          <Skeleton className="h-10" />
+          <Skeleton className="h-24" />
+        </div>
+      )
+    }
+
+    if (!user) {
+      return error && <ErrorAlert error={error} title={_('Failed to Load User')} onRetry={load} />
+    }
+
+    if (step === 'form') {
+      return renderForm()
+    }
+
+    return (
+      <div className="space-y-4">
+        {error && <ErrorAlert error={error} title={_('Failed to Update User')} />}
+
+        <p className="text-sm text-muted-foreground">
+          {step === 'review'
+            ? format(ngettext('$0 attribute will change.', '$0 attributes will change.', changes.length), changes.length)
+            : unapplied.length
+              ? format(ngettext('$0 change was not applied by the directory.', '$0 changes were not applied by the directory.', unapplied.length), unapplied.length)
+              : _('All changes were applied.')}
+        </p>
+
+        {renderChanges()}
+
+        {step === 'review' && <CommandPreview operation={previewUpdate} />}
+
+        <DialogFooter>
+          {step === 'review'
+            ? (
+              <>
+                <Button type="button" variant="outline" onClick={() => setStep('form')} disabled={saving}>
+                  {_('Back')}
+                </Button>
+                <Button type="button" onClick={onApply} disabled={saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {_('Apply Changes')}
+                </Button>
+              </>
+              )
+            : (
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                {_('Close')}
+              </Button>
+              )}
+        </DialogFooter>
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm">
+            <Pencil className="mr-2 h-4 w-4" />
+            {_('Edit')}
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{format(_('Edit User "$0"'), username)}</DialogTitle>
+          <DialogDescription>
+            {step === 'done'
+              ? _('The user was read back from the directory after the update.')
+              : _('Only the attributes you change are written to the directory.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,170 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Download, Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+
+import { exportUsersSchema, type ExportUsersInput } from '@/lib/validation'
+import { downloadFile } from '@/lib/utils'
+import { UserAPI } from '@/services/user-api'
+import {
+  EXPORT_MIME_TYPES,
+  USER_EXPORT_COLUMNS,
+  exportUsers,
+  type ExportFormat
+} from '@/services/user-export'
+import type { FilterOptions } from '@/types/samba'
+import { _, format, formatDate, ngettext } from '@/lib/i18n'
+
+interface ExportUsersDialogProps {
+  /**
+   * The filters of the user list; the export holds the same users
+   */
+  filters?: FilterOptions;
+  trigger?: React.ReactNode;
+}
+
+function describeFilters (filters: FilterOptions = {}): string[] {
+  const described: string[] = []
+  if (filters.search) described.push(format(_('Matching "$0"'), filters.search))
+  if (filters.enabled !== undefined) described.push(filters.enabled ? _('Enabled accounts only') : _('Disabled accounts only'))
+  if (filters.locked) described.push(_('Locked out accounts only'))
+  if (filters.organizationalUnit) described.push(format(_('In $0'), filters.organizationalUnit))
+  if (filters.groups?.length) described.push(format(_('Members of $0'), filters.groups.join(', ')))
+  if (filters.dateFrom) described.push(format(_('Created after $0'), formatDate(filters.dateFrom)))
+  if (filters.dateTo) described.push(format(_('Created before $0'), formatDate(filters.dateTo)))
+  return described
+}
+
+export default function ExportUsersDialog ({ filters, trigger }: ExportUsersDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+
+  const form = useForm<ExportUsersInput>({
+    resolver: zodResolver(exportUsersSchema),
+    defaultValues: {
+      format: 'csv',
+      columns: USER_EXPORT_COLUMNS.filter(column => column.default).map(column => column.key)
+    }
+  })
+
+  const selected = form.watch('columns')
+  const activeFilters = describeFilters(filters)
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    const columns = checked ? [...selected, key] : selected.filter(column => column !== key)
+    form.setValue('columns', columns, { shouldValidate: true })
+  }
+
+  const onSubmit = async (data: ExportUsersInput) => {
+    setExporting(true)
+    try {
+      const users = await UserAPI.list(filters)
+      const stamp = new Date().toISOString().slice(0, 10)
+      downloadFile(
+        `users-${stamp}.${data.format}`,
+        exportUsers(users, data.columns, data.format),
+        EXPORT_MIME_TYPES[data.format]
+      )
+      toast.success(format(ngettext('Exported $0 user', 'Exported $0 users', users.length), users.length))
+      setIsOpen(false)
+    } catch (error) {
+      toast.error(format(_('Failed to export users: $0'), (error as Error).message))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm">
+            <Download className="mr-2 h-4 w-4" />
+            {_('Export')}
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{_('Export Users')}</DialogTitle>
+          <DialogDescription>
+            {activeFilters.length
+              ? format(_('Exports the users that match the current filters: $0.'), activeFilters.join('; '))
+              : _('Exports all users in the domain.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{_('Format')}</Label>
+            <Select
+              value={form.watch('format')}
+              onValueChange={(value) => form.setValue('format', value as ExportFormat)}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">{_('Excel (XLSX)')}</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{_('Columns')}</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {USER_EXPORT_COLUMNS.map(column => (
+                <div key={column.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export-${column.key}`}
+                    checked={selected.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export-${column.key}`} className="font-normal">{_(column.label)}</Label>
+                </div>
+              ))}
+            </div>
+            {form.formState.errors.columns && (
+              <p className="text-sm text-red-500">{form.formState.errors.columns.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              {_('Cancel')}
+            </Button>
+            <Button type="submit" disabled={exporting}>
+              {exporting
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <Download className="mr-2 h-4 w-4" />}
+              {_('Export')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
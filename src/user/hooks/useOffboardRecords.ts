@@ -0,0 +1,53 @@
+// Offboarding Records Hook
+
+import { useState, useEffect, useCallback } from 'react'
+import { OffboardAPI } from '@/services/offboard-api'
+import type { OffboardRecord } from '@/types/samba'
+import { ErrorHandler } from '@/lib/errors'
+
+export interface UseOffboardRecordsReturn {
+  records: OffboardRecord[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * The offboarding records of one user, newest first. Only fetched while
+ * `enabled`, e.g. while the dialog is open.
+ */
+export const useOffboardRecords = (username: string, enabled = true): UseOffboardRecordsReturn => {
+  const [records, setRecords] = useState<OffboardRecord[]>([])
+  const [loading, setLoading] = useState<boolean>(enabled)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRecords = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      setRecords(await OffboardAPI.list(username))
+    } catch (err) {
+      const apiError = ErrorHandler.handle(err, 'useOffboardRecords.fetchRecords', {
+        showToast: false,
+        rethrow: false
+      })
+      setError(apiError.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [username])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchRecords()
+    }
+  }, [enabled, fetchRecords])
+
+  return {
+    records,
+    loading,
+    error,
+    refresh: fetchRecords
+  }
+}
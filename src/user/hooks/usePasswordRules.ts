@@ -0,0 +1,58 @@
+// Password Policy Hook for the user forms
+
+import { useState, useEffect } from 'react'
+import { PasswordPolicyAPI } from '@/services/password-policy-api'
+import { ErrorHandler } from '@/lib/errors'
+import { DEFAULT_PASSWORD_RULES, type PasswordRules } from '@/lib/password'
+
+export interface UsePasswordRulesReturn {
+  rules: PasswordRules;
+  /**
+   * The PSO the rules come from; undefined for the domain settings
+   */
+  pso?: string;
+  /**
+   * False while loading and when the policy could not be read, in which
+   * case Samba's defaults are used
+   */
+  loaded: boolean;
+}
+
+/**
+ * The password rules in force for an existing account, or the domain
+ * settings for a new one. Only fetched while `enabled`, e.g. while the
+ * dialog is open.
+ */
+export const usePasswordRules = (username?: string, enabled = true): UsePasswordRulesReturn => {
+  const [state, setState] = useState<UsePasswordRulesReturn>({ rules: DEFAULT_PASSWORD_RULES, loaded: false })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let cancelled = false
+    const load = async (): Promise<UsePasswordRulesReturn> => {
+      if (username) {
+        try {
+          const resultant = await PasswordPolicyAPI.getResultantPolicy(username)
+          return { rules: resultant.settings, pso: resultant.pso, loaded: true }
+        } catch {
+          // Without PSO support, or for an account that does not exist yet
+        }
+      }
+      return { rules: await PasswordPolicyAPI.getDomainSettings(), loaded: true }
+    }
+
+    load()
+      .then(result => {
+        if (!cancelled) setState(result)
+      })
+      .catch(err => {
+        ErrorHandler.handle(err, 'usePasswordRules.load', { showToast: false, rethrow: false })
+        if (!cancelled) setState({ rules: DEFAULT_PASSWORD_RULES, loaded: false })
+      })
+
+    return () => { cancelled = true }
+  }, [username, enabled])
+
+  return state
+}
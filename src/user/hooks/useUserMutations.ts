@@ -27,6 +27,7 @@ export interface UseUserMutationsReturn {
   deleting: boolean;
   changingPassword: boolean;
   enablingDisabling: boolean;
+  unlocking: boolean;
   moving: boolean;
   error: string | null;
 
@@ -36,6 +37,7 @@ export interface UseUserMutationsReturn {
   delete: (username: string) => Promise<boolean>;
   enable: (username: string) => Promise<SambaUser | null>;
   disable: (username: string) => Promise<SambaUser | null>;
+  unlock: (username: string) => Promise<SambaUser | null>;
   setPassword: (username: string, password: string) => Promise<boolean>;
   setExpiry: (username: string, expiry?: Date) => Promise<SambaUser | null>;
   move: (username: string, targetOU: string) => Promise<SambaUser | null>;
@@ -56,6 +58,7 @@ export const useUserMutations = (options: UseUserMutationsOptions = {}): UseUser
   const [deleting, setDeleting] = useState(false)
   const [changingPassword, setChangingPassword] = useState(false)
   const [enablingDisabling, setEnablingDisabling] = useState(false)
+  const [unlocking, setUnlocking] = useState(false)
   const [moving, setMoving] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -164,6 +167,24 @@ export const useUserMutations = (options: UseUserMutationsOptions = {}): UseUser
     }
   }, [onSuccess, autoRefresh, handleError, clearError])
 
+  const unlock = useCallback(async (username: string): Promise<SambaUser | null> => {
+    try {
+      setUnlocking(true)
+      clearError()
+
+      const user = await UserAPI.unlock(username)
+
+      onSuccess?.('unlock', user)
+      if (autoRefresh) await autoRefresh()
+
+      return user
+    } catch (err) {
+      return handleError('unlock', err)
+    } finally {
+      setUnlocking(false)
+    }
+  }, [onSuccess, autoRefresh, handleError, clearError])
+
   const setPassword = useCallback(async (username: string, password: string): Promise<boolean> => {
     try {
       setChangingPassword(true)
@@ -256,7 +277,7 @@ export const useUserMutations = (options: UseUserMutationsOptions = {}): UseUser
     }
   }, [onSuccess, autoRefresh, handleError, clearError])
 
-  const isLoading = creating || updating || deleting || changingPassword || enablingDisabling || moving
+  const isLoading = creating || updating || deleting || changingPassword || enablingDisabling || unlocking || moving
 
   return {
     // States
@@ -265,6 +286,7 @@ export const useUserMutations = (options: UseUserMutationsOptions = {}): UseUser
     deleting,
     changingPassword,
     enablingDisabling,
+    unlocking,
     moving,
     error,
     isLoading,
@@ -275,6 +297,7 @@ export const useUserMutations = (options: UseUserMutationsOptions = {}): UseUser
     delete: deleteUser,
     enable,
     disable,
+    unlock,
     setPassword,
     setExpiry,
     move,
@@ -0,0 +1,72 @@
+// User Templates Hook
+
+import { useState, useEffect, useCallback } from 'react'
+import { UserTemplateAPI } from '@/services/user-template-api'
+import type { UserTemplate } from '@/services/user-template'
+import { ErrorHandler } from '@/lib/errors'
+
+export interface UseUserTemplatesReturn {
+  templates: UserTemplate[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  /**
+   * Save a template, replacing `previousName` when given; rethrows so the
+   * form can show why it failed
+   */
+  save: (template: UserTemplate, previousName?: string) => Promise<UserTemplate>;
+  remove: (name: string) => Promise<void>;
+}
+
+/**
+ * The user templates shared by every administrator. Only fetched while
+ * `enabled`, e.g. while the dialog is open.
+ */
+export const useUserTemplates = (enabled = true): UseUserTemplatesReturn => {
+  const [templates, setTemplates] = useState<UserTemplate[]>([])
+  const [loading, setLoading] = useState<boolean>(enabled)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      setTemplates(await UserTemplateAPI.list())
+    } catch (err) {
+      const apiError = ErrorHandler.handle(err, 'useUserTemplates.fetchTemplates', {
+        showToast: false,
+        rethrow: false
+      })
+      setError(apiError.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const save = useCallback(async (template: UserTemplate, previousName?: string) => {
+    const saved = await UserTemplateAPI.save(template, previousName)
+    await fetchTemplates()
+    return saved
+  }, [fetchTemplates])
+
+  const remove = useCallback(async (name: string) => {
+    await UserTemplateAPI.delete(name)
+    await fetchTemplates()
+  }, [fetchTemplates])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchTemplates()
+    }
+  }, [enabled, fetchTemplates])
+
+  return {
+    templates,
+    loading,
+    error,
+    refresh: fetchTemplates,
+    save,
+    remove
+  }
+}
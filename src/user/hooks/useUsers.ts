@@ -50,6 +50,13 @@ export const useUsers = (options: UseUsersOptions = {}): UseUsersReturn => {
   const [sort, setSortState] = useState<SortOptions | undefined>(initialSort)
   const [pagination, setPaginationState] = useState<PaginationOptions | undefined>(initialPagination)
 
+  // Follow the caller's filters, which change as the user types or picks them
+  const filtersKey = JSON.stringify(initialFilters)
+  useEffect(() => {
+    setFiltersState(initialFilters)
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- keyed on the filters' content
+  }, [filtersKey])
+
   // Use React Query for data fetching
   const {
     data: users = [],
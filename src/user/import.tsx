@@ -0,0 +1,515 @@
+import React, { useRef, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { toast } from 'sonner'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Download,
+  FileUp,
+  Loader2,
+  Upload
+} from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+
+import { importUsersSchema } from '@/lib/validation'
+import { downloadFile } from '@/lib/utils'
+import { UserImportAPI } from '@/services/user-import-api'
+import {
+  IMPORT_FIELDS,
+  formatImportReport,
+  getImportColumns,
+  guessColumnMapping,
+  parseImportFile,
+  type ColumnMapping,
+  type ImportAction,
+  type ImportFormat,
+  type ImportRecord,
+  type ImportResult,
+  type ImportRow
+} from '@/services/user-import'
+import { _, format, ngettext } from '@/lib/i18n'
+
+type ImportFileForm = z.input<typeof importUsersSchema>
+
+type Step = 'file' | 'mapping' | 'preview' | 'importing' | 'done'
+
+// Select items cannot have an empty value
+const UNMAPPED = '__unmapped__'
+
+const ACTION_STYLES: Record<ImportAction, { marker: string; className: string }> = {
+  create: { marker: '+', className: 'bg-green-50 text-green-800' },
+  skip: { marker: '=', className: 'text-muted-foreground' },
+  error: { marker: '!', className: 'bg-red-50 text-red-800' }
+}
+
+interface ImportUsersDialogProps {
+  onUsersImported?: () => void;
+  trigger?: React.ReactNode;
+}
+
+export default function ImportUsersDialog ({ onUsersImported, trigger }: ImportUsersDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [step, setStep] = useState<Step>('file')
+  const [busy, setBusy] = useState(false)
+  const [records, setRecords] = useState<ImportRecord[]>([])
+  const [columns, setColumns] = useState<string[]>([])
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [organizationalUnit, setOrganizationalUnit] = useState('')
+  const [groups, setGroups] = useState('')
+  const [mustChangePassword, setMustChangePassword] = useState(true)
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [results, setResults] = useState<ImportResult[]>([])
+  const abortController = useRef<AbortController | null>(null)
+
+  const form = useForm<ImportFileForm>({
+    resolver: zodResolver(importUsersSchema),
+    defaultValues: {
+      format: 'csv',
+      skipExisting: true,
+      sendWelcomeEmail: false
+    }
+  })
+
+  const reset = () => {
+    form.reset()
+    setStep('file')
+    setRecords([])
+    setColumns([])
+    setMapping({})
+    setOrganizationalUnit('')
+    setGroups('')
+    setMustChangePassword(true)
+    setRows([])
+    setResults([])
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    // Closing does not stop a running import: rows already sent are created
+    if (step === 'importing') return
+    setIsOpen(open)
+    if (!open) {
+      if (step === 'done') onUsersImported?.()
+      reset()
+    }
+  }
+
+  const handleFileChange = (file: File | undefined) => {
+    if (!file) return
+    form.setValue('file', file, { shouldValidate: true })
+    if (/\.json$/i.test(file.name)) {
+      form.setValue('format', 'json')
+    } else if (/\.(csv|txt)$/i.test(file.name)) {
+      form.setValue('format', 'csv')
+    }
+  }
+
+  const readFile = async (data: ImportFileForm) => {
+    try {
+      const parsed = parseImportFile(await data.file.text(), data.format as ImportFormat)
+      if (!parsed.length) {
+        toast.error(_('The file contains no users'))
+        return
+      }
+
+      const found = getImportColumns(parsed)
+      setRecords(parsed)
+      setColumns(found)
+      setMapping(guessColumnMapping(found))
+      setStep('mapping')
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  const buildPreview = async () => {
+    setBusy(true)
+    try {
+      const planned = await UserImportAPI.plan(records, mapping, {
+        skipExisting: form.getValues('skipExisting') ?? true,
+        organizationalUnit: organizationalUnit.trim(),
+        groups: groups.split(',').map(group => group.trim()).filter(Boolean),
+        mustChangePassword
+      })
+      setRows(planned)
+      setStep('preview')
+    } catch (error) {
+      toast.error((error as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const runImport = async () => {
+    const controller = new AbortController()
+    abortController.current = controller
+    setResults([])
+    setStep('importing')
+
+    try {
+      const finished = await UserImportAPI.run(rows, {
+        signal: controller.signal,
+        onResult: result => setResults(previous => [...previous, result])
+      })
+      setResults(finished)
+
+      const created = finished.filter(result => result.status === 'created').length
+      toast.success(format(ngettext('Imported $0 user', 'Imported $0 users', created), created))
+    } finally {
+      abortController.current = null
+      setStep('done')
+    }
+  }
+
+  const downloadReport = (reportFormat: ImportFormat) => {
+    const stamp = new Date().toISOString().slice(0, 10)
+    downloadFile(
+      `user-import-${stamp}.${reportFormat}`,
+      formatImportReport(results, reportFormat),
+      reportFormat === 'json' ? 'application/json' : 'text/csv'
+    )
+  }
+
+  const counts = (['create', 'skip', 'error'] as ImportAction[]).reduce(
+    (total, action) => ({ ...total, [action]: rows.filter(row => row.action === action).length }),
+    {} as Record<ImportAction, number>
+  )
+  const toCreate = counts.create || 0
+  const actionLabels: Record<ImportAction, string> = {
+    create: _('Create'),
+    skip: _('Skip'),
+    error: _('Error')
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline">
+            <Upload className="mr-2 h-4 w-4" />
+            {_('Import Users')}
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{_('Import Users')}</DialogTitle>
+          <DialogDescription>
+            {_('Create many accounts at once from a CSV or JSON file. Nothing is changed until you confirm the preview.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <form onSubmit={form.handleSubmit(readFile)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">{_('File *')}</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.txt,.json,text/csv,application/json"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+              {form.formState.errors.file && (
+                <p className="text-sm text-red-500">{form.formState.errors.file.message}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {_('CSV files need a header row. JSON files hold an array of objects with one key per column.')}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{_('Format')}</Label>
+              <Select
+                value={form.watch('format')}
+                onValueChange={(value) => form.setValue('format', value as ImportFormat)}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-start space-x-3">
+              <Checkbox
+                id="skip-existing"
+                checked={form.watch('skipExisting')}
+                onCheckedChange={(checked) => form.setValue('skipExisting', checked === true)}
+              />
+              <div className="space-y-1 leading-none">
+                <Label htmlFor="skip-existing">{_('Skip existing users')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {_('Rows for usernames that already exist are left out instead of being reported as errors.')}
+                </p>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                {_('Cancel')}
+              </Button>
+              <Button type="submit">
+                <FileUp className="mr-2 h-4 w-4" />
+                {_('Read File')}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {format(ngettext('Found $0 row. Choose the column for each field.', 'Found $0 rows. Choose the column for each field.', records.length), records.length)}
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="flex items-center justify-between gap-2">
+                  <Label className="w-44">{field === 'username' ? format(_('$0 *'), _(label)) : _(label)}</Label>
+                  <Select
+                    value={mapping[field] || UNMAPPED}
+                    onValueChange={(value) => setMapping(previous => ({
+                      ...previous,
+                      [field]: value === UNMAPPED ? undefined : value
+                    }))}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>{_('Not imported')}</SelectItem>
+                      {columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {!mapping.password && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {_('No password column is mapped. Every user gets a generated password, listed in the report at the end.')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-ou">{_('Organizational Unit')}</Label>
+                <Input
+                  id="import-ou"
+                  placeholder={_('Enter OU (e.g., ou=Users,dc=example,dc=com)')}
+                  value={organizationalUnit}
+                  onChange={(e) => setOrganizationalUnit(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {_('For rows without an OU of their own. Leave empty to use the default Users container.')}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-groups">{_('Groups')}</Label>
+                <Input
+                  id="import-groups"
+                  placeholder={_('e.g. Students, Wi-Fi Users')}
+                  value={groups}
+                  onChange={(e) => setGroups(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {_('Comma-separated groups every imported user is added to.')}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start space-x-3">
+              <Checkbox
+                id="import-must-change"
+                checked={mustChangePassword}
+                onCheckedChange={(checked) => setMustChangePassword(checked === true)}
+              />
+              <Label htmlFor="import-must-change">{_('Must change password at next login')}</Label>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStep('file')}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                {_('Back')}
+              </Button>
+              <Button onClick={buildPreview} disabled={!mapping.username || busy}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {_('Preview')}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge className="bg-green-600">{format(_('$0 to create'), toCreate)}</Badge>
+              <Badge variant="secondary">{format(_('$0 to skip'), counts.skip || 0)}</Badge>
+              <Badge variant="destructive">{format(ngettext('$0 error', '$0 errors', counts.error || 0), counts.error || 0)}</Badge>
+            </div>
+
+            <div className="max-h-[45vh] overflow-auto rounded border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead className="w-12">{_('Row')}</TableHead>
+                    <TableHead>{_('Username')}</TableHead>
+                    <TableHead>{_('Name')}</TableHead>
+                    <TableHead>{_('Organizational Unit')}</TableHead>
+                    <TableHead>{_('Groups')}</TableHead>
+                    <TableHead>{_('Notes')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.row} className={ACTION_STYLES[row.action].className}>
+                      <TableCell className="font-mono" title={actionLabels[row.action]}>
+                        {ACTION_STYLES[row.action].marker}
+                      </TableCell>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell className="font-mono">{row.input.username}</TableCell>
+                      <TableCell>{row.input.displayName || [row.input.firstName, row.input.lastName].filter(Boolean).join(' ')}</TableCell>
+                      <TableCell className="text-xs">{row.input.organizationalUnit || _('Default')}</TableCell>
+                      <TableCell className="text-xs">{(row.input.groups || []).join(', ')}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.messages.join('; ')}
+                        {row.action === 'create' && row.generatedPassword && _('Password will be generated')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStep('mapping')}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                {_('Back')}
+              </Button>
+              <Button onClick={runImport} disabled={!toCreate}>
+                {format(ngettext('Create $0 User', 'Create $0 Users', toCreate), toCreate)}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {(step === 'importing' || step === 'done') && (
+          <div className="space-y-4">
+            <Progress value={rows.length ? (results.length / rows.length) * 100 : 100} />
+            <div className="flex gap-2">
+              <Badge className="bg-green-600">
+                {format(_('$0 created'), results.filter(result => result.status === 'created').length)}
+              </Badge>
+              <Badge variant="secondary">
+                {format(_('$0 skipped'), results.filter(result => result.status === 'skipped').length)}
+              </Badge>
+              <Badge variant="destructive">
+                {format(_('$0 failed'), results.filter(result => result.status === 'failed').length)}
+              </Badge>
+            </div>
+
+            <div className="max-h-[40vh] overflow-auto rounded border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">{_('Row')}</TableHead>
+                    <TableHead>{_('Username')}</TableHead>
+                    <TableHead>{_('Status')}</TableHead>
+                    <TableHead>{_('Message')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(result => (
+                    <TableRow key={result.row}>
+                      <TableCell>{result.row}</TableCell>
+                      <TableCell className="font-mono">{result.username}</TableCell>
+                      <TableCell>
+                        <Badge variant={result.status === 'failed' ? 'destructive' : result.status === 'created' ? 'default' : 'secondary'}>
+                          {result.status === 'created' ? _('Created') : result.status === 'skipped' ? _('Skipped') : _('Failed')}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">{result.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {step === 'done' && results.some(result => result.password) && (
+              <Alert className="border-orange-200 bg-orange-50">
+                <AlertTriangle className="h-4 w-4 text-orange-600" />
+                <AlertDescription className="text-orange-800">
+                  {_('The report contains the generated passwords. Download it now: they are not stored anywhere else.')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <DialogFooter>
+              {step === 'importing'
+                ? (
+                <Button variant="outline" onClick={() => abortController.current?.abort()}>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {_('Stop')}
+                </Button>
+                  )
+                : (
+                <>
+                  <Button variant="outline" onClick={() => downloadReport('json')}>
+                    <Download className="mr-2 h-4 w-4" />
+                    {_('Report (JSON)')}
+                  </Button>
+                  <Button variant="outline" onClick={() => downloadReport('csv')}>
+                    <Download className="mr-2 h-4 w-4" />
+                    {_('Report (CSV)')}
+                  </Button>
+                  <Button onClick={() => handleOpenChange(false)}>{_('Close')}</Button>
+                </>
+                  )}
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
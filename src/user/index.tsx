@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
 import { createRoot } from 'react-dom/client'
-import { Plus, Users, Search, Filter } from 'lucide-react'
+import { Plus, Users, Search, Filter, Upload, Lock } from 'lucide-react'
 import './tailwind.css'
 
 import { Button } from '@/components/ui/button'
@@ -12,6 +12,16 @@ import {
   CardHeader,
   CardTitle
 } from '@/components/ui/card'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
 import {
   Tabs,
   TabsContent,
@@ -22,6 +32,8 @@ import {
 // Import user management components
 import UserList from './list'
 import CreateUserDialog from './create'
+import ImportUsersDialog from './import'
+import UserTemplatesDialog from './templates'
 import DeleteUserDialog from './delete'
 import MoveUserDialog from './move'
 import ShowUserDialog from './show'
@@ -32,6 +44,7 @@ import UserStatusToggle from './status-toggle'
 // Import hooks
 import { useUsers } from './hooks/useUsers'
 import type { FilterOptions } from '@/types/samba'
+import { _ } from '@/lib/i18n'
 
 interface UserManagementPageProps {
     initialView?: 'list' | 'management';
@@ -57,10 +70,16 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
     setFilters(prev => ({ ...prev, search: query }))
   }
 
+  const statusFilter = filters.enabled === undefined ? 'all' : filters.enabled ? 'enabled' : 'disabled'
+  const handleStatusFilter = (status: string) => {
+    setFilters(prev => ({ ...prev, enabled: status === 'all' ? undefined : status === 'enabled' }))
+  }
+
   const stats = {
     total: users.length,
     enabled: users.filter(user => user.enabled).length,
     disabled: users.filter(user => !user.enabled).length,
+    locked: users.filter(user => user.locked).length,
     expiringSoon: users.filter(user =>
       user.accountExpires &&
             user.accountExpires.getTime() - Date.now() < 30 * 24 * 60 * 60 * 1000 // 30 days
@@ -73,18 +92,20 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                 {/* Header */}
                 <div className="flex items-center justify-between">
                     <div>
-                        <h1 className="text-3xl font-bold tracking-tight">User Management</h1>
+                        <h1 className="text-3xl font-bold tracking-tight">{_('User Management')}</h1>
                         <p className="text-muted-foreground">
-                            Manage Active Directory users, groups, and permissions
+                            {_('Manage Active Directory users, groups, and permissions')}
                         </p>
                     </div>
                     <div className="flex gap-2">
+                        <UserTemplatesDialog />
+                        <ImportUsersDialog onUsersImported={refreshUsers} />
                         <CreateUserDialog
                             onUserCreated={refreshUsers}
                             trigger={
                                 <Button>
                                     <Plus className="mr-2 h-4 w-4" />
-                                    Create User
+                                    {_('Create User')}
                                 </Button>
                             }
                         />
@@ -92,10 +113,10 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                 </div>
 
                 {/* Statistics Cards */}
-                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Total Users</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Total Users')}</CardTitle>
                             <Users className="h-4 w-4 text-muted-foreground" />
                         </CardHeader>
                         <CardContent>
@@ -104,7 +125,7 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Enabled</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Enabled')}</CardTitle>
                             <div className="h-2 w-2 bg-green-500 rounded-full" />
                         </CardHeader>
                         <CardContent>
@@ -113,7 +134,7 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Disabled</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Disabled')}</CardTitle>
                             <div className="h-2 w-2 bg-red-500 rounded-full" />
                         </CardHeader>
                         <CardContent>
@@ -122,7 +143,16 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Expiring Soon</CardTitle>
+                            <CardTitle className="text-sm font-medium">{_('Locked Out')}</CardTitle>
+                            <Lock className="h-4 w-4 text-muted-foreground" />
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{stats.locked}</div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                            <CardTitle className="text-sm font-medium">{_('Expiring Soon')}</CardTitle>
                             <div className="h-2 w-2 bg-yellow-500 rounded-full" />
                         </CardHeader>
                         <CardContent>
@@ -135,8 +165,8 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                 <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'list' | 'management')} className="space-y-4">
                     <div className="flex items-center justify-between">
                         <TabsList>
-                            <TabsTrigger value="list">User List</TabsTrigger>
-                            <TabsTrigger value="management">Management</TabsTrigger>
+                            <TabsTrigger value="list">{_('User List')}</TabsTrigger>
+                            <TabsTrigger value="management">{_('Management')}</TabsTrigger>
                         </TabsList>
 
                         {activeTab === 'list' && (
@@ -144,15 +174,38 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                                 <div className="relative">
                                     <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                                     <Input
-                                        placeholder="Search users..."
+                                        placeholder={_('Search users...')}
                                         value={searchQuery}
                                         onChange={(e) => handleSearch(e.target.value)}
                                         className="pl-10 w-[300px]"
                                     />
                                 </div>
-                                <Button variant="outline" size="icon">
-                                    <Filter className="h-4 w-4" />
-                                </Button>
+                                <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                        <Button
+                                            variant={statusFilter !== 'all' || filters.locked ? 'secondary' : 'outline'}
+                                            size="icon"
+                                        >
+                                            <Filter className="h-4 w-4" />
+                                            <span className="sr-only">{_('Filter users')}</span>
+                                        </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end" className="w-52">
+                                        <DropdownMenuLabel>{_('Status')}</DropdownMenuLabel>
+                                        <DropdownMenuRadioGroup value={statusFilter} onValueChange={handleStatusFilter}>
+                                            <DropdownMenuRadioItem value="all">{_('All users')}</DropdownMenuRadioItem>
+                                            <DropdownMenuRadioItem value="enabled">{_('Enabled')}</DropdownMenuRadioItem>
+                                            <DropdownMenuRadioItem value="disabled">{_('Disabled')}</DropdownMenuRadioItem>
+                                        </DropdownMenuRadioGroup>
+                                        <DropdownMenuSeparator />
+                                        <DropdownMenuCheckboxItem
+                                            checked={!!filters.locked}
+                                            onCheckedChange={(checked) => setFilters(prev => ({ ...prev, locked: checked || undefined }))}
+                                        >
+                                            {_('Locked out only')}
+                                        </DropdownMenuCheckboxItem>
+                                    </DropdownMenuContent>
+                                </DropdownMenu>
                             </div>
                         )}
                     </div>
@@ -160,9 +213,9 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                     <TabsContent value="list" className="space-y-4">
                         <Card>
                             <CardHeader>
-                                <CardTitle>Active Directory Users</CardTitle>
+                                <CardTitle>{_('Active Directory Users')}</CardTitle>
                                 <CardDescription>
-                                    View and manage all users in your Active Directory domain
+                                    {_('View and manage all users in your Active Directory domain')}
                                 </CardDescription>
                             </CardHeader>
                             <CardContent>
@@ -171,6 +224,7 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                                     loading={loading}
                                     error={error}
                                     onRefresh={refreshUsers}
+                                    filters={filters}
                                 />
                             </CardContent>
                         </Card>
@@ -180,9 +234,9 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>User Operations</CardTitle>
+                                    <CardTitle>{_('User Operations')}</CardTitle>
                                     <CardDescription>
-                                        Perform common user management tasks
+                                        {_('Perform common user management tasks')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
@@ -191,7 +245,16 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
                                                 <Plus className="mr-2 h-4 w-4" />
-                                                Create New User
+                                                {_('Create New User')}
+                                            </Button>
+                                        }
+                                    />
+                                    <ImportUsersDialog
+                                        onUsersImported={refreshUsers}
+                                        trigger={
+                                            <Button variant="outline" className="w-full justify-start">
+                                                <Upload className="mr-2 h-4 w-4" />
+                                                {_('Import Users from File')}
                                             </Button>
                                         }
                                     />
@@ -199,7 +262,7 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                                         onUserDeleted={refreshUsers}
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Delete User
+                                                {_('Delete User')}
                                             </Button>
                                         }
                                     />
@@ -207,7 +270,7 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                                         onUserMoved={refreshUsers}
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Move User to OU
+                                                {_('Move User to OU')}
                                             </Button>
                                         }
                                     />
@@ -216,9 +279,9 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
 
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>Account Management</CardTitle>
+                                    <CardTitle>{_('Account Management')}</CardTitle>
                                     <CardDescription>
-                                        Manage user accounts and permissions
+                                        {_('Manage user accounts and permissions')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
@@ -226,14 +289,14 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
                                         mode="admin"
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Change Password
+                                                {_('Change Password')}
                                             </Button>
                                         }
                                     />
                                     <SetExpiryDialog
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                Set Account Expiry
+                                                {_('Set Account Expiry')}
                                             </Button>
                                         }
                                     />
@@ -245,16 +308,16 @@ function UserManagementPage ({ initialView = 'list' }: UserManagementPageProps)
 
                             <Card>
                                 <CardHeader>
-                                    <CardTitle>User Information</CardTitle>
+                                    <CardTitle>{_('User Information')}</CardTitle>
                                     <CardDescription>
-                                        View detailed user information
+                                        {_('View detailed user information')}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-2">
                                     <ShowUserDialog
                                         trigger={
                                             <Button variant="outline" className="w-full justify-start">
-                                                View User Details
+                                                {_('View User Details')}
                                             </Button>
                                         }
                                     />
@@ -1,6 +1,5 @@
 import React, { useMemo } from 'react'
-import { format } from 'date-fns'
-import { MoreHorizontal, Trash2, User, UserCheck, UserX, Key, Calendar, FolderOpen } from 'lucide-react'
+import { MoreHorizontal, Trash2, User, UserCheck, UserX, Key, Calendar, FolderOpen, Pencil, Lock, LockOpen, Copy } from 'lucide-react'
 
 import { DataTable, DataTableColumn } from '@/components/ui/data-table'
 import { ErrorAlert } from '@/components/ui/error-alert'
@@ -15,19 +14,29 @@ import {
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu'
 
-import type { SambaUser } from '@/types/samba'
+import type { FilterOptions, SambaUser } from '@/types/samba'
 import DeleteUserDialog from './delete'
 import ShowUserDialog from './show'
+import EditUserDialog from './edit'
+import CreateUserDialog from './create'
+import UnlockUserDialog from './unlock'
 import ChangePasswordDialog from './password'
 import SetExpiryDialog from './setexpiry'
 import MoveUserDialog from './move'
 import UserStatusToggle from './status-toggle'
+import ExportUsersDialog from './export'
+import { daysUntil } from '@/services/user-expiry'
+import { _, format, formatDate, formatDateTime, ngettext } from '@/lib/i18n'
 
 interface UserListProps {
   users: SambaUser[];
   loading: boolean;
   error: string | null;
   onRefresh: () => void;
+  /**
+   * The filters the users were listed with, for the export
+   */
+  filters?: FilterOptions;
 }
 
 interface UserActionsProps {
@@ -40,12 +49,12 @@ const UserActions: React.FC<UserActionsProps> = ({ user, onRefresh }) => {
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
         <Button variant="ghost" className="h-8 w-8 p-0">
-          <span className="sr-only">Open menu</span>
+          <span className="sr-only">{_('Open menu')}</span>
           <MoreHorizontal className="h-4 w-4" />
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-48">
-        <DropdownMenuLabel>Actions</DropdownMenuLabel>
+        <DropdownMenuLabel>{_('Actions')}</DropdownMenuLabel>
         <DropdownMenuSeparator />
 
         <ShowUserDialog
@@ -53,7 +62,29 @@ const UserActions: React.FC<UserActionsProps> = ({ user, onRefresh }) => {
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <User className="mr-2 h-4 w-4" />
-              View Details
+              {_('View Details')}
+            </DropdownMenuItem>
+          }
+        />
+
+        <EditUserDialog
+          username={user.username}
+          onUserUpdated={onRefresh}
+          trigger={
+            <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+              <Pencil className="mr-2 h-4 w-4" />
+              {_('Edit User')}
+            </DropdownMenuItem>
+          }
+        />
+
+        <CreateUserDialog
+          copyFrom={user}
+          onUserCreated={onRefresh}
+          trigger={
+            <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+              <Copy className="mr-2 h-4 w-4" />
+              {_('Copy User')}
             </DropdownMenuItem>
           }
         />
@@ -67,26 +98,39 @@ const UserActions: React.FC<UserActionsProps> = ({ user, onRefresh }) => {
                 ? (
                 <>
                   <UserX className="mr-2 h-4 w-4" />
-                  Disable User
+                  {_('Disable User')}
                 </>
                   )
                 : (
                 <>
                   <UserCheck className="mr-2 h-4 w-4" />
-                  Enable User
+                  {_('Enable User')}
                 </>
                   )}
             </DropdownMenuItem>
           }
         />
 
+        {user.locked && (
+          <UnlockUserDialog
+            user={user}
+            onUserUnlocked={onRefresh}
+            trigger={
+              <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                <LockOpen className="mr-2 h-4 w-4" />
+                {_('Unlock Account')}
+              </DropdownMenuItem>
+            }
+          />
+        )}
+
         <ChangePasswordDialog
           username={user.username}
           mode="admin"
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <Key className="mr-2 h-4 w-4" />
-              Change Password
+              {_('Change Password')}
             </DropdownMenuItem>
           }
         />
@@ -96,7 +140,7 @@ const UserActions: React.FC<UserActionsProps> = ({ user, onRefresh }) => {
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <Calendar className="mr-2 h-4 w-4" />
-              Set Expiry
+              {_('Set Expiry')}
             </DropdownMenuItem>
           }
         />
@@ -107,7 +151,7 @@ const UserActions: React.FC<UserActionsProps> = ({ user, onRefresh }) => {
           trigger={
             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
               <FolderOpen className="mr-2 h-4 w-4" />
-              Move to OU
+              {_('Move to OU')}
             </DropdownMenuItem>
           }
         />
@@ -123,7 +167,7 @@ const UserActions: React.FC<UserActionsProps> = ({ user, onRefresh }) => {
               className="text-destructive focus:text-destructive"
             >
               <Trash2 className="mr-2 h-4 w-4" />
-              Delete User
+              {_('Delete User')}
             </DropdownMenuItem>
           }
         />
@@ -132,11 +176,11 @@ const UserActions: React.FC<UserActionsProps> = ({ user, onRefresh }) => {
   )
 }
 
-const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh }) => {
+const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh, filters }) => {
   const columns = useMemo<DataTableColumn<SambaUser>[]>(() => [
     {
       key: 'username',
-      header: 'Username',
+      header: _('Username'),
       sortable: true,
       searchable: true,
       render: (user) => (
@@ -145,7 +189,7 @@ const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh })
     },
     {
       key: 'displayName',
-      header: 'Display Name',
+      header: _('Display Name'),
       sortable: true,
       searchable: true,
       render: (user) => {
@@ -156,7 +200,7 @@ const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh })
     },
     {
       key: 'email',
-      header: 'Email',
+      header: _('Email'),
       sortable: true,
       searchable: true,
       render: (user) => {
@@ -176,20 +220,28 @@ const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh })
     },
     {
       key: 'enabled',
-      header: 'Status',
+      header: _('Status'),
       sortable: true,
       render: (user) => (
-        <Badge variant={user.enabled ? 'default' : 'secondary'}>
-          {user.enabled ? 'Enabled' : 'Disabled'}
-        </Badge>
+        <div className="flex items-center gap-1">
+          <Badge variant={user.enabled ? 'default' : 'secondary'}>
+            {user.enabled ? _('Enabled') : _('Disabled')}
+          </Badge>
+          {user.locked && (
+            <Badge variant="destructive">
+              <Lock className="mr-1 h-3 w-3" />
+              {_('Locked')}
+            </Badge>
+          )}
+        </div>
       )
     },
     {
       key: 'groups',
-      header: 'Groups',
+      header: _('Groups'),
       render: (user) => {
         if (!user.groups || user.groups.length === 0) {
-          return <span className="text-muted-foreground">None</span>
+          return <span className="text-muted-foreground">{_('None')}</span>
         }
 
         if (user.groups.length === 1) {
@@ -210,27 +262,59 @@ const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh })
     },
     {
       key: 'lastLogin',
-      header: 'Last Login',
+      header: _('Last Login'),
       sortable: true,
       render: (user) => {
         return user.lastLogin
           ? (
           <span className="text-sm">
-            {format(user.lastLogin, 'MMM dd, yyyy HH:mm')}
+            {formatDateTime(user.lastLogin)}
           </span>
             )
           : (
-          <span className="text-muted-foreground">Never</span>
+          <span className="text-muted-foreground">{_('Never')}</span>
             )
       }
     },
+    {
+      key: 'passwordExpires',
+      header: _('Password'),
+      sortable: true,
+      render: (user) => {
+        if (user.passwordNeverExpires) {
+          return <span className="text-muted-foreground">{_('Never expires')}</span>
+        }
+        if (user.passwordExpired) {
+          return (
+            <Badge variant="destructive" className="text-xs">
+              {user.mustChangePassword ? _('Must change') : _('Expired')}
+            </Badge>
+          )
+        }
+        if (!user.passwordExpires) {
+          return <span className="text-muted-foreground">-</span>
+        }
+
+        const days = daysUntil(user.passwordExpires)
+        return (
+          <span
+            className={days < 14 ? 'text-sm text-yellow-600 font-medium' : 'text-sm text-muted-foreground'}
+            title={formatDateTime(user.passwordExpires)}
+          >
+            {days === 0
+              ? _('Expires today')
+              : format(ngettext('Expires in $0 day', 'Expires in $0 days', days), days)}
+          </span>
+        )
+      }
+    },
     {
       key: 'accountExpires',
-      header: 'Expires',
+      header: _('Expires'),
       sortable: true,
       render: (user) => {
         if (!user.accountExpires) {
-          return <span className="text-muted-foreground">Never</span>
+          return <span className="text-muted-foreground">{_('Never')}</span>
         }
 
         const isExpired = user.accountExpires.getTime() < Date.now()
@@ -245,16 +329,16 @@ const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh })
                   ? 'text-yellow-600 font-medium'
                   : 'text-muted-foreground'
             }>
-              {format(user.accountExpires, 'MMM dd, yyyy')}
+              {formatDate(user.accountExpires)}
             </span>
             {isExpired && (
               <Badge variant="destructive" className="ml-2 text-xs">
-                Expired
+                {_('Expired')}
               </Badge>
             )}
             {!isExpired && isExpiringSoon && (
               <Badge variant="secondary" className="ml-2 text-xs bg-yellow-100 text-yellow-800">
-                Soon
+                {_('Soon')}
               </Badge>
             )}
           </div>
@@ -263,7 +347,7 @@ const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh })
     },
     {
       key: 'actions',
-      header: 'Actions',
+      header: _('Actions'),
       render: (user) => <UserActions user={user} onRefresh={onRefresh} />
     }
   ], [onRefresh])
@@ -272,22 +356,27 @@ const UserList: React.FC<UserListProps> = ({ users, loading, error, onRefresh })
     return (
       <ErrorAlert
         error={error}
-        title="Failed to load users"
+        title={_('Failed to load users')}
         onRetry={onRefresh}
-        retryLabel="Retry Loading"
+        retryLabel={_('Retry Loading')}
       />
     )
   }
 
   return (
-    <DataTable
-      data={users}
-      columns={columns}
-      loading={loading}
-      searchable
-      searchPlaceholder="Search users by username, name, or email..."
-      emptyMessage="No users found"
-    />
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <ExportUsersDialog filters={filters} />
+      </div>
+      <DataTable
+        data={users}
+        columns={columns}
+        loading={loading}
+        searchable
+        searchPlaceholder={_('Search users by username, name, or email...')}
+        emptyMessage={_('No users found')}
+      />
+    </div>
   )
 }
 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Move, Loader2, FolderTree } from 'lucide-react'
@@ -31,15 +31,19 @@ import {
   FormLabel,
   FormMessage
 } from '@/components/ui/form'
+import { CommandPreview } from '@/components/ui/command-preview'
 
 import { useUserMutations } from './hooks/useUserMutations'
+import { UserAPI } from '@/services/user-api'
+import type { PreviewScope } from '@/services/base-api'
 import { ErrorToast, SuccessToast } from '@/common'
 import type { SambaUser, SambaOrganizationalUnit } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 // Move user schema
 const moveUserSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
-  targetOU: z.string().min(1, 'Target Organizational Unit is required'),
+  username: z.string().min(1, _('Username is required')),
+  targetOU: z.string().min(1, _('Target Organizational Unit is required')),
   customOU: z.string().optional()
 }).refine((data) => {
   if (data.targetOU === 'custom' && !data.customOU?.trim()) {
@@ -47,7 +51,7 @@ const moveUserSchema = z.object({
   }
   return true
 }, {
-  message: 'Please specify the custom Organizational Unit path',
+  message: _('Please specify the custom Organizational Unit path'),
   path: ['customOU']
 })
 
@@ -62,13 +66,13 @@ interface MoveUserDialogProps {
 
 // Common organizational units in AD
 const COMMON_ORG_UNITS: SambaOrganizationalUnit[] = [
-  { name: 'Users', distinguishedName: 'CN=Users,DC=domain,DC=local', description: 'Default Users container', createdAt: new Date(), children: [] },
-  { name: 'Computers', distinguishedName: 'CN=Computers,DC=domain,DC=local', description: 'Default Computers container', createdAt: new Date(), children: [] },
-  { name: 'Domain Controllers', distinguishedName: 'OU=Domain Controllers,DC=domain,DC=local', description: 'Domain Controllers OU', createdAt: new Date(), children: [] },
-  { name: 'IT Department', distinguishedName: 'OU=IT,DC=domain,DC=local', description: 'IT Department OU', createdAt: new Date(), children: [] },
-  { name: 'Sales Department', distinguishedName: 'OU=Sales,DC=domain,DC=local', description: 'Sales Department OU', createdAt: new Date(), children: [] },
-  { name: 'HR Department', distinguishedName: 'OU=HR,DC=domain,DC=local', description: 'Human Resources OU', createdAt: new Date(), children: [] },
-  { name: 'Finance Department', distinguishedName: 'OU=Finance,DC=domain,DC=local', description: 'Finance Department OU', createdAt: new Date(), children: [] }
+  { name: 'Users', distinguishedName: 'CN=Users,DC=domain,DC=local', description: _('Default Users container'), createdAt: new Date(), children: [] },
+  { name: 'Computers', distinguishedName: 'CN=Computers,DC=domain,DC=local', description: _('Default Computers container'), createdAt: new Date(), children: [] },
+  { name: 'Domain Controllers', distinguishedName: 'OU=Domain Controllers,DC=domain,DC=local', description: _('Domain Controllers OU'), createdAt: new Date(), children: [] },
+  { name: _('IT Department'), distinguishedName: 'OU=IT,DC=domain,DC=local', description: _('IT Department OU'), createdAt: new Date(), children: [] },
+  { name: _('Sales Department'), distinguishedName: 'OU=Sales,DC=domain,DC=local', description: _('Sales Department OU'), createdAt: new Date(), children: [] },
+  { name: _('HR Department'), distinguishedName: 'OU=HR,DC=domain,DC=local', description: _('Human Resources OU'), createdAt: new Date(), children: [] },
+  { name: _('Finance Department'), distinguishedName: 'OU=Finance,DC=domain,DC=local', description: _('Finance Department OU'), createdAt: new Date(), children: [] }
 ]
 
 export default function MoveUserDialog ({
@@ -109,6 +113,13 @@ export default function MoveUserDialog ({
   })
 
   const watchedTargetOU = form.watch('targetOU')
+  const watchedCustomOU = form.watch('customOU')
+  const previewTargetOU = watchedTargetOU === 'custom' ? watchedCustomOU || '' : watchedTargetOU
+
+  const previewMove = useCallback(
+    (api: PreviewScope) => api(UserAPI).move(username, previewTargetOU),
+    [username, previewTargetOU]
+  )
 
   // Load available OUs from the domain (in a real implementation)
   useEffect(() => {
@@ -151,7 +162,7 @@ export default function MoveUserDialog ({
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage={`User "${username}" moved successfully to new organizational unit.`}
+                    successMessage={format(_('User "$0" moved successfully to new organizational unit.'), username)}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -161,7 +172,7 @@ export default function MoveUserDialog ({
                     {trigger || (
                         <Button variant="outline" size="sm">
                             <Move className="mr-2 h-4 w-4" />
-                            Move User
+                            {_('Move User')}
                         </Button>
                     )}
                 </DialogTrigger>
@@ -169,16 +180,16 @@ export default function MoveUserDialog ({
                     <DialogHeader>
                         <div className="flex items-center gap-2">
                             <FolderTree className="h-5 w-5 text-primary" />
-                            <DialogTitle>Move User to Organizational Unit</DialogTitle>
+                            <DialogTitle>{_('Move User to Organizational Unit')}</DialogTitle>
                         </div>
                         <DialogDescription asChild>
                             <div className="space-y-2">
                                 <p>
-                                    Move user <strong>"{displayName}"</strong> to a different Organizational Unit in Active Directory.
+                                    {_('Move user')}{' '}<strong>"{displayName}"</strong>{' '}{_('to a different Organizational Unit in Active Directory.')}
                                 </p>
                                 {user && currentOU && (
                                     <div className="text-sm text-muted-foreground bg-muted p-2 rounded">
-                                        <strong>Current location:</strong> {getOUDisplayName(currentOU)}
+                                        <strong>{_('Current location:')}</strong> {getOUDisplayName(currentOU)}
                                         <br />
                                         <span className="text-xs">{currentOU}</span>
                                     </div>
@@ -194,11 +205,11 @@ export default function MoveUserDialog ({
                                 name="username"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Username</FormLabel>
+                                        <FormLabel>{_('Username')}</FormLabel>
                                         <FormControl>
                                             <Input
                                                 {...field}
-                                                placeholder="Enter username"
+                                                placeholder={_('Enter username')}
                                                 disabled={!!user}
                                             />
                                         </FormControl>
@@ -212,11 +223,11 @@ export default function MoveUserDialog ({
                                 name="targetOU"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Target Organizational Unit</FormLabel>
+                                        <FormLabel>{_('Target Organizational Unit')}</FormLabel>
                                         <Select onValueChange={field.onChange} defaultValue={field.value}>
                                             <FormControl>
                                                 <SelectTrigger>
-                                                    <SelectValue placeholder="Select target Organizational Unit" />
+                                                    <SelectValue placeholder={_('Select target Organizational Unit')} />
                                                 </SelectTrigger>
                                             </FormControl>
                                             <SelectContent>
@@ -236,16 +247,16 @@ export default function MoveUserDialog ({
                                                 ))}
                                                 <SelectItem value="custom">
                                                     <div className="flex flex-col">
-                                                        <span>Custom OU Path...</span>
+                                                        <span>{_('Custom OU Path...')}</span>
                                                         <span className="text-xs text-muted-foreground">
-                                                            Specify a custom Organizational Unit
+                                                            {_('Specify a custom Organizational Unit')}
                                                         </span>
                                                     </div>
                                                 </SelectItem>
                                             </SelectContent>
                                         </Select>
                                         <FormDescription>
-                                            Choose the destination Organizational Unit for this user
+                                            {_('Choose the destination Organizational Unit for this user')}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
@@ -258,7 +269,7 @@ export default function MoveUserDialog ({
                                     name="customOU"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>Custom OU Path</FormLabel>
+                                            <FormLabel>{_('Custom OU Path')}</FormLabel>
                                             <FormControl>
                                                 <Input
                                                     {...field}
@@ -266,7 +277,7 @@ export default function MoveUserDialog ({
                                                 />
                                             </FormControl>
                                             <FormDescription>
-                                                Enter the full Distinguished Name (DN) of the target OU
+                                                {_('Enter the full Distinguished Name (DN) of the target OU')}
                                             </FormDescription>
                                             <FormMessage />
                                         </FormItem>
@@ -274,17 +285,19 @@ export default function MoveUserDialog ({
                                 />
                             )}
 
+                            <CommandPreview operation={previewMove} disabled={!username || !previewTargetOU} />
+
                             <DialogFooter>
                                 <Button
                                     type="button"
                                     variant="outline"
                                     onClick={() => handleOpenChange(false)}
                                 >
-                                    Cancel
+                                    {_('Cancel')}
                                 </Button>
                                 <Button type="submit" disabled={moving}>
                                     {moving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                    Move User
+                                    {_('Move User')}
                                 </Button>
                             </DialogFooter>
                         </form>
@@ -0,0 +1,330 @@
+import React, { useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2, RotateCcw, UserMinus } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { ErrorAlert } from '@/components/ui/error-alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+
+import { OffboardAPI } from '@/services/offboard-api'
+import { OFFBOARD_STEPS, defaultLeaversOU, revertableSteps } from '@/services/offboard'
+import { useOffboardRecords } from './hooks/useOffboardRecords'
+import type { OffboardRecord, OffboardStep, OffboardStepResult, SambaUser } from '@/types/samba'
+import { _, format, formatDateTime } from '@/lib/i18n'
+
+interface OffboardUserDialogProps {
+    user: SambaUser;
+    onOffboarded?: () => void;
+    trigger?: React.ReactNode;
+}
+
+const STATUS_LABELS: Record<OffboardStepResult['status'], string> = {
+  done: _('Done'),
+  failed: _('Failed'),
+  skipped: _('Skipped')
+}
+
+const stepLabel = (step: OffboardStep): string =>
+  _(OFFBOARD_STEPS.find(entry => entry.step === step)?.label || step)
+
+export default function OffboardUserDialog ({ user, onOffboarded, trigger }: OffboardUserDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [steps, setSteps] = useState<OffboardStep[]>(OFFBOARD_STEPS.map(({ step }) => step))
+  const [leaversOU, setLeaversOU] = useState(() => defaultLeaversOU(user.distinguishedName))
+  const [ticket, setTicket] = useState('')
+  const [phase, setPhase] = useState<'plan' | 'running' | 'done'>('plan')
+  const [planned, setPlanned] = useState<OffboardStep[]>([])
+  const [results, setResults] = useState<OffboardStepResult[]>([])
+  const [confirming, setConfirming] = useState(false)
+  const [reverting, setReverting] = useState<OffboardRecord | null>(null)
+
+  const { records, error: recordsError, refresh: refreshRecords } = useOffboardRecords(user.username, isOpen)
+
+  const toggleStep = (step: OffboardStep, checked: boolean) => {
+    setSteps(prev => checked ? [...prev, step] : prev.filter(other => other !== step))
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (phase === 'running') return
+
+    setIsOpen(open)
+    if (!open) {
+      setPhase('plan')
+      setResults([])
+      setTicket('')
+    }
+  }
+
+  const execute = async (order: OffboardStep[], action: (onResult: (result: OffboardStepResult) => void) => Promise<unknown>) => {
+    setPlanned(order)
+    setResults([])
+    setPhase('running')
+
+    const onResult = (result: OffboardStepResult) => setResults(prev => [...prev, result])
+    try {
+      await action(onResult)
+    } catch (err) {
+      toast.error((err as Error).message)
+    } finally {
+      setPhase('done')
+      refreshRecords()
+      onOffboarded?.()
+    }
+  }
+
+  const offboard = () => {
+    setConfirming(false)
+    const order = OFFBOARD_STEPS.map(({ step }) => step).filter(step => steps.includes(step))
+    execute(order, async (onResult) => {
+      const record = await OffboardAPI.offboard(user.username, { steps: order, leaversOU, ticket }, { onResult })
+      const failed = record.results.filter(result => result.status === 'failed').length
+      if (failed) {
+        toast.error(format(_('Offboarding of $0 finished with errors'), user.username))
+      } else {
+        toast.success(format(_('$0 was offboarded'), user.username))
+      }
+    })
+  }
+
+  const revert = () => {
+    if (!reverting) return
+
+    const record = reverting
+    setReverting(null)
+    execute(revertableSteps(record), async (onResult) => {
+      const reverted = await OffboardAPI.revert(record.id, { onResult })
+      if (reverted.revertedAt) {
+        toast.success(format(_('The offboarding of $0 was reverted'), user.username))
+      } else {
+        toast.error(format(_('The offboarding of $0 was not fully reverted; revert it again to retry the failed steps'), user.username))
+      }
+    })
+  }
+
+  const describeResults = (record: OffboardRecord): string =>
+    record.results
+      .filter(result => result.status === 'done')
+      .map(result => stepLabel(result.step))
+      .join(', ') || _('Nothing was changed')
+
+  return (
+        <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline">
+                        <UserMinus className="mr-2 h-4 w-4" />
+                        {_('Offboard')}
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{format(_('Offboard $0'), user.displayName || user.username)}</DialogTitle>
+                    <DialogDescription>
+                        {_('Lock a departing user out of the domain in one pass. The current state is recorded first, so everything but the password can be reverted.')}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {phase === 'plan'
+                  ? (
+                    <div className="space-y-6">
+                        <div className="space-y-3">
+                            {OFFBOARD_STEPS.map(({ step, label, description }) => (
+                                <div key={step} className="flex items-start gap-3">
+                                    <Checkbox
+                                        id={`offboard-${step}`}
+                                        checked={steps.includes(step)}
+                                        onCheckedChange={(checked) => toggleStep(step, checked === true)}
+                                    />
+                                    <div className="space-y-1 leading-none">
+                                        <Label htmlFor={`offboard-${step}`}>{_(label)}</Label>
+                                        <p className="text-sm text-muted-foreground">{_(description)}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="offboard-ou">{_('Leavers OU')}</Label>
+                                <Input
+                                    id="offboard-ou"
+                                    value={leaversOU}
+                                    disabled={!steps.includes('move')}
+                                    onChange={(e) => setLeaversOU(e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="offboard-ticket">{_('Ticket Number')}</Label>
+                                <Input
+                                    id="offboard-ticket"
+                                    placeholder={_('e.g. INC-1234')}
+                                    value={ticket}
+                                    disabled={!steps.includes('description')}
+                                    onChange={(e) => setTicket(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        {recordsError && (
+                            <ErrorAlert
+                                error={recordsError}
+                                title={_('Failed to load offboarding records')}
+                                onRetry={refreshRecords}
+                                retryLabel={_('Retry')}
+                            />
+                        )}
+
+                        {records.length > 0 && (
+                            <div className="space-y-2">
+                                <h4 className="text-sm font-medium">{_('Previous Offboardings')}</h4>
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>{_('When')}</TableHead>
+                                            <TableHead>{_('By')}</TableHead>
+                                            <TableHead>{_('Changed')}</TableHead>
+                                            <TableHead className="w-32" />
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {records.map(record => (
+                                            <TableRow key={record.id}>
+                                                <TableCell className="text-sm whitespace-nowrap">
+                                                    {formatDateTime(new Date(record.offboardedAt))}
+                                                    {record.ticket && <div className="text-muted-foreground">{record.ticket}</div>}
+                                                </TableCell>
+                                                <TableCell className="text-sm">{record.offboardedBy}</TableCell>
+                                                <TableCell className="text-sm">{describeResults(record)}</TableCell>
+                                                <TableCell className="text-right">
+                                                    {record.revertedAt
+                                                      ? (
+                                                        <Badge variant="secondary" title={format(_('By $0'), record.revertedBy || '')}>
+                                                            {format(_('Reverted $0'), formatDateTime(new Date(record.revertedAt)))}
+                                                        </Badge>
+                                                        )
+                                                      : (
+                                                        <Button variant="outline" size="sm" onClick={() => setReverting(record)}>
+                                                            <RotateCcw className="mr-2 h-4 w-4" />
+                                                            {record.revertResults ? _('Retry Revert') : _('Revert')}
+                                                        </Button>
+                                                        )}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                    </div>
+                    )
+                  : (
+                    <div className="space-y-4">
+                        <Progress value={planned.length ? (results.length / planned.length) * 100 : 100} />
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>{_('Step')}</TableHead>
+                                    <TableHead>{_('Result')}</TableHead>
+                                    <TableHead>{_('Details')}</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {planned.map(step => {
+                                  const result = results.find(entry => entry.step === step)
+                                  return (
+                                        <TableRow key={step}>
+                                            <TableCell className="font-medium">{stepLabel(step)}</TableCell>
+                                            <TableCell>
+                                                {result
+                                                  ? (
+                                                    <Badge variant={result.status === 'failed' ? 'destructive' : result.status === 'done' ? 'default' : 'secondary'}>
+                                                        {STATUS_LABELS[result.status]}
+                                                    </Badge>
+                                                    )
+                                                  : phase === 'running'
+                                                    ? <Loader2 className="h-4 w-4 animate-spin" />
+                                                    : <Badge variant="outline">{_('Not run')}</Badge>}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">{result?.message}</TableCell>
+                                        </TableRow>
+                                  )
+                                })}
+                            </TableBody>
+                        </Table>
+                    </div>
+                    )}
+
+                <DialogFooter>
+                    {phase === 'plan'
+                      ? (
+                        <>
+                            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                                {_('Cancel')}
+                            </Button>
+                            <Button
+                                variant="destructive"
+                                disabled={steps.length === 0 || (steps.includes('move') && !leaversOU.trim())}
+                                onClick={() => setConfirming(true)}
+                            >
+                                <UserMinus className="mr-2 h-4 w-4" />
+                                {_('Offboard')}
+                            </Button>
+                        </>
+                        )
+                      : (
+                        <Button onClick={() => handleOpenChange(false)} disabled={phase === 'running'}>
+                            {phase === 'running' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {_('Close')}
+                        </Button>
+                        )}
+                </DialogFooter>
+
+                <ConfirmDialog
+                    isOpen={confirming}
+                    title={format(_('Offboard $0'), user.username)}
+                    message={steps.includes('password')
+                      ? _('The selected steps run now. The password is replaced by a random one, which cannot be reverted.')
+                      : _('The selected steps run now.')}
+                    confirmLabel={_('Offboard')}
+                    variant="destructive"
+                    onConfirm={offboard}
+                    onCancel={() => setConfirming(false)}
+                />
+                <ConfirmDialog
+                    isOpen={!!reverting}
+                    title={_('Revert Offboarding')}
+                    message={reverting?.revertResults
+                      ? format(_('Undo the steps of the offboarding of $0 that could not be reverted last time?'), user.username)
+                      : format(_('Undo the steps that succeeded or were carried out in part when $0 was offboarded? The random password stays; set a new one before the user logs on again.'), user.username)}
+                    confirmLabel={_('Revert')}
+                    variant="warning"
+                    onConfirm={revert}
+                    onCancel={() => setReverting(null)}
+                />
+            </DialogContent>
+        </Dialog>
+  )
+}
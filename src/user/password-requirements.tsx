@@ -0,0 +1,53 @@
+import React from 'react'
+import { Check, X } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import { checkPassword, type PasswordIdentity, type PasswordRules } from '@/lib/password'
+import { _, format } from '@/lib/i18n'
+
+interface PasswordRequirementsProps {
+  password: string;
+  rules: PasswordRules;
+  identity?: PasswordIdentity;
+  /**
+   * The PSO the rules come from, if any
+   */
+  pso?: string;
+  /**
+   * False when the rules are Samba's defaults because the policy could not be read
+   */
+  loaded?: boolean;
+}
+
+/**
+ * Checklist of the password policy, updated as the password is typed
+ */
+export default function PasswordRequirements ({ password, rules, identity, pso, loaded = true }: PasswordRequirementsProps) {
+  const checks = checkPassword(password, rules, identity)
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="text-muted-foreground">
+        {!loaded
+          ? _('Default requirements; the domain policy could not be read:')
+          : pso
+            ? format(_('Required by password settings object "$0":'), pso)
+            : _('Required by the domain password policy:')}
+      </p>
+      {checks.length === 0 && (
+        <p className="text-muted-foreground">{_('Any password is accepted.')}</p>
+      )}
+      <ul className="space-y-0.5">
+        {checks.map(check => (
+          <li
+            key={check.id}
+            className={cn('flex items-center gap-1.5', !password ? 'text-muted-foreground' : check.passed ? 'text-green-600' : 'text-destructive')}
+          >
+            {password && check.passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {check.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { Key, Loader2, Eye, EyeOff, Shield } from 'lucide-react'
+import { Key, Loader2, Eye, EyeOff, Shield, Wand2 } from 'lucide-react'
 import { z } from 'zod'
 
 import { Button } from '@/components/ui/button'
@@ -27,28 +27,29 @@ import {
 } from '@/components/ui/form'
 
 import { useUserMutations } from './hooks/useUserMutations'
+import { usePasswordRules } from './hooks/usePasswordRules'
+import PasswordRequirements from './password-requirements'
 import { ErrorToast, SuccessToast } from '@/common'
-import { ValidationHelper } from '@/lib/validation'
+import { ValidationHelper, passwordSchema, refinePassword } from '@/lib/validation'
+import { generatePassword, type PasswordIdentity, type PasswordRules } from '@/lib/password'
 import type { SambaUser } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
-// Password change schema
-const changePasswordSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
-  currentPassword: z.string().min(1, 'Current password is required'),
-  newPassword: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])/,
-      'Password must contain uppercase, lowercase, number, and special character'
-    ),
-  confirmPassword: z.string().min(1, 'Please confirm your password'),
+// Password change schema; the new password is checked against the account's policy
+const changePasswordSchema = (rules: PasswordRules, identity: PasswordIdentity, mode: 'self' | 'admin') => z.object({
+  username: z.string().min(1, _('Username is required')),
+  currentPassword: mode === 'self' ? z.string().min(1, _('Current password is required')) : z.string(),
+  newPassword: passwordSchema,
+  confirmPassword: z.string().min(1, _('Please confirm your password')),
   mustChangeAtNextLogin: z.boolean().default(false)
-}).refine((data) => data.newPassword === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ['confirmPassword']
+}).superRefine((data, context) => {
+  refinePassword(data.newPassword, rules, { ...identity, username: data.username }, context, ['newPassword'])
+  if (data.newPassword !== data.confirmPassword) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: _("Passwords don't match"), path: ['confirmPassword'] })
+  }
 })
 
-type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+type ChangePasswordFormData = z.infer<ReturnType<typeof changePasswordSchema>>;
 
 interface ChangePasswordDialogProps {
     user?: SambaUser;
@@ -77,8 +78,14 @@ export default function ChangePasswordDialog ({
   const username = user?.username || propUsername || ''
   const displayName = user?.displayName || user?.username || username
 
+  const policy = usePasswordRules(username || undefined, isOpen)
+  const schema = useMemo(
+    () => changePasswordSchema(policy.rules, { displayName: user?.displayName }, mode),
+    [policy.rules, user?.displayName, mode]
+  )
+
   const form = useForm<ChangePasswordFormData>({
-    resolver: zodResolver(changePasswordSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       username,
       currentPassword: '',
@@ -103,6 +110,14 @@ export default function ChangePasswordDialog ({
   })
 
   const watchedNewPassword = form.watch('newPassword')
+  const watchedUsername = form.watch('username')
+
+  const fillPassword = () => {
+    const generated = generatePassword(policy.rules, { username: watchedUsername, displayName: user?.displayName })
+    form.setValue('newPassword', generated, { shouldValidate: true })
+    form.setValue('confirmPassword', generated, { shouldValidate: true })
+    setShowPasswords(prev => ({ ...prev, new: true }))
+  }
 
   // Update password strength when new password changes
   React.useEffect(() => {
@@ -147,10 +162,10 @@ export default function ChangePasswordDialog ({
   }
 
   const getPasswordStrengthLabel = (score: number) => {
-    if (score <= 2) return 'Weak'
-    if (score <= 4) return 'Fair'
-    if (score <= 5) return 'Good'
-    return 'Strong'
+    if (score <= 2) return _('Weak')
+    if (score <= 4) return _('Fair')
+    if (score <= 5) return _('Good')
+    return _('Strong')
   }
 
   return (
@@ -163,7 +178,7 @@ export default function ChangePasswordDialog ({
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage={`Password changed successfully for "${username}".`}
+                    successMessage={format(_('Password changed successfully for "$0".'), username)}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -173,7 +188,7 @@ export default function ChangePasswordDialog ({
                     {trigger || (
                         <Button variant="outline" size="sm">
                             <Key className="mr-2 h-4 w-4" />
-                            Change Password
+                            {_('Change Password')}
                         </Button>
                     )}
                 </DialogTrigger>
@@ -181,12 +196,12 @@ export default function ChangePasswordDialog ({
                     <DialogHeader>
                         <div className="flex items-center gap-2">
                             <Shield className="h-5 w-5 text-primary" />
-                            <DialogTitle>Change Password</DialogTitle>
+                            <DialogTitle>{_('Change Password')}</DialogTitle>
                         </div>
                         <DialogDescription>
                             {mode === 'self'
-                              ? 'Change your account password. Your new password must be strong and secure.'
-                              : `Change the password for user "${displayName}". The new password must meet security requirements.`
+                              ? _('Change your account password. Your new password must be strong and secure.')
+                              : format(_('Change the password for user "$0". The new password must meet security requirements.'), displayName)
                             }
                         </DialogDescription>
                     </DialogHeader>
@@ -199,11 +214,11 @@ export default function ChangePasswordDialog ({
                                     name="username"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>Username</FormLabel>
+                                            <FormLabel>{_('Username')}</FormLabel>
                                             <FormControl>
                                                 <Input
                                                     {...field}
-                                                    placeholder="Enter username"
+                                                    placeholder={_('Enter username')}
                                                     disabled={!!user}
                                                 />
                                             </FormControl>
@@ -219,13 +234,13 @@ export default function ChangePasswordDialog ({
                                     name="currentPassword"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>Current Password</FormLabel>
+                                            <FormLabel>{_('Current Password')}</FormLabel>
                                             <FormControl>
                                                 <div className="relative">
                                                     <Input
                                                         {...field}
                                                         type={showPasswords.current ? 'text' : 'password'}
-                                                        placeholder="Enter current password"
+                                                        placeholder={_('Enter current password')}
                                                     />
                                                     <Button
                                                         type="button"
@@ -255,13 +270,19 @@ export default function ChangePasswordDialog ({
                                 name="newPassword"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>New Password</FormLabel>
+                                        <div className="flex items-center justify-between">
+                                            <FormLabel>{_('New Password')}</FormLabel>
+                                            <Button type="button" variant="ghost" size="sm" className="h-auto px-2 py-0" onClick={fillPassword}>
+                                                <Wand2 className="mr-1 h-3 w-3" />
+                                                {_('Generate')}
+                                            </Button>
+                                        </div>
                                         <FormControl>
                                             <div className="relative">
                                                 <Input
                                                     {...field}
                                                     type={showPasswords.new ? 'text' : 'password'}
-                                                    placeholder="Enter new password"
+                                                    placeholder={_('Enter new password')}
                                                 />
                                                 <Button
                                                     type="button"
@@ -295,14 +316,15 @@ export default function ChangePasswordDialog ({
                                                         {getPasswordStrengthLabel(passwordStrength.score)}
                                                     </span>
                                                 </div>
-                                                {passwordStrength.feedback.length > 0 && (
-                                                    <div className="text-xs text-muted-foreground">
-                                                        <span className="font-medium">Suggestions: </span>
-                                                        {passwordStrength.feedback.join(', ')}
-                                                    </div>
-                                                )}
                                             </div>
                                         )}
+                                        <PasswordRequirements
+                                            password={watchedNewPassword}
+                                            rules={policy.rules}
+                                            identity={{ username: watchedUsername, displayName: user?.displayName }}
+                                            pso={policy.pso}
+                                            loaded={policy.loaded}
+                                        />
                                         <FormMessage />
                                     </FormItem>
                                 )}
@@ -313,13 +335,13 @@ export default function ChangePasswordDialog ({
                                 name="confirmPassword"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Confirm New Password</FormLabel>
+                                        <FormLabel>{_('Confirm New Password')}</FormLabel>
                                         <FormControl>
                                             <div className="relative">
                                                 <Input
                                                     {...field}
                                                     type={showPasswords.confirm ? 'text' : 'password'}
-                                                    placeholder="Confirm new password"
+                                                    placeholder={_('Confirm new password')}
                                                 />
                                                 <Button
                                                     type="button"
@@ -356,9 +378,9 @@ export default function ChangePasswordDialog ({
                                                 />
                                             </FormControl>
                                             <div className="space-y-1 leading-none">
-                                                <FormLabel>Require password change at next login</FormLabel>
+                                                <FormLabel>{_('Require password change at next login')}</FormLabel>
                                                 <FormDescription>
-                                                    Force the user to change their password when they next log in
+                                                    {_('Force the user to change their password when they next log in')}
                                                 </FormDescription>
                                             </div>
                                         </FormItem>
@@ -372,14 +394,14 @@ export default function ChangePasswordDialog ({
                                     variant="outline"
                                     onClick={() => handleOpenChange(false)}
                                 >
-                                    Cancel
+                                    {_('Cancel')}
                                 </Button>
                                 <Button
                                     type="submit"
-                                    disabled={changingPassword || !passwordStrength.isStrong}
+                                    disabled={changingPassword}
                                 >
                                     {changingPassword && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                    Change Password
+                                    {_('Change Password')}
                                 </Button>
                             </DialogFooter>
                         </form>
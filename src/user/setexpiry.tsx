@@ -29,10 +29,11 @@ import {
 import { useUserMutations } from './hooks/useUserMutations'
 import { ErrorToast, SuccessToast } from '@/common'
 import type { SambaUser } from '@/types/samba'
+import { _, format, formatDateTime } from '@/lib/i18n'
 
 // Account expiry schema
 const setExpirySchema = z.object({
-  username: z.string().min(1, 'Username is required'),
+  username: z.string().min(1, _('Username is required')),
   neverExpires: z.boolean().default(false),
   expiryDate: z.string().optional(),
   daysFromNow: z.string().optional()
@@ -45,7 +46,7 @@ const setExpirySchema = z.object({
   }
   return true
 }, {
-  message: 'Please set an expiry date, days from now, or select never expires',
+  message: _('Please set an expiry date, days from now, or select never expires'),
   path: ['expiryDate']
 })
 
@@ -143,14 +144,8 @@ export default function SetExpiryDialog ({
   }
 
   const formatCurrentExpiry = () => {
-    if (!user?.accountExpires) return 'Never expires'
-    return new Intl.DateTimeFormat('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    }).format(user.accountExpires)
+    if (!user?.accountExpires) return _('Never expires')
+    return formatDateTime(user.accountExpires)
   }
 
   return (
@@ -163,7 +158,7 @@ export default function SetExpiryDialog ({
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage={`Account expiry updated successfully for "${username}".`}
+                    successMessage={format(_('Account expiry updated successfully for "$0".'), username)}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -173,7 +168,7 @@ export default function SetExpiryDialog ({
                     {trigger || (
                         <Button variant="outline" size="sm">
                             <Calendar className="mr-2 h-4 w-4" />
-                            Set Expiry
+                            {_('Set Expiry')}
                         </Button>
                     )}
                 </DialogTrigger>
@@ -181,16 +176,16 @@ export default function SetExpiryDialog ({
                     <DialogHeader>
                         <div className="flex items-center gap-2">
                             <Clock className="h-5 w-5 text-primary" />
-                            <DialogTitle>Set Account Expiry</DialogTitle>
+                            <DialogTitle>{_('Set Account Expiry')}</DialogTitle>
                         </div>
                         <DialogDescription asChild>
                             <div className="space-y-2">
                                 <p>
-                                    Configure the account expiration for user <strong>"{displayName}"</strong>.
+                                    {_('Configure the account expiration for user')}{' '}<strong>"{displayName}"</strong>.
                                 </p>
                                 {user && (
                                     <div className="text-sm text-muted-foreground bg-muted p-2 rounded">
-                                        <strong>Current expiry:</strong> {formatCurrentExpiry()}
+                                        <strong>{_('Current expiry:')}</strong> {formatCurrentExpiry()}
                                     </div>
                                 )}
                             </div>
@@ -204,11 +199,11 @@ export default function SetExpiryDialog ({
                                 name="username"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>Username</FormLabel>
+                                        <FormLabel>{_('Username')}</FormLabel>
                                         <FormControl>
                                             <Input
                                                 {...field}
-                                                placeholder="Enter username"
+                                                placeholder={_('Enter username')}
                                                 disabled={!!user}
                                             />
                                         </FormControl>
@@ -218,7 +213,7 @@ export default function SetExpiryDialog ({
                             />
 
                             <div className="space-y-4">
-                                <FormLabel>Expiry Settings</FormLabel>
+                                <FormLabel>{_('Expiry Settings')}</FormLabel>
 
                                 {/* Never Expires Option */}
                                 <FormField
@@ -236,9 +231,9 @@ export default function SetExpiryDialog ({
                                                 />
                                             </FormControl>
                                             <div className="space-y-1 leading-none">
-                                                <FormLabel>Account never expires</FormLabel>
+                                                <FormLabel>{_('Account never expires')}</FormLabel>
                                                 <FormDescription>
-                                                    The account will remain active indefinitely
+                                                    {_('The account will remain active indefinitely')}
                                                 </FormDescription>
                                             </div>
                                         </FormItem>
@@ -255,7 +250,7 @@ export default function SetExpiryDialog ({
                                                 size="sm"
                                                 onClick={() => handleModeChange('date')}
                                             >
-                                                Specific Date
+                                                {_('Specific Date')}
                                             </Button>
                                             <Button
                                                 type="button"
@@ -263,7 +258,7 @@ export default function SetExpiryDialog ({
                                                 size="sm"
                                                 onClick={() => handleModeChange('days')}
                                             >
-                                                Days from Now
+                                                {_('Days from Now')}
                                             </Button>
                                         </div>
 
@@ -273,7 +268,7 @@ export default function SetExpiryDialog ({
                                                 name="expiryDate"
                                                 render={({ field }) => (
                                                     <FormItem>
-                                                        <FormLabel>Expiry Date</FormLabel>
+                                                        <FormLabel>{_('Expiry Date')}</FormLabel>
                                                         <FormControl>
                                                             <Input
                                                                 {...field}
@@ -282,7 +277,7 @@ export default function SetExpiryDialog ({
                                                             />
                                                         </FormControl>
                                                         <FormDescription>
-                                                            Select the exact date and time when the account should expire
+                                                            {_('Select the exact date and time when the account should expire')}
                                                         </FormDescription>
                                                         <FormMessage />
                                                     </FormItem>
@@ -296,17 +291,17 @@ export default function SetExpiryDialog ({
                                                 name="daysFromNow"
                                                 render={({ field }) => (
                                                     <FormItem>
-                                                        <FormLabel>Days from Now</FormLabel>
+                                                        <FormLabel>{_('Days from Now')}</FormLabel>
                                                         <FormControl>
                                                             <Input
                                                                 {...field}
                                                                 type="number"
                                                                 min="1"
-                                                                placeholder="Enter number of days"
+                                                                placeholder={_('Enter number of days')}
                                                             />
                                                         </FormControl>
                                                         <FormDescription>
-                                                            Number of days from today when the account should expire
+                                                            {_('Number of days from today when the account should expire')}
                                                         </FormDescription>
                                                         <FormMessage />
                                                     </FormItem>
@@ -323,11 +318,11 @@ export default function SetExpiryDialog ({
                                     variant="outline"
                                     onClick={() => handleOpenChange(false)}
                                 >
-                                    Cancel
+                                    {_('Cancel')}
                                 </Button>
                                 <Button type="submit" disabled={updating}>
                                     {updating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                    Update Expiry
+                                    {_('Update Expiry')}
                                 </Button>
                             </DialogFooter>
                         </form>
@@ -1,5 +1,5 @@
 import React, { useState } from 'react'
-import { Eye, User, Mail, Calendar, Shield, Users, MapPin, FileText, Clock } from 'lucide-react'
+import { Eye, User, Mail, Calendar, Shield, Users, MapPin, FileText, Clock, Building2, Phone, Lock } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import {
@@ -14,10 +14,15 @@ import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
+import { AccountControlPanel } from '@/components/ui/account-control-panel'
 
 import { useUser } from './hooks/useUsers'
+import EditUserDialog from './edit'
+import UnlockUserDialog from './unlock'
+import OffboardUserDialog from './offboard'
 import { RenderError } from '@/common'
 import type { SambaUser } from '@/types/samba'
+import { _, format, formatDateTime } from '@/lib/i18n'
 
 interface UserDetailsDialogProps {
     user?: SambaUser;
@@ -27,18 +32,13 @@ interface UserDetailsDialogProps {
 
 interface UserDetailsViewProps {
     user: SambaUser;
+    onChanged?: () => void;
 }
 
-const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
+const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user, onChanged }) => {
   const formatDate = (date?: Date) => {
-    if (!date) return 'Never'
-    return new Intl.DateTimeFormat('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    }).format(date)
+    if (!date) return _('Never')
+    return formatDateTime(date)
   }
 
   return (
@@ -58,9 +58,15 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                                 <p className="text-sm text-muted-foreground">@{user.username}</p>
                             )}
                         </div>
-                        <div className="ml-auto">
+                        <div className="ml-auto flex items-center gap-2">
+                            {user.locked && (
+                                <Badge variant="destructive">
+                                    <Lock className="mr-1 h-3 w-3" />
+                                    {_('Locked')}
+                                </Badge>
+                            )}
                             <Badge variant={user.enabled ? 'default' : 'destructive'}>
-                                {user.enabled ? 'Enabled' : 'Disabled'}
+                                {user.enabled ? _('Enabled') : _('Disabled')}
                             </Badge>
                         </div>
                     </div>
@@ -73,25 +79,25 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                     <CardHeader>
                         <CardTitle className="flex items-center gap-2 text-base">
                             <User className="h-4 w-4" />
-                            Personal Information
+                            {_('Personal Information')}
                         </CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-3">
                         {user.firstName && (
                             <div>
-                                <Label className="text-xs font-medium text-muted-foreground">FIRST NAME</Label>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('FIRST NAME')}</Label>
                                 <p className="text-sm">{user.firstName}</p>
                             </div>
                         )}
                         {user.lastName && (
                             <div>
-                                <Label className="text-xs font-medium text-muted-foreground">LAST NAME</Label>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('LAST NAME')}</Label>
                                 <p className="text-sm">{user.lastName}</p>
                             </div>
                         )}
                         {user.email && (
                             <div>
-                                <Label className="text-xs font-medium text-muted-foreground">EMAIL</Label>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('EMAIL')}</Label>
                                 <div className="flex items-center gap-2">
                                     <Mail className="h-4 w-4 text-muted-foreground" />
                                     <p className="text-sm">{user.email}</p>
@@ -100,7 +106,7 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                         )}
                         {user.description && (
                             <div>
-                                <Label className="text-xs font-medium text-muted-foreground">DESCRIPTION</Label>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('DESCRIPTION')}</Label>
                                 <p className="text-sm">{user.description}</p>
                             </div>
                         )}
@@ -112,24 +118,45 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                     <CardHeader>
                         <CardTitle className="flex items-center gap-2 text-base">
                             <Shield className="h-4 w-4" />
-                            Account Status
+                            {_('Account Status')}
                         </CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-3">
                         <div>
-                            <Label className="text-xs font-medium text-muted-foreground">STATUS</Label>
+                            <Label className="text-xs font-medium text-muted-foreground">{_('STATUS')}</Label>
                             <p className="text-sm font-medium">
                                 {user.enabled
                                   ? (
-                                    <span className="text-green-600">Active</span>
+                                    <span className="text-green-600">{_('Active')}</span>
                                     )
                                   : (
-                                    <span className="text-red-600">Disabled</span>
+                                    <span className="text-red-600">{_('Disabled')}</span>
                                     )}
                             </p>
                         </div>
+                        {user.locked && (
+                            <div className="flex items-start justify-between gap-2">
+                                <div>
+                                    <Label className="text-xs font-medium text-muted-foreground">{_('LOCKED OUT')}</Label>
+                                    <p className="text-sm text-red-600">
+                                        {user.lockoutTime ? formatDate(user.lockoutTime) : _('Yes')}
+                                    </p>
+                                </div>
+                                <UnlockUserDialog user={user} onUserUnlocked={() => onChanged?.()} />
+                            </div>
+                        )}
+                        {(user.badPasswordCount ?? 0) > 0 && (
+                            <div>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('BAD PASSWORD ATTEMPTS')}</Label>
+                                <p className="text-sm">
+                                    {user.lastBadPassword
+                                      ? format(_('$0, last on $1'), user.badPasswordCount, formatDate(user.lastBadPassword))
+                                      : user.badPasswordCount}
+                                </p>
+                            </div>
+                        )}
                         <div>
-                            <Label className="text-xs font-medium text-muted-foreground">CREATED</Label>
+                            <Label className="text-xs font-medium text-muted-foreground">{_('CREATED')}</Label>
                             <div className="flex items-center gap-2">
                                 <Calendar className="h-4 w-4 text-muted-foreground" />
                                 <p className="text-sm">{formatDate(user.createdAt)}</p>
@@ -137,16 +164,31 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                         </div>
                         {user.lastLogin && (
                             <div>
-                                <Label className="text-xs font-medium text-muted-foreground">LAST LOGIN</Label>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('LAST LOGIN')}</Label>
                                 <div className="flex items-center gap-2">
                                     <Clock className="h-4 w-4 text-muted-foreground" />
                                     <p className="text-sm">{formatDate(user.lastLogin)}</p>
                                 </div>
                             </div>
                         )}
+                        {(user.passwordExpires || user.passwordNeverExpires || user.mustChangePassword) && (
+                            <div>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('PASSWORD EXPIRES')}</Label>
+                                <div className="flex items-center gap-2">
+                                    <Lock className="h-4 w-4 text-muted-foreground" />
+                                    <p className={user.passwordExpired ? 'text-sm text-destructive' : 'text-sm'}>
+                                        {user.passwordNeverExpires
+                                          ? _('Never')
+                                          : user.mustChangePassword
+                                            ? _('Must be changed at next logon')
+                                            : formatDate(user.passwordExpires)}
+                                    </p>
+                                </div>
+                            </div>
+                        )}
                         {user.accountExpires && (
                             <div>
-                                <Label className="text-xs font-medium text-muted-foreground">EXPIRES</Label>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('EXPIRES')}</Label>
                                 <div className="flex items-center gap-2">
                                     <Calendar className="h-4 w-4 text-muted-foreground" />
                                     <p className="text-sm">{formatDate(user.accountExpires)}</p>
@@ -156,13 +198,59 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                     </CardContent>
                 </Card>
 
+                {/* Organization */}
+                {(user.title || user.department || user.company || user.office || user.telephoneNumber || user.manager) && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-base">
+                                <Building2 className="h-4 w-4" />
+                                {_('Organization')}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            {user.title && (
+                                <div>
+                                    <Label className="text-xs font-medium text-muted-foreground">{_('JOB TITLE')}</Label>
+                                    <p className="text-sm">{user.title}</p>
+                                </div>
+                            )}
+                            {(user.department || user.company) && (
+                                <div>
+                                    <Label className="text-xs font-medium text-muted-foreground">{_('DEPARTMENT')}</Label>
+                                    <p className="text-sm">{[user.department, user.company].filter(Boolean).join(', ')}</p>
+                                </div>
+                            )}
+                            {user.office && (
+                                <div>
+                                    <Label className="text-xs font-medium text-muted-foreground">{_('OFFICE')}</Label>
+                                    <p className="text-sm">{user.office}</p>
+                                </div>
+                            )}
+                            {user.telephoneNumber && (
+                                <div>
+                                    <Label className="text-xs font-medium text-muted-foreground">{_('TELEPHONE')}</Label>
+                                    <div className="flex items-center gap-2">
+                                        <Phone className="h-4 w-4 text-muted-foreground" />
+                                        <p className="text-sm">{user.telephoneNumber}</p>
+                                    </div>
+                                </div>
+                            )}
+                            {user.manager && (
+                                <div>
+                                    <Label className="text-xs font-medium text-muted-foreground">{_('MANAGER')}</Label>
+                                    <p className="text-sm">{user.manager.split(',')[0].replace(/^CN=/i, '')}</p>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+
                 {/* Groups */}
                 <Card>
                     <CardHeader>
                         <CardTitle className="flex items-center gap-2 text-base">
                             <Users className="h-4 w-4" />
-                            Group Memberships ({user.groups.length})
-                        </CardTitle>
+                            {format(_('Group Memberships ($0)'), user.groups.length)}</CardTitle>
                     </CardHeader>
                     <CardContent>
                         {user.groups.length > 0
@@ -176,7 +264,7 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                             </div>
                             )
                           : (
-                            <p className="text-sm text-muted-foreground">No group memberships</p>
+                            <p className="text-sm text-muted-foreground">{_('No group memberships')}</p>
                             )}
                     </CardContent>
                 </Card>
@@ -187,12 +275,12 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                         <CardHeader>
                             <CardTitle className="flex items-center gap-2 text-base">
                                 <MapPin className="h-4 w-4" />
-                                Location
+                                {_('Location')}
                             </CardTitle>
                         </CardHeader>
                         <CardContent>
                             <div>
-                                <Label className="text-xs font-medium text-muted-foreground">ORGANIZATIONAL UNIT</Label>
+                                <Label className="text-xs font-medium text-muted-foreground">{_('ORGANIZATIONAL UNIT')}</Label>
                                 <p className="text-sm font-mono text-muted-foreground break-all">
                                     {user.organizationalUnit}
                                 </p>
@@ -201,6 +289,8 @@ const UserDetailsView: React.FC<UserDetailsViewProps> = ({ user }) => {
                     </Card>
                 )}
             </div>
+
+            <AccountControlPanel kind="user" name={user.username} onChanged={onChanged} />
         </div>
   )
 }
@@ -269,7 +359,7 @@ export default function UserDetailsDialog ({ user, username: propUsername, trigg
                     error={error}
                     hideAlert={clearError}
                     alertVisible={!!error}
-                    title="Failed to Load User"
+                    title={_('Failed to Load User')}
                 />
       )
     }
@@ -278,10 +368,9 @@ export default function UserDetailsDialog ({ user, username: propUsername, trigg
       return (
                 <div className="text-center py-8">
                     <User className="mx-auto h-12 w-12 text-muted-foreground" />
-                    <h3 className="mt-2 text-sm font-medium text-muted-foreground">User not found</h3>
+                    <h3 className="mt-2 text-sm font-medium text-muted-foreground">{_('User not found')}</h3>
                     <p className="mt-1 text-sm text-muted-foreground">
-                        No user found with username "{selectedUsername}"
-                    </p>
+                        {format(_('No user found with username "$0"'), selectedUsername)}</p>
                 </div>
       )
     }
@@ -290,15 +379,23 @@ export default function UserDetailsDialog ({ user, username: propUsername, trigg
       return (
                 <div className="text-center py-8">
                     <FileText className="mx-auto h-12 w-12 text-muted-foreground" />
-                    <h3 className="mt-2 text-sm font-medium text-muted-foreground">No user selected</h3>
+                    <h3 className="mt-2 text-sm font-medium text-muted-foreground">{_('No user selected')}</h3>
                     <p className="mt-1 text-sm text-muted-foreground">
-                        Enter a username above to view user details
+                        {_('Enter a username above to view user details')}
                     </p>
                 </div>
       )
     }
 
-    return <UserDetailsView user={displayUser} />
+    return (
+            <div className="space-y-4">
+                <div className="flex justify-end gap-2">
+                    <OffboardUserDialog user={displayUser} onOffboarded={() => refresh()} />
+                    <EditUserDialog username={displayUser.username} onUserUpdated={() => refresh()} />
+                </div>
+                <UserDetailsView user={displayUser} onChanged={() => refresh()} />
+            </div>
+    )
   }
 
   return (
@@ -307,13 +404,13 @@ export default function UserDetailsDialog ({ user, username: propUsername, trigg
                 {trigger || (
                     <Button variant="outline" size="sm">
                         <Eye className="mr-2 h-4 w-4" />
-                        View Details
+                        {_('View Details')}
                     </Button>
                 )}
             </DialogTrigger>
             <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
-                    <DialogTitle>User Details</DialogTitle>
+                    <DialogTitle>{_('User Details')}</DialogTitle>
                 </DialogHeader>
 
                 {/* Search Section (only show if no specific user provided) */}
@@ -321,11 +418,11 @@ export default function UserDetailsDialog ({ user, username: propUsername, trigg
                     <div className="flex gap-2 pb-4 border-b">
                         <div className="flex-1">
                             <Label htmlFor="search-username" className="sr-only">
-                                Username
+                                {_('Username')}
                             </Label>
                             <Input
                                 id="search-username"
-                                placeholder="Enter username to view details..."
+                                placeholder={_('Enter username to view details...')}
                                 value={searchUsername}
                                 onChange={(e) => setSearchUsername(e.target.value)}
                                 onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
@@ -336,7 +433,7 @@ export default function UserDetailsDialog ({ user, username: propUsername, trigg
                         </Button>
                         {selectedUsername && (
                             <Button variant="outline" onClick={refresh} disabled={loading}>
-                                Refresh
+                                {_('Refresh')}
                             </Button>
                         )}
                     </div>
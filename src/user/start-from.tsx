@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react'
+import { Copy, Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+
+import { UserTemplateAPI } from '@/services/user-template-api'
+import { USER_TEMPLATE_FIELDS, type UserTemplate, type UserTemplateField } from '@/services/user-template'
+import { ErrorHandler } from '@/lib/errors'
+import { _, format } from '@/lib/i18n'
+
+// What "Copy" in Users and Computers carries over; names and titles are personal
+const DEFAULT_COPY_FIELDS: UserTemplateField[] = ['department', 'company', 'profilePath', 'homeDirectory', 'homeDrive', 'scriptPath']
+
+interface StartFromProps {
+    templates: UserTemplate[];
+    /**
+     * Copy this user as soon as the picker is shown
+     */
+    copyFrom?: string;
+    onApply: (template: UserTemplate, source: string) => void;
+}
+
+export default function StartFrom ({ templates, copyFrom, onApply }: StartFromProps) {
+  const [selected, setSelected] = useState('')
+  const [username, setUsername] = useState(copyFrom ?? '')
+  const [fields, setFields] = useState<UserTemplateField[]>(DEFAULT_COPY_FIELDS)
+  const [copying, setCopying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyTemplate = (name: string) => {
+    const template = templates.find(template => template.name === name)
+    if (template) {
+      setSelected(name)
+      onApply(template, format(_('template $0'), template.name))
+    }
+  }
+
+  const copyUser = async (name: string) => {
+    if (!name.trim()) return
+
+    try {
+      setCopying(true)
+      setError(null)
+      const template = await UserTemplateAPI.fromUser(name.trim(), fields)
+      setSelected('')
+      onApply(template, format(_('user $0'), name.trim()))
+    } catch (err) {
+      setError(ErrorHandler.handle(err, 'StartFrom.copyUser', { showToast: false, rethrow: false }).message)
+    } finally {
+      setCopying(false)
+    }
+  }
+
+  useEffect(() => {
+    if (copyFrom) {
+      copyUser(copyFrom)
+    }
+    // Only when the dialog opens for another user
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [copyFrom])
+
+  const toggleField = (field: UserTemplateField, checked: boolean) => {
+    setFields(prev => checked ? [...prev, field] : prev.filter(other => other !== field))
+  }
+
+  return (
+        <div className="rounded-md border p-4 space-y-4">
+            <div className="space-y-2">
+                <Label>{_('Start from template')}</Label>
+                <Select value={selected} onValueChange={applyTemplate} disabled={templates.length === 0}>
+                    <SelectTrigger>
+                        <SelectValue placeholder={templates.length === 0 ? _('No templates saved yet') : _('Choose a template')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {templates.map(template => (
+                            <SelectItem key={template.name} value={template.name}>{template.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="copy-from">{_('Or copy an existing user')}</Label>
+                <div className="flex gap-2">
+                    <Input
+                        id="copy-from"
+                        placeholder={_('Username')}
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                    />
+                    <Button type="button" variant="outline" onClick={() => copyUser(username)} disabled={copying || !username.trim()}>
+                        {copying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Copy className="mr-2 h-4 w-4" />}
+                        {_('Copy')}
+                    </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                    {_('The container and group memberships are always copied, along with the attributes ticked below.')}
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {USER_TEMPLATE_FIELDS.map(({ field, label }) => (
+                        <div key={field} className="flex items-center gap-2">
+                            <Checkbox
+                                id={`copy-${field}`}
+                                checked={fields.includes(field)}
+                                onCheckedChange={(checked) => toggleField(field, checked === true)}
+                            />
+                            <Label htmlFor={`copy-${field}`} className="font-normal">{_(label)}</Label>
+                        </div>
+                    ))}
+                </div>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+        </div>
+  )
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useCallback } from 'react'
 import { Shield, ShieldCheck, ShieldX, UserCheck, UserX } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
@@ -14,10 +14,14 @@ import {
   AlertDialogTrigger
 } from '@/components/ui/alert-dialog'
 import { Badge } from '@/components/ui/badge'
+import { CommandPreview } from '@/components/ui/command-preview'
 
 import { useUserMutations } from './hooks/useUserMutations'
+import { UserAPI } from '@/services/user-api'
+import type { PreviewScope } from '@/services/base-api'
 import { ErrorToast, SuccessToast } from '@/common'
 import type { SambaUser } from '@/types/samba'
+import { _, format } from '@/lib/i18n'
 
 interface UserStatusToggleProps {
     user?: SambaUser;
@@ -67,6 +71,11 @@ export default function UserStatusToggle ({
     }
   })
 
+  const previewStatusChange = useCallback(
+    (api: PreviewScope) => targetStatus ? api(UserAPI).enable(username) : api(UserAPI).disable(username),
+    [targetStatus, username]
+  )
+
   const handleStatusChange = async () => {
     clearError()
 
@@ -98,13 +107,13 @@ export default function UserStatusToggle ({
                           ? (
                             <>
                                 <ShieldCheck className="mr-1 h-3 w-3" />
-                                Enabled
+                                {_('Enabled')}
                             </>
                             )
                           : (
                             <>
                                 <ShieldX className="mr-1 h-3 w-3" />
-                                Disabled
+                                {_('Disabled')}
                             </>
                             )}
                     </Badge>
@@ -133,13 +142,13 @@ export default function UserStatusToggle ({
                           ? (
                             <>
                                 <UserCheck className="mr-2 h-4 w-4" />
-                                Enable User
+                                {_('Enable User')}
                             </>
                             )
                           : (
                             <>
                                 <UserX className="mr-2 h-4 w-4" />
-                                Disable User
+                                {_('Disable User')}
                             </>
                             )}
                     </Button>
@@ -157,7 +166,7 @@ export default function UserStatusToggle ({
             )}
             {showToasts.success && (
                 <SuccessToast
-                    successMessage={`User "${username}" has been ${actionPastTense} successfully.`}
+                    successMessage={format(_('User "$0" has been $1 successfully.'), username, actionPastTense)}
                     closeModal={() => setShowToasts({ ...showToasts, success: false })}
                 />
             )}
@@ -171,13 +180,13 @@ export default function UserStatusToggle ({
                         <div className="flex items-center gap-2">
                             <Shield className="h-5 w-5 text-primary" />
                             <AlertDialogTitle>
-                                {targetStatus ? 'Enable' : 'Disable'} User Account
+                                {targetStatus ? _('Enable') : _('Disable')}{' '}{_('User Account')}
                             </AlertDialogTitle>
                         </div>
                         <AlertDialogDescription asChild>
                             <div className="space-y-3">
                                 <p>
-                                    Are you sure you want to {action} the user account for{' '}
+                                    {format(_('Are you sure you want to $0 the user account for'), action)}{' '}
                                     <strong>"{displayName}"</strong>?
                                 </p>
 
@@ -185,42 +194,44 @@ export default function UserStatusToggle ({
                                   ? (
                                     <div className="bg-green-50 border border-green-200 rounded-md p-3">
                                         <p className="text-sm text-green-800">
-                                            <strong>Enabling this account will:</strong>
+                                            <strong>{_('Enabling this account will:')}</strong>
                                         </p>
                                         <ul className="text-sm text-green-700 list-disc list-inside mt-1 space-y-1">
-                                            <li>Allow the user to log in to the domain</li>
-                                            <li>Restore access to domain resources</li>
-                                            <li>Reactivate all assigned permissions</li>
+                                            <li>{_('Allow the user to log in to the domain')}</li>
+                                            <li>{_('Restore access to domain resources')}</li>
+                                            <li>{_('Reactivate all assigned permissions')}</li>
                                         </ul>
                                     </div>
                                     )
                                   : (
                                     <div className="bg-orange-50 border border-orange-200 rounded-md p-3">
                                         <p className="text-sm text-orange-800">
-                                            <strong>Disabling this account will:</strong>
+                                            <strong>{_('Disabling this account will:')}</strong>
                                         </p>
                                         <ul className="text-sm text-orange-700 list-disc list-inside mt-1 space-y-1">
-                                            <li>Prevent the user from logging in</li>
-                                            <li>Block access to domain resources</li>
-                                            <li>Maintain the account and its data</li>
-                                            <li>Allow the account to be re-enabled later</li>
+                                            <li>{_('Prevent the user from logging in')}</li>
+                                            <li>{_('Block access to domain resources')}</li>
+                                            <li>{_('Maintain the account and its data')}</li>
+                                            <li>{_('Allow the account to be re-enabled later')}</li>
                                         </ul>
                                     </div>
                                     )}
 
                                 <p className="text-xs text-muted-foreground">
-                                    Note: This action can be reversed at any time.
+                                    {_('Note: This action can be reversed at any time.')}
                                 </p>
                             </div>
                         </AlertDialogDescription>
                     </AlertDialogHeader>
 
+                    <CommandPreview operation={previewStatusChange} disabled={!username} />
+
                     <AlertDialogFooter>
                         <AlertDialogCancel
                             onClick={() => handleOpenChange(false)}
                             disabled={enablingDisabling}
                         >
-                            Cancel
+                            {_('Cancel')}
                         </AlertDialogCancel>
                         <AlertDialogAction
                             onClick={handleStatusChange}
@@ -234,7 +245,7 @@ export default function UserStatusToggle ({
                               ? (
                                 <>
                                     <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-background border-t-transparent" />
-                                    {targetStatus ? 'Enabling...' : 'Disabling...'}
+                                    {targetStatus ? _('Enabling...') : _('Disabling...')}
                                 </>
                                 )
                               : (
@@ -246,7 +257,7 @@ export default function UserStatusToggle ({
                                       : (
                                         <UserX className="mr-2 h-4 w-4" />
                                         )}
-                                    {targetStatus ? 'Enable User' : 'Disable User'}
+                                    {targetStatus ? _('Enable User') : _('Disable User')}
                                 </>
                                 )}
                         </AlertDialogAction>
@@ -0,0 +1,163 @@
+import React, { useState } from 'react'
+import { toast } from 'sonner'
+import { LayoutTemplate, Trash2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { ErrorAlert } from '@/components/ui/error-alert'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+
+import { useUserTemplates } from './hooks/useUserTemplates'
+import { USER_TEMPLATE_FIELDS, type UserTemplate } from '@/services/user-template'
+import { _, format, formatDateTime, ngettext } from '@/lib/i18n'
+
+interface UserTemplatesDialogProps {
+    trigger?: React.ReactNode;
+}
+
+/**
+ * The saved user templates, for review and removal. Templates are created
+ * with "Save as Template" in the create user dialog.
+ */
+export default function UserTemplatesDialog ({ trigger }: UserTemplatesDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [deleting, setDeleting] = useState<UserTemplate | null>(null)
+  const [deleteBusy, setDeleteBusy] = useState(false)
+
+  const { templates, loading, error, refresh, remove } = useUserTemplates(isOpen)
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+
+    setDeleteBusy(true)
+    try {
+      await remove(deleting.name)
+      toast.success(format(_('Template "$0" deleted'), deleting.name))
+      setDeleting(null)
+    } catch (err) {
+      toast.error((err as Error).message)
+    } finally {
+      setDeleteBusy(false)
+    }
+  }
+
+  const describeAttributes = (template: UserTemplate): string =>
+    USER_TEMPLATE_FIELDS
+      .filter(({ field }) => template.attributes[field])
+      .map(({ label }) => _(label))
+      .join(', ')
+
+  return (
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline">
+                        <LayoutTemplate className="mr-2 h-4 w-4" />
+                        {_('Templates')}
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{_('User Templates')}</DialogTitle>
+                    <DialogDescription>
+                        {_('Templates are stored on the server and shared by every administrator. Save one from the create user dialog.')}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {error && (
+                    <ErrorAlert
+                        error={error}
+                        title={_('Failed to load user templates')}
+                        onRetry={refresh}
+                        retryLabel={_('Retry')}
+                    />
+                )}
+
+                {loading
+                  ? (
+                    <LoadingSpinner />
+                    )
+                  : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>{_('Name')}</TableHead>
+                                <TableHead>{_('Container')}</TableHead>
+                                <TableHead>{_('Groups')}</TableHead>
+                                <TableHead>{_('Attributes')}</TableHead>
+                                <TableHead>{_('Updated')}</TableHead>
+                                <TableHead className="w-12" />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {templates.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                                        {_('No templates saved yet')}
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {templates.map(template => (
+                                <TableRow key={template.name}>
+                                    <TableCell className="font-medium">{template.name}</TableCell>
+                                    <TableCell className="text-sm">{template.organizationalUnit || _('Default')}</TableCell>
+                                    <TableCell>
+                                        <Badge variant="secondary" title={template.groups.join(', ')}>
+                                            {format(ngettext('$0 group', '$0 groups', template.groups.length), template.groups.length)}
+                                        </Badge>
+                                    </TableCell>
+                                    <TableCell className="text-sm">{describeAttributes(template) || '—'}</TableCell>
+                                    <TableCell className="text-sm whitespace-nowrap">
+                                        {template.updatedAt ? formatDateTime(new Date(template.updatedAt)) : '—'}
+                                        {template.updatedBy && (
+                                            <div className="text-muted-foreground">{template.updatedBy}</div>
+                                        )}
+                                    </TableCell>
+                                    <TableCell>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            title={_('Delete template')}
+                                            onClick={() => setDeleting(template)}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                    )}
+
+                <ConfirmDialog
+                    isOpen={!!deleting}
+                    title={_('Delete Template')}
+                    message={format(_('Delete the template "$0"? Users created from it are not changed.'), deleting?.name || '')}
+                    confirmLabel={_('Delete')}
+                    variant="destructive"
+                    loading={deleteBusy}
+                    onConfirm={confirmDelete}
+                    onCancel={() => setDeleting(null)}
+                />
+            </DialogContent>
+        </Dialog>
+  )
+}
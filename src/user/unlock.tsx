@@ -0,0 +1,103 @@
+import React, { useCallback, useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2, LockOpen } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+import { CommandPreview } from '@/components/ui/command-preview'
+import { ErrorAlert } from '@/components/ui/error-alert'
+import { CapabilityNotice } from '@/components/layout/capability-notice'
+import { useCapability } from '@/components/layout/use-capabilities'
+
+import { useUserMutations } from './hooks/useUserMutations'
+import { UserAPI } from '@/services/user-api'
+import type { PreviewScope } from '@/services/base-api'
+import type { SambaUser } from '@/types/samba'
+import { _, format, formatDateTime } from '@/lib/i18n'
+
+interface UnlockUserDialogProps {
+  user: SambaUser;
+  onUserUnlocked?: (user: SambaUser) => void;
+  trigger?: React.ReactNode;
+}
+
+export default function UnlockUserDialog ({ user, onUserUnlocked, trigger }: UnlockUserDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const support = useCapability(UserAPI.requirements.unlock)
+
+  const { unlock, unlocking, error, clearError } = useUserMutations({
+    onSuccess: (action, unlocked) => {
+      if (action === 'unlock') {
+        toast.success(format(_('User "$0" unlocked'), user.username))
+        setIsOpen(false)
+        onUserUnlocked?.(unlocked)
+      }
+    }
+  })
+
+  const previewUnlock = useCallback((api: PreviewScope) => api(UserAPI).unlock(user.username), [user.username])
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (!open) {
+      clearError()
+    }
+  }
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm" disabled={support?.supported === false}>
+            <LockOpen className="mr-2 h-4 w-4" />
+            {_('Unlock')}
+          </Button>
+        )}
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{_('Unlock User Account')}</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>
+                {format(_('"$0" was locked out after too many bad passwords. Unlocking lets the user try again right away and resets the bad password count.'), user.displayName || user.username)}
+              </p>
+              <ul className="text-sm list-disc list-inside">
+                {user.lockoutTime && (
+                  <li>{format(_('Locked since $0'), formatDateTime(user.lockoutTime))}</li>
+                )}
+                <li>{format(_('Bad password attempts: $0'), user.badPasswordCount ?? 0)}</li>
+                {user.lastBadPassword && (
+                  <li>{format(_('Last bad password: $0'), formatDateTime(user.lastBadPassword))}</li>
+                )}
+              </ul>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && <ErrorAlert error={error} title={_('Failed to Unlock User')} />}
+        <CapabilityNotice status={support} />
+        <CommandPreview operation={previewUnlock} disabled={support?.supported === false} />
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={unlocking}>{_('Cancel')}</AlertDialogCancel>
+          <Button onClick={() => unlock(user.username)} disabled={unlocking || support?.supported === false}>
+            {unlocking
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <LockOpen className="mr-2 h-4 w-4" />}
+            {_('Unlock User')}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -1 +1,5 @@
 import '@testing-library/jest-dom';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom does not provide the encoding API that browsers have
+Object.assign(global, { TextDecoder, TextEncoder });
@@ -2,6 +2,7 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 import fs from 'fs'
+import parsePoFile from 'po2json/lib/parseFileSync.js'
 
 // Helper function to mimic webpack's vpath functionality
 function vpath(...args: string[]): string {
@@ -16,6 +17,34 @@ function vpath(...args: string[]): string {
   return path.join(srcdir, filename)
 }
 
+// Compile po/<lang>.po into po.<lang>.js. Cockpit serves it when a page
+// asks for po.js and the session language is <lang>.
+function buildTranslations(): { fileName: string, source: string }[] {
+  const podir = path.join(__dirname, 'po')
+  if (!fs.existsSync(podir)) {
+    return []
+  }
+
+  return fs.readdirSync(podir)
+    .filter(file => file.endsWith('.po'))
+    .map(file => {
+      const lang = path.basename(file, '.po')
+      const catalog = parsePoFile(path.join(podir, file), { format: 'raw' })
+      const { '': header, ...messages } = catalog
+
+      // Untranslated messages fall back to English
+      const translated = Object.fromEntries(
+        Object.entries(messages).filter(([, forms]) => (forms as unknown[]).slice(1).flat().some(Boolean))
+      )
+
+      const plural = /plural=([^;]+)/.exec(header['plural-forms'] || '')?.[1] || '(n != 1)'
+      const body = JSON.stringify({ '': { language: lang }, ...translated })
+        .replace('{"":{', `{"":{"plural-forms":function(n) { return ${plural}; },`)
+
+      return { fileName: `po.${lang}.js`, source: `cockpit.locale(${body});\n` }
+    })
+}
+
 // Define all entry points (matching webpack config)
 // For now, let's start with just the main entry to fix issues
 const entries = {
@@ -41,6 +70,10 @@ const filesToCopy = [
   'gpo/gpo.html',
   'dsacl/dsacl.html',
   'ntacl/ntacl.html',
+  'audit/audit.html',
+  'password_policy/password_policy.html',
+  'inactive/inactive.html',
+  'expiry/expiry.html',
   'manifest.json'
 ]
 
@@ -70,6 +103,10 @@ export default defineConfig({
           fileName: 'po.js',
           source: 'cockpit.locale = cockpit.locale || {};'
         })
+
+        buildTranslations().forEach(({ fileName, source }) => {
+          this.emitFile({ type: 'asset', fileName, source })
+        })
       }
     }
   ],